@@ -0,0 +1,45 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authentication;
+
+namespace SmallHR.API.Authorization;
+
+/// <summary>
+/// Lets a user with several roles act in just one of them for a request.
+/// The role is picked with the X-Active-Role header and must already be in the token,
+/// so this can only narrow what the user may do, never widen it.
+/// </summary>
+public sealed class ActiveRoleClaimsTransformation : IClaimsTransformation
+{
+    public const string HeaderName = "X-Active-Role";
+
+    private readonly IHttpContextAccessor _httpContextAccessor;
+
+    public ActiveRoleClaimsTransformation(IHttpContextAccessor httpContextAccessor)
+    {
+        _httpContextAccessor = httpContextAccessor;
+    }
+
+    public Task<ClaimsPrincipal> TransformAsync(ClaimsPrincipal principal)
+    {
+        var activeRole = _httpContextAccessor.HttpContext?.Request.Headers[HeaderName].FirstOrDefault();
+        if (string.IsNullOrWhiteSpace(activeRole) || principal.Identity is not ClaimsIdentity identity)
+        {
+            return Task.FromResult(principal);
+        }
+
+        var roleClaims = identity.FindAll(ClaimTypes.Role).ToList();
+        if (roleClaims.Count < 2 || !roleClaims.Any(c => c.Value == activeRole))
+        {
+            return Task.FromResult(principal);
+        }
+
+        // Transformations can run more than once per request, so work on a copy
+        var narrowed = identity.Clone();
+        foreach (var claim in narrowed.FindAll(ClaimTypes.Role).Where(c => c.Value != activeRole).ToList())
+        {
+            narrowed.RemoveClaim(claim);
+        }
+
+        return Task.FromResult(new ClaimsPrincipal(narrowed));
+    }
+}
@@ -15,14 +15,18 @@ public sealed class PermissionAuthorizationHandler : AuthorizationHandler<Permis
 
     protected override async Task HandleRequirementAsync(AuthorizationHandlerContext context, PermissionRequirement requirement)
     {
-        var role = context.User.FindFirst(System.Security.Claims.ClaimTypes.Role)?.Value;
-        if (string.IsNullOrEmpty(role))
+        // Users can hold several roles; a page action is allowed if any of them allows it
+        var roles = context.User.FindAll(System.Security.Claims.ClaimTypes.Role)
+            .Select(c => c.Value)
+            .Distinct()
+            .ToList();
+        if (roles.Count == 0)
         {
             return; // no role claim
         }
 
         // SuperAdmin shortcut
-        if (role == "SuperAdmin")
+        if (roles.Contains("SuperAdmin"))
         {
             context.Succeed(requirement);
             return;
@@ -32,12 +36,12 @@ public sealed class PermissionAuthorizationHandler : AuthorizationHandler<Permis
         // This is needed to ensure Admin can always access critical functionality
         
         // Allow Admin to access dashboard and role-permissions even if permissions don't exist or are false
-        if (role == "Admin" && (requirement.PagePath == "/role-permissions" || requirement.PagePath == "/dashboard"))
+        if (roles.Contains("Admin") && (requirement.PagePath == "/role-permissions" || requirement.PagePath == "/dashboard"))
         {
             // Check if Admin has the permission
             var perm = await _db.RolePermissions
                 .AsNoTracking()
-                .FirstOrDefaultAsync(p => p.RoleName == role && p.PagePath == requirement.PagePath);
+                .FirstOrDefaultAsync(p => p.RoleName == "Admin" && p.PagePath == requirement.PagePath);
 
             // For role-permissions: Allow Admin to view and initialize even if permission doesn't exist or is false
             if (requirement.PagePath == "/role-permissions")
@@ -77,23 +81,19 @@ public sealed class PermissionAuthorizationHandler : AuthorizationHandler<Permis
             }
         }
 
-        var perm2 = await _db.RolePermissions
+        var perms = await _db.RolePermissions
             .AsNoTracking()
-            .FirstOrDefaultAsync(p => p.RoleName == role && p.PagePath == requirement.PagePath);
+            .Where(p => roles.Contains(p.RoleName) && p.PagePath == requirement.PagePath)
+            .ToListAsync();
 
-        if (perm2 == null)
-        {
-            return;
-        }
-
-        var allowed = requirement.Action switch
+        var allowed = perms.Any(perm2 => requirement.Action switch
         {
             PermissionAction.View => perm2.CanView || perm2.CanAccess,
             PermissionAction.Create => perm2.CanCreate,
             PermissionAction.Edit => perm2.CanEdit,
             PermissionAction.Delete => perm2.CanDelete,
             _ => false
-        };
+        });
 
         if (allowed)
         {
@@ -40,17 +40,22 @@ public abstract class BaseApiController : ControllerBase
     /// </summary>
     protected string? CurrentUserRole => User.FindFirst(ClaimTypes.Role)?.Value;
 
+    /// <summary>
+    /// Gets all of the current user's roles from claims
+    /// </summary>
+    protected IReadOnlyList<string> CurrentUserRoles => User.FindAll(ClaimTypes.Role).Select(c => c.Value).Distinct().ToList();
+
     /// <summary>
     /// Checks if the current user is SuperAdmin
     /// </summary>
-    protected bool IsSuperAdmin => PermissionService.IsSuperAdmin(CurrentUserRole);
+    protected bool IsSuperAdmin => CurrentUserRoles.Any(PermissionService.IsSuperAdmin);
 
     /// <summary>
     /// Checks if the current user has one of the specified roles
     /// </summary>
     /// <param name="allowedRoles">Comma-separated list of allowed roles</param>
     /// <returns>True if user has one of the allowed roles</returns>
-    protected bool HasRole(string allowedRoles) => PermissionService.HasRole(CurrentUserRole, allowedRoles);
+    protected bool HasRole(string allowedRoles) => CurrentUserRoles.Any(role => PermissionService.HasRole(role, allowedRoles));
 
     /// <summary>
     /// Validates the model state and returns BadRequest if invalid
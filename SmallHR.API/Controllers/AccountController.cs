@@ -0,0 +1,202 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using SmallHR.API.Base;
+using SmallHR.Core.DTOs.Auth;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.API.Controllers;
+
+/// <summary>
+/// Self-service settings for the signed-in user: profile, password, sessions and preferences
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class AccountController : BaseApiController
+{
+    private readonly IAccountService _accountService;
+    private readonly IAuthService _authService;
+
+    public AccountController(
+        IAccountService accountService,
+        IAuthService authService,
+        ILogger<AccountController> logger)
+        : base(logger)
+    {
+        _accountService = accountService;
+        _authService = authService;
+    }
+
+    private string? CurrentUserId => User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+    private string? CurrentRefreshToken => Request.Cookies["refreshToken"];
+
+    /// <summary>
+    /// Update the signed-in user's profile
+    /// </summary>
+    [HttpPut("profile")]
+    public async Task<ActionResult<UserDto>> UpdateProfile(UpdateProfileDto updateProfileDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userId = CurrentUserId;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _accountService.UpdateProfileAsync(userId, updateProfileDto),
+            "updating profile",
+            "User"
+        );
+    }
+
+    /// <summary>
+    /// Change password; every other session is signed out
+    /// </summary>
+    [HttpPost("change-password")]
+    public async Task<ActionResult<object>> ChangePassword(ChangePasswordDto changePasswordDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userId = CurrentUserId;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            await _accountService.ChangePasswordAsync(userId, changePasswordDto);
+            var revoked = await _authService.RevokeOtherSessionsAsync(userId, CurrentRefreshToken);
+
+            Logger.LogInformation("Password changed for user {UserId}; {Revoked} other session(s) revoked", userId, revoked);
+            return Ok(new { message = "Password changed successfully", revokedSessions = revoked });
+        }
+        catch (InvalidOperationException ex)
+        {
+            Logger.LogWarning("Password change failed for user {UserId}: {Error}", userId, ex.Message);
+            return CreateBadRequestResponse(ex.Message);
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while changing password for user {UserId}", userId);
+            return CreateErrorResponse("An error occurred while changing password", ex);
+        }
+    }
+
+    /// <summary>
+    /// List the signed-in user's active sessions, most recently used first
+    /// </summary>
+    [HttpGet("sessions")]
+    public async Task<ActionResult<IEnumerable<UserSessionDto>>> GetSessions()
+    {
+        var userId = CurrentUserId;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        return await HandleCollectionResultAsync(
+            () => _authService.GetSessionsAsync(userId, CurrentRefreshToken),
+            "getting sessions"
+        );
+    }
+
+    /// <summary>
+    /// Sign out one session; its refresh token stops working immediately
+    /// </summary>
+    [HttpDelete("sessions/{id}")]
+    public async Task<ActionResult> RevokeSession(int id)
+    {
+        var userId = CurrentUserId;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            if (!await _authService.RevokeSessionAsync(userId, id))
+            {
+                return CreateNotFoundResponse("Session");
+            }
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while revoking session {SessionId}", id);
+            return CreateErrorResponse("An error occurred while revoking session", ex);
+        }
+    }
+
+    /// <summary>
+    /// Sign out every session except the one making this request
+    /// </summary>
+    [HttpDelete("sessions")]
+    public async Task<ActionResult<object>> RevokeOtherSessions()
+    {
+        var userId = CurrentUserId;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        return await HandleServiceResultAsync(
+            async () => new { revokedSessions = await _authService.RevokeOtherSessionsAsync(userId, CurrentRefreshToken) },
+            "revoking other sessions"
+        );
+    }
+
+    /// <summary>
+    /// Get the signed-in user's UI preferences
+    /// </summary>
+    [HttpGet("preferences")]
+    public async Task<ActionResult<UserPreferencesDto>> GetPreferences()
+    {
+        var userId = CurrentUserId;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _accountService.GetPreferencesAsync(userId),
+            "getting preferences",
+            "User"
+        );
+    }
+
+    /// <summary>
+    /// Save the signed-in user's UI preferences
+    /// </summary>
+    [HttpPut("preferences")]
+    public async Task<ActionResult<UserPreferencesDto>> UpdatePreferences(UpdateUserPreferencesDto updatePreferencesDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userId = CurrentUserId;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _accountService.UpdatePreferencesAsync(userId, updatePreferencesDto),
+            "updating preferences",
+            "User"
+        );
+    }
+}
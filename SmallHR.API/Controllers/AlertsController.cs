@@ -3,6 +3,7 @@ using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using SmallHR.API.Base;
 using SmallHR.API.Authorization;
+using SmallHR.Core.DTOs.LiveEvents;
 using SmallHR.Core.Entities;
 using SmallHR.Core.Interfaces;
 using SmallHR.Infrastructure.Data;
@@ -20,16 +21,22 @@ namespace SmallHR.API.Controllers;
 [AuthorizeSuperAdmin]
 public class AlertsController : BaseApiController
 {
+    private const int MaxPageSize = 100;
+    private const int MaxBulkAlerts = 200;
+
     private readonly ApplicationDbContext _context;
     private readonly IAdminAuditService _adminAuditService;
+    private readonly ILiveEventHub _liveEventHub;
 
     public AlertsController(
         ApplicationDbContext context,
         IAdminAuditService adminAuditService,
+        ILiveEventHub liveEventHub,
         ILogger<AlertsController> logger) : base(logger)
     {
         _context = context;
         _adminAuditService = adminAuditService;
+        _liveEventHub = liveEventHub;
     }
 
     /// <summary>
@@ -44,6 +51,9 @@ public class AlertsController : BaseApiController
         [FromQuery] int pageNumber = 1,
         [FromQuery] int pageSize = 20)
     {
+        pageNumber = Math.Max(pageNumber, 1);
+        pageSize = Math.Clamp(pageSize, 1, MaxPageSize);
+
         return await HandleServiceResultAsync(
             async () =>
             {
@@ -156,6 +166,7 @@ public class AlertsController : BaseApiController
                 alert.Status = "Acknowledged";
                 alert.UpdatedAt = DateTime.UtcNow;
                 await _context.SaveChangesAsync();
+                PublishUpdated(new List<Alert> { alert });
 
                 // Log action
                 await _adminAuditService.LogActionAsync(
@@ -206,6 +217,7 @@ public class AlertsController : BaseApiController
                 alert.ResolutionNotes = request?.Notes;
                 alert.UpdatedAt = DateTime.UtcNow;
                 await _context.SaveChangesAsync();
+                PublishUpdated(new List<Alert> { alert });
 
                 // Log action
                 await _adminAuditService.LogActionAsync(
@@ -229,6 +241,94 @@ public class AlertsController : BaseApiController
         );
     }
 
+    /// <summary>
+    /// Acknowledge several alerts at once; alerts that are no longer active are skipped
+    /// </summary>
+    [HttpPost("bulk/acknowledge")]
+    public async Task<ActionResult<object>> BulkAcknowledgeAlerts([FromBody] BulkAlertRequest request)
+    {
+        var validationError = ValidateBulkRequest(request);
+        if (validationError != null)
+        {
+            return validationError;
+        }
+
+        return await HandleServiceResultAsync(
+            async () =>
+            {
+                var ids = request.Ids.Distinct().ToList();
+                var alerts = await _context.Alerts
+                    .Where(a => ids.Contains(a.Id) && a.Status == "Active")
+                    .ToListAsync();
+
+                var now = DateTime.UtcNow;
+                foreach (var alert in alerts)
+                {
+                    alert.Status = "Acknowledged";
+                    alert.UpdatedAt = now;
+                }
+                await _context.SaveChangesAsync();
+                PublishUpdated(alerts);
+
+                await LogBulkActionAsync("Alert.BulkAcknowledge", "/api/admin/alerts/bulk/acknowledge", alerts, request);
+
+                return new
+                {
+                    message = $"{alerts.Count} alert(s) acknowledged",
+                    updated = alerts.Count,
+                    skipped = ids.Count - alerts.Count
+                };
+            },
+            "acknowledging alerts"
+        );
+    }
+
+    /// <summary>
+    /// Resolve several alerts at once; alerts that are already resolved are skipped
+    /// </summary>
+    [HttpPost("bulk/resolve")]
+    public async Task<ActionResult<object>> BulkResolveAlerts([FromBody] BulkAlertRequest request)
+    {
+        var validationError = ValidateBulkRequest(request);
+        if (validationError != null)
+        {
+            return validationError;
+        }
+
+        return await HandleServiceResultAsync(
+            async () =>
+            {
+                var ids = request.Ids.Distinct().ToList();
+                var alerts = await _context.Alerts
+                    .Where(a => ids.Contains(a.Id) && a.Status != "Resolved")
+                    .ToListAsync();
+
+                var adminUserId = HttpContext.User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "unknown";
+                var now = DateTime.UtcNow;
+                foreach (var alert in alerts)
+                {
+                    alert.Status = "Resolved";
+                    alert.ResolvedAt = now;
+                    alert.ResolvedBy = adminUserId;
+                    alert.ResolutionNotes = request.Notes;
+                    alert.UpdatedAt = now;
+                }
+                await _context.SaveChangesAsync();
+                PublishUpdated(alerts);
+
+                await LogBulkActionAsync("Alert.BulkResolve", "/api/admin/alerts/bulk/resolve", alerts, request);
+
+                return new
+                {
+                    message = $"{alerts.Count} alert(s) resolved",
+                    updated = alerts.Count,
+                    skipped = ids.Count - alerts.Count
+                };
+            },
+            "resolving alerts"
+        );
+    }
+
     /// <summary>
     /// Get alert statistics
     /// </summary>
@@ -240,6 +340,7 @@ public class AlertsController : BaseApiController
             {
                 var totalAlerts = await _context.Alerts.CountAsync();
                 var activeAlerts = await _context.Alerts.CountAsync(a => a.Status == "Active");
+                var criticalAlerts = await _context.Alerts.CountAsync(a => a.Severity == "Critical" && a.Status == "Active");
                 var highSeverityAlerts = await _context.Alerts.CountAsync(a => a.Severity == "High" && a.Status == "Active");
                 var paymentFailures = await _context.Alerts.CountAsync(a => a.AlertType == "PaymentFailure" && a.Status == "Active");
                 var resolvedAlerts = await _context.Alerts.CountAsync(a => a.Status == "Resolved");
@@ -260,6 +361,7 @@ public class AlertsController : BaseApiController
                 {
                     totalAlerts = totalAlerts,
                     activeAlerts = activeAlerts,
+                    criticalAlerts = criticalAlerts,
                     highSeverityAlerts = highSeverityAlerts,
                     paymentFailures = paymentFailures,
                     resolvedAlerts = resolvedAlerts,
@@ -271,7 +373,63 @@ public class AlertsController : BaseApiController
         );
     }
 
+    private ActionResult? ValidateBulkRequest(BulkAlertRequest? request)
+    {
+        if (request?.Ids == null || request.Ids.Count == 0)
+        {
+            return CreateBadRequestResponse("At least one alert ID is required");
+        }
+
+        if (request.Ids.Count > MaxBulkAlerts)
+        {
+            return CreateBadRequestResponse($"At most {MaxBulkAlerts} alerts can be updated at once");
+        }
+
+        return null;
+    }
+
+    // Other SuperAdmin sessions (Alerts Hub, header bell) refresh their counts
+    private void PublishUpdated(List<Alert> alerts)
+    {
+        if (alerts.Count == 0)
+        {
+            return;
+        }
+
+        _liveEventHub.PublishToRole("SuperAdmin", LiveEventTypes.AlertUpdated, new
+        {
+            ids = alerts.Select(a => a.Id).ToList(),
+            status = alerts[0].Status
+        });
+    }
+
+    /// <summary>
+    /// One audit entry per bulk action; the IDs actually changed go in the metadata
+    /// </summary>
+    private async Task LogBulkActionAsync(string actionType, string endpoint, List<Alert> alerts, BulkAlertRequest request)
+    {
+        var adminUser = HttpContext.User.FindFirst(ClaimTypes.Email);
+        var adminUserId = HttpContext.User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "unknown";
+        var tenantIds = alerts.Select(a => a.TenantId).Distinct().ToList();
+
+        await _adminAuditService.LogActionAsync(
+            adminUserId: adminUserId,
+            adminEmail: adminUser?.Value ?? "unknown",
+            actionType: actionType,
+            httpMethod: "POST",
+            endpoint: endpoint,
+            statusCode: 200,
+            isSuccess: true,
+            targetTenantId: tenantIds.Count == 1 ? tenantIds[0].ToString() : null,
+            targetEntityType: "Alert",
+            requestPayload: JsonSerializer.Serialize(request),
+            ipAddress: HttpContext.Connection.RemoteIpAddress?.ToString(),
+            userAgent: HttpContext.Request.Headers["User-Agent"].ToString(),
+            metadata: JsonSerializer.Serialize(new { updatedAlertIds = alerts.Select(a => a.Id) }));
+    }
+
     public record AcknowledgeAlertRequest(string? Notes = null);
     public record ResolveAlertRequest(string? Notes = null);
+    public record BulkAlertRequest(List<int> Ids, string? Notes = null);
 }
 
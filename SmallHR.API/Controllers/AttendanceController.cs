@@ -164,6 +164,26 @@ public class AttendanceController : BaseApiController
         }
     }
 
+    /// <summary>
+    /// Get per-day attendance totals across all employees
+    /// </summary>
+    [HttpGet("summary")]
+    [AuthorizeHR]
+    public async Task<ActionResult<IEnumerable<AttendanceDailySummaryDto>>> GetDailySummary(
+        [FromQuery] DateTime startDate, 
+        [FromQuery] DateTime endDate)
+    {
+        if (endDate < startDate)
+        {
+            return CreateBadRequestResponse("End date must be on or after start date");
+        }
+
+        return await HandleCollectionResultAsync(
+            () => _attendanceService.GetDailySummaryAsync(startDate, endDate),
+            $"getting attendance summary from {startDate:yyyy-MM-dd} to {endDate:yyyy-MM-dd}"
+        );
+    }
+
     /// <summary>
     /// Get attendance records by date range
     /// </summary>
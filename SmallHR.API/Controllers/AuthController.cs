@@ -125,6 +125,12 @@ public class AuthController : BaseApiController
             return BadRequest(ModelState);
         }
 
+        // Browser clients send the token in the httpOnly cookie rather than the body
+        if (string.IsNullOrWhiteSpace(refreshTokenDto.RefreshToken))
+        {
+            refreshTokenDto.RefreshToken = Request.Cookies["refreshToken"] ?? string.Empty;
+        }
+
         try
         {
             var result = await _authService.RefreshTokenAsync(refreshTokenDto);
@@ -168,7 +174,10 @@ public class AuthController : BaseApiController
         return await HandleServiceResultAsync(
             async () =>
             {
-                var result = await _authService.RevokeTokenAsync(refreshTokenDto.RefreshToken);
+                var result = await _authService.RevokeTokenAsync(
+                    string.IsNullOrWhiteSpace(refreshTokenDto.RefreshToken)
+                        ? Request.Cookies["refreshToken"] ?? string.Empty
+                        : refreshTokenDto.RefreshToken);
                 if (!result)
                 {
                     throw new InvalidOperationException("Invalid refresh token");
@@ -201,12 +210,26 @@ public class AuthController : BaseApiController
     }
     
     /// <summary>
-    /// Logout user (clear authentication cookies)
+    /// Logout user (end the session and clear authentication cookies)
     /// </summary>
     [HttpPost("logout")]
     [Authorize]
-    public ActionResult Logout()
+    public async Task<ActionResult> Logout()
     {
+        var refreshToken = Request.Cookies["refreshToken"];
+        if (!string.IsNullOrEmpty(refreshToken))
+        {
+            try
+            {
+                await _authService.RevokeTokenAsync(refreshToken);
+            }
+            catch (Exception ex)
+            {
+                // Clearing the cookies still signs this browser out
+                Logger.LogWarning(ex, "Failed to revoke session during logout");
+            }
+        }
+
         ClearAuthCookies();
         return Ok(new { message = "Logged out successfully" });
     }
@@ -92,7 +92,8 @@ public class BillingController : BaseApiController
                         tenantName = w.Tenant?.Name,
                         subscriptionId = w.SubscriptionId,
                         createdAt = w.CreatedAt,
-                        error = w.Error
+                        error = w.Error,
+                        payload = w.Payload
                     })
                 };
             },
@@ -0,0 +1,170 @@
+using System.Text;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using SmallHR.API.Base;
+using SmallHR.API.Authorization;
+using SmallHR.Core.DTOs.Calendar;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class CalendarController : BaseApiController
+{
+    private const int MaxRangeDays = 400;
+
+    private readonly ICalendarService _calendarService;
+
+    public CalendarController(ICalendarService calendarService, ILogger<CalendarController> logger)
+        : base(logger)
+    {
+        _calendarService = calendarService;
+    }
+
+    /// <summary>
+    /// Get leave, holidays, birthdays, anniversaries and events between two dates
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<CalendarEntryDto>>> GetCalendar(
+        [FromQuery] DateTime startDate,
+        [FromQuery] DateTime endDate,
+        [FromQuery] string? department = null)
+    {
+        var rangeError = ValidateRange(startDate, endDate);
+        if (rangeError != null)
+        {
+            return CreateBadRequestResponse(rangeError);
+        }
+
+        return await HandleCollectionResultAsync(
+            () => _calendarService.GetEntriesAsync(startDate, endDate, department),
+            "getting calendar entries"
+        );
+    }
+
+    /// <summary>
+    /// Export calendar entries between two dates as an iCalendar (.ics) file
+    /// </summary>
+    [HttpGet("export")]
+    public async Task<ActionResult> ExportCalendar(
+        [FromQuery] DateTime startDate,
+        [FromQuery] DateTime endDate,
+        [FromQuery] string? department = null)
+    {
+        var rangeError = ValidateRange(startDate, endDate);
+        if (rangeError != null)
+        {
+            return CreateBadRequestResponse(rangeError);
+        }
+
+        try
+        {
+            var ics = await _calendarService.ExportIcsAsync(startDate, endDate, department);
+            return File(Encoding.UTF8.GetBytes(ics), "text/calendar", "smallhr-calendar.ics");
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while {OperationName}", "exporting calendar");
+            return CreateErrorResponse("An error occurred while exporting calendar", ex);
+        }
+    }
+
+    /// <summary>
+    /// Get calendar event by ID
+    /// </summary>
+    [HttpGet("events/{id}")]
+    public async Task<ActionResult<CalendarEventDto>> GetEvent(int id)
+    {
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _calendarService.GetEventByIdAsync(id),
+            $"getting calendar event with ID {id}",
+            "Calendar event"
+        );
+    }
+
+    /// <summary>
+    /// Create a company event or public holiday
+    /// </summary>
+    [HttpPost("events")]
+    [AuthorizeHR]
+    public async Task<ActionResult<CalendarEventDto>> CreateEvent([FromBody] CreateCalendarEventDto createCalendarEventDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        if (createCalendarEventDto.EndDate.Date < createCalendarEventDto.StartDate.Date)
+        {
+            return CreateBadRequestResponse("End date must be on or after start date");
+        }
+
+        var createdBy = User.FindFirst(System.Security.Claims.ClaimTypes.Email)?.Value;
+
+        return await HandleCreateResultAsync(
+            () => _calendarService.CreateEventAsync(createCalendarEventDto, createdBy),
+            nameof(GetEvent),
+            calendarEvent => calendarEvent.Id,
+            "creating calendar event"
+        );
+    }
+
+    /// <summary>
+    /// Update calendar event
+    /// </summary>
+    [HttpPut("events/{id}")]
+    [AuthorizeHR]
+    public async Task<ActionResult<CalendarEventDto>> UpdateEvent(int id, [FromBody] UpdateCalendarEventDto updateCalendarEventDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        if (updateCalendarEventDto.EndDate.Date < updateCalendarEventDto.StartDate.Date)
+        {
+            return CreateBadRequestResponse("End date must be on or after start date");
+        }
+
+        return await HandleUpdateResultAsync(
+            () => _calendarService.EventExistsAsync(id),
+            () => _calendarService.UpdateEventAsync(id, updateCalendarEventDto),
+            id,
+            "updating calendar event",
+            "Calendar event"
+        );
+    }
+
+    /// <summary>
+    /// Delete calendar event
+    /// </summary>
+    [HttpDelete("events/{id}")]
+    [AuthorizeAdmin]
+    public async Task<ActionResult> DeleteEvent(int id)
+    {
+        return await HandleDeleteResultAsync(
+            () => _calendarService.EventExistsAsync(id),
+            () => _calendarService.DeleteEventAsync(id),
+            id,
+            "deleting calendar event",
+            "Calendar event"
+        );
+    }
+
+    private static string? ValidateRange(DateTime startDate, DateTime endDate)
+    {
+        if (endDate.Date < startDate.Date)
+        {
+            return "End date must be on or after start date";
+        }
+
+        if ((endDate.Date - startDate.Date).TotalDays > MaxRangeDays)
+        {
+            return $"Date range cannot exceed {MaxRangeDays} days";
+        }
+
+        return null;
+    }
+}
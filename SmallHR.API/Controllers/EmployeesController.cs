@@ -14,6 +14,8 @@ namespace SmallHR.API.Controllers;
 [Authorize]
 public class EmployeesController : BaseApiController
 {
+    private const string InvalidManagerMessage = "Manager must be another employee in this organization who does not report to this employee";
+
     private readonly IEmployeeService _employeeService;
 
     public EmployeesController(IEmployeeService employeeService, ILogger<EmployeesController> logger)
@@ -141,6 +143,53 @@ public class EmployeesController : BaseApiController
         }
     }
 
+    /// <summary>
+    /// Get the employee record linked to the signed-in user
+    /// </summary>
+    [HttpGet("me")]
+    public async Task<ActionResult<EmployeeDto>> GetMyEmployee()
+    {
+        var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var email = User.FindFirst(System.Security.Claims.ClaimTypes.Email)?.Value;
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _employeeService.GetEmployeeByUserIdAsync(userId, email),
+            "getting employee record for current user",
+            "Employee"
+        );
+    }
+
+    /// <summary>
+    /// Update contact and emergency details on the signed-in user's employee record
+    /// </summary>
+    [HttpPut("me")]
+    public async Task<ActionResult<EmployeeDto>> UpdateMyProfile(UpdateMyProfileDto updateMyProfileDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var email = User.FindFirst(System.Security.Claims.ClaimTypes.Email)?.Value;
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _employeeService.UpdateMyProfileAsync(userId, email, updateMyProfileDto),
+            "updating profile for current user",
+            "Employee"
+        );
+    }
+
     /// <summary>
     /// Get employee by ID
     /// </summary>
@@ -192,6 +241,12 @@ public class EmployeesController : BaseApiController
             return BadRequest(new { message = "Email already exists for another employee" });
         }
 
+        if (createEmployeeDto.ManagerId.HasValue
+            && !await _employeeService.IsValidManagerAsync(null, createEmployeeDto.ManagerId.Value))
+        {
+            return CreateBadRequestResponse(InvalidManagerMessage);
+        }
+
         return await HandleCreateResultAsync(
             () => _employeeService.CreateEmployeeAsync(createEmployeeDto),
             nameof(GetEmployee),
@@ -212,6 +267,12 @@ public class EmployeesController : BaseApiController
             return BadRequest(ModelState);
         }
 
+        if (updateEmployeeDto.ManagerId.HasValue
+            && !await _employeeService.IsValidManagerAsync(id, updateEmployeeDto.ManagerId.Value))
+        {
+            return CreateBadRequestResponse(InvalidManagerMessage);
+        }
+
         return await HandleUpdateResultAsync(
             () => _employeeService.EmployeeExistsAsync(id),
             () => _employeeService.UpdateEmployeeAsync(id, updateEmployeeDto),
@@ -221,6 +282,33 @@ public class EmployeesController : BaseApiController
         );
     }
 
+    /// <summary>
+    /// Move an employee to another department and/or manager
+    /// </summary>
+    [HttpPut("{id}/reporting-line")]
+    [AuthorizeHR]
+    public async Task<ActionResult<EmployeeDto>> UpdateReportingLine(int id, UpdateReportingLineDto updateReportingLineDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        if (updateReportingLineDto.ManagerId.HasValue
+            && !await _employeeService.IsValidManagerAsync(id, updateReportingLineDto.ManagerId.Value))
+        {
+            return CreateBadRequestResponse(InvalidManagerMessage);
+        }
+
+        return await HandleUpdateResultAsync(
+            () => _employeeService.EmployeeExistsAsync(id),
+            () => _employeeService.UpdateReportingLineAsync(id, updateReportingLineDto),
+            id,
+            "updating reporting line",
+            "Employee"
+        );
+    }
+
     /// <summary>
     /// Delete employee
     /// </summary>
@@ -0,0 +1,91 @@
+using System.Security.Claims;
+using System.Text.Json;
+using System.Threading.Channels;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using SmallHR.API.Base;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.API.Controllers;
+
+/// <summary>
+/// Live event stream (server-sent events) for signed-in sessions.
+/// Carries permission changes, alert updates and impersonation shutdowns so open tabs refresh without polling.
+/// </summary>
+[Authorize]
+[ApiController]
+[Route("api/[controller]")]
+public class EventsController : BaseApiController
+{
+    // Comment lines on an idle stream keep proxies and load balancers from closing it
+    private static readonly TimeSpan HeartbeatInterval = TimeSpan.FromSeconds(25);
+    private static readonly JsonSerializerOptions EventJsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly ILiveEventHub _liveEventHub;
+    private readonly ITenantProvider _tenantProvider;
+
+    public EventsController(
+        ILiveEventHub liveEventHub,
+        ITenantProvider tenantProvider,
+        ILogger<EventsController> logger) : base(logger)
+    {
+        _liveEventHub = liveEventHub;
+        _tenantProvider = tenantProvider;
+    }
+
+    // GET: api/events/stream
+    [HttpGet("stream")]
+    public async Task Stream(CancellationToken cancellationToken)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userId))
+        {
+            Response.StatusCode = StatusCodes.Status401Unauthorized;
+            return;
+        }
+
+        // EventSource cannot send X-Active-Role, so the stream always carries the user's full role set
+        var roles = User.FindAll(ClaimTypes.Role).Select(c => c.Value).ToList();
+        var tenantId = IsSuperAdmin ? null : _tenantProvider.TenantId;
+
+        Response.Headers.ContentType = "text/event-stream";
+        Response.Headers.CacheControl = "no-cache";
+        Response.Headers["X-Accel-Buffering"] = "no";
+
+        using var subscription = _liveEventHub.Subscribe(userId, tenantId, roles);
+
+        try
+        {
+            // Tell the browser how long to wait before reconnecting after a dropped connection
+            await Response.WriteAsync("retry: 5000\n\n", cancellationToken);
+            await Response.Body.FlushAsync(cancellationToken);
+
+            while (!cancellationToken.IsCancellationRequested)
+            {
+                using var heartbeat = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+                heartbeat.CancelAfter(HeartbeatInterval);
+
+                try
+                {
+                    var liveEvent = await subscription.Reader.ReadAsync(heartbeat.Token);
+                    var payload = JsonSerializer.Serialize(liveEvent, EventJsonOptions);
+                    await Response.WriteAsync($"event: {liveEvent.Type}\ndata: {payload}\n\n", cancellationToken);
+                }
+                catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+                {
+                    await Response.WriteAsync(": heartbeat\n\n", cancellationToken);
+                }
+
+                await Response.Body.FlushAsync(cancellationToken);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            // The browser closed the connection
+        }
+        catch (ChannelClosedException)
+        {
+            // The hub dropped this connection
+        }
+    }
+}
@@ -0,0 +1,511 @@
+using System.Security.Claims;
+using System.Text;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using SmallHR.API.Base;
+using SmallHR.API.Authorization;
+using SmallHR.Core.DTOs.Employee;
+using SmallHR.Core.DTOs.Expense;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class ExpensesController : BaseApiController
+{
+    private const long MaxReceiptBytes = 5 * 1024 * 1024;
+    private const string PendingOnlyMessage = "Only pending expense claims can be changed";
+
+    private static readonly HashSet<string> ReceiptContentTypes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "image/jpeg", "image/png", "image/gif", "image/webp", "image/heic", "application/pdf"
+    };
+
+    private readonly IExpenseService _expenseService;
+    private readonly IEmployeeService _employeeService;
+    private readonly IPayrollService _payrollService;
+    private readonly IAuthorizationService _authorizationService;
+
+    public ExpensesController(
+        IExpenseService expenseService,
+        IEmployeeService employeeService,
+        IPayrollService payrollService,
+        IAuthorizationService authorizationService,
+        ILogger<ExpensesController> logger)
+        : base(logger)
+    {
+        _expenseService = expenseService;
+        _employeeService = employeeService;
+        _payrollService = payrollService;
+        _authorizationService = authorizationService;
+    }
+
+    /// <summary>
+    /// Get expense claims submitted by the signed-in user
+    /// </summary>
+    [HttpGet("me")]
+    public async Task<ActionResult<IEnumerable<ExpenseClaimDto>>> GetMyClaims()
+    {
+        var employee = await GetCurrentEmployeeAsync();
+        if (employee == null)
+        {
+            return CreateNotFoundResponse("Employee");
+        }
+
+        return await HandleCollectionResultAsync(
+            () => _expenseService.GetClaimsByEmployeeAsync(employee.Id),
+            "getting expense claims for current user"
+        );
+    }
+
+    /// <summary>
+    /// Get expense claims from the signed-in user's direct reports
+    /// </summary>
+    [HttpGet("team")]
+    public async Task<ActionResult<IEnumerable<ExpenseClaimDto>>> GetTeamClaims([FromQuery] string? status = null)
+    {
+        var employee = await GetCurrentEmployeeAsync();
+        if (employee == null)
+        {
+            return CreateNotFoundResponse("Employee");
+        }
+
+        return await HandleCollectionResultAsync(
+            () => _expenseService.GetTeamClaimsAsync(employee.Id, status),
+            "getting team expense claims"
+        );
+    }
+
+    /// <summary>
+    /// Get all expense claims, optionally filtered by status
+    /// </summary>
+    [HttpGet]
+    [AuthorizeHR]
+    public async Task<ActionResult<IEnumerable<ExpenseClaimDto>>> GetClaims([FromQuery] string? status = null)
+    {
+        return await HandleCollectionResultAsync(
+            () => _expenseService.GetClaimsAsync(status),
+            "getting expense claims"
+        );
+    }
+
+    /// <summary>
+    /// Get expense claim by ID; visible to the claimant, their manager and HR
+    /// </summary>
+    [HttpGet("{id}")]
+    public async Task<ActionResult<ExpenseClaimDto>> GetClaim(int id)
+    {
+        var (claim, error) = await GetVisibleClaimAsync(id);
+        if (claim == null)
+        {
+            return error!;
+        }
+
+        return Ok(claim);
+    }
+
+    /// <summary>
+    /// Submit an expense claim for the signed-in user
+    /// </summary>
+    [HttpPost]
+    [HasPermission("/expenses", PermissionAction.Create)]
+    public async Task<ActionResult<ExpenseClaimDto>> CreateClaim([FromBody] CreateExpenseClaimDto createExpenseClaimDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var employee = await GetCurrentEmployeeAsync();
+        if (employee == null)
+        {
+            return CreateNotFoundResponse("Employee");
+        }
+
+        return await HandleCreateResultAsync(
+            () => _expenseService.CreateClaimAsync(employee.Id, createExpenseClaimDto),
+            nameof(GetClaim),
+            claim => claim.Id,
+            "creating expense claim"
+        );
+    }
+
+    /// <summary>
+    /// Update a pending expense claim; only the claimant can change it
+    /// </summary>
+    [HttpPut("{id}")]
+    public async Task<ActionResult<ExpenseClaimDto>> UpdateClaim(int id, [FromBody] UpdateExpenseClaimDto updateExpenseClaimDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var (claim, error) = await GetOwnPendingClaimAsync(id);
+        if (claim == null)
+        {
+            return error!;
+        }
+
+        return await HandleUpdateResultAsync(
+            () => _expenseService.ClaimExistsAsync(id),
+            () => _expenseService.UpdateClaimAsync(id, updateExpenseClaimDto),
+            id,
+            "updating expense claim",
+            "Expense claim"
+        );
+    }
+
+    /// <summary>
+    /// Withdraw a pending claim (claimant) or delete any claim not yet batched (Admin)
+    /// </summary>
+    [HttpDelete("{id}")]
+    public async Task<ActionResult> DeleteClaim(int id)
+    {
+        var (claim, error) = await GetVisibleClaimAsync(id);
+        if (claim == null)
+        {
+            return error!;
+        }
+
+        var employee = await GetCurrentEmployeeAsync();
+        var isOwnPending = claim.EmployeeId == employee?.Id && claim.Status == "Pending";
+        var canDelete = isOwnPending
+            ? await HasExpensesPermissionAsync(PermissionAction.Create)
+            : HasRole("Admin") && await HasExpensesPermissionAsync(PermissionAction.Delete);
+        if (!canDelete)
+        {
+            return Forbid();
+        }
+
+        if (claim.ReimbursementBatchId != null)
+        {
+            return CreateBadRequestResponse("Expense claims in a reimbursement batch cannot be deleted");
+        }
+
+        return await HandleDeleteResultAsync(
+            () => _expenseService.ClaimExistsAsync(id),
+            () => _expenseService.DeleteClaimAsync(id),
+            id,
+            "deleting expense claim",
+            "Expense claim"
+        );
+    }
+
+    /// <summary>
+    /// Approve or reject a pending expense claim (HR or the claimant's manager)
+    /// </summary>
+    [HttpPut("{id}/review")]
+    public async Task<ActionResult<ExpenseClaimDto>> ReviewClaim(int id, [FromBody] ReviewExpenseClaimDto reviewExpenseClaimDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var (claim, error) = await GetVisibleClaimAsync(id);
+        if (claim == null)
+        {
+            return error!;
+        }
+
+        var employee = await GetCurrentEmployeeAsync();
+        if (claim.EmployeeId == employee?.Id)
+        {
+            return CreateBadRequestResponse("You cannot review your own expense claim");
+        }
+
+        var canReview = claim.ManagerId == employee?.Id
+            || (HasRole("Admin,HR") && await HasExpensesPermissionAsync(PermissionAction.Edit));
+        if (!canReview)
+        {
+            return Forbid();
+        }
+
+        if (claim.Status != "Pending")
+        {
+            return CreateBadRequestResponse("Only pending expense claims can be reviewed");
+        }
+
+        var reviewedBy = User.FindFirst(ClaimTypes.Email)?.Value
+            ?? User.Identity?.Name
+            ?? "Unknown";
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _expenseService.ReviewClaimAsync(id, reviewExpenseClaimDto, reviewedBy),
+            $"reviewing expense claim with ID {id}",
+            "Expense claim"
+        );
+    }
+
+    /// <summary>
+    /// Attach a receipt image or PDF (max 5 MB) to a pending claim
+    /// </summary>
+    [HttpPost("{id}/receipts")]
+    [RequestSizeLimit(MaxReceiptBytes + 64 * 1024)]
+    public async Task<ActionResult<ExpenseReceiptDto>> UploadReceipt(int id, IFormFile file)
+    {
+        var (claim, error) = await GetOwnPendingClaimAsync(id);
+        if (claim == null)
+        {
+            return error!;
+        }
+
+        if (file == null || file.Length == 0)
+        {
+            return CreateBadRequestResponse("Receipt file is empty");
+        }
+
+        if (file.Length > MaxReceiptBytes)
+        {
+            return CreateBadRequestResponse("Receipts must be 5 MB or smaller");
+        }
+
+        if (!ReceiptContentTypes.Contains(file.ContentType))
+        {
+            return CreateBadRequestResponse("Receipts must be an image or a PDF");
+        }
+
+        return await HandleServiceResultAsync(
+            async () =>
+            {
+                using var stream = new MemoryStream();
+                await file.CopyToAsync(stream);
+                return await _expenseService.AddReceiptAsync(id, Path.GetFileName(file.FileName), file.ContentType, stream.ToArray());
+            },
+            $"uploading receipt for expense claim {id}"
+        );
+    }
+
+    /// <summary>
+    /// Download a receipt attached to a claim
+    /// </summary>
+    [HttpGet("{id}/receipts/{receiptId}")]
+    public async Task<ActionResult> DownloadReceipt(int id, int receiptId)
+    {
+        var (claim, error) = await GetVisibleClaimAsync(id);
+        if (claim == null)
+        {
+            return error!;
+        }
+
+        try
+        {
+            var receipt = await _expenseService.GetReceiptFileAsync(id, receiptId);
+            if (receipt == null)
+            {
+                return CreateNotFoundResponse("Receipt");
+            }
+
+            return File(receipt.Content, receipt.ContentType, receipt.FileName);
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while {OperationName}", $"downloading receipt {receiptId}");
+            return CreateErrorResponse("An error occurred while downloading receipt", ex);
+        }
+    }
+
+    /// <summary>
+    /// Remove a receipt from a pending claim
+    /// </summary>
+    [HttpDelete("{id}/receipts/{receiptId}")]
+    public async Task<ActionResult> DeleteReceipt(int id, int receiptId)
+    {
+        var (claim, error) = await GetOwnPendingClaimAsync(id);
+        if (claim == null)
+        {
+            return error!;
+        }
+
+        try
+        {
+            var deleted = await _expenseService.DeleteReceiptAsync(id, receiptId);
+            return deleted ? NoContent() : CreateNotFoundResponse("Receipt");
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while {OperationName}", $"deleting receipt {receiptId}");
+            return CreateErrorResponse("An error occurred while deleting receipt", ex);
+        }
+    }
+
+    /// <summary>
+    /// Get reimbursement batches, most recent payroll period first
+    /// </summary>
+    [HttpGet("batches")]
+    [AuthorizeHR]
+    public async Task<ActionResult<IEnumerable<ReimbursementBatchDto>>> GetBatches()
+    {
+        return await HandleCollectionResultAsync(
+            () => _expenseService.GetBatchesAsync(),
+            "getting reimbursement batches"
+        );
+    }
+
+    /// <summary>
+    /// Get reimbursement batch by ID
+    /// </summary>
+    [HttpGet("batches/{id}")]
+    [AuthorizeHR]
+    public async Task<ActionResult<ReimbursementBatchDto>> GetBatch(int id)
+    {
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _expenseService.GetBatchByIdAsync(id),
+            $"getting reimbursement batch with ID {id}",
+            "Reimbursement batch"
+        );
+    }
+
+    /// <summary>
+    /// Batch every approved, unbatched claim in a currency for repayment with a month's payroll
+    /// </summary>
+    [HttpPost("batches")]
+    [AuthorizeHR]
+    public async Task<ActionResult<ReimbursementBatchDto>> CreateBatch([FromBody] CreateReimbursementBatchDto createReimbursementBatchDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var year = createReimbursementBatchDto.PayrollYear;
+        var month = createReimbursementBatchDto.PayrollMonth;
+        var payRuns = await _payrollService.GetPayRunsAsync(year);
+        if (payRuns.Any(r => r.Month == month && r.Status == "Finalized"))
+        {
+            return CreateBadRequestResponse($"The pay run for {month}/{year} is already finalized");
+        }
+
+        if (!await _expenseService.HasClaimsToBatchAsync(createReimbursementBatchDto.Currency))
+        {
+            return CreateBadRequestResponse($"There are no approved {createReimbursementBatchDto.Currency} claims waiting for reimbursement");
+        }
+
+        var createdBy = User.FindFirst(ClaimTypes.Email)?.Value;
+
+        return await HandleCreateResultAsync(
+            () => _expenseService.CreateBatchAsync(createReimbursementBatchDto, createdBy),
+            nameof(GetBatch),
+            batch => batch.Id,
+            "creating reimbursement batch"
+        );
+    }
+
+    /// <summary>
+    /// Export a reimbursement batch as CSV, one row per claim
+    /// </summary>
+    [HttpGet("batches/{id}/export")]
+    [AuthorizeHR]
+    public async Task<ActionResult> ExportBatch(int id)
+    {
+        try
+        {
+            var csv = await _expenseService.ExportBatchCsvAsync(id);
+            if (csv == null)
+            {
+                return CreateNotFoundResponse("Reimbursement batch");
+            }
+
+            return File(Encoding.UTF8.GetBytes(csv), "text/csv", $"reimbursement-batch-{id}.csv");
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while {OperationName}", $"exporting reimbursement batch {id}");
+            return CreateErrorResponse("An error occurred while exporting reimbursement batch", ex);
+        }
+    }
+
+    /// <summary>
+    /// Delete an unpaid reimbursement batch, releasing its claims
+    /// </summary>
+    [HttpDelete("batches/{id}")]
+    [AuthorizeAdmin]
+    public async Task<ActionResult> DeleteBatch(int id)
+    {
+        if (await _expenseService.IsBatchPaidAsync(id))
+        {
+            return CreateBadRequestResponse("Paid reimbursement batches cannot be deleted");
+        }
+
+        return await HandleDeleteResultAsync(
+            () => _expenseService.BatchExistsAsync(id),
+            () => _expenseService.DeleteBatchAsync(id),
+            id,
+            "deleting reimbursement batch",
+            "Reimbursement batch"
+        );
+    }
+
+    private async Task<EmployeeDto?> GetCurrentEmployeeAsync()
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return null;
+        }
+
+        var email = User.FindFirst(ClaimTypes.Email)?.Value;
+        return await _employeeService.GetEmployeeByUserIdAsync(userId, email);
+    }
+
+    // Same check as [HasPermission("/expenses", action)], for endpoints where the rule depends on the claim
+    private async Task<bool> HasExpensesPermissionAsync(PermissionAction action)
+    {
+        var result = await _authorizationService.AuthorizeAsync(User, $"Permission:/expenses:{action}");
+        return result.Succeeded;
+    }
+
+    // Claims outside the caller's reach are reported as missing rather than forbidden
+    private async Task<(ExpenseClaimDto? Claim, ActionResult? Error)> GetVisibleClaimAsync(int id)
+    {
+        var claim = await _expenseService.GetClaimByIdAsync(id);
+        if (claim == null)
+        {
+            return (null, CreateNotFoundResponse("Expense claim"));
+        }
+
+        if (HasRole("Admin,HR"))
+        {
+            return (claim, null);
+        }
+
+        var employee = await GetCurrentEmployeeAsync();
+        if (employee != null && (claim.EmployeeId == employee.Id || claim.ManagerId == employee.Id))
+        {
+            return (claim, null);
+        }
+
+        return (null, CreateNotFoundResponse("Expense claim"));
+    }
+
+    private async Task<(ExpenseClaimDto? Claim, ActionResult? Error)> GetOwnPendingClaimAsync(int id)
+    {
+        var (claim, error) = await GetVisibleClaimAsync(id);
+        if (claim == null)
+        {
+            return (null, error);
+        }
+
+        var employee = await GetCurrentEmployeeAsync();
+        if (claim.EmployeeId != employee?.Id)
+        {
+            return (null, Forbid());
+        }
+
+        if (claim.Status != "Pending")
+        {
+            return (null, CreateBadRequestResponse(PendingOnlyMessage));
+        }
+
+        // Claimants change their own pending claims and receipts under the permission that let them submit it
+        if (!await HasExpensesPermissionAsync(PermissionAction.Create))
+        {
+            return (null, Forbid());
+        }
+
+        return (claim, null);
+    }
+}
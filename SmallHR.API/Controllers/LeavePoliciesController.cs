@@ -0,0 +1,109 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using SmallHR.API.Base;
+using SmallHR.API.Authorization;
+using SmallHR.Core.DTOs.LeavePolicy;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class LeavePoliciesController : BaseApiController
+{
+    private readonly ILeavePolicyService _leavePolicyService;
+
+    public LeavePoliciesController(ILeavePolicyService leavePolicyService, ILogger<LeavePoliciesController> logger)
+        : base(logger)
+    {
+        _leavePolicyService = leavePolicyService;
+    }
+
+    /// <summary>
+    /// Get all leave policies for the current tenant
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<LeavePolicyDto>>> GetLeavePolicies()
+    {
+        return await HandleCollectionResultAsync(
+            () => _leavePolicyService.GetAllLeavePoliciesAsync(),
+            "getting leave policies"
+        );
+    }
+
+    /// <summary>
+    /// Get leave policy by ID
+    /// </summary>
+    [HttpGet("{id}")]
+    public async Task<ActionResult<LeavePolicyDto>> GetLeavePolicy(int id)
+    {
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _leavePolicyService.GetLeavePolicyByIdAsync(id),
+            $"getting leave policy with ID {id}",
+            "Leave policy"
+        );
+    }
+
+    /// <summary>
+    /// Create leave policy
+    /// </summary>
+    [HttpPost]
+    [AuthorizeHR]
+    public async Task<ActionResult<LeavePolicyDto>> CreateLeavePolicy([FromBody] CreateLeavePolicyDto createLeavePolicyDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        if (await _leavePolicyService.LeaveTypeExistsAsync(createLeavePolicyDto.LeaveType))
+        {
+            return CreateBadRequestResponse($"A policy for {createLeavePolicyDto.LeaveType} leave already exists");
+        }
+
+        return await HandleCreateResultAsync(
+            () => _leavePolicyService.CreateLeavePolicyAsync(createLeavePolicyDto),
+            nameof(GetLeavePolicy),
+            policy => policy.Id,
+            "creating leave policy"
+        );
+    }
+
+    /// <summary>
+    /// Update leave policy
+    /// </summary>
+    [HttpPut("{id}")]
+    [AuthorizeHR]
+    public async Task<ActionResult<LeavePolicyDto>> UpdateLeavePolicy(int id, [FromBody] UpdateLeavePolicyDto updateLeavePolicyDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        return await HandleUpdateResultAsync(
+            () => _leavePolicyService.LeavePolicyExistsAsync(id),
+            () => _leavePolicyService.UpdateLeavePolicyAsync(id, updateLeavePolicyDto),
+            id,
+            "updating leave policy",
+            "Leave policy"
+        );
+    }
+
+    /// <summary>
+    /// Delete leave policy
+    /// </summary>
+    [HttpDelete("{id}")]
+    [AuthorizeAdmin]
+    public async Task<ActionResult> DeleteLeavePolicy(int id)
+    {
+        return await HandleDeleteResultAsync(
+            () => _leavePolicyService.LeavePolicyExistsAsync(id),
+            () => _leavePolicyService.DeleteLeavePolicyAsync(id),
+            id,
+            "deleting leave policy",
+            "Leave policy"
+        );
+    }
+}
@@ -73,12 +73,21 @@ public class LeaveRequestsController : BaseApiController
             return BadRequest(ModelState);
         }
 
-        return await HandleCreateResultAsync(
-            () => _leaveRequestService.CreateLeaveRequestAsync(createLeaveRequestDto),
-            nameof(GetLeaveRequest),
-            lr => lr.Id,
-            "creating leave request"
-        );
+        try
+        {
+            var leaveRequest = await _leaveRequestService.CreateLeaveRequestAsync(createLeaveRequestDto);
+            return CreatedAtAction(nameof(GetLeaveRequest), new { id = leaveRequest.Id }, leaveRequest);
+        }
+        catch (InvalidOperationException ex)
+        {
+            // Leave policy rejected the request (balance or probation)
+            return CreateBadRequestResponse(ex.Message);
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while creating leave request");
+            return CreateErrorResponse("An error occurred while creating leave request", ex);
+        }
     }
 
     /// <summary>
@@ -92,13 +101,26 @@ public class LeaveRequestsController : BaseApiController
             return BadRequest(ModelState);
         }
 
-        return await HandleUpdateResultAsync(
-            () => _leaveRequestService.LeaveRequestExistsAsync(id),
-            () => _leaveRequestService.UpdateLeaveRequestAsync(id, updateLeaveRequestDto),
-            id,
-            "updating leave request",
-            "LeaveRequest"
-        );
+        try
+        {
+            var leaveRequest = await _leaveRequestService.UpdateLeaveRequestAsync(id, updateLeaveRequestDto);
+            if (leaveRequest == null)
+            {
+                return NotFound();
+            }
+
+            return Ok(leaveRequest);
+        }
+        catch (InvalidOperationException ex)
+        {
+            // Leave policy rejected the request (balance or probation)
+            return CreateBadRequestResponse(ex.Message);
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while updating leave request with ID {LeaveRequestId}", id);
+            return CreateErrorResponse("An error occurred while updating leave request", ex);
+        }
     }
 
     /// <summary>
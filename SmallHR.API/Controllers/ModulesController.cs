@@ -101,6 +101,7 @@ public class ModulesController : BaseApiController
             new Core.Entities.Module { TenantId = tenantId, Name = "Payroll Reports", Path = "/payroll/reports", ParentPath = "/payroll", Icon = "bar-chart", DisplayOrder = 1, IsActive = true, Description = "Reports", CreatedAt = now, IsDeleted = false },
             new Core.Entities.Module { TenantId = tenantId, Name = "Payroll Settings", Path = "/payroll/settings", ParentPath = "/payroll", Icon = "setting", DisplayOrder = 2, IsActive = true, Description = "Settings", CreatedAt = now, IsDeleted = false },
             new Core.Entities.Module { TenantId = tenantId, Name = "Tenant Settings", Path = "/tenant-settings", ParentPath = null, Icon = "apartment", DisplayOrder = 98, IsActive = true, Description = "Manage tenants", CreatedAt = now, IsDeleted = false },
+            new Core.Entities.Module { TenantId = tenantId, Name = "Billing", Path = "/billing", ParentPath = null, Icon = "dollar", DisplayOrder = 98, IsActive = true, Description = "Subscription plan and usage", CreatedAt = now, IsDeleted = false },
             new Core.Entities.Module { TenantId = tenantId, Name = "Role Permissions", Path = "/role-permissions", ParentPath = null, Icon = "safety", DisplayOrder = 99, IsActive = true, Description = "Access control", CreatedAt = now, IsDeleted = false },
         };
 
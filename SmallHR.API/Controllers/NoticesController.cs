@@ -0,0 +1,236 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using SmallHR.API.Base;
+using SmallHR.API.Authorization;
+using SmallHR.Core.DTOs.Notice;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class NoticesController : BaseApiController
+{
+    private readonly INoticeService _noticeService;
+    private readonly IEmployeeService _employeeService;
+
+    public NoticesController(
+        INoticeService noticeService,
+        IEmployeeService employeeService,
+        ILogger<NoticesController> logger)
+        : base(logger)
+    {
+        _noticeService = noticeService;
+        _employeeService = employeeService;
+    }
+
+    /// <summary>
+    /// Get published notices targeted at the signed-in user, pinned first
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<NoticeDto>>> GetMyNotices()
+    {
+        var audience = await GetAudienceAsync();
+        if (audience == null)
+        {
+            return Unauthorized();
+        }
+
+        return await HandleCollectionResultAsync(
+            () => _noticeService.GetFeedAsync(audience),
+            "getting notices for current user"
+        );
+    }
+
+    /// <summary>
+    /// Count published notices the signed-in user has not read yet
+    /// </summary>
+    [HttpGet("unread-count")]
+    public async Task<ActionResult<object>> GetUnreadCount()
+    {
+        var audience = await GetAudienceAsync();
+        if (audience == null)
+        {
+            return Unauthorized();
+        }
+
+        return await HandleServiceResultAsync(
+            async () => new { count = await _noticeService.GetUnreadCountAsync(audience) },
+            "counting unread notices"
+        );
+    }
+
+    /// <summary>
+    /// Get every notice, including scheduled and expired ones, with read counts
+    /// </summary>
+    [HttpGet("manage")]
+    [AuthorizeHR]
+    public async Task<ActionResult<IEnumerable<NoticeDto>>> GetAllNotices()
+    {
+        return await HandleCollectionResultAsync(
+            () => _noticeService.GetAllNoticesAsync(),
+            "getting all notices"
+        );
+    }
+
+    /// <summary>
+    /// Get notice by ID
+    /// </summary>
+    [HttpGet("{id}")]
+    [AuthorizeHR]
+    public async Task<ActionResult<NoticeDto>> GetNotice(int id)
+    {
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _noticeService.GetNoticeByIdAsync(id),
+            $"getting notice with ID {id}",
+            "Notice"
+        );
+    }
+
+    /// <summary>
+    /// Post a notice, optionally targeted, pinned, scheduled or expiring
+    /// </summary>
+    [HttpPost]
+    [AuthorizeHR]
+    public async Task<ActionResult<NoticeDto>> CreateNotice([FromBody] CreateNoticeDto createNoticeDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var scheduleError = ValidateSchedule(createNoticeDto);
+        if (scheduleError != null)
+        {
+            return CreateBadRequestResponse(scheduleError);
+        }
+
+        var createdBy = User.FindFirst(ClaimTypes.Email)?.Value;
+
+        return await HandleCreateResultAsync(
+            () => _noticeService.CreateNoticeAsync(createNoticeDto, createdBy),
+            nameof(GetNotice),
+            notice => notice.Id,
+            "creating notice"
+        );
+    }
+
+    /// <summary>
+    /// Update notice
+    /// </summary>
+    [HttpPut("{id}")]
+    [AuthorizeHR]
+    public async Task<ActionResult<NoticeDto>> UpdateNotice(int id, [FromBody] UpdateNoticeDto updateNoticeDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var scheduleError = ValidateSchedule(updateNoticeDto);
+        if (scheduleError != null)
+        {
+            return CreateBadRequestResponse(scheduleError);
+        }
+
+        return await HandleUpdateResultAsync(
+            () => _noticeService.NoticeExistsAsync(id),
+            () => _noticeService.UpdateNoticeAsync(id, updateNoticeDto),
+            id,
+            "updating notice",
+            "Notice"
+        );
+    }
+
+    /// <summary>
+    /// Delete notice
+    /// </summary>
+    [HttpDelete("{id}")]
+    [AuthorizeAdmin]
+    public async Task<ActionResult> DeleteNotice(int id)
+    {
+        return await HandleDeleteResultAsync(
+            () => _noticeService.NoticeExistsAsync(id),
+            () => _noticeService.DeleteNoticeAsync(id),
+            id,
+            "deleting notice",
+            "Notice"
+        );
+    }
+
+    /// <summary>
+    /// Record that the signed-in user has read a notice
+    /// </summary>
+    [HttpPost("{id}/read")]
+    public async Task<ActionResult> MarkAsRead(int id)
+    {
+        var audience = await GetAudienceAsync();
+        if (audience == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var found = await _noticeService.MarkAsReadAsync(id, audience);
+            return found ? NoContent() : CreateNotFoundResponse("Notice");
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while {OperationName}", $"marking notice {id} as read");
+            return CreateErrorResponse("An error occurred while marking notice as read", ex);
+        }
+    }
+
+    /// <summary>
+    /// Get read receipts for a notice, most recent first
+    /// </summary>
+    [HttpGet("{id}/receipts")]
+    [AuthorizeHR]
+    public async Task<ActionResult<IEnumerable<NoticeReceiptDto>>> GetReceipts(int id)
+    {
+        if (!await _noticeService.NoticeExistsAsync(id))
+        {
+            return CreateNotFoundResponse("Notice");
+        }
+
+        return await HandleCollectionResultAsync(
+            () => _noticeService.GetReceiptsAsync(id),
+            $"getting read receipts for notice {id}"
+        );
+    }
+
+    private async Task<NoticeAudienceDto?> GetAudienceAsync()
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return null;
+        }
+
+        // Users without an employee record (e.g. tenant admins) still see untargeted notices
+        var email = User.FindFirst(ClaimTypes.Email)?.Value;
+        var employee = await _employeeService.GetEmployeeByUserIdAsync(userId, email);
+
+        return new NoticeAudienceDto
+        {
+            UserId = userId,
+            ReaderName = employee != null ? $"{employee.FirstName} {employee.LastName}" : email ?? userId,
+            Department = employee?.Department,
+            Roles = User.FindAll(ClaimTypes.Role).Select(c => c.Value).ToList()
+        };
+    }
+
+    private static string? ValidateSchedule(CreateNoticeDto noticeDto)
+    {
+        var publishAt = noticeDto.PublishAt ?? DateTime.UtcNow;
+        if (noticeDto.ExpiresAt.HasValue && noticeDto.ExpiresAt.Value <= publishAt)
+        {
+            return "Expiry must be after the publish time";
+        }
+
+        return null;
+    }
+}
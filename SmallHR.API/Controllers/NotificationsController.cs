@@ -0,0 +1,174 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using SmallHR.API.Base;
+using SmallHR.Core.DTOs;
+using SmallHR.Core.DTOs.Notification;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.API.Controllers;
+
+/// <summary>
+/// The signed-in user's notification inbox
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class NotificationsController : BaseApiController
+{
+    private const int MaxPageSize = 50;
+
+    private readonly IUserNotificationService _notificationService;
+
+    public NotificationsController(
+        IUserNotificationService notificationService,
+        ILogger<NotificationsController> logger)
+        : base(logger)
+    {
+        _notificationService = notificationService;
+    }
+
+    /// <summary>
+    /// Get the signed-in user's notifications, newest first
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<PagedResponse<UserNotificationDto>>> GetNotifications(
+        [FromQuery] bool unreadOnly = false,
+        [FromQuery] int pageNumber = 1,
+        [FromQuery] int pageSize = 20)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        pageNumber = Math.Max(pageNumber, 1);
+        pageSize = Math.Clamp(pageSize, 1, MaxPageSize);
+
+        return await HandleServiceResultAsync(
+            () => _notificationService.GetNotificationsAsync(userId, unreadOnly, pageNumber, pageSize),
+            "getting notifications for current user"
+        );
+    }
+
+    /// <summary>
+    /// Count the signed-in user's unread notifications
+    /// </summary>
+    [HttpGet("unread-count")]
+    public async Task<ActionResult<object>> GetUnreadCount()
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        return await HandleServiceResultAsync(
+            async () => new { count = await _notificationService.GetUnreadCountAsync(userId) },
+            "counting unread notifications"
+        );
+    }
+
+    /// <summary>
+    /// Record a notification in the signed-in user's own inbox, e.g. the outcome of an action they just took.
+    /// Returns 204 when the user has muted the category.
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<UserNotificationDto>> CreateNotification([FromBody] CreateUserNotificationDto createNotificationDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var notification = await _notificationService.NotifyUserAsync(userId, createNotificationDto);
+            return notification != null ? Ok(notification) : NoContent();
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while {OperationName}", "recording notification");
+            return CreateErrorResponse("An error occurred while recording notification", ex);
+        }
+    }
+
+    /// <summary>
+    /// Mark one of the signed-in user's notifications as read
+    /// </summary>
+    [HttpPost("{id}/read")]
+    public async Task<ActionResult> MarkAsRead(int id)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var found = await _notificationService.MarkAsReadAsync(userId, id);
+            return found ? NoContent() : CreateNotFoundResponse("Notification");
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while {OperationName}", $"marking notification {id} as read");
+            return CreateErrorResponse("An error occurred while marking notification as read", ex);
+        }
+    }
+
+    /// <summary>
+    /// Mark all of the signed-in user's notifications as read
+    /// </summary>
+    [HttpPost("read-all")]
+    public async Task<ActionResult<object>> MarkAllAsRead()
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        return await HandleServiceResultAsync(
+            async () => new { updated = await _notificationService.MarkAllAsReadAsync(userId) },
+            "marking all notifications as read"
+        );
+    }
+
+    /// <summary>
+    /// Remove a notification from the signed-in user's inbox
+    /// </summary>
+    [HttpDelete("{id}")]
+    public async Task<ActionResult> DeleteNotification(int id)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var found = await _notificationService.DeleteNotificationAsync(userId, id);
+            return found ? NoContent() : CreateNotFoundResponse("Notification");
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while {OperationName}", $"deleting notification {id}");
+            return CreateErrorResponse("An error occurred while deleting notification", ex);
+        }
+    }
+
+    private string? GetUserId()
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        return string.IsNullOrEmpty(userId) ? null : userId;
+    }
+}
@@ -0,0 +1,253 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using SmallHR.API.Base;
+using SmallHR.API.Authorization;
+using SmallHR.Core.DTOs.Payroll;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.API.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class PayrollController : BaseApiController
+{
+    private const string FinalizedPayRunMessage = "Finalized pay runs cannot be changed";
+
+    private readonly IPayrollService _payrollService;
+    private readonly IEmployeeService _employeeService;
+
+    public PayrollController(
+        IPayrollService payrollService,
+        IEmployeeService employeeService,
+        ILogger<PayrollController> logger)
+        : base(logger)
+    {
+        _payrollService = payrollService;
+        _employeeService = employeeService;
+    }
+
+    /// <summary>
+    /// Get payroll settings for the current tenant
+    /// </summary>
+    [HttpGet("settings")]
+    [AuthorizeHR]
+    public async Task<ActionResult<PayrollSettingsDto>> GetSettings()
+    {
+        return await HandleServiceResultAsync(
+            () => _payrollService.GetSettingsAsync(),
+            "getting payroll settings"
+        );
+    }
+
+    /// <summary>
+    /// Update payroll settings for the current tenant
+    /// </summary>
+    [HttpPut("settings")]
+    [AuthorizeHR]
+    public async Task<ActionResult<PayrollSettingsDto>> UpdateSettings([FromBody] UpdatePayrollSettingsDto updatePayrollSettingsDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        return await HandleServiceResultAsync(
+            () => _payrollService.UpdateSettingsAsync(updatePayrollSettingsDto),
+            "updating payroll settings"
+        );
+    }
+
+    /// <summary>
+    /// Get pay runs, optionally for a single year
+    /// </summary>
+    [HttpGet("runs")]
+    [AuthorizeHR]
+    public async Task<ActionResult<IEnumerable<PayRunDto>>> GetPayRuns([FromQuery] int? year = null)
+    {
+        return await HandleCollectionResultAsync(
+            () => _payrollService.GetPayRunsAsync(year),
+            "getting pay runs"
+        );
+    }
+
+    /// <summary>
+    /// Get a pay run with its payslips
+    /// </summary>
+    [HttpGet("runs/{id}")]
+    [AuthorizeHR]
+    public async Task<ActionResult<PayRunDto>> GetPayRun(int id)
+    {
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _payrollService.GetPayRunByIdAsync(id),
+            $"getting pay run with ID {id}",
+            "Pay run"
+        );
+    }
+
+    /// <summary>
+    /// Calculate a draft pay run for a month
+    /// </summary>
+    [HttpPost("runs")]
+    [AuthorizeHR]
+    public async Task<ActionResult<PayRunDto>> CreatePayRun([FromBody] CreatePayRunDto createPayRunDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        if (await _payrollService.PayRunExistsForPeriodAsync(createPayRunDto.Year, createPayRunDto.Month))
+        {
+            return CreateBadRequestResponse($"A pay run for {createPayRunDto.Month}/{createPayRunDto.Year} already exists");
+        }
+
+        return await HandleCreateResultAsync(
+            () => _payrollService.CreatePayRunAsync(createPayRunDto),
+            nameof(GetPayRun),
+            run => run.Id,
+            "creating pay run"
+        );
+    }
+
+    /// <summary>
+    /// Recalculate a draft pay run from current salaries, attendance and leave
+    /// </summary>
+    [HttpPost("runs/{id}/recalculate")]
+    [AuthorizeHR]
+    public async Task<ActionResult<PayRunDto>> RecalculatePayRun(int id)
+    {
+        if (await _payrollService.IsPayRunFinalizedAsync(id))
+        {
+            return CreateBadRequestResponse(FinalizedPayRunMessage);
+        }
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _payrollService.RecalculatePayRunAsync(id),
+            $"recalculating pay run with ID {id}",
+            "Pay run"
+        );
+    }
+
+    /// <summary>
+    /// Finalize a pay run, locking it and releasing payslips to employees
+    /// </summary>
+    [HttpPost("runs/{id}/finalize")]
+    [AuthorizeHR]
+    public async Task<ActionResult<PayRunDto>> FinalizePayRun(int id)
+    {
+        if (await _payrollService.IsPayRunFinalizedAsync(id))
+        {
+            return CreateBadRequestResponse("Pay run is already finalized");
+        }
+
+        var missingBatches = await _payrollService.CountBatchesMissingFromRunAsync(id);
+        if (missingBatches > 0)
+        {
+            return CreateBadRequestResponse($"{missingBatches} reimbursement batch(es) were created after this pay run was calculated. Recalculate it before finalizing.");
+        }
+
+        var finalizedBy = User.FindFirst(System.Security.Claims.ClaimTypes.Email)?.Value
+            ?? User.Identity?.Name
+            ?? "Unknown";
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _payrollService.FinalizePayRunAsync(id, finalizedBy),
+            $"finalizing pay run with ID {id}",
+            "Pay run"
+        );
+    }
+
+    /// <summary>
+    /// Delete a draft pay run
+    /// </summary>
+    [HttpDelete("runs/{id}")]
+    [AuthorizeAdmin]
+    public async Task<ActionResult> DeletePayRun(int id)
+    {
+        if (await _payrollService.IsPayRunFinalizedAsync(id))
+        {
+            return CreateBadRequestResponse(FinalizedPayRunMessage);
+        }
+
+        return await HandleDeleteResultAsync(
+            () => _payrollService.PayRunExistsAsync(id),
+            () => _payrollService.DeletePayRunAsync(id),
+            id,
+            "deleting pay run",
+            "Pay run"
+        );
+    }
+
+    /// <summary>
+    /// Get finalized payslips for the signed-in user
+    /// </summary>
+    [HttpGet("payslips/me")]
+    public async Task<ActionResult<IEnumerable<PayslipDto>>> GetMyPayslips()
+    {
+        var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        var email = User.FindFirst(System.Security.Claims.ClaimTypes.Email)?.Value;
+        var employee = await _employeeService.GetEmployeeByUserIdAsync(userId, email);
+        if (employee == null)
+        {
+            return CreateNotFoundResponse("Employee");
+        }
+
+        return await HandleCollectionResultAsync(
+            () => _payrollService.GetPayslipsByEmployeeAsync(employee.Id, finalizedOnly: true),
+            "getting payslips for current user"
+        );
+    }
+
+    /// <summary>
+    /// Get all payslips for an employee, including drafts
+    /// </summary>
+    [HttpGet("payslips/employee/{employeeId}")]
+    [AuthorizeHR]
+    public async Task<ActionResult<IEnumerable<PayslipDto>>> GetEmployeePayslips(int employeeId)
+    {
+        return await HandleCollectionResultAsync(
+            () => _payrollService.GetPayslipsByEmployeeAsync(employeeId, finalizedOnly: false),
+            $"getting payslips for employee {employeeId}"
+        );
+    }
+
+    /// <summary>
+    /// Get payslip by ID
+    /// </summary>
+    [HttpGet("payslips/{id}")]
+    [AuthorizeHR]
+    public async Task<ActionResult<PayslipDto>> GetPayslip(int id)
+    {
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _payrollService.GetPayslipByIdAsync(id),
+            $"getting payslip with ID {id}",
+            "Payslip"
+        );
+    }
+
+    /// <summary>
+    /// Payroll totals per department for a year, or a single month when given
+    /// </summary>
+    [HttpGet("reports/departments")]
+    [AuthorizeHR]
+    public async Task<ActionResult<IEnumerable<PayrollDepartmentSummaryDto>>> GetDepartmentSummary(
+        [FromQuery] int year,
+        [FromQuery] int? month = null)
+    {
+        if (month is < 1 or > 12)
+        {
+            return CreateBadRequestResponse("Month must be between 1 and 12");
+        }
+
+        return await HandleCollectionResultAsync(
+            () => _payrollService.GetDepartmentSummaryAsync(year, month),
+            "getting payroll department summary"
+        );
+    }
+}
@@ -1,7 +1,10 @@
+using System.Security.Claims;
+using System.Text.Json;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using SmallHR.API.Base;
+using SmallHR.Core.DTOs.LiveEvents;
 using SmallHR.Core.DTOs.RolePermission;
 using SmallHR.Core.Entities;
 using SmallHR.Core.Interfaces;
@@ -15,16 +18,22 @@ namespace SmallHR.API.Controllers;
 [Route("api/[controller]")]
 public class RolePermissionsController : BaseApiController
 {
+    private const int MaxSnapshotsPerTenant = 50;
+    private static readonly string[] BuiltInRoles = { "SuperAdmin", "Admin", "HR", "Employee" };
+
     private readonly ApplicationDbContext _context;
     private readonly ITenantProvider _tenantProvider;
+    private readonly ILiveEventHub _liveEventHub;
 
     public RolePermissionsController(
         ApplicationDbContext context, 
         ITenantProvider tenantProvider,
+        ILiveEventHub liveEventHub,
         ILogger<RolePermissionsController> logger) : base(logger)
     {
         _context = context;
         _tenantProvider = tenantProvider;
+        _liveEventHub = liveEventHub;
     }
 
     // GET: api/rolepermissions
@@ -74,10 +83,10 @@ public class RolePermissionsController : BaseApiController
     [HttpGet("my-permissions")]
     public async Task<ActionResult<IEnumerable<RolePermissionDto>>> GetMyPermissions()
     {
-        // Get the user's role from the JWT token claims - use centralized permission service (follows Open/Closed Principle)
-        var userRole = CurrentUserRole;
+        // Get the user's roles from the JWT token claims - use centralized permission service (follows Open/Closed Principle)
+        var userRoles = CurrentUserRoles;
         
-        if (string.IsNullOrEmpty(userRole))
+        if (userRoles.Count == 0)
         {
             return CreateBadRequestResponse("User role not found in token");
         }
@@ -139,9 +148,9 @@ public class RolePermissionsController : BaseApiController
         }
         else
         {
-            // For Admin and other roles: get their tenant-specific permissions
+            // For Admin and other roles: get their tenant-specific permissions for every role they hold
             IQueryable<RolePermission> query = _context.RolePermissions
-                .Where(p => p.RoleName == userRole);
+                .Where(p => userRoles.Contains(p.RoleName));
             // Query filter automatically applies TenantId filter for non-SuperAdmin
 
             permissions = await query
@@ -149,7 +158,7 @@ public class RolePermissionsController : BaseApiController
                 .ToListAsync();
 
             // If Admin, add permissions for essential pages if not already present
-            if (userRole == "Admin")
+            if (userRoles.Contains("Admin"))
             {
                 var tenantId = _tenantProvider.TenantId;
                 
@@ -193,21 +202,21 @@ public class RolePermissionsController : BaseApiController
             }
         }
 
+        // One row per page; a user with several roles gets the union of what those roles allow
         var permissionDtos = permissions
-            .GroupBy(p => p.PagePath) // Deduplicate by pagePath
-            .Select(g => g.First())
-            .Select(p => new RolePermissionDto
+            .GroupBy(p => p.PagePath)
+            .Select(g => new RolePermissionDto
             {
-                Id = p.Id,
-                RoleName = p.RoleName,
-                PagePath = p.PagePath,
-                PageName = p.PageName,
-                CanAccess = p.CanAccess,
-                CanView = p.CanView,
-                CanCreate = p.CanCreate,
-                CanEdit = p.CanEdit,
-                CanDelete = p.CanDelete,
-                Description = p.Description
+                Id = g.First().Id,
+                RoleName = string.Join(", ", g.Select(p => p.RoleName).Distinct()),
+                PagePath = g.Key,
+                PageName = g.First().PageName,
+                CanAccess = g.Any(p => p.CanAccess),
+                CanView = g.Any(p => p.CanView),
+                CanCreate = g.Any(p => p.CanCreate),
+                CanEdit = g.Any(p => p.CanEdit),
+                CanDelete = g.Any(p => p.CanDelete),
+                Description = g.First().Description
             })
             .OrderBy(p => p.PageName)
             .ToList();
@@ -259,9 +268,8 @@ public class RolePermissionsController : BaseApiController
     public async Task<ActionResult> InitializePermissions()
     {
         // Use centralized permission service (follows Open/Closed Principle)
-        var userRole = CurrentUserRole;
         var isSuperAdmin = IsSuperAdmin;
-        var isAdmin = PermissionService.HasRole(userRole, "Admin");
+        var isAdmin = HasRole("Admin");
         var tenantId = isSuperAdmin ? "platform" : _tenantProvider.TenantId;
 
         // Check if permissions already exist for this tenant
@@ -316,6 +324,9 @@ public class RolePermissionsController : BaseApiController
             new { Path = "/organization", Name = "Organization", Description = "Organization structure management" },
             new { Path = "/departments", Name = "Departments", Description = "Department management" },
             new { Path = "/positions", Name = "Positions", Description = "Positions management" },
+            new { Path = "/organization/chart", Name = "Org Chart", Description = "Reporting lines and department structure" },
+            new { Path = "/attendance", Name = "Attendance", Description = "Attendance and timesheets" },
+            new { Path = "/leave", Name = "Leave", Description = "Leave requests and approvals" },
             new { Path = "/calendar", Name = "Calendar", Description = "Calendar and events" },
             new { Path = "/notice-board", Name = "Notice Board", Description = "Company announcements" },
             new { Path = "/expenses", Name = "Expenses", Description = "Expense tracking" },
@@ -324,6 +335,7 @@ public class RolePermissionsController : BaseApiController
             new { Path = "/payroll/settings", Name = "Payroll Settings", Description = "Payroll settings" },
             new { Path = "/settings", Name = "Settings", Description = "User settings" },
             new { Path = "/tenant-settings", Name = "Tenant Settings", Description = "Manage tenants" },
+            new { Path = "/billing", Name = "Billing", Description = "Subscription plan and usage" },
             new { Path = "/role-permissions", Name = "Role Permissions", Description = "Manage role permissions" }
         };
 
@@ -379,16 +391,16 @@ public class RolePermissionsController : BaseApiController
                 // HR: access to selected pages; typically view/create/edit, delete restricted
                 else if (role == "HR")
                 {
-                    if (page.Path == "/dashboard" || page.Path == "/employees" 
-                        || page.Path == "/calendar" || page.Path == "/notice-board" 
+                    if (page.Path == "/dashboard" || page.Path == "/employees" || page.Path == "/attendance" || page.Path == "/leave" || page.Path == "/organization/chart"
+                        || page.Path == "/calendar" || page.Path == "/notice-board" || page.Path == "/expenses" 
                         || page.Path == "/settings" || page.Path == "/payroll"
                         || page.Path == "/payroll/reports" || page.Path == "/payroll/settings")
                     {
                         canAccess = true;
                         canView = true;
-                        // HR can create/edit on employees, calendar, notice-board, payroll
-                        if (page.Path == "/employees" || page.Path == "/calendar" || page.Path == "/notice-board"
-                            || page.Path == "/payroll/reports" || page.Path == "/payroll/settings")
+                        // HR can create/edit on employees, calendar, notice-board, expenses, payroll
+                        if (page.Path == "/employees" || page.Path == "/attendance" || page.Path == "/leave" || page.Path == "/organization/chart" || page.Path == "/calendar" || page.Path == "/notice-board" || page.Path == "/expenses"
+                            || page.Path == "/payroll" || page.Path == "/payroll/reports" || page.Path == "/payroll/settings")
                         {
                             canCreate = true;
                             canEdit = true;
@@ -397,14 +409,16 @@ public class RolePermissionsController : BaseApiController
                         canDelete = false;
                     }
                 }
-                // Employee: limited pages; view only
+                // Employee: limited pages; view only (payroll shows their own finalized payslips)
                 else if (role == "Employee")
                 {
-                    if (page.Path == "/dashboard" || page.Path == "/calendar" 
-                        || page.Path == "/notice-board" || page.Path == "/settings")
+                    if (page.Path == "/dashboard" || page.Path == "/attendance" || page.Path == "/leave" || page.Path == "/calendar" 
+                        || page.Path == "/notice-board" || page.Path == "/expenses" || page.Path == "/settings" || page.Path == "/payroll")
                     {
                         canAccess = true;
                         canView = true;
+                        // Employees submit their own leave requests and expense claims
+                        canCreate = page.Path == "/leave" || page.Path == "/expenses";
                     }
                 }
 
@@ -445,6 +459,7 @@ public class RolePermissionsController : BaseApiController
         }
         
         await _context.SaveChangesAsync();
+        NotifyPermissionsChanged(tenantId);
 
         var totalCount = newPermissions.Count + updatedCount;
         return Ok(new { message = $"Permissions initialized successfully. Created {newPermissions.Count} new, updated {updatedCount} existing.", count = totalCount });
@@ -460,6 +475,11 @@ public class RolePermissionsController : BaseApiController
         var isSuperAdmin = IsSuperAdmin;
         var tenantId = isSuperAdmin ? null : _tenantProvider.TenantId;
 
+        if (tenantId != null)
+        {
+            await TakeSnapshotAsync(tenantId, $"Before updating {dto.Permissions.Count} permission(s)");
+        }
+
         foreach (var permission in dto.Permissions)
         {
             IQueryable<RolePermission> query = _context.RolePermissions
@@ -488,6 +508,7 @@ public class RolePermissionsController : BaseApiController
         }
 
         await _context.SaveChangesAsync();
+        NotifyPermissionsChanged(tenantId, dto.Permissions.Select(p => p.RoleName));
         return Ok(new { message = "Permissions updated successfully" });
     }
 
@@ -521,8 +542,14 @@ public class RolePermissionsController : BaseApiController
             return NotFound();
         }
 
+        if (tenantId != null)
+        {
+            await TakeSnapshotAsync(tenantId, $"Before updating {permission.RoleName} on {permission.PagePath}");
+        }
+
         permission.CanAccess = dto.CanAccess;
         await _context.SaveChangesAsync();
+        NotifyPermissionsChanged(permission.TenantId, new[] { permission.RoleName });
 
         return Ok(new { message = "Permission updated successfully" });
     }
@@ -550,8 +577,13 @@ public class RolePermissionsController : BaseApiController
         }
 
         var permissions = await query.ToListAsync();
+        if (tenantId != null && permissions.Count > 0)
+        {
+            await TakeSnapshotAsync(tenantId, "Before reset");
+        }
         _context.RolePermissions.RemoveRange(permissions);
         await _context.SaveChangesAsync();
+        NotifyPermissionsChanged(tenantId);
 
         return Ok(new { message = "Permissions reset successfully" });
     }
@@ -567,6 +599,9 @@ public class RolePermissionsController : BaseApiController
             new { Path = "/employees", Name = "Employees", Description = "Employee management" },
             new { Path = "/departments", Name = "Departments", Description = "Department management" },
             new { Path = "/positions", Name = "Positions", Description = "Positions management" },
+            new { Path = "/organization/chart", Name = "Org Chart", Description = "Reporting lines and department structure" },
+            new { Path = "/attendance", Name = "Attendance", Description = "Attendance and timesheets" },
+            new { Path = "/leave", Name = "Leave", Description = "Leave requests and approvals" },
             new { Path = "/calendar", Name = "Calendar", Description = "Calendar and events" },
             new { Path = "/notice-board", Name = "Notice Board", Description = "Company announcements" },
             new { Path = "/expenses", Name = "Expenses", Description = "Expense tracking" },
@@ -575,6 +610,7 @@ public class RolePermissionsController : BaseApiController
             new { Path = "/payroll/settings", Name = "Payroll Settings", Description = "Payroll settings" },
             new { Path = "/settings", Name = "Settings", Description = "User settings" },
             new { Path = "/tenant-settings", Name = "Tenant Settings", Description = "Manage tenants" },
+            new { Path = "/billing", Name = "Billing", Description = "Subscription plan and usage" },
             new { Path = "/role-permissions", Name = "Role Permissions", Description = "Manage role permissions" }
         };
 
@@ -582,7 +618,15 @@ public class RolePermissionsController : BaseApiController
         var isSuperAdmin = IsSuperAdmin;
         var tenantId = isSuperAdmin ? "platform" : _tenantProvider.TenantId;
 
-        var roles = new[] { "SuperAdmin", "Admin", "HR", "Employee" };
+        var roles = new List<string> { "SuperAdmin", "Admin", "HR", "Employee" };
+        if (!isSuperAdmin)
+        {
+            // Custom roles get rows for new pages too, with nothing granted
+            roles.AddRange(await _context.TenantRoles
+                .Where(r => r.TenantId == tenantId)
+                .Select(r => r.Name)
+                .ToListAsync());
+        }
         var newPermissions = new List<RolePermission>();
 
         foreach (var role in roles)
@@ -626,13 +670,13 @@ public class RolePermissionsController : BaseApiController
                 }
                 else if (role == "HR")
                 {
-                    if (page.Path == "/dashboard" || page.Path == "/employees" || page.Path == "/calendar" 
-                        || page.Path == "/notice-board" || page.Path == "/settings" || page.Path == "/payroll"
+                    if (page.Path == "/dashboard" || page.Path == "/employees" || page.Path == "/attendance" || page.Path == "/leave" || page.Path == "/organization/chart" || page.Path == "/calendar" 
+                        || page.Path == "/notice-board" || page.Path == "/expenses" || page.Path == "/settings" || page.Path == "/payroll"
                         || page.Path == "/payroll/reports" || page.Path == "/payroll/settings")
                     {
                         canAccess = true; canView = true;
-                        if (page.Path == "/employees" || page.Path == "/calendar" || page.Path == "/notice-board"
-                            || page.Path == "/payroll/reports" || page.Path == "/payroll/settings")
+                        if (page.Path == "/employees" || page.Path == "/attendance" || page.Path == "/leave" || page.Path == "/organization/chart" || page.Path == "/calendar" || page.Path == "/notice-board" || page.Path == "/expenses"
+                            || page.Path == "/payroll" || page.Path == "/payroll/reports" || page.Path == "/payroll/settings")
                         {
                             canCreate = true; canEdit = true;
                         }
@@ -640,10 +684,11 @@ public class RolePermissionsController : BaseApiController
                 }
                 else if (role == "Employee")
                 {
-                    if (page.Path == "/dashboard" || page.Path == "/calendar" 
-                        || page.Path == "/notice-board" || page.Path == "/settings")
+                    if (page.Path == "/dashboard" || page.Path == "/attendance" || page.Path == "/leave" || page.Path == "/calendar" 
+                        || page.Path == "/notice-board" || page.Path == "/expenses" || page.Path == "/settings" || page.Path == "/payroll")
                     {
                         canAccess = true; canView = true;
+                        canCreate = page.Path == "/leave" || page.Path == "/expenses";
                     }
                 }
 
@@ -667,10 +712,241 @@ public class RolePermissionsController : BaseApiController
         {
             _context.RolePermissions.AddRange(newPermissions);
             await _context.SaveChangesAsync();
+            NotifyPermissionsChanged(tenantId, newPermissions.Select(p => p.RoleName));
             return Ok(new { message = $"Added {newPermissions.Count} missing permissions", count = newPermissions.Count });
         }
 
         return Ok(new { message = "No missing permissions found", count = 0 });
     }
+
+    // GET: api/rolepermissions/snapshots
+    // Snapshots are kept per tenant; SuperAdmin edits span every tenant and are not versioned
+    [HttpGet("snapshots")]
+    [HasPermission("/role-permissions", PermissionAction.View)]
+    public async Task<ActionResult<IEnumerable<RolePermissionSnapshotDto>>> GetSnapshots()
+    {
+        if (IsSuperAdmin)
+        {
+            return CreateBadRequestResponse("Permission history is kept per tenant");
+        }
+
+        var tenantId = _tenantProvider.TenantId;
+        var snapshots = await _context.RolePermissionSnapshots
+            .Where(s => s.TenantId == tenantId)
+            .OrderByDescending(s => s.Version)
+            .ToListAsync();
+
+        return Ok(snapshots.Select(s => ToSnapshotDto(s)).ToList());
+    }
+
+    // GET: api/rolepermissions/snapshots/{id}
+    [HttpGet("snapshots/{id}")]
+    [HasPermission("/role-permissions", PermissionAction.View)]
+    public async Task<ActionResult<RolePermissionSnapshotDetailDto>> GetSnapshot(int id)
+    {
+        var tenantId = _tenantProvider.TenantId;
+        var snapshot = await _context.RolePermissionSnapshots
+            .FirstOrDefaultAsync(s => s.Id == id && s.TenantId == tenantId);
+
+        if (snapshot == null)
+        {
+            return NotFound();
+        }
+
+        var detail = new RolePermissionSnapshotDetailDto
+        {
+            Id = snapshot.Id,
+            Version = snapshot.Version,
+            Label = snapshot.Label,
+            CreatedBy = snapshot.CreatedBy,
+            PermissionCount = snapshot.PermissionCount,
+            CreatedAt = snapshot.CreatedAt,
+            Entries = ReadSnapshotEntries(snapshot)
+        };
+
+        return Ok(detail);
+    }
+
+    // POST: api/rolepermissions/snapshots
+    [HttpPost("snapshots")]
+    [HasPermission("/role-permissions", PermissionAction.Edit)]
+    public async Task<ActionResult<RolePermissionSnapshotDto>> CreateSnapshot([FromBody] CreateRolePermissionSnapshotDto dto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        if (IsSuperAdmin)
+        {
+            return CreateBadRequestResponse("Permission history is kept per tenant");
+        }
+
+        var label = string.IsNullOrWhiteSpace(dto.Label) ? "Manual snapshot" : dto.Label.Trim();
+        var snapshot = await TakeSnapshotAsync(_tenantProvider.TenantId, label);
+        await _context.SaveChangesAsync();
+
+        return Ok(ToSnapshotDto(snapshot));
+    }
+
+    // POST: api/rolepermissions/snapshots/{id}/restore
+    [HttpPost("snapshots/{id}/restore")]
+    [HasPermission("/role-permissions", PermissionAction.Edit)]
+    public async Task<ActionResult> RestoreSnapshot(int id)
+    {
+        if (IsSuperAdmin)
+        {
+            return CreateBadRequestResponse("Permission history is kept per tenant");
+        }
+
+        var tenantId = _tenantProvider.TenantId;
+        var snapshot = await _context.RolePermissionSnapshots
+            .FirstOrDefaultAsync(s => s.Id == id && s.TenantId == tenantId);
+
+        if (snapshot == null)
+        {
+            return NotFound();
+        }
+
+        // Rows for custom roles deleted since the snapshot would have no one to apply to
+        var knownRoles = new HashSet<string>(BuiltInRoles, StringComparer.OrdinalIgnoreCase);
+        knownRoles.UnionWith(await _context.TenantRoles
+            .Where(r => r.TenantId == tenantId)
+            .Select(r => r.Name)
+            .ToListAsync());
+
+        var entries = ReadSnapshotEntries(snapshot);
+        var wanted = entries.Where(e => knownRoles.Contains(e.RoleName)).ToList();
+
+        await TakeSnapshotAsync(tenantId, $"Before restoring version {snapshot.Version}");
+
+        // Resets and bulk updates soft-delete rows, which still hold their (tenant, role, page) key,
+        // so deleted rows are loaded too and revived rather than added again
+        var current = await _context.RolePermissions
+            .IgnoreQueryFilters()
+            .Where(p => p.TenantId == tenantId)
+            .ToListAsync();
+
+        foreach (var entry in wanted)
+        {
+            var existing = current
+                .Where(p => p.RoleName == entry.RoleName && p.PagePath == entry.PagePath)
+                .OrderBy(p => p.IsDeleted)
+                .FirstOrDefault();
+            if (existing == null)
+            {
+                existing = new RolePermission
+                {
+                    TenantId = tenantId,
+                    RoleName = entry.RoleName,
+                    PagePath = entry.PagePath,
+                    PageName = entry.PageName
+                };
+                _context.RolePermissions.Add(existing);
+            }
+
+            existing.IsDeleted = false;
+            existing.PageName = entry.PageName;
+            existing.Description = entry.Description;
+            existing.CanAccess = entry.CanAccess;
+            existing.CanView = entry.CanView;
+            existing.CanCreate = entry.CanCreate;
+            existing.CanEdit = entry.CanEdit;
+            existing.CanDelete = entry.CanDelete;
+        }
+
+        var removed = current
+            .Where(p => !p.IsDeleted && !wanted.Any(e => e.RoleName == p.RoleName && e.PagePath == p.PagePath))
+            .ToList();
+        _context.RolePermissions.RemoveRange(removed);
+
+        await _context.SaveChangesAsync();
+        NotifyPermissionsChanged(tenantId);
+
+        Logger.LogInformation("Restored role permissions for tenant {TenantId} to version {Version}", tenantId, snapshot.Version);
+        var skipped = entries.Count - wanted.Count;
+        var message = skipped > 0
+            ? $"Restored version {snapshot.Version}; skipped {skipped} permission(s) for roles that no longer exist"
+            : $"Restored version {snapshot.Version}";
+        return Ok(new { message, skipped });
+    }
+
+    // Open sessions reload their menu and permission checks; a null tenant (SuperAdmin edits) reaches everyone
+    private void NotifyPermissionsChanged(string? tenantId, IEnumerable<string>? roles = null)
+    {
+        var data = new { roles = roles?.Distinct(StringComparer.OrdinalIgnoreCase).ToList() };
+        if (tenantId == null)
+        {
+            _liveEventHub.PublishToAll(LiveEventTypes.PermissionsChanged, data);
+        }
+        else
+        {
+            _liveEventHub.PublishToTenant(tenantId, LiveEventTypes.PermissionsChanged, data);
+        }
+    }
+
+    // Queues a copy of the tenant's current matrix; the caller's SaveChanges stores it with the change itself
+    private async Task<RolePermissionSnapshot> TakeSnapshotAsync(string tenantId, string label)
+    {
+        var permissions = await _context.RolePermissions
+            .AsNoTracking()
+            .Where(p => p.TenantId == tenantId)
+            .OrderBy(p => p.RoleName)
+            .ThenBy(p => p.PagePath)
+            .ToListAsync();
+
+        var entries = permissions.Select(p => new RolePermissionSnapshotEntryDto
+        {
+            RoleName = p.RoleName,
+            PagePath = p.PagePath,
+            PageName = p.PageName,
+            CanAccess = p.CanAccess,
+            CanView = p.CanView,
+            CanCreate = p.CanCreate,
+            CanEdit = p.CanEdit,
+            CanDelete = p.CanDelete,
+            Description = p.Description
+        }).ToList();
+
+        var lastVersion = await _context.RolePermissionSnapshots
+            .Where(s => s.TenantId == tenantId)
+            .MaxAsync(s => (int?)s.Version) ?? 0;
+
+        var snapshot = new RolePermissionSnapshot
+        {
+            TenantId = tenantId,
+            Version = lastVersion + 1,
+            Label = label.Length > 200 ? label[..200] : label,
+            CreatedBy = User.FindFirst(ClaimTypes.Email)?.Value,
+            PermissionCount = entries.Count,
+            PermissionsJson = JsonSerializer.Serialize(entries)
+        };
+        _context.RolePermissionSnapshots.Add(snapshot);
+
+        var expired = await _context.RolePermissionSnapshots
+            .Where(s => s.TenantId == tenantId && s.Version <= snapshot.Version - MaxSnapshotsPerTenant)
+            .ToListAsync();
+        _context.RolePermissionSnapshots.RemoveRange(expired);
+
+        return snapshot;
+    }
+
+    private static List<RolePermissionSnapshotEntryDto> ReadSnapshotEntries(RolePermissionSnapshot snapshot)
+    {
+        return JsonSerializer.Deserialize<List<RolePermissionSnapshotEntryDto>>(snapshot.PermissionsJson) ?? new();
+    }
+
+    private static RolePermissionSnapshotDto ToSnapshotDto(RolePermissionSnapshot snapshot)
+    {
+        return new RolePermissionSnapshotDto
+        {
+            Id = snapshot.Id,
+            Version = snapshot.Version,
+            Label = snapshot.Label,
+            CreatedBy = snapshot.CreatedBy,
+            PermissionCount = snapshot.PermissionCount,
+            CreatedAt = snapshot.CreatedAt
+        };
+    }
 }
 
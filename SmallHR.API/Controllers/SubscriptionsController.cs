@@ -13,12 +13,15 @@ namespace SmallHR.API.Controllers;
 public class SubscriptionsController : BaseApiController
 {
     private readonly ISubscriptionService _subscriptionService;
+    private readonly ITenantProvider _tenantProvider;
 
     public SubscriptionsController(
         ISubscriptionService subscriptionService,
+        ITenantProvider tenantProvider,
         ILogger<SubscriptionsController> logger) : base(logger)
     {
         _subscriptionService = subscriptionService;
+        _tenantProvider = tenantProvider;
     }
 
     /// <summary>
@@ -27,9 +30,37 @@ public class SubscriptionsController : BaseApiController
     [HttpGet("current")]
     public async Task<ActionResult<SubscriptionDto>> GetCurrentSubscription()
     {
-        // Get tenant ID from context (would need to be set from tenant provider)
-        // For now, this is a placeholder - you'd need to get tenantId from authenticated user
-        return BadRequest("Tenant ID resolution required");
+        var tenantId = await _subscriptionService.ResolveTenantIdAsync(_tenantProvider.TenantId);
+        if (tenantId == null)
+        {
+            return CreateNotFoundResponse("Tenant");
+        }
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _subscriptionService.GetSubscriptionByTenantIdAsync(tenantId.Value),
+            "getting current subscription",
+            "Subscription"
+        );
+    }
+
+    /// <summary>
+    /// Preview the prorated cost and any usage blockers of moving the current tenant to another plan
+    /// </summary>
+    [HttpGet("current/change-preview")]
+    [AuthorizeAdmin]
+    public async Task<ActionResult<PlanChangePreviewDto>> PreviewPlanChange([FromQuery] int planId)
+    {
+        var tenantId = await _subscriptionService.ResolveTenantIdAsync(_tenantProvider.TenantId);
+        if (tenantId == null)
+        {
+            return CreateNotFoundResponse("Tenant");
+        }
+
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _subscriptionService.PreviewPlanChangeAsync(tenantId.Value, planId),
+            $"previewing change to plan {planId}",
+            "Subscription"
+        );
     }
 
     /// <summary>
@@ -177,19 +208,30 @@ public class SubscriptionsController : BaseApiController
     [Authorize]
     public async Task<ActionResult<bool>> HasFeature(string featureKey)
     {
-        // Placeholder - would need tenant ID from context
-        return BadRequest("Tenant ID resolution required");
+        var tenantId = await _subscriptionService.ResolveTenantIdAsync(_tenantProvider.TenantId);
+        if (tenantId == null)
+        {
+            return CreateNotFoundResponse("Tenant");
+        }
+
+        return await HandleServiceResultAsync(
+            () => _subscriptionService.HasFeatureAsync(tenantId.Value, featureKey),
+            $"checking feature {featureKey}"
+        );
     }
 
     /// <summary>
-    /// Get tenant's features
+    /// Get the current tenant's plan features, with usage for limits
     /// </summary>
     [HttpGet("features")]
     [Authorize]
-    public async Task<ActionResult<Dictionary<string, string>>> GetFeatures()
+    public async Task<ActionResult<TenantFeaturesDto>> GetFeatures()
     {
-        // Placeholder - would need tenant ID from context
-        return BadRequest("Tenant ID resolution required");
+        return await HandleServiceResultOrNotFoundAsync(
+            () => _subscriptionService.GetTenantFeatureSummaryAsync(_tenantProvider.TenantId),
+            "getting tenant features",
+            "Tenant"
+        );
     }
 }
 
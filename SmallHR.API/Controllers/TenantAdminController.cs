@@ -6,6 +6,7 @@ using SmallHR.API.Base;
 using SmallHR.Core.Entities;
 using SmallHR.Core.Interfaces;
 using SmallHR.Core.DTOs.Tenant;
+using SmallHR.Core.DTOs.LiveEvents;
 using SmallHR.Infrastructure.Data;
 using System.Security.Claims;
 using System.IdentityModel.Tokens.Jwt;
@@ -32,6 +33,7 @@ public class TenantAdminController : BaseApiController
     private readonly IConfiguration _configuration;
     private readonly ITenantProvisioningService? _provisioningService;
     private readonly ISortStrategyFactory<Tenant> _sortStrategyFactory;
+    private readonly ILiveEventHub _liveEventHub;
 
     public TenantAdminController(
         ApplicationDbContext context,
@@ -40,7 +42,8 @@ public class TenantAdminController : BaseApiController
         IConfiguration configuration,
         ILogger<TenantAdminController> logger,
         IServiceProvider serviceProvider,
-        ISortStrategyFactory<Tenant> sortStrategyFactory) : base(logger)
+        ISortStrategyFactory<Tenant> sortStrategyFactory,
+        ILiveEventHub liveEventHub) : base(logger)
     {
         _context = context;
         _userManager = userManager;
@@ -49,6 +52,7 @@ public class TenantAdminController : BaseApiController
         // Get provisioning service if available (optional dependency)
         _provisioningService = serviceProvider.GetService<ITenantProvisioningService>();
         _sortStrategyFactory = sortStrategyFactory;
+        _liveEventHub = liveEventHub;
     }
 
     /// <summary>
@@ -500,6 +504,9 @@ public class TenantAdminController : BaseApiController
                     ipAddress: HttpContext.Connection.RemoteIpAddress?.ToString(),
                     userAgent: HttpContext.Request.Headers["User-Agent"].ToString());
 
+                // The impersonation token lives in the browser; other tabs still holding it drop it on this event
+                _liveEventHub.PublishToUser(adminUser.Id, LiveEventTypes.ImpersonationEnded);
+
                 return new { message = "Impersonation stopped successfully" };
             },
             "stopping impersonation"
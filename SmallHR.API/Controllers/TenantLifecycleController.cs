@@ -16,12 +16,18 @@ namespace SmallHR.API.Controllers;
 public class TenantLifecycleController : BaseApiController
 {
     private readonly ITenantLifecycleService _lifecycleService;
+    private readonly ISubscriptionService _subscriptionService;
+    private readonly ITenantProvider _tenantProvider;
 
     public TenantLifecycleController(
         ITenantLifecycleService lifecycleService,
+        ISubscriptionService subscriptionService,
+        ITenantProvider tenantProvider,
         ILogger<TenantLifecycleController> logger) : base(logger)
     {
         _lifecycleService = lifecycleService;
+        _subscriptionService = subscriptionService;
+        _tenantProvider = tenantProvider;
     }
 
     /// <summary>
@@ -63,6 +69,11 @@ public class TenantLifecycleController : BaseApiController
     [HttpPost("{tenantId}/activate")]
     public async Task<ActionResult<object>> ActivateTenant(int tenantId, [FromQuery] string? externalCustomerId = null)
     {
+        if (!await IsOwnTenantAsync(tenantId))
+        {
+            return Forbid();
+        }
+
         return await HandleServiceResultAsync(
             async () =>
             {
@@ -90,6 +101,17 @@ public class TenantLifecycleController : BaseApiController
             return BadRequest(ModelState);
         }
 
+        if (!await IsOwnTenantAsync(tenantId))
+        {
+            return Forbid();
+        }
+
+        var planCheck = await CheckPlanChangeAsync(tenantId, request.NewPlanId, upgrade: true);
+        if (planCheck != null)
+        {
+            return planCheck;
+        }
+
         return await HandleServiceResultAsync(
             async () =>
             {
@@ -117,6 +139,17 @@ public class TenantLifecycleController : BaseApiController
             return BadRequest(ModelState);
         }
 
+        if (!await IsOwnTenantAsync(tenantId))
+        {
+            return Forbid();
+        }
+
+        var planCheck = await CheckPlanChangeAsync(tenantId, request.NewPlanId, upgrade: false);
+        if (planCheck != null)
+        {
+            return planCheck;
+        }
+
         return await HandleServiceResultAsync(
             async () =>
             {
@@ -185,10 +218,9 @@ public class TenantLifecycleController : BaseApiController
     }
 
     /// <summary>
-    /// Cancel a tenant
+    /// Cancel a tenant. Tenant admins may cancel their own tenant but always get the standard retention.
     /// </summary>
     [HttpPost("{tenantId}/cancel")]
-    [AuthorizeSuperAdmin] // Only SuperAdmin can cancel
     public async Task<ActionResult<object>> CancelTenant(int tenantId, [FromBody] CancelTenantRequest request)
     {
         if (!ModelState.IsValid)
@@ -196,6 +228,17 @@ public class TenantLifecycleController : BaseApiController
             return BadRequest(ModelState);
         }
 
+        if (!await IsOwnTenantAsync(tenantId))
+        {
+            return Forbid();
+        }
+
+        if (!IsSuperAdmin)
+        {
+            request.ScheduleDeletion = true;
+            request.RetentionDays = CancelTenantRequest.DefaultRetentionDays;
+        }
+
         return await HandleServiceResultAsync(
             async () =>
             {
@@ -218,6 +261,11 @@ public class TenantLifecycleController : BaseApiController
     [HttpGet("{tenantId}/export")]
     public async Task<ActionResult<FileContentResult>> ExportTenantData(int tenantId)
     {
+        if (!await IsOwnTenantAsync(tenantId))
+        {
+            return Forbid();
+        }
+
         return await HandleServiceResultAsync(
             async () =>
             {
@@ -234,6 +282,11 @@ public class TenantLifecycleController : BaseApiController
     [HttpGet("{tenantId}/events")]
     public async Task<ActionResult<object>> GetLifecycleEvents(int tenantId, [FromQuery] int limit = 100)
     {
+        if (!await IsOwnTenantAsync(tenantId))
+        {
+            return Forbid();
+        }
+
         return await HandleServiceResultAsync(
             () => _lifecycleService.GetLifecycleEventsAsync(tenantId, limit),
             "getting lifecycle events"
@@ -246,12 +299,54 @@ public class TenantLifecycleController : BaseApiController
     [HttpGet("{tenantId}/suspension-info")]
     public async Task<ActionResult<object>> GetSuspensionInfo(int tenantId)
     {
+        if (!await IsOwnTenantAsync(tenantId))
+        {
+            return Forbid();
+        }
+
         return await HandleServiceResultOrNotFoundAsync(
             () => _lifecycleService.GetSuspensionInfoAsync(tenantId),
             $"getting suspension info for tenant {tenantId}",
             "SuspensionInfo"
         );
     }
+
+    /// <summary>
+    /// Tenant admins may only manage the tenant they belong to
+    /// </summary>
+    private async Task<bool> IsOwnTenantAsync(int tenantId)
+    {
+        if (IsSuperAdmin) return true;
+
+        var ownTenantId = await _subscriptionService.ResolveTenantIdAsync(_tenantProvider.TenantId);
+        return ownTenantId == tenantId;
+    }
+
+    /// <summary>
+    /// Rejects a plan change that goes the wrong way for the endpoint or that the tenant's usage does not fit
+    /// </summary>
+    private async Task<ActionResult?> CheckPlanChangeAsync(int tenantId, int newPlanId, bool upgrade)
+    {
+        var preview = await _subscriptionService.PreviewPlanChangeAsync(tenantId, newPlanId);
+        if (preview == null)
+        {
+            return CreateNotFoundResponse("Subscription");
+        }
+
+        if (preview.IsUpgrade != upgrade && preview.CurrentPlanId != preview.NewPlanId)
+        {
+            return CreateBadRequestResponse(upgrade
+                ? $"{preview.NewPlanName} is not an upgrade from {preview.CurrentPlanName}; use downgrade instead"
+                : $"{preview.NewPlanName} is not a downgrade from {preview.CurrentPlanName}; use upgrade instead");
+        }
+
+        if (preview.Blockers.Count > 0)
+        {
+            return CreateBadRequestResponse(string.Join("; ", preview.Blockers));
+        }
+
+        return null;
+    }
 }
 
 // Request DTOs
@@ -273,8 +368,10 @@ public class SuspendTenantRequest
 
 public class CancelTenantRequest
 {
+    public const int DefaultRetentionDays = 90;
+
     public required string Reason { get; set; }
     public bool ScheduleDeletion { get; set; } = true;
-    public int RetentionDays { get; set; } = 90;
+    public int RetentionDays { get; set; } = DefaultRetentionDays;
 }
 
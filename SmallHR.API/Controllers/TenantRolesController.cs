@@ -0,0 +1,129 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using SmallHR.API.Base;
+using SmallHR.API.Authorization;
+using SmallHR.Core.DTOs.TenantRole;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.API.Controllers;
+
+/// <summary>
+/// Tenant-defined roles such as "Team Lead" or "Finance", layered on top of the built-in roles
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class TenantRolesController : BaseApiController
+{
+    private readonly ITenantRoleService _tenantRoleService;
+
+    public TenantRolesController(
+        ITenantRoleService tenantRoleService,
+        ILogger<TenantRolesController> logger)
+        : base(logger)
+    {
+        _tenantRoleService = tenantRoleService;
+    }
+
+    /// <summary>
+    /// Get built-in and custom roles with how many users in the tenant hold each
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<TenantRoleDto>>> GetRoles()
+    {
+        return await HandleCollectionResultAsync(
+            () => _tenantRoleService.GetRolesAsync(),
+            "getting tenant roles"
+        );
+    }
+
+    /// <summary>
+    /// Create a custom role, optionally copying another role's page permissions
+    /// </summary>
+    [HttpPost]
+    [HasPermission("/role-permissions", PermissionAction.Create)]
+    public async Task<ActionResult<TenantRoleDto>> CreateRole([FromBody] CreateTenantRoleDto createRoleDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        try
+        {
+            var role = await _tenantRoleService.CreateRoleAsync(createRoleDto);
+            Logger.LogInformation("Created tenant role {RoleName}", role.Name);
+            return Ok(role);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return CreateBadRequestResponse(ex.Message);
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while creating role {RoleName}", createRoleDto.Name);
+            return CreateErrorResponse("An error occurred while creating role", ex);
+        }
+    }
+
+    /// <summary>
+    /// Rename a custom role or change its description; users and permissions follow the new name
+    /// </summary>
+    [HttpPut("{id}")]
+    [HasPermission("/role-permissions", PermissionAction.Edit)]
+    public async Task<ActionResult<TenantRoleDto>> UpdateRole(int id, [FromBody] UpdateTenantRoleDto updateRoleDto)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        try
+        {
+            var role = await _tenantRoleService.UpdateRoleAsync(id, updateRoleDto);
+            if (role == null)
+            {
+                return CreateNotFoundResponse("Role");
+            }
+
+            return Ok(role);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return CreateBadRequestResponse(ex.Message);
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while updating role {RoleId}", id);
+            return CreateErrorResponse("An error occurred while updating role", ex);
+        }
+    }
+
+    /// <summary>
+    /// Delete a custom role that no user holds any more
+    /// </summary>
+    [HttpDelete("{id}")]
+    [HasPermission("/role-permissions", PermissionAction.Delete)]
+    public async Task<ActionResult> DeleteRole(int id)
+    {
+        try
+        {
+            var deleted = await _tenantRoleService.DeleteRoleAsync(id);
+            if (!deleted)
+            {
+                return CreateNotFoundResponse("Role");
+            }
+
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return CreateBadRequestResponse(ex.Message);
+        }
+        catch (Exception ex)
+        {
+            Logger.LogError(ex, "An error occurred while deleting role {RoleId}", id);
+            return CreateErrorResponse("An error occurred while deleting role", ex);
+        }
+    }
+}
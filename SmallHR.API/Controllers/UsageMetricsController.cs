@@ -17,30 +17,35 @@ namespace SmallHR.API.Controllers;
 public class UsageMetricsController : BaseApiController
 {
     private readonly IUsageMetricsService _usageMetricsService;
+    private readonly ISubscriptionService _subscriptionService;
+    private readonly ITenantProvider _tenantProvider;
 
     public UsageMetricsController(
         IUsageMetricsService usageMetricsService,
+        ISubscriptionService subscriptionService,
+        ITenantProvider tenantProvider,
         ILogger<UsageMetricsController> logger) : base(logger)
     {
         _usageMetricsService = usageMetricsService;
+        _subscriptionService = subscriptionService;
+        _tenantProvider = tenantProvider;
     }
 
     /// <summary>
-    /// Get current usage summary for tenant
+    /// Get current usage summary for tenant; defaults to the caller's tenant
     /// </summary>
     [HttpGet("summary")]
     [AuthorizeAdmin]
     public async Task<ActionResult<UsageSummaryDto>> GetUsageSummary([FromQuery] int? tenantId = null)
     {
-        // TODO: Get tenant ID from authenticated user's tenant claim or context
-        // For now, this is a placeholder - would need tenant ID resolution
-        if (!tenantId.HasValue)
+        var (scopedTenantId, error) = await ResolveTenantScopeAsync(tenantId);
+        if (error != null)
         {
-            return CreateBadRequestResponse("Tenant ID is required");
+            return error;
         }
 
         return await HandleServiceResultAsync(
-            () => _usageMetricsService.GetUsageSummaryAsync(tenantId.Value),
+            () => _usageMetricsService.GetUsageSummaryAsync(scopedTenantId),
             "getting usage summary"
         );
     }
@@ -52,13 +57,14 @@ public class UsageMetricsController : BaseApiController
     [AuthorizeAdmin]
     public async Task<ActionResult<Dictionary<string, object>>> GetUsageBreakdown([FromQuery] int? tenantId = null)
     {
-        if (!tenantId.HasValue)
+        var (scopedTenantId, error) = await ResolveTenantScopeAsync(tenantId);
+        if (error != null)
         {
-            return CreateBadRequestResponse("Tenant ID is required");
+            return error;
         }
 
         return await HandleServiceResultAsync(
-            () => _usageMetricsService.GetUsageBreakdownAsync(tenantId.Value),
+            () => _usageMetricsService.GetUsageBreakdownAsync(scopedTenantId),
             "getting usage breakdown"
         );
     }
@@ -70,13 +76,14 @@ public class UsageMetricsController : BaseApiController
     [AuthorizeAdmin]
     public async Task<ActionResult<object>> GetEmployeeCount([FromQuery] int? tenantId = null)
     {
-        if (!tenantId.HasValue)
+        var (scopedTenantId, error) = await ResolveTenantScopeAsync(tenantId);
+        if (error != null)
         {
-            return CreateBadRequestResponse("Tenant ID is required");
+            return error;
         }
 
         return await HandleServiceResultAsync(
-            async () => new { count = await _usageMetricsService.GetEmployeeCountAsync(tenantId.Value) },
+            async () => new { count = await _usageMetricsService.GetEmployeeCountAsync(scopedTenantId) },
             "getting employee count"
         );
     }
@@ -88,15 +95,16 @@ public class UsageMetricsController : BaseApiController
     [AuthorizeAdmin]
     public async Task<ActionResult<object>> GetStorageUsage([FromQuery] int? tenantId = null)
     {
-        if (!tenantId.HasValue)
+        var (scopedTenantId, error) = await ResolveTenantScopeAsync(tenantId);
+        if (error != null)
         {
-            return CreateBadRequestResponse("Tenant ID is required");
+            return error;
         }
 
         return await HandleServiceResultAsync(
             async () =>
             {
-                var usage = await _usageMetricsService.GetStorageUsageAsync(tenantId.Value);
+                var usage = await _usageMetricsService.GetStorageUsageAsync(scopedTenantId);
                 return new { storageBytes = usage, storageMB = usage / (1024.0 * 1024.0), storageGB = usage / (1024.0 * 1024.0 * 1024.0) };
             },
             "getting storage usage"
@@ -110,15 +118,16 @@ public class UsageMetricsController : BaseApiController
     [AuthorizeAdmin]
     public async Task<ActionResult<object>> GetApiRequestCount([FromQuery] int? tenantId = null, [FromQuery] DateTime? fromDate = null)
     {
-        if (!tenantId.HasValue)
+        var (scopedTenantId, error) = await ResolveTenantScopeAsync(tenantId);
+        if (error != null)
         {
-            return CreateBadRequestResponse("Tenant ID is required");
+            return error;
         }
 
         return await HandleServiceResultAsync(
             async () =>
             {
-                var count = await _usageMetricsService.GetApiRequestCountAsync(tenantId.Value, fromDate);
+                var count = await _usageMetricsService.GetApiRequestCountAsync(scopedTenantId, fromDate);
                 return new { count, fromDate = fromDate ?? DateTime.UtcNow.Date };
             },
             "getting API request count"
@@ -138,5 +147,64 @@ public class UsageMetricsController : BaseApiController
             "getting dashboard overview"
         );
     }
-}
 
+    /// <summary>
+    /// Get usage history points for charting
+    /// SuperAdmin only - omit tenantId to aggregate across all tenants
+    /// </summary>
+    [HttpGet("history")]
+    [AuthorizeSuperAdmin]
+    public async Task<ActionResult<UsageHistoryDto>> GetUsageHistory(
+        [FromQuery] DateTime? startDate = null,
+        [FromQuery] DateTime? endDate = null,
+        [FromQuery] string granularity = "daily",
+        [FromQuery] int? tenantId = null)
+    {
+        var normalizedGranularity = granularity.ToLowerInvariant();
+        if (normalizedGranularity is not ("daily" or "weekly" or "monthly"))
+        {
+            return CreateBadRequestResponse("Granularity must be daily, weekly or monthly");
+        }
+
+        var end = endDate ?? DateTime.UtcNow;
+        var start = startDate ?? end.AddDays(-30);
+        if (start > end)
+        {
+            return CreateBadRequestResponse("Start date must be before end date");
+        }
+
+        return await HandleServiceResultAsync(
+            () => _usageMetricsService.GetUsageHistoryAsync(tenantId, start, end, normalizedGranularity),
+            "getting usage history"
+        );
+    }
+
+    /// <summary>
+    /// SuperAdmin must name the tenant; tenant admins only ever see their own
+    /// </summary>
+    private async Task<(int TenantId, ActionResult? Error)> ResolveTenantScopeAsync(int? requestedTenantId)
+    {
+        if (IsSuperAdmin)
+        {
+            if (!requestedTenantId.HasValue)
+            {
+                return (0, CreateBadRequestResponse("Tenant ID is required"));
+            }
+
+            return (requestedTenantId.Value, null);
+        }
+
+        var ownTenantId = await _subscriptionService.ResolveTenantIdAsync(_tenantProvider.TenantId);
+        if (ownTenantId == null)
+        {
+            return (0, CreateNotFoundResponse("Tenant"));
+        }
+
+        if (requestedTenantId.HasValue && requestedTenantId.Value != ownTenantId.Value)
+        {
+            return (0, Forbid());
+        }
+
+        return (ownTenantId.Value, null);
+    }
+}
@@ -39,6 +39,13 @@ public class AdminAuditMiddleware
             return;
         }
 
+        // The live event stream stays open for the whole session; buffering its body would hold every event back
+        if (context.Request.Path.StartsWithSegments("/api/events"))
+        {
+            await _next(context);
+            return;
+        }
+
         // SuperAdmin action - start timer and capture request details
         var stopwatch = Stopwatch.StartNew();
         var adminUserId = context.User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "unknown";
@@ -1,4 +1,5 @@
 using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.AspNetCore.Authentication;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.IdentityModel.Tokens;
@@ -164,6 +165,7 @@ builder.Services.AddScoped(typeof(IWriteRepository<>), typeof(GenericRepository<
 builder.Services.AddScoped(typeof(IBulkWriteRepository<>), typeof(GenericRepository<>));
 builder.Services.AddScoped<IEmployeeRepository, EmployeeRepository>();
 builder.Services.AddScoped<ILeaveRequestRepository, LeaveRequestRepository>();
+builder.Services.AddScoped<IExpenseClaimRepository, ExpenseClaimRepository>();
 builder.Services.AddScoped<IAttendanceRepository, AttendanceRepository>();
 builder.Services.AddScoped<IDepartmentRepository, DepartmentRepository>();
 builder.Services.AddScoped<IPositionRepository, PositionRepository>();
@@ -173,10 +175,17 @@ builder.Services.AddScoped<IUserCreationService, UserCreationService>();
 builder.Services.AddScoped<IDataSeedingService, DataSeedingService>();
 builder.Services.AddScoped<IEmployeeService, EmployeeService>();
 builder.Services.AddScoped<ILeaveRequestService, LeaveRequestService>();
+builder.Services.AddScoped<ILeavePolicyService, LeavePolicyService>();
+builder.Services.AddScoped<IPayrollService, PayrollService>();
+builder.Services.AddScoped<ICalendarService, CalendarService>();
+builder.Services.AddScoped<INoticeService, NoticeService>();
+builder.Services.AddScoped<IExpenseService, ExpenseService>();
 builder.Services.AddScoped<IAttendanceService, AttendanceService>();
 builder.Services.AddScoped<IAuthService, AuthService>();
+builder.Services.AddScoped<IAccountService, AccountService>();
 builder.Services.AddScoped<IDepartmentService, DepartmentService>();
 builder.Services.AddScoped<IPositionService, PositionService>();
+builder.Services.AddScoped<ITenantRoleService, TenantRoleService>();
 builder.Services.AddScoped<IEmailService, ConsoleEmailService>(); // Email service - replace with SMTP/SendGrid in production
 builder.Services.AddScoped<ITenantProvisioningService, TenantProvisioningService>();
 builder.Services.AddScoped<ISubscriptionService, SmallHR.Infrastructure.Services.SubscriptionService>();
@@ -185,6 +194,9 @@ builder.Services.AddScoped<ITenantLifecycleService, SmallHR.Infrastructure.Servi
 builder.Services.AddScoped<IAdminAuditService, SmallHR.Infrastructure.Services.AdminAuditService>();
 builder.Services.AddScoped<IAlertService, SmallHR.Infrastructure.Services.AlertService>();
 builder.Services.AddScoped<ITenantFilterService, SmallHR.Infrastructure.Services.TenantFilterService>();
+builder.Services.AddScoped<IUserNotificationService, SmallHR.Infrastructure.Services.UserNotificationService>();
+// Live event hub holds the open event streams, so it must outlive any single request
+builder.Services.AddSingleton<ILiveEventHub, SmallHR.Infrastructure.Services.LiveEventHub>();
 
 // Permission Service - centralized permission checks (follows Open/Closed Principle)
 builder.Services.AddScoped<IPermissionService, SmallHR.Infrastructure.Services.PermissionService>();
@@ -196,6 +208,7 @@ builder.Services.AddScoped<StripeWebhookHandler>();
 // Authorization: Permission-based
 builder.Services.AddSingleton<IAuthorizationPolicyProvider, PermissionPolicyProvider>();
 builder.Services.AddScoped<IAuthorizationHandler, PermissionAuthorizationHandler>();
+builder.Services.AddScoped<IClaimsTransformation, ActiveRoleClaimsTransformation>();
 
 // Sort Strategy Pattern (follows Open/Closed Principle)
 // Employee sort strategies
@@ -256,7 +269,7 @@ builder.Services.AddCors(options =>
     {
         policy.WithOrigins(allowedOrigins)
               .WithMethods("GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS")
-              .WithHeaders("Content-Type", "Authorization", "X-Tenant-Id", "X-Tenant-Domain")
+              .WithHeaders("Content-Type", "Authorization", "X-Tenant-Id", "X-Tenant-Domain", ActiveRoleClaimsTransformation.HeaderName)
               .AllowCredentials();
     });
 });
@@ -566,6 +579,17 @@ if (app.Environment.IsDevelopment())
             var departmentsDeleted = await SafeDeleteAsync(context.Departments, "Departments");
             var attendancesDeleted = await SafeDeleteAsync(context.Attendances, "Attendances");
             var leaveRequestsDeleted = await SafeDeleteAsync(context.LeaveRequests, "LeaveRequests");
+            var calendarEventsDeleted = await SafeDeleteAsync(context.CalendarEvents, "CalendarEvents");
+            var noticeReceiptsDeleted = await SafeDeleteAsync(context.NoticeReceipts, "NoticeReceipts");
+            var noticesDeleted = await SafeDeleteAsync(context.Notices, "Notices");
+            var expenseReceiptsDeleted = await SafeDeleteAsync(context.ExpenseReceipts, "ExpenseReceipts");
+            var expenseItemsDeleted = await SafeDeleteAsync(context.ExpenseItems, "ExpenseItems");
+            var expenseClaimsDeleted = await SafeDeleteAsync(context.ExpenseClaims, "ExpenseClaims");
+            var reimbursementBatchesDeleted = await SafeDeleteAsync(context.ReimbursementBatches, "ReimbursementBatches");
+            var payslipsDeleted = await SafeDeleteAsync(context.Payslips, "Payslips");
+            var payRunsDeleted = await SafeDeleteAsync(context.PayRuns, "PayRuns");
+            var payrollSettingsDeleted = await SafeDeleteAsync(context.PayrollSettings, "PayrollSettings");
+            var leavePoliciesDeleted = await SafeDeleteAsync(context.LeavePolicies, "LeavePolicies");
             var employeesDeleted = await SafeDeleteAsync(context.Employees, "Employees");
             
             // Delete tenants last (parent table)
@@ -1,4 +1,5 @@
 using AutoMapper;
+using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Configuration;
@@ -8,6 +9,7 @@ using SmallHR.Core.Entities;
 using SmallHR.Core.Interfaces;
 using System.IdentityModel.Tokens.Jwt;
 using System.Security.Claims;
+using System.Security.Cryptography;
 using System.Text;
 
 namespace SmallHR.API.Services;
@@ -19,19 +21,25 @@ public class AuthService : IAuthService
     private readonly IConfiguration _configuration;
     private readonly IMapper _mapper;
     private readonly ITenantProvider _tenantProvider;
+    private readonly IGenericRepository<UserSession> _sessionRepository;
+    private readonly IHttpContextAccessor _httpContextAccessor;
 
     public AuthService(
         UserManager<User> userManager,
         SignInManager<User> signInManager,
         IConfiguration configuration,
         IMapper mapper,
-        ITenantProvider tenantProvider)
+        ITenantProvider tenantProvider,
+        IGenericRepository<UserSession> sessionRepository,
+        IHttpContextAccessor httpContextAccessor)
     {
         _userManager = userManager;
         _signInManager = signInManager;
         _configuration = configuration;
         _mapper = mapper;
         _tenantProvider = tenantProvider;
+        _sessionRepository = sessionRepository;
+        _httpContextAccessor = httpContextAccessor;
     }
 
     public async Task<AuthResponseDto> LoginAsync(LoginDto loginDto)
@@ -80,12 +88,7 @@ public class AuthService : IAuthService
         }
 
         var token = await GenerateJwtTokenAsync(user);
-        var refreshToken = GenerateRefreshToken();
-
-        // Store refresh token
-        user.RefreshToken = refreshToken;
-        user.RefreshTokenExpiryTime = DateTime.UtcNow.AddDays(7);
-        await _userManager.UpdateAsync(user);
+        var refreshToken = await StartSessionAsync(user);
 
         // Get user roles
         var roles = await _userManager.GetRolesAsync(user);
@@ -128,11 +131,7 @@ public class AuthService : IAuthService
         await _userManager.AddToRoleAsync(user, "Employee");
 
         var token = await GenerateJwtTokenAsync(user);
-        var refreshToken = GenerateRefreshToken();
-
-        user.RefreshToken = refreshToken;
-        user.RefreshTokenExpiryTime = DateTime.UtcNow.AddDays(7);
-        await _userManager.UpdateAsync(user);
+        var refreshToken = await StartSessionAsync(user);
 
         // Get user roles
         var roles = await _userManager.GetRolesAsync(user);
@@ -150,18 +149,45 @@ public class AuthService : IAuthService
 
     public async Task<AuthResponseDto> RefreshTokenAsync(RefreshTokenDto refreshTokenDto)
     {
-        var user = await _userManager.Users.FirstOrDefaultAsync(u => u.RefreshToken == refreshTokenDto.RefreshToken);
-        if (user == null || user.RefreshTokenExpiryTime <= DateTime.UtcNow)
+        if (string.IsNullOrWhiteSpace(refreshTokenDto.RefreshToken))
         {
             throw new UnauthorizedAccessException("Invalid refresh token");
         }
 
-        var token = await GenerateJwtTokenAsync(user);
-        var newRefreshToken = GenerateRefreshToken();
+        string newRefreshToken;
+        User? user;
+        var session = await FindActiveSessionAsync(refreshTokenDto.RefreshToken);
+        if (session != null)
+        {
+            user = await _userManager.FindByIdAsync(session.UserId);
+            if (user == null || !user.IsActive)
+            {
+                throw new UnauthorizedAccessException("Invalid refresh token");
+            }
 
-        user.RefreshToken = newRefreshToken;
-        user.RefreshTokenExpiryTime = DateTime.UtcNow.AddDays(7);
-        await _userManager.UpdateAsync(user);
+            // Rotate the token so a stolen copy stops working after the next refresh
+            newRefreshToken = GenerateRefreshToken();
+            session.RefreshTokenHash = HashRefreshToken(newRefreshToken);
+            session.LastActiveAt = DateTime.UtcNow;
+            session.ExpiresAt = DateTime.UtcNow.AddDays(7);
+            await _sessionRepository.UpdateAsync(session);
+        }
+        else
+        {
+            // Tokens issued before sessions existed are stored on the user; move them over on first use
+            user = await _userManager.Users.FirstOrDefaultAsync(u => u.RefreshToken == refreshTokenDto.RefreshToken);
+            if (user == null || user.RefreshTokenExpiryTime <= DateTime.UtcNow || !user.IsActive)
+            {
+                throw new UnauthorizedAccessException("Invalid refresh token");
+            }
+
+            user.RefreshToken = null;
+            user.RefreshTokenExpiryTime = null;
+            await _userManager.UpdateAsync(user);
+            newRefreshToken = await StartSessionAsync(user);
+        }
+
+        var token = await GenerateJwtTokenAsync(user);
 
         // Get user roles
         var roles = await _userManager.GetRolesAsync(user);
@@ -179,6 +205,16 @@ public class AuthService : IAuthService
 
     public async Task<bool> RevokeTokenAsync(string refreshToken)
     {
+        if (string.IsNullOrWhiteSpace(refreshToken)) return false;
+
+        var session = await FindActiveSessionAsync(refreshToken);
+        if (session != null)
+        {
+            session.RevokedAt = DateTime.UtcNow;
+            await _sessionRepository.UpdateAsync(session);
+            return true;
+        }
+
         var user = await _userManager.Users.FirstOrDefaultAsync(u => u.RefreshToken == refreshToken);
         if (user == null) return false;
 
@@ -213,6 +249,81 @@ public class AuthService : IAuthService
         return userDto;
     }
 
+    public async Task<IEnumerable<UserSessionDto>> GetSessionsAsync(string userId, string? currentRefreshToken)
+    {
+        var now = DateTime.UtcNow;
+        var currentHash = string.IsNullOrWhiteSpace(currentRefreshToken) ? null : HashRefreshToken(currentRefreshToken);
+        var sessions = await _sessionRepository.FindAsync(s => s.UserId == userId && s.RevokedAt == null && s.ExpiresAt > now);
+
+        return sessions
+            .OrderByDescending(s => s.LastActiveAt)
+            .Select(s =>
+            {
+                var dto = _mapper.Map<UserSessionDto>(s);
+                dto.IsCurrent = s.RefreshTokenHash == currentHash;
+                return dto;
+            })
+            .ToList();
+    }
+
+    public async Task<bool> RevokeSessionAsync(string userId, int sessionId)
+    {
+        var session = await _sessionRepository.FirstOrDefaultAsync(s => s.Id == sessionId && s.UserId == userId && s.RevokedAt == null);
+        if (session == null) return false;
+
+        session.RevokedAt = DateTime.UtcNow;
+        await _sessionRepository.UpdateAsync(session);
+        return true;
+    }
+
+    public async Task<int> RevokeOtherSessionsAsync(string userId, string? currentRefreshToken)
+    {
+        var currentHash = string.IsNullOrWhiteSpace(currentRefreshToken) ? null : HashRefreshToken(currentRefreshToken);
+        var sessions = (await _sessionRepository.FindAsync(s => s.UserId == userId && s.RevokedAt == null))
+            .Where(s => s.RefreshTokenHash != currentHash)
+            .ToList();
+
+        var now = DateTime.UtcNow;
+        foreach (var session in sessions)
+        {
+            session.RevokedAt = now;
+            await _sessionRepository.UpdateAsync(session);
+        }
+
+        return sessions.Count;
+    }
+
+    private async Task<string> StartSessionAsync(User user)
+    {
+        var refreshToken = GenerateRefreshToken();
+        var httpContext = _httpContextAccessor.HttpContext;
+        var userAgent = httpContext?.Request.Headers.UserAgent.ToString();
+
+        await _sessionRepository.AddAsync(new UserSession
+        {
+            UserId = user.Id,
+            RefreshTokenHash = HashRefreshToken(refreshToken),
+            ExpiresAt = DateTime.UtcNow.AddDays(7),
+            LastActiveAt = DateTime.UtcNow,
+            IpAddress = httpContext?.Connection.RemoteIpAddress?.ToString(),
+            UserAgent = string.IsNullOrEmpty(userAgent) ? null : userAgent[..Math.Min(userAgent.Length, 500)]
+        });
+
+        return refreshToken;
+    }
+
+    private async Task<UserSession?> FindActiveSessionAsync(string refreshToken)
+    {
+        var hash = HashRefreshToken(refreshToken);
+        var now = DateTime.UtcNow;
+        return await _sessionRepository.FirstOrDefaultAsync(s => s.RefreshTokenHash == hash && s.RevokedAt == null && s.ExpiresAt > now);
+    }
+
+    private static string HashRefreshToken(string refreshToken)
+    {
+        return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(refreshToken))).ToLowerInvariant();
+    }
+
     private async Task<string> GenerateJwtTokenAsync(User user)
     {
         var roles = await _userManager.GetRolesAsync(user);
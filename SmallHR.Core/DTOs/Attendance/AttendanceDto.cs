@@ -51,6 +51,19 @@ public class UpdateAttendanceDto
     public string? Notes { get; set; }
 }
 
+public class AttendanceDailySummaryDto
+{
+    public DateTime Date { get; set; }
+    
+    public int Present { get; set; }
+    
+    public int Late { get; set; }
+    
+    public int Absent { get; set; }
+    
+    public double TotalHours { get; set; }
+}
+
 public class ClockInDto
 {
     [Required]
@@ -0,0 +1,100 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.DTOs.Auth;
+
+public class UpdateProfileDto
+{
+    [Required]
+    [StringLength(100)]
+    public string FirstName { get; set; } = string.Empty;
+    
+    [Required]
+    [StringLength(100)]
+    public string LastName { get; set; } = string.Empty;
+    
+    [Required]
+    public DateTime DateOfBirth { get; set; }
+    
+    [StringLength(500)]
+    public string Address { get; set; } = string.Empty;
+    
+    [StringLength(100)]
+    public string City { get; set; } = string.Empty;
+    
+    [StringLength(100)]
+    public string State { get; set; } = string.Empty;
+    
+    [StringLength(20)]
+    public string ZipCode { get; set; } = string.Empty;
+    
+    [StringLength(100)]
+    public string Country { get; set; } = string.Empty;
+}
+
+public class ChangePasswordDto
+{
+    [Required]
+    public string CurrentPassword { get; set; } = string.Empty;
+    
+    [Required]
+    [MinLength(12, ErrorMessage = "Password must be at least 12 characters")]
+    public string NewPassword { get; set; } = string.Empty;
+}
+
+public class UserPreferencesDto
+{
+    public string ThemeMode { get; set; } = "light";
+    
+    public string Palette { get; set; } = "default";
+    
+    public string DateFormat { get; set; } = "DD MMM YYYY";
+    
+    public string TimeFormat { get; set; } = "24h";
+    
+    public string? LandingPage { get; set; }
+    
+    public List<string> MutedNotificationCategories { get; set; } = new();
+}
+
+public class UpdateUserPreferencesDto
+{
+    [Required]
+    [RegularExpression("^(light|dark|system)$", ErrorMessage = "Theme must be light, dark or system")]
+    public string ThemeMode { get; set; } = "light";
+    
+    [Required]
+    [RegularExpression("^[a-z]{1,20}$", ErrorMessage = "Palette must be a preset name")]
+    public string Palette { get; set; } = "default";
+    
+    [Required]
+    [RegularExpression("^(DD MMM YYYY|DD/MM/YYYY|MM/DD/YYYY|YYYY-MM-DD)$", ErrorMessage = "Unsupported date format")]
+    public string DateFormat { get; set; } = "DD MMM YYYY";
+    
+    [Required]
+    [RegularExpression("^(12h|24h)$", ErrorMessage = "Time format must be 12h or 24h")]
+    public string TimeFormat { get; set; } = "24h";
+    
+    [StringLength(200)]
+    [RegularExpression("^/[a-z0-9/-]*$", ErrorMessage = "Landing page must be an app path")]
+    public string? LandingPage { get; set; }
+    
+    // Unknown categories are dropped when saved
+    public List<string> MutedNotificationCategories { get; set; } = new();
+}
+
+public class UserSessionDto
+{
+    public int Id { get; set; }
+    
+    public string? IpAddress { get; set; }
+    
+    public string? UserAgent { get; set; }
+    
+    public DateTime CreatedAt { get; set; }
+    
+    public DateTime LastActiveAt { get; set; }
+    
+    public DateTime ExpiresAt { get; set; }
+    
+    public bool IsCurrent { get; set; } // The session making this request
+}
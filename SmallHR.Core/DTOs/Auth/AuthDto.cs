@@ -82,11 +82,13 @@ public class UserDto
     public bool IsActive { get; set; }
     
     public IList<string> Roles { get; set; } = new List<string>();
+    
+    public UserPreferencesDto Preferences { get; set; } = new();
 }
 
 public class RefreshTokenDto
 {
-    [Required]
+    // Optional in the body; the browser client sends it in the refreshToken cookie instead
     public string RefreshToken { get; set; } = string.Empty;
 }
 
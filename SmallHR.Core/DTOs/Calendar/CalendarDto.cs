@@ -0,0 +1,76 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.DTOs.Calendar;
+
+public class CalendarEventDto : BaseDto
+{
+    public string Title { get; set; } = string.Empty;
+    
+    public string? Description { get; set; }
+    
+    public DateTime StartDate { get; set; }
+    
+    public DateTime EndDate { get; set; }
+    
+    public string EventType { get; set; } = string.Empty;
+    
+    public string? Department { get; set; }
+    
+    public string? Location { get; set; }
+    
+    public string? CreatedBy { get; set; }
+}
+
+public class CreateCalendarEventDto
+{
+    [Required]
+    [StringLength(200)]
+    public string Title { get; set; } = string.Empty;
+    
+    [StringLength(1000)]
+    public string? Description { get; set; }
+    
+    [Required]
+    public DateTime StartDate { get; set; }
+    
+    [Required]
+    public DateTime EndDate { get; set; }
+    
+    [Required]
+    [RegularExpression("^(Event|Holiday)$", ErrorMessage = "Event type must be Event or Holiday")]
+    public string EventType { get; set; } = "Event";
+    
+    [StringLength(100)]
+    public string? Department { get; set; }
+    
+    [StringLength(200)]
+    public string? Location { get; set; }
+}
+
+public class UpdateCalendarEventDto : CreateCalendarEventDto
+{
+}
+
+/// <summary>
+/// One item on the shared calendar, whatever its source
+/// </summary>
+public class CalendarEntryDto
+{
+    public string Id { get; set; } = string.Empty; // Stable per source, e.g. "leave-12", "birthday-4-2026"
+    
+    public string Type { get; set; } = string.Empty; // Leave, Holiday, Birthday, Anniversary, Event
+    
+    public string Title { get; set; } = string.Empty;
+    
+    public string? Description { get; set; }
+    
+    public DateTime StartDate { get; set; }
+    
+    public DateTime EndDate { get; set; }
+    
+    public string? Department { get; set; }
+    
+    public int? EmployeeId { get; set; }
+    
+    public int? EventId { get; set; }
+}
@@ -47,6 +47,8 @@ public class EmployeeDto : BaseDto
     public string Role { get; set; } = string.Empty;
     
     public string? UserId { get; set; }
+    
+    public int? ManagerId { get; set; }
 }
 
 public class CreateEmployeeDto
@@ -101,6 +103,45 @@ public class CreateEmployeeDto
     
     [Required]
     public string Role { get; set; } = "Employee"; // Default role
+    
+    public int? ManagerId { get; set; }
+}
+
+/// <summary>
+/// Contact details an employee may change on their own record
+/// </summary>
+public class UpdateMyProfileDto
+{
+    [Phone]
+    public string PhoneNumber { get; set; } = string.Empty;
+    
+    public string Address { get; set; } = string.Empty;
+    
+    public string City { get; set; } = string.Empty;
+    
+    public string State { get; set; } = string.Empty;
+    
+    public string ZipCode { get; set; } = string.Empty;
+    
+    public string Country { get; set; } = string.Empty;
+    
+    public string EmergencyContactName { get; set; } = string.Empty;
+    
+    [Phone]
+    public string EmergencyContactPhone { get; set; } = string.Empty;
+    
+    public string EmergencyContactRelationship { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Moves an employee to another department and/or manager
+/// </summary>
+public class UpdateReportingLineDto
+{
+    [Required]
+    public string Department { get; set; } = string.Empty;
+    
+    public int? ManagerId { get; set; }
 }
 
 public class UpdateEmployeeDto
@@ -153,4 +194,6 @@ public class UpdateEmployeeDto
     
     [Required]
     public string Role { get; set; } = "Employee"; // Default role
+    
+    public int? ManagerId { get; set; }
 }
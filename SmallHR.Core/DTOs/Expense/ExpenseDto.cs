@@ -0,0 +1,155 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.DTOs.Expense;
+
+public class ExpenseClaimDto : BaseDto
+{
+    public int EmployeeId { get; set; }
+    
+    public string EmployeeName { get; set; } = string.Empty;
+    
+    public string Department { get; set; } = string.Empty;
+    
+    public int? ManagerId { get; set; } // Claimant's manager, who may review the claim
+    
+    public string Title { get; set; } = string.Empty;
+    
+    public string Currency { get; set; } = string.Empty;
+    
+    public decimal TotalAmount { get; set; }
+    
+    public string Status { get; set; } = string.Empty;
+    
+    public DateTime SubmittedAt { get; set; }
+    
+    public string? ReviewedBy { get; set; }
+    
+    public DateTime? ReviewedAt { get; set; }
+    
+    public string? ReviewComments { get; set; }
+    
+    public int? ReimbursementBatchId { get; set; }
+    
+    public string? BatchReference { get; set; }
+    
+    public DateTime? ReimbursedAt { get; set; }
+    
+    public List<ExpenseItemDto> Items { get; set; } = new();
+    
+    public List<ExpenseReceiptDto> Receipts { get; set; } = new();
+}
+
+public class ExpenseItemDto
+{
+    public int Id { get; set; }
+    
+    public DateTime ExpenseDate { get; set; }
+    
+    public string Category { get; set; } = string.Empty;
+    
+    public string Description { get; set; } = string.Empty;
+    
+    public decimal Amount { get; set; }
+}
+
+public class ExpenseReceiptDto
+{
+    public int Id { get; set; }
+    
+    public string FileName { get; set; } = string.Empty;
+    
+    public string ContentType { get; set; } = string.Empty;
+    
+    public long FileSize { get; set; }
+    
+    public DateTime CreatedAt { get; set; }
+}
+
+public class ExpenseReceiptFileDto
+{
+    public string FileName { get; set; } = string.Empty;
+    
+    public string ContentType { get; set; } = string.Empty;
+    
+    public byte[] Content { get; set; } = Array.Empty<byte>();
+}
+
+public class CreateExpenseItemDto
+{
+    [Required]
+    public DateTime ExpenseDate { get; set; }
+    
+    [Required]
+    [StringLength(50)]
+    public string Category { get; set; } = string.Empty;
+    
+    [Required]
+    [StringLength(500)]
+    public string Description { get; set; } = string.Empty;
+    
+    [Range(0.01, 1000000)]
+    public decimal Amount { get; set; }
+}
+
+public class CreateExpenseClaimDto
+{
+    [Required]
+    [StringLength(200)]
+    public string Title { get; set; } = string.Empty;
+    
+    [Required]
+    [RegularExpression("^[A-Z]{3}$", ErrorMessage = "Currency must be a three-letter ISO code")]
+    public string Currency { get; set; } = "USD";
+    
+    [Required]
+    [MinLength(1, ErrorMessage = "A claim needs at least one line item")]
+    public List<CreateExpenseItemDto> Items { get; set; } = new();
+}
+
+public class UpdateExpenseClaimDto : CreateExpenseClaimDto
+{
+}
+
+public class ReviewExpenseClaimDto
+{
+    [Required]
+    [RegularExpression("^(Approved|Rejected)$", ErrorMessage = "Status must be Approved or Rejected")]
+    public string Status { get; set; } = string.Empty;
+    
+    [StringLength(500)]
+    public string? Comments { get; set; }
+}
+
+public class ReimbursementBatchDto : BaseDto
+{
+    public string Reference { get; set; } = string.Empty;
+    
+    public int PayrollYear { get; set; }
+    
+    public int PayrollMonth { get; set; }
+    
+    public string Currency { get; set; } = string.Empty;
+    
+    public decimal TotalAmount { get; set; }
+    
+    public int ClaimCount { get; set; }
+    
+    public string Status { get; set; } = string.Empty; // Pending, Paid
+    
+    public string? CreatedBy { get; set; }
+    
+    public DateTime? PaidAt { get; set; }
+}
+
+public class CreateReimbursementBatchDto
+{
+    [Range(2000, 2100)]
+    public int PayrollYear { get; set; }
+    
+    [Range(1, 12)]
+    public int PayrollMonth { get; set; }
+    
+    [Required]
+    [RegularExpression("^[A-Z]{3}$", ErrorMessage = "Currency must be a three-letter ISO code")]
+    public string Currency { get; set; } = "USD";
+}
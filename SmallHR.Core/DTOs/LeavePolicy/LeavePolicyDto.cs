@@ -0,0 +1,66 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.DTOs.LeavePolicy;
+
+public class LeavePolicyDto : BaseDto
+{
+    public string LeaveType { get; set; } = string.Empty;
+    
+    public decimal AnnualEntitlement { get; set; }
+    
+    public decimal AccrualPerMonth { get; set; }
+    
+    public decimal MaxCarryOver { get; set; }
+    
+    public int ProbationMonths { get; set; }
+    
+    public bool AllowDuringProbation { get; set; }
+    
+    public bool ProRateFromHireDate { get; set; }
+    
+    public bool IsActive { get; set; }
+}
+
+public class CreateLeavePolicyDto
+{
+    [Required]
+    [StringLength(50)]
+    public string LeaveType { get; set; } = string.Empty;
+    
+    [Range(0, 366)]
+    public decimal AnnualEntitlement { get; set; }
+    
+    [Range(0, 31)]
+    public decimal AccrualPerMonth { get; set; }
+    
+    [Range(0, 366)]
+    public decimal MaxCarryOver { get; set; }
+    
+    [Range(0, 24)]
+    public int ProbationMonths { get; set; }
+    
+    public bool AllowDuringProbation { get; set; }
+    
+    public bool ProRateFromHireDate { get; set; } = true;
+}
+
+public class UpdateLeavePolicyDto
+{
+    [Range(0, 366)]
+    public decimal AnnualEntitlement { get; set; }
+    
+    [Range(0, 31)]
+    public decimal AccrualPerMonth { get; set; }
+    
+    [Range(0, 366)]
+    public decimal MaxCarryOver { get; set; }
+    
+    [Range(0, 24)]
+    public int ProbationMonths { get; set; }
+    
+    public bool AllowDuringProbation { get; set; }
+    
+    public bool ProRateFromHireDate { get; set; }
+    
+    public bool IsActive { get; set; }
+}
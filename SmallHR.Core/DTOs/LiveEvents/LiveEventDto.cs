@@ -0,0 +1,23 @@
+namespace SmallHR.Core.DTOs.LiveEvents;
+
+/// <summary>
+/// Event pushed to signed-in browser sessions over the live event stream
+/// </summary>
+public class LiveEventDto
+{
+    public string Type { get; set; } = string.Empty;
+    public object? Data { get; set; }
+    public DateTime OccurredAt { get; set; } = DateTime.UtcNow;
+}
+
+/// <summary>
+/// Event names shared with the web client (services/liveEvents.ts)
+/// </summary>
+public static class LiveEventTypes
+{
+    public const string PermissionsChanged = "permissions.changed";
+    public const string AlertCreated = "alert.created";
+    public const string AlertUpdated = "alert.updated";
+    public const string ImpersonationEnded = "impersonation.ended";
+    public const string NotificationCreated = "notification.created";
+}
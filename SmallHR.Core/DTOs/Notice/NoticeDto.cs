@@ -0,0 +1,80 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.DTOs.Notice;
+
+public class NoticeDto : BaseDto
+{
+    public string Title { get; set; } = string.Empty;
+    
+    public string Content { get; set; } = string.Empty;
+    
+    public List<string> TargetDepartments { get; set; } = new();
+    
+    public List<string> TargetRoles { get; set; } = new();
+    
+    public bool IsPinned { get; set; }
+    
+    public DateTime PublishAt { get; set; }
+    
+    public DateTime? ExpiresAt { get; set; }
+    
+    public string? CreatedBy { get; set; }
+    
+    public string Status { get; set; } = string.Empty; // Scheduled, Published, Expired
+    
+    public bool IsRead { get; set; } // For the requesting user
+    
+    public int ReadCount { get; set; }
+    
+    public int AudienceCount { get; set; } // Active employees the notice targets
+}
+
+public class CreateNoticeDto
+{
+    [Required]
+    [StringLength(200)]
+    public string Title { get; set; } = string.Empty;
+    
+    [Required]
+    [StringLength(20000)]
+    public string Content { get; set; } = string.Empty;
+    
+    public List<string> TargetDepartments { get; set; } = new(); // Empty = all departments
+    
+    public List<string> TargetRoles { get; set; } = new(); // Empty = all roles
+    
+    public bool IsPinned { get; set; }
+    
+    public DateTime? PublishAt { get; set; } // Null = publish now
+    
+    public DateTime? ExpiresAt { get; set; }
+}
+
+public class UpdateNoticeDto : CreateNoticeDto
+{
+}
+
+public class NoticeReceiptDto
+{
+    public string UserId { get; set; } = string.Empty;
+    
+    public string ReaderName { get; set; } = string.Empty;
+    
+    public string? Department { get; set; }
+    
+    public DateTime ReadAt { get; set; }
+}
+
+/// <summary>
+/// Who is asking for notices: decides which targeted notices they can see
+/// </summary>
+public class NoticeAudienceDto
+{
+    public string UserId { get; set; } = string.Empty;
+    
+    public string ReaderName { get; set; } = string.Empty;
+    
+    public string? Department { get; set; }
+    
+    public IList<string> Roles { get; set; } = new List<string>();
+}
@@ -0,0 +1,67 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.DTOs.Notification;
+
+/// <summary>
+/// Inbox categories; users can mute each one from their preferences
+/// </summary>
+public static class NotificationCategories
+{
+    public const string Leave = "leave";
+    public const string Employees = "employees";
+    public const string Billing = "billing";
+    public const string General = "general";
+
+    public static readonly string[] All = { Leave, Employees, Billing, General };
+
+    public static bool IsKnown(string category) => All.Contains(category);
+
+    // Muted categories are stored on the user as a comma-separated list
+    public static List<string> Parse(string? stored) =>
+        string.IsNullOrWhiteSpace(stored)
+            ? new List<string>()
+            : stored.Split(',', StringSplitOptions.RemoveEmptyEntries).Where(IsKnown).ToList();
+
+    public static string? Format(IEnumerable<string>? categories)
+    {
+        var known = categories?.Where(IsKnown).Distinct().ToList();
+        return known == null || known.Count == 0 ? null : string.Join(',', known);
+    }
+}
+
+public class UserNotificationDto
+{
+    public int Id { get; set; }
+    
+    public string Category { get; set; } = string.Empty;
+    
+    public string Title { get; set; } = string.Empty;
+    
+    public string? Message { get; set; }
+    
+    public string? Link { get; set; }
+    
+    public bool IsRead { get; set; }
+    
+    public DateTime CreatedAt { get; set; }
+    
+    public DateTime? ReadAt { get; set; }
+}
+
+public class CreateUserNotificationDto
+{
+    [Required]
+    [RegularExpression("^(leave|employees|billing|general)$", ErrorMessage = "Unknown notification category")]
+    public string Category { get; set; } = NotificationCategories.General;
+    
+    [Required]
+    [StringLength(200)]
+    public string Title { get; set; } = string.Empty;
+    
+    [StringLength(1000)]
+    public string? Message { get; set; }
+    
+    [StringLength(500)]
+    [RegularExpression("^/[A-Za-z0-9/_?=&.-]*$", ErrorMessage = "Link must be an app path")]
+    public string? Link { get; set; }
+}
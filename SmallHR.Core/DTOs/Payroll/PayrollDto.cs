@@ -0,0 +1,144 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.DTOs.Payroll;
+
+public class PayrollSettingsDto
+{
+    public int PayDay { get; set; }
+    
+    public string Currency { get; set; } = "USD";
+    
+    public decimal OvertimeMultiplier { get; set; }
+    
+    public decimal StandardHoursPerDay { get; set; }
+    
+    public int WorkingDaysPerMonth { get; set; }
+    
+    public decimal TaxRatePercent { get; set; }
+}
+
+public class UpdatePayrollSettingsDto
+{
+    [Range(1, 28)]
+    public int PayDay { get; set; }
+    
+    [Required]
+    [StringLength(3, MinimumLength = 3)]
+    public string Currency { get; set; } = "USD";
+    
+    [Range(1, 5)]
+    public decimal OvertimeMultiplier { get; set; }
+    
+    [Range(1, 24)]
+    public decimal StandardHoursPerDay { get; set; }
+    
+    [Range(1, 31)]
+    public int WorkingDaysPerMonth { get; set; }
+    
+    [Range(0, 100)]
+    public decimal TaxRatePercent { get; set; }
+}
+
+public class PayRunDto : BaseDto
+{
+    public int Year { get; set; }
+    
+    public int Month { get; set; }
+    
+    public DateTime PeriodStart { get; set; }
+    
+    public DateTime PeriodEnd { get; set; }
+    
+    public DateTime PayDate { get; set; }
+    
+    public string Status { get; set; } = string.Empty;
+    
+    public string Currency { get; set; } = string.Empty;
+    
+    public int EmployeeCount { get; set; }
+    
+    public decimal TotalGross { get; set; }
+    
+    public decimal TotalDeductions { get; set; }
+    
+    public decimal TotalNet { get; set; }
+    
+    public string? FinalizedBy { get; set; }
+    
+    public DateTime? FinalizedAt { get; set; }
+    
+    public List<PayslipDto> Payslips { get; set; } = new();
+}
+
+public class CreatePayRunDto
+{
+    [Range(2000, 2100)]
+    public int Year { get; set; }
+    
+    [Range(1, 12)]
+    public int Month { get; set; }
+}
+
+public class PayslipDto : BaseDto
+{
+    public int PayRunId { get; set; }
+    
+    public int EmployeeId { get; set; }
+    
+    public string EmployeeName { get; set; } = string.Empty;
+    
+    public string Department { get; set; } = string.Empty;
+    
+    public string Position { get; set; } = string.Empty;
+    
+    public int Year { get; set; }
+    
+    public int Month { get; set; }
+    
+    public DateTime PeriodStart { get; set; }
+    
+    public DateTime PeriodEnd { get; set; }
+    
+    public DateTime PayDate { get; set; }
+    
+    public string Status { get; set; } = string.Empty;
+    
+    public string Currency { get; set; } = string.Empty;
+    
+    public decimal BaseSalary { get; set; }
+    
+    public decimal OvertimeHours { get; set; }
+    
+    public decimal OvertimePay { get; set; }
+    
+    public decimal UnpaidLeaveDays { get; set; }
+    
+    public decimal UnpaidLeaveDeduction { get; set; }
+    
+    public decimal GrossPay { get; set; }
+    
+    public decimal TaxDeduction { get; set; }
+    
+    public decimal Reimbursements { get; set; }
+    
+    public decimal NetPay { get; set; }
+}
+
+public class PayrollDepartmentSummaryDto
+{
+    public string Department { get; set; } = string.Empty;
+    
+    public int EmployeeCount { get; set; }
+    
+    public decimal TotalBase { get; set; }
+    
+    public decimal TotalOvertime { get; set; }
+    
+    public decimal TotalUnpaidLeave { get; set; }
+    
+    public decimal TotalGross { get; set; }
+    
+    public decimal TotalTax { get; set; }
+    
+    public decimal TotalNet { get; set; }
+}
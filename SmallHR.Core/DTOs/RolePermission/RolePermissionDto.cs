@@ -1,3 +1,5 @@
+using System.ComponentModel.DataAnnotations;
+
 namespace SmallHR.Core.DTOs.RolePermission;
 
 public class RolePermissionDto
@@ -30,3 +32,36 @@ public class BulkUpdateRolePermissionsDto
     public required List<UpdateRolePermissionDto> Permissions { get; set; }
 }
 
+public class RolePermissionSnapshotDto
+{
+    public int Id { get; set; }
+    public int Version { get; set; }
+    public required string Label { get; set; }
+    public string? CreatedBy { get; set; }
+    public int PermissionCount { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
+
+public class RolePermissionSnapshotDetailDto : RolePermissionSnapshotDto
+{
+    public List<RolePermissionSnapshotEntryDto> Entries { get; set; } = new();
+}
+
+public class RolePermissionSnapshotEntryDto
+{
+    public required string RoleName { get; set; }
+    public required string PagePath { get; set; }
+    public required string PageName { get; set; }
+    public bool CanAccess { get; set; }
+    public bool CanView { get; set; }
+    public bool CanCreate { get; set; }
+    public bool CanEdit { get; set; }
+    public bool CanDelete { get; set; }
+    public string? Description { get; set; }
+}
+
+public class CreateRolePermissionSnapshotDto
+{
+    [StringLength(200)]
+    public string? Label { get; set; }
+}
@@ -56,6 +56,44 @@ public class FeatureDto
     public string? Value { get; set; }
 }
 
+/// <summary>
+/// What the current tenant's plan allows, with usage for limit-type features
+/// </summary>
+public class TenantFeaturesDto
+{
+    public string PlanName { get; set; } = string.Empty;
+    public List<TenantFeatureDto> Features { get; set; } = new();
+}
+
+public class TenantFeatureDto : FeatureDto
+{
+    public int? Used { get; set; } // Only for Limit features the tenant can count, e.g. max_employees
+}
+
+/// <summary>
+/// What switching the current subscription to another plan would cost for the rest of the billing period
+/// </summary>
+public class PlanChangePreviewDto
+{
+    public int CurrentPlanId { get; set; }
+    public string CurrentPlanName { get; set; } = string.Empty;
+    public int NewPlanId { get; set; }
+    public string NewPlanName { get; set; } = string.Empty;
+    public bool IsUpgrade { get; set; }
+    public string BillingPeriod { get; set; } = string.Empty;
+    public DateTime PeriodStart { get; set; }
+    public DateTime PeriodEnd { get; set; }
+    public int DaysInPeriod { get; set; }
+    public int DaysRemaining { get; set; }
+    public decimal CurrentPrice { get; set; } // Per billing period
+    public decimal NewPrice { get; set; }
+    public decimal Credit { get; set; } // Unused part of the current plan
+    public decimal Charge { get; set; } // Remaining part of the new plan
+    public decimal AmountDue { get; set; } // Negative when the tenant is owed a credit
+    public string Currency { get; set; } = "USD";
+    public List<string> Blockers { get; set; } = new(); // Current usage the new plan cannot hold
+}
+
 public class CreateSubscriptionRequest
 {
     public int TenantId { get; set; }
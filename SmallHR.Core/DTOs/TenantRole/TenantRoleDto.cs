@@ -0,0 +1,40 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.DTOs.TenantRole;
+
+public class TenantRoleDto
+{
+    public int? Id { get; set; } // Null for built-in roles, which have no tenant record
+    
+    public string Name { get; set; } = string.Empty;
+    
+    public string? Description { get; set; }
+    
+    public bool IsBuiltIn { get; set; }
+    
+    public int UserCount { get; set; } // Users in this tenant holding the role
+}
+
+public class CreateTenantRoleDto
+{
+    [Required]
+    [StringLength(50, MinimumLength = 2)]
+    [RegularExpression(@"^[A-Za-z][A-Za-z0-9 _-]*$", ErrorMessage = "Role names start with a letter and may contain letters, digits, spaces, '-' and '_'")]
+    public string Name { get; set; } = string.Empty;
+    
+    [StringLength(500)]
+    public string? Description { get; set; }
+    
+    public string? CloneFrom { get; set; } // Copy this role's page permissions instead of starting with none
+}
+
+public class UpdateTenantRoleDto
+{
+    [Required]
+    [StringLength(50, MinimumLength = 2)]
+    [RegularExpression(@"^[A-Za-z][A-Za-z0-9 _-]*$", ErrorMessage = "Role names start with a letter and may contain letters, digits, spaces, '-' and '_'")]
+    public string Name { get; set; } = string.Empty;
+    
+    [StringLength(500)]
+    public string? Description { get; set; }
+}
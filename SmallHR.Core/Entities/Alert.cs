@@ -16,7 +16,7 @@ public class Alert : BaseEntity
     
     [Required]
     [MaxLength(20)]
-    public string Severity { get; set; } = "Medium"; // High, Medium, Low
+    public string Severity { get; set; } = "Medium"; // Critical, High, Medium, Low
     
     [Required]
     [MaxLength(500)]
@@ -0,0 +1,36 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// Tenant-wide event or public holiday shown on the shared calendar
+/// </summary>
+public class CalendarEvent : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    [Required]
+    [StringLength(200)]
+    public string Title { get; set; } = string.Empty;
+    
+    [StringLength(1000)]
+    public string? Description { get; set; }
+    
+    [Required]
+    public DateTime StartDate { get; set; }
+    
+    [Required]
+    public DateTime EndDate { get; set; }
+    
+    [Required]
+    [StringLength(20)]
+    public string EventType { get; set; } = "Event"; // Event, Holiday
+    
+    [StringLength(100)]
+    public string? Department { get; set; } // Null = whole company
+    
+    [StringLength(200)]
+    public string? Location { get; set; }
+    
+    public string? CreatedBy { get; set; }
+}
@@ -59,9 +59,15 @@ public class Employee : BaseEntity
     // Foreign Keys
     public string? UserId { get; set; }
     
+    public int? ManagerId { get; set; }
+    
     // Navigation properties
     public virtual User? User { get; set; }
     
+    public virtual Employee? Manager { get; set; }
+    
+    public virtual ICollection<Employee> DirectReports { get; set; } = new List<Employee>();
+    
     public virtual ICollection<LeaveRequest> LeaveRequests { get; set; } = new List<LeaveRequest>();
     
     public virtual ICollection<Attendance> Attendances { get; set; } = new List<Attendance>();
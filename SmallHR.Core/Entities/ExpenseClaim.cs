@@ -0,0 +1,47 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// An employee's claim for out-of-pocket expenses, made up of line items and receipts
+/// </summary>
+public class ExpenseClaim : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    [Required]
+    public int EmployeeId { get; set; }
+    
+    [Required]
+    [StringLength(200)]
+    public string Title { get; set; } = string.Empty;
+    
+    [Required]
+    [StringLength(3)]
+    public string Currency { get; set; } = "USD";
+    
+    public decimal TotalAmount { get; set; } // Sum of line items
+    
+    [Required]
+    [StringLength(20)]
+    public string Status { get; set; } = "Pending"; // Pending, Approved, Rejected, Reimbursed
+    
+    public DateTime SubmittedAt { get; set; } = DateTime.UtcNow;
+    
+    public string? ReviewedBy { get; set; }
+    
+    public DateTime? ReviewedAt { get; set; }
+    
+    [StringLength(500)]
+    public string? ReviewComments { get; set; }
+    
+    public int? ReimbursementBatchId { get; set; }
+    
+    public DateTime? ReimbursedAt { get; set; }
+    
+    // Navigation properties
+    public virtual Employee Employee { get; set; } = null!;
+    public virtual ReimbursementBatch? ReimbursementBatch { get; set; }
+    public virtual ICollection<ExpenseItem> Items { get; set; } = new List<ExpenseItem>();
+    public virtual ICollection<ExpenseReceipt> Receipts { get; set; } = new List<ExpenseReceipt>();
+}
@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+public class ExpenseItem : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    [Required]
+    public int ExpenseClaimId { get; set; }
+    
+    [Required]
+    public DateTime ExpenseDate { get; set; }
+    
+    [Required]
+    [StringLength(50)]
+    public string Category { get; set; } = string.Empty; // Travel, Meals, Accommodation, etc.
+    
+    [Required]
+    [StringLength(500)]
+    public string Description { get; set; } = string.Empty;
+    
+    public decimal Amount { get; set; }
+    
+    // Navigation properties
+    public virtual ExpenseClaim ExpenseClaim { get; set; } = null!;
+}
@@ -0,0 +1,29 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// Receipt image or PDF attached to an expense claim; the file is stored in the database
+/// </summary>
+public class ExpenseReceipt : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    [Required]
+    public int ExpenseClaimId { get; set; }
+    
+    [Required]
+    [StringLength(255)]
+    public string FileName { get; set; } = string.Empty;
+    
+    [Required]
+    [StringLength(100)]
+    public string ContentType { get; set; } = string.Empty;
+    
+    public long FileSize { get; set; }
+    
+    public byte[] Content { get; set; } = Array.Empty<byte>();
+    
+    // Navigation properties
+    public virtual ExpenseClaim ExpenseClaim { get; set; } = null!;
+}
@@ -0,0 +1,29 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// Per-tenant entitlement rules for one leave type
+/// </summary>
+public class LeavePolicy : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    [Required]
+    [StringLength(50)]
+    public string LeaveType { get; set; } = string.Empty; // Matches LeaveRequest.LeaveType
+    
+    public decimal AnnualEntitlement { get; set; } // Days per full year
+    
+    public decimal AccrualPerMonth { get; set; } // 0 = full entitlement available from the start of the year
+    
+    public decimal MaxCarryOver { get; set; } // Unused days that roll into the next year
+    
+    public int ProbationMonths { get; set; } // Months after HireDate before the policy applies
+    
+    public bool AllowDuringProbation { get; set; }
+    
+    public bool ProRateFromHireDate { get; set; } = true; // Reduce the first year's entitlement by months worked
+    
+    public bool IsActive { get; set; } = true;
+}
@@ -0,0 +1,37 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// Announcement posted to the tenant notice board
+/// </summary>
+public class Notice : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    [Required]
+    [StringLength(200)]
+    public string Title { get; set; } = string.Empty;
+    
+    [Required]
+    [StringLength(20000)]
+    public string Content { get; set; } = string.Empty; // Rich text (HTML)
+    
+    [StringLength(1000)]
+    public string? TargetDepartments { get; set; } // Comma-separated; null = all departments
+    
+    [StringLength(200)]
+    public string? TargetRoles { get; set; } // Comma-separated; null = all roles
+    
+    public bool IsPinned { get; set; }
+    
+    [Required]
+    public DateTime PublishAt { get; set; }
+    
+    public DateTime? ExpiresAt { get; set; }
+    
+    public string? CreatedBy { get; set; }
+    
+    // Navigation properties
+    public virtual ICollection<NoticeReceipt> Receipts { get; set; } = new List<NoticeReceipt>();
+}
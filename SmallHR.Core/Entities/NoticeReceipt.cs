@@ -0,0 +1,30 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// Records that a user has read a notice; one row per notice and user
+/// </summary>
+public class NoticeReceipt : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    [Required]
+    public int NoticeId { get; set; }
+    
+    [Required]
+    [StringLength(450)]
+    public string UserId { get; set; } = string.Empty;
+    
+    [Required]
+    [StringLength(200)]
+    public string ReaderName { get; set; } = string.Empty; // Captured at read time
+    
+    [StringLength(100)]
+    public string? Department { get; set; }
+    
+    public DateTime ReadAt { get; set; } = DateTime.UtcNow;
+    
+    // Navigation properties
+    public virtual Notice Notice { get; set; } = null!;
+}
@@ -0,0 +1,38 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+public class PayRun : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    public int Year { get; set; }
+    
+    public int Month { get; set; }
+    
+    public DateTime PeriodStart { get; set; }
+    
+    public DateTime PeriodEnd { get; set; }
+    
+    public DateTime PayDate { get; set; }
+    
+    [Required]
+    [StringLength(20)]
+    public string Status { get; set; } = "Draft"; // Draft, Finalized
+    
+    [StringLength(3)]
+    public string Currency { get; set; } = "USD";
+    
+    public decimal TotalGross { get; set; }
+    
+    public decimal TotalDeductions { get; set; }
+    
+    public decimal TotalNet { get; set; }
+    
+    public string? FinalizedBy { get; set; }
+    
+    public DateTime? FinalizedAt { get; set; }
+    
+    // Navigation properties
+    public virtual ICollection<Payslip> Payslips { get; set; } = new List<Payslip>();
+}
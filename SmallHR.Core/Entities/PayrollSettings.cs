@@ -0,0 +1,26 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// Per-tenant pay schedule and the rates used when calculating pay runs.
+/// Pay runs are always monthly.
+/// </summary>
+public class PayrollSettings : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    public int PayDay { get; set; } = 28; // Day of the following month the run is paid on (1-28)
+    
+    [Required]
+    [StringLength(3)]
+    public string Currency { get; set; } = "USD";
+    
+    public decimal OvertimeMultiplier { get; set; } = 1.5m;
+    
+    public decimal StandardHoursPerDay { get; set; } = 8;
+    
+    public int WorkingDaysPerMonth { get; set; } = 22; // Divisor for daily and hourly rates
+    
+    public decimal TaxRatePercent { get; set; } // Flat withholding applied to gross pay
+}
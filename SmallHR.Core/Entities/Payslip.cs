@@ -0,0 +1,49 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// One employee's pay for a pay run. Name, department and position are copied at calculation
+/// time so finalized payslips keep reading the same after the employee record changes.
+/// </summary>
+public class Payslip : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    [Required]
+    public int PayRunId { get; set; }
+    
+    [Required]
+    public int EmployeeId { get; set; }
+    
+    [StringLength(100)]
+    public string EmployeeName { get; set; } = string.Empty;
+    
+    [StringLength(100)]
+    public string Department { get; set; } = string.Empty;
+    
+    [StringLength(100)]
+    public string Position { get; set; } = string.Empty;
+    
+    public decimal BaseSalary { get; set; } // Monthly base, prorated for mid-period hires and leavers
+    
+    public decimal OvertimeHours { get; set; }
+    
+    public decimal OvertimePay { get; set; }
+    
+    public decimal UnpaidLeaveDays { get; set; }
+    
+    public decimal UnpaidLeaveDeduction { get; set; }
+    
+    public decimal GrossPay { get; set; }
+    
+    public decimal TaxDeduction { get; set; }
+    
+    public decimal Reimbursements { get; set; } // Approved expense claims repaid with this payslip; not taxed
+    
+    public decimal NetPay { get; set; }
+    
+    // Navigation properties
+    public virtual PayRun PayRun { get; set; } = null!;
+    public virtual Employee Employee { get; set; } = null!;
+}
@@ -0,0 +1,40 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// Approved expense claims grouped for repayment through a month's payroll
+/// </summary>
+public class ReimbursementBatch : BaseEntity
+{
+    public required string TenantId { get; set; }
+    
+    [Required]
+    [StringLength(50)]
+    public string Reference { get; set; } = string.Empty;
+    
+    public int PayrollYear { get; set; }
+    
+    public int PayrollMonth { get; set; }
+    
+    [Required]
+    [StringLength(3)]
+    public string Currency { get; set; } = "USD";
+    
+    public decimal TotalAmount { get; set; }
+    
+    public int ClaimCount { get; set; }
+    
+    [Required]
+    [StringLength(20)]
+    public string Status { get; set; } = "Pending"; // Pending, Paid
+    
+    public string? CreatedBy { get; set; }
+    
+    public DateTime? PaidAt { get; set; }
+    
+    public int? PayRunId { get; set; } // Pay run whose payslips were calculated with this batch included
+    
+    // Navigation properties
+    public virtual ICollection<ExpenseClaim> Claims { get; set; } = new List<ExpenseClaim>();
+}
@@ -0,0 +1,12 @@
+namespace SmallHR.Core.Entities;
+
+// Copy of a tenant's whole permission matrix, taken before each change so it can be rolled back
+public class RolePermissionSnapshot : BaseEntity
+{
+    public required string TenantId { get; set; }
+    public int Version { get; set; }
+    public required string Label { get; set; }
+    public string? CreatedBy { get; set; }
+    public int PermissionCount { get; set; }
+    public required string PermissionsJson { get; set; }
+}
@@ -0,0 +1,10 @@
+namespace SmallHR.Core.Entities;
+
+// Role a tenant defined on top of the built-in ones. Membership still goes through
+// Identity roles, so this only records which custom role names belong to the tenant.
+public class TenantRole : BaseEntity
+{
+    public required string TenantId { get; set; }
+    public required string Name { get; set; }
+    public string? Description { get; set; }
+}
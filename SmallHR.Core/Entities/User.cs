@@ -29,10 +29,28 @@ public class User : IdentityUser
     
     public bool IsActive { get; set; } = true;
     
+    // Legacy single-session token; superseded by Sessions and only read to migrate a token on its next refresh
     public string? RefreshToken { get; set; }
     
     public DateTime? RefreshTokenExpiryTime { get; set; }
     
+    // UI preferences (applied at login so they follow the user across browsers)
+    public string ThemeMode { get; set; } = "light"; // light, dark, system
+    
+    public string Palette { get; set; } = "default";
+    
+    public string DateFormat { get; set; } = "DD MMM YYYY";
+    
+    public string TimeFormat { get; set; } = "24h"; // 12h, 24h
+    
+    public string? LandingPage { get; set; } // null = /dashboard
+    
+    public string? MutedNotificationCategories { get; set; } // comma-separated, see NotificationCategories
+    
     // Navigation properties
     public virtual ICollection<Employee> Employees { get; set; } = new List<Employee>();
+    
+    public virtual ICollection<UserSession> Sessions { get; set; } = new List<UserSession>();
+    
+    public virtual ICollection<UserNotification> Notifications { get; set; } = new List<UserNotification>();
 }
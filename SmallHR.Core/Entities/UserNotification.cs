@@ -0,0 +1,35 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// An entry in a user's notification inbox, such as a leave decision or a failed payment
+/// </summary>
+public class UserNotification : BaseEntity
+{
+    [Required]
+    [StringLength(450)]
+    public string UserId { get; set; } = string.Empty;
+    
+    [StringLength(64)]
+    public string? TenantId { get; set; } // null for platform users such as SuperAdmin
+    
+    [Required]
+    [StringLength(30)]
+    public string Category { get; set; } = string.Empty; // see NotificationCategories
+    
+    [Required]
+    [StringLength(200)]
+    public string Title { get; set; } = string.Empty;
+    
+    [StringLength(1000)]
+    public string? Message { get; set; }
+    
+    [StringLength(500)]
+    public string? Link { get; set; } // in-app path opened from the inbox, e.g. /leave
+    
+    public DateTime? ReadAt { get; set; }
+    
+    // Navigation properties
+    public virtual User User { get; set; } = null!;
+}
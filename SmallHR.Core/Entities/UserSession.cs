@@ -0,0 +1,32 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SmallHR.Core.Entities;
+
+/// <summary>
+/// A signed-in browser or device; one row per refresh token issued at login
+/// </summary>
+public class UserSession : BaseEntity
+{
+    [Required]
+    [StringLength(450)]
+    public string UserId { get; set; } = string.Empty;
+    
+    [Required]
+    [StringLength(64)]
+    public string RefreshTokenHash { get; set; } = string.Empty; // SHA-256 hex; the raw token only lives in the cookie
+    
+    public DateTime ExpiresAt { get; set; }
+    
+    public DateTime LastActiveAt { get; set; } = DateTime.UtcNow;
+    
+    public DateTime? RevokedAt { get; set; }
+    
+    [StringLength(45)]
+    public string? IpAddress { get; set; }
+    
+    [StringLength(500)]
+    public string? UserAgent { get; set; }
+    
+    // Navigation properties
+    public virtual User User { get; set; } = null!;
+}
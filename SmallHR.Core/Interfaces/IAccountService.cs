@@ -0,0 +1,11 @@
+using SmallHR.Core.DTOs.Auth;
+
+namespace SmallHR.Core.Interfaces;
+
+public interface IAccountService : IService
+{
+    Task<UserDto?> UpdateProfileAsync(string userId, UpdateProfileDto updateProfileDto);
+    Task ChangePasswordAsync(string userId, ChangePasswordDto changePasswordDto);
+    Task<UserPreferencesDto?> GetPreferencesAsync(string userId);
+    Task<UserPreferencesDto?> UpdatePreferencesAsync(string userId, UpdateUserPreferencesDto updatePreferencesDto);
+}
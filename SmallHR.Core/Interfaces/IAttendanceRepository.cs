@@ -8,6 +8,7 @@ public interface IAttendanceRepository : IGenericRepository<Attendance>
     Task<IEnumerable<Attendance>> GetByDateRangeAsync(int employeeId, DateTime startDate, DateTime endDate);
     Task<Attendance?> GetByEmployeeAndDateAsync(int employeeId, DateTime date);
     Task<IEnumerable<Attendance>> GetByDateAsync(DateTime date);
+    Task<IEnumerable<Attendance>> GetAllByDateRangeAsync(DateTime startDate, DateTime endDate);
     Task<IEnumerable<Attendance>> GetByMonthAsync(int employeeId, int year, int month);
     Task<TimeSpan> GetTotalHoursAsync(int employeeId, DateTime startDate, DateTime endDate);
     Task<TimeSpan> GetOvertimeHoursAsync(int employeeId, DateTime startDate, DateTime endDate);
@@ -14,6 +14,7 @@ public interface IAttendanceService : IService
     Task<IEnumerable<AttendanceDto>> GetAttendanceByDateRangeAsync(int employeeId, DateTime startDate, DateTime endDate);
     Task<AttendanceDto?> GetAttendanceByEmployeeAndDateAsync(int employeeId, DateTime date);
     Task<IEnumerable<AttendanceDto>> GetAttendanceByDateAsync(DateTime date);
+    Task<IEnumerable<AttendanceDailySummaryDto>> GetDailySummaryAsync(DateTime startDate, DateTime endDate);
     Task<IEnumerable<AttendanceDto>> GetAttendanceByMonthAsync(int employeeId, int year, int month);
     Task<AttendanceDto> ClockInAsync(ClockInDto clockInDto);
     Task<AttendanceDto?> ClockOutAsync(ClockOutDto clockOutDto);
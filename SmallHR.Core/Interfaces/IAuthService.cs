@@ -11,4 +11,7 @@ public interface IAuthService : IService
     Task<bool> UserExistsAsync(string email);
     Task<UserDto?> GetUserByIdAsync(string userId);
     Task<UserDto?> GetUserByEmailAsync(string email);
+    Task<IEnumerable<UserSessionDto>> GetSessionsAsync(string userId, string? currentRefreshToken);
+    Task<bool> RevokeSessionAsync(string userId, int sessionId);
+    Task<int> RevokeOtherSessionsAsync(string userId, string? currentRefreshToken);
 }
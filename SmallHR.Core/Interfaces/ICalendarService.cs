@@ -0,0 +1,14 @@
+using SmallHR.Core.DTOs.Calendar;
+
+namespace SmallHR.Core.Interfaces;
+
+public interface ICalendarService : IService
+{
+    Task<IEnumerable<CalendarEntryDto>> GetEntriesAsync(DateTime startDate, DateTime endDate, string? department);
+    Task<string> ExportIcsAsync(DateTime startDate, DateTime endDate, string? department);
+    Task<CalendarEventDto?> GetEventByIdAsync(int id);
+    Task<CalendarEventDto> CreateEventAsync(CreateCalendarEventDto createCalendarEventDto, string? createdBy);
+    Task<CalendarEventDto?> UpdateEventAsync(int id, UpdateCalendarEventDto updateCalendarEventDto);
+    Task<bool> DeleteEventAsync(int id);
+    Task<bool> EventExistsAsync(int id);
+}
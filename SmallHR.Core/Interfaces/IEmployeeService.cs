@@ -8,8 +8,16 @@ public interface IEmployeeService : IService
     Task<IEnumerable<EmployeeDto>> GetAllEmployeesAsync();
     Task<EmployeeDto?> GetEmployeeByIdAsync(int id);
     Task<EmployeeDto?> GetEmployeeByEmployeeIdAsync(string employeeId);
+    Task<EmployeeDto?> GetEmployeeByUserIdAsync(string userId, string? email = null);
     Task<EmployeeDto> CreateEmployeeAsync(CreateEmployeeDto createEmployeeDto);
     Task<EmployeeDto?> UpdateEmployeeAsync(int id, UpdateEmployeeDto updateEmployeeDto);
+    Task<EmployeeDto?> UpdateMyProfileAsync(string userId, string? email, UpdateMyProfileDto updateMyProfileDto);
+    Task<EmployeeDto?> UpdateReportingLineAsync(int id, UpdateReportingLineDto updateReportingLineDto);
+    
+    /// <summary>
+    /// True when the manager exists in the current tenant and assigning them would not create a reporting cycle
+    /// </summary>
+    Task<bool> IsValidManagerAsync(int? employeeId, int managerId);
     Task<bool> DeleteEmployeeAsync(int id);
     Task<bool> EmployeeExistsAsync(int id);
     Task<bool> EmployeeIdExistsAsync(string employeeId);
@@ -0,0 +1,10 @@
+using System.Linq.Expressions;
+using SmallHR.Core.Entities;
+
+namespace SmallHR.Core.Interfaces;
+
+public interface IExpenseClaimRepository : IGenericRepository<ExpenseClaim>
+{
+    Task<IEnumerable<ExpenseClaim>> FindWithDetailsAsync(Expression<Func<ExpenseClaim, bool>> predicate);
+    Task<IEnumerable<ExpenseReceipt>> GetReceiptSummariesAsync(IEnumerable<int> claimIds);
+}
@@ -0,0 +1,27 @@
+using SmallHR.Core.DTOs.Expense;
+
+namespace SmallHR.Core.Interfaces;
+
+public interface IExpenseService : IService
+{
+    Task<IEnumerable<ExpenseClaimDto>> GetClaimsAsync(string? status);
+    Task<IEnumerable<ExpenseClaimDto>> GetClaimsByEmployeeAsync(int employeeId);
+    Task<IEnumerable<ExpenseClaimDto>> GetTeamClaimsAsync(int managerId, string? status);
+    Task<ExpenseClaimDto?> GetClaimByIdAsync(int id);
+    Task<ExpenseClaimDto> CreateClaimAsync(int employeeId, CreateExpenseClaimDto createExpenseClaimDto);
+    Task<ExpenseClaimDto?> UpdateClaimAsync(int id, UpdateExpenseClaimDto updateExpenseClaimDto);
+    Task<bool> DeleteClaimAsync(int id);
+    Task<bool> ClaimExistsAsync(int id);
+    Task<ExpenseClaimDto?> ReviewClaimAsync(int id, ReviewExpenseClaimDto reviewExpenseClaimDto, string reviewedBy);
+    Task<ExpenseReceiptDto> AddReceiptAsync(int claimId, string fileName, string contentType, byte[] content);
+    Task<ExpenseReceiptFileDto?> GetReceiptFileAsync(int claimId, int receiptId);
+    Task<bool> DeleteReceiptAsync(int claimId, int receiptId);
+    Task<IEnumerable<ReimbursementBatchDto>> GetBatchesAsync();
+    Task<ReimbursementBatchDto?> GetBatchByIdAsync(int id);
+    Task<bool> HasClaimsToBatchAsync(string currency);
+    Task<ReimbursementBatchDto> CreateBatchAsync(CreateReimbursementBatchDto createReimbursementBatchDto, string? createdBy);
+    Task<string?> ExportBatchCsvAsync(int id);
+    Task<bool> DeleteBatchAsync(int id);
+    Task<bool> BatchExistsAsync(int id);
+    Task<bool> IsBatchPaidAsync(int id);
+}
@@ -0,0 +1,20 @@
+using SmallHR.Core.DTOs.LeavePolicy;
+
+namespace SmallHR.Core.Interfaces;
+
+public interface ILeavePolicyService : IService
+{
+    Task<IEnumerable<LeavePolicyDto>> GetAllLeavePoliciesAsync();
+    Task<LeavePolicyDto?> GetLeavePolicyByIdAsync(int id);
+    Task<LeavePolicyDto> CreateLeavePolicyAsync(CreateLeavePolicyDto createLeavePolicyDto);
+    Task<LeavePolicyDto?> UpdateLeavePolicyAsync(int id, UpdateLeavePolicyDto updateLeavePolicyDto);
+    Task<bool> DeleteLeavePolicyAsync(int id);
+    Task<bool> LeavePolicyExistsAsync(int id);
+    Task<bool> LeaveTypeExistsAsync(string leaveType);
+
+    /// <summary>
+    /// Check a leave request against the active policy for its type.
+    /// Returns the reason it is not allowed, or null when it fits the employee's balance.
+    /// </summary>
+    Task<string?> ValidateLeaveRequestAsync(int employeeId, string leaveType, DateTime startDate, DateTime endDate, int? excludeLeaveRequestId = null);
+}
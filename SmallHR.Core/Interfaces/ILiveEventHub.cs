@@ -0,0 +1,44 @@
+using System.Threading.Channels;
+using SmallHR.Core.DTOs.LiveEvents;
+
+namespace SmallHR.Core.Interfaces;
+
+/// <summary>
+/// Fans events out to the browser sessions connected to this server.
+/// Delivery is best effort: a session that is not connected when an event is published never sees it.
+/// </summary>
+public interface ILiveEventHub
+{
+    /// <summary>
+    /// Register a connection; disposing the subscription removes it
+    /// </summary>
+    ILiveEventSubscription Subscribe(string userId, string? tenantId, IEnumerable<string> roles);
+
+    /// <summary>
+    /// Publish to every session of one user
+    /// </summary>
+    void PublishToUser(string userId, string type, object? data = null);
+
+    /// <summary>
+    /// Publish to every session signed in to a tenant
+    /// </summary>
+    void PublishToTenant(string tenantId, string type, object? data = null);
+
+    /// <summary>
+    /// Publish to every session whose user holds the role
+    /// </summary>
+    void PublishToRole(string role, string type, object? data = null);
+
+    /// <summary>
+    /// Publish to every connected session
+    /// </summary>
+    void PublishToAll(string type, object? data = null);
+}
+
+/// <summary>
+/// A single connected session's queue of pending events
+/// </summary>
+public interface ILiveEventSubscription : IDisposable
+{
+    ChannelReader<LiveEventDto> Reader { get; }
+}
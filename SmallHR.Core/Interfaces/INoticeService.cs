@@ -0,0 +1,17 @@
+using SmallHR.Core.DTOs.Notice;
+
+namespace SmallHR.Core.Interfaces;
+
+public interface INoticeService : IService
+{
+    Task<IEnumerable<NoticeDto>> GetFeedAsync(NoticeAudienceDto audience);
+    Task<int> GetUnreadCountAsync(NoticeAudienceDto audience);
+    Task<IEnumerable<NoticeDto>> GetAllNoticesAsync();
+    Task<NoticeDto?> GetNoticeByIdAsync(int id);
+    Task<NoticeDto> CreateNoticeAsync(CreateNoticeDto createNoticeDto, string? createdBy);
+    Task<NoticeDto?> UpdateNoticeAsync(int id, UpdateNoticeDto updateNoticeDto);
+    Task<bool> DeleteNoticeAsync(int id);
+    Task<bool> NoticeExistsAsync(int id);
+    Task<bool> MarkAsReadAsync(int id, NoticeAudienceDto audience);
+    Task<IEnumerable<NoticeReceiptDto>> GetReceiptsAsync(int id);
+}
@@ -0,0 +1,22 @@
+using SmallHR.Core.DTOs.Payroll;
+
+namespace SmallHR.Core.Interfaces;
+
+public interface IPayrollService : IService
+{
+    Task<PayrollSettingsDto> GetSettingsAsync();
+    Task<PayrollSettingsDto> UpdateSettingsAsync(UpdatePayrollSettingsDto updatePayrollSettingsDto);
+    Task<IEnumerable<PayRunDto>> GetPayRunsAsync(int? year);
+    Task<PayRunDto?> GetPayRunByIdAsync(int id);
+    Task<PayRunDto> CreatePayRunAsync(CreatePayRunDto createPayRunDto);
+    Task<PayRunDto?> RecalculatePayRunAsync(int id);
+    Task<PayRunDto?> FinalizePayRunAsync(int id, string finalizedBy);
+    Task<bool> DeletePayRunAsync(int id);
+    Task<bool> PayRunExistsAsync(int id);
+    Task<bool> PayRunExistsForPeriodAsync(int year, int month);
+    Task<bool> IsPayRunFinalizedAsync(int id);
+    Task<int> CountBatchesMissingFromRunAsync(int id);
+    Task<PayslipDto?> GetPayslipByIdAsync(int id);
+    Task<IEnumerable<PayslipDto>> GetPayslipsByEmployeeAsync(int employeeId, bool finalizedOnly);
+    Task<IEnumerable<PayrollDepartmentSummaryDto>> GetDepartmentSummaryAsync(int year, int? month);
+}
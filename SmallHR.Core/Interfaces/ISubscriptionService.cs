@@ -22,6 +22,9 @@ public interface ISubscriptionService
     Task<bool> HasFeatureAsync(int tenantId, string featureKey);
     Task<string?> GetFeatureValueAsync(int tenantId, string featureKey);
     Task<Dictionary<string, string>> GetTenantFeaturesAsync(int tenantId);
+    Task<int?> ResolveTenantIdAsync(string tenantIdentifier);
+    Task<TenantFeaturesDto?> GetTenantFeatureSummaryAsync(string tenantIdentifier);
+    Task<PlanChangePreviewDto?> PreviewPlanChangeAsync(int tenantId, int newPlanId);
     
     // Limits
     Task<bool> CheckEmployeeLimitAsync(int tenantId);
@@ -0,0 +1,11 @@
+using SmallHR.Core.DTOs.TenantRole;
+
+namespace SmallHR.Core.Interfaces;
+
+public interface ITenantRoleService : IService
+{
+    Task<IEnumerable<TenantRoleDto>> GetRolesAsync();
+    Task<TenantRoleDto> CreateRoleAsync(CreateTenantRoleDto createRoleDto);
+    Task<TenantRoleDto?> UpdateRoleAsync(int id, UpdateTenantRoleDto updateRoleDto);
+    Task<bool> DeleteRoleAsync(int id);
+}
@@ -0,0 +1,26 @@
+using SmallHR.Core.DTOs;
+using SmallHR.Core.DTOs.Notification;
+
+namespace SmallHR.Core.Interfaces;
+
+/// <summary>
+/// Per-user notification inbox. Notifications in a category the user has muted are not stored.
+/// </summary>
+public interface IUserNotificationService : IService
+{
+    /// <summary>
+    /// Add a notification to one user's inbox; returns null when the user has muted the category
+    /// </summary>
+    Task<UserNotificationDto?> NotifyUserAsync(string userId, CreateUserNotificationDto notification);
+
+    /// <summary>
+    /// Add a notification to the inbox of every active user holding the role in a tenant
+    /// </summary>
+    Task<int> NotifyTenantRoleAsync(int tenantId, string role, CreateUserNotificationDto notification);
+
+    Task<PagedResponse<UserNotificationDto>> GetNotificationsAsync(string userId, bool unreadOnly, int pageNumber, int pageSize);
+    Task<int> GetUnreadCountAsync(string userId);
+    Task<bool> MarkAsReadAsync(string userId, int id);
+    Task<int> MarkAllAsReadAsync(string userId);
+    Task<bool> DeleteNotificationAsync(string userId, int id);
+}
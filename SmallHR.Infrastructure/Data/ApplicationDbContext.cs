@@ -75,13 +75,32 @@ public class ApplicationDbContext : IdentityDbContext<User>
 
     public DbSet<Employee> Employees { get; set; }
     public DbSet<LeaveRequest> LeaveRequests { get; set; }
+    public DbSet<LeavePolicy> LeavePolicies { get; set; }
+    public DbSet<PayrollSettings> PayrollSettings { get; set; }
+    public DbSet<PayRun> PayRuns { get; set; }
+    public DbSet<Payslip> Payslips { get; set; }
+    public DbSet<CalendarEvent> CalendarEvents { get; set; }
+    public DbSet<Notice> Notices { get; set; }
+    public DbSet<NoticeReceipt> NoticeReceipts { get; set; }
+    public DbSet<ExpenseClaim> ExpenseClaims { get; set; }
+    public DbSet<ExpenseItem> ExpenseItems { get; set; }
+    public DbSet<ExpenseReceipt> ExpenseReceipts { get; set; }
+    public DbSet<ReimbursementBatch> ReimbursementBatches { get; set; }
     public DbSet<Attendance> Attendances { get; set; }
     public DbSet<RolePermission> RolePermissions { get; set; }
+    public DbSet<TenantRole> TenantRoles { get; set; }
+    public DbSet<RolePermissionSnapshot> RolePermissionSnapshots { get; set; }
     public DbSet<Module> Modules { get; set; }
     public DbSet<Tenant> Tenants { get; set; }
     public DbSet<Department> Departments { get; set; }
     public DbSet<Position> Positions { get; set; }
     
+    // Signed-in sessions (one per refresh token)
+    public DbSet<UserSession> UserSessions { get; set; }
+    
+    // Notification inbox
+    public DbSet<UserNotification> UserNotifications { get; set; }
+    
     // Subscription entities
     public DbSet<Subscription> Subscriptions { get; set; }
     public DbSet<SubscriptionPlan> SubscriptionPlans { get; set; }
@@ -133,11 +152,18 @@ public class ApplicationDbContext : IdentityDbContext<User>
             entity.HasIndex(e => e.EmployeeId).IsUnique();
             entity.HasIndex(e => e.Email).IsUnique();
             entity.HasIndex(e => e.TenantId);
+            entity.HasIndex(e => e.ManagerId);
 
             entity.HasOne(e => e.User)
                 .WithMany(u => u.Employees)
                 .HasForeignKey(e => e.UserId)
                 .OnDelete(DeleteBehavior.SetNull);
+
+            // SQL Server rejects SET NULL on self-references; reports are detached in EmployeeService on delete
+            entity.HasOne(e => e.Manager)
+                .WithMany(e => e.DirectReports)
+                .HasForeignKey(e => e.ManagerId)
+                .OnDelete(DeleteBehavior.NoAction);
             // Query filter: tenant isolation + soft delete
             // Bypassed temporarily for SuperAdmin on admin endpoints via HttpContext.Items["BypassTenantQueryFilters"]
             entity.HasQueryFilter(e => (ShouldBypassTenantQueryFilters() || e.TenantId == _tenantProvider.TenantId) && !e.IsDeleted);
@@ -194,10 +220,56 @@ public class ApplicationDbContext : IdentityDbContext<User>
             entity.Property(u => u.State).HasMaxLength(100);
             entity.Property(u => u.ZipCode).HasMaxLength(20);
             entity.Property(u => u.Country).HasMaxLength(100);
+            entity.Property(u => u.ThemeMode).IsRequired().HasMaxLength(10).HasDefaultValue("light");
+            entity.Property(u => u.Palette).IsRequired().HasMaxLength(20).HasDefaultValue("default");
+            entity.Property(u => u.DateFormat).IsRequired().HasMaxLength(20).HasDefaultValue("DD MMM YYYY");
+            entity.Property(u => u.TimeFormat).IsRequired().HasMaxLength(10).HasDefaultValue("24h");
+            entity.Property(u => u.LandingPage).HasMaxLength(200);
+            entity.Property(u => u.MutedNotificationCategories).HasMaxLength(200);
             
             entity.HasIndex(u => u.TenantId);
         });
 
+        // UserSession configuration
+        builder.Entity<UserSession>(entity =>
+        {
+            entity.HasKey(s => s.Id);
+            entity.Property(s => s.UserId).IsRequired().HasMaxLength(450);
+            entity.Property(s => s.RefreshTokenHash).IsRequired().HasMaxLength(64);
+            entity.Property(s => s.IpAddress).HasMaxLength(45);
+            entity.Property(s => s.UserAgent).HasMaxLength(500);
+            
+            entity.HasOne(s => s.User)
+                .WithMany(u => u.Sessions)
+                .HasForeignKey(s => s.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+            
+            // No query filter - sessions belong to the user, not a tenant
+            entity.HasIndex(s => s.RefreshTokenHash).IsUnique();
+            entity.HasIndex(s => s.UserId);
+        });
+
+        // UserNotification configuration
+        builder.Entity<UserNotification>(entity =>
+        {
+            entity.HasKey(n => n.Id);
+            entity.Property(n => n.UserId).IsRequired().HasMaxLength(450);
+            entity.Property(n => n.TenantId).HasMaxLength(64);
+            entity.Property(n => n.Category).IsRequired().HasMaxLength(30);
+            entity.Property(n => n.Title).IsRequired().HasMaxLength(200);
+            entity.Property(n => n.Message).HasMaxLength(1000);
+            entity.Property(n => n.Link).HasMaxLength(500);
+            
+            entity.HasOne(n => n.User)
+                .WithMany(u => u.Notifications)
+                .HasForeignKey(n => n.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+            
+            // Soft delete only - the inbox is scoped by recipient, and SuperAdmin has no tenant
+            entity.HasQueryFilter(n => !n.IsDeleted);
+            entity.HasIndex(n => new { n.UserId, n.ReadAt });
+        });
+
         // RolePermission configuration
         builder.Entity<RolePermission>(entity =>
         {
@@ -208,11 +280,38 @@ public class ApplicationDbContext : IdentityDbContext<User>
             entity.Property(rp => rp.PageName).IsRequired().HasMaxLength(100);
             entity.Property(rp => rp.Description).HasMaxLength(500);
 
-            entity.HasIndex(rp => new { rp.TenantId, rp.RoleName, rp.PagePath }).IsUnique();
+            entity.HasIndex(rp => new { rp.TenantId, rp.RoleName, rp.PagePath }).IsUnique().HasFilter("[IsDeleted] = 0");
             // Query filter: tenant isolation + soft delete
             entity.HasQueryFilter(rp => (ShouldBypassTenantQueryFilters() || rp.TenantId == _tenantProvider.TenantId) && !rp.IsDeleted);
         });
 
+        // RolePermissionSnapshot configuration
+        builder.Entity<RolePermissionSnapshot>(entity =>
+        {
+            entity.HasKey(s => s.Id);
+            entity.Property(s => s.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(s => s.Label).IsRequired().HasMaxLength(200);
+            entity.Property(s => s.CreatedBy).HasMaxLength(256);
+            entity.Property(s => s.PermissionsJson).IsRequired();
+
+            entity.HasIndex(s => new { s.TenantId, s.Version }).IsUnique();
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(s => (ShouldBypassTenantQueryFilters() || s.TenantId == _tenantProvider.TenantId) && !s.IsDeleted);
+        });
+
+        // TenantRole configuration
+        builder.Entity<TenantRole>(entity =>
+        {
+            entity.HasKey(r => r.Id);
+            entity.Property(r => r.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(r => r.Name).IsRequired().HasMaxLength(50);
+            entity.Property(r => r.Description).HasMaxLength(500);
+
+            entity.HasIndex(r => new { r.TenantId, r.Name }).IsUnique().HasFilter("[IsDeleted] = 0");
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(r => (ShouldBypassTenantQueryFilters() || r.TenantId == _tenantProvider.TenantId) && !r.IsDeleted);
+        });
+
         // Module configuration
         builder.Entity<Module>(entity =>
         {
@@ -283,6 +382,231 @@ public class ApplicationDbContext : IdentityDbContext<User>
             entity.HasQueryFilter(p => (ShouldBypassTenantQueryFilters() || p.TenantId == _tenantProvider.TenantId) && !p.IsDeleted);
         });
 
+        // LeavePolicy configuration
+        builder.Entity<LeavePolicy>(entity =>
+        {
+            entity.HasKey(p => p.Id);
+            entity.Property(p => p.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(p => p.LeaveType).IsRequired().HasMaxLength(50);
+            entity.Property(p => p.AnnualEntitlement).HasPrecision(5, 2);
+            entity.Property(p => p.AccrualPerMonth).HasPrecision(5, 2);
+            entity.Property(p => p.MaxCarryOver).HasPrecision(5, 2);
+            
+            entity.HasIndex(p => new { p.TenantId, p.LeaveType }).IsUnique().HasFilter("[IsDeleted] = 0");
+            entity.HasIndex(p => p.TenantId);
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(p => (ShouldBypassTenantQueryFilters() || p.TenantId == _tenantProvider.TenantId) && !p.IsDeleted);
+        });
+
+        // PayrollSettings configuration
+        builder.Entity<PayrollSettings>(entity =>
+        {
+            entity.HasKey(s => s.Id);
+            entity.Property(s => s.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(s => s.Currency).IsRequired().HasMaxLength(3);
+            entity.Property(s => s.OvertimeMultiplier).HasPrecision(4, 2);
+            entity.Property(s => s.StandardHoursPerDay).HasPrecision(4, 2);
+            entity.Property(s => s.TaxRatePercent).HasPrecision(5, 2);
+            
+            entity.HasIndex(s => s.TenantId).IsUnique().HasFilter("[IsDeleted] = 0");
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(s => (ShouldBypassTenantQueryFilters() || s.TenantId == _tenantProvider.TenantId) && !s.IsDeleted);
+        });
+
+        // PayRun configuration
+        builder.Entity<PayRun>(entity =>
+        {
+            entity.HasKey(r => r.Id);
+            entity.Property(r => r.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(r => r.Status).IsRequired().HasMaxLength(20);
+            entity.Property(r => r.Currency).HasMaxLength(3);
+            entity.Property(r => r.FinalizedBy).HasMaxLength(256);
+            entity.Property(r => r.TotalGross).HasPrecision(18, 2);
+            entity.Property(r => r.TotalDeductions).HasPrecision(18, 2);
+            entity.Property(r => r.TotalNet).HasPrecision(18, 2);
+            
+            entity.HasIndex(r => new { r.TenantId, r.Year, r.Month }).IsUnique().HasFilter("[IsDeleted] = 0");
+            entity.HasIndex(r => r.TenantId);
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(r => (ShouldBypassTenantQueryFilters() || r.TenantId == _tenantProvider.TenantId) && !r.IsDeleted);
+        });
+
+        // Payslip configuration
+        builder.Entity<Payslip>(entity =>
+        {
+            entity.HasKey(p => p.Id);
+            entity.Property(p => p.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(p => p.EmployeeName).HasMaxLength(100);
+            entity.Property(p => p.Department).HasMaxLength(100);
+            entity.Property(p => p.Position).HasMaxLength(100);
+            entity.Property(p => p.BaseSalary).HasPrecision(18, 2);
+            entity.Property(p => p.OvertimeHours).HasPrecision(8, 2);
+            entity.Property(p => p.OvertimePay).HasPrecision(18, 2);
+            entity.Property(p => p.UnpaidLeaveDays).HasPrecision(5, 2);
+            entity.Property(p => p.UnpaidLeaveDeduction).HasPrecision(18, 2);
+            entity.Property(p => p.GrossPay).HasPrecision(18, 2);
+            entity.Property(p => p.TaxDeduction).HasPrecision(18, 2);
+            entity.Property(p => p.Reimbursements).HasPrecision(18, 2);
+            entity.Property(p => p.NetPay).HasPrecision(18, 2);
+
+            entity.HasOne(p => p.PayRun)
+                .WithMany(r => r.Payslips)
+                .HasForeignKey(p => p.PayRunId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Payslips are payroll history; removing an employee must not take them along
+            entity.HasOne(p => p.Employee)
+                .WithMany()
+                .HasForeignKey(p => p.EmployeeId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            entity.HasIndex(p => new { p.PayRunId, p.EmployeeId });
+            entity.HasIndex(p => p.EmployeeId);
+            entity.HasIndex(p => p.TenantId);
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(p => (ShouldBypassTenantQueryFilters() || p.TenantId == _tenantProvider.TenantId) && !p.IsDeleted);
+        });
+
+        // CalendarEvent configuration
+        builder.Entity<CalendarEvent>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(e => e.Title).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.Description).HasMaxLength(1000);
+            entity.Property(e => e.EventType).IsRequired().HasMaxLength(20);
+            entity.Property(e => e.Department).HasMaxLength(100);
+            entity.Property(e => e.Location).HasMaxLength(200);
+            entity.Property(e => e.CreatedBy).HasMaxLength(256);
+            
+            entity.HasIndex(e => new { e.TenantId, e.StartDate });
+            entity.HasIndex(e => e.TenantId);
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(e => (ShouldBypassTenantQueryFilters() || e.TenantId == _tenantProvider.TenantId) && !e.IsDeleted);
+        });
+
+        // Notice configuration
+        builder.Entity<Notice>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(e => e.Title).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.Content).IsRequired().HasMaxLength(20000);
+            entity.Property(e => e.TargetDepartments).HasMaxLength(1000);
+            entity.Property(e => e.TargetRoles).HasMaxLength(200);
+            entity.Property(e => e.CreatedBy).HasMaxLength(256);
+            
+            entity.HasIndex(e => new { e.TenantId, e.PublishAt });
+            entity.HasIndex(e => e.TenantId);
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(e => (ShouldBypassTenantQueryFilters() || e.TenantId == _tenantProvider.TenantId) && !e.IsDeleted);
+        });
+
+        // NoticeReceipt configuration
+        builder.Entity<NoticeReceipt>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(e => e.UserId).IsRequired().HasMaxLength(450);
+            entity.Property(e => e.ReaderName).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.Department).HasMaxLength(100);
+            
+            entity.HasOne(e => e.Notice)
+                .WithMany(n => n.Receipts)
+                .HasForeignKey(e => e.NoticeId)
+                .OnDelete(DeleteBehavior.Cascade);
+            
+            // One receipt per user per notice
+            entity.HasIndex(e => new { e.NoticeId, e.UserId }).IsUnique();
+            entity.HasIndex(e => new { e.TenantId, e.UserId });
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(e => (ShouldBypassTenantQueryFilters() || e.TenantId == _tenantProvider.TenantId) && !e.IsDeleted);
+        });
+
+        // ExpenseClaim configuration
+        builder.Entity<ExpenseClaim>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(e => e.Title).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.Currency).IsRequired().HasMaxLength(3);
+            entity.Property(e => e.TotalAmount).HasPrecision(18, 2);
+            entity.Property(e => e.Status).IsRequired().HasMaxLength(20);
+            entity.Property(e => e.ReviewedBy).HasMaxLength(256);
+            entity.Property(e => e.ReviewComments).HasMaxLength(500);
+            
+            entity.HasOne(e => e.Employee)
+                .WithMany()
+                .HasForeignKey(e => e.EmployeeId)
+                .OnDelete(DeleteBehavior.Restrict);
+            
+            // Deleting a batch releases its claims for the next one
+            entity.HasOne(e => e.ReimbursementBatch)
+                .WithMany(b => b.Claims)
+                .HasForeignKey(e => e.ReimbursementBatchId)
+                .OnDelete(DeleteBehavior.SetNull);
+            
+            entity.HasIndex(e => new { e.TenantId, e.Status });
+            entity.HasIndex(e => e.EmployeeId);
+            entity.HasIndex(e => e.ReimbursementBatchId);
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(e => (ShouldBypassTenantQueryFilters() || e.TenantId == _tenantProvider.TenantId) && !e.IsDeleted);
+        });
+
+        // ExpenseItem configuration
+        builder.Entity<ExpenseItem>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(e => e.Category).IsRequired().HasMaxLength(50);
+            entity.Property(e => e.Description).IsRequired().HasMaxLength(500);
+            entity.Property(e => e.Amount).HasPrecision(18, 2);
+            
+            entity.HasOne(e => e.ExpenseClaim)
+                .WithMany(c => c.Items)
+                .HasForeignKey(e => e.ExpenseClaimId)
+                .OnDelete(DeleteBehavior.Cascade);
+            
+            entity.HasIndex(e => e.ExpenseClaimId);
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(e => (ShouldBypassTenantQueryFilters() || e.TenantId == _tenantProvider.TenantId) && !e.IsDeleted);
+        });
+
+        // ExpenseReceipt configuration
+        builder.Entity<ExpenseReceipt>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(e => e.FileName).IsRequired().HasMaxLength(255);
+            entity.Property(e => e.ContentType).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.Content).IsRequired();
+            
+            entity.HasOne(e => e.ExpenseClaim)
+                .WithMany(c => c.Receipts)
+                .HasForeignKey(e => e.ExpenseClaimId)
+                .OnDelete(DeleteBehavior.Cascade);
+            
+            entity.HasIndex(e => e.ExpenseClaimId);
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(e => (ShouldBypassTenantQueryFilters() || e.TenantId == _tenantProvider.TenantId) && !e.IsDeleted);
+        });
+
+        // ReimbursementBatch configuration
+        builder.Entity<ReimbursementBatch>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TenantId).IsRequired().HasMaxLength(64);
+            entity.Property(e => e.Reference).IsRequired().HasMaxLength(50);
+            entity.Property(e => e.Currency).IsRequired().HasMaxLength(3);
+            entity.Property(e => e.TotalAmount).HasPrecision(18, 2);
+            entity.Property(e => e.Status).IsRequired().HasMaxLength(20);
+            entity.Property(e => e.CreatedBy).HasMaxLength(256);
+            
+            entity.HasIndex(e => new { e.TenantId, e.PayrollYear, e.PayrollMonth });
+            // Query filter: tenant isolation + soft delete
+            entity.HasQueryFilter(e => (ShouldBypassTenantQueryFilters() || e.TenantId == _tenantProvider.TenantId) && !e.IsDeleted);
+        });
+
         // Subscription configuration
         builder.Entity<Subscription>(entity =>
         {
@@ -1,9 +1,15 @@
 using AutoMapper;
 using SmallHR.Core.DTOs.Attendance;
 using SmallHR.Core.DTOs.Auth;
+using SmallHR.Core.DTOs.Calendar;
 using SmallHR.Core.DTOs.Department;
 using SmallHR.Core.DTOs.Employee;
+using SmallHR.Core.DTOs.Expense;
+using SmallHR.Core.DTOs.LeavePolicy;
 using SmallHR.Core.DTOs.LeaveRequest;
+using SmallHR.Core.DTOs.Notice;
+using SmallHR.Core.DTOs.Notification;
+using SmallHR.Core.DTOs.Payroll;
 using SmallHR.Core.DTOs.Position;
 using SmallHR.Core.Entities;
 
@@ -17,6 +23,7 @@ public class MappingProfile : Profile
         CreateMap<Employee, EmployeeDto>();
         CreateMap<CreateEmployeeDto, Employee>();
         CreateMap<UpdateEmployeeDto, Employee>();
+        CreateMap<UpdateMyProfileDto, Employee>();
 
         // LeaveRequest mappings
         CreateMap<LeaveRequest, LeaveRequestDto>()
@@ -24,6 +31,11 @@ public class MappingProfile : Profile
         CreateMap<CreateLeaveRequestDto, LeaveRequest>();
         CreateMap<UpdateLeaveRequestDto, LeaveRequest>();
 
+        // LeavePolicy mappings
+        CreateMap<LeavePolicy, LeavePolicyDto>();
+        CreateMap<CreateLeavePolicyDto, LeavePolicy>();
+        CreateMap<UpdateLeavePolicyDto, LeavePolicy>();
+
         // Attendance mappings
         CreateMap<Attendance, AttendanceDto>()
             .ForMember(dest => dest.EmployeeName, opt => opt.MapFrom(src => $"{src.Employee.FirstName} {src.Employee.LastName}"));
@@ -31,8 +43,16 @@ public class MappingProfile : Profile
         CreateMap<UpdateAttendanceDto, Attendance>();
 
         // User mappings
-        CreateMap<User, UserDto>();
+        CreateMap<User, UserDto>()
+            .ForMember(dest => dest.Preferences, opt => opt.MapFrom(src => src));
+        CreateMap<User, UserPreferencesDto>()
+            .ForMember(dest => dest.MutedNotificationCategories, opt => opt.MapFrom(src => NotificationCategories.Parse(src.MutedNotificationCategories)));
         CreateMap<RegisterDto, User>();
+        CreateMap<UpdateProfileDto, User>();
+        CreateMap<UpdateUserPreferencesDto, User>()
+            .ForMember(dest => dest.MutedNotificationCategories, opt => opt.MapFrom(src => NotificationCategories.Format(src.MutedNotificationCategories)));
+        CreateMap<UserSession, UserSessionDto>()
+            .ForMember(dest => dest.IsCurrent, opt => opt.Ignore());
 
         // Department mappings
         CreateMap<Department, DepartmentDto>();
@@ -43,5 +63,64 @@ public class MappingProfile : Profile
         CreateMap<Position, PositionDto>();
         CreateMap<CreatePositionDto, Position>();
         CreateMap<UpdatePositionDto, Position>();
+
+        // Payroll mappings
+        CreateMap<PayrollSettings, PayrollSettingsDto>();
+        CreateMap<UpdatePayrollSettingsDto, PayrollSettings>();
+        CreateMap<PayRun, PayRunDto>()
+            .ForMember(dest => dest.EmployeeCount, opt => opt.Ignore())
+            .ForMember(dest => dest.Payslips, opt => opt.Ignore());
+        CreateMap<Payslip, PayslipDto>();
+
+        // Calendar mappings
+        CreateMap<CalendarEvent, CalendarEventDto>();
+        CreateMap<CreateCalendarEventDto, CalendarEvent>();
+        CreateMap<UpdateCalendarEventDto, CalendarEvent>();
+
+        // Notice mappings; audience lists are stored comma-separated
+        CreateMap<Notice, NoticeDto>()
+            .ForMember(dest => dest.TargetDepartments, opt => opt.MapFrom(src => SplitList(src.TargetDepartments)))
+            .ForMember(dest => dest.TargetRoles, opt => opt.MapFrom(src => SplitList(src.TargetRoles)))
+            .ForMember(dest => dest.Status, opt => opt.Ignore())
+            .ForMember(dest => dest.IsRead, opt => opt.Ignore())
+            .ForMember(dest => dest.ReadCount, opt => opt.Ignore())
+            .ForMember(dest => dest.AudienceCount, opt => opt.Ignore());
+        CreateMap<CreateNoticeDto, Notice>()
+            .ForMember(dest => dest.TargetDepartments, opt => opt.MapFrom(src => JoinList(src.TargetDepartments)))
+            .ForMember(dest => dest.TargetRoles, opt => opt.MapFrom(src => JoinList(src.TargetRoles)))
+            .ForMember(dest => dest.PublishAt, opt => opt.Ignore());
+        CreateMap<UpdateNoticeDto, Notice>()
+            .ForMember(dest => dest.TargetDepartments, opt => opt.MapFrom(src => JoinList(src.TargetDepartments)))
+            .ForMember(dest => dest.TargetRoles, opt => opt.MapFrom(src => JoinList(src.TargetRoles)))
+            .ForMember(dest => dest.PublishAt, opt => opt.Ignore());
+        CreateMap<NoticeReceipt, NoticeReceiptDto>();
+
+        // Expense mappings; receipts are attached separately so their file content is never loaded
+        CreateMap<ExpenseClaim, ExpenseClaimDto>()
+            .ForMember(dest => dest.EmployeeName, opt => opt.MapFrom(src => $"{src.Employee.FirstName} {src.Employee.LastName}"))
+            .ForMember(dest => dest.Department, opt => opt.MapFrom(src => src.Employee.Department))
+            .ForMember(dest => dest.ManagerId, opt => opt.MapFrom(src => src.Employee.ManagerId))
+            .ForMember(dest => dest.BatchReference, opt => opt.MapFrom(src => src.ReimbursementBatch != null ? src.ReimbursementBatch.Reference : null))
+            .ForMember(dest => dest.Items, opt => opt.MapFrom(src => src.Items.OrderBy(i => i.ExpenseDate)))
+            .ForMember(dest => dest.Receipts, opt => opt.Ignore());
+        CreateMap<CreateExpenseClaimDto, ExpenseClaim>()
+            .ForMember(dest => dest.Items, opt => opt.Ignore());
+        CreateMap<UpdateExpenseClaimDto, ExpenseClaim>()
+            .ForMember(dest => dest.Items, opt => opt.Ignore());
+        CreateMap<ExpenseItem, ExpenseItemDto>();
+        CreateMap<CreateExpenseItemDto, ExpenseItem>();
+        CreateMap<ExpenseReceipt, ExpenseReceiptDto>();
+        CreateMap<ReimbursementBatch, ReimbursementBatchDto>();
+    }
+
+    private static List<string> SplitList(string? value) =>
+        string.IsNullOrWhiteSpace(value)
+            ? new List<string>()
+            : value.Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries).ToList();
+
+    private static string? JoinList(List<string> values)
+    {
+        var cleaned = values.Select(v => v.Trim()).Where(v => v.Length > 0).Distinct(StringComparer.OrdinalIgnoreCase).ToList();
+        return cleaned.Count == 0 ? null : string.Join(",", cleaned);
     }
 }
@@ -0,0 +1,58 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace SmallHR.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddLeavePolicies : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "LeavePolicies",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "int", nullable: false)
+                        .Annotation("SqlServer:Identity", "1, 1"),
+                    TenantId = table.Column<string>(type: "nvarchar(64)", maxLength: 64, nullable: false),
+                    LeaveType = table.Column<string>(type: "nvarchar(50)", maxLength: 50, nullable: false),
+                    AnnualEntitlement = table.Column<decimal>(type: "decimal(5,2)", precision: 5, scale: 2, nullable: false),
+                    AccrualPerMonth = table.Column<decimal>(type: "decimal(5,2)", precision: 5, scale: 2, nullable: false),
+                    MaxCarryOver = table.Column<decimal>(type: "decimal(5,2)", precision: 5, scale: 2, nullable: false),
+                    ProbationMonths = table.Column<int>(type: "int", nullable: false),
+                    AllowDuringProbation = table.Column<bool>(type: "bit", nullable: false),
+                    ProRateFromHireDate = table.Column<bool>(type: "bit", nullable: false),
+                    IsActive = table.Column<bool>(type: "bit", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "datetime2", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "datetime2", nullable: true),
+                    IsDeleted = table.Column<bool>(type: "bit", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_LeavePolicies", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_LeavePolicies_TenantId",
+                table: "LeavePolicies",
+                column: "TenantId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_LeavePolicies_TenantId_LeaveType",
+                table: "LeavePolicies",
+                columns: new[] { "TenantId", "LeaveType" },
+                unique: true,
+                filter: "[IsDeleted] = 0");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "LeavePolicies");
+        }
+    }
+}
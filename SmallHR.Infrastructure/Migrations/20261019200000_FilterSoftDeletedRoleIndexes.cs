@@ -0,0 +1,60 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace SmallHR.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class FilterSoftDeletedRoleIndexes : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_TenantRoles_TenantId_Name",
+                table: "TenantRoles");
+
+            migrationBuilder.DropIndex(
+                name: "IX_RolePermissions_TenantId_RoleName_PagePath",
+                table: "RolePermissions");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TenantRoles_TenantId_Name",
+                table: "TenantRoles",
+                columns: new[] { "TenantId", "Name" },
+                unique: true,
+                filter: "[IsDeleted] = 0");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RolePermissions_TenantId_RoleName_PagePath",
+                table: "RolePermissions",
+                columns: new[] { "TenantId", "RoleName", "PagePath" },
+                unique: true,
+                filter: "[IsDeleted] = 0");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_TenantRoles_TenantId_Name",
+                table: "TenantRoles");
+
+            migrationBuilder.DropIndex(
+                name: "IX_RolePermissions_TenantId_RoleName_PagePath",
+                table: "RolePermissions");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TenantRoles_TenantId_Name",
+                table: "TenantRoles",
+                columns: new[] { "TenantId", "Name" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RolePermissions_TenantId_RoleName_PagePath",
+                table: "RolePermissions",
+                columns: new[] { "TenantId", "RoleName", "PagePath" },
+                unique: true);
+        }
+    }
+}
@@ -0,0 +1,37 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace SmallHR.Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class SeedModuleFeatures : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            // Feature keys the SPA gates modules on. Both default to on so existing plans keep
+            // their pages; a plan switches one off with a SubscriptionPlanFeatures value of 'false'.
+            migrationBuilder.Sql(@"
+                IF NOT EXISTS (SELECT 1 FROM Features WHERE [Key] = 'payroll')
+                    INSERT INTO Features ([Key], Name, Description, Category, Type, DefaultValue, IsVisible, DisplayOrder, CreatedAt, IsDeleted)
+                    VALUES ('payroll', 'Payroll', 'Pay runs, payslips and payroll settings', 'modules', 1, 'true', 1, 10, GETUTCDATE(), 0);
+
+                IF NOT EXISTS (SELECT 1 FROM Features WHERE [Key] = 'advanced_analytics')
+                    INSERT INTO Features ([Key], Name, Description, Category, Type, DefaultValue, IsVisible, DisplayOrder, CreatedAt, IsDeleted)
+                    VALUES ('advanced_analytics', 'Advanced Analytics', 'Payroll reports and cost breakdowns', 'analytics', 1, 'true', 1, 11, GETUTCDATE(), 0);
+            ");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.Sql(@"
+                DELETE FROM SubscriptionPlanFeatures
+                WHERE FeatureId IN (SELECT Id FROM Features WHERE [Key] IN ('payroll', 'advanced_analytics'));
+
+                DELETE FROM Features WHERE [Key] IN ('payroll', 'advanced_analytics');
+            ");
+        }
+    }
+}
@@ -44,6 +44,14 @@ public class AttendanceRepository : GenericRepository<Attendance>, IAttendanceRe
             .ToListAsync();
     }
 
+    public async Task<IEnumerable<Attendance>> GetAllByDateRangeAsync(DateTime startDate, DateTime endDate)
+    {
+        return await _dbSet
+            .Where(a => a.Date >= startDate.Date && a.Date <= endDate.Date)
+            .OrderBy(a => a.Date)
+            .ToListAsync();
+    }
+
     public async Task<IEnumerable<Attendance>> GetByMonthAsync(int employeeId, int year, int month)
     {
         return await _dbSet
@@ -0,0 +1,48 @@
+using System.Linq.Expressions;
+using Microsoft.EntityFrameworkCore;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Data;
+
+namespace SmallHR.Infrastructure.Repositories;
+
+public class ExpenseClaimRepository : GenericRepository<ExpenseClaim>, IExpenseClaimRepository
+{
+    public ExpenseClaimRepository(ApplicationDbContext context) : base(context)
+    {
+    }
+
+    public async Task<IEnumerable<ExpenseClaim>> FindWithDetailsAsync(Expression<Func<ExpenseClaim, bool>> predicate)
+    {
+        // Read-only: claims are updated through GetByIdAsync so the included graph is never re-saved
+        return await _dbSet
+            .AsNoTracking()
+            .Where(predicate)
+            .Include(c => c.Employee)
+            .Include(c => c.Items)
+            .Include(c => c.ReimbursementBatch)
+            .OrderByDescending(c => c.SubmittedAt)
+            .ToListAsync();
+    }
+
+    public async Task<IEnumerable<ExpenseReceipt>> GetReceiptSummariesAsync(IEnumerable<int> claimIds)
+    {
+        var ids = claimIds.ToList();
+
+        // Leave the file content behind; it is only loaded when a receipt is downloaded
+        return await _context.ExpenseReceipts
+            .AsNoTracking()
+            .Where(r => ids.Contains(r.ExpenseClaimId))
+            .Select(r => new ExpenseReceipt
+            {
+                Id = r.Id,
+                TenantId = r.TenantId,
+                ExpenseClaimId = r.ExpenseClaimId,
+                FileName = r.FileName,
+                ContentType = r.ContentType,
+                FileSize = r.FileSize,
+                CreatedAt = r.CreatedAt
+            })
+            .ToListAsync();
+    }
+}
@@ -52,12 +52,22 @@ public class LeaveRequestRepository : GenericRepository<LeaveRequest>, ILeaveReq
 
     public async Task<int> GetTotalLeaveDaysAsync(int employeeId, string leaveType, int year)
     {
-        return await _dbSet
+        var requests = await _dbSet
             .Where(lr => lr.EmployeeId == employeeId 
                         && lr.LeaveType == leaveType 
                         && lr.Status == "Approved"
-                        && lr.StartDate.Year == year)
-            .SumAsync(lr => lr.TotalDays);
+                        && lr.StartDate.Year <= year
+                        && lr.EndDate.Year >= year)
+            .ToListAsync();
+
+        // Requests crossing New Year only count the days that fall in the requested year
+        return requests.Sum(lr =>
+        {
+            if (lr.EndDate.Year == lr.StartDate.Year) return lr.TotalDays;
+            var from = lr.StartDate.Year < year ? new DateTime(year, 1, 1) : lr.StartDate.Date;
+            var to = lr.EndDate.Year > year ? new DateTime(year, 12, 31) : lr.EndDate.Date;
+            return (int)(to - from).TotalDays + 1;
+        });
     }
 
     public new async Task<IEnumerable<LeaveRequest>> GetAllAsync(string? tenantId = null)
@@ -0,0 +1,82 @@
+using AutoMapper;
+using Microsoft.AspNetCore.Identity;
+using SmallHR.Core.DTOs.Auth;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.Infrastructure.Services;
+
+public class AccountService : IAccountService
+{
+    private readonly UserManager<User> _userManager;
+    private readonly IMapper _mapper;
+
+    public AccountService(UserManager<User> userManager, IMapper mapper)
+    {
+        _userManager = userManager;
+        _mapper = mapper;
+    }
+
+    public async Task<UserDto?> UpdateProfileAsync(string userId, UpdateProfileDto updateProfileDto)
+    {
+        var user = await _userManager.FindByIdAsync(userId);
+        if (user == null) return null;
+
+        _mapper.Map(updateProfileDto, user);
+        user.UpdatedAt = DateTime.UtcNow;
+        await SaveAsync(user, "Profile update");
+
+        var userDto = _mapper.Map<UserDto>(user);
+        userDto.Roles = await _userManager.GetRolesAsync(user);
+        return userDto;
+    }
+
+    public async Task ChangePasswordAsync(string userId, ChangePasswordDto changePasswordDto)
+    {
+        var user = await _userManager.FindByIdAsync(userId)
+            ?? throw new ArgumentException("User not found");
+
+        if (!await _userManager.CheckPasswordAsync(user, changePasswordDto.CurrentPassword))
+        {
+            throw new InvalidOperationException("Current password is incorrect");
+        }
+
+        var result = await _userManager.ChangePasswordAsync(user, changePasswordDto.CurrentPassword, changePasswordDto.NewPassword);
+        if (!result.Succeeded)
+        {
+            throw new InvalidOperationException($"Password change failed: {string.Join(", ", result.Errors.Select(e => e.Description))}");
+        }
+    }
+
+    public async Task<UserPreferencesDto?> GetPreferencesAsync(string userId)
+    {
+        var user = await _userManager.FindByIdAsync(userId);
+        return user == null ? null : _mapper.Map<UserPreferencesDto>(user);
+    }
+
+    public async Task<UserPreferencesDto?> UpdatePreferencesAsync(string userId, UpdateUserPreferencesDto updatePreferencesDto)
+    {
+        var user = await _userManager.FindByIdAsync(userId);
+        if (user == null) return null;
+
+        _mapper.Map(updatePreferencesDto, user);
+        // The dashboard is the default, so store it as "no preference"
+        if (user.LandingPage == "/dashboard" || string.IsNullOrWhiteSpace(user.LandingPage))
+        {
+            user.LandingPage = null;
+        }
+        user.UpdatedAt = DateTime.UtcNow;
+        await SaveAsync(user, "Preference update");
+
+        return _mapper.Map<UserPreferencesDto>(user);
+    }
+
+    private async Task SaveAsync(User user, string operation)
+    {
+        var result = await _userManager.UpdateAsync(user);
+        if (!result.Succeeded)
+        {
+            throw new InvalidOperationException($"{operation} failed: {string.Join(", ", result.Errors.Select(e => e.Description))}");
+        }
+    }
+}
@@ -1,5 +1,7 @@
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
+using SmallHR.Core.DTOs.LiveEvents;
+using SmallHR.Core.DTOs.Notification;
 using SmallHR.Core.Entities;
 using SmallHR.Core.Interfaces;
 using SmallHR.Infrastructure.Data;
@@ -14,13 +16,19 @@ public class AlertService : IAlertService
 {
     private readonly ApplicationDbContext _context;
     private readonly ILogger<AlertService> _logger;
+    private readonly ILiveEventHub _liveEventHub;
+    private readonly IUserNotificationService _notificationService;
 
     public AlertService(
         ApplicationDbContext context,
-        ILogger<AlertService> logger)
+        ILogger<AlertService> logger,
+        ILiveEventHub liveEventHub,
+        IUserNotificationService notificationService)
     {
         _context = context;
         _logger = logger;
+        _liveEventHub = liveEventHub;
+        _notificationService = notificationService;
     }
 
     public async Task<Alert> CreatePaymentFailureAlertAsync(
@@ -65,6 +73,8 @@ public class AlertService : IAlertService
 
         await _context.Alerts.AddAsync(alert);
         await _context.SaveChangesAsync();
+        PublishCreated(alert);
+        await NotifyTenantAdminsOfPaymentFailureAsync(tenantId);
 
         _logger.LogInformation("Created payment failure alert for tenant {TenantId}, subscription {SubscriptionId}", 
             tenantId, subscriptionId);
@@ -97,6 +107,7 @@ public class AlertService : IAlertService
 
         await _context.Alerts.AddAsync(alert);
         await _context.SaveChangesAsync();
+        PublishCreated(alert);
 
         _logger.LogInformation("Created cancellation alert for tenant {TenantId}, subscription {SubscriptionId}", 
             tenantId, subscriptionId);
@@ -161,6 +172,7 @@ public class AlertService : IAlertService
 
         await _context.Alerts.AddAsync(alert);
         await _context.SaveChangesAsync();
+        PublishCreated(alert);
 
         _logger.LogWarning("Created overage alert for tenant {TenantId}, resource {Resource}: {Usage}/{Limit}", 
             tenantId, resource, usage, limit);
@@ -208,6 +220,7 @@ public class AlertService : IAlertService
 
         await _context.Alerts.AddAsync(alert);
         await _context.SaveChangesAsync();
+        PublishCreated(alert);
 
         _logger.LogWarning("Created suspension alert for tenant {TenantId}: {Reason}", tenantId, reason);
 
@@ -251,6 +264,7 @@ public class AlertService : IAlertService
 
         await _context.Alerts.AddAsync(alert);
         await _context.SaveChangesAsync();
+        PublishCreated(alert);
 
         _logger.LogError("Created error alert for tenant {TenantId}: {Message}", tenantId, message);
 
@@ -264,5 +278,35 @@ public class AlertService : IAlertService
                           a.AlertType == alertType && 
                           a.Status == "Active");
     }
-}
 
+    // Alerts are platform-wide, so only SuperAdmin sessions hear about them
+    private void PublishCreated(Alert alert)
+    {
+        _liveEventHub.PublishToRole("SuperAdmin", LiveEventTypes.AlertCreated, new
+        {
+            alert.Id,
+            alert.TenantId,
+            alert.AlertType,
+            alert.Severity
+        });
+    }
+
+    // The alert message is written for platform staff; tenant admins get a plain call to action
+    private async Task NotifyTenantAdminsOfPaymentFailureAsync(int tenantId)
+    {
+        try
+        {
+            await _notificationService.NotifyTenantRoleAsync(tenantId, "Admin", new CreateUserNotificationDto
+            {
+                Category = NotificationCategories.Billing,
+                Title = "Payment failed",
+                Message = "We could not collect your latest subscription payment. Update your payment details to avoid losing access.",
+                Link = "/billing"
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Could not notify admins of tenant {TenantId} about a failed payment", tenantId);
+        }
+    }
+}
@@ -151,6 +151,35 @@ public class AttendanceService : IAttendanceService
         return _mapper.Map<IEnumerable<AttendanceDto>>(attendances);
     }
 
+    public async Task<IEnumerable<AttendanceDailySummaryDto>> GetDailySummaryAsync(DateTime startDate, DateTime endDate)
+    {
+        if (endDate.Date < startDate.Date)
+        {
+            throw new ArgumentException("End date must be on or after start date");
+        }
+
+        var byDay = (await _attendanceRepository.GetAllByDateRangeAsync(startDate, endDate))
+            .GroupBy(a => a.Date.Date)
+            .ToDictionary(g => g.Key, g => g.ToList());
+
+        // One row per calendar day so charts get a continuous series
+        var summary = new List<AttendanceDailySummaryDto>();
+        for (var day = startDate.Date; day <= endDate.Date; day = day.AddDays(1))
+        {
+            var records = byDay.TryGetValue(day, out var found) ? found : new List<Attendance>();
+            summary.Add(new AttendanceDailySummaryDto
+            {
+                Date = day,
+                Present = records.Count(a => a.Status != "Absent"),
+                Late = records.Count(a => a.Status == "Late"),
+                Absent = records.Count(a => a.Status == "Absent"),
+                TotalHours = Math.Round(records.Sum(a => a.TotalHours?.TotalHours ?? 0), 2)
+            });
+        }
+
+        return summary;
+    }
+
     public async Task<IEnumerable<AttendanceDto>> GetAttendanceByMonthAsync(int employeeId, int year, int month)
     {
         var attendances = await _attendanceRepository.GetByMonthAsync(employeeId, year, month);
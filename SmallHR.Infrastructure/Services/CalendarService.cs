@@ -0,0 +1,239 @@
+using System.Text;
+using AutoMapper;
+using SmallHR.Core.DTOs.Calendar;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.Infrastructure.Services;
+
+public class CalendarService : ICalendarService
+{
+    private readonly IGenericRepository<CalendarEvent> _eventRepository;
+    private readonly IEmployeeRepository _employeeRepository;
+    private readonly ILeaveRequestRepository _leaveRequestRepository;
+    private readonly IMapper _mapper;
+    private readonly ITenantProvider _tenantProvider;
+
+    public CalendarService(
+        IGenericRepository<CalendarEvent> eventRepository,
+        IEmployeeRepository employeeRepository,
+        ILeaveRequestRepository leaveRequestRepository,
+        IMapper mapper,
+        ITenantProvider tenantProvider)
+    {
+        _eventRepository = eventRepository;
+        _employeeRepository = employeeRepository;
+        _leaveRequestRepository = leaveRequestRepository;
+        _mapper = mapper;
+        _tenantProvider = tenantProvider;
+    }
+
+    public async Task<IEnumerable<CalendarEntryDto>> GetEntriesAsync(DateTime startDate, DateTime endDate, string? department)
+    {
+        var start = startDate.Date;
+        var end = endDate.Date;
+        var inDepartment = (string? value) => string.IsNullOrEmpty(department) || value == department;
+
+        var employees = (await _employeeRepository.GetActiveEmployeesAsync())
+            .Where(e => inDepartment(e.Department))
+            .ToDictionary(e => e.Id);
+        var entries = new List<CalendarEntryDto>();
+
+        // Approved leave only; reasons and comments stay private to the employee and HR
+        var leave = await _leaveRequestRepository.FindAsync(l =>
+            l.Status == "Approved" && l.StartDate <= end && l.EndDate >= start);
+        foreach (var request in leave.Where(l => employees.ContainsKey(l.EmployeeId)))
+        {
+            var employee = employees[request.EmployeeId];
+            entries.Add(new CalendarEntryDto
+            {
+                Id = $"leave-{request.Id}",
+                Type = "Leave",
+                Title = $"{employee.FirstName} {employee.LastName} – {request.LeaveType} leave",
+                StartDate = request.StartDate.Date,
+                EndDate = request.EndDate.Date,
+                Department = employee.Department,
+                EmployeeId = employee.Id
+            });
+        }
+
+        var events = await _eventRepository.FindAsync(e => !e.IsDeleted && e.StartDate <= end && e.EndDate >= start);
+        foreach (var calendarEvent in events.Where(e => e.Department == null || inDepartment(e.Department)))
+        {
+            entries.Add(new CalendarEntryDto
+            {
+                Id = $"event-{calendarEvent.Id}",
+                Type = calendarEvent.EventType == "Holiday" ? "Holiday" : "Event",
+                Title = calendarEvent.Title,
+                Description = string.IsNullOrEmpty(calendarEvent.Location)
+                    ? calendarEvent.Description
+                    : $"{calendarEvent.Location}{(string.IsNullOrEmpty(calendarEvent.Description) ? "" : $" · {calendarEvent.Description}")}",
+                StartDate = calendarEvent.StartDate.Date,
+                EndDate = calendarEvent.EndDate.Date,
+                Department = calendarEvent.Department,
+                EventId = calendarEvent.Id
+            });
+        }
+
+        // Birthdays and anniversaries recur yearly; only the day is shared, never the birth year
+        for (var year = start.Year; year <= end.Year; year++)
+        {
+            foreach (var employee in employees.Values)
+            {
+                var name = $"{employee.FirstName} {employee.LastName}";
+
+                var birthday = OnYear(employee.DateOfBirth, year);
+                if (birthday >= start && birthday <= end)
+                {
+                    entries.Add(new CalendarEntryDto
+                    {
+                        Id = $"birthday-{employee.Id}-{year}",
+                        Type = "Birthday",
+                        Title = $"{name}'s birthday",
+                        StartDate = birthday,
+                        EndDate = birthday,
+                        Department = employee.Department,
+                        EmployeeId = employee.Id
+                    });
+                }
+
+                var years = year - employee.HireDate.Year;
+                var anniversary = OnYear(employee.HireDate, year);
+                if (years > 0 && anniversary >= start && anniversary <= end)
+                {
+                    entries.Add(new CalendarEntryDto
+                    {
+                        Id = $"anniversary-{employee.Id}-{year}",
+                        Type = "Anniversary",
+                        Title = $"{name} – {years} year{(years == 1 ? "" : "s")} at the company",
+                        StartDate = anniversary,
+                        EndDate = anniversary,
+                        Department = employee.Department,
+                        EmployeeId = employee.Id
+                    });
+                }
+            }
+        }
+
+        return entries.OrderBy(e => e.StartDate).ThenBy(e => e.Type).ThenBy(e => e.Title).ToList();
+    }
+
+    public async Task<string> ExportIcsAsync(DateTime startDate, DateTime endDate, string? department)
+    {
+        var entries = await GetEntriesAsync(startDate, endDate, department);
+        var stamp = DateTime.UtcNow.ToString("yyyyMMdd'T'HHmmss'Z'");
+
+        var ics = new StringBuilder();
+        AppendLine(ics, "BEGIN:VCALENDAR");
+        AppendLine(ics, "VERSION:2.0");
+        AppendLine(ics, "PRODID:-//SmallHR//Company Calendar//EN");
+        AppendLine(ics, "CALSCALE:GREGORIAN");
+        AppendLine(ics, "METHOD:PUBLISH");
+        AppendLine(ics, $"X-WR-CALNAME:{Escape(string.IsNullOrEmpty(department) ? "Company Calendar" : $"{department} Calendar")}");
+
+        foreach (var entry in entries)
+        {
+            AppendLine(ics, "BEGIN:VEVENT");
+            AppendLine(ics, $"UID:{entry.Id}.{_tenantProvider.TenantId}@smallhr");
+            AppendLine(ics, $"DTSTAMP:{stamp}");
+            // All-day entries: DTEND is exclusive
+            AppendLine(ics, $"DTSTART;VALUE=DATE:{entry.StartDate:yyyyMMdd}");
+            AppendLine(ics, $"DTEND;VALUE=DATE:{entry.EndDate.AddDays(1):yyyyMMdd}");
+            AppendLine(ics, $"SUMMARY:{Escape(entry.Title)}");
+            if (!string.IsNullOrEmpty(entry.Description))
+            {
+                AppendLine(ics, $"DESCRIPTION:{Escape(entry.Description)}");
+            }
+            AppendLine(ics, $"CATEGORIES:{entry.Type}");
+            AppendLine(ics, "TRANSP:TRANSPARENT");
+            AppendLine(ics, "END:VEVENT");
+        }
+
+        AppendLine(ics, "END:VCALENDAR");
+        return ics.ToString();
+    }
+
+    public async Task<CalendarEventDto?> GetEventByIdAsync(int id)
+    {
+        var calendarEvent = await GetOwnedEventAsync(id);
+        return calendarEvent == null ? null : _mapper.Map<CalendarEventDto>(calendarEvent);
+    }
+
+    public async Task<CalendarEventDto> CreateEventAsync(CreateCalendarEventDto createCalendarEventDto, string? createdBy)
+    {
+        var calendarEvent = _mapper.Map<CalendarEvent>(createCalendarEventDto);
+        calendarEvent.TenantId = _tenantProvider.TenantId;
+        calendarEvent.CreatedBy = createdBy;
+        await _eventRepository.AddAsync(calendarEvent);
+        return _mapper.Map<CalendarEventDto>(calendarEvent);
+    }
+
+    public async Task<CalendarEventDto?> UpdateEventAsync(int id, UpdateCalendarEventDto updateCalendarEventDto)
+    {
+        var calendarEvent = await GetOwnedEventAsync(id);
+        if (calendarEvent == null) return null;
+
+        _mapper.Map(updateCalendarEventDto, calendarEvent);
+        calendarEvent.UpdatedAt = DateTime.UtcNow;
+        await _eventRepository.UpdateAsync(calendarEvent);
+        return _mapper.Map<CalendarEventDto>(calendarEvent);
+    }
+
+    public async Task<bool> DeleteEventAsync(int id)
+    {
+        var calendarEvent = await GetOwnedEventAsync(id);
+        if (calendarEvent == null) return false;
+
+        calendarEvent.IsDeleted = true;
+        calendarEvent.UpdatedAt = DateTime.UtcNow;
+        await _eventRepository.UpdateAsync(calendarEvent);
+        return true;
+    }
+
+    public async Task<bool> EventExistsAsync(int id)
+    {
+        return await _eventRepository.ExistsAsync(e => e.Id == id && !e.IsDeleted);
+    }
+
+    private async Task<CalendarEvent?> GetOwnedEventAsync(int id)
+    {
+        var calendarEvent = await _eventRepository.GetByIdAsync(id);
+        if (calendarEvent == null || calendarEvent.IsDeleted) return null;
+
+        // Validate tenant ownership
+        if (calendarEvent.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Calendar event belongs to different tenant");
+        }
+
+        return calendarEvent;
+    }
+
+    // 29 February falls back to the 28th in non-leap years
+    private static DateTime OnYear(DateTime date, int year)
+    {
+        var day = Math.Min(date.Day, DateTime.DaysInMonth(year, date.Month));
+        return new DateTime(year, date.Month, day);
+    }
+
+    private static string Escape(string value)
+    {
+        return value
+            .Replace("\\", "\\\\")
+            .Replace(";", "\\;")
+            .Replace(",", "\\,")
+            .Replace("\r\n", "\\n")
+            .Replace("\n", "\\n");
+    }
+
+    // RFC 5545: CRLF line endings, content lines folded at 75 characters
+    private static void AppendLine(StringBuilder ics, string line)
+    {
+        while (line.Length > 75)
+        {
+            ics.Append(line, 0, 75).Append("\r\n ");
+            line = line[75..];
+        }
+        ics.Append(line).Append("\r\n");
+    }
+}
@@ -4,6 +4,7 @@ using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using SmallHR.Core.DTOs;
 using SmallHR.Core.DTOs.Employee;
+using SmallHR.Core.DTOs.Notification;
 using SmallHR.Core.Entities;
 using SmallHR.Core.Interfaces;
 using SmallHR.Infrastructure.Data;
@@ -18,6 +19,7 @@ public class EmployeeService : IEmployeeService
     private readonly IUserCreationService _userCreationService;
     private readonly ILogger<EmployeeService> _logger;
     private readonly ApplicationDbContext _context;
+    private readonly IUserNotificationService _notificationService;
 
     public EmployeeService(
         IEmployeeRepository employeeRepository, 
@@ -25,7 +27,8 @@ public class EmployeeService : IEmployeeService
         ITenantProvider tenantProvider,
         IUserCreationService userCreationService,
         ILogger<EmployeeService> logger,
-        ApplicationDbContext context)
+        ApplicationDbContext context,
+        IUserNotificationService notificationService)
     {
         _employeeRepository = employeeRepository;
         _mapper = mapper;
@@ -33,6 +36,7 @@ public class EmployeeService : IEmployeeService
         _userCreationService = userCreationService;
         _logger = logger;
         _context = context;
+        _notificationService = notificationService;
     }
 
     public async Task<IEnumerable<EmployeeDto>> GetAllEmployeesAsync()
@@ -61,6 +65,35 @@ public class EmployeeService : IEmployeeService
         return employee == null ? null : _mapper.Map<EmployeeDto>(employee);
     }
 
+    public async Task<EmployeeDto?> GetEmployeeByUserIdAsync(string userId, string? email = null)
+    {
+        var employee = await FindByUserAsync(userId, email);
+        return employee == null ? null : _mapper.Map<EmployeeDto>(employee);
+    }
+
+    private async Task<Employee?> FindByUserAsync(string userId, string? email)
+    {
+        var employee = await _employeeRepository.FirstOrDefaultAsync(e => e.UserId == userId);
+
+        if (employee != null || string.IsNullOrEmpty(email))
+        {
+            return employee;
+        }
+
+        // Employees created before user linking only match by email; link them on first match
+        // so the record cannot later be claimed by a different account with the same email
+        employee = await _employeeRepository.GetByEmailAsync(email);
+        if (employee == null || employee.UserId != null)
+        {
+            return null;
+        }
+
+        employee.UserId = userId;
+        employee.UpdatedAt = DateTime.UtcNow;
+        await _employeeRepository.UpdateAsync(employee);
+        return employee;
+    }
+
     public async Task<EmployeeDto> CreateEmployeeAsync(CreateEmployeeDto createEmployeeDto)
     {
         // Check subscription limit
@@ -105,7 +138,8 @@ public class EmployeeService : IEmployeeService
         await _employeeRepository.AddAsync(employee);
         _logger.LogInformation("Employee {EmployeeId} created successfully with UserId: {UserId}", 
             createEmployeeDto.EmployeeId, employee.UserId);
-        
+
+        await NotifyDepartmentHeadAsync(employee);
         return _mapper.Map<EmployeeDto>(employee);
     }
 
@@ -120,12 +154,76 @@ public class EmployeeService : IEmployeeService
             throw new UnauthorizedAccessException("Access denied: Employee belongs to different tenant");
         }
 
+        var previousDepartment = employee.Department;
         _mapper.Map(updateEmployeeDto, employee);
         employee.UpdatedAt = DateTime.UtcNow;
         await _employeeRepository.UpdateAsync(employee);
+
+        if (employee.Department != previousDepartment)
+        {
+            await NotifyDepartmentHeadAsync(employee);
+        }
+        return _mapper.Map<EmployeeDto>(employee);
+    }
+
+    public async Task<EmployeeDto?> UpdateMyProfileAsync(string userId, string? email, UpdateMyProfileDto updateMyProfileDto)
+    {
+        var employee = await FindByUserAsync(userId, email);
+        if (employee == null) return null;
+
+        _mapper.Map(updateMyProfileDto, employee);
+        employee.UpdatedAt = DateTime.UtcNow;
+        await _employeeRepository.UpdateAsync(employee);
         return _mapper.Map<EmployeeDto>(employee);
     }
 
+    public async Task<EmployeeDto?> UpdateReportingLineAsync(int id, UpdateReportingLineDto updateReportingLineDto)
+    {
+        var employee = await _employeeRepository.GetByIdAsync(id);
+        if (employee == null) return null;
+        
+        // Validate tenant ownership
+        if (employee.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Employee belongs to different tenant");
+        }
+
+        var previousDepartment = employee.Department;
+        employee.Department = updateReportingLineDto.Department;
+        employee.ManagerId = updateReportingLineDto.ManagerId;
+        employee.UpdatedAt = DateTime.UtcNow;
+        await _employeeRepository.UpdateAsync(employee);
+
+        if (employee.Department != previousDepartment)
+        {
+            await NotifyDepartmentHeadAsync(employee);
+        }
+        return _mapper.Map<EmployeeDto>(employee);
+    }
+
+    public async Task<bool> IsValidManagerAsync(int? employeeId, int managerId)
+    {
+        if (employeeId == managerId) return false;
+
+        var manager = await _employeeRepository.GetByIdAsync(managerId);
+        if (manager == null || manager.TenantId != _tenantProvider.TenantId) return false;
+        if (employeeId == null) return true;
+
+        // Walk up the manager's chain; reaching the employee means they would end up managing themselves
+        var visited = new HashSet<int> { managerId };
+        var current = manager;
+        while (current.ManagerId.HasValue)
+        {
+            if (current.ManagerId == employeeId) return false;
+            if (!visited.Add(current.ManagerId.Value)) break;
+
+            current = await _employeeRepository.GetByIdAsync(current.ManagerId.Value);
+            if (current == null) break;
+        }
+
+        return true;
+    }
+
     public async Task<bool> DeleteEmployeeAsync(int id)
     {
         var employee = await _employeeRepository.GetByIdAsync(id);
@@ -140,6 +238,16 @@ public class EmployeeService : IEmployeeService
         employee.IsDeleted = true;
         employee.UpdatedAt = DateTime.UtcNow;
         await _employeeRepository.UpdateAsync(employee);
+
+        // Direct reports move up to the departing employee's manager
+        var directReports = await _employeeRepository.FindAsync(e => e.ManagerId == id);
+        foreach (var report in directReports)
+        {
+            report.ManagerId = employee.ManagerId;
+            report.UpdatedAt = DateTime.UtcNow;
+            await _employeeRepository.UpdateAsync(report);
+        }
+
         return true;
     }
 
@@ -247,4 +355,37 @@ public class EmployeeService : IEmployeeService
 
         _logger.LogInformation("Subscription check passed: {CurrentEmployees}/{MaxEmployees} employees", currentEmployeeCount, tenant.MaxEmployees);
     }
+
+    /// <summary>
+    /// Let the head of the employee's department know someone joined it.
+    /// The employee is already saved, so a failure here is logged rather than thrown.
+    /// </summary>
+    private async Task NotifyDepartmentHeadAsync(Employee employee)
+    {
+        try
+        {
+            var head = await _context.Departments
+                .Where(d => d.Name == employee.Department && d.HeadOfDepartment != null)
+                .Select(d => d.HeadOfDepartment!)
+                .FirstOrDefaultAsync();
+
+            if (string.IsNullOrEmpty(head?.UserId) || head.Id == employee.Id)
+            {
+                return;
+            }
+
+            await _notificationService.NotifyUserAsync(head.UserId, new CreateUserNotificationDto
+            {
+                Category = NotificationCategories.Employees,
+                Title = $"{employee.FirstName} {employee.LastName} joined {employee.Department}",
+                Message = string.IsNullOrWhiteSpace(employee.Position) ? null : employee.Position,
+                Link = "/employees"
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Could not notify the head of {Department} about employee {EmployeeId}",
+                employee.Department, employee.EmployeeId);
+        }
+    }
 }
@@ -0,0 +1,408 @@
+using System.Globalization;
+using System.Text;
+using AutoMapper;
+using SmallHR.Core.DTOs.Expense;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.Infrastructure.Services;
+
+public class ExpenseService : IExpenseService
+{
+    private const string PendingStatus = "Pending";
+    private const string ApprovedStatus = "Approved";
+    private const string PaidStatus = "Paid";
+
+    private readonly IExpenseClaimRepository _claimRepository;
+    private readonly IGenericRepository<ExpenseItem> _itemRepository;
+    private readonly IGenericRepository<ExpenseReceipt> _receiptRepository;
+    private readonly IGenericRepository<ReimbursementBatch> _batchRepository;
+    private readonly IEmployeeRepository _employeeRepository;
+    private readonly IMapper _mapper;
+    private readonly ITenantProvider _tenantProvider;
+
+    public ExpenseService(
+        IExpenseClaimRepository claimRepository,
+        IGenericRepository<ExpenseItem> itemRepository,
+        IGenericRepository<ExpenseReceipt> receiptRepository,
+        IGenericRepository<ReimbursementBatch> batchRepository,
+        IEmployeeRepository employeeRepository,
+        IMapper mapper,
+        ITenantProvider tenantProvider)
+    {
+        _claimRepository = claimRepository;
+        _itemRepository = itemRepository;
+        _receiptRepository = receiptRepository;
+        _batchRepository = batchRepository;
+        _employeeRepository = employeeRepository;
+        _mapper = mapper;
+        _tenantProvider = tenantProvider;
+    }
+
+    public async Task<IEnumerable<ExpenseClaimDto>> GetClaimsAsync(string? status)
+    {
+        var claims = await _claimRepository.FindWithDetailsAsync(c =>
+            !c.IsDeleted && (status == null || c.Status == status));
+        return await ToDtosAsync(claims);
+    }
+
+    public async Task<IEnumerable<ExpenseClaimDto>> GetClaimsByEmployeeAsync(int employeeId)
+    {
+        var claims = await _claimRepository.FindWithDetailsAsync(c => c.EmployeeId == employeeId && !c.IsDeleted);
+        return await ToDtosAsync(claims);
+    }
+
+    public async Task<IEnumerable<ExpenseClaimDto>> GetTeamClaimsAsync(int managerId, string? status)
+    {
+        var reportIds = (await _employeeRepository.FindAsync(e => e.ManagerId == managerId && !e.IsDeleted))
+            .Select(e => e.Id)
+            .ToList();
+        if (reportIds.Count == 0) return new List<ExpenseClaimDto>();
+
+        var claims = await _claimRepository.FindWithDetailsAsync(c =>
+            reportIds.Contains(c.EmployeeId) && !c.IsDeleted && (status == null || c.Status == status));
+        return await ToDtosAsync(claims);
+    }
+
+    public async Task<ExpenseClaimDto?> GetClaimByIdAsync(int id)
+    {
+        var claim = (await _claimRepository.FindWithDetailsAsync(c => c.Id == id && !c.IsDeleted)).FirstOrDefault();
+        if (claim == null) return null;
+
+        // Validate tenant ownership
+        if (claim.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Expense claim belongs to different tenant");
+        }
+
+        return (await ToDtosAsync(new[] { claim })).Single();
+    }
+
+    public async Task<ExpenseClaimDto> CreateClaimAsync(int employeeId, CreateExpenseClaimDto createExpenseClaimDto)
+    {
+        var claim = _mapper.Map<ExpenseClaim>(createExpenseClaimDto);
+        claim.TenantId = _tenantProvider.TenantId;
+        claim.EmployeeId = employeeId;
+        claim.Status = PendingStatus;
+        claim.SubmittedAt = DateTime.UtcNow;
+        claim.TotalAmount = SumItems(createExpenseClaimDto.Items);
+        await _claimRepository.AddAsync(claim);
+
+        await _itemRepository.AddRangeAsync(ToItems(claim, createExpenseClaimDto.Items));
+
+        return (await GetClaimByIdAsync(claim.Id))!;
+    }
+
+    public async Task<ExpenseClaimDto?> UpdateClaimAsync(int id, UpdateExpenseClaimDto updateExpenseClaimDto)
+    {
+        var claim = await GetOwnedClaimAsync(id);
+        if (claim == null) return null;
+
+        if (claim.Status != PendingStatus)
+        {
+            throw new InvalidOperationException("Only pending expense claims can be changed");
+        }
+
+        // Line items are replaced wholesale; the form always sends the full list
+        var existing = await _itemRepository.FindAsync(i => i.ExpenseClaimId == id);
+        await _itemRepository.DeleteRangeAsync(existing);
+        await _itemRepository.AddRangeAsync(ToItems(claim, updateExpenseClaimDto.Items));
+
+        _mapper.Map(updateExpenseClaimDto, claim);
+        claim.TotalAmount = SumItems(updateExpenseClaimDto.Items);
+        claim.UpdatedAt = DateTime.UtcNow;
+        await _claimRepository.UpdateAsync(claim);
+
+        return await GetClaimByIdAsync(id);
+    }
+
+    public async Task<bool> DeleteClaimAsync(int id)
+    {
+        var claim = await GetOwnedClaimAsync(id);
+        if (claim == null) return false;
+
+        if (claim.ReimbursementBatchId != null)
+        {
+            throw new InvalidOperationException("Expense claims in a reimbursement batch cannot be deleted");
+        }
+
+        claim.IsDeleted = true;
+        claim.UpdatedAt = DateTime.UtcNow;
+        await _claimRepository.UpdateAsync(claim);
+        return true;
+    }
+
+    public async Task<bool> ClaimExistsAsync(int id)
+    {
+        return await _claimRepository.ExistsAsync(c => c.Id == id && !c.IsDeleted);
+    }
+
+    public async Task<ExpenseClaimDto?> ReviewClaimAsync(int id, ReviewExpenseClaimDto reviewExpenseClaimDto, string reviewedBy)
+    {
+        var claim = await GetOwnedClaimAsync(id);
+        if (claim == null) return null;
+
+        if (claim.Status != PendingStatus)
+        {
+            throw new InvalidOperationException("Only pending expense claims can be reviewed");
+        }
+
+        claim.Status = reviewExpenseClaimDto.Status;
+        claim.ReviewComments = reviewExpenseClaimDto.Comments;
+        claim.ReviewedBy = reviewedBy;
+        claim.ReviewedAt = DateTime.UtcNow;
+        claim.UpdatedAt = DateTime.UtcNow;
+        await _claimRepository.UpdateAsync(claim);
+
+        return await GetClaimByIdAsync(id);
+    }
+
+    public async Task<ExpenseReceiptDto> AddReceiptAsync(int claimId, string fileName, string contentType, byte[] content)
+    {
+        var receipt = new ExpenseReceipt
+        {
+            TenantId = _tenantProvider.TenantId,
+            ExpenseClaimId = claimId,
+            FileName = fileName,
+            ContentType = contentType,
+            FileSize = content.LongLength,
+            Content = content
+        };
+        await _receiptRepository.AddAsync(receipt);
+
+        return _mapper.Map<ExpenseReceiptDto>(receipt);
+    }
+
+    public async Task<ExpenseReceiptFileDto?> GetReceiptFileAsync(int claimId, int receiptId)
+    {
+        var receipt = await GetOwnedReceiptAsync(claimId, receiptId);
+        if (receipt == null) return null;
+
+        return new ExpenseReceiptFileDto
+        {
+            FileName = receipt.FileName,
+            ContentType = receipt.ContentType,
+            Content = receipt.Content
+        };
+    }
+
+    public async Task<bool> DeleteReceiptAsync(int claimId, int receiptId)
+    {
+        var receipt = await GetOwnedReceiptAsync(claimId, receiptId);
+        if (receipt == null) return false;
+
+        receipt.IsDeleted = true;
+        receipt.UpdatedAt = DateTime.UtcNow;
+        await _receiptRepository.UpdateAsync(receipt);
+        return true;
+    }
+
+    public async Task<IEnumerable<ReimbursementBatchDto>> GetBatchesAsync()
+    {
+        var batches = await _batchRepository.FindAsync(b => !b.IsDeleted);
+
+        return batches
+            .OrderByDescending(b => b.PayrollYear)
+            .ThenByDescending(b => b.PayrollMonth)
+            .ThenByDescending(b => b.CreatedAt)
+            .Select(b => _mapper.Map<ReimbursementBatchDto>(b))
+            .ToList();
+    }
+
+    public async Task<ReimbursementBatchDto?> GetBatchByIdAsync(int id)
+    {
+        var batch = await GetOwnedBatchAsync(id);
+        return batch == null ? null : _mapper.Map<ReimbursementBatchDto>(batch);
+    }
+
+    public async Task<bool> HasClaimsToBatchAsync(string currency)
+    {
+        return await _claimRepository.ExistsAsync(c =>
+            c.Status == ApprovedStatus && c.ReimbursementBatchId == null && c.Currency == currency && !c.IsDeleted);
+    }
+
+    public async Task<ReimbursementBatchDto> CreateBatchAsync(CreateReimbursementBatchDto createReimbursementBatchDto, string? createdBy)
+    {
+        var year = createReimbursementBatchDto.PayrollYear;
+        var month = createReimbursementBatchDto.PayrollMonth;
+        var currency = createReimbursementBatchDto.Currency;
+
+        var claims = (await _claimRepository.FindAsync(c =>
+            c.Status == ApprovedStatus && c.ReimbursementBatchId == null && c.Currency == currency && !c.IsDeleted)).ToList();
+        var sequence = await _batchRepository.CountAsync(b => b.PayrollYear == year && b.PayrollMonth == month) + 1;
+
+        var batch = new ReimbursementBatch
+        {
+            TenantId = _tenantProvider.TenantId,
+            Reference = $"EXP-{year}{month:00}-{currency}-{sequence}",
+            PayrollYear = year,
+            PayrollMonth = month,
+            Currency = currency,
+            TotalAmount = claims.Sum(c => c.TotalAmount),
+            ClaimCount = claims.Count,
+            Status = PendingStatus,
+            CreatedBy = createdBy
+        };
+        await _batchRepository.AddAsync(batch);
+
+        foreach (var claim in claims)
+        {
+            claim.ReimbursementBatchId = batch.Id;
+            claim.UpdatedAt = DateTime.UtcNow;
+            await _claimRepository.UpdateAsync(claim);
+        }
+
+        return _mapper.Map<ReimbursementBatchDto>(batch);
+    }
+
+    public async Task<string?> ExportBatchCsvAsync(int id)
+    {
+        var batch = await GetOwnedBatchAsync(id);
+        if (batch == null) return null;
+
+        var claims = await _claimRepository.FindWithDetailsAsync(c => c.ReimbursementBatchId == id && !c.IsDeleted);
+
+        var csv = new StringBuilder();
+        csv.AppendLine("Batch,Payroll Period,Employee ID,Employee,Department,Claim ID,Claim,Approved On,Currency,Amount");
+        foreach (var claim in claims.OrderBy(c => c.Employee.LastName).ThenBy(c => c.Employee.FirstName))
+        {
+            csv.AppendLine(string.Join(",",
+                CsvValue(batch.Reference),
+                $"{batch.PayrollYear}-{batch.PayrollMonth:00}",
+                CsvValue(claim.Employee.EmployeeId),
+                CsvValue($"{claim.Employee.FirstName} {claim.Employee.LastName}"),
+                CsvValue(claim.Employee.Department),
+                claim.Id,
+                CsvValue(claim.Title),
+                claim.ReviewedAt?.ToString("yyyy-MM-dd") ?? string.Empty,
+                claim.Currency,
+                claim.TotalAmount.ToString("0.00", CultureInfo.InvariantCulture)));
+        }
+
+        return csv.ToString();
+    }
+
+    public async Task<bool> DeleteBatchAsync(int id)
+    {
+        var batch = await GetOwnedBatchAsync(id);
+        if (batch == null) return false;
+
+        if (batch.Status == PaidStatus)
+        {
+            throw new InvalidOperationException("Paid reimbursement batches cannot be deleted");
+        }
+
+        // Release the claims so they can go into a later batch
+        var claims = await _claimRepository.FindAsync(c => c.ReimbursementBatchId == id);
+        foreach (var claim in claims)
+        {
+            claim.ReimbursementBatchId = null;
+            claim.UpdatedAt = DateTime.UtcNow;
+            await _claimRepository.UpdateAsync(claim);
+        }
+
+        batch.IsDeleted = true;
+        batch.UpdatedAt = DateTime.UtcNow;
+        await _batchRepository.UpdateAsync(batch);
+        return true;
+    }
+
+    public async Task<bool> BatchExistsAsync(int id)
+    {
+        return await _batchRepository.ExistsAsync(b => b.Id == id && !b.IsDeleted);
+    }
+
+    public async Task<bool> IsBatchPaidAsync(int id)
+    {
+        return await _batchRepository.ExistsAsync(b => b.Id == id && b.Status == PaidStatus && !b.IsDeleted);
+    }
+
+    private async Task<List<ExpenseClaimDto>> ToDtosAsync(IEnumerable<ExpenseClaim> claims)
+    {
+        var claimList = claims.ToList();
+        var receipts = (await _claimRepository.GetReceiptSummariesAsync(claimList.Select(c => c.Id)))
+            .ToLookup(r => r.ExpenseClaimId);
+
+        return claimList
+            .Select(c =>
+            {
+                var dto = _mapper.Map<ExpenseClaimDto>(c);
+                dto.Receipts = receipts[c.Id]
+                    .OrderBy(r => r.CreatedAt)
+                    .Select(r => _mapper.Map<ExpenseReceiptDto>(r))
+                    .ToList();
+                return dto;
+            })
+            .ToList();
+    }
+
+    private List<ExpenseItem> ToItems(ExpenseClaim claim, IEnumerable<CreateExpenseItemDto> items)
+    {
+        return items
+            .Select(i =>
+            {
+                var item = _mapper.Map<ExpenseItem>(i);
+                item.TenantId = claim.TenantId;
+                item.ExpenseClaimId = claim.Id;
+                item.Amount = Math.Round(i.Amount, 2);
+                return item;
+            })
+            .ToList();
+    }
+
+    private static decimal SumItems(IEnumerable<CreateExpenseItemDto> items) =>
+        items.Sum(i => Math.Round(i.Amount, 2));
+
+    private static string CsvValue(string? value)
+    {
+        if (string.IsNullOrEmpty(value)) return string.Empty;
+
+        // Quote anything that would break the column layout; leading formula characters are defused for spreadsheets
+        var safe = "=+-@".Contains(value[0]) ? "'" + value : value;
+        return safe.IndexOfAny(new[] { ',', '"', '\n', '\r' }) >= 0
+            ? $"\"{safe.Replace("\"", "\"\"")}\""
+            : safe;
+    }
+
+    private async Task<ExpenseClaim?> GetOwnedClaimAsync(int id)
+    {
+        var claim = await _claimRepository.GetByIdAsync(id);
+        if (claim == null || claim.IsDeleted) return null;
+
+        // Validate tenant ownership
+        if (claim.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Expense claim belongs to different tenant");
+        }
+
+        return claim;
+    }
+
+    private async Task<ExpenseReceipt?> GetOwnedReceiptAsync(int claimId, int receiptId)
+    {
+        var receipt = await _receiptRepository.GetByIdAsync(receiptId);
+        if (receipt == null || receipt.IsDeleted || receipt.ExpenseClaimId != claimId) return null;
+
+        // Validate tenant ownership
+        if (receipt.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Expense receipt belongs to different tenant");
+        }
+
+        return receipt;
+    }
+
+    private async Task<ReimbursementBatch?> GetOwnedBatchAsync(int id)
+    {
+        var batch = await _batchRepository.GetByIdAsync(id);
+        if (batch == null || batch.IsDeleted) return null;
+
+        // Validate tenant ownership
+        if (batch.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Reimbursement batch belongs to different tenant");
+        }
+
+        return batch;
+    }
+}
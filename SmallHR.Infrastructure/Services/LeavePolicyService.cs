@@ -0,0 +1,181 @@
+using AutoMapper;
+using SmallHR.Core.DTOs.LeavePolicy;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.Infrastructure.Services;
+
+public class LeavePolicyService : ILeavePolicyService
+{
+    private readonly IGenericRepository<LeavePolicy> _leavePolicyRepository;
+    private readonly ILeaveRequestRepository _leaveRequestRepository;
+    private readonly IEmployeeRepository _employeeRepository;
+    private readonly IMapper _mapper;
+    private readonly ITenantProvider _tenantProvider;
+
+    public LeavePolicyService(
+        IGenericRepository<LeavePolicy> leavePolicyRepository,
+        ILeaveRequestRepository leaveRequestRepository,
+        IEmployeeRepository employeeRepository,
+        IMapper mapper,
+        ITenantProvider tenantProvider)
+    {
+        _leavePolicyRepository = leavePolicyRepository;
+        _leaveRequestRepository = leaveRequestRepository;
+        _employeeRepository = employeeRepository;
+        _mapper = mapper;
+        _tenantProvider = tenantProvider;
+    }
+
+    public async Task<IEnumerable<LeavePolicyDto>> GetAllLeavePoliciesAsync()
+    {
+        var policies = await _leavePolicyRepository.FindAsync(p => !p.IsDeleted);
+        return _mapper.Map<IEnumerable<LeavePolicyDto>>(policies.OrderBy(p => p.LeaveType));
+    }
+
+    public async Task<LeavePolicyDto?> GetLeavePolicyByIdAsync(int id)
+    {
+        var policy = await GetOwnedPolicyAsync(id);
+        return policy == null ? null : _mapper.Map<LeavePolicyDto>(policy);
+    }
+
+    public async Task<LeavePolicyDto> CreateLeavePolicyAsync(CreateLeavePolicyDto createLeavePolicyDto)
+    {
+        var policy = _mapper.Map<LeavePolicy>(createLeavePolicyDto);
+        policy.TenantId = _tenantProvider.TenantId;
+        await _leavePolicyRepository.AddAsync(policy);
+        return _mapper.Map<LeavePolicyDto>(policy);
+    }
+
+    public async Task<LeavePolicyDto?> UpdateLeavePolicyAsync(int id, UpdateLeavePolicyDto updateLeavePolicyDto)
+    {
+        var policy = await GetOwnedPolicyAsync(id);
+        if (policy == null) return null;
+
+        _mapper.Map(updateLeavePolicyDto, policy);
+        policy.UpdatedAt = DateTime.UtcNow;
+        await _leavePolicyRepository.UpdateAsync(policy);
+        return _mapper.Map<LeavePolicyDto>(policy);
+    }
+
+    public async Task<bool> DeleteLeavePolicyAsync(int id)
+    {
+        var policy = await GetOwnedPolicyAsync(id);
+        if (policy == null) return false;
+
+        policy.IsDeleted = true;
+        policy.IsActive = false;
+        policy.UpdatedAt = DateTime.UtcNow;
+        await _leavePolicyRepository.UpdateAsync(policy);
+        return true;
+    }
+
+    public async Task<bool> LeavePolicyExistsAsync(int id)
+    {
+        return await _leavePolicyRepository.ExistsAsync(p => p.Id == id && !p.IsDeleted);
+    }
+
+    public async Task<bool> LeaveTypeExistsAsync(string leaveType)
+    {
+        return await _leavePolicyRepository.ExistsAsync(p => p.LeaveType == leaveType && !p.IsDeleted);
+    }
+
+    public async Task<string?> ValidateLeaveRequestAsync(int employeeId, string leaveType, DateTime startDate, DateTime endDate, int? excludeLeaveRequestId = null)
+    {
+        var policy = await _leavePolicyRepository.FirstOrDefaultAsync(p => p.LeaveType == leaveType && p.IsActive && !p.IsDeleted);
+
+        // Leave types without an active policy are not limited
+        if (policy == null) return null;
+
+        var employee = await _employeeRepository.GetByIdAsync(employeeId);
+        if (employee == null) return null;
+
+        // Same calculation as the leave page (utils/leave.ts), as of the day the leave starts
+        var start = startDate.Date;
+        var end = endDate.Date;
+        var hireDate = employee.HireDate.Date;
+
+        var probationEnd = hireDate.AddMonths(policy.ProbationMonths);
+        if (policy.ProbationMonths > 0 && start < probationEnd && !policy.AllowDuringProbation)
+        {
+            return $"{leaveType} leave is not available until probation ends on {probationEnd:yyyy-MM-dd}";
+        }
+
+        // The request being edited releases its own days
+        var requests = (await _leaveRequestRepository.GetByEmployeeIdAsync(employeeId))
+            .Where(lr => lr.LeaveType == leaveType && lr.Id != excludeLeaveRequestId)
+            .ToList();
+        decimal DaysFor(string status, int inYear) => requests
+            .Where(lr => lr.Status == status)
+            .Sum(lr => (decimal)DaysInYear(lr, inYear));
+
+        // A request crossing New Year draws each year's days from that year's balance
+        for (var year = start.Year; year <= end.Year; year++)
+        {
+            var asOf = year == start.Year ? start : new DateTime(year, 1, 1);
+
+            var fullYear = YearEntitlement(policy, hireDate, year);
+            var earned = fullYear;
+            if (policy.AccrualPerMonth > 0)
+            {
+                // Accrual is credited at the start of each month, from January or the hire month
+                var accrualStartMonth = policy.ProRateFromHireDate && hireDate.Year == year ? hireDate.Month : 1;
+                var months = hireDate.Year > year ? 0 : asOf.Month - accrualStartMonth + 1;
+                earned = Math.Min(fullYear, policy.AccrualPerMonth * Math.Max(0, months));
+            }
+
+            var unusedLastYear = Math.Max(0, YearEntitlement(policy, hireDate, year - 1) - DaysFor("Approved", year - 1));
+            var carriedOver = RoundToHalfDay(Math.Min(policy.MaxCarryOver, unusedLastYear));
+            var entitlement = RoundToHalfDay(earned) + carriedOver;
+            var available = Math.Max(0, entitlement - DaysFor("Approved", year) - DaysFor("Pending", year));
+
+            if (DaysInYear(start, end, year) > available)
+            {
+                return start.Year == end.Year
+                    ? $"Only {available:0.#} day(s) of {leaveType} leave available"
+                    : $"Only {available:0.#} day(s) of {leaveType} leave available in {year}";
+            }
+        }
+
+        return null;
+    }
+
+    // Stored requests within one year count their TotalDays; those crossing New Year are split by date
+    private static int DaysInYear(LeaveRequest request, int year)
+    {
+        if (request.EndDate.Year > request.StartDate.Year) return DaysInYear(request.StartDate, request.EndDate, year);
+        return request.StartDate.Year == year ? request.TotalDays : 0;
+    }
+
+    // Inclusive calendar days of the range that fall in the given year
+    private static int DaysInYear(DateTime startDate, DateTime endDate, int year)
+    {
+        var from = startDate.Year < year ? new DateTime(year, 1, 1) : startDate.Date;
+        var to = endDate.Year > year ? new DateTime(year, 12, 31) : endDate.Date;
+        return Math.Max(0, (int)(to - from).TotalDays + 1);
+    }
+
+    // Full-year entitlement, reduced by the months before the hire date when the policy pro-rates
+    private static decimal YearEntitlement(LeavePolicy policy, DateTime hireDate, int year)
+    {
+        if (hireDate.Year > year) return 0;
+        if (hireDate.Year < year || !policy.ProRateFromHireDate) return policy.AnnualEntitlement;
+        return policy.AnnualEntitlement * (12 - (hireDate.Month - 1)) / 12;
+    }
+
+    private static decimal RoundToHalfDay(decimal days) => Math.Round(days * 2, MidpointRounding.AwayFromZero) / 2;
+
+    private async Task<LeavePolicy?> GetOwnedPolicyAsync(int id)
+    {
+        var policy = await _leavePolicyRepository.GetByIdAsync(id);
+        if (policy == null || policy.IsDeleted) return null;
+
+        // Validate tenant ownership
+        if (policy.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Leave policy belongs to different tenant");
+        }
+
+        return policy;
+    }
+}
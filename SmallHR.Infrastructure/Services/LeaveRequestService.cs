@@ -1,5 +1,7 @@
 using AutoMapper;
+using Microsoft.Extensions.Logging;
 using SmallHR.Core.DTOs.LeaveRequest;
+using SmallHR.Core.DTOs.Notification;
 using SmallHR.Core.Entities;
 using SmallHR.Core.Interfaces;
 
@@ -11,17 +13,26 @@ public class LeaveRequestService : ILeaveRequestService
     private readonly IEmployeeRepository _employeeRepository;
     private readonly IMapper _mapper;
     private readonly ITenantProvider _tenantProvider;
+    private readonly IUserNotificationService _notificationService;
+    private readonly ILeavePolicyService _leavePolicyService;
+    private readonly ILogger<LeaveRequestService> _logger;
 
     public LeaveRequestService(
         ILeaveRequestRepository leaveRequestRepository,
         IEmployeeRepository employeeRepository,
         IMapper mapper,
-        ITenantProvider tenantProvider)
+        ITenantProvider tenantProvider,
+        IUserNotificationService notificationService,
+        ILeavePolicyService leavePolicyService,
+        ILogger<LeaveRequestService> logger)
     {
         _leaveRequestRepository = leaveRequestRepository;
         _employeeRepository = employeeRepository;
         _mapper = mapper;
         _tenantProvider = tenantProvider;
+        _notificationService = notificationService;
+        _leavePolicyService = leavePolicyService;
+        _logger = logger;
     }
 
     public async Task<IEnumerable<LeaveRequestDto>> GetAllLeaveRequestsAsync(string? tenantId = null)
@@ -52,6 +63,16 @@ public class LeaveRequestService : ILeaveRequestService
 
     public async Task<LeaveRequestDto> CreateLeaveRequestAsync(CreateLeaveRequestDto createLeaveRequestDto)
     {
+        var policyError = await _leavePolicyService.ValidateLeaveRequestAsync(
+            createLeaveRequestDto.EmployeeId,
+            createLeaveRequestDto.LeaveType,
+            createLeaveRequestDto.StartDate,
+            createLeaveRequestDto.EndDate);
+        if (policyError != null)
+        {
+            throw new InvalidOperationException(policyError);
+        }
+
         var leaveRequest = _mapper.Map<LeaveRequest>(createLeaveRequestDto);
         leaveRequest.TotalDays = (int)(leaveRequest.EndDate - leaveRequest.StartDate).TotalDays + 1;
         
@@ -70,6 +91,17 @@ public class LeaveRequestService : ILeaveRequestService
             throw new UnauthorizedAccessException("Access denied: Leave request belongs to different tenant");
         }
 
+        var policyError = await _leavePolicyService.ValidateLeaveRequestAsync(
+            leaveRequest.EmployeeId,
+            updateLeaveRequestDto.LeaveType,
+            updateLeaveRequestDto.StartDate,
+            updateLeaveRequestDto.EndDate,
+            leaveRequest.Id);
+        if (policyError != null)
+        {
+            throw new InvalidOperationException(policyError);
+        }
+
         _mapper.Map(updateLeaveRequestDto, leaveRequest);
         leaveRequest.TotalDays = (int)(leaveRequest.EndDate - leaveRequest.StartDate).TotalDays + 1;
         leaveRequest.UpdatedAt = DateTime.UtcNow;
@@ -100,6 +132,7 @@ public class LeaveRequestService : ILeaveRequestService
         
         leaveRequest.UpdatedAt = DateTime.UtcNow;
         await _leaveRequestRepository.UpdateAsync(leaveRequest);
+        await NotifyEmployeeOfDecisionAsync(leaveRequest);
         return _mapper.Map<LeaveRequestDto>(leaveRequest);
     }
 
@@ -153,4 +186,40 @@ public class LeaveRequestService : ILeaveRequestService
     {
         return await _leaveRequestRepository.GetTotalLeaveDaysAsync(employeeId, leaveType, year);
     }
+
+    /// <summary>
+    /// Tell the employee their leave was approved or rejected.
+    /// The decision is already saved, so a failure here is logged rather than thrown.
+    /// </summary>
+    private async Task NotifyEmployeeOfDecisionAsync(LeaveRequest leaveRequest)
+    {
+        try
+        {
+            // Employees without a login have no inbox
+            var employee = await _employeeRepository.GetByIdAsync(leaveRequest.EmployeeId);
+            if (string.IsNullOrEmpty(employee?.UserId))
+            {
+                return;
+            }
+
+            var dates = leaveRequest.StartDate.Date == leaveRequest.EndDate.Date
+                ? leaveRequest.StartDate.ToString("d MMM yyyy")
+                : $"{leaveRequest.StartDate:d MMM} – {leaveRequest.EndDate:d MMM yyyy}";
+
+            await _notificationService.NotifyUserAsync(employee.UserId, new CreateUserNotificationDto
+            {
+                Category = NotificationCategories.Leave,
+                Title = $"Your leave was {leaveRequest.Status.ToLowerInvariant()}",
+                Message = leaveRequest.Status == "Rejected" && !string.IsNullOrWhiteSpace(leaveRequest.RejectionReason)
+                    ? $"{leaveRequest.LeaveType} leave, {dates}: {leaveRequest.RejectionReason}"
+                    : $"{leaveRequest.LeaveType} leave, {dates}",
+                Link = "/leave"
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Could not notify employee {EmployeeId} about leave request {LeaveRequestId}",
+                leaveRequest.EmployeeId, leaveRequest.Id);
+        }
+    }
 }
@@ -0,0 +1,116 @@
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using Microsoft.Extensions.Logging;
+using SmallHR.Core.DTOs.LiveEvents;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.Infrastructure.Services;
+
+/// <summary>
+/// In-process live event hub. Registered as a singleton; with several API instances
+/// each one only reaches the sessions connected to it.
+/// </summary>
+public class LiveEventHub : ILiveEventHub
+{
+    // A session that stops reading drops its oldest events instead of growing without bound
+    private const int ConnectionBufferSize = 100;
+
+    private readonly ConcurrentDictionary<Guid, Connection> _connections = new();
+    private readonly ILogger<LiveEventHub> _logger;
+
+    public LiveEventHub(ILogger<LiveEventHub> logger)
+    {
+        _logger = logger;
+    }
+
+    public ILiveEventSubscription Subscribe(string userId, string? tenantId, IEnumerable<string> roles)
+    {
+        var channel = Channel.CreateBounded<LiveEventDto>(new BoundedChannelOptions(ConnectionBufferSize)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest,
+            SingleReader = true
+        });
+
+        var connection = new Connection(this, userId, tenantId, roles, channel);
+        _connections[connection.Id] = connection;
+
+        _logger.LogDebug("Live connection {ConnectionId} opened for user {UserId} ({Count} open)",
+            connection.Id, userId, _connections.Count);
+
+        return connection;
+    }
+
+    public void PublishToUser(string userId, string type, object? data = null)
+    {
+        Publish(c => c.UserId == userId, type, data);
+    }
+
+    public void PublishToTenant(string tenantId, string type, object? data = null)
+    {
+        Publish(c => string.Equals(c.TenantId, tenantId, StringComparison.OrdinalIgnoreCase), type, data);
+    }
+
+    public void PublishToRole(string role, string type, object? data = null)
+    {
+        Publish(c => c.Roles.Contains(role), type, data);
+    }
+
+    public void PublishToAll(string type, object? data = null)
+    {
+        Publish(_ => true, type, data);
+    }
+
+    private void Publish(Func<Connection, bool> audience, string type, object? data)
+    {
+        var liveEvent = new LiveEventDto
+        {
+            Type = type,
+            Data = data,
+            OccurredAt = DateTime.UtcNow
+        };
+
+        var delivered = 0;
+        foreach (var connection in _connections.Values.Where(audience))
+        {
+            if (connection.Writer.TryWrite(liveEvent))
+            {
+                delivered++;
+            }
+        }
+
+        _logger.LogDebug("Published {EventType} to {Delivered} live connection(s)", type, delivered);
+    }
+
+    private void Remove(Guid connectionId)
+    {
+        _connections.TryRemove(connectionId, out _);
+    }
+
+    private sealed class Connection : ILiveEventSubscription
+    {
+        private readonly LiveEventHub _hub;
+        private readonly Channel<LiveEventDto> _channel;
+
+        public Connection(LiveEventHub hub, string userId, string? tenantId, IEnumerable<string> roles, Channel<LiveEventDto> channel)
+        {
+            _hub = hub;
+            _channel = channel;
+            UserId = userId;
+            TenantId = tenantId;
+            Roles = new HashSet<string>(roles, StringComparer.OrdinalIgnoreCase);
+        }
+
+        public Guid Id { get; } = Guid.NewGuid();
+        public string UserId { get; }
+        public string? TenantId { get; }
+        public HashSet<string> Roles { get; }
+        public ChannelWriter<LiveEventDto> Writer => _channel.Writer;
+        public ChannelReader<LiveEventDto> Reader => _channel.Reader;
+
+        public void Dispose()
+        {
+            _hub.Remove(Id);
+            _channel.Writer.TryComplete();
+        }
+    }
+}
@@ -0,0 +1,184 @@
+using AutoMapper;
+using SmallHR.Core.DTOs.Notice;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.Infrastructure.Services;
+
+public class NoticeService : INoticeService
+{
+    private readonly IGenericRepository<Notice> _noticeRepository;
+    private readonly IGenericRepository<NoticeReceipt> _receiptRepository;
+    private readonly IEmployeeRepository _employeeRepository;
+    private readonly IMapper _mapper;
+    private readonly ITenantProvider _tenantProvider;
+
+    public NoticeService(
+        IGenericRepository<Notice> noticeRepository,
+        IGenericRepository<NoticeReceipt> receiptRepository,
+        IEmployeeRepository employeeRepository,
+        IMapper mapper,
+        ITenantProvider tenantProvider)
+    {
+        _noticeRepository = noticeRepository;
+        _receiptRepository = receiptRepository;
+        _employeeRepository = employeeRepository;
+        _mapper = mapper;
+        _tenantProvider = tenantProvider;
+    }
+
+    public async Task<IEnumerable<NoticeDto>> GetFeedAsync(NoticeAudienceDto audience)
+    {
+        var now = DateTime.UtcNow;
+        var notices = await _noticeRepository.FindAsync(n =>
+            !n.IsDeleted && n.PublishAt <= now && (n.ExpiresAt == null || n.ExpiresAt > now));
+        var readIds = (await _receiptRepository.FindAsync(r => r.UserId == audience.UserId))
+            .Select(r => r.NoticeId)
+            .ToHashSet();
+
+        return notices
+            .Select(n => ToDto(n, now))
+            .Where(n => IsTargeted(n, audience.Department, audience.Roles))
+            .Select(n =>
+            {
+                n.IsRead = readIds.Contains(n.Id);
+                return n;
+            })
+            .OrderByDescending(n => n.IsPinned)
+            .ThenByDescending(n => n.PublishAt)
+            .ToList();
+    }
+
+    public async Task<int> GetUnreadCountAsync(NoticeAudienceDto audience)
+    {
+        var feed = await GetFeedAsync(audience);
+        return feed.Count(n => !n.IsRead);
+    }
+
+    public async Task<IEnumerable<NoticeDto>> GetAllNoticesAsync()
+    {
+        var now = DateTime.UtcNow;
+        var notices = await _noticeRepository.FindAsync(n => !n.IsDeleted);
+        var readCounts = (await _receiptRepository.GetAllAsync())
+            .GroupBy(r => r.NoticeId)
+            .ToDictionary(g => g.Key, g => g.Count());
+        var employees = (await _employeeRepository.GetActiveEmployeesAsync()).ToList();
+
+        return notices
+            .Select(n =>
+            {
+                var dto = ToDto(n, now);
+                dto.ReadCount = readCounts.GetValueOrDefault(n.Id);
+                dto.AudienceCount = employees.Count(e => IsTargeted(dto, e.Department, new[] { e.Role }));
+                return dto;
+            })
+            .OrderByDescending(n => n.PublishAt)
+            .ToList();
+    }
+
+    public async Task<NoticeDto?> GetNoticeByIdAsync(int id)
+    {
+        var notice = await GetOwnedNoticeAsync(id);
+        return notice == null ? null : ToDto(notice, DateTime.UtcNow);
+    }
+
+    public async Task<NoticeDto> CreateNoticeAsync(CreateNoticeDto createNoticeDto, string? createdBy)
+    {
+        var notice = _mapper.Map<Notice>(createNoticeDto);
+        notice.TenantId = _tenantProvider.TenantId;
+        notice.CreatedBy = createdBy;
+        notice.PublishAt = createNoticeDto.PublishAt ?? DateTime.UtcNow;
+        await _noticeRepository.AddAsync(notice);
+        return ToDto(notice, DateTime.UtcNow);
+    }
+
+    public async Task<NoticeDto?> UpdateNoticeAsync(int id, UpdateNoticeDto updateNoticeDto)
+    {
+        var notice = await GetOwnedNoticeAsync(id);
+        if (notice == null) return null;
+
+        _mapper.Map(updateNoticeDto, notice);
+        notice.PublishAt = updateNoticeDto.PublishAt ?? notice.PublishAt;
+        notice.UpdatedAt = DateTime.UtcNow;
+        await _noticeRepository.UpdateAsync(notice);
+        return ToDto(notice, DateTime.UtcNow);
+    }
+
+    public async Task<bool> DeleteNoticeAsync(int id)
+    {
+        var notice = await GetOwnedNoticeAsync(id);
+        if (notice == null) return false;
+
+        notice.IsDeleted = true;
+        notice.UpdatedAt = DateTime.UtcNow;
+        await _noticeRepository.UpdateAsync(notice);
+        return true;
+    }
+
+    public async Task<bool> NoticeExistsAsync(int id)
+    {
+        return await _noticeRepository.ExistsAsync(n => n.Id == id && !n.IsDeleted);
+    }
+
+    public async Task<bool> MarkAsReadAsync(int id, NoticeAudienceDto audience)
+    {
+        var notice = await GetOwnedNoticeAsync(id);
+        if (notice == null) return false;
+
+        // Reading twice keeps the first receipt
+        var alreadyRead = await _receiptRepository.ExistsAsync(r => r.NoticeId == id && r.UserId == audience.UserId);
+        if (!alreadyRead)
+        {
+            await _receiptRepository.AddAsync(new NoticeReceipt
+            {
+                TenantId = _tenantProvider.TenantId,
+                NoticeId = id,
+                UserId = audience.UserId,
+                ReaderName = audience.ReaderName,
+                Department = audience.Department,
+                ReadAt = DateTime.UtcNow
+            });
+        }
+
+        return true;
+    }
+
+    public async Task<IEnumerable<NoticeReceiptDto>> GetReceiptsAsync(int id)
+    {
+        var receipts = await _receiptRepository.FindAsync(r => r.NoticeId == id);
+        return _mapper.Map<IEnumerable<NoticeReceiptDto>>(receipts.OrderByDescending(r => r.ReadAt));
+    }
+
+    private async Task<Notice?> GetOwnedNoticeAsync(int id)
+    {
+        var notice = await _noticeRepository.GetByIdAsync(id);
+        if (notice == null || notice.IsDeleted) return null;
+
+        // Validate tenant ownership
+        if (notice.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Notice belongs to different tenant");
+        }
+
+        return notice;
+    }
+
+    private NoticeDto ToDto(Notice notice, DateTime now)
+    {
+        var dto = _mapper.Map<NoticeDto>(notice);
+        dto.Status = notice.PublishAt > now
+            ? "Scheduled"
+            : notice.ExpiresAt.HasValue && notice.ExpiresAt <= now ? "Expired" : "Published";
+        return dto;
+    }
+
+    // Empty target lists mean everyone; otherwise the reader must match every list that is set
+    private static bool IsTargeted(NoticeDto notice, string? department, IEnumerable<string> roles)
+    {
+        var departmentMatches = notice.TargetDepartments.Count == 0
+            || (department != null && notice.TargetDepartments.Contains(department, StringComparer.OrdinalIgnoreCase));
+        var roleMatches = notice.TargetRoles.Count == 0
+            || roles.Any(role => notice.TargetRoles.Contains(role, StringComparer.OrdinalIgnoreCase));
+        return departmentMatches && roleMatches;
+    }
+}
@@ -0,0 +1,492 @@
+using AutoMapper;
+using SmallHR.Core.DTOs.Payroll;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.Infrastructure.Services;
+
+public class PayrollService : IPayrollService
+{
+    private const string DraftStatus = "Draft";
+    private const string FinalizedStatus = "Finalized";
+    private const string UnpaidLeaveType = "Unpaid";
+    private const string PaidBatchStatus = "Paid";
+    private const string ReimbursedStatus = "Reimbursed";
+    private const string MissingBatchesMessage = "Reimbursement batches were created for this period after the pay run was calculated; recalculate it before finalizing";
+
+    private readonly IGenericRepository<PayrollSettings> _settingsRepository;
+    private readonly IGenericRepository<PayRun> _payRunRepository;
+    private readonly IGenericRepository<Payslip> _payslipRepository;
+    private readonly IEmployeeRepository _employeeRepository;
+    private readonly IAttendanceRepository _attendanceRepository;
+    private readonly ILeaveRequestRepository _leaveRequestRepository;
+    private readonly IGenericRepository<ReimbursementBatch> _batchRepository;
+    private readonly IGenericRepository<ExpenseClaim> _claimRepository;
+    private readonly IMapper _mapper;
+    private readonly ITenantProvider _tenantProvider;
+
+    public PayrollService(
+        IGenericRepository<PayrollSettings> settingsRepository,
+        IGenericRepository<PayRun> payRunRepository,
+        IGenericRepository<Payslip> payslipRepository,
+        IEmployeeRepository employeeRepository,
+        IAttendanceRepository attendanceRepository,
+        ILeaveRequestRepository leaveRequestRepository,
+        IGenericRepository<ReimbursementBatch> batchRepository,
+        IGenericRepository<ExpenseClaim> claimRepository,
+        IMapper mapper,
+        ITenantProvider tenantProvider)
+    {
+        _settingsRepository = settingsRepository;
+        _payRunRepository = payRunRepository;
+        _payslipRepository = payslipRepository;
+        _employeeRepository = employeeRepository;
+        _attendanceRepository = attendanceRepository;
+        _leaveRequestRepository = leaveRequestRepository;
+        _batchRepository = batchRepository;
+        _claimRepository = claimRepository;
+        _mapper = mapper;
+        _tenantProvider = tenantProvider;
+    }
+
+    public async Task<PayrollSettingsDto> GetSettingsAsync()
+    {
+        return _mapper.Map<PayrollSettingsDto>(await GetOrDefaultSettingsAsync());
+    }
+
+    public async Task<PayrollSettingsDto> UpdateSettingsAsync(UpdatePayrollSettingsDto updatePayrollSettingsDto)
+    {
+        var settings = await _settingsRepository.FirstOrDefaultAsync(s => !s.IsDeleted);
+        if (settings == null)
+        {
+            settings = _mapper.Map<PayrollSettings>(updatePayrollSettingsDto);
+            settings.TenantId = _tenantProvider.TenantId;
+            await _settingsRepository.AddAsync(settings);
+        }
+        else
+        {
+            _mapper.Map(updatePayrollSettingsDto, settings);
+            settings.UpdatedAt = DateTime.UtcNow;
+            await _settingsRepository.UpdateAsync(settings);
+        }
+
+        return _mapper.Map<PayrollSettingsDto>(settings);
+    }
+
+    public async Task<IEnumerable<PayRunDto>> GetPayRunsAsync(int? year)
+    {
+        var runs = await _payRunRepository.FindAsync(r => !r.IsDeleted && (year == null || r.Year == year));
+        var payslips = (await _payslipRepository.FindAsync(p => !p.IsDeleted)).ToList();
+
+        return runs
+            .OrderByDescending(r => r.Year)
+            .ThenByDescending(r => r.Month)
+            .Select(run =>
+            {
+                var dto = _mapper.Map<PayRunDto>(run);
+                dto.EmployeeCount = payslips.Count(p => p.PayRunId == run.Id);
+                return dto;
+            })
+            .ToList();
+    }
+
+    public async Task<PayRunDto?> GetPayRunByIdAsync(int id)
+    {
+        var run = await GetOwnedPayRunAsync(id);
+        if (run == null) return null;
+
+        var payslips = await _payslipRepository.FindAsync(p => p.PayRunId == id && !p.IsDeleted);
+        return ToPayRunDto(run, payslips);
+    }
+
+    public async Task<PayRunDto> CreatePayRunAsync(CreatePayRunDto createPayRunDto)
+    {
+        var settings = await GetOrDefaultSettingsAsync();
+        var periodStart = new DateTime(createPayRunDto.Year, createPayRunDto.Month, 1);
+        var periodEnd = periodStart.AddMonths(1).AddDays(-1);
+
+        var run = new PayRun
+        {
+            TenantId = _tenantProvider.TenantId,
+            Year = createPayRunDto.Year,
+            Month = createPayRunDto.Month,
+            PeriodStart = periodStart,
+            PeriodEnd = periodEnd,
+            // Paid in arrears on the configured day of the following month
+            PayDate = periodStart.AddMonths(1).AddDays(settings.PayDay - 1),
+            Currency = settings.Currency,
+            Status = DraftStatus
+        };
+
+        var batches = await GetPeriodBatchesAsync(run);
+        var payslips = await CalculatePayslipsAsync(run, settings, batches);
+        ApplyTotals(run, payslips);
+        await _payRunRepository.AddAsync(run);
+
+        foreach (var payslip in payslips)
+        {
+            payslip.PayRunId = run.Id;
+        }
+        await _payslipRepository.AddRangeAsync(payslips);
+        await LinkBatchesAsync(run, batches);
+
+        return ToPayRunDto(run, payslips);
+    }
+
+    public async Task<PayRunDto?> RecalculatePayRunAsync(int id)
+    {
+        var run = await GetOwnedPayRunAsync(id);
+        if (run == null) return null;
+
+        if (run.Status == FinalizedStatus)
+        {
+            throw new InvalidOperationException("Finalized pay runs cannot be recalculated");
+        }
+
+        var settings = await GetOrDefaultSettingsAsync();
+        var existing = await _payslipRepository.FindAsync(p => p.PayRunId == id);
+        await _payslipRepository.DeleteRangeAsync(existing);
+
+        var batches = await GetPeriodBatchesAsync(run);
+        var payslips = await CalculatePayslipsAsync(run, settings, batches);
+        foreach (var payslip in payslips)
+        {
+            payslip.PayRunId = run.Id;
+        }
+        await _payslipRepository.AddRangeAsync(payslips);
+        await LinkBatchesAsync(run, batches);
+
+        run.Currency = settings.Currency;
+        ApplyTotals(run, payslips);
+        run.UpdatedAt = DateTime.UtcNow;
+        await _payRunRepository.UpdateAsync(run);
+
+        return ToPayRunDto(run, payslips);
+    }
+
+    public async Task<PayRunDto?> FinalizePayRunAsync(int id, string finalizedBy)
+    {
+        var run = await GetOwnedPayRunAsync(id);
+        if (run == null) return null;
+
+        if (run.Status == FinalizedStatus)
+        {
+            throw new InvalidOperationException("Pay run is already finalized");
+        }
+
+        if (await CountBatchesMissingFromRunAsync(id) > 0)
+        {
+            throw new InvalidOperationException(MissingBatchesMessage);
+        }
+
+        run.Status = FinalizedStatus;
+        run.FinalizedBy = finalizedBy;
+        run.FinalizedAt = DateTime.UtcNow;
+        run.UpdatedAt = DateTime.UtcNow;
+        await _payRunRepository.UpdateAsync(run);
+
+        await MarkReimbursementsPaidAsync(run);
+
+        var payslips = await _payslipRepository.FindAsync(p => p.PayRunId == id && !p.IsDeleted);
+        return ToPayRunDto(run, payslips);
+    }
+
+    public async Task<bool> DeletePayRunAsync(int id)
+    {
+        var run = await GetOwnedPayRunAsync(id);
+        if (run == null) return false;
+
+        if (run.Status == FinalizedStatus)
+        {
+            throw new InvalidOperationException("Finalized pay runs cannot be deleted");
+        }
+
+        var payslips = await _payslipRepository.FindAsync(p => p.PayRunId == id && !p.IsDeleted);
+        foreach (var payslip in payslips)
+        {
+            payslip.IsDeleted = true;
+            payslip.UpdatedAt = DateTime.UtcNow;
+            await _payslipRepository.UpdateAsync(payslip);
+        }
+
+        run.IsDeleted = true;
+        run.UpdatedAt = DateTime.UtcNow;
+        await _payRunRepository.UpdateAsync(run);
+        return true;
+    }
+
+    public async Task<bool> PayRunExistsAsync(int id)
+    {
+        return await _payRunRepository.ExistsAsync(r => r.Id == id && !r.IsDeleted);
+    }
+
+    public async Task<bool> PayRunExistsForPeriodAsync(int year, int month)
+    {
+        return await _payRunRepository.ExistsAsync(r => r.Year == year && r.Month == month && !r.IsDeleted);
+    }
+
+    public async Task<bool> IsPayRunFinalizedAsync(int id)
+    {
+        return await _payRunRepository.ExistsAsync(r => r.Id == id && r.Status == FinalizedStatus && !r.IsDeleted);
+    }
+
+    public async Task<int> CountBatchesMissingFromRunAsync(int id)
+    {
+        var run = await GetOwnedPayRunAsync(id);
+        if (run == null) return 0;
+
+        return (await GetPeriodBatchesAsync(run)).Count(b => b.PayRunId != run.Id);
+    }
+
+    public async Task<PayslipDto?> GetPayslipByIdAsync(int id)
+    {
+        var payslip = await _payslipRepository.GetByIdAsync(id);
+        if (payslip == null || payslip.IsDeleted) return null;
+
+        // Validate tenant ownership
+        if (payslip.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Payslip belongs to different tenant");
+        }
+
+        var run = await _payRunRepository.GetByIdAsync(payslip.PayRunId);
+        if (run == null || run.IsDeleted) return null;
+
+        return ToPayslipDto(payslip, run);
+    }
+
+    public async Task<IEnumerable<PayslipDto>> GetPayslipsByEmployeeAsync(int employeeId, bool finalizedOnly)
+    {
+        var runs = (await _payRunRepository.FindAsync(r => !r.IsDeleted && (!finalizedOnly || r.Status == FinalizedStatus)))
+            .ToDictionary(r => r.Id);
+        var payslips = await _payslipRepository.FindAsync(p => p.EmployeeId == employeeId && !p.IsDeleted);
+
+        return payslips
+            .Where(p => runs.ContainsKey(p.PayRunId))
+            .Select(p => ToPayslipDto(p, runs[p.PayRunId]))
+            .OrderByDescending(p => p.PeriodStart)
+            .ToList();
+    }
+
+    public async Task<IEnumerable<PayrollDepartmentSummaryDto>> GetDepartmentSummaryAsync(int year, int? month)
+    {
+        var runIds = (await _payRunRepository.FindAsync(r => !r.IsDeleted && r.Year == year && (month == null || r.Month == month)))
+            .Select(r => r.Id)
+            .ToHashSet();
+        var payslips = (await _payslipRepository.FindAsync(p => !p.IsDeleted))
+            .Where(p => runIds.Contains(p.PayRunId));
+
+        return payslips
+            .GroupBy(p => string.IsNullOrEmpty(p.Department) ? "Unassigned" : p.Department)
+            .Select(g => new PayrollDepartmentSummaryDto
+            {
+                Department = g.Key,
+                EmployeeCount = g.Select(p => p.EmployeeId).Distinct().Count(),
+                TotalBase = g.Sum(p => p.BaseSalary),
+                TotalOvertime = g.Sum(p => p.OvertimePay),
+                TotalUnpaidLeave = g.Sum(p => p.UnpaidLeaveDeduction),
+                TotalGross = g.Sum(p => p.GrossPay),
+                TotalTax = g.Sum(p => p.TaxDeduction),
+                TotalNet = g.Sum(p => p.NetPay)
+            })
+            .OrderBy(s => s.Department)
+            .ToList();
+    }
+
+    private async Task<List<Payslip>> CalculatePayslipsAsync(PayRun run, PayrollSettings settings, List<ReimbursementBatch> batches)
+    {
+        var periodStart = run.PeriodStart;
+        var periodEnd = run.PeriodEnd;
+
+        // Everyone employed for at least one day of the period, including leavers who have since been deactivated
+        var employees = await _employeeRepository.FindAsync(e =>
+            !e.IsDeleted &&
+            e.HireDate <= periodEnd &&
+            (e.TerminationDate == null ? e.IsActive : e.TerminationDate >= periodStart));
+
+        var attendance = (await _attendanceRepository.GetAllByDateRangeAsync(periodStart, periodEnd)).ToList();
+        var unpaidLeave = (await _leaveRequestRepository.FindAsync(l =>
+            l.Status == "Approved" &&
+            l.LeaveType == UnpaidLeaveType &&
+            l.StartDate <= periodEnd &&
+            l.EndDate >= periodStart)).ToList();
+        var reimbursements = (await GetBatchedClaimsAsync(batches))
+            .GroupBy(c => c.EmployeeId)
+            .ToDictionary(g => g.Key, g => g.Sum(c => c.TotalAmount));
+
+        return employees
+            .Select(e => CalculatePayslip(
+                e,
+                run,
+                settings,
+                attendance.Where(a => a.EmployeeId == e.Id),
+                unpaidLeave.Where(l => l.EmployeeId == e.Id),
+                reimbursements.GetValueOrDefault(e.Id)))
+            .ToList();
+    }
+
+    // Reimbursement batches for this period in the payroll currency
+    private async Task<List<ReimbursementBatch>> GetPeriodBatchesAsync(PayRun run)
+    {
+        return (await _batchRepository.FindAsync(b =>
+            !b.IsDeleted && b.PayrollYear == run.Year && b.PayrollMonth == run.Month && b.Currency == run.Currency)).ToList();
+    }
+
+    private async Task<List<ExpenseClaim>> GetBatchedClaimsAsync(List<ReimbursementBatch> batches)
+    {
+        var batchIds = batches.Select(b => b.Id).ToList();
+        if (batchIds.Count == 0) return new List<ExpenseClaim>();
+
+        return (await _claimRepository.FindAsync(c =>
+            !c.IsDeleted && c.ReimbursementBatchId != null && batchIds.Contains(c.ReimbursementBatchId.Value))).ToList();
+    }
+
+    // Records which batches the run's payslips include, so finalizing pays exactly those
+    private async Task LinkBatchesAsync(PayRun run, List<ReimbursementBatch> batches)
+    {
+        foreach (var batch in batches.Where(b => b.PayRunId != run.Id))
+        {
+            batch.PayRunId = run.Id;
+            batch.UpdatedAt = DateTime.UtcNow;
+            await _batchRepository.UpdateAsync(batch);
+        }
+    }
+
+    private async Task MarkReimbursementsPaidAsync(PayRun run)
+    {
+        var batches = (await GetPeriodBatchesAsync(run))
+            .Where(b => b.PayRunId == run.Id)
+            .ToList();
+
+        foreach (var batch in batches)
+        {
+            batch.Status = PaidBatchStatus;
+            batch.PaidAt = run.FinalizedAt;
+            batch.UpdatedAt = DateTime.UtcNow;
+            await _batchRepository.UpdateAsync(batch);
+        }
+
+        foreach (var claim in await GetBatchedClaimsAsync(batches))
+        {
+            claim.Status = ReimbursedStatus;
+            claim.ReimbursedAt = run.FinalizedAt;
+            claim.UpdatedAt = DateTime.UtcNow;
+            await _claimRepository.UpdateAsync(claim);
+        }
+    }
+
+    private Payslip CalculatePayslip(
+        Employee employee,
+        PayRun run,
+        PayrollSettings settings,
+        IEnumerable<Attendance> attendance,
+        IEnumerable<LeaveRequest> unpaidLeave,
+        decimal reimbursements)
+    {
+        var daysInPeriod = (run.PeriodEnd - run.PeriodStart).Days + 1;
+        var employedFrom = employee.HireDate.Date > run.PeriodStart ? employee.HireDate.Date : run.PeriodStart;
+        var employedTo = employee.TerminationDate?.Date < run.PeriodEnd ? employee.TerminationDate.Value.Date : run.PeriodEnd;
+        var employedDays = Math.Max(0, (employedTo - employedFrom).Days + 1);
+
+        var monthlySalary = employee.Salary / 12m;
+        var baseSalary = monthlySalary * employedDays / daysInPeriod;
+
+        var dailyRate = monthlySalary / settings.WorkingDaysPerMonth;
+        var hourlyRate = dailyRate / settings.StandardHoursPerDay;
+
+        var overtimeHours = (decimal)attendance.Sum(a => a.OvertimeHours?.TotalHours ?? 0);
+        var overtimePay = overtimeHours * hourlyRate * settings.OvertimeMultiplier;
+
+        var unpaidDays = unpaidLeave.Sum(l => CountWeekdays(
+            l.StartDate.Date > employedFrom ? l.StartDate.Date : employedFrom,
+            l.EndDate.Date < employedTo ? l.EndDate.Date : employedTo));
+        var unpaidDeduction = Math.Min(baseSalary, unpaidDays * dailyRate);
+
+        var grossPay = Math.Round(baseSalary + overtimePay - unpaidDeduction, 2);
+        var taxDeduction = Math.Round(grossPay * settings.TaxRatePercent / 100m, 2);
+
+        return new Payslip
+        {
+            TenantId = run.TenantId,
+            EmployeeId = employee.Id,
+            EmployeeName = $"{employee.FirstName} {employee.LastName}",
+            Department = employee.Department,
+            Position = employee.Position,
+            BaseSalary = Math.Round(baseSalary, 2),
+            OvertimeHours = Math.Round(overtimeHours, 2),
+            OvertimePay = Math.Round(overtimePay, 2),
+            UnpaidLeaveDays = unpaidDays,
+            UnpaidLeaveDeduction = Math.Round(unpaidDeduction, 2),
+            GrossPay = grossPay,
+            TaxDeduction = taxDeduction,
+            Reimbursements = reimbursements,
+            NetPay = grossPay - taxDeduction + reimbursements
+        };
+    }
+
+    private static int CountWeekdays(DateTime from, DateTime to)
+    {
+        var count = 0;
+        for (var day = from; day <= to; day = day.AddDays(1))
+        {
+            if (day.DayOfWeek != DayOfWeek.Saturday && day.DayOfWeek != DayOfWeek.Sunday)
+            {
+                count++;
+            }
+        }
+        return count;
+    }
+
+    private static void ApplyTotals(PayRun run, IReadOnlyCollection<Payslip> payslips)
+    {
+        run.TotalGross = payslips.Sum(p => p.GrossPay);
+        run.TotalDeductions = payslips.Sum(p => p.TaxDeduction);
+        run.TotalNet = payslips.Sum(p => p.NetPay);
+    }
+
+    private PayRunDto ToPayRunDto(PayRun run, IEnumerable<Payslip> payslips)
+    {
+        var dto = _mapper.Map<PayRunDto>(run);
+        dto.Payslips = payslips
+            .Select(p => ToPayslipDto(p, run))
+            .OrderBy(p => p.Department)
+            .ThenBy(p => p.EmployeeName)
+            .ToList();
+        dto.EmployeeCount = dto.Payslips.Count;
+        return dto;
+    }
+
+    private PayslipDto ToPayslipDto(Payslip payslip, PayRun run)
+    {
+        var dto = _mapper.Map<PayslipDto>(payslip);
+        dto.Year = run.Year;
+        dto.Month = run.Month;
+        dto.PeriodStart = run.PeriodStart;
+        dto.PeriodEnd = run.PeriodEnd;
+        dto.PayDate = run.PayDate;
+        dto.Status = run.Status;
+        dto.Currency = run.Currency;
+        return dto;
+    }
+
+    private async Task<PayrollSettings> GetOrDefaultSettingsAsync()
+    {
+        // Tenants that never saved settings get the entity defaults
+        return await _settingsRepository.FirstOrDefaultAsync(s => !s.IsDeleted)
+            ?? new PayrollSettings { TenantId = _tenantProvider.TenantId };
+    }
+
+    private async Task<PayRun?> GetOwnedPayRunAsync(int id)
+    {
+        var run = await _payRunRepository.GetByIdAsync(id);
+        if (run == null || run.IsDeleted) return null;
+
+        // Validate tenant ownership
+        if (run.TenantId != _tenantProvider.TenantId)
+        {
+            throw new UnauthorizedAccessException("Access denied: Pay run belongs to different tenant");
+        }
+
+        return run;
+    }
+}
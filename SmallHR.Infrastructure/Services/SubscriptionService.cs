@@ -288,6 +288,152 @@ public class SubscriptionService : ISubscriptionService
             .ToDictionary(pf => pf.Feature.Key, pf => pf.Value!);
     }
 
+    public async Task<int?> ResolveTenantIdAsync(string tenantIdentifier)
+    {
+        var tenant = await FindTenantAsync(tenantIdentifier);
+        return tenant?.Id;
+    }
+
+    public async Task<TenantFeaturesDto?> GetTenantFeatureSummaryAsync(string tenantIdentifier)
+    {
+        var tenant = await FindTenantAsync(tenantIdentifier);
+        if (tenant == null) return null;
+
+        var subscription = await _context.Subscriptions
+            .AsNoTracking()
+            .Include(s => s.Plan)
+                .ThenInclude(p => p.PlanFeatures)
+                    .ThenInclude(pf => pf.Feature)
+            .FirstOrDefaultAsync(s => s.TenantId == tenant.Id &&
+                                      (s.Status == SubscriptionStatus.Active || s.Status == SubscriptionStatus.Trialing));
+
+        var summary = new TenantFeaturesDto
+        {
+            PlanName = subscription?.Plan.Name ?? tenant.SubscriptionPlan
+        };
+
+        // Every defined feature is listed so the client can tell "not in your plan" from "not gated".
+        // Without an active subscription only the features' defaults apply.
+        var planValues = subscription?.Plan.PlanFeatures.ToDictionary(pf => pf.FeatureId, pf => pf.Value)
+            ?? new Dictionary<int, string?>();
+        var features = await _context.Features
+            .AsNoTracking()
+            .OrderBy(f => f.DisplayOrder)
+            .ToListAsync();
+
+        foreach (var feature in features)
+        {
+            var value = planValues.TryGetValue(feature.Id, out var planValue) && planValue != null
+                ? planValue
+                : feature.DefaultValue;
+            if (value == null && subscription == null) continue;
+
+            summary.Features.Add(new TenantFeatureDto
+            {
+                Id = feature.Id,
+                Key = feature.Key,
+                Name = feature.Name,
+                Description = feature.Description,
+                Category = feature.Category,
+                Type = feature.Type.ToString(),
+                Value = value ?? (feature.Type == FeatureType.Boolean ? "false" : null)
+            });
+        }
+
+        // Headcount limits are plan columns rather than Feature rows. Employees use the tenant's own
+        // MaxEmployees because that is what EmployeeService enforces on create.
+        var tenantKeys = GetTenantKeys(tenant);
+        var employeeCount = await _context.Employees.CountAsync(e => tenantKeys.Contains(e.TenantId) && !e.IsDeleted);
+        AddLimitFeature(summary, "max_employees", "Employees", tenant.MaxEmployees, employeeCount);
+
+        if (subscription?.Plan.MaxDepartments is int maxDepartments)
+        {
+            var departmentCount = await _context.Departments.CountAsync(d => tenantKeys.Contains(d.TenantId) && !d.IsDeleted);
+            AddLimitFeature(summary, "max_departments", "Departments", maxDepartments, departmentCount);
+        }
+
+        return summary;
+    }
+
+    public async Task<PlanChangePreviewDto?> PreviewPlanChangeAsync(int tenantId, int newPlanId)
+    {
+        var tenant = await _context.Tenants.AsNoTracking().FirstOrDefaultAsync(t => t.Id == tenantId);
+        if (tenant == null) return null;
+
+        var subscription = await _context.Subscriptions
+            .AsNoTracking()
+            .Include(s => s.Plan)
+            .FirstOrDefaultAsync(s => s.TenantId == tenantId &&
+                                      (s.Status == SubscriptionStatus.Active || s.Status == SubscriptionStatus.Trialing));
+        if (subscription == null) return null;
+
+        var newPlan = await _context.SubscriptionPlans.AsNoTracking().FirstOrDefaultAsync(p => p.Id == newPlanId);
+        if (newPlan == null) return null;
+
+        var preview = new PlanChangePreviewDto
+        {
+            CurrentPlanId = subscription.Plan.Id,
+            CurrentPlanName = subscription.Plan.Name,
+            NewPlanId = newPlan.Id,
+            NewPlanName = newPlan.Name,
+            IsUpgrade = newPlan.MonthlyPrice > subscription.Plan.MonthlyPrice,
+            BillingPeriod = subscription.BillingPeriod.ToString(),
+            CurrentPrice = subscription.Price,
+            NewPrice = GetPeriodPrice(newPlan, subscription.BillingPeriod),
+            Currency = subscription.Currency
+        };
+
+        // Periods repeat from the start date; the one containing today is the one being prorated
+        var now = DateTime.UtcNow;
+        var periodStart = subscription.StartDate;
+        var periodEnd = AddBillingPeriod(periodStart, subscription.BillingPeriod);
+        while (periodEnd <= now && subscription.BillingPeriod != BillingPeriod.Lifetime)
+        {
+            periodStart = periodEnd;
+            periodEnd = AddBillingPeriod(periodStart, subscription.BillingPeriod);
+        }
+
+        preview.PeriodStart = periodStart;
+        preview.PeriodEnd = periodEnd;
+        preview.DaysInPeriod = Math.Max((int)Math.Ceiling((periodEnd - periodStart).TotalDays), 1);
+        preview.DaysRemaining = Math.Clamp((int)Math.Ceiling((periodEnd - now).TotalDays), 0, preview.DaysInPeriod);
+
+        // Nothing has been paid during a trial and lifetime plans are not billed per period
+        if (subscription.Status != SubscriptionStatus.Trialing && subscription.BillingPeriod != BillingPeriod.Lifetime)
+        {
+            var remainingShare = (decimal)preview.DaysRemaining / preview.DaysInPeriod;
+            preview.Credit = Math.Round(preview.CurrentPrice * remainingShare, 2);
+            preview.Charge = Math.Round(preview.NewPrice * remainingShare, 2);
+            preview.AmountDue = preview.Charge - preview.Credit;
+        }
+
+        if (newPlan.Id == subscription.Plan.Id)
+            preview.Blockers.Add($"The tenant is already on the {newPlan.Name} plan");
+        if (!newPlan.IsActive)
+            preview.Blockers.Add($"The {newPlan.Name} plan is no longer offered");
+
+        var tenantKeys = GetTenantKeys(tenant);
+        var employeeCount = await _context.Employees.CountAsync(e => tenantKeys.Contains(e.TenantId) && !e.IsDeleted);
+        if (employeeCount > newPlan.MaxEmployees)
+            preview.Blockers.Add($"{employeeCount} employees exceed the {newPlan.Name} limit of {newPlan.MaxEmployees}");
+
+        if (newPlan.MaxDepartments is int maxDepartments)
+        {
+            var departmentCount = await _context.Departments.CountAsync(d => tenantKeys.Contains(d.TenantId) && !d.IsDeleted);
+            if (departmentCount > maxDepartments)
+                preview.Blockers.Add($"{departmentCount} departments exceed the {newPlan.Name} limit of {maxDepartments}");
+        }
+
+        if (newPlan.MaxUsers is int maxUsers)
+        {
+            var userCount = await _context.Users.CountAsync(u => u.TenantId != null && tenantKeys.Contains(u.TenantId));
+            if (userCount > maxUsers)
+                preview.Blockers.Add($"{userCount} users exceed the {newPlan.Name} limit of {maxUsers}");
+        }
+
+        return preview;
+    }
+
     public async Task<bool> CheckEmployeeLimitAsync(int tenantId)
     {
         var subscription = await GetSubscriptionByTenantIdAsync(tenantId);
@@ -408,6 +554,73 @@ public class SubscriptionService : ISubscriptionService
         };
     }
 
+    // TenantId on tenant-owned rows is the tenant's ID as a string, or its domain for older tenants
+    private async Task<Tenant?> FindTenantAsync(string tenantIdentifier)
+    {
+        if (string.IsNullOrWhiteSpace(tenantIdentifier)) return null;
+
+        int? tenantIdInt = int.TryParse(tenantIdentifier, out var parsedId) ? parsedId : null;
+        return await _context.Tenants
+            .AsNoTracking()
+            .FirstOrDefaultAsync(t =>
+                (tenantIdInt.HasValue && t.Id == tenantIdInt.Value) ||
+                (!string.IsNullOrEmpty(t.Domain) && t.Domain.ToLower() == tenantIdentifier.ToLower()));
+    }
+
+    // Legacy tenants key their rows by domain rather than by id
+    private static List<string> GetTenantKeys(Tenant tenant)
+    {
+        var keys = new List<string> { tenant.Id.ToString() };
+        if (!string.IsNullOrEmpty(tenant.Domain))
+        {
+            keys.Add(tenant.Domain);
+        }
+
+        return keys;
+    }
+
+    private static decimal GetPeriodPrice(SubscriptionPlan plan, BillingPeriod period)
+    {
+        return period switch
+        {
+            BillingPeriod.Monthly => plan.MonthlyPrice,
+            BillingPeriod.Quarterly => plan.QuarterlyPrice ?? plan.MonthlyPrice * 3,
+            BillingPeriod.Yearly => plan.YearlyPrice ?? plan.MonthlyPrice * 12,
+            _ => plan.MonthlyPrice
+        };
+    }
+
+    private static DateTime AddBillingPeriod(DateTime start, BillingPeriod period)
+    {
+        return period switch
+        {
+            BillingPeriod.Quarterly => start.AddMonths(3),
+            BillingPeriod.Yearly => start.AddYears(1),
+            BillingPeriod.Lifetime => DateTime.MaxValue,
+            _ => start.AddMonths(1)
+        };
+    }
+
+    private static void AddLimitFeature(TenantFeaturesDto summary, string key, string name, int limit, int used)
+    {
+        // A plan that defines the limit as a Feature row wins; it just gets the usage filled in
+        var existing = summary.Features.FirstOrDefault(f => f.Key == key);
+        if (existing != null)
+        {
+            existing.Used = used;
+            return;
+        }
+
+        summary.Features.Add(new TenantFeatureDto
+        {
+            Key = key,
+            Name = name,
+            Type = FeatureType.Limit.ToString(),
+            Value = limit.ToString(),
+            Used = used
+        });
+    }
+
     private SubscriptionPlanDto MapPlanToDto(SubscriptionPlan plan)
     {
         return new SubscriptionPlanDto
@@ -353,6 +353,9 @@ public class TenantProvisioningService : ITenantProvisioningService
             new { Path = "/organization", Name = "Organization", Description = "Organization structure management" },
             new { Path = "/departments", Name = "Departments", Description = "Department management" },
             new { Path = "/positions", Name = "Positions", Description = "Positions management" },
+            new { Path = "/organization/chart", Name = "Org Chart", Description = "Reporting lines and department structure" },
+            new { Path = "/attendance", Name = "Attendance", Description = "Attendance and timesheets" },
+            new { Path = "/leave", Name = "Leave", Description = "Leave requests and approvals" },
             new { Path = "/calendar", Name = "Calendar", Description = "Calendar and events" },
             new { Path = "/notice-board", Name = "Notice Board", Description = "Company announcements" },
             new { Path = "/expenses", Name = "Expenses", Description = "Expense tracking" },
@@ -360,6 +363,7 @@ public class TenantProvisioningService : ITenantProvisioningService
             new { Path = "/payroll/reports", Name = "Payroll Reports", Description = "Payroll reports" },
             new { Path = "/payroll/settings", Name = "Payroll Settings", Description = "Payroll settings" },
             new { Path = "/settings", Name = "Settings", Description = "User settings" },
+            new { Path = "/billing", Name = "Billing", Description = "Subscription plan and usage" },
             new { Path = "/role-permissions", Name = "Role Permissions", Description = "Manage role permissions" }
         };
 
@@ -404,16 +408,16 @@ public class TenantProvisioningService : ITenantProvisioningService
                     // HR: access to selected pages; typically view/create/edit, delete restricted
                     else if (role == "HR")
                     {
-                        if (page.Path == "/dashboard" || page.Path == "/employees" 
-                            || page.Path == "/calendar" || page.Path == "/notice-board" 
+                        if (page.Path == "/dashboard" || page.Path == "/employees" || page.Path == "/attendance" || page.Path == "/leave" || page.Path == "/organization/chart"
+                            || page.Path == "/calendar" || page.Path == "/notice-board" || page.Path == "/expenses" 
                             || page.Path == "/settings" || page.Path == "/payroll"
                             || page.Path == "/payroll/reports" || page.Path == "/payroll/settings")
                         {
                             canAccess = true;
                             canView = true;
-                            // HR can create/edit on employees, calendar, notice-board, payroll
-                            if (page.Path == "/employees" || page.Path == "/calendar" || page.Path == "/notice-board"
-                                || page.Path == "/payroll/reports" || page.Path == "/payroll/settings")
+                            // HR can create/edit on employees, calendar, notice-board, expenses, payroll
+                            if (page.Path == "/employees" || page.Path == "/attendance" || page.Path == "/leave" || page.Path == "/organization/chart" || page.Path == "/calendar" || page.Path == "/notice-board" || page.Path == "/expenses"
+                                || page.Path == "/payroll" || page.Path == "/payroll/reports" || page.Path == "/payroll/settings")
                             {
                                 canCreate = true;
                                 canEdit = true;
@@ -422,14 +426,16 @@ public class TenantProvisioningService : ITenantProvisioningService
                             canDelete = false;
                         }
                     }
-                    // Employee: limited pages; view only
+                    // Employee: limited pages; view only (payroll shows their own finalized payslips)
                     else if (role == "Employee")
                     {
-                        if (page.Path == "/dashboard" || page.Path == "/calendar" 
-                            || page.Path == "/notice-board" || page.Path == "/settings")
+                        if (page.Path == "/dashboard" || page.Path == "/attendance" || page.Path == "/leave" || page.Path == "/calendar" 
+                            || page.Path == "/notice-board" || page.Path == "/expenses" || page.Path == "/settings" || page.Path == "/payroll")
                         {
                             canAccess = true;
                             canView = true;
+                            // Employees submit their own leave requests and expense claims
+                            canCreate = page.Path == "/leave" || page.Path == "/expenses";
                         }
                     }
 
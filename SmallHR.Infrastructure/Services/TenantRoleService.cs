@@ -0,0 +1,226 @@
+using Microsoft.AspNetCore.Identity;
+using SmallHR.Core.DTOs.TenantRole;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.Infrastructure.Services;
+
+public class TenantRoleService : ITenantRoleService
+{
+    private static readonly string[] BuiltInRoles = { "SuperAdmin", "Admin", "HR", "Employee" };
+
+    private readonly UserManager<User> _userManager;
+    private readonly RoleManager<IdentityRole> _roleManager;
+    private readonly IGenericRepository<TenantRole> _roleRepository;
+    private readonly IGenericRepository<RolePermission> _permissionRepository;
+    private readonly IEmployeeRepository _employeeRepository;
+    private readonly ITenantProvider _tenantProvider;
+
+    public TenantRoleService(
+        UserManager<User> userManager,
+        RoleManager<IdentityRole> roleManager,
+        IGenericRepository<TenantRole> roleRepository,
+        IGenericRepository<RolePermission> permissionRepository,
+        IEmployeeRepository employeeRepository,
+        ITenantProvider tenantProvider)
+    {
+        _userManager = userManager;
+        _roleManager = roleManager;
+        _roleRepository = roleRepository;
+        _permissionRepository = permissionRepository;
+        _employeeRepository = employeeRepository;
+        _tenantProvider = tenantProvider;
+    }
+
+    private string TenantId => _tenantProvider.TenantId;
+
+    public async Task<IEnumerable<TenantRoleDto>> GetRolesAsync()
+    {
+        var customRoles = await _roleRepository.FindAsync(r => r.TenantId == TenantId);
+
+        var roles = BuiltInRoles
+            .Select(name => new TenantRoleDto { Name = name, IsBuiltIn = true })
+            .Concat(customRoles.OrderBy(r => r.Name).Select(r => ToDto(r)))
+            .ToList();
+
+        foreach (var role in roles)
+        {
+            role.UserCount = await CountUsersInRoleAsync(role.Name);
+        }
+
+        return roles;
+    }
+
+    public async Task<TenantRoleDto> CreateRoleAsync(CreateTenantRoleDto createRoleDto)
+    {
+        var name = createRoleDto.Name.Trim();
+        await EnsureNameAvailableAsync(name, null);
+
+        var tenantPermissions = (await _permissionRepository.FindAsync(p => p.TenantId == TenantId)).ToList();
+        List<RolePermission> template;
+        if (!string.IsNullOrWhiteSpace(createRoleDto.CloneFrom))
+        {
+            template = tenantPermissions.Where(p => p.RoleName == createRoleDto.CloneFrom).ToList();
+            if (template.Count == 0)
+            {
+                throw new InvalidOperationException($"Role '{createRoleDto.CloneFrom}' has no permissions to copy");
+            }
+        }
+        else
+        {
+            // Start from every known page with nothing granted
+            template = tenantPermissions
+                .GroupBy(p => p.PagePath)
+                .Select(g => g.First())
+                .ToList();
+        }
+
+        await EnsureIdentityRoleAsync(name);
+
+        var role = await _roleRepository.AddAsync(new TenantRole
+        {
+            TenantId = TenantId,
+            Name = name,
+            Description = createRoleDto.Description
+        });
+
+        var cloning = !string.IsNullOrWhiteSpace(createRoleDto.CloneFrom);
+        await _permissionRepository.AddRangeAsync(template.Select(p => new RolePermission
+        {
+            TenantId = TenantId,
+            RoleName = name,
+            PagePath = p.PagePath,
+            PageName = p.PageName,
+            Description = p.Description,
+            CanAccess = cloning && p.CanAccess,
+            CanView = cloning && p.CanView,
+            CanCreate = cloning && p.CanCreate,
+            CanEdit = cloning && p.CanEdit,
+            CanDelete = cloning && p.CanDelete
+        }));
+
+        return ToDto(role);
+    }
+
+    public async Task<TenantRoleDto?> UpdateRoleAsync(int id, UpdateTenantRoleDto updateRoleDto)
+    {
+        var role = await _roleRepository.FirstOrDefaultAsync(r => r.Id == id && r.TenantId == TenantId);
+        if (role == null) return null;
+
+        var newName = updateRoleDto.Name.Trim();
+        if (!string.Equals(role.Name, newName, StringComparison.Ordinal))
+        {
+            await EnsureNameAvailableAsync(newName, id);
+            await RenameAsync(role.Name, newName);
+            role.Name = newName;
+        }
+
+        role.Description = updateRoleDto.Description;
+        role.UpdatedAt = DateTime.UtcNow;
+        await _roleRepository.UpdateAsync(role);
+
+        var dto = ToDto(role);
+        dto.UserCount = await CountUsersInRoleAsync(role.Name);
+        return dto;
+    }
+
+    public async Task<bool> DeleteRoleAsync(int id)
+    {
+        var role = await _roleRepository.FirstOrDefaultAsync(r => r.Id == id && r.TenantId == TenantId);
+        if (role == null) return false;
+
+        var userCount = await CountUsersInRoleAsync(role.Name);
+        if (userCount > 0)
+        {
+            throw new InvalidOperationException($"'{role.Name}' is still assigned to {userCount} user(s). Move them to another role first.");
+        }
+
+        var permissions = await _permissionRepository.FindAsync(p => p.TenantId == TenantId && p.RoleName == role.Name);
+        await _permissionRepository.DeleteRangeAsync(permissions);
+        await _roleRepository.DeleteAsync(role);
+
+        // The Identity role itself is left in place since other tenants may use the same name
+        return true;
+    }
+
+    private async Task EnsureNameAvailableAsync(string name, int? currentRoleId)
+    {
+        if (BuiltInRoles.Contains(name, StringComparer.OrdinalIgnoreCase))
+        {
+            throw new InvalidOperationException($"'{name}' is a built-in role");
+        }
+
+        var taken = await _roleRepository.ExistsAsync(r => r.TenantId == TenantId && r.Name == name && r.Id != currentRoleId);
+        if (taken)
+        {
+            throw new InvalidOperationException($"A role named '{name}' already exists");
+        }
+    }
+
+    private async Task EnsureIdentityRoleAsync(string name)
+    {
+        if (await _roleManager.RoleExistsAsync(name)) return;
+
+        var result = await _roleManager.CreateAsync(new IdentityRole(name));
+        if (!result.Succeeded)
+        {
+            throw new InvalidOperationException($"Failed to create role {name}: {string.Join(", ", result.Errors.Select(e => e.Description))}");
+        }
+    }
+
+    private async Task RenameAsync(string oldName, string newName)
+    {
+        // Identity role names are case-insensitive, so a change of case keeps the same membership
+        if (!string.Equals(oldName, newName, StringComparison.OrdinalIgnoreCase))
+        {
+            await EnsureIdentityRoleAsync(newName);
+
+            foreach (var user in await GetTenantUsersInRoleAsync(oldName))
+            {
+                var removed = await _userManager.RemoveFromRoleAsync(user, oldName);
+                var added = removed.Succeeded ? await _userManager.AddToRoleAsync(user, newName) : removed;
+                if (!added.Succeeded)
+                {
+                    throw new InvalidOperationException($"Failed to move {user.Email} to role {newName}: {string.Join(", ", added.Errors.Select(e => e.Description))}");
+                }
+            }
+        }
+
+        foreach (var permission in await _permissionRepository.FindAsync(p => p.TenantId == TenantId && p.RoleName == oldName))
+        {
+            permission.RoleName = newName;
+            permission.UpdatedAt = DateTime.UtcNow;
+            await _permissionRepository.UpdateAsync(permission);
+        }
+
+        foreach (var employee in await _employeeRepository.FindAsync(e => e.TenantId == TenantId && e.Role == oldName))
+        {
+            employee.Role = newName;
+            employee.UpdatedAt = DateTime.UtcNow;
+            await _employeeRepository.UpdateAsync(employee);
+        }
+    }
+
+    private async Task<List<User>> GetTenantUsersInRoleAsync(string roleName)
+    {
+        if (!await _roleManager.RoleExistsAsync(roleName)) return new List<User>();
+
+        var users = await _userManager.GetUsersInRoleAsync(roleName);
+        return users.Where(u => u.TenantId == TenantId).ToList();
+    }
+
+    private async Task<int> CountUsersInRoleAsync(string roleName)
+    {
+        return (await GetTenantUsersInRoleAsync(roleName)).Count;
+    }
+
+    private static TenantRoleDto ToDto(TenantRole role)
+    {
+        return new TenantRoleDto
+        {
+            Id = role.Id,
+            Name = role.Name,
+            Description = role.Description
+        };
+    }
+}
@@ -0,0 +1,211 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using SmallHR.Core.DTOs;
+using SmallHR.Core.DTOs.LiveEvents;
+using SmallHR.Core.DTOs.Notification;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Data;
+
+namespace SmallHR.Infrastructure.Services;
+
+/// <summary>
+/// Stores inbox notifications and pushes them to the recipient's open sessions
+/// </summary>
+public class UserNotificationService : IUserNotificationService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly ILiveEventHub _liveEventHub;
+    private readonly ILogger<UserNotificationService> _logger;
+
+    public UserNotificationService(
+        ApplicationDbContext context,
+        ILiveEventHub liveEventHub,
+        ILogger<UserNotificationService> logger)
+    {
+        _context = context;
+        _liveEventHub = liveEventHub;
+        _logger = logger;
+    }
+
+    public async Task<UserNotificationDto?> NotifyUserAsync(string userId, CreateUserNotificationDto notification)
+    {
+        var recipient = await _context.Users
+            .Where(u => u.Id == userId)
+            .Select(u => new { u.Id, u.TenantId, u.MutedNotificationCategories })
+            .FirstOrDefaultAsync();
+
+        if (recipient == null)
+        {
+            _logger.LogWarning("Skipped notification {Title}: user {UserId} not found", notification.Title, userId);
+            return null;
+        }
+
+        if (NotificationCategories.Parse(recipient.MutedNotificationCategories).Contains(notification.Category))
+        {
+            return null;
+        }
+
+        var entity = ToEntity(recipient.Id, recipient.TenantId, notification);
+        _context.UserNotifications.Add(entity);
+        await _context.SaveChangesAsync();
+
+        var dto = ToDto(entity);
+        _liveEventHub.PublishToUser(userId, LiveEventTypes.NotificationCreated, dto);
+        return dto;
+    }
+
+    public async Task<int> NotifyTenantRoleAsync(int tenantId, string role, CreateUserNotificationDto notification)
+    {
+        // Users carry the tenant as either its id or its domain
+        var tenant = await _context.Tenants
+            .IgnoreQueryFilters()
+            .Where(t => t.Id == tenantId)
+            .Select(t => new { t.Id, t.Domain })
+            .FirstOrDefaultAsync();
+
+        if (tenant == null)
+        {
+            return 0;
+        }
+
+        var tenantKeys = new[] { tenant.Id.ToString(), tenant.Domain };
+        var recipients = await (
+            from user in _context.Users
+            join userRole in _context.UserRoles on user.Id equals userRole.UserId
+            join identityRole in _context.Roles on userRole.RoleId equals identityRole.Id
+            where identityRole.Name == role && user.IsActive && tenantKeys.Contains(user.TenantId)
+            select new { user.Id, user.TenantId, user.MutedNotificationCategories })
+            .Distinct()
+            .ToListAsync();
+
+        var entities = recipients
+            .Where(r => !NotificationCategories.Parse(r.MutedNotificationCategories).Contains(notification.Category))
+            .Select(r => ToEntity(r.Id, r.TenantId, notification))
+            .ToList();
+
+        if (entities.Count == 0)
+        {
+            return 0;
+        }
+
+        _context.UserNotifications.AddRange(entities);
+        await _context.SaveChangesAsync();
+
+        foreach (var entity in entities)
+        {
+            _liveEventHub.PublishToUser(entity.UserId, LiveEventTypes.NotificationCreated, ToDto(entity));
+        }
+
+        _logger.LogInformation("Sent {Category} notification to {Count} {Role} user(s) of tenant {TenantId}",
+            notification.Category, entities.Count, role, tenantId);
+
+        return entities.Count;
+    }
+
+    public async Task<PagedResponse<UserNotificationDto>> GetNotificationsAsync(string userId, bool unreadOnly, int pageNumber, int pageSize)
+    {
+        var query = _context.UserNotifications.Where(n => n.UserId == userId);
+        if (unreadOnly)
+        {
+            query = query.Where(n => n.ReadAt == null);
+        }
+
+        var totalCount = await query.CountAsync();
+        var notifications = await query
+            .OrderByDescending(n => n.CreatedAt)
+            .Skip((pageNumber - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync();
+
+        return new PagedResponse<UserNotificationDto>
+        {
+            Data = notifications.Select(ToDto).ToList(),
+            PageNumber = pageNumber,
+            PageSize = pageSize,
+            TotalCount = totalCount
+        };
+    }
+
+    public async Task<int> GetUnreadCountAsync(string userId)
+    {
+        return await _context.UserNotifications.CountAsync(n => n.UserId == userId && n.ReadAt == null);
+    }
+
+    public async Task<bool> MarkAsReadAsync(string userId, int id)
+    {
+        var notification = await _context.UserNotifications.FirstOrDefaultAsync(n => n.Id == id && n.UserId == userId);
+        if (notification == null)
+        {
+            return false;
+        }
+
+        if (notification.ReadAt == null)
+        {
+            notification.ReadAt = DateTime.UtcNow;
+            notification.UpdatedAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+        }
+
+        return true;
+    }
+
+    public async Task<int> MarkAllAsReadAsync(string userId)
+    {
+        var unread = await _context.UserNotifications
+            .Where(n => n.UserId == userId && n.ReadAt == null)
+            .ToListAsync();
+
+        var now = DateTime.UtcNow;
+        foreach (var notification in unread)
+        {
+            notification.ReadAt = now;
+            notification.UpdatedAt = now;
+        }
+
+        await _context.SaveChangesAsync();
+        return unread.Count;
+    }
+
+    public async Task<bool> DeleteNotificationAsync(string userId, int id)
+    {
+        var notification = await _context.UserNotifications.FirstOrDefaultAsync(n => n.Id == id && n.UserId == userId);
+        if (notification == null)
+        {
+            return false;
+        }
+
+        notification.IsDeleted = true;
+        notification.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    private static UserNotification ToEntity(string userId, string? tenantId, CreateUserNotificationDto notification)
+    {
+        return new UserNotification
+        {
+            UserId = userId,
+            TenantId = tenantId,
+            Category = notification.Category,
+            Title = notification.Title,
+            Message = notification.Message,
+            Link = notification.Link
+        };
+    }
+
+    private static UserNotificationDto ToDto(UserNotification notification)
+    {
+        return new UserNotificationDto
+        {
+            Id = notification.Id,
+            Category = notification.Category,
+            Title = notification.Title,
+            Message = notification.Message,
+            Link = notification.Link,
+            IsRead = notification.ReadAt != null,
+            CreatedAt = notification.CreatedAt,
+            ReadAt = notification.ReadAt
+        };
+    }
+}
@@ -1,3 +1,5 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Logging;
 using Moq;
@@ -167,4 +169,79 @@ public class EmployeesControllerTests
         // Assert
         Assert.IsType<NotFoundResult>(result);
     }
+
+    [Fact]
+    public async Task GetMyEmployee_WithSignedInUser_ShouldReturnLinkedEmployee()
+    {
+        // Arrange
+        var employee = new EmployeeDto { Id = 7, EmployeeId = "EMP007", FirstName = "Jane", LastName = "Doe", UserId = "user-7" };
+        _mockService.Setup(s => s.GetEmployeeByUserIdAsync("user-7", "jane@example.com")).ReturnsAsync(employee);
+        _controller.ControllerContext = new ControllerContext
+        {
+            HttpContext = new DefaultHttpContext
+            {
+                User = new ClaimsPrincipal(new ClaimsIdentity(new[]
+                {
+                    new Claim(ClaimTypes.NameIdentifier, "user-7"),
+                    new Claim(ClaimTypes.Email, "jane@example.com")
+                }, "Test"))
+            }
+        };
+
+        // Act
+        var result = await _controller.GetMyEmployee();
+
+        // Assert
+        var okResult = Assert.IsType<ActionResult<EmployeeDto>>(result);
+        var actionResult = Assert.IsType<OkObjectResult>(okResult.Result);
+        var returnedEmployee = Assert.IsType<EmployeeDto>(actionResult.Value);
+        Assert.Equal(7, returnedEmployee.Id);
+    }
+
+    [Fact]
+    public async Task GetMyEmployee_WithoutUserClaim_ShouldReturnUnauthorized()
+    {
+        // Arrange
+        _controller.ControllerContext = new ControllerContext
+        {
+            HttpContext = new DefaultHttpContext()
+        };
+
+        // Act
+        var result = await _controller.GetMyEmployee();
+
+        // Assert
+        var actionResult = Assert.IsType<ActionResult<EmployeeDto>>(result);
+        Assert.IsType<UnauthorizedResult>(actionResult.Result);
+        _mockService.Verify(s => s.GetEmployeeByUserIdAsync(It.IsAny<string>(), It.IsAny<string?>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task UpdateMyProfile_WithSignedInUser_ShouldUpdateOnlyOwnRecord()
+    {
+        // Arrange
+        var profile = new UpdateMyProfileDto { Address = "1 Main St", EmergencyContactName = "John Doe" };
+        var employee = new EmployeeDto { Id = 7, EmployeeId = "EMP007", Address = "1 Main St", EmergencyContactName = "John Doe", UserId = "user-7" };
+        _mockService.Setup(s => s.UpdateMyProfileAsync("user-7", null, profile)).ReturnsAsync(employee);
+        _controller.ControllerContext = new ControllerContext
+        {
+            HttpContext = new DefaultHttpContext
+            {
+                User = new ClaimsPrincipal(new ClaimsIdentity(new[]
+                {
+                    new Claim(ClaimTypes.NameIdentifier, "user-7")
+                }, "Test"))
+            }
+        };
+
+        // Act
+        var result = await _controller.UpdateMyProfile(profile);
+
+        // Assert
+        var okResult = Assert.IsType<ActionResult<EmployeeDto>>(result);
+        var actionResult = Assert.IsType<OkObjectResult>(okResult.Result);
+        var returnedEmployee = Assert.IsType<EmployeeDto>(actionResult.Value);
+        Assert.Equal("1 Main St", returnedEmployee.Address);
+        _mockService.Verify(s => s.UpdateEmployeeAsync(It.IsAny<int>(), It.IsAny<UpdateEmployeeDto>()), Times.Never);
+    }
 }
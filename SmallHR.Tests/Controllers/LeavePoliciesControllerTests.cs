@@ -0,0 +1,55 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+using Moq;
+using SmallHR.API.Controllers;
+using SmallHR.Core.DTOs.LeavePolicy;
+using SmallHR.Core.Interfaces;
+
+namespace SmallHR.Tests.Controllers;
+
+public class LeavePoliciesControllerTests
+{
+    private readonly Mock<ILeavePolicyService> _mockService;
+    private readonly Mock<ILogger<LeavePoliciesController>> _mockLogger;
+    private readonly LeavePoliciesController _controller;
+
+    public LeavePoliciesControllerTests()
+    {
+        _mockService = new Mock<ILeavePolicyService>();
+        _mockLogger = new Mock<ILogger<LeavePoliciesController>>();
+        _controller = new LeavePoliciesController(_mockService.Object, _mockLogger.Object);
+    }
+
+    [Fact]
+    public async Task CreateLeavePolicy_WithNewLeaveType_ShouldReturnCreated()
+    {
+        // Arrange
+        var createDto = new CreateLeavePolicyDto { LeaveType = "Annual", AnnualEntitlement = 20, AccrualPerMonth = 1.67m };
+        var createdPolicy = new LeavePolicyDto { Id = 1, LeaveType = "Annual", AnnualEntitlement = 20, AccrualPerMonth = 1.67m, IsActive = true };
+        _mockService.Setup(s => s.LeaveTypeExistsAsync("Annual")).ReturnsAsync(false);
+        _mockService.Setup(s => s.CreateLeavePolicyAsync(createDto)).ReturnsAsync(createdPolicy);
+
+        // Act
+        var result = await _controller.CreateLeavePolicy(createDto);
+
+        // Assert
+        var createdResult = Assert.IsType<CreatedAtActionResult>(result.Result);
+        var returnedPolicy = Assert.IsType<LeavePolicyDto>(createdResult.Value);
+        Assert.Equal("Annual", returnedPolicy.LeaveType);
+    }
+
+    [Fact]
+    public async Task CreateLeavePolicy_WithExistingLeaveType_ShouldReturnBadRequest()
+    {
+        // Arrange
+        var createDto = new CreateLeavePolicyDto { LeaveType = "Sick", AnnualEntitlement = 10 };
+        _mockService.Setup(s => s.LeaveTypeExistsAsync("Sick")).ReturnsAsync(true);
+
+        // Act
+        var result = await _controller.CreateLeavePolicy(createDto);
+
+        // Assert
+        Assert.IsType<BadRequestObjectResult>(result.Result);
+        _mockService.Verify(s => s.CreateLeavePolicyAsync(It.IsAny<CreateLeavePolicyDto>()), Times.Never);
+    }
+}
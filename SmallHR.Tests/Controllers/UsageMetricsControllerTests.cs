@@ -1,3 +1,5 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Logging;
 using Moq;
@@ -10,14 +12,39 @@ namespace SmallHR.Tests.Controllers;
 public class UsageMetricsControllerTests
 {
     private readonly Mock<IUsageMetricsService> _mockService;
+    private readonly Mock<ISubscriptionService> _mockSubscriptionService;
+    private readonly Mock<ITenantProvider> _mockTenantProvider;
     private readonly Mock<ILogger<UsageMetricsController>> _mockLogger;
     private readonly UsageMetricsController _controller;
 
     public UsageMetricsControllerTests()
     {
         _mockService = new Mock<IUsageMetricsService>();
+        _mockSubscriptionService = new Mock<ISubscriptionService>();
+        _mockTenantProvider = new Mock<ITenantProvider>();
+        _mockTenantProvider.Setup(t => t.TenantId).Returns("1");
         _mockLogger = new Mock<ILogger<UsageMetricsController>>();
-        _controller = new UsageMetricsController(_mockService.Object, _mockLogger.Object);
+        _controller = new UsageMetricsController(
+            _mockService.Object,
+            _mockSubscriptionService.Object,
+            _mockTenantProvider.Object,
+            _mockLogger.Object);
+        SetRole("SuperAdmin");
+    }
+
+    private void SetRole(string role)
+    {
+        _controller.ControllerContext = new ControllerContext
+        {
+            HttpContext = new DefaultHttpContext
+            {
+                User = new ClaimsPrincipal(new ClaimsIdentity(new[]
+                {
+                    new Claim(ClaimTypes.NameIdentifier, "user-1"),
+                    new Claim(ClaimTypes.Role, role)
+                }, "Test"))
+            }
+        };
     }
 
     [Fact]
@@ -40,6 +67,52 @@ public class UsageMetricsControllerTests
         var payload = Assert.IsType<UsageSummaryDto>(ok.Value);
         Assert.Equal(1, payload.TenantId);
     }
-}
 
+    [Fact]
+    public async Task GetUsageSummary_ShouldUseOwnTenant_ForTenantAdmin()
+    {
+        SetRole("Admin");
+        _mockSubscriptionService.Setup(s => s.ResolveTenantIdAsync("1")).ReturnsAsync(1);
+        _mockService.Setup(s => s.GetUsageSummaryAsync(1)).ReturnsAsync(new UsageSummaryDto { TenantId = 1, TenantName = "Acme" });
+
+        var result = await _controller.GetUsageSummary(null);
+        var action = Assert.IsType<ActionResult<UsageSummaryDto>>(result);
+        var ok = Assert.IsType<OkObjectResult>(action.Result);
+        Assert.Equal(1, Assert.IsType<UsageSummaryDto>(ok.Value).TenantId);
+    }
+
+    [Fact]
+    public async Task GetUsageSummary_ShouldForbid_WhenTenantAdminAsksForAnotherTenant()
+    {
+        SetRole("Admin");
+        _mockSubscriptionService.Setup(s => s.ResolveTenantIdAsync("1")).ReturnsAsync(1);
+
+        var result = await _controller.GetUsageSummary(2);
+        var action = Assert.IsType<ActionResult<UsageSummaryDto>>(result);
+        Assert.IsType<ForbidResult>(action.Result);
+        _mockService.Verify(s => s.GetUsageSummaryAsync(It.IsAny<int>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task GetUsageHistory_ShouldReturnBadRequest_WhenGranularityInvalid()
+    {
+        var result = await _controller.GetUsageHistory(granularity: "hourly");
+        var action = Assert.IsType<ActionResult<UsageHistoryDto>>(result);
+        Assert.IsType<BadRequestObjectResult>(action.Result);
+    }
+
+    [Fact]
+    public async Task GetUsageHistory_ShouldReturnHistory_WhenRangeValid()
+    {
+        var start = new DateTime(2025, 1, 1, 0, 0, 0, DateTimeKind.Utc);
+        var end = start.AddDays(7);
+        var dto = new UsageHistoryDto { StartDate = start, EndDate = end, Granularity = "daily" };
+        _mockService.Setup(s => s.GetUsageHistoryAsync(null, start, end, "daily")).ReturnsAsync(dto);
 
+        var result = await _controller.GetUsageHistory(start, end, "Daily");
+        var action = Assert.IsType<ActionResult<UsageHistoryDto>>(result);
+        var ok = Assert.IsType<OkObjectResult>(action.Result);
+        var payload = Assert.IsType<UsageHistoryDto>(ok.Value);
+        Assert.Equal("daily", payload.Granularity);
+    }
+}
@@ -0,0 +1,57 @@
+using Microsoft.Extensions.Logging;
+using Moq;
+using SmallHR.Core.DTOs.LiveEvents;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Infrastructure;
+
+public class LiveEventHubTests
+{
+    private readonly LiveEventHub _hub = new(Mock.Of<ILogger<LiveEventHub>>());
+
+    [Fact]
+    public void PublishToTenant_ShouldOnlyReachSessionsOfThatTenant()
+    {
+        // Arrange
+        using var acme = _hub.Subscribe("user-1", "1", new[] { "Admin" });
+        using var globex = _hub.Subscribe("user-2", "2", new[] { "Admin" });
+
+        // Act
+        _hub.PublishToTenant("1", LiveEventTypes.PermissionsChanged);
+
+        // Assert
+        Assert.True(acme.Reader.TryRead(out var received));
+        Assert.Equal(LiveEventTypes.PermissionsChanged, received!.Type);
+        Assert.False(globex.Reader.TryRead(out _));
+    }
+
+    [Fact]
+    public void PublishToRole_ShouldMatchRolesCaseInsensitively()
+    {
+        // Arrange
+        using var superAdmin = _hub.Subscribe("user-1", null, new[] { "SuperAdmin" });
+        using var employee = _hub.Subscribe("user-2", "1", new[] { "Employee" });
+
+        // Act
+        _hub.PublishToRole("superadmin", LiveEventTypes.AlertCreated, new { id = 7 });
+
+        // Assert
+        Assert.True(superAdmin.Reader.TryRead(out _));
+        Assert.False(employee.Reader.TryRead(out _));
+    }
+
+    [Fact]
+    public void Dispose_ShouldStopDeliveringToTheSession()
+    {
+        // Arrange
+        var subscription = _hub.Subscribe("user-1", "1", new[] { "Admin" });
+        subscription.Dispose();
+
+        // Act
+        _hub.PublishToUser("user-1", LiveEventTypes.ImpersonationEnded);
+
+        // Assert
+        Assert.False(subscription.Reader.TryRead(out _));
+        Assert.True(subscription.Reader.Completion.IsCompleted);
+    }
+}
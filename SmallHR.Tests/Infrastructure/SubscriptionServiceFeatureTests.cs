@@ -0,0 +1,140 @@
+using AutoMapper;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Data;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Infrastructure;
+
+public class SubscriptionServiceFeatureTests
+{
+    private readonly ApplicationDbContext _context;
+    private readonly SubscriptionService _service;
+
+    public SubscriptionServiceFeatureTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(databaseName: Guid.NewGuid().ToString())
+            .Options;
+
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("1");
+
+        _context = new ApplicationDbContext(options, mockTenantProvider.Object);
+        _service = new SubscriptionService(
+            _context,
+            Mock.Of<IMapper>(),
+            Mock.Of<ILogger<SubscriptionService>>());
+    }
+
+    [Fact]
+    public async Task GetTenantFeatureSummaryAsync_ShouldReportPlanFeaturesAndEmployeeUsage()
+    {
+        // Arrange
+        _context.Tenants.Add(new Tenant { Id = 1, Name = "Acme Corp", MaxEmployees = 25 });
+        var payroll = new Feature { Id = 1, Key = "payroll", Name = "Payroll", Type = FeatureType.Boolean };
+        var analytics = new Feature { Id = 2, Key = "advanced_analytics", Name = "Advanced Analytics", Type = FeatureType.Boolean };
+        _context.Features.AddRange(payroll, analytics);
+        var plan = new SubscriptionPlan { Id = 1, Name = "Basic", MaxEmployees = 25 };
+        plan.PlanFeatures.Add(new SubscriptionPlanFeature { FeatureId = 1, Feature = payroll, Value = "true" });
+        _context.SubscriptionPlans.Add(plan);
+        _context.Subscriptions.Add(new Subscription
+        {
+            TenantId = 1,
+            SubscriptionPlanId = 1,
+            Plan = plan,
+            Status = SubscriptionStatus.Active,
+            StartDate = DateTime.UtcNow.AddMonths(-1)
+        });
+        _context.Employees.AddRange(
+            new Employee { TenantId = "1", EmployeeId = "E1", FirstName = "A", LastName = "One", Email = "a@test.com" },
+            new Employee { TenantId = "1", EmployeeId = "E2", FirstName = "B", LastName = "Two", Email = "b@test.com" });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetTenantFeatureSummaryAsync("1");
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal("Basic", result.PlanName);
+        Assert.Equal("true", result.Features.Single(f => f.Key == "payroll").Value);
+        Assert.Equal("false", result.Features.Single(f => f.Key == "advanced_analytics").Value);
+        var employees = result.Features.Single(f => f.Key == "max_employees");
+        Assert.Equal("Limit", employees.Type);
+        Assert.Equal("25", employees.Value);
+        Assert.Equal(2, employees.Used);
+    }
+
+    [Fact]
+    public async Task GetTenantFeatureSummaryAsync_ShouldCountEmployeesByTenantIdWhenLookedUpByDomain()
+    {
+        // Arrange
+        _context.Tenants.Add(new Tenant { Id = 1, Name = "Acme Corp", Domain = "acme.com", MaxEmployees = 25 });
+        _context.Employees.AddRange(
+            new Employee { TenantId = "1", EmployeeId = "E1", FirstName = "A", LastName = "One", Email = "a@test.com" },
+            new Employee { TenantId = "1", EmployeeId = "E2", FirstName = "B", LastName = "Two", Email = "b@test.com" });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetTenantFeatureSummaryAsync("acme.com");
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(2, result.Features.Single(f => f.Key == "max_employees").Used);
+    }
+
+    [Fact]
+    public async Task GetTenantFeatureSummaryAsync_ShouldReturnNullForUnknownTenant()
+    {
+        // Act
+        var result = await _service.GetTenantFeatureSummaryAsync("missing");
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task PreviewPlanChangeAsync_ShouldProrateAndBlockPlansTooSmallForHeadcount()
+    {
+        // Arrange
+        _context.Tenants.Add(new Tenant { Id = 1, Name = "Acme Corp", MaxEmployees = 50 });
+        var basic = new SubscriptionPlan { Id = 1, Name = "Basic", MonthlyPrice = 30m, MaxEmployees = 50, IsActive = true };
+        var free = new SubscriptionPlan { Id = 2, Name = "Free", MonthlyPrice = 0m, MaxEmployees = 1, IsActive = true };
+        var pro = new SubscriptionPlan { Id = 3, Name = "Pro", MonthlyPrice = 90m, MaxEmployees = 200, IsActive = true };
+        _context.SubscriptionPlans.AddRange(basic, free, pro);
+        _context.Subscriptions.Add(new Subscription
+        {
+            TenantId = 1,
+            SubscriptionPlanId = 1,
+            Plan = basic,
+            Status = SubscriptionStatus.Active,
+            BillingPeriod = BillingPeriod.Monthly,
+            Price = 30m,
+            StartDate = DateTime.UtcNow.AddDays(-10)
+        });
+        _context.Employees.AddRange(
+            new Employee { TenantId = "1", EmployeeId = "E1", FirstName = "A", LastName = "One", Email = "a@test.com" },
+            new Employee { TenantId = "1", EmployeeId = "E2", FirstName = "B", LastName = "Two", Email = "b@test.com" });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var upgrade = await _service.PreviewPlanChangeAsync(1, 3);
+        var downgrade = await _service.PreviewPlanChangeAsync(1, 2);
+
+        // Assert
+        Assert.NotNull(upgrade);
+        Assert.True(upgrade.IsUpgrade);
+        Assert.Empty(upgrade.Blockers);
+        Assert.InRange(upgrade.DaysRemaining, 1, upgrade.DaysInPeriod);
+        Assert.True(upgrade.Charge > upgrade.Credit);
+        Assert.Equal(upgrade.Charge - upgrade.Credit, upgrade.AmountDue);
+
+        Assert.NotNull(downgrade);
+        Assert.False(downgrade.IsUpgrade);
+        Assert.Contains(downgrade.Blockers, b => b.Contains("2 employees"));
+        Assert.True(downgrade.AmountDue < 0);
+    }
+}
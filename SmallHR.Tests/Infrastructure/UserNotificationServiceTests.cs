@@ -0,0 +1,75 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using SmallHR.Core.DTOs.LiveEvents;
+using SmallHR.Core.DTOs.Notification;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Data;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Infrastructure;
+
+public class UserNotificationServiceTests
+{
+    private readonly ApplicationDbContext _context;
+    private readonly Mock<ILiveEventHub> _mockLiveEventHub;
+    private readonly UserNotificationService _service;
+
+    public UserNotificationServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseInMemoryDatabase(databaseName: Guid.NewGuid().ToString())
+            .Options;
+
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("1");
+
+        _context = new ApplicationDbContext(options, mockTenantProvider.Object);
+        _mockLiveEventHub = new Mock<ILiveEventHub>();
+        _service = new UserNotificationService(
+            _context,
+            _mockLiveEventHub.Object,
+            Mock.Of<ILogger<UserNotificationService>>());
+    }
+
+    [Fact]
+    public async Task NotifyUserAsync_ShouldStoreAndPushUnlessCategoryIsMuted()
+    {
+        // Arrange
+        _context.Users.Add(new User { Id = "user-1", UserName = "ann@acme.test", FirstName = "Ann", LastName = "Lee", TenantId = "1", MutedNotificationCategories = "billing" });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var leave = await _service.NotifyUserAsync("user-1", new CreateUserNotificationDto { Category = NotificationCategories.Leave, Title = "Your leave was approved", Link = "/leave" });
+        var billing = await _service.NotifyUserAsync("user-1", new CreateUserNotificationDto { Category = NotificationCategories.Billing, Title = "Payment failed" });
+
+        // Assert
+        Assert.NotNull(leave);
+        Assert.Null(billing);
+        Assert.Equal(1, await _service.GetUnreadCountAsync("user-1"));
+        _mockLiveEventHub.Verify(h => h.PublishToUser("user-1", LiveEventTypes.NotificationCreated, It.IsAny<object?>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task MarkAsReadAsync_ShouldOnlyTouchTheOwnersNotifications()
+    {
+        // Arrange
+        _context.UserNotifications.AddRange(
+            new UserNotification { Id = 1, UserId = "user-1", Category = NotificationCategories.General, Title = "First" },
+            new UserNotification { Id = 2, UserId = "user-1", Category = NotificationCategories.General, Title = "Second" },
+            new UserNotification { Id = 3, UserId = "user-2", Category = NotificationCategories.General, Title = "Someone else's" });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var ownRead = await _service.MarkAsReadAsync("user-1", 1);
+        var otherRead = await _service.MarkAsReadAsync("user-1", 3);
+        var unread = await _service.GetNotificationsAsync("user-1", unreadOnly: true, pageNumber: 1, pageSize: 20);
+
+        // Assert
+        Assert.True(ownRead);
+        Assert.False(otherRead);
+        Assert.Equal(1, await _service.GetUnreadCountAsync("user-2"));
+        Assert.Equal("Second", Assert.Single(unread.Data).Title);
+    }
+}
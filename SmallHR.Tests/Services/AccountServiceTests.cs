@@ -0,0 +1,68 @@
+using AutoMapper;
+using Microsoft.AspNetCore.Identity;
+using Moq;
+using SmallHR.Core.DTOs.Auth;
+using SmallHR.Core.Entities;
+using SmallHR.Infrastructure.Mapping;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Services;
+
+public class AccountServiceTests
+{
+    private readonly Mock<UserManager<User>> _mockUserManager;
+    private readonly AccountService _service;
+    private readonly User _user;
+
+    public AccountServiceTests()
+    {
+        _mockUserManager = new Mock<UserManager<User>>(
+            Mock.Of<IUserStore<User>>(), null!, null!, null!, null!, null!, null!, null!, null!);
+
+        _user = new User { Id = "user-1", Email = "jane@test.com", FirstName = "Jane", LastName = "Doe" };
+        _mockUserManager.Setup(m => m.FindByIdAsync("user-1")).ReturnsAsync(_user);
+        _mockUserManager.Setup(m => m.UpdateAsync(It.IsAny<User>())).ReturnsAsync(IdentityResult.Success);
+
+        var config = new MapperConfiguration(cfg => cfg.AddProfile<MappingProfile>());
+        _service = new AccountService(_mockUserManager.Object, config.CreateMapper());
+    }
+
+    [Fact]
+    public async Task UpdatePreferencesAsync_ShouldSaveChoicesAndTreatDashboardAsDefault()
+    {
+        // Arrange
+        var update = new UpdateUserPreferencesDto
+        {
+            ThemeMode = "dark",
+            Palette = "slate",
+            DateFormat = "YYYY-MM-DD",
+            TimeFormat = "12h",
+            LandingPage = "/dashboard"
+        };
+
+        // Act
+        var result = await _service.UpdatePreferencesAsync("user-1", update);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal("dark", result!.ThemeMode);
+        Assert.Equal("slate", _user.Palette);
+        Assert.Equal("YYYY-MM-DD", _user.DateFormat);
+        Assert.Equal("12h", _user.TimeFormat);
+        Assert.Null(_user.LandingPage);
+        _mockUserManager.Verify(m => m.UpdateAsync(_user), Times.Once);
+    }
+
+    [Fact]
+    public async Task ChangePasswordAsync_ShouldRejectWrongCurrentPassword()
+    {
+        // Arrange
+        _mockUserManager.Setup(m => m.CheckPasswordAsync(_user, "wrong-password")).ReturnsAsync(false);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(() => _service.ChangePasswordAsync(
+            "user-1",
+            new ChangePasswordDto { CurrentPassword = "wrong-password", NewPassword = "N3w-Passw0rd-123" }));
+        _mockUserManager.Verify(m => m.ChangePasswordAsync(It.IsAny<User>(), It.IsAny<string>(), It.IsAny<string>()), Times.Never);
+    }
+}
@@ -0,0 +1,60 @@
+using AutoMapper;
+using Moq;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Mapping;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Services;
+
+public class AttendanceServiceTests
+{
+    private readonly Mock<IAttendanceRepository> _mockAttendanceRepository;
+    private readonly AttendanceService _service;
+
+    public AttendanceServiceTests()
+    {
+        _mockAttendanceRepository = new Mock<IAttendanceRepository>();
+        var mockEmployeeRepository = new Mock<IEmployeeRepository>();
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("default");
+
+        var config = new MapperConfiguration(cfg => cfg.AddProfile<MappingProfile>());
+
+        _service = new AttendanceService(
+            _mockAttendanceRepository.Object,
+            mockEmployeeRepository.Object,
+            config.CreateMapper(),
+            mockTenantProvider.Object);
+    }
+
+    [Fact]
+    public async Task GetDailySummaryAsync_ShouldAggregatePerDayAndFillMissingDays()
+    {
+        // Arrange
+        var start = new DateTime(2026, 10, 12);
+        var end = new DateTime(2026, 10, 14);
+        var records = new List<Attendance>
+        {
+            new Attendance { TenantId = "default", EmployeeId = 1, Date = start, Status = "Present", TotalHours = TimeSpan.FromHours(8) },
+            new Attendance { TenantId = "default", EmployeeId = 2, Date = start, Status = "Late", TotalHours = TimeSpan.FromHours(7.5) },
+            new Attendance { TenantId = "default", EmployeeId = 3, Date = start, Status = "Absent" },
+            new Attendance { TenantId = "default", EmployeeId = 1, Date = end, Status = "Present", TotalHours = TimeSpan.FromHours(6) }
+        };
+
+        _mockAttendanceRepository.Setup(r => r.GetAllByDateRangeAsync(start, end)).ReturnsAsync(records);
+
+        // Act
+        var result = (await _service.GetDailySummaryAsync(start, end)).ToList();
+
+        // Assert
+        Assert.Equal(3, result.Count);
+        Assert.Equal(2, result[0].Present);
+        Assert.Equal(1, result[0].Late);
+        Assert.Equal(1, result[0].Absent);
+        Assert.Equal(15.5, result[0].TotalHours);
+        Assert.Equal(0, result[1].Present);
+        Assert.Equal(start.AddDays(1), result[1].Date);
+        Assert.Equal(1, result[2].Present);
+    }
+}
@@ -0,0 +1,72 @@
+using System.Linq.Expressions;
+using AutoMapper;
+using Moq;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Mapping;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Services;
+
+public class CalendarServiceTests
+{
+    private readonly Mock<IGenericRepository<CalendarEvent>> _mockEventRepository;
+    private readonly Mock<IEmployeeRepository> _mockEmployeeRepository;
+    private readonly Mock<ILeaveRequestRepository> _mockLeaveRequestRepository;
+    private readonly CalendarService _service;
+
+    public CalendarServiceTests()
+    {
+        _mockEventRepository = new Mock<IGenericRepository<CalendarEvent>>();
+        _mockEmployeeRepository = new Mock<IEmployeeRepository>();
+        _mockLeaveRequestRepository = new Mock<ILeaveRequestRepository>();
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("default");
+
+        var config = new MapperConfiguration(cfg => cfg.AddProfile<MappingProfile>());
+
+        _service = new CalendarService(
+            _mockEventRepository.Object,
+            _mockEmployeeRepository.Object,
+            _mockLeaveRequestRepository.Object,
+            config.CreateMapper(),
+            mockTenantProvider.Object);
+    }
+
+    [Fact]
+    public async Task GetEntriesAsync_ShouldCombineSourcesAndFilterByDepartment()
+    {
+        // Arrange
+        var start = new DateTime(2026, 10, 1);
+        var end = new DateTime(2026, 10, 31);
+        var employees = new List<Employee>
+        {
+            new Employee { Id = 1, TenantId = "default", EmployeeId = "EMP001", FirstName = "Ana", LastName = "Silva", Email = "ana@test.com", Department = "Engineering", DateOfBirth = new DateTime(1990, 10, 20), HireDate = new DateTime(2023, 10, 2) },
+            new Employee { Id = 2, TenantId = "default", EmployeeId = "EMP002", FirstName = "Ben", LastName = "Okafor", Email = "ben@test.com", Department = "Sales", DateOfBirth = new DateTime(1988, 10, 5), HireDate = new DateTime(2026, 10, 1) }
+        };
+        var leave = new List<LeaveRequest>
+        {
+            new LeaveRequest { Id = 7, TenantId = "default", EmployeeId = 1, LeaveType = "Annual", Status = "Approved", StartDate = new DateTime(2026, 9, 29), EndDate = new DateTime(2026, 10, 2) },
+            new LeaveRequest { Id = 8, TenantId = "default", EmployeeId = 2, LeaveType = "Sick", Status = "Approved", StartDate = new DateTime(2026, 10, 12), EndDate = new DateTime(2026, 10, 12) }
+        };
+        var events = new List<CalendarEvent>
+        {
+            new CalendarEvent { Id = 3, TenantId = "default", Title = "Founders Day", EventType = "Holiday", StartDate = new DateTime(2026, 10, 9), EndDate = new DateTime(2026, 10, 9) },
+            new CalendarEvent { Id = 4, TenantId = "default", Title = "Sales kickoff", EventType = "Event", Department = "Sales", StartDate = new DateTime(2026, 10, 15), EndDate = new DateTime(2026, 10, 15) }
+        };
+
+        _mockEmployeeRepository.Setup(r => r.GetActiveEmployeesAsync()).ReturnsAsync(employees);
+        _mockLeaveRequestRepository.Setup(r => r.FindAsync(It.IsAny<Expression<Func<LeaveRequest, bool>>>())).ReturnsAsync(leave);
+        _mockEventRepository.Setup(r => r.FindAsync(It.IsAny<Expression<Func<CalendarEvent, bool>>>())).ReturnsAsync(events);
+
+        // Act
+        var result = (await _service.GetEntriesAsync(start, end, "Engineering")).ToList();
+
+        // Assert
+        Assert.Equal(new[] { "Leave", "Anniversary", "Holiday", "Birthday" }, result.Select(e => e.Type));
+        Assert.Equal("leave-7", result[0].Id);
+        Assert.Equal("Ana Silva – 3 years at the company", result[1].Title);
+        Assert.Equal(new DateTime(2026, 10, 20), result[3].StartDate);
+        Assert.DoesNotContain(result, e => e.EmployeeId == 2 || e.EventId == 4);
+    }
+}
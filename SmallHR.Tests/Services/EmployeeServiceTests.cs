@@ -3,6 +3,7 @@ using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using Moq;
 using SmallHR.Core.DTOs.Employee;
+using SmallHR.Core.DTOs.Notification;
 using SmallHR.Core.Entities;
 using SmallHR.Core.Interfaces;
 using SmallHR.Infrastructure.Data;
@@ -19,6 +20,8 @@ public class EmployeeServiceTests
     private readonly Mock<ITenantProvider> _mockTenantProvider;
     private readonly Mock<IUserCreationService> _mockUserCreationService;
     private readonly ILogger<EmployeeService> _logger;
+    private readonly Mock<IUserNotificationService> _mockNotificationService;
+    private readonly ApplicationDbContext _context;
 
     public EmployeeServiceTests()
     {
@@ -27,6 +30,7 @@ public class EmployeeServiceTests
         _mockTenantProvider.Setup(t => t.TenantId).Returns("default");
         
         _mockUserCreationService = new Mock<IUserCreationService>();
+        _mockNotificationService = new Mock<IUserNotificationService>();
         
         using var loggerFactory = LoggerFactory.Create(builder => builder.AddConsole());
         _logger = loggerFactory.CreateLogger<EmployeeService>();
@@ -39,9 +43,9 @@ public class EmployeeServiceTests
             .UseInMemoryDatabase(databaseName: Guid.NewGuid().ToString())
             .Options;
         
-        var mockContext = new ApplicationDbContext(options, _mockTenantProvider.Object);
+        _context = new ApplicationDbContext(options, _mockTenantProvider.Object);
         
-        _service = new EmployeeService(_mockRepository.Object, _mapper, _mockTenantProvider.Object, _mockUserCreationService.Object, _logger, mockContext);
+        _service = new EmployeeService(_mockRepository.Object, _mapper, _mockTenantProvider.Object, _mockUserCreationService.Object, _logger, _context, _mockNotificationService.Object);
     }
 
     [Fact]
@@ -252,4 +256,81 @@ public class EmployeeServiceTests
         // Assert
         Assert.False(result);
     }
+
+    [Fact]
+    public async Task IsValidManagerAsync_WhenManagerReportsToEmployee_ShouldReturnFalse()
+    {
+        // Arrange: 3 reports to 2, 2 reports to 1
+        var top = new Employee { TenantId = "default", Id = 1, EmployeeId = "EMP001", FirstName = "Ann", LastName = "Lee" };
+        var middle = new Employee { TenantId = "default", Id = 2, EmployeeId = "EMP002", FirstName = "Ben", LastName = "Ray", ManagerId = 1 };
+        var bottom = new Employee { TenantId = "default", Id = 3, EmployeeId = "EMP003", FirstName = "Cal", LastName = "Fox", ManagerId = 2 };
+
+        _mockRepository.Setup(r => r.GetByIdAsync(1)).ReturnsAsync(top);
+        _mockRepository.Setup(r => r.GetByIdAsync(2)).ReturnsAsync(middle);
+        _mockRepository.Setup(r => r.GetByIdAsync(3)).ReturnsAsync(bottom);
+
+        // Act
+        var cycle = await _service.IsValidManagerAsync(1, 3);
+        var self = await _service.IsValidManagerAsync(2, 2);
+        var valid = await _service.IsValidManagerAsync(3, 1);
+
+        // Assert
+        Assert.False(cycle);
+        Assert.False(self);
+        Assert.True(valid);
+    }
+
+    [Fact]
+    public async Task UpdateReportingLineAsync_WhenDepartmentChanges_ShouldNotifyDepartmentHead()
+    {
+        // Arrange
+        var head = new Employee { TenantId = "default", Id = 10, EmployeeId = "EMP010", FirstName = "Dee", LastName = "Hart", Department = "Sales", UserId = "head-user" };
+        _context.Employees.Add(head);
+        _context.Departments.Add(new Department { TenantId = "default", Name = "Sales", HeadOfDepartmentId = head.Id });
+        await _context.SaveChangesAsync();
+
+        var employee = new Employee { TenantId = "default", Id = 3, EmployeeId = "EMP003", FirstName = "Cal", LastName = "Fox", Department = "IT" };
+        _mockRepository.Setup(r => r.GetByIdAsync(3)).ReturnsAsync(employee);
+
+        // Act
+        await _service.UpdateReportingLineAsync(3, new UpdateReportingLineDto { Department = "Sales" });
+        await _service.UpdateReportingLineAsync(3, new UpdateReportingLineDto { Department = "Sales", ManagerId = 10 });
+
+        // Assert: only the move into Sales is announced
+        _mockNotificationService.Verify(n => n.NotifyUserAsync("head-user", It.Is<CreateUserNotificationDto>(d =>
+            d.Category == NotificationCategories.Employees && d.Link == "/employees")), Times.Once);
+    }
+
+    [Fact]
+    public async Task GetEmployeeByUserIdAsync_ShouldNotMatchByEmailWhenEmployeeIsLinkedToAnotherUser()
+    {
+        // Arrange
+        var employee = new Employee { TenantId = "default", Id = 4, EmployeeId = "EMP004", FirstName = "Dana", LastName = "Cole", Email = "dana@example.com", UserId = "other-user" };
+        _mockRepository.Setup(r => r.GetByEmailAsync("dana@example.com")).ReturnsAsync(employee);
+
+        // Act
+        var result = await _service.GetEmployeeByUserIdAsync("new-user", "dana@example.com");
+
+        // Assert
+        Assert.Null(result);
+        Assert.Equal("other-user", employee.UserId);
+        _mockRepository.Verify(r => r.UpdateAsync(It.IsAny<Employee>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task GetEmployeeByUserIdAsync_ShouldLinkUnlinkedEmployeeMatchedByEmail()
+    {
+        // Arrange
+        var employee = new Employee { TenantId = "default", Id = 5, EmployeeId = "EMP005", FirstName = "Eli", LastName = "Park", Email = "eli@example.com" };
+        _mockRepository.Setup(r => r.GetByEmailAsync("eli@example.com")).ReturnsAsync(employee);
+
+        // Act
+        var result = await _service.GetEmployeeByUserIdAsync("eli-user", "eli@example.com");
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal("EMP005", result!.EmployeeId);
+        Assert.Equal("eli-user", employee.UserId);
+        _mockRepository.Verify(r => r.UpdateAsync(employee), Times.Once);
+    }
 }
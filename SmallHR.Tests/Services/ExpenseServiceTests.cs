@@ -0,0 +1,92 @@
+using System.Linq.Expressions;
+using AutoMapper;
+using Moq;
+using SmallHR.Core.DTOs.Expense;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Mapping;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Services;
+
+public class ExpenseServiceTests
+{
+    private readonly Mock<IExpenseClaimRepository> _mockClaimRepository;
+    private readonly Mock<IGenericRepository<ExpenseItem>> _mockItemRepository;
+    private readonly Mock<IGenericRepository<ReimbursementBatch>> _mockBatchRepository;
+    private readonly ExpenseService _service;
+
+    public ExpenseServiceTests()
+    {
+        _mockClaimRepository = new Mock<IExpenseClaimRepository>();
+        _mockItemRepository = new Mock<IGenericRepository<ExpenseItem>>();
+        _mockBatchRepository = new Mock<IGenericRepository<ReimbursementBatch>>();
+        var mockReceiptRepository = new Mock<IGenericRepository<ExpenseReceipt>>();
+        var mockEmployeeRepository = new Mock<IEmployeeRepository>();
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("default");
+
+        var config = new MapperConfiguration(cfg => cfg.AddProfile<MappingProfile>());
+
+        _service = new ExpenseService(
+            _mockClaimRepository.Object,
+            _mockItemRepository.Object,
+            mockReceiptRepository.Object,
+            _mockBatchRepository.Object,
+            mockEmployeeRepository.Object,
+            config.CreateMapper(),
+            mockTenantProvider.Object);
+    }
+
+    [Fact]
+    public async Task CreateBatchAsync_ShouldTotalApprovedClaimsAndAssignThemToBatch()
+    {
+        // Arrange
+        var claims = new List<ExpenseClaim>
+        {
+            new ExpenseClaim { Id = 1, TenantId = "default", EmployeeId = 1, Title = "Client visit", Currency = "USD", Status = "Approved", TotalAmount = 245.50m },
+            new ExpenseClaim { Id = 2, TenantId = "default", EmployeeId = 2, Title = "Conference", Currency = "USD", Status = "Approved", TotalAmount = 1200m }
+        };
+
+        _mockClaimRepository.Setup(r => r.FindAsync(It.IsAny<Expression<Func<ExpenseClaim, bool>>>())).ReturnsAsync(claims);
+        _mockBatchRepository.Setup(r => r.CountAsync(It.IsAny<Expression<Func<ReimbursementBatch, bool>>>())).ReturnsAsync(1);
+        _mockBatchRepository.Setup(r => r.AddAsync(It.IsAny<ReimbursementBatch>()))
+            .Callback<ReimbursementBatch>(b => b.Id = 7)
+            .ReturnsAsync((ReimbursementBatch batch) => batch);
+
+        // Act
+        var result = await _service.CreateBatchAsync(
+            new CreateReimbursementBatchDto { PayrollYear = 2026, PayrollMonth = 10, Currency = "USD" },
+            "hr@test.com");
+
+        // Assert
+        Assert.Equal("EXP-202610-USD-2", result.Reference);
+        Assert.Equal(1445.50m, result.TotalAmount);
+        Assert.Equal(2, result.ClaimCount);
+        Assert.Equal("Pending", result.Status);
+        Assert.All(claims, c => Assert.Equal(7, c.ReimbursementBatchId));
+        _mockClaimRepository.Verify(r => r.UpdateAsync(It.IsAny<ExpenseClaim>()), Times.Exactly(2));
+    }
+
+    [Fact]
+    public async Task UpdateClaimAsync_ShouldRejectReviewedClaims()
+    {
+        // Arrange
+        var claim = new ExpenseClaim { Id = 1, TenantId = "default", EmployeeId = 1, Title = "Client visit", Currency = "USD", Status = "Approved" };
+        _mockClaimRepository.Setup(r => r.GetByIdAsync(1)).ReturnsAsync(claim);
+
+        var update = new UpdateExpenseClaimDto
+        {
+            Title = "Client visit",
+            Currency = "USD",
+            Items = new List<CreateExpenseItemDto>
+            {
+                new CreateExpenseItemDto { ExpenseDate = new DateTime(2026, 10, 5), Category = "Travel", Description = "Taxi", Amount = 40m }
+            }
+        };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(() => _service.UpdateClaimAsync(1, update));
+        _mockItemRepository.Verify(r => r.DeleteRangeAsync(It.IsAny<IEnumerable<ExpenseItem>>()), Times.Never);
+    }
+}
@@ -0,0 +1,154 @@
+using System.Linq.Expressions;
+using AutoMapper;
+using Moq;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Mapping;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Services;
+
+public class LeavePolicyServiceTests
+{
+    private readonly Mock<IGenericRepository<LeavePolicy>> _mockPolicyRepository;
+    private readonly Mock<ILeaveRequestRepository> _mockLeaveRequestRepository;
+    private readonly Mock<IEmployeeRepository> _mockEmployeeRepository;
+    private readonly LeavePolicyService _service;
+
+    public LeavePolicyServiceTests()
+    {
+        _mockPolicyRepository = new Mock<IGenericRepository<LeavePolicy>>();
+        _mockLeaveRequestRepository = new Mock<ILeaveRequestRepository>();
+        _mockEmployeeRepository = new Mock<IEmployeeRepository>();
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("default");
+
+        var config = new MapperConfiguration(cfg => cfg.AddProfile<MappingProfile>());
+
+        _service = new LeavePolicyService(
+            _mockPolicyRepository.Object,
+            _mockLeaveRequestRepository.Object,
+            _mockEmployeeRepository.Object,
+            config.CreateMapper(),
+            mockTenantProvider.Object);
+    }
+
+    [Fact]
+    public async Task ValidateLeaveRequestAsync_ShouldRejectRequestOverAvailableBalance()
+    {
+        // Arrange
+        var year = DateTime.UtcNow.Year;
+        SetupPolicy(new LeavePolicy { TenantId = "default", LeaveType = "Annual", AnnualEntitlement = 10, IsActive = true });
+        SetupEmployee(new DateTime(2020, 1, 1));
+        _mockLeaveRequestRepository.Setup(r => r.GetByEmployeeIdAsync(1)).ReturnsAsync(new List<LeaveRequest>
+        {
+            new LeaveRequest { Id = 1, TenantId = "default", EmployeeId = 1, LeaveType = "Annual", Status = "Approved", StartDate = new DateTime(year, 1, 2), TotalDays = 6 },
+            new LeaveRequest { Id = 2, TenantId = "default", EmployeeId = 1, LeaveType = "Annual", Status = "Pending", StartDate = new DateTime(year, 1, 12), TotalDays = 2 }
+        });
+
+        // Act
+        var result = await _service.ValidateLeaveRequestAsync(1, "Annual", new DateTime(year, 12, 1), new DateTime(year, 12, 3));
+
+        // Assert
+        Assert.Equal("Only 2 day(s) of Annual leave available", result);
+    }
+
+    [Fact]
+    public async Task ValidateLeaveRequestAsync_ShouldReleaseDaysOfRequestBeingEdited()
+    {
+        // Arrange
+        var year = DateTime.UtcNow.Year;
+        SetupPolicy(new LeavePolicy { TenantId = "default", LeaveType = "Annual", AnnualEntitlement = 10, IsActive = true });
+        SetupEmployee(new DateTime(2020, 1, 1));
+        _mockLeaveRequestRepository.Setup(r => r.GetByEmployeeIdAsync(1)).ReturnsAsync(new List<LeaveRequest>
+        {
+            new LeaveRequest { Id = 2, TenantId = "default", EmployeeId = 1, LeaveType = "Annual", Status = "Pending", StartDate = new DateTime(year, 12, 1), TotalDays = 8 }
+        });
+
+        // Act
+        var result = await _service.ValidateLeaveRequestAsync(1, "Annual", new DateTime(year, 12, 1), new DateTime(year, 12, 10), excludeLeaveRequestId: 2);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task ValidateLeaveRequestAsync_ShouldRejectRequestDuringBlockedProbation()
+    {
+        // Arrange
+        var hireDate = DateTime.UtcNow.Date.AddDays(-10);
+        SetupPolicy(new LeavePolicy { TenantId = "default", LeaveType = "Annual", AnnualEntitlement = 20, ProbationMonths = 3, AllowDuringProbation = false, IsActive = true });
+        SetupEmployee(hireDate);
+        _mockLeaveRequestRepository.Setup(r => r.GetByEmployeeIdAsync(1)).ReturnsAsync(new List<LeaveRequest>());
+
+        // Act
+        var result = await _service.ValidateLeaveRequestAsync(1, "Annual", hireDate.AddDays(20), hireDate.AddDays(21));
+
+        // Assert
+        Assert.Equal($"Annual leave is not available until probation ends on {hireDate.AddMonths(3):yyyy-MM-dd}", result);
+    }
+
+    [Fact]
+    public async Task ValidateLeaveRequestAsync_ShouldAllowRequestStartingAfterProbationEnds()
+    {
+        // Arrange
+        var hireDate = DateTime.UtcNow.Date.AddDays(-10);
+        SetupPolicy(new LeavePolicy { TenantId = "default", LeaveType = "Annual", AnnualEntitlement = 20, ProbationMonths = 3, AllowDuringProbation = false, ProRateFromHireDate = false, IsActive = true });
+        SetupEmployee(hireDate);
+        _mockLeaveRequestRepository.Setup(r => r.GetByEmployeeIdAsync(1)).ReturnsAsync(new List<LeaveRequest>());
+
+        // Act
+        var result = await _service.ValidateLeaveRequestAsync(1, "Annual", hireDate.AddMonths(4), hireDate.AddMonths(4).AddDays(1));
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task ValidateLeaveRequestAsync_ShouldUseBalanceOfTheYearTheLeaveStarts()
+    {
+        // Arrange
+        var year = DateTime.UtcNow.Year;
+        SetupPolicy(new LeavePolicy { TenantId = "default", LeaveType = "Annual", AnnualEntitlement = 10, IsActive = true });
+        SetupEmployee(new DateTime(2020, 1, 1));
+        _mockLeaveRequestRepository.Setup(r => r.GetByEmployeeIdAsync(1)).ReturnsAsync(new List<LeaveRequest>
+        {
+            new LeaveRequest { Id = 1, TenantId = "default", EmployeeId = 1, LeaveType = "Annual", Status = "Approved", StartDate = new DateTime(year, 3, 1), EndDate = new DateTime(year, 3, 10), TotalDays = 10 }
+        });
+
+        // Act
+        var result = await _service.ValidateLeaveRequestAsync(1, "Annual", new DateTime(year + 1, 1, 5), new DateTime(year + 1, 1, 7));
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task ValidateLeaveRequestAsync_ShouldCheckEachYearOfRequestCrossingNewYear()
+    {
+        // Arrange
+        var year = DateTime.UtcNow.Year;
+        SetupPolicy(new LeavePolicy { TenantId = "default", LeaveType = "Annual", AnnualEntitlement = 10, IsActive = true });
+        SetupEmployee(new DateTime(2020, 1, 1));
+        _mockLeaveRequestRepository.Setup(r => r.GetByEmployeeIdAsync(1)).ReturnsAsync(new List<LeaveRequest>
+        {
+            new LeaveRequest { Id = 1, TenantId = "default", EmployeeId = 1, LeaveType = "Annual", Status = "Approved", StartDate = new DateTime(year, 3, 1), EndDate = new DateTime(year, 3, 8), TotalDays = 8 }
+        });
+
+        // Act
+        var result = await _service.ValidateLeaveRequestAsync(1, "Annual", new DateTime(year, 12, 28), new DateTime(year + 1, 1, 4));
+
+        // Assert
+        Assert.Equal($"Only 2 day(s) of Annual leave available in {year}", result);
+    }
+
+    private void SetupPolicy(LeavePolicy policy)
+    {
+        _mockPolicyRepository.Setup(r => r.FirstOrDefaultAsync(It.IsAny<Expression<Func<LeavePolicy, bool>>>())).ReturnsAsync(policy);
+    }
+
+    private void SetupEmployee(DateTime hireDate)
+    {
+        _mockEmployeeRepository.Setup(r => r.GetByIdAsync(1)).ReturnsAsync(new Employee { Id = 1, TenantId = "default", HireDate = hireDate });
+    }
+}
@@ -0,0 +1,95 @@
+using AutoMapper;
+using Microsoft.Extensions.Logging;
+using Moq;
+using SmallHR.Core.DTOs.LeaveRequest;
+using SmallHR.Core.DTOs.Notification;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Mapping;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Services;
+
+public class LeaveRequestServiceTests
+{
+    private readonly Mock<ILeaveRequestRepository> _mockLeaveRequestRepository;
+    private readonly Mock<IEmployeeRepository> _mockEmployeeRepository;
+    private readonly Mock<IUserNotificationService> _mockNotificationService;
+    private readonly Mock<ILeavePolicyService> _mockLeavePolicyService;
+    private readonly LeaveRequestService _service;
+
+    public LeaveRequestServiceTests()
+    {
+        _mockLeaveRequestRepository = new Mock<ILeaveRequestRepository>();
+        _mockEmployeeRepository = new Mock<IEmployeeRepository>();
+        _mockNotificationService = new Mock<IUserNotificationService>();
+        _mockLeavePolicyService = new Mock<ILeavePolicyService>();
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("default");
+
+        var config = new MapperConfiguration(cfg => cfg.AddProfile<MappingProfile>());
+
+        _service = new LeaveRequestService(
+            _mockLeaveRequestRepository.Object,
+            _mockEmployeeRepository.Object,
+            config.CreateMapper(),
+            mockTenantProvider.Object,
+            _mockNotificationService.Object,
+            _mockLeavePolicyService.Object,
+            new Mock<ILogger<LeaveRequestService>>().Object);
+    }
+
+    [Fact]
+    public async Task CreateLeaveRequestAsync_ShouldNotSaveWhenLeavePolicyRejectsRequest()
+    {
+        // Arrange
+        var createDto = new CreateLeaveRequestDto
+        {
+            EmployeeId = 1,
+            LeaveType = "Annual",
+            StartDate = new DateTime(2026, 12, 1),
+            EndDate = new DateTime(2026, 12, 5),
+            Reason = "Holiday"
+        };
+        _mockLeavePolicyService
+            .Setup(s => s.ValidateLeaveRequestAsync(1, "Annual", createDto.StartDate, createDto.EndDate, null))
+            .ReturnsAsync("Only 2 day(s) of Annual leave available");
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<InvalidOperationException>(() => _service.CreateLeaveRequestAsync(createDto));
+        Assert.Equal("Only 2 day(s) of Annual leave available", exception.Message);
+        _mockLeaveRequestRepository.Verify(r => r.AddAsync(It.IsAny<LeaveRequest>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task ApproveLeaveRequestAsync_ShouldSucceedWhenNotificationFails()
+    {
+        // Arrange
+        var leaveRequest = new LeaveRequest
+        {
+            Id = 5,
+            TenantId = "default",
+            EmployeeId = 1,
+            LeaveType = "Annual",
+            StartDate = new DateTime(2026, 12, 1),
+            EndDate = new DateTime(2026, 12, 5),
+            Status = "Pending",
+            TotalDays = 5
+        };
+        _mockLeaveRequestRepository.Setup(r => r.GetByIdAsync(5)).ReturnsAsync(leaveRequest);
+        _mockEmployeeRepository.Setup(r => r.GetByIdAsync(1))
+            .ReturnsAsync(new Employee { Id = 1, TenantId = "default", UserId = "user-1" });
+        _mockNotificationService
+            .Setup(s => s.NotifyUserAsync("user-1", It.IsAny<CreateUserNotificationDto>()))
+            .ThrowsAsync(new InvalidOperationException("Inbox unavailable"));
+
+        // Act
+        var result = await _service.ApproveLeaveRequestAsync(5, new ApproveLeaveRequestDto { Status = "Approved" }, "hr@test.com");
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal("Approved", result!.Status);
+        Assert.Equal("hr@test.com", result.ApprovedBy);
+        _mockLeaveRequestRepository.Verify(r => r.UpdateAsync(leaveRequest), Times.Once);
+    }
+}
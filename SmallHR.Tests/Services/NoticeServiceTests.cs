@@ -0,0 +1,88 @@
+using System.Linq.Expressions;
+using AutoMapper;
+using Moq;
+using SmallHR.Core.DTOs.Notice;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Mapping;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Services;
+
+public class NoticeServiceTests
+{
+    private readonly Mock<IGenericRepository<Notice>> _mockNoticeRepository;
+    private readonly Mock<IGenericRepository<NoticeReceipt>> _mockReceiptRepository;
+    private readonly NoticeService _service;
+
+    public NoticeServiceTests()
+    {
+        _mockNoticeRepository = new Mock<IGenericRepository<Notice>>();
+        _mockReceiptRepository = new Mock<IGenericRepository<NoticeReceipt>>();
+        var mockEmployeeRepository = new Mock<IEmployeeRepository>();
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("default");
+
+        var config = new MapperConfiguration(cfg => cfg.AddProfile<MappingProfile>());
+
+        _service = new NoticeService(
+            _mockNoticeRepository.Object,
+            _mockReceiptRepository.Object,
+            mockEmployeeRepository.Object,
+            config.CreateMapper(),
+            mockTenantProvider.Object);
+    }
+
+    [Fact]
+    public async Task GetFeedAsync_ShouldReturnTargetedNoticesPinnedFirstWithReadState()
+    {
+        // Arrange
+        var now = DateTime.UtcNow;
+        var notices = new List<Notice>
+        {
+            new Notice { Id = 1, TenantId = "default", Title = "Holiday schedule", Content = "<p>Office closed</p>", PublishAt = now.AddDays(-3) },
+            new Notice { Id = 2, TenantId = "default", Title = "Expense policy", Content = "<p>New limits</p>", IsPinned = true, PublishAt = now.AddDays(-5) },
+            new Notice { Id = 3, TenantId = "default", Title = "Sales targets", Content = "<p>Q4</p>", TargetDepartments = "Sales", PublishAt = now.AddDays(-1) },
+            new Notice { Id = 4, TenantId = "default", Title = "Manager training", Content = "<p>Sign up</p>", TargetDepartments = "Engineering", TargetRoles = "HR,Admin", PublishAt = now.AddDays(-1) }
+        };
+        var receipts = new List<NoticeReceipt>
+        {
+            new NoticeReceipt { TenantId = "default", NoticeId = 1, UserId = "user-1", ReaderName = "Ana Silva" }
+        };
+        var audience = new NoticeAudienceDto
+        {
+            UserId = "user-1",
+            ReaderName = "Ana Silva",
+            Department = "engineering",
+            Roles = new List<string> { "Employee" }
+        };
+
+        _mockNoticeRepository.Setup(r => r.FindAsync(It.IsAny<Expression<Func<Notice, bool>>>())).ReturnsAsync(notices);
+        _mockReceiptRepository.Setup(r => r.FindAsync(It.IsAny<Expression<Func<NoticeReceipt, bool>>>())).ReturnsAsync(receipts);
+
+        // Act
+        var result = (await _service.GetFeedAsync(audience)).ToList();
+
+        // Assert
+        Assert.Equal(new[] { 2, 1 }, result.Select(n => n.Id));
+        Assert.False(result[0].IsRead);
+        Assert.True(result[1].IsRead);
+        Assert.All(result, n => Assert.Equal("Published", n.Status));
+    }
+
+    [Fact]
+    public async Task MarkAsReadAsync_ShouldNotDuplicateReceipt()
+    {
+        // Arrange
+        var notice = new Notice { Id = 1, TenantId = "default", Title = "Holiday schedule", Content = "<p>Office closed</p>", PublishAt = DateTime.UtcNow };
+        _mockNoticeRepository.Setup(r => r.GetByIdAsync(1)).ReturnsAsync(notice);
+        _mockReceiptRepository.Setup(r => r.ExistsAsync(It.IsAny<Expression<Func<NoticeReceipt, bool>>>())).ReturnsAsync(true);
+
+        // Act
+        var result = await _service.MarkAsReadAsync(1, new NoticeAudienceDto { UserId = "user-1", ReaderName = "Ana Silva" });
+
+        // Assert
+        Assert.True(result);
+        _mockReceiptRepository.Verify(r => r.AddAsync(It.IsAny<NoticeReceipt>()), Times.Never);
+    }
+}
@@ -0,0 +1,120 @@
+using System.Linq.Expressions;
+using AutoMapper;
+using Moq;
+using SmallHR.Core.DTOs.Payroll;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Mapping;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Services;
+
+public class PayrollServiceTests
+{
+    private readonly Mock<IGenericRepository<PayrollSettings>> _mockSettingsRepository;
+    private readonly Mock<IGenericRepository<PayRun>> _mockPayRunRepository;
+    private readonly Mock<IGenericRepository<Payslip>> _mockPayslipRepository;
+    private readonly Mock<IEmployeeRepository> _mockEmployeeRepository;
+    private readonly Mock<IAttendanceRepository> _mockAttendanceRepository;
+    private readonly Mock<ILeaveRequestRepository> _mockLeaveRequestRepository;
+    private readonly Mock<IGenericRepository<ReimbursementBatch>> _mockBatchRepository;
+    private readonly PayrollService _service;
+
+    public PayrollServiceTests()
+    {
+        _mockSettingsRepository = new Mock<IGenericRepository<PayrollSettings>>();
+        _mockPayRunRepository = new Mock<IGenericRepository<PayRun>>();
+        _mockPayslipRepository = new Mock<IGenericRepository<Payslip>>();
+        _mockEmployeeRepository = new Mock<IEmployeeRepository>();
+        _mockAttendanceRepository = new Mock<IAttendanceRepository>();
+        _mockLeaveRequestRepository = new Mock<ILeaveRequestRepository>();
+        _mockBatchRepository = new Mock<IGenericRepository<ReimbursementBatch>>();
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("default");
+
+        var config = new MapperConfiguration(cfg => cfg.AddProfile<MappingProfile>());
+
+        _service = new PayrollService(
+            _mockSettingsRepository.Object,
+            _mockPayRunRepository.Object,
+            _mockPayslipRepository.Object,
+            _mockEmployeeRepository.Object,
+            _mockAttendanceRepository.Object,
+            _mockLeaveRequestRepository.Object,
+            _mockBatchRepository.Object,
+            new Mock<IGenericRepository<ExpenseClaim>>().Object,
+            config.CreateMapper(),
+            mockTenantProvider.Object);
+    }
+
+    [Fact]
+    public async Task CreatePayRunAsync_ShouldAddOvertimeDeductUnpaidLeaveAndProrateNewHires()
+    {
+        // Arrange
+        var settings = new PayrollSettings { TenantId = "default", TaxRatePercent = 10 };
+        var employees = new List<Employee>
+        {
+            new Employee { Id = 1, TenantId = "default", EmployeeId = "EMP001", FirstName = "Ana", LastName = "Silva", Email = "ana@test.com", Department = "Engineering", Position = "Engineer", Salary = 120000, HireDate = new DateTime(2024, 1, 8) },
+            new Employee { Id = 2, TenantId = "default", EmployeeId = "EMP002", FirstName = "Ben", LastName = "Okafor", Email = "ben@test.com", Department = "Sales", Position = "Account Executive", Salary = 62000, HireDate = new DateTime(2026, 10, 16) }
+        };
+        var attendance = new List<Attendance>
+        {
+            new Attendance { TenantId = "default", EmployeeId = 1, Date = new DateTime(2026, 10, 5), OvertimeHours = TimeSpan.FromHours(4) }
+        };
+        var unpaidLeave = new List<LeaveRequest>
+        {
+            // Monday and Tuesday
+            new LeaveRequest { TenantId = "default", EmployeeId = 1, LeaveType = "Unpaid", Status = "Approved", StartDate = new DateTime(2026, 10, 12), EndDate = new DateTime(2026, 10, 13) }
+        };
+
+        _mockSettingsRepository.Setup(r => r.FirstOrDefaultAsync(It.IsAny<Expression<Func<PayrollSettings, bool>>>())).ReturnsAsync(settings);
+        _mockEmployeeRepository.Setup(r => r.FindAsync(It.IsAny<Expression<Func<Employee, bool>>>())).ReturnsAsync(employees);
+        _mockAttendanceRepository.Setup(r => r.GetAllByDateRangeAsync(It.IsAny<DateTime>(), It.IsAny<DateTime>())).ReturnsAsync(attendance);
+        _mockLeaveRequestRepository.Setup(r => r.FindAsync(It.IsAny<Expression<Func<LeaveRequest, bool>>>())).ReturnsAsync(unpaidLeave);
+        _mockPayRunRepository.Setup(r => r.AddAsync(It.IsAny<PayRun>())).ReturnsAsync((PayRun run) => run);
+
+        // Act
+        var result = await _service.CreatePayRunAsync(new CreatePayRunDto { Year = 2026, Month = 10 });
+
+        // Assert
+        var ana = result.Payslips.Single(p => p.EmployeeId == 1);
+        Assert.Equal(10000m, ana.BaseSalary);
+        Assert.Equal(340.91m, ana.OvertimePay);
+        Assert.Equal(2m, ana.UnpaidLeaveDays);
+        Assert.Equal(909.09m, ana.UnpaidLeaveDeduction);
+        Assert.Equal(9431.82m, ana.GrossPay);
+        Assert.Equal(943.18m, ana.TaxDeduction);
+        Assert.Equal(8488.64m, ana.NetPay);
+
+        var ben = result.Payslips.Single(p => p.EmployeeId == 2);
+        Assert.Equal(2666.67m, ben.BaseSalary);
+
+        Assert.Equal("Draft", result.Status);
+        Assert.Equal(2, result.EmployeeCount);
+        Assert.Equal(ana.NetPay + ben.NetPay, result.TotalNet);
+        _mockPayslipRepository.Verify(r => r.AddRangeAsync(It.Is<IEnumerable<Payslip>>(p => p.Count() == 2)), Times.Once);
+    }
+
+    [Fact]
+    public async Task FinalizePayRunAsync_ShouldRefuseWhileBatchesAreMissingFromPayslips()
+    {
+        // Arrange
+        var run = new PayRun { Id = 3, TenantId = "default", Year = 2026, Month = 10, Currency = "USD", Status = "Draft" };
+        var batches = new List<ReimbursementBatch>
+        {
+            new ReimbursementBatch { Id = 1, TenantId = "default", PayrollYear = 2026, PayrollMonth = 10, Currency = "USD", PayRunId = 3 },
+            // Created after the run was calculated
+            new ReimbursementBatch { Id = 2, TenantId = "default", PayrollYear = 2026, PayrollMonth = 10, Currency = "USD" }
+        };
+
+        _mockPayRunRepository.Setup(r => r.GetByIdAsync(3)).ReturnsAsync(run);
+        _mockBatchRepository.Setup(r => r.FindAsync(It.IsAny<Expression<Func<ReimbursementBatch, bool>>>())).ReturnsAsync(batches);
+
+        // Act & Assert
+        Assert.Equal(1, await _service.CountBatchesMissingFromRunAsync(3));
+        await Assert.ThrowsAsync<InvalidOperationException>(() => _service.FinalizePayRunAsync(3, "hr@test.com"));
+        Assert.Equal("Draft", run.Status);
+        Assert.All(batches, b => Assert.Equal("Pending", b.Status));
+        _mockBatchRepository.Verify(r => r.UpdateAsync(It.IsAny<ReimbursementBatch>()), Times.Never);
+    }
+}
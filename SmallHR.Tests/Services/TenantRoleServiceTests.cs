@@ -0,0 +1,68 @@
+using System.Linq.Expressions;
+using Microsoft.AspNetCore.Identity;
+using Moq;
+using SmallHR.Core.DTOs.TenantRole;
+using SmallHR.Core.Entities;
+using SmallHR.Core.Interfaces;
+using SmallHR.Infrastructure.Services;
+
+namespace SmallHR.Tests.Services;
+
+public class TenantRoleServiceTests
+{
+    private readonly Mock<UserManager<User>> _mockUserManager;
+    private readonly Mock<RoleManager<IdentityRole>> _mockRoleManager;
+    private readonly Mock<IGenericRepository<TenantRole>> _mockRoleRepository;
+    private readonly Mock<IGenericRepository<RolePermission>> _mockPermissionRepository;
+    private readonly TenantRoleService _service;
+
+    public TenantRoleServiceTests()
+    {
+        _mockUserManager = new Mock<UserManager<User>>(
+            Mock.Of<IUserStore<User>>(), null!, null!, null!, null!, null!, null!, null!, null!);
+        _mockRoleManager = new Mock<RoleManager<IdentityRole>>(
+            Mock.Of<IRoleStore<IdentityRole>>(), null!, null!, null!, null!);
+        _mockRoleRepository = new Mock<IGenericRepository<TenantRole>>();
+        _mockPermissionRepository = new Mock<IGenericRepository<RolePermission>>();
+
+        var mockTenantProvider = new Mock<ITenantProvider>();
+        mockTenantProvider.Setup(t => t.TenantId).Returns("tenant-1");
+
+        _service = new TenantRoleService(
+            _mockUserManager.Object,
+            _mockRoleManager.Object,
+            _mockRoleRepository.Object,
+            _mockPermissionRepository.Object,
+            Mock.Of<IEmployeeRepository>(),
+            mockTenantProvider.Object);
+    }
+
+    [Fact]
+    public async Task CreateRoleAsync_ShouldRejectBuiltInRoleName()
+    {
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            _service.CreateRoleAsync(new CreateTenantRoleDto { Name = "hr" }));
+        _mockRoleRepository.Verify(r => r.AddAsync(It.IsAny<TenantRole>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task DeleteRoleAsync_ShouldRefuseWhileUsersInTenantHoldTheRole()
+    {
+        // Arrange
+        var role = new TenantRole { Id = 7, TenantId = "tenant-1", Name = "Finance" };
+        _mockRoleRepository.Setup(r => r.FirstOrDefaultAsync(It.IsAny<Expression<Func<TenantRole, bool>>>()))
+            .ReturnsAsync(role);
+        _mockRoleManager.Setup(m => m.RoleExistsAsync("Finance")).ReturnsAsync(true);
+        _mockUserManager.Setup(m => m.GetUsersInRoleAsync("Finance")).ReturnsAsync(new List<User>
+        {
+            new() { Id = "u1", Email = "a@test.com", FirstName = "A", LastName = "One", TenantId = "tenant-1" },
+            new() { Id = "u2", Email = "b@test.com", FirstName = "B", LastName = "Two", TenantId = "tenant-2" }
+        });
+
+        // Act & Assert
+        var ex = await Assert.ThrowsAsync<InvalidOperationException>(() => _service.DeleteRoleAsync(7));
+        Assert.Contains("1 user(s)", ex.Message);
+        _mockRoleRepository.Verify(r => r.DeleteAsync(It.IsAny<TenantRole>()), Times.Never);
+    }
+}
@@ -1,5 +1,5 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
-import { ConfigProvider, App as AntApp } from 'antd';
+import { ConfigProvider, App as AntApp, Spin } from 'antd';
 import { useAuthStore } from './store/authStore';
 import { NotificationProvider } from './contexts/NotificationContext';
 import { ThemeProvider } from './contexts/ThemeContext';
@@ -9,28 +9,24 @@ import ForgotPassword from './pages/ForgotPassword';
 import ResetPassword from './pages/ResetPassword';
 import SetupPassword from './pages/SetupPassword';
 import VerifyEmail from './pages/VerifyEmail';
-import SuperAdminDashboard from './pages/SuperAdminDashboard';
-import AdminDashboard from './pages/AdminDashboard';
-import HRDashboard from './pages/HRDashboard';
-import EmployeeDashboard from './pages/EmployeeDashboard';
-import RolePermissions from './pages/RolePermissions';
-import Employees from './pages/Employees';
-import Departments from './pages/Departments';
-import Positions from './pages/Positions';
-import TenantSettings from './pages/TenantSettings';
-import TenantsList from './pages/TenantsList';
-import TenantDetail from './pages/TenantDetail';
-import BillingCenter from './pages/BillingCenter';
-import AlertsHub from './pages/AlertsHub';
-import UsageDashboard from './pages/UsageDashboard';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import './App.css';
-import { buildSemanticColors, buildSemanticColorsDark, applyCssVariables, getAntThemeFromSemantic, getStoredPaletteOrDefault, registerGlobalPaletteAPI } from './theme';
+import { buildSemanticColors, buildSemanticColorsDark, applyCssVariables, getAntThemeFromSemantic, getStoredPaletteOrDefault, registerGlobalPaletteAPI, setActivePalette } from './theme';
 import { useTheme } from './contexts/ThemeContext';
-import { useModulesStore } from './store/modulesStore';
+import { useMenuModules } from './hooks/useMenuModules';
 import UnknownModule from './components/UnknownModule';
-import type { ModuleNode } from './services/modules';
-import { useEffect, useState } from 'react';
+import ContractViolationOverlay from './components/ContractViolationOverlay';
+import PermissionPreviewBanner from './components/PermissionPreviewBanner';
+import LiveUpdates from './components/LiveUpdates';
+import FeatureGate from './components/FeatureGate';
+import { flattenModuleTree } from './services/modules';
+import { MODULES, getModule, getModulePermission, getModuleTrail } from './services/moduleRegistry';
+import type { ModuleDefinition } from './services/moduleRegistry';
+import { accountAPI } from './services/api';
+import { getLandingPage } from './utils/preferences';
+import { Suspense, useEffect, useState } from 'react';
+
+const isDev = Boolean((import.meta as any)?.env?.DEV);
 
 // Auth Route Component
 function AuthRoute({ children }: { children: React.ReactNode }) {
@@ -38,32 +34,41 @@ function AuthRoute({ children }: { children: React.ReactNode }) {
   return isAuthenticated ? <>{children}</> : <Navigate to="/login" />;
 }
 
-// Role-based Dashboard Component
-function DashboardRouter() {
-  const { user } = useAuthStore();
-  const userRole = user?.roles?.[0]?.toLowerCase();
-
-  if (userRole === 'superadmin') {
-    return <SuperAdminDashboard />;
-  } else if (userRole === 'admin') {
-    return <AdminDashboard />;
-  } else if (userRole === 'hr') {
-    return <HRDashboard />;
-  } else {
-    return <EmployeeDashboard />;
-  }
+// A page is gated by its own plan feature and by those of its parents
+function renderModulePage(module: ModuleDefinition) {
+  return getModuleTrail(module).reduce<React.ReactNode>(
+    (page, m) => (m.feature ? <FeatureGate feature={m.feature}>{page}</FeatureGate> : page),
+    <module.component />
+  );
 }
 
 function AppShell() {
-  const { modules, refresh } = useModulesStore();
-  const { isAuthenticated } = useAuthStore();
-  const { isDarkMode } = useTheme();
+  const { modules, refresh } = useMenuModules();
+  const { isAuthenticated, user, updateUser } = useAuthStore();
+  const { isDarkMode, setThemeMode } = useTheme();
   const [palette, setPalette] = useState(getStoredPaletteOrDefault());
+  const preferences = user?.preferences;
 
   useEffect(() => {
     refresh();
   }, [refresh]);
 
+  // Apply the signed-in user's saved appearance; sessions persisted before preferences existed fetch them once
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    if (!preferences) {
+      accountAPI.getPreferences()
+        .then(res => {
+          const current = useAuthStore.getState().user;
+          if (current) updateUser({ ...current, preferences: res.data });
+        })
+        .catch(() => {});
+      return;
+    }
+    setThemeMode(preferences.themeMode);
+    setActivePalette(preferences.palette);
+  }, [isAuthenticated, preferences]);
+
   // Init palette API and listen for quick switches
   useEffect(() => {
     registerGlobalPaletteAPI();
@@ -78,63 +83,35 @@ function AppShell() {
     applyCssVariables(sem);
   }, [isDarkMode, palette]);
 
-  // Map known module paths to existing pages/components
-  const routeForPath = (path: string) => {
-    if (path === '/dashboard') return <DashboardRouter />;
-    if (path === '/role-permissions') return <RolePermissions />;
-    if (path === '/employees') return <Employees />;
-    if (path === '/departments') return <Departments />;
-    if (path === '/positions') return <Positions />;
-    if (path === '/organization') {
-      // Organization is a parent, default to Departments
-      return <Departments />;
-    }
-    if (path === '/tenant-settings') return <TenantSettings />;
-    if (path === '/admin/tenants') return <TenantsList />;
-    if (path === '/admin/tenants/:id') return <TenantDetail />;
-    if (path === '/admin/billing') return <BillingCenter />;
-    if (path === '/admin/alerts') return <AlertsHub />;
-    if (path === '/admin/usage') return <UsageDashboard />;
-    // Payroll pages
-    if (path === '/payroll/reports') return <UnknownModule />;
-    if (path === '/payroll/settings') return <UnknownModule />;
-    if (path === '/payroll') return <UnknownModule />;
-    // Other pages
-    if (path === '/calendar') return <UnknownModule />;
-    if (path === '/notice-board') return <UnknownModule />;
-    if (path === '/expenses') return <UnknownModule />;
-    if (path === '/settings') return <UnknownModule />;
-    return <UnknownModule />;
-  };
-
-  const renderModuleRoutes = (nodes: ModuleNode[]): JSX.Element[] =>
-    nodes.flatMap((n): JSX.Element[] => {
-      // Skip dashboard since we have a static route for it
-      if (n.path === '/dashboard') {
-        return n.children ? renderModuleRoutes(n.children) : [];
+  const renderModuleRoute = (path: string, requiredPath: string, page: React.ReactNode) => (
+    <Route
+      key={path}
+      path={path}
+      element={
+        <AuthRoute>
+          <ProtectedRoute requiredPath={requiredPath}>
+            <MainLayout>
+              <Suspense fallback={<div style={{ textAlign: 'center', padding: 48 }}><Spin /></div>}>
+                {page}
+              </Suspense>
+            </MainLayout>
+          </ProtectedRoute>
+        </AuthRoute>
       }
-      return [
-        <Route
-          key={n.path}
-          path={n.path}
-          element={
-            <AuthRoute>
-              <ProtectedRoute requiredPath={n.path}>
-                <MainLayout>
-                  {routeForPath(n.path)}
-                </MainLayout>
-              </ProtectedRoute>
-            </AuthRoute>
-          }
-        />,
-        ...(n.children ? renderModuleRoutes(n.children) : []),
-      ];
-    });
+    />
+  );
+
+  // Every registered module is routed; whether the user may open it is up to their permissions.
+  // Pages the server lists that this build has no module for get a placeholder.
+  const unknownModulePaths = flattenModuleTree(modules)
+    .map(n => n.path)
+    .filter(path => !getModule(path));
 
   return (
       <ConfigProvider theme={getAntThemeFromSemantic(isDarkMode ? buildSemanticColorsDark(palette) : buildSemanticColors(palette))}>
       <AntApp>
         <NotificationProvider>
+          <LiveUpdates />
           <BrowserRouter>
             <Routes>
               <Route path="/login" element={<Login />} />
@@ -142,103 +119,22 @@ function AppShell() {
               <Route path="/reset-password" element={<ResetPassword />} />
               <Route path="/setup-password" element={<SetupPassword />} />
               <Route path="/verify-email" element={<VerifyEmail />} />
-              {/* Static dashboard route - always available */}
-              <Route
-                path="/admin/usage"
-                element={
-                  <AuthRoute>
-                    <MainLayout>
-                      <UsageDashboard />
-                    </MainLayout>
-                  </AuthRoute>
-                }
-              />
-              <Route
-                path="/dashboard"
-                element={
-                  <AuthRoute>
-                    <ProtectedRoute requiredPath="/dashboard">
-                      <MainLayout>
-                        <DashboardRouter />
-                      </MainLayout>
-                    </ProtectedRoute>
-                  </AuthRoute>
-                }
-              />
-              {/* Admin routes - SuperAdmin only */}
-              <Route
-                path="/admin/dashboard"
-                element={
-                  <AuthRoute>
-                    <MainLayout>
-                      <SuperAdminDashboard />
-                    </MainLayout>
-                  </AuthRoute>
-                }
-              />
-              <Route
-                path="/admin/tenants"
-                element={
-                  <AuthRoute>
-                    <MainLayout>
-                      <TenantsList />
-                    </MainLayout>
-                  </AuthRoute>
-                }
-              />
-              <Route
-                path="/admin/tenants/:id"
-                element={
-                  <AuthRoute>
-                    <MainLayout>
-                      <TenantDetail />
-                    </MainLayout>
-                  </AuthRoute>
-                }
-              />
-              <Route
-                path="/admin/billing"
-                element={
-                  <AuthRoute>
-                    <MainLayout>
-                      <BillingCenter />
-                    </MainLayout>
-                  </AuthRoute>
-                }
-              />
-              <Route
-                path="/admin/alerts"
-                element={
-                  <AuthRoute>
-                    <MainLayout>
-                      <AlertsHub />
-                    </MainLayout>
-                  </AuthRoute>
-                }
-              />
-              {/* Static route for Role Permissions */}
-              <Route
-                path="/role-permissions"
-                element={
-                  <AuthRoute>
-                    <ProtectedRoute requiredPath="/role-permissions">
-                      <MainLayout>
-                        <RolePermissions />
-                      </MainLayout>
-                    </ProtectedRoute>
-                  </AuthRoute>
-                }
-              />
-              {/* Dynamic module routes */}
-              {renderModuleRoutes(modules)}
+              {MODULES.map(m => renderModuleRoute(
+                m.path,
+                getModulePermission(m),
+                renderModulePage(m)
+              ))}
+              {unknownModulePaths.map(path => renderModuleRoute(path, path, <UnknownModule />))}
               <Route
                 path="/"
                 element={
-                  isAuthenticated ? <Navigate to="/dashboard" /> : <Navigate to="/login" />
+                  isAuthenticated ? <Navigate to={getLandingPage()} /> : <Navigate to="/login" />
                 }
               />
             </Routes>
+            <PermissionPreviewBanner />
           </BrowserRouter>
+          {isDev && <ContractViolationOverlay />}
         </NotificationProvider>
       </AntApp>
     </ConfigProvider>
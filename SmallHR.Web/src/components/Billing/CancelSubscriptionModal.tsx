@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Modal, Form, Input, Alert, Button, Typography } from 'antd';
+import { DownloadOutlined } from '@ant-design/icons';
+import { useNotification } from '../../contexts/NotificationContext';
+import { tenantLifecycleAPI } from '../../services/api';
+import { invalidateQueries } from '../../services/queryClient';
+import { queryKeys } from '../../services/queryKeys';
+import { saveBlob } from '../../utils/files';
+
+const { Paragraph, Text } = Typography;
+
+interface CancelSubscriptionModalProps {
+  open: boolean;
+  tenantId: number;
+  tenantName: string;
+  onClose: () => void;
+}
+
+// The server keeps a cancelled tenant's data for 90 days before deleting it
+const RETENTION_DAYS = 90;
+
+export default function CancelSubscriptionModal({ open, tenantId, tenantName, onClose }: CancelSubscriptionModalProps) {
+  const notify = useNotification();
+  const [form] = Form.useForm();
+  const [submitting, setSubmitting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const confirmation = Form.useWatch('confirmation', form);
+
+  const close = () => {
+    form.resetFields();
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const res = await tenantLifecycleAPI.exportData(tenantId);
+      saveBlob(res.data, `${tenantName}-export.json`);
+    } catch (error: any) {
+      notify.error('Export Failed', error.response?.data?.message || 'Unable to export your data.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleSubmit = async (values: { reason: string }) => {
+    setSubmitting(true);
+    try {
+      await tenantLifecycleAPI.cancel(tenantId, { reason: values.reason.trim() });
+      notify.success('Subscription Cancelled', `${tenantName} has been cancelled`, {
+        record: true,
+        category: 'billing',
+        link: '/billing',
+      });
+      await invalidateQueries(queryKeys.subscriptions.all);
+      close();
+    } catch (error: any) {
+      notify.error('Cancel Failed', error.response?.data?.message || 'Unable to cancel your subscription.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Cancel subscription"
+      open={open}
+      onCancel={close}
+      onOk={() => form.submit()}
+      okText="Cancel subscription"
+      cancelText="Keep subscription"
+      okButtonProps={{ danger: true, disabled: confirmation?.trim() !== tenantName }}
+      confirmLoading={submitting}
+    >
+      <Alert
+        type="warning"
+        showIcon
+        style={{ marginBottom: 16 }}
+        message="Everyone in your organization loses access"
+        description={
+          <>
+            Your data is kept for {RETENTION_DAYS} days and then deleted permanently.{' '}
+            <Button type="link" size="small" icon={<DownloadOutlined />} loading={exporting} onClick={handleExport} style={{ padding: 0 }}>
+              Export your data first
+            </Button>
+          </>
+        }
+      />
+      <Form form={form} layout="vertical" onFinish={handleSubmit}>
+        <Form.Item
+          name="reason"
+          label="Why are you cancelling?"
+          rules={[{ required: true, whitespace: true, message: 'Please tell us why you are cancelling' }]}
+        >
+          <Input.TextArea rows={3} maxLength={500} />
+        </Form.Item>
+        <Paragraph style={{ marginBottom: 8 }}>
+          Type <Text code>{tenantName}</Text> to confirm
+        </Paragraph>
+        <Form.Item name="confirmation" style={{ marginBottom: 0 }}>
+          <Input autoComplete="off" />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Modal, Descriptions, Alert, Checkbox, Spin, Typography, Tag } from 'antd';
+import { useNotification } from '../../contexts/NotificationContext';
+import { subscriptionAPI, tenantLifecycleAPI } from '../../services/api';
+import { useQuery } from '../../hooks/useQuery';
+import { invalidateQueries } from '../../services/queryClient';
+import { queryKeys } from '../../services/queryKeys';
+import { isFeatureIncluded } from '../../utils/billing';
+import { formatMoney } from '../../utils/payroll';
+import { formatDate } from '../../utils/preferences';
+import type { SubscriptionPlan } from '../../types/api';
+
+const { Text } = Typography;
+
+interface ChangePlanModalProps {
+  tenantId: number;
+  currentPlan?: SubscriptionPlan;
+  plan: SubscriptionPlan | null; // the plan being switched to; null keeps the modal closed
+  onClose: () => void;
+}
+
+export default function ChangePlanModal({ tenantId, currentPlan, plan, onClose }: ChangePlanModalProps) {
+  const notify = useNotification();
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: preview, error, isLoading } = useQuery(
+    queryKeys.subscriptions.preview(plan?.id ?? 0),
+    () => subscriptionAPI.previewChange(plan!.id).then(res => res.data),
+    { enabled: !!plan }
+  );
+
+  useEffect(() => {
+    setAcknowledged(false);
+  }, [plan?.id]);
+
+  // Features the tenant has today that the new plan leaves out
+  const lostFeatures = currentPlan && plan
+    ? currentPlan.features
+        .filter(isFeatureIncluded)
+        .filter(f => !plan.features.some(n => n.key === f.key && isFeatureIncluded(n)))
+    : [];
+
+  const isDowngrade = preview ? !preview.isUpgrade : false;
+  const blocked = !preview || preview.blockers.length > 0;
+  const needsAcknowledgement = isDowngrade && lostFeatures.length > 0;
+
+  const handleConfirm = async () => {
+    if (!plan || !preview) return;
+    setSubmitting(true);
+    try {
+      const request = { newPlanId: plan.id };
+      if (preview.isUpgrade) {
+        await tenantLifecycleAPI.upgrade(tenantId, request);
+      } else {
+        await tenantLifecycleAPI.downgrade(tenantId, request);
+      }
+      notify.success('Plan Changed', `Your subscription is now on the ${plan.name} plan`, {
+        record: true,
+        category: 'billing',
+        link: '/billing',
+      });
+      await invalidateQueries(queryKeys.subscriptions.all);
+      onClose();
+    } catch (err: any) {
+      notify.error('Plan Change Failed', err.response?.data?.message || 'Unable to change your plan. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const money = (amount: number) => formatMoney(amount, preview?.currency ?? plan?.currency ?? 'USD');
+
+  return (
+    <Modal
+      title={plan ? `Switch to ${plan.name}` : 'Change plan'}
+      open={!!plan}
+      onCancel={onClose}
+      onOk={handleConfirm}
+      okText={preview?.isUpgrade ? 'Upgrade' : 'Downgrade'}
+      okButtonProps={{ disabled: blocked || (needsAcknowledgement && !acknowledged), danger: isDowngrade }}
+      confirmLoading={submitting}
+      width={560}
+    >
+      {isLoading && <div style={{ textAlign: 'center', padding: 24 }}><Spin /></div>}
+      {!!error && (
+        <Alert
+          type="error"
+          showIcon
+          message="Unable to price this change"
+          description={(error as any).response?.data?.message || 'Please try again later.'}
+        />
+      )}
+      {preview && (
+        <>
+          <Descriptions column={1} size="small" bordered style={{ marginBottom: 16 }}>
+            <Descriptions.Item label="Change">
+              {preview.currentPlanName} → {preview.newPlanName}{' '}
+              <Tag color={preview.isUpgrade ? 'green' : 'orange'}>{preview.isUpgrade ? 'Upgrade' : 'Downgrade'}</Tag>
+            </Descriptions.Item>
+            <Descriptions.Item label="Billing period">
+              {preview.billingPeriod}, {formatDate(preview.periodStart)} – {formatDate(preview.periodEnd)}
+            </Descriptions.Item>
+            <Descriptions.Item label="Days remaining">
+              {preview.daysRemaining} of {preview.daysInPeriod}
+            </Descriptions.Item>
+            <Descriptions.Item label={`New price per ${preview.billingPeriod.toLowerCase()} period`}>
+              {money(preview.newPrice)} <Text type="secondary">(was {money(preview.currentPrice)})</Text>
+            </Descriptions.Item>
+            <Descriptions.Item label="Credit for unused time">-{money(preview.credit)}</Descriptions.Item>
+            <Descriptions.Item label="Charge for remaining time">{money(preview.charge)}</Descriptions.Item>
+            <Descriptions.Item label={preview.amountDue < 0 ? 'Credit to your account' : 'Due now'}>
+              <Text strong>{money(Math.abs(preview.amountDue))}</Text>
+            </Descriptions.Item>
+          </Descriptions>
+
+          {preview.blockers.length > 0 && (
+            <Alert
+              type="error"
+              showIcon
+              style={{ marginBottom: 12 }}
+              message="This plan cannot hold your current usage"
+              description={
+                <ul style={{ margin: 0, paddingLeft: 18 }}>
+                  {preview.blockers.map(b => <li key={b}>{b}</li>)}
+                </ul>
+              }
+            />
+          )}
+
+          {needsAcknowledgement && preview.blockers.length === 0 && (
+            <Alert
+              type="warning"
+              showIcon
+              message="You will lose access to"
+              description={
+                <>
+                  <ul style={{ margin: '0 0 8px', paddingLeft: 18 }}>
+                    {lostFeatures.map(f => <li key={f.key}>{f.name}</li>)}
+                  </ul>
+                  <Checkbox checked={acknowledged} onChange={e => setAcknowledged(e.target.checked)}>
+                    I understand these features are switched off immediately
+                  </Checkbox>
+                </>
+              }
+            />
+          )}
+        </>
+      )}
+    </Modal>
+  );
+}
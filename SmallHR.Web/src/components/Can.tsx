@@ -0,0 +1,35 @@
+import { cloneElement, isValidElement } from 'react';
+import type { ReactElement, ReactNode } from 'react';
+import { Tooltip } from 'antd';
+import { useRolePermissions } from '../hooks/useRolePermissions';
+import type { PermissionAction } from '../hooks/useRolePermissions';
+
+interface CanProps {
+  path: string;
+  action: PermissionAction;
+  mode?: 'hide' | 'disable'; // 'disable' keeps the control visible so the layout does not shift
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+// Renders children only when the current role may perform the action on the page
+export default function Can({ path, action, mode = 'hide', fallback = null, children }: CanProps) {
+  const { canPerformAction } = useRolePermissions();
+
+  if (canPerformAction(path, action)) {
+    return <>{children}</>;
+  }
+
+  if (mode === 'disable' && isValidElement(children)) {
+    return (
+      <Tooltip title={`You don't have permission to ${action} here`}>
+        {/* Disabled buttons swallow mouse events, so the tooltip needs a wrapper */}
+        <span style={{ display: 'inline-block', cursor: 'not-allowed' }}>
+          {cloneElement(children as ReactElement<{ disabled?: boolean }>, { disabled: true })}
+        </span>
+      </Tooltip>
+    );
+  }
+
+  return <>{fallback}</>;
+}
@@ -0,0 +1,57 @@
+import { Alert, Button, Space, Typography } from 'antd';
+import { useContractViolationsStore } from '../store/contractViolationsStore';
+
+const { Text } = Typography;
+
+// Development-only: lists API responses that did not match their zod schema
+export default function ContractViolationOverlay() {
+  const { violations, dismiss, clear } = useContractViolationsStore();
+
+  if (violations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        right: 16,
+        bottom: 16,
+        width: 440,
+        maxHeight: '50vh',
+        overflowY: 'auto',
+        zIndex: 2000,
+        boxShadow: '0 6px 16px rgba(0, 0, 0, 0.2)',
+        borderRadius: 8,
+      }}
+    >
+      <Alert
+        type="error"
+        showIcon
+        message={`API contract drift (${violations.length})`}
+        action={<Button size="small" onClick={clear}>Dismiss all</Button>}
+        description={
+          <Space direction="vertical" style={{ width: '100%' }}>
+            {violations.map(v => (
+              <div key={v.id}>
+                <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+                  <Text strong code>{v.id}</Text>
+                  <Button type="link" size="small" onClick={() => dismiss(v.id)}>Dismiss</Button>
+                </Space>
+                {v.count > 1 && <Text type="secondary"> seen {v.count} times</Text>}
+                <ul style={{ margin: '4px 0 0', paddingLeft: 18 }}>
+                  {v.issues.slice(0, 5).map(issue => (
+                    <li key={issue}><Text style={{ fontSize: 12 }}>{issue}</Text></li>
+                  ))}
+                  {v.issues.length > 5 && (
+                    <li><Text type="secondary" style={{ fontSize: 12 }}>+{v.issues.length - 5} more</Text></li>
+                  )}
+                </ul>
+              </div>
+            ))}
+          </Space>
+        }
+      />
+    </div>
+  );
+}
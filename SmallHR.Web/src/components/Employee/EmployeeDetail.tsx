@@ -1,6 +1,7 @@
 import { Descriptions, Tag, Button, Space, Card } from 'antd';
 import { EditOutlined, ArrowLeftOutlined, UserOutlined, MailOutlined, PhoneOutlined, HomeOutlined, ContactsOutlined } from '@ant-design/icons';
 import dayjs from 'dayjs';
+import Can from '../Can';
 import type { Employee } from '../../types/api';
 
 interface EmployeeDetailProps {
@@ -26,22 +27,24 @@ export default function EmployeeDetail({ employee, onEdit, onBack }: EmployeeDet
         >
           Back to List
         </Button>
-        <Button
-          type="primary"
-          icon={<EditOutlined />}
-          onClick={onEdit}
-          style={{
-            background: 'var(--gradient-primary)',
-            border: 'none',
-            height: 'var(--button-height)',
-            borderRadius: 'var(--button-radius)',
-            fontFamily: 'var(--button-font-family)',
-            fontWeight: 'var(--button-font-weight)',
-            boxShadow: 'var(--button-shadow-primary)',
-          }}
-        >
-          Edit Employee
-        </Button>
+        <Can path="/employees" action="edit">
+          <Button
+            type="primary"
+            icon={<EditOutlined />}
+            onClick={onEdit}
+            style={{
+              background: 'var(--gradient-primary)',
+              border: 'none',
+              height: 'var(--button-height)',
+              borderRadius: 'var(--button-radius)',
+              fontFamily: 'var(--button-font-family)',
+              fontWeight: 'var(--button-font-weight)',
+              boxShadow: 'var(--button-shadow-primary)',
+            }}
+          >
+            Edit Employee
+          </Button>
+        </Can>
       </Space>
 
       {/* Basic Information Card */}
@@ -2,8 +2,14 @@ import { useState, useEffect } from 'react';
 import { Form, Input, DatePicker, Select, InputNumber, Switch, Button, Space, Row, Col } from 'antd';
 import { SaveOutlined, CloseOutlined } from '@ant-design/icons';
 import dayjs from 'dayjs';
-import api, { employeeAPI } from '../../services/api';
+import { employeeAPI, tenantRoleAPI, userManagementAPI } from '../../services/api';
 import { useNotification } from '../../contexts/NotificationContext';
+import { useQuery } from '../../hooks/useQuery';
+import { useCan } from '../../hooks/useRolePermissions';
+import { useRoles } from '../../hooks/useRoles';
+import { fetchQuery } from '../../services/queryClient';
+import { queryKeys } from '../../services/queryKeys';
+import { BUILT_IN_ROLES, SUPER_ADMIN_ROLE } from '../../utils/roles';
 import type { Employee, CreateEmployeeRequest, UpdateEmployeeRequest } from '../../types/api';
 
 interface EmployeeFormProps {
@@ -26,24 +32,41 @@ export default function EmployeeForm({
   const [form] = Form.useForm();
   const notify = useNotification();
   const [loading, setLoading] = useState(false);
+  const { canCreate, canEdit } = useCan('/employees');
+  // Without the matching permission the form is shown read-only
+  const readOnly = mode === 'create' ? !canCreate : !canEdit;
   const [, setIsEmployeeIdChecking] = useState(false);
   const [, setIsEmailChecking] = useState(false);
-  const [roles, setRoles] = useState<string[]>([]);
-
-  useEffect(() => {
-    fetchRoles();
-  }, []);
+  const { isSuperAdmin } = useRoles();
+  // SuperAdmin picks from every role; everyone else from their tenant's built-in and custom roles
+  const { data: allRoles, error: allRolesError } = useQuery(
+    queryKeys.users.roles(),
+    () => userManagementAPI.getRoles().then(res => res.data),
+    { enabled: isSuperAdmin }
+  );
+  const { data: tenantRoles, error: tenantRolesError } = useQuery(
+    queryKeys.tenantRoles.list(),
+    () => tenantRoleAPI.getAll().then(res => res.data),
+    { enabled: !isSuperAdmin }
+  );
+  const fetchedRoles = isSuperAdmin
+    ? allRoles
+    : tenantRoles?.map(r => r.name).filter(name => name !== SUPER_ADMIN_ROLE);
+  // Fallback to default roles if API fails
+  const roles = (isSuperAdmin ? allRolesError : tenantRolesError)
+    ? BUILT_IN_ROLES.filter(name => isSuperAdmin || name !== SUPER_ADMIN_ROLE)
+    : fetchedRoles ?? [];
+  const { data: activeEmployees = [] } = useQuery(
+    queryKeys.employees.active(),
+    () => employeeAPI.getActive().then(res => res.data)
+  );
+  const managerOptions = activeEmployees
+    .filter(e => e.id !== employee?.id)
+    .map(e => ({ label: `${e.firstName} ${e.lastName} (${e.position})`, value: e.id }));
 
-  const fetchRoles = async () => {
-    try {
-      const response = await api.get('/usermanagement/roles');
-      setRoles(response.data || []);
-    } catch (error) {
-      console.error('Failed to fetch roles', error);
-      // Fallback to default roles if API fails
-      setRoles(['SuperAdmin', 'Admin', 'HR', 'Employee']);
-    }
-  };
+  // Uniqueness checks run on every blur; share one cached employee list instead of refetching each time
+  const fetchAllEmployees = () =>
+    fetchQuery(queryKeys.employees.list(), () => employeeAPI.getAll().then(res => res.data));
 
   useEffect(() => {
     if (mode === 'edit' && employee) {
@@ -69,6 +92,7 @@ export default function EmployeeForm({
         emergencyContactPhone: employee.emergencyContactPhone,
         emergencyContactRelationship: employee.emergencyContactRelationship,
         isActive: employee.isActive,
+        managerId: employee.managerId,
       });
     }
   }, [mode, employee, form]);
@@ -104,6 +128,7 @@ export default function EmployeeForm({
           emergencyContactPhone: formattedValues.emergencyContactPhone || '',
           emergencyContactRelationship: formattedValues.emergencyContactRelationship || '',
           role: formattedValues.role || 'Employee',
+          managerId: formattedValues.managerId,
         };
 
         const response = await employeeAPI.create(request);
@@ -129,6 +154,7 @@ export default function EmployeeForm({
           emergencyContactRelationship: formattedValues.emergencyContactRelationship || '',
           isActive: formattedValues.isActive ?? true,
           role: formattedValues.role || 'Employee',
+          managerId: formattedValues.managerId,
         };
 
         const response = await employeeAPI.update(employee.id, request);
@@ -154,8 +180,8 @@ export default function EmployeeForm({
 
     setIsEmployeeIdChecking(true);
     try {
-      const response = await employeeAPI.getAll();
-      const exists = response.data.some((e: Employee) => e.employeeId === value);
+      const employees = await fetchAllEmployees();
+      const exists = employees.some((e: Employee) => e.employeeId === value);
       if (exists) {
         setIsEmployeeIdChecking(false);
         return Promise.reject(new Error('Employee ID already exists'));
@@ -178,8 +204,8 @@ export default function EmployeeForm({
 
     setIsEmailChecking(true);
     try {
-      const response = await employeeAPI.getAll();
-      const exists = response.data.some((e: Employee) => e.email === value);
+      const employees = await fetchAllEmployees();
+      const exists = employees.some((e: Employee) => e.email === value);
       if (exists) {
         setIsEmailChecking(false);
         return Promise.reject(new Error('Email already exists'));
@@ -198,6 +224,7 @@ export default function EmployeeForm({
       form={form}
       layout="vertical"
       onFinish={handleSubmit}
+      disabled={readOnly}
       initialValues={{
         country: 'USA',
         isActive: true,
@@ -348,6 +375,19 @@ export default function EmployeeForm({
             />
           </Form.Item>
         </Col>
+        <Col xs={24} sm={12} md={8}>
+          <Form.Item label="Manager" name="managerId">
+            <Select
+              placeholder="Select manager"
+              allowClear
+              showSearch
+              filterOption={(input, option) =>
+                (option?.label ?? '').toLowerCase().includes(input.toLowerCase())
+              }
+              options={managerOptions}
+            />
+          </Form.Item>
+        </Col>
       </Row>
 
       <Row gutter={16}>
@@ -470,6 +510,7 @@ export default function EmployeeForm({
           <Button
             icon={<CloseOutlined />}
             onClick={onCancel}
+            disabled={false}
             style={{
               height: 'var(--button-height)',
               borderRadius: 'var(--button-radius)',
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { Table, Input, Select, Button, Space, Tag, Popconfirm, message, Tooltip } from 'antd';
 import {
   SearchOutlined,
@@ -12,8 +12,11 @@ import {
 import type { ColumnsType, TableProps } from 'antd/es/table';
 import { employeeAPI, tenantAPI } from '../../services/api';
 import { useNotification } from '../../contexts/NotificationContext';
-import { useAuthStore } from '../../store/authStore';
-import type { Employee, EmployeeSearchRequest, PagedResponse } from '../../types/api';
+import { useQuery } from '../../hooks/useQuery';
+import { useRoles } from '../../hooks/useRoles';
+import { useCan } from '../../hooks/useRolePermissions';
+import { invalidateEmployeeQueries, queryKeys } from '../../services/queryKeys';
+import type { Employee, EmployeeSearchRequest } from '../../types/api';
 
 const { Search } = Input;
 
@@ -35,16 +38,13 @@ export default function EmployeeList({
   onRefresh,
 }: EmployeeListProps) {
   const notify = useNotification();
-  const { user } = useAuthStore();
-  const isSuperAdmin = user?.roles?.[0] === 'SuperAdmin';
-  const [employees, setEmployees] = useState<Employee[]>([]);
+  const { isSuperAdmin } = useRoles();
+  const { canEdit, canDelete } = useCan('/employees');
   const [loading, setLoading] = useState(false);
-  const [tenants, setTenants] = useState<any[]>([]);
   const [selectedRowKeys, setSelectedRowKeys] = useState<React.Key[]>([]);
   const [pagination, setPagination] = useState({
     current: 1,
     pageSize: 10,
-    total: 0,
     showSizeChanger: true,
     showTotal: (total: number) => `Total ${total} employees`,
     pageSizeOptions: ['10', '25', '50', '100'],
@@ -59,56 +59,39 @@ export default function EmployeeList({
   const [sortBy, setSortBy] = useState<string>('FirstName');
   const [sortDirection, setSortDirection] = useState<string>('asc');
 
-  // Fetch tenants for SuperAdmin
-  useEffect(() => {
-    if (isSuperAdmin) {
-      const fetchTenants = async () => {
-        try {
-          const response = await tenantAPI.getAll();
-          setTenants(response.data);
-        } catch (error) {
-          console.error('Failed to fetch tenants:', error);
-        }
-      };
-      fetchTenants();
-    }
-  }, [isSuperAdmin]);
+  // Tenants for the SuperAdmin filter
+  const { data: tenants = [] } = useQuery(
+    queryKeys.tenants.summaries(),
+    () => tenantAPI.getAll().then(res => res.data),
+    { enabled: isSuperAdmin }
+  );
 
-  const fetchEmployees = useCallback(async () => {
-    setLoading(true);
-    try {
-      const searchRequest: EmployeeSearchRequest = {
-        searchTerm: searchTerm || undefined,
-        department: departmentFilter,
-        position: positionFilter,
-        isActive: statusFilter,
-        pageNumber: pagination.current,
-        pageSize: pagination.pageSize,
-        sortBy,
-        sortDirection,
-        tenantId: isSuperAdmin ? tenantFilter : undefined,
-      };
+  const searchRequest: EmployeeSearchRequest = {
+    searchTerm: searchTerm || undefined,
+    department: departmentFilter,
+    position: positionFilter,
+    isActive: statusFilter,
+    pageNumber: pagination.current,
+    pageSize: pagination.pageSize,
+    sortBy,
+    sortDirection,
+    tenantId: isSuperAdmin ? tenantFilter : undefined,
+  };
 
-      const response = await employeeAPI.search(searchRequest);
-      const data: PagedResponse<Employee> = response.data;
+  // Each filter/page combination is cached, so paging back and forth does not refetch
+  const { data: page, isFetching, error: searchError, refetch } = useQuery(
+    queryKeys.employees.search(searchRequest),
+    () => employeeAPI.search(searchRequest).then(res => res.data)
+  );
+  const employees = page?.data ?? [];
 
-      setEmployees(data.data);
-      setPagination(prev => ({
-        ...prev,
-        total: data.totalCount,
-        current: data.pageNumber,
-      }));
-    } catch (error: any) {
+  useEffect(() => {
+    if (searchError) {
+      const error = searchError as any;
       notify.error('Failed to Load Employees', error.response?.data?.message || 'Unable to fetch employees.');
       console.error('Error fetching employees:', error);
-    } finally {
-      setLoading(false);
     }
-  }, [searchTerm, departmentFilter, positionFilter, statusFilter, tenantFilter, pagination.current, pagination.pageSize, sortBy, sortDirection, isSuperAdmin, notify]);
-
-  useEffect(() => {
-    fetchEmployees();
-  }, [fetchEmployees]);
+  }, [searchError]);
 
   const handleTableChange: TableProps<Employee>['onChange'] = (newPagination, _filters, sorter) => {
     const paginationInfo = {
@@ -140,7 +123,6 @@ export default function EmployeeList({
 
   const handleFilterChange = () => {
     setPagination(prev => ({ ...prev, current: 1 }));
-    fetchEmployees();
   };
 
   const handleBulkActivate = async () => {
@@ -157,7 +139,7 @@ export default function EmployeeList({
       await Promise.all(updatePromises);
       notify.success('Employees Activated', `${selectedRowKeys.length} employee(s) have been activated.`);
       setSelectedRowKeys([]);
-      fetchEmployees();
+      await invalidateEmployeeQueries();
       onRefresh?.();
     } catch (error: any) {
       notify.error('Activation Failed', 'Failed to activate selected employees.');
@@ -180,7 +162,7 @@ export default function EmployeeList({
       await Promise.all(updatePromises);
       notify.success('Employees Deactivated', `${selectedRowKeys.length} employee(s) have been deactivated.`);
       setSelectedRowKeys([]);
-      fetchEmployees();
+      await invalidateEmployeeQueries();
       onRefresh?.();
     } catch (error: any) {
       notify.error('Deactivation Failed', 'Failed to deactivate selected employees.');
@@ -259,30 +241,34 @@ export default function EmployeeList({
               style={{ color: 'var(--color-primary)' }}
             />
           </Tooltip>
-          <Tooltip title="Edit">
-            <Button
-              type="link"
-              icon={<EditOutlined />}
-              onClick={() => onEdit(record)}
-              style={{ color: 'var(--color-primary)' }}
-            />
-          </Tooltip>
-          <Popconfirm
-            title="Delete Employee"
-            description={`Are you sure you want to delete ${record.firstName} ${record.lastName}?`}
-            onConfirm={() => onDelete(record.id)}
-            okText="Yes"
-            cancelText="No"
-            okButtonProps={{ danger: true }}
-          >
-            <Tooltip title="Delete">
+          {canEdit && (
+            <Tooltip title="Edit">
               <Button
                 type="link"
-                danger
-                icon={<DeleteOutlined />}
+                icon={<EditOutlined />}
+                onClick={() => onEdit(record)}
+                style={{ color: 'var(--color-primary)' }}
               />
             </Tooltip>
-          </Popconfirm>
+          )}
+          {canDelete && (
+            <Popconfirm
+              title="Delete Employee"
+              description={`Are you sure you want to delete ${record.firstName} ${record.lastName}?`}
+              onConfirm={() => onDelete(record.id)}
+              okText="Yes"
+              cancelText="No"
+              okButtonProps={{ danger: true }}
+            >
+              <Tooltip title="Delete">
+                <Button
+                  type="link"
+                  danger
+                  icon={<DeleteOutlined />}
+                />
+              </Tooltip>
+            </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -370,8 +356,8 @@ export default function EmployeeList({
           <Space>
             <Button
               icon={<ReloadOutlined />}
-              onClick={fetchEmployees}
-              loading={loading}
+              onClick={() => refetch().catch(() => undefined)}
+              loading={loading || isFetching}
             >
               Refresh
             </Button>
@@ -379,7 +365,7 @@ export default function EmployeeList({
         </Space>
 
         {/* Bulk Actions */}
-        {selectedRowKeys.length > 0 && (
+        {canEdit && selectedRowKeys.length > 0 && (
           <Space>
             <Button
               type="primary"
@@ -410,10 +396,10 @@ export default function EmployeeList({
         columns={columns}
         dataSource={employees}
         rowKey="id"
-        loading={loading}
-        pagination={pagination}
+        loading={loading || isFetching}
+        pagination={{ ...pagination, total: page?.totalCount ?? 0 }}
         onChange={handleTableChange}
-        rowSelection={rowSelection}
+        rowSelection={canEdit ? rowSelection : undefined}
         scroll={{ x: 1200 }}
         style={{ background: 'transparent' }}
       />
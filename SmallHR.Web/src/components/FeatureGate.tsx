@@ -0,0 +1,63 @@
+import { cloneElement, isValidElement } from 'react';
+import type { ReactElement, ReactNode } from 'react';
+import { Button, Result, Spin, Tooltip } from 'antd';
+import { LockOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { useFeature } from '../hooks/useFeature';
+
+interface FeatureGateProps {
+  feature: string;
+  // 'page' replaces the content with an upgrade prompt; 'disable' greys out a single control such as a create button
+  mode?: 'page' | 'disable';
+  fallback?: ReactNode;
+  children: ReactNode;
+}
+
+function UpgradePrompt({ name, planName }: { name: string; planName: string | null }) {
+  const navigate = useNavigate();
+  return (
+    <Result
+      icon={<LockOutlined style={{ color: 'var(--color-primary)' }} />}
+      title={`${name} is not included in your plan`}
+      subTitle={
+        planName
+          ? `Your organization is on the ${planName} plan. Ask an administrator to upgrade to use ${name}.`
+          : `Ask an administrator to upgrade your plan to use ${name}.`
+      }
+      extra={<Button type="primary" onClick={() => navigate('/dashboard')}>Back to Dashboard</Button>}
+    />
+  );
+}
+
+// Renders children only when the tenant's plan includes the feature or is still below its limit
+export default function FeatureGate({ feature, mode = 'page', fallback, children }: FeatureGateProps) {
+  const state = useFeature(feature);
+
+  if (state.loading && mode === 'page') {
+    return (
+      <div style={{ textAlign: 'center', padding: 48 }}>
+        <Spin />
+      </div>
+    );
+  }
+
+  if (state.enabled || state.loading) {
+    return <>{children}</>;
+  }
+
+  if (mode === 'disable' && isValidElement(children)) {
+    const reason = state.limit !== null
+      ? `Your ${state.planName ?? 'current'} plan allows ${state.limit} ${(state.name ?? feature).toLowerCase()}; upgrade to add more`
+      : `${state.name ?? feature} is not included in your plan`;
+    return (
+      <Tooltip title={reason}>
+        {/* Disabled buttons swallow mouse events, so the tooltip needs a wrapper */}
+        <span style={{ display: 'inline-block', cursor: 'not-allowed' }}>
+          {cloneElement(children as ReactElement<{ disabled?: boolean }>, { disabled: true })}
+        </span>
+      </Tooltip>
+    );
+  }
+
+  return <>{fallback ?? <UpgradePrompt name={state.name ?? feature} planName={state.planName} />}</>;
+}
@@ -0,0 +1,27 @@
+import { Progress, Tooltip } from 'antd';
+import { useFeature } from '../hooks/useFeature';
+
+interface FeatureUsageProps {
+  feature: string;
+  label: string; // plural noun, e.g. "employees"
+}
+
+// "X of Y used" for a limit-type plan feature; renders nothing when the plan sets no limit
+export default function FeatureUsage({ feature, label }: FeatureUsageProps) {
+  const { limit, used, planName } = useFeature(feature);
+  if (limit === null || used === null) return null;
+
+  const percent = limit > 0 ? Math.min(Math.round((used / limit) * 100), 100) : 100;
+  const status = used >= limit ? 'exception' : percent >= 80 ? 'active' : 'normal';
+
+  return (
+    <Tooltip title={planName ? `${planName} plan` : undefined}>
+      <div style={{ display: 'inline-flex', alignItems: 'center', gap: 8, minWidth: 180 }}>
+        <span style={{ fontSize: 12, color: 'var(--color-text-secondary)', whiteSpace: 'nowrap' }}>
+          {used} of {limit} {label} used
+        </span>
+        <Progress percent={percent} status={status} showInfo={false} size="small" style={{ width: 80, margin: 0 }} />
+      </div>
+    </Tooltip>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Alert, Button, Space } from 'antd';
 import { UserSwitchOutlined, CloseOutlined } from '@ant-design/icons';
-import api from '../services/api';
+import { stopImpersonation } from '../services/impersonation';
 import { useNotification } from '../contexts/NotificationContext';
 
 interface ImpersonationBannerProps {
@@ -37,7 +37,7 @@ export default function ImpersonationBanner({
 
   const handleStopImpersonation = async () => {
     try {
-      await api.post('/admin/tenants/stop-impersonation');
+      await stopImpersonation();
       notify.success('Impersonation Stopped', 'You are now back to SuperAdmin view.');
       onStopImpersonation();
     } catch (error: any) {
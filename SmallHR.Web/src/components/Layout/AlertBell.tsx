@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { Badge, Tooltip } from 'antd';
+import { AlertOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '../../hooks/useQuery';
+import { alertsAPI } from '../../services/api';
+import { queryKeys } from '../../services/queryKeys';
+
+// Active platform alerts for SuperAdmin; the count is refreshed by alert events rather than polling
+export default function AlertBell() {
+  const navigate = useNavigate();
+  const [isHovered, setIsHovered] = useState(false);
+
+  const { data: statistics } = useQuery(
+    queryKeys.alerts.statistics(),
+    () => alertsAPI.getStatistics().then(res => res.data)
+  );
+
+  const active = statistics?.activeAlerts ?? 0;
+  const critical = statistics?.criticalAlerts ?? 0;
+  const title = active === 0
+    ? 'No active alerts'
+    : `${active} active alert${active !== 1 ? 's' : ''}${critical > 0 ? `, ${critical} critical` : ''}`;
+
+  return (
+    <Tooltip title={title}>
+      <div
+        onClick={() => navigate('/admin/alerts')}
+        onMouseEnter={() => setIsHovered(true)}
+        onMouseLeave={() => setIsHovered(false)}
+        style={{
+          width: 36,
+          height: 36,
+          borderRadius: 8,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          cursor: 'pointer',
+          transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+          color: isHovered ? 'var(--color-primary)' : 'var(--color-text-secondary, #64748B)',
+          background: isHovered ? 'var(--primary-08a)' : 'transparent',
+        }}
+      >
+        <Badge count={active} size="small" overflowCount={99} color={critical > 0 ? '#ff4d4f' : '#fa8c16'}>
+          <AlertOutlined style={{ fontSize: 16, color: 'inherit' }} />
+        </Badge>
+      </div>
+    </Tooltip>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Tooltip, Tag, Breadcrumb } from 'antd';
+import { Tooltip, Tag, Breadcrumb, Dropdown } from 'antd';
 import {
   FullscreenOutlined,
   FullscreenExitOutlined,
@@ -9,10 +9,17 @@ import {
   BulbFilled,
   MenuFoldOutlined,
   MenuUnfoldOutlined,
+  SwapOutlined,
 } from '@ant-design/icons';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { useAuthStore } from '../../store/authStore';
+import AlertBell from './AlertBell';
+import NotificationBell from './NotificationBell';
 import { useTheme } from '../../contexts/ThemeContext';
+import { usePreferences } from '../../hooks/usePreferences';
+import { useRoles } from '../../hooks/useRoles';
+import { findModuleForLocation, getModuleTrail } from '../../services/moduleRegistry';
+import { getLandingPage } from '../../utils/preferences';
+import { roleLabel } from '../../utils/roles';
 
 interface HeaderProps {
   collapsed: boolean;
@@ -22,8 +29,9 @@ interface HeaderProps {
 export default function Header({ collapsed, onToggle }: HeaderProps) {
   const location = useLocation();
   const navigate = useNavigate();
-  const { user } = useAuthStore();
+  const { roles, allRoles, activeRole, setActiveRole, isSuperAdmin } = useRoles();
   const { isDarkMode, toggleDarkMode } = useTheme();
+  const { preferences, savePreferences } = usePreferences();
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [isHovered, setIsHovered] = useState(false);
@@ -48,10 +56,35 @@ export default function Header({ collapsed, onToggle }: HeaderProps) {
     return currentTime.toLocaleTimeString('en-US', {
       hour: '2-digit',
       minute: '2-digit',
-      hour12: true,
+      hour12: preferences.timeFormat === '12h',
     });
   };
 
+  const handleToggleDarkMode = () => {
+    toggleDarkMode();
+    // The switch has already happened locally; saving only carries it to other browsers
+    savePreferences({ themeMode: isDarkMode ? 'light' : 'dark' }).catch(() => {});
+  };
+
+  // Acting in a narrower role reloads permissions, and the current page may no longer be allowed
+  const handleSwitchRole = async (role: string | null) => {
+    if (role === activeRole) return;
+    await setActiveRole(role);
+    navigate(getLandingPage());
+  };
+
+  const roleTagStyle = {
+    borderRadius: 'var(--radius-full)',
+    padding: '6px 12px',
+    fontSize: 11,
+    fontWeight: 600,
+    border: 'none',
+    background: 'var(--gradient-primary)',
+    color: 'white',
+    boxShadow: '0 2px 8px rgba(79, 70, 229, 0.3)',
+    margin: 0,
+  };
+
   const formatDate = () => {
     return currentTime.toLocaleDateString('en-US', {
       weekday: 'short',
@@ -71,6 +104,19 @@ export default function Header({ collapsed, onToggle }: HeaderProps) {
     
     // For other pages, start with Home and build the path
     const breadcrumbs: Array<{ title: string; href?: string }> = [{ title: 'Home', href: '/dashboard' }];
+
+    // Registered modules show their parents (Organization / Departments); other paths are split by segment
+    const module = findModuleForLocation(location.pathname);
+    if (module) {
+      const trail = getModuleTrail(module).reverse();
+      trail.forEach((m, index) => {
+        breadcrumbs.push({
+          title: m.name,
+          href: index === trail.length - 1 ? undefined : m.path,
+        });
+      });
+      return breadcrumbs;
+    }
     
     pathParts.forEach((part, index) => {
       const isLast = index === pathParts.length - 1;
@@ -164,10 +210,14 @@ export default function Header({ collapsed, onToggle }: HeaderProps) {
         </div>
       </div>
 
+      {isSuperAdmin && <AlertBell />}
+
+      <NotificationBell />
+
       {/* Dark Mode Toggle */}
       <Tooltip title={isDarkMode ? 'Light Mode' : 'Dark Mode'}>
         <div
-          onClick={toggleDarkMode}
+          onClick={handleToggleDarkMode}
           style={{
             width: 36,
             height: 36,
@@ -261,22 +311,32 @@ export default function Header({ collapsed, onToggle }: HeaderProps) {
         </div>
       </Tooltip>
 
-      {/* User Role Badge */}
-      <Tag
-        style={{
-          borderRadius: 'var(--radius-full)',
-          padding: '6px 12px',
-          fontSize: 11,
-          fontWeight: 600,
-          border: 'none',
-          background: 'var(--gradient-primary)',
-          color: 'white',
-          boxShadow: '0 2px 8px rgba(79, 70, 229, 0.3)',
-          margin: 0,
-        }}
-      >
-        {user?.roles?.[0] || 'User'}
-      </Tag>
+      {/* User Role Badge - doubles as a role switcher for users with several roles */}
+      {allRoles.length > 1 ? (
+        <Dropdown
+          trigger={['click']}
+          menu={{
+            selectable: true,
+            selectedKeys: [activeRole ?? 'all'],
+            items: [
+              { key: 'all', label: `All my roles (${roleLabel(allRoles)})` },
+              { type: 'divider' },
+              ...allRoles.map(role => ({ key: role, label: `Act as ${role}` })),
+            ],
+            onClick: ({ key }) => handleSwitchRole(key === 'all' ? null : key),
+          }}
+        >
+          <Tooltip title="Switch role">
+            <Tag icon={<SwapOutlined />} style={{ ...roleTagStyle, cursor: 'pointer' }}>
+              {roleLabel(roles)}
+            </Tag>
+          </Tooltip>
+        </Dropdown>
+      ) : (
+        <Tag style={roleTagStyle}>
+          {roleLabel(roles)}
+        </Tag>
+      )}
       </div>
     </div>
   );
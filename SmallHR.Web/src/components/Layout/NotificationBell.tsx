@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Badge, Button, Empty, List, Popover, Spin, Tag, Tooltip, Typography } from 'antd';
+import { BellOutlined, CloseOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { useNotification } from '../../contexts/NotificationContext';
+import { useQuery } from '../../hooks/useQuery';
+import { notificationsAPI } from '../../services/api';
+import { invalidateQueries } from '../../services/queryClient';
+import { queryKeys } from '../../services/queryKeys';
+import { notificationCategoryInfo } from '../../utils/notifications';
+import { formatDateTime } from '../../utils/preferences';
+import type { InboxNotification } from '../../types/api';
+
+const { Text } = Typography;
+
+const LIST_PARAMS = { pageSize: 10 };
+
+// The signed-in user's inbox; new entries arrive through the notification.created live event
+export default function NotificationBell() {
+  const notify = useNotification();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [isHovered, setIsHovered] = useState(false);
+
+  const { data: unread = 0 } = useQuery(
+    queryKeys.inbox.unreadCount(),
+    () => notificationsAPI.getUnreadCount().then(res => res.data.count)
+  );
+  const { data: page, isLoading } = useQuery(
+    queryKeys.inbox.list(LIST_PARAMS),
+    () => notificationsAPI.getAll(LIST_PARAMS).then(res => res.data),
+    { enabled: open }
+  );
+
+  const handleOpen = async (item: InboxNotification) => {
+    setOpen(false);
+    try {
+      if (!item.isRead) {
+        await notificationsAPI.markAsRead(item.id);
+        invalidateQueries(queryKeys.inbox.all);
+      }
+    } catch {
+      // Opening the link matters more than the read marker
+    }
+    if (item.link) navigate(item.link);
+  };
+
+  const handleDismiss = async (item: InboxNotification) => {
+    try {
+      await notificationsAPI.delete(item.id);
+      invalidateQueries(queryKeys.inbox.all);
+    } catch (error: any) {
+      notify.error('Dismiss Failed', error.response?.data?.message || 'Unable to remove the notification.');
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationsAPI.markAllAsRead();
+      invalidateQueries(queryKeys.inbox.all);
+    } catch (error: any) {
+      notify.error('Update Failed', error.response?.data?.message || 'Unable to mark notifications as read.');
+    }
+  };
+
+  const notifications = page?.data ?? [];
+
+  const content = (
+    <div style={{ width: 360 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+        <Text strong>Notifications</Text>
+        <Button type="link" size="small" disabled={unread === 0} onClick={handleMarkAllRead} style={{ padding: 0 }}>
+          Mark all as read
+        </Button>
+      </div>
+      {isLoading && notifications.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: 24 }}><Spin /></div>
+      ) : notifications.length === 0 ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="You're all caught up" />
+      ) : (
+        <List
+          dataSource={notifications}
+          style={{ maxHeight: 400, overflowY: 'auto' }}
+          renderItem={item => {
+            const category = notificationCategoryInfo(item.category);
+            return (
+              <List.Item
+                onClick={() => handleOpen(item)}
+                style={{
+                  cursor: item.link || !item.isRead ? 'pointer' : 'default',
+                  padding: '8px 4px',
+                  background: item.isRead ? undefined : 'var(--primary-08a)',
+                }}
+                actions={[
+                  <Tooltip key="dismiss" title="Dismiss">
+                    <CloseOutlined
+                      style={{ fontSize: 12 }}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDismiss(item);
+                      }}
+                    />
+                  </Tooltip>,
+                ]}
+              >
+                <List.Item.Meta
+                  title={
+                    <span style={{ fontWeight: item.isRead ? 400 : 600 }}>
+                      {item.title}
+                    </span>
+                  }
+                  description={
+                    <>
+                      {item.message && <div style={{ fontSize: 12 }}>{item.message}</div>}
+                      <div style={{ fontSize: 11, marginTop: 2 }}>
+                        <Tag color={category.color} style={{ fontSize: 10, lineHeight: '16px', marginRight: 6 }}>
+                          {category.label}
+                        </Tag>
+                        {formatDateTime(item.createdAt)}
+                      </div>
+                    </>
+                  }
+                />
+              </List.Item>
+            );
+          }}
+        />
+      )}
+      {page && page.totalCount > notifications.length && (
+        <Text type="secondary" style={{ display: 'block', fontSize: 12, marginTop: 8 }}>
+          Showing the latest {notifications.length} of {page.totalCount}
+        </Text>
+      )}
+    </div>
+  );
+
+  return (
+    <Popover content={content} trigger="click" placement="bottomRight" open={open} onOpenChange={setOpen}>
+      <Tooltip title={open ? undefined : unread === 0 ? 'Notifications' : `${unread} unread notification${unread !== 1 ? 's' : ''}`}>
+        <div
+          onMouseEnter={() => setIsHovered(true)}
+          onMouseLeave={() => setIsHovered(false)}
+          style={{
+            width: 36,
+            height: 36,
+            borderRadius: 8,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            cursor: 'pointer',
+            transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+            color: isHovered || open ? 'var(--color-primary)' : 'var(--color-text-secondary, #64748B)',
+            background: isHovered || open ? 'var(--primary-08a)' : 'transparent',
+          }}
+        >
+          <Badge count={unread} size="small" overflowCount={99}>
+            <BellOutlined style={{ fontSize: 16, color: 'inherit' }} />
+          </Badge>
+        </div>
+      </Tooltip>
+    </Popover>
+  );
+}
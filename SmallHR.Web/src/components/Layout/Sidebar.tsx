@@ -1,24 +1,22 @@
 import React, { useEffect, useState } from 'react';
-import { Tooltip, Spin, Empty } from 'antd';
+import { Tooltip, Spin, Empty, Badge } from 'antd';
 import { useNavigate, useLocation } from 'react-router-dom';
 import {
-  DashboardOutlined,
-  TeamOutlined,
-  CalendarOutlined,
-  DollarOutlined,
-  BarChartOutlined,
-  UserOutlined,
   BellOutlined,
   SettingOutlined,
   LogoutOutlined,
-  SafetyOutlined,
   CaretDownOutlined,
   CaretRightOutlined,
-  ApartmentOutlined,
 } from '@ant-design/icons';
 import { useAuthStore } from '../../store/authStore';
 import { useRolePermissions } from '../../hooks/useRolePermissions';
-import { useModulesStore } from '../../store/modulesStore';
+import { useRoles } from '../../hooks/useRoles';
+import { useMenuModules } from '../../hooks/useMenuModules';
+import { useQuery } from '../../hooks/useQuery';
+import { noticeAPI } from '../../services/api';
+import { queryKeys } from '../../services/queryKeys';
+import { flattenModuleTree } from '../../services/modules';
+import { MODULES, getModule, getModuleIcon, getModulePermission } from '../../services/moduleRegistry';
 import type { ModuleNode } from '../../services/modules';
 
 interface MenuItem {
@@ -42,32 +40,26 @@ interface SidebarProps {
 export default function Sidebar({ collapsed }: SidebarProps) {
   const navigate = useNavigate();
   const location = useLocation();
-  const { logout, user } = useAuthStore();
+  const { logout } = useAuthStore();
+  const { isSuperAdmin } = useRoles();
   const { canAccessPage } = useRolePermissions();
   const [activeKey, setActiveKey] = useState(location.pathname);
   const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
 
-  const { modules, loading, refresh } = useModulesStore();
-  const isSuperAdmin = user?.roles?.[0] === 'SuperAdmin';
+  const { modules, loading, refresh } = useMenuModules();
 
   useEffect(() => {
     refresh();
   }, [refresh]);
 
-  const pickIcon = (_name: string, path: string) => {
-    const p = path.toLowerCase();
-    if (p.includes('dashboard')) return <DashboardOutlined />;
-    if (p.includes('employee')) return <UserOutlined />;
-    if (p.includes('organization')) return <TeamOutlined />;
-    if (p.includes('department')) return <TeamOutlined />;
-    if (p.includes('position')) return <UserOutlined />;
-    if (p.includes('calendar')) return <CalendarOutlined />;
-    if (p.includes('payroll') || p.includes('expense')) return <DollarOutlined />;
-    if (p.includes('notice') || p.includes('report')) return <BarChartOutlined />;
-    if (p.includes('permission') || p.includes('role')) return <SafetyOutlined />;
-    if (p.includes('tenant')) return <ApartmentOutlined />;
-    return <BellOutlined />;
-  };
+  // Unread notice count for the Notice Board badge; SuperAdmin has no tenant notice board
+  const { data: unreadNotices = 0 } = useQuery(
+    queryKeys.notices.unreadCount(),
+    () => noticeAPI.getUnreadCount().then(res => res.data.count),
+    { enabled: !isSuperAdmin && canAccessPage('/notice-board'), refetchInterval: 60000 }
+  );
+
+  const badgeFor = (path: string) => (path === '/notice-board' ? unreadNotices : 0);
 
   const flattenToSections = (nodes: ModuleNode[]): MenuSection[] => {
     // Convert first-level nodes to sections; preserve children structure
@@ -83,12 +75,12 @@ export default function Sidebar({ collapsed }: SidebarProps) {
           const firstChild = accessibleChildren[0];
           items.push({
             key: n.path || firstChild.path,
-            icon: pickIcon(n.name, n.path || firstChild.path),
+            icon: getModuleIcon(n.path),
             label: n.name,
             path: firstChild.path, // Navigate to first child when clicking parent
             children: accessibleChildren.map(c => ({
               key: c.path,
-              icon: pickIcon(c.name, c.path),
+              icon: getModuleIcon(c.path),
               label: c.name,
               path: c.path,
             }))
@@ -99,7 +91,7 @@ export default function Sidebar({ collapsed }: SidebarProps) {
         if (canAccessPage(n.path)) {
           items.push({
             key: n.path,
-            icon: pickIcon(n.name, n.path),
+            icon: getModuleIcon(n.path),
             label: n.name,
             path: n.path,
           });
@@ -114,132 +106,18 @@ export default function Sidebar({ collapsed }: SidebarProps) {
     });
   };
 
-  // Add SuperAdmin-specific menu items
-  const getSuperAdminMenuItems = (): MenuItem[] => {
-    if (!isSuperAdmin) return [];
-    
-    const items: MenuItem[] = [];
-    
-    // SuperAdmin always has access to admin endpoints, but check permissions for consistency
-    if (canAccessPage('/admin/dashboard')) {
-      items.push({
-        key: '/admin/dashboard',
-        icon: <DashboardOutlined />,
-        label: 'SuperAdmin Dashboard',
-        path: '/admin/dashboard',
-      });
-    }
-    
-    if (canAccessPage('/admin/tenants')) {
-      items.push({
-        key: '/admin/tenants',
-        icon: <ApartmentOutlined />,
-        label: 'Tenants',
-        path: '/admin/tenants',
-      });
-    }
-    
-    if (canAccessPage('/admin/billing')) {
-      items.push({
-        key: '/admin/billing',
-        icon: <DollarOutlined />,
-        label: 'Billing Center',
-        path: '/admin/billing',
-      });
-    }
-    
-    if (canAccessPage('/admin/alerts')) {
-      items.push({
-        key: '/admin/alerts',
-        icon: <BellOutlined />,
-        label: 'Alerts Hub',
-        path: '/admin/alerts',
-      });
-    }
-    
-    if (canAccessPage('/admin/usage')) {
-      items.push({
-        key: '/admin/usage',
-        icon: <BarChartOutlined />,
-        label: 'Usage Dashboard',
-        path: '/admin/usage',
-      });
-    }
-    
-    if (canAccessPage('/role-permissions')) {
-      items.push({
-        key: '/role-permissions',
-        icon: <SafetyOutlined />,
-        label: 'Role Permissions',
-        path: '/role-permissions',
-      });
-    }
-    
-    return items;
-  };
-
-  // Add Admin-specific menu items based on permissions
-  const getAdminMenuItems = (): MenuItem[] => {
-    const isAdmin = user?.roles?.[0] === 'Admin';
-    if (!isAdmin) return [];
-    
-    const items: MenuItem[] = [];
-    
-    // Only add Role Permissions if Admin has permission to access it
-    if (canAccessPage('/role-permissions')) {
-      items.push({
-        key: '/role-permissions',
-        icon: <SafetyOutlined />,
-        label: 'Role Permissions',
-        path: '/role-permissions',
-      });
-    }
-    
-    return items;
-  };
-
-  // Use modules from database (built from permissions)
-  // SuperAdmin will get all pages from database, no fallback needed
-  // Tenant Admin will get pages based on their initialized permissions
-  const modulesToUse = modules;
+  // Administration pages sit in their own section at the top: platform pages for SuperAdmin,
+  // and tenant pages such as Role Permissions for whoever the server lets open them
+  const visiblePaths = new Set(flattenModuleTree(modules).map(n => n.path));
+  const adminMenuItems: MenuItem[] = MODULES
+    .filter(m => m.admin && !m.hideInMenu)
+    .filter(m => (m.platform ? isSuperAdmin : visiblePaths.has(m.path)) && canAccessPage(getModulePermission(m)))
+    .map(m => ({ key: m.path, icon: m.icon, label: m.name, path: m.path }));
 
-  const regularMenuSections: MenuSection[] = flattenToSections(modulesToUse);
-  
-  // Add SuperAdmin section if user is SuperAdmin
-  const superAdminMenuItems = getSuperAdminMenuItems();
-  const adminMenuItems = getAdminMenuItems();
-  let menuSections: MenuSection[] = regularMenuSections;
-  
-  if (isSuperAdmin && superAdminMenuItems.length > 0) {
-    // Add SuperAdmin section at the beginning
-    menuSections = [
-      {
-        title: 'Administration',
-        items: superAdminMenuItems,
-        hasChildren: false,
-      },
-      ...regularMenuSections,
-    ];
-  } else if (adminMenuItems.length > 0) {
-    // Add Admin-specific menu items (e.g., Role Permissions)
-    // Check if "Settings" section already exists in regularMenuSections
-    const hasSettingsSection = regularMenuSections.some(s => 
-      s.title.toLowerCase() === 'settings' || 
-      s.items.some(i => i.path === '/settings')
-    );
-    
-    // Use "Administration" title if Settings section already exists to avoid duplicates
-    const adminSectionTitle = hasSettingsSection ? 'Administration' : 'Settings';
-    
-    menuSections = [
-      {
-        title: adminSectionTitle,
-        items: adminMenuItems,
-        hasChildren: false,
-      },
-      ...regularMenuSections,
-    ];
-  }
+  const regularMenuSections = flattenToSections(modules.filter(n => !getModule(n.path)?.admin));
+  const menuSections: MenuSection[] = adminMenuItems.length > 0
+    ? [{ title: 'Administration', items: adminMenuItems, hasChildren: false }, ...regularMenuSections]
+    : regularMenuSections;
 
   const handleMenuClick = (path: string) => {
     setActiveKey(path);
@@ -420,10 +298,13 @@ export default function Sidebar({ collapsed }: SidebarProps) {
                       }
                     }}
                   >
-                    <span style={{ fontSize: 16, display: 'flex', alignItems: 'center' }}>{item.icon}</span>
+                    <span style={{ fontSize: 16, display: 'flex', alignItems: 'center' }}>
+                      {collapsed ? <Badge dot={badgeFor(item.path) > 0}>{item.icon}</Badge> : item.icon}
+                    </span>
                     {!collapsed && (
                       <>
                         <span style={{ flex: 1 }}>{item.label}</span>
+                        {badgeFor(item.path) > 0 && <Badge count={badgeFor(item.path)} size="small" />}
                         {hasChildren && (
                           <span style={{ fontSize: 10 }}>
                             {isExpanded ? <CaretDownOutlined /> : <CaretRightOutlined />}
@@ -474,7 +355,8 @@ export default function Sidebar({ collapsed }: SidebarProps) {
                             }}
                           >
                             <span style={{ fontSize: 14 }}>{child.icon}</span>
-                            <span>{child.label}</span>
+                            <span style={{ flex: 1 }}>{child.label}</span>
+                            {badgeFor(child.path) > 0 && <Badge count={badgeFor(child.path)} size="small" />}
                           </div>
                         );
                       })}
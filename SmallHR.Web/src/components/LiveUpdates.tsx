@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { useNotification } from '../contexts/NotificationContext';
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import { useAuthStore } from '../store/authStore';
+import { useModulesStore } from '../store/modulesStore';
+import { endImpersonationSession, hasImpersonationSession, isStoppingImpersonation } from '../services/impersonation';
+import { connectLiveEvents, disconnectLiveEvents } from '../services/liveEvents';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+
+// Keeps the signed-in session connected to the live event stream and applies app-wide reactions;
+// pages that show the affected data refetch through query invalidation
+export default function LiveUpdates() {
+  const notify = useNotification();
+  const { isAuthenticated, user } = useAuthStore();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    connectLiveEvents();
+    return disconnectLiveEvents;
+  }, [isAuthenticated, user?.id]);
+
+  useLiveEvent('permissions.changed', ({ roles }) => {
+    const userRoles = useAuthStore.getState().user?.roles ?? [];
+    if (roles && !roles.some(role => userRoles.includes(role))) return;
+
+    invalidateQueries(queryKeys.rolePermissions.all).then(() =>
+      Promise.all([useAuthStore.getState().fetchPermissions(), useModulesStore.getState().refresh(true)])
+    );
+  });
+
+  useLiveEvent('alert.created', () => {
+    invalidateQueries(queryKeys.alerts.all);
+    invalidateQueries(queryKeys.usage.all);
+  });
+
+  useLiveEvent('alert.updated', () => {
+    invalidateQueries(queryKeys.alerts.all);
+    invalidateQueries(queryKeys.usage.all);
+  });
+
+  // Stopped from another tab or window; this tab must not keep acting as the tenant
+  useLiveEvent('impersonation.ended', () => {
+    if (isStoppingImpersonation() || !hasImpersonationSession()) return;
+    endImpersonationSession();
+    notify.info('Impersonation Ended', 'Impersonation was stopped in another window. You are back to your SuperAdmin view.');
+  });
+
+  useLiveEvent('notification.created', () => {
+    invalidateQueries(queryKeys.inbox.all);
+  });
+
+  return null;
+}
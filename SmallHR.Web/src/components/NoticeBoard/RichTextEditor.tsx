@@ -0,0 +1,88 @@
+import { useEffect, useRef } from 'react';
+import { Button, Space, Tooltip } from 'antd';
+import {
+  BoldOutlined,
+  ClearOutlined,
+  ItalicOutlined,
+  LinkOutlined,
+  OrderedListOutlined,
+  UnderlineOutlined,
+  UnorderedListOutlined,
+} from '@ant-design/icons';
+import { sanitizeHtml } from '../../utils/html';
+import './NoticeBoard.css';
+
+interface RichTextEditorProps {
+  value?: string;
+  onChange?: (value: string) => void;
+  placeholder?: string;
+  minHeight?: number;
+}
+
+// Minimal contentEditable editor; works as a controlled antd Form.Item child
+export default function RichTextEditor({ value, onChange, placeholder, minHeight = 200 }: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  // Only push outside changes (form reset, editing another notice) into the DOM so the caret stays put while typing
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && editor.innerHTML !== (value ?? '')) {
+      editor.innerHTML = sanitizeHtml(value ?? '');
+    }
+  }, [value]);
+
+  const emitChange = () => {
+    if (editorRef.current) onChange?.(editorRef.current.innerHTML);
+  };
+
+  const exec = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, argument);
+    emitChange();
+  };
+
+  const insertLink = () => {
+    const url = window.prompt('Link URL', 'https://');
+    if (url) exec('createLink', url);
+  };
+
+  const tools = [
+    { title: 'Bold', icon: <BoldOutlined />, run: () => exec('bold') },
+    { title: 'Italic', icon: <ItalicOutlined />, run: () => exec('italic') },
+    { title: 'Underline', icon: <UnderlineOutlined />, run: () => exec('underline') },
+    { title: 'Heading', icon: <strong>H</strong>, run: () => exec('formatBlock', 'H3') },
+    { title: 'Bulleted list', icon: <UnorderedListOutlined />, run: () => exec('insertUnorderedList') },
+    { title: 'Numbered list', icon: <OrderedListOutlined />, run: () => exec('insertOrderedList') },
+    { title: 'Link', icon: <LinkOutlined />, run: insertLink },
+    { title: 'Clear formatting', icon: <ClearOutlined />, run: () => exec('removeFormat') },
+  ];
+
+  return (
+    <div style={{ border: '1px solid var(--color-border)', borderRadius: 8, background: 'var(--color-surface)' }}>
+      <Space size={2} wrap style={{ padding: 4, borderBottom: '1px solid var(--color-border)', width: '100%' }}>
+        {tools.map(tool => (
+          <Tooltip key={tool.title} title={tool.title}>
+            <Button
+              type="text"
+              size="small"
+              icon={tool.icon}
+              // Keep the text selection inside the editor when clicking toolbar buttons
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={tool.run}
+            />
+          </Tooltip>
+        ))}
+      </Space>
+      <div
+        ref={editorRef}
+        className="notice-content"
+        contentEditable
+        suppressContentEditableWarning
+        data-placeholder={placeholder}
+        onInput={emitChange}
+        onBlur={emitChange}
+        style={{ minHeight, padding: '8px 12px', outline: 'none' }}
+      />
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
 import { Button } from 'antd';
 import { ClockCircleOutlined } from '@ant-design/icons';
-import { useAuthStore } from '../store/authStore';
+import { useNavigate } from 'react-router-dom';
+import { useRoles } from '../hooks/useRoles';
+import { formatDate, formatTime } from '../utils/preferences';
+import { roleLabel } from '../utils/roles';
 
 interface PageHeaderProps {
   title: string;
@@ -9,7 +12,8 @@ interface PageHeaderProps {
 }
 
 export default function PageHeader({ title, subtitle }: PageHeaderProps) {
-  const { user } = useAuthStore();
+  const { roles } = useRoles();
+  const navigate = useNavigate();
   const [currentTime, setCurrentTime] = useState(new Date());
 
   useEffect(() => {
@@ -20,22 +24,6 @@ export default function PageHeader({ title, subtitle }: PageHeaderProps) {
     return () => clearInterval(timer);
   }, []);
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString('en-US', {
-      hour: '2-digit',
-      minute: '2-digit',
-      hour12: true,
-    });
-  };
-
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
-      day: '2-digit',
-      month: 'short',
-      year: 'numeric',
-    });
-  };
-
   return (
     <div
       style={{
@@ -90,7 +78,7 @@ export default function PageHeader({ title, subtitle }: PageHeaderProps) {
             fontFamily: 'var(--button-font-family)',
           }}
         >
-          {user?.roles?.[0] || 'User'}
+          {roleLabel(roles)}
         </span>
       </div>
 
@@ -127,6 +115,7 @@ export default function PageHeader({ title, subtitle }: PageHeaderProps) {
           type="primary"
           icon={<ClockCircleOutlined />}
           size="small"
+          onClick={() => navigate('/attendance')}
           style={{
             height: 32,
             paddingLeft: 12,
@@ -0,0 +1,54 @@
+import { Descriptions, Divider, Tag, Typography } from 'antd';
+import type { Payslip } from '../../types/api';
+import { formatMoney, payRunStatusColor, periodLabel } from '../../utils/payroll';
+import { formatDate } from '../../utils/preferences';
+
+const { Text } = Typography;
+
+interface PayslipViewProps {
+  payslip: Payslip;
+}
+
+export default function PayslipView({ payslip }: PayslipViewProps) {
+  const money = (amount: number) => formatMoney(amount, payslip.currency);
+
+  return (
+    <div>
+      <Descriptions column={2} size="small">
+        <Descriptions.Item label="Employee">{payslip.employeeName}</Descriptions.Item>
+        <Descriptions.Item label="Period">
+          {periodLabel(payslip.year, payslip.month)}{' '}
+          <Tag color={payRunStatusColor(payslip.status)}>{payslip.status}</Tag>
+        </Descriptions.Item>
+        <Descriptions.Item label="Department">{payslip.department || '—'}</Descriptions.Item>
+        <Descriptions.Item label="Position">{payslip.position || '—'}</Descriptions.Item>
+        <Descriptions.Item label="Pay Date">{formatDate(payslip.payDate)}</Descriptions.Item>
+      </Descriptions>
+
+      <Divider orientation="left">Earnings</Divider>
+      <Descriptions column={1} size="small" bordered>
+        <Descriptions.Item label="Base Salary">{money(payslip.baseSalary)}</Descriptions.Item>
+        <Descriptions.Item label={`Overtime (${payslip.overtimeHours.toFixed(1)}h)`}>
+          {money(payslip.overtimePay)}
+        </Descriptions.Item>
+        <Descriptions.Item label={`Unpaid Leave (${payslip.unpaidLeaveDays} day(s))`}>
+          {payslip.unpaidLeaveDeduction > 0 ? `−${money(payslip.unpaidLeaveDeduction)}` : money(0)}
+        </Descriptions.Item>
+        <Descriptions.Item label={<Text strong>Gross Pay</Text>}>
+          <Text strong>{money(payslip.grossPay)}</Text>
+        </Descriptions.Item>
+      </Descriptions>
+
+      <Divider orientation="left">Deductions</Divider>
+      <Descriptions column={1} size="small" bordered>
+        <Descriptions.Item label="Tax">{money(payslip.taxDeduction)}</Descriptions.Item>
+        {payslip.reimbursements > 0 && (
+          <Descriptions.Item label="Expense Reimbursements">+{money(payslip.reimbursements)}</Descriptions.Item>
+        )}
+        <Descriptions.Item label={<Text strong>Net Pay</Text>}>
+          <Text strong style={{ color: 'var(--color-primary)', fontSize: 16 }}>{money(payslip.netPay)}</Text>
+        </Descriptions.Item>
+      </Descriptions>
+    </div>
+  );
+}
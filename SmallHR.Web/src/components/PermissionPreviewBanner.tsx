@@ -0,0 +1,49 @@
+import { Alert, Button, Space } from 'antd';
+import { EyeOutlined, CloseOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { usePermissionPreviewStore } from '../store/permissionPreviewStore';
+
+// Floats over every page, including Access Denied, so the preview can always be left
+export default function PermissionPreviewBanner() {
+  const navigate = useNavigate();
+  const { role, stopPreview } = usePermissionPreviewStore();
+
+  if (!role) {
+    return null;
+  }
+
+  const handleExit = () => {
+    stopPreview();
+    navigate('/role-permissions');
+  };
+
+  return (
+    <Alert
+      message={
+        <Space>
+          <span>
+            <strong>Previewing as {role}</strong>
+            {' '}· Menus and page access match this role; data still loads with your own permissions
+          </span>
+        </Space>
+      }
+      type="info"
+      icon={<EyeOutlined />}
+      action={
+        <Button size="small" icon={<CloseOutlined />} onClick={handleExit}>
+          Exit Preview
+        </Button>
+      }
+      showIcon
+      style={{
+        position: 'fixed',
+        bottom: 24,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 2000,
+        borderRadius: 8,
+        boxShadow: 'var(--card-shadow)',
+      }}
+    />
+  );
+}
@@ -0,0 +1,67 @@
+import { Table, Tag, Empty } from 'antd';
+import { PERMISSION_FLAGS } from '../../utils/permissions';
+import { roleColor } from '../../utils/roles';
+import type { PermissionChange } from '../../utils/permissions';
+
+interface PermissionDiffProps {
+  changes: PermissionChange[];
+  emptyText?: string;
+}
+
+const flagTitle = (flag: PermissionChange['flag']) =>
+  PERMISSION_FLAGS.find(f => f.flag === flag)?.title ?? flag;
+
+export default function PermissionDiff({ changes, emptyText = 'No differences' }: PermissionDiffProps) {
+  if (changes.length === 0) {
+    return <Empty description={emptyText} image={Empty.PRESENTED_IMAGE_SIMPLE} />;
+  }
+
+  const columns = [
+    {
+      title: 'Role',
+      dataIndex: 'roleName',
+      key: 'roleName',
+      width: 130,
+      render: (roleName: string) => <Tag color={roleColor(roleName)}>{roleName}</Tag>,
+    },
+    {
+      title: 'Page',
+      key: 'page',
+      render: (_: any, record: PermissionChange) => (
+        <div>
+          <div style={{ fontWeight: 600 }}>{record.pageName}</div>
+          <div style={{ fontSize: 12, color: 'var(--color-text-secondary)' }}>{record.pagePath}</div>
+        </div>
+      ),
+    },
+    {
+      title: 'Permission',
+      dataIndex: 'flag',
+      key: 'flag',
+      width: 100,
+      render: flagTitle,
+    },
+    {
+      title: 'Change',
+      key: 'change',
+      width: 150,
+      render: (_: any, record: PermissionChange) => (
+        <span>
+          <Tag color="default">{record.from ? 'Allowed' : 'Denied'}</Tag>
+          →{' '}
+          <Tag color={record.to ? 'green' : 'red'}>{record.to ? 'Allowed' : 'Denied'}</Tag>
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <Table
+      columns={columns}
+      dataSource={changes}
+      rowKey="key"
+      size="small"
+      pagination={changes.length > 10 ? { pageSize: 10 } : false}
+    />
+  );
+}
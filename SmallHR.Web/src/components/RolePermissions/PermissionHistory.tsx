@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { Drawer, Table, Button, Input, Space, Modal, Alert } from 'antd';
+import { CameraOutlined, HistoryOutlined } from '@ant-design/icons';
+import { useNotification } from '../../contexts/NotificationContext';
+import { rolePermissionsAPI } from '../../services/api';
+import { useQuery } from '../../hooks/useQuery';
+import { useCan } from '../../hooks/useRolePermissions';
+import { invalidateQueries } from '../../services/queryClient';
+import { queryKeys } from '../../services/queryKeys';
+import { diffPermissions } from '../../utils/permissions';
+import { formatDateTime } from '../../utils/preferences';
+import PermissionDiff from './PermissionDiff';
+import type { PermissionEntry } from '../../utils/permissions';
+import type { RolePermissionSnapshot, RolePermissionSnapshotDetail } from '../../types/api';
+
+interface PermissionHistoryProps {
+  open: boolean;
+  onClose: () => void;
+  savedPermissions: PermissionEntry[];
+  hasUnsavedChanges: boolean;
+  onRestored: () => void;
+}
+
+export default function PermissionHistory({
+  open,
+  onClose,
+  savedPermissions,
+  hasUnsavedChanges,
+  onRestored,
+}: PermissionHistoryProps) {
+  const notify = useNotification();
+  const { canEdit } = useCan('/role-permissions');
+  const [label, setLabel] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [reviewing, setReviewing] = useState<RolePermissionSnapshotDetail | null>(null);
+  const [loadingId, setLoadingId] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const { data: snapshots = [], isLoading } = useQuery(
+    queryKeys.rolePermissions.snapshots(),
+    () => rolePermissionsAPI.getSnapshots().then(res => res.data),
+    { enabled: open }
+  );
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await rolePermissionsAPI.createSnapshot({ label: label.trim() || undefined });
+      notify.success('Snapshot Saved', `Version ${res.data.version} has been saved`);
+      setLabel('');
+      invalidateQueries(queryKeys.rolePermissions.snapshots());
+    } catch (error: any) {
+      notify.error('Snapshot Failed', error.response?.data?.message || 'Failed to save snapshot');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleReview = async (snapshot: RolePermissionSnapshot) => {
+    setLoadingId(snapshot.id);
+    try {
+      const res = await rolePermissionsAPI.getSnapshot(snapshot.id);
+      setReviewing(res.data);
+    } catch (error: any) {
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load snapshot');
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!reviewing) return;
+    setRestoring(true);
+    try {
+      const res = await rolePermissionsAPI.restoreSnapshot(reviewing.id);
+      notify.success('Permissions Restored', res.data.message);
+      setReviewing(null);
+      invalidateQueries(queryKeys.rolePermissions.snapshots());
+      onRestored();
+    } catch (error: any) {
+      notify.error('Restore Failed', error.response?.data?.message || 'Failed to restore snapshot');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Version',
+      dataIndex: 'version',
+      key: 'version',
+      width: 80,
+      render: (version: number) => `v${version}`,
+    },
+    {
+      title: 'Label',
+      dataIndex: 'label',
+      key: 'label',
+    },
+    {
+      title: 'Saved',
+      key: 'saved',
+      width: 180,
+      render: (_: any, record: RolePermissionSnapshot) => (
+        <div>
+          <div>{formatDateTime(record.createdAt)}</div>
+          {record.createdBy && (
+            <div style={{ fontSize: 12, color: 'var(--color-text-secondary)' }}>{record.createdBy}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 110,
+      render: (_: any, record: RolePermissionSnapshot) => (
+        <Button
+          type="link"
+          icon={<HistoryOutlined />}
+          loading={loadingId === record.id}
+          onClick={() => handleReview(record)}
+        >
+          Compare
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <Drawer title="Permission History" open={open} onClose={onClose} width={720}>
+      {canEdit && (
+        <Space.Compact style={{ width: '100%', marginBottom: 16 }}>
+          <Input
+            placeholder="Label, e.g. Before Q3 restructure"
+            value={label}
+            maxLength={200}
+            onChange={(e) => setLabel(e.target.value)}
+            onPressEnter={handleCreate}
+          />
+          <Button type="primary" icon={<CameraOutlined />} loading={creating} onClick={handleCreate}>
+            Take Snapshot
+          </Button>
+        </Space.Compact>
+      )}
+      <div style={{ fontSize: 12, color: 'var(--color-text-secondary)', marginBottom: 12 }}>
+        A snapshot is saved automatically before every change, reset or restore.
+      </div>
+      <Table
+        columns={columns}
+        dataSource={snapshots}
+        loading={isLoading}
+        rowKey="id"
+        size="small"
+        pagination={{ pageSize: 10 }}
+      />
+
+      <Modal
+        title={reviewing ? `Restore v${reviewing.version}: ${reviewing.label}` : 'Restore'}
+        open={!!reviewing}
+        onCancel={() => setReviewing(null)}
+        width={760}
+        footer={[
+          <Button key="cancel" onClick={() => setReviewing(null)}>
+            Cancel
+          </Button>,
+          canEdit && (
+            <Button key="restore" type="primary" danger loading={restoring} onClick={handleRestore}>
+              Restore This Version
+            </Button>
+          ),
+        ]}
+      >
+        {hasUnsavedChanges && (
+          <Alert
+            type="warning"
+            showIcon
+            message="Restoring discards your unsaved changes"
+            style={{ marginBottom: 12 }}
+          />
+        )}
+        <div style={{ marginBottom: 8, color: 'var(--color-text-secondary)' }}>
+          Changes from the current saved permissions:
+        </div>
+        {reviewing && (
+          <PermissionDiff
+            changes={diffPermissions(savedPermissions, reviewing.entries)}
+            emptyText="This version matches the current permissions"
+          />
+        )}
+      </Modal>
+    </Drawer>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { Button, Space, Table, Tag, Popconfirm, Modal, Form, Input, Select, Tooltip } from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined, CopyOutlined, TableOutlined, EyeOutlined } from '@ant-design/icons';
+import { useNotification } from '../../contexts/NotificationContext';
+import { tenantRoleAPI } from '../../services/api';
+import { useCan } from '../../hooks/useRolePermissions';
+import Can from '../Can';
+import { SUPER_ADMIN_ROLE, roleColor } from '../../utils/roles';
+import type { TenantRole, CreateTenantRoleRequest, UpdateTenantRoleRequest } from '../../types/api';
+
+interface RoleManagerProps {
+  roles: TenantRole[];
+  loading: boolean;
+  onChanged: () => void;
+  onEditMatrix: (roleName: string) => void;
+  onPreview: (roleName: string) => void;
+}
+
+const ROLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9 _-]*$/;
+
+export default function RoleManager({ roles, loading, onChanged, onEditMatrix, onPreview }: RoleManagerProps) {
+  const notify = useNotification();
+  const { canEdit, canDelete } = useCan('/role-permissions');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<TenantRole | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [form] = Form.useForm();
+
+  // Tenant admins cannot see or grant the platform-wide SuperAdmin role
+  const cloneOptions = roles
+    .filter(r => r.name !== SUPER_ADMIN_ROLE)
+    .map(r => ({ label: r.name, value: r.name }));
+
+  const openCreate = (cloneFrom?: string) => {
+    setEditingRole(null);
+    form.resetFields();
+    form.setFieldsValue({ cloneFrom, name: cloneFrom ? `${cloneFrom} Copy` : undefined });
+    setIsModalOpen(true);
+  };
+
+  const openRename = (role: TenantRole) => {
+    setEditingRole(role);
+    form.setFieldsValue({ name: role.name, description: role.description });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingRole(null);
+    form.resetFields();
+  };
+
+  const handleSubmit = async (values: any) => {
+    setSubmitting(true);
+    try {
+      if (editingRole?.id) {
+        const updateData: UpdateTenantRoleRequest = {
+          name: values.name.trim(),
+          description: values.description,
+        };
+        await tenantRoleAPI.update(editingRole.id, updateData);
+        notify.success('Role Updated', `${updateData.name} has been updated successfully`);
+      } else {
+        const createData: CreateTenantRoleRequest = {
+          name: values.name.trim(),
+          description: values.description,
+          cloneFrom: values.cloneFrom,
+        };
+        await tenantRoleAPI.create(createData);
+        notify.success(
+          'Role Created',
+          createData.cloneFrom
+            ? `${createData.name} starts with the same access as ${createData.cloneFrom}`
+            : `${createData.name} has been created with no access; grant pages below`
+        );
+      }
+      closeModal();
+      onChanged();
+    } catch (error: any) {
+      notify.error(
+        editingRole ? 'Update Failed' : 'Create Failed',
+        error.response?.data?.message || `Failed to ${editingRole ? 'update' : 'create'} role`
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (role: TenantRole) => {
+    if (!role.id) return;
+    try {
+      await tenantRoleAPI.delete(role.id);
+      notify.success('Role Deleted', `${role.name} has been deleted successfully`);
+      onChanged();
+    } catch (error: any) {
+      notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete role');
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Role',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, record: TenantRole) => (
+        <Space>
+          <Tag color={roleColor(name)} style={{ fontWeight: 600 }}>{name}</Tag>
+          {record.isBuiltIn && <Tag>Built-in</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: 'Description',
+      dataIndex: 'description',
+      key: 'description',
+      render: (description?: string | null) => description || '-',
+    },
+    {
+      title: 'Users',
+      dataIndex: 'userCount',
+      key: 'userCount',
+      width: 90,
+      align: 'center' as const,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 420,
+      render: (_: any, record: TenantRole) => (
+        <Space size={0}>
+          {record.name !== SUPER_ADMIN_ROLE && (
+            <Button type="link" icon={<TableOutlined />} onClick={() => onEditMatrix(record.name)}>
+              Permissions
+            </Button>
+          )}
+          {record.name !== SUPER_ADMIN_ROLE && (
+            <Button type="link" icon={<EyeOutlined />} onClick={() => onPreview(record.name)}>
+              Preview
+            </Button>
+          )}
+          {record.name !== SUPER_ADMIN_ROLE && (
+            <Can path="/role-permissions" action="create">
+              <Button type="link" icon={<CopyOutlined />} onClick={() => openCreate(record.name)}>
+                Clone
+              </Button>
+            </Can>
+          )}
+          {!record.isBuiltIn && canEdit && (
+            <Button type="link" icon={<EditOutlined />} onClick={() => openRename(record)}>
+              Rename
+            </Button>
+          )}
+          {!record.isBuiltIn && canDelete && (
+            record.userCount > 0 ? (
+              <Tooltip title={`Assigned to ${record.userCount} user(s); move them to another role first`}>
+                <Button type="link" danger icon={<DeleteOutlined />} disabled>
+                  Delete
+                </Button>
+              </Tooltip>
+            ) : (
+              <Popconfirm
+                title={`Delete the ${record.name} role?`}
+                description="Its page permissions are removed as well."
+                onConfirm={() => handleDelete(record)}
+                okText="Yes"
+                cancelText="No"
+                okButtonProps={{ danger: true }}
+              >
+                <Button type="link" danger icon={<DeleteOutlined />}>
+                  Delete
+                </Button>
+              </Popconfirm>
+            )
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div style={{ marginBottom: 16 }}>
+      <Space style={{ marginBottom: 12, width: '100%', justifyContent: 'space-between' }}>
+        <div style={{ fontSize: 14, fontWeight: 600, color: 'var(--color-text-primary)' }}>
+          Roles
+        </div>
+        <Can path="/role-permissions" action="create">
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={() => openCreate()}
+            style={{
+              background: 'var(--gradient-primary)',
+              border: 'none',
+              borderRadius: 'var(--button-radius)',
+            }}
+          >
+            New Role
+          </Button>
+        </Can>
+      </Space>
+      <Table
+        columns={columns}
+        dataSource={roles}
+        loading={loading}
+        rowKey="name"
+        size="small"
+        pagination={false}
+      />
+
+      <Modal
+        title={editingRole ? `Rename ${editingRole.name}` : 'Create Role'}
+        open={isModalOpen}
+        onOk={() => form.submit()}
+        onCancel={closeModal}
+        okText={editingRole ? 'Update' : 'Create'}
+        cancelText="Cancel"
+        confirmLoading={submitting}
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item
+            name="name"
+            label="Name"
+            extra={editingRole && editingRole.userCount > 0
+              ? `The ${editingRole.userCount} user(s) holding this role keep it under the new name`
+              : undefined}
+            rules={[
+              { required: true, message: 'Please enter role name' },
+              { min: 2, max: 50, message: 'Role name must be between 2 and 50 characters' },
+              { pattern: ROLE_NAME_PATTERN, message: "Start with a letter; use letters, digits, spaces, '-' or '_'" },
+            ]}
+          >
+            <Input placeholder="e.g. Team Lead" />
+          </Form.Item>
+          <Form.Item name="description" label="Description">
+            <Input.TextArea rows={2} maxLength={500} placeholder="What this role is for" />
+          </Form.Item>
+          {!editingRole && (
+            <Form.Item name="cloneFrom" label="Copy permissions from">
+              <Select allowClear placeholder="Start with no access" options={cloneOptions} />
+            </Form.Item>
+          )}
+        </Form>
+      </Modal>
+    </div>
+  );
+}
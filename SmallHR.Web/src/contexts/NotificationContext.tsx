@@ -1,48 +1,74 @@
 import { createContext, useContext, ReactNode } from 'react';
 import { App } from 'antd';
+import { notificationsAPI } from '../services/api';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import type { NotificationCategory } from '../types/api';
+
+// Pass `record: true` to also keep the message in the user's notification inbox
+export interface NotifyOptions {
+  record?: boolean;
+  category?: NotificationCategory;
+  link?: string;
+}
+
+type Notify = (message: string, description?: string, options?: NotifyOptions) => void;
 
 interface NotificationContextType {
-  success: (message: string, description?: string) => void;
-  error: (message: string, description?: string) => void;
-  warning: (message: string, description?: string) => void;
-  info: (message: string, description?: string) => void;
+  success: Notify;
+  error: Notify;
+  warning: Notify;
+  info: Notify;
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
 
+// The toast has already been shown, so a failure to record is only logged
+const recordToInbox = (message: string, description: string | undefined, options?: NotifyOptions) => {
+  if (!options?.record) return;
+  notificationsAPI
+    .create({ category: options.category ?? 'general', title: message, message: description, link: options.link })
+    .then(() => invalidateQueries(queryKeys.inbox.all))
+    .catch(error => console.warn('[Notifications] Could not record notification in the inbox', error));
+};
+
 export const NotificationProvider = ({ children }: { children: ReactNode }) => {
   const { notification } = App.useApp();
 
-  const success = (message: string, description?: string) => {
+  const success: Notify = (message, description, options) => {
     notification.success({
       message,
       description,
       placement: 'topRight',
     });
+    recordToInbox(message, description, options);
   };
 
-  const error = (message: string, description?: string) => {
+  const error: Notify = (message, description, options) => {
     notification.error({
       message,
       description,
       placement: 'topRight',
     });
+    recordToInbox(message, description, options);
   };
 
-  const warning = (message: string, description?: string) => {
+  const warning: Notify = (message, description, options) => {
     notification.warning({
       message,
       description,
       placement: 'topRight',
     });
+    recordToInbox(message, description, options);
   };
 
-  const info = (message: string, description?: string) => {
+  const info: Notify = (message, description, options) => {
     notification.info({
       message,
       description,
       placement: 'topRight',
     });
+    recordToInbox(message, description, options);
   };
 
   const value: NotificationContextType = {
@@ -66,4 +92,3 @@ export const useNotification = () => {
   }
   return context;
 };
-
@@ -1,40 +1,67 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { ThemeMode } from '../types/api';
 
 interface ThemeContextType {
   isDarkMode: boolean;
+  themeMode: ThemeMode;
+  setThemeMode: (mode: ThemeMode) => void;
   toggleDarkMode: () => void;
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
+const THEME_MODE_STORAGE_KEY = 'themeMode';
+
+const systemPrefersDark = () =>
+  !!window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
+
 export function ThemeProvider({ children }: { children: ReactNode }) {
-  const [isDarkMode, setIsDarkMode] = useState(() => {
-    const saved = localStorage.getItem('darkMode');
-    return saved === 'true';
+  const [themeMode, setThemeModeState] = useState<ThemeMode>(() => {
+    const saved = localStorage.getItem(THEME_MODE_STORAGE_KEY);
+    if (saved === 'light' || saved === 'dark' || saved === 'system') return saved;
+    // Older builds only stored a dark-mode flag
+    return localStorage.getItem('darkMode') === 'true' ? 'dark' : 'light';
   });
+  const [prefersDark, setPrefersDark] = useState(systemPrefersDark);
+
+  const isDarkMode = themeMode === 'dark' || (themeMode === 'system' && prefersDark);
+
+  // Follow the OS setting while in system mode
+  useEffect(() => {
+    if (themeMode !== 'system' || !window.matchMedia) return;
+    const query = window.matchMedia('(prefers-color-scheme: dark)');
+    const handler = (e: MediaQueryListEvent) => setPrefersDark(e.matches);
+    setPrefersDark(query.matches);
+    query.addEventListener('change', handler);
+    return () => query.removeEventListener('change', handler);
+  }, [themeMode]);
 
   useEffect(() => {
+    localStorage.setItem(THEME_MODE_STORAGE_KEY, themeMode);
     localStorage.setItem('darkMode', isDarkMode.toString());
-    
+
     if (isDarkMode) {
       document.documentElement.classList.add('dark-mode');
     } else {
       document.documentElement.classList.remove('dark-mode');
     }
-  }, [isDarkMode]);
+  }, [themeMode, isDarkMode]);
 
-  const toggleDarkMode = () => {
+  const setThemeMode = (mode: ThemeMode) => {
+    if (mode === themeMode) return;
     const root = document.documentElement;
     const prefersReduced = window.matchMedia && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
     if (!prefersReduced) {
       root.classList.add('theme-transition');
       window.setTimeout(() => root.classList.remove('theme-transition'), 320);
     }
-    setIsDarkMode(prev => !prev);
+    setThemeModeState(mode);
   };
 
+  const toggleDarkMode = () => setThemeMode(isDarkMode ? 'light' : 'dark');
+
   return (
-    <ThemeContext.Provider value={{ isDarkMode, toggleDarkMode }}>
+    <ThemeContext.Provider value={{ isDarkMode, themeMode, setThemeMode, toggleDarkMode }}>
       {children}
     </ThemeContext.Provider>
   );
@@ -47,4 +74,3 @@ export function useTheme() {
   }
   return context;
 }
-
@@ -0,0 +1,76 @@
+import { subscriptionAPI } from '../services/api';
+import { queryKeys } from '../services/queryKeys';
+import { useQuery } from './useQuery';
+import { useRoles } from './useRoles';
+import type { TenantFeature } from '../types/api';
+
+export interface FeatureState {
+  loading: boolean;
+  name: string | null;
+  // Boolean: switched on; Limit: still below the limit; Enum: has a tier
+  enabled: boolean;
+  value: string | null;
+  limit: number | null; // null when the feature is not a limit or is unlimited
+  used: number | null;
+  remaining: number | null;
+  planName: string | null;
+}
+
+const UNLIMITED_VALUES = ['', '-1', 'unlimited'];
+
+const parseLimit = (value: string | null) => {
+  if (value === null || UNLIMITED_VALUES.includes(value.trim().toLowerCase())) return null;
+  const limit = Number(value);
+  return Number.isFinite(limit) ? limit : null;
+};
+
+const resolveFeature = (feature: TenantFeature, planName: string): FeatureState => {
+  const value = feature.value;
+  const base = { loading: false, name: feature.name, value, limit: null, used: feature.used ?? null, remaining: null, planName };
+
+  switch (feature.type) {
+    case 'Limit': {
+      const limit = parseLimit(value);
+      const used = feature.used ?? null;
+      const remaining = limit !== null && used !== null ? Math.max(limit - used, 0) : null;
+      return { ...base, limit, remaining, enabled: remaining === null || remaining > 0 };
+    }
+    case 'Enum':
+      return { ...base, enabled: !!value && value.toLowerCase() !== 'none' };
+    default:
+      return { ...base, enabled: value?.toLowerCase() === 'true' };
+  }
+};
+
+// The current tenant's plan; SuperAdmin works across tenants and is never gated
+export const useTenantFeatures = () => {
+  const { isSuperAdmin } = useRoles();
+  return useQuery(
+    queryKeys.subscriptions.features(),
+    () => subscriptionAPI.getFeatures().then(res => res.data),
+    { enabled: !isSuperAdmin }
+  );
+};
+
+export const useFeature = (key: string): FeatureState => {
+  const { isSuperAdmin } = useRoles();
+  const { data, isLoading } = useTenantFeatures();
+  const open: FeatureState = {
+    loading: false,
+    name: null,
+    enabled: true,
+    value: null,
+    limit: null,
+    used: null,
+    remaining: null,
+    planName: data?.planName ?? null,
+  };
+
+  if (isSuperAdmin) return open;
+  if (isLoading) return { ...open, loading: true };
+
+  // Keys the server does not define are not gated in this deployment; if the plan
+  // cannot be loaded the server still enforces its own limits
+  const feature = data?.features.find(f => f.key === key);
+  return feature ? resolveFeature(feature, data!.planName) : open;
+};
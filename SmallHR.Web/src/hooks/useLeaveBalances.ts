@@ -0,0 +1,71 @@
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import { leavePolicyAPI, leaveRequestAPI } from '../services/api';
+import { queryKeys } from '../services/queryKeys';
+import { computeLeaveBalance, leaveDaysInYear } from '../utils/leave';
+import type { LeaveBalance } from '../utils/leave';
+import type { Employee } from '../types/api';
+import { useQuery } from './useQuery';
+
+// Balances for every active leave policy, from approved days (last, this and next year) and pending requests
+export const useLeaveBalances = (employee?: Employee) => {
+  const year = dayjs().year();
+
+  const { data: policies = [], isLoading: policiesLoading } = useQuery(
+    queryKeys.leavePolicies.list(),
+    () => leavePolicyAPI.getAll().then(res => res.data)
+  );
+  const activePolicies = policies.filter(p => p.isActive);
+  const leaveTypes = activePolicies.map(p => p.leaveType);
+
+  const { data: totals, isLoading: totalsLoading } = useQuery(
+    queryKeys.leaveRequests.totalDays(employee?.id ?? 0, year, leaveTypes),
+    async () => {
+      const entries = await Promise.all(
+        leaveTypes.flatMap(type =>
+          [year - 1, year, year + 1].map(async y => {
+            const res = await leaveRequestAPI.getTotalDays(employee!.id, type, y);
+            return [`${type}:${y}`, res.data] as const;
+          })
+        )
+      );
+      return Object.fromEntries(entries) as Record<string, number>;
+    },
+    { enabled: !!employee && leaveTypes.length > 0 }
+  );
+
+  const { data: requests = [] } = useQuery(
+    queryKeys.leaveRequests.employee(employee?.id ?? 0),
+    () => leaveRequestAPI.getByEmployee(employee!.id).then(res => res.data),
+    { enabled: !!employee }
+  );
+
+  // Balance on a given day, as the server checks a request starting then; only this and next year are loaded
+  const balanceOn = (leaveType: string, asOf: Dayjs): LeaveBalance | undefined => {
+    const policy = activePolicies.find(p => p.leaveType === leaveType);
+    const y = asOf.year();
+    if (!employee || !totals || !policy || y < year || y > year + 1) return undefined;
+    return computeLeaveBalance({
+      policy,
+      hireDate: employee.hireDate,
+      usedThisYear: totals[`${leaveType}:${y}`] ?? 0,
+      usedLastYear: totals[`${leaveType}:${y - 1}`] ?? 0,
+      pending: requests
+        .filter(r => r.status === 'Pending' && r.leaveType === leaveType)
+        .reduce((sum, r) => sum + leaveDaysInYear(dayjs(r.startDate), dayjs(r.endDate), y), 0),
+      asOf,
+    });
+  };
+
+  const today = dayjs();
+  const balances = activePolicies
+    .map(policy => balanceOn(policy.leaveType, today))
+    .filter((balance): balance is LeaveBalance => !!balance);
+
+  return {
+    balances,
+    balanceOn,
+    policies: activePolicies,
+    isLoading: policiesLoading || (leaveTypes.length > 0 && !!employee && totalsLoading),
+  };
+};
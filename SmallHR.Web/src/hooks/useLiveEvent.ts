@@ -0,0 +1,11 @@
+import { useEffect, useRef } from 'react';
+import { subscribeLiveEvent } from '../services/liveEvents';
+import type { LiveEventPayloads, LiveEventType } from '../services/liveEvents';
+
+// Calls the handler for every pushed event of this type while the component is mounted
+export const useLiveEvent = <T extends LiveEventType>(type: T, handler: (data: LiveEventPayloads[T]) => void) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => subscribeLiveEvent(type, data => handlerRef.current(data)), [type]);
+};
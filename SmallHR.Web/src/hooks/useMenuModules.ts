@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import { useModulesStore } from '../store/modulesStore';
+import { usePermissionPreviewStore } from '../store/permissionPreviewStore';
+import { buildModuleTree } from '../services/modules';
+
+// Modules for the sidebar and dynamic routes; while previewing a role they come from that role's matrix
+export const useMenuModules = () => {
+  const { modules, loading, refresh } = useModulesStore();
+  const { role, permissions } = usePermissionPreviewStore();
+  const previewModules = useMemo(
+    () => (role ? buildModuleTree(permissions.filter(p => p.canAccess)) : null),
+    [role, permissions]
+  );
+
+  return {
+    modules: previewModules ?? modules,
+    loading: previewModules ? false : loading,
+    refresh,
+  };
+};
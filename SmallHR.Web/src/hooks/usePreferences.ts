@@ -0,0 +1,21 @@
+import { useAuthStore } from '../store/authStore';
+import { accountAPI } from '../services/api';
+import { DEFAULT_PREFERENCES } from '../utils/preferences';
+import type { UserPreferences } from '../types/api';
+
+export const usePreferences = () => {
+  const { user, updateUser } = useAuthStore();
+  const preferences: UserPreferences = { ...DEFAULT_PREFERENCES, ...user?.preferences };
+
+  // Saves server-side so the choice follows the user to other browsers
+  const savePreferences = async (changes: Partial<UserPreferences>) => {
+    const res = await accountAPI.updatePreferences({ ...preferences, ...changes });
+    const current = useAuthStore.getState().user;
+    if (current) {
+      updateUser({ ...current, preferences: res.data });
+    }
+    return res.data;
+  };
+
+  return { preferences, savePreferences };
+};
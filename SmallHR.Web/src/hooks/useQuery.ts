@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useQueryStore } from '../store/queryStore';
+import type { QueryEntry } from '../store/queryStore';
+import { DEFAULT_STALE_TIME, fetchQuery, hashKey, subscribeQuery } from '../services/queryClient';
+import type { QueryKey } from '../services/queryClient';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+  refetchInterval?: number;
+}
+
+// Reads a cached server query: cached data is returned immediately and revalidated in the background when stale
+export const useQuery = <T>(key: QueryKey, fetcher: () => Promise<T>, options: UseQueryOptions = {}) => {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME, refetchInterval } = options;
+  const hash = hashKey(key);
+  const entry = useQueryStore(state => state.entries[hash]) as QueryEntry<T> | undefined;
+
+  // Keep the latest fetcher without re-subscribing on every render
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const run = () => fetcherRef.current();
+    const unsubscribe = subscribeQuery(keyRef.current, run);
+    fetchQuery(keyRef.current, run, { staleTime }).catch(() => undefined);
+    return unsubscribe;
+  }, [hash, enabled, staleTime]);
+
+  useEffect(() => {
+    if (!enabled || !refetchInterval) return;
+    const id = setInterval(() => {
+      fetchQuery(keyRef.current, () => fetcherRef.current(), { force: true }).catch(() => undefined);
+    }, refetchInterval);
+    return () => clearInterval(id);
+  }, [hash, enabled, refetchInterval]);
+
+  const refetch = useCallback(
+    () => fetchQuery(keyRef.current, () => fetcherRef.current(), { force: true }),
+    [hash]
+  );
+
+  return {
+    data: entry?.data,
+    error: entry?.status === 'error' ? entry.error : undefined,
+    isLoading: enabled && entry?.data === undefined && entry?.status !== 'error',
+    isFetching: entry?.isFetching ?? false,
+    updatedAt: entry?.updatedAt ?? 0,
+    refetch,
+  };
+};
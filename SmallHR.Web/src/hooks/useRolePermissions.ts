@@ -1,11 +1,21 @@
 import { useAuthStore } from '../store/authStore';
+import { usePermissionPreviewStore } from '../store/permissionPreviewStore';
+import { SUPER_ADMIN_ROLE, getEffectiveRoles, roleLabel } from '../utils/roles';
+
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete';
 
 export const useRolePermissions = () => {
-  const { user, permissions, permissionsLoaded } = useAuthStore();
+  const { user, activeRole, permissions: userPermissions, permissionsLoaded: userPermissionsLoaded } = useAuthStore();
+  const preview = usePermissionPreviewStore();
+  // Permissions come back already merged across these roles
+  const roles = preview.role ? [preview.role] : getEffectiveRoles(user, activeRole);
+  const permissions = preview.role ? preview.permissions : userPermissions;
+  const permissionsLoaded = preview.role ? true : userPermissionsLoaded;
+  const isSuperAdmin = roles.includes(SUPER_ADMIN_ROLE);
 
   const canAccessPage = (pagePath: string): boolean => {
     // SuperAdmin always has access to everything
-    if (user?.roles?.[0] === 'SuperAdmin') {
+    if (isSuperAdmin) {
       return true;
     }
 
@@ -16,7 +26,7 @@ export const useRolePermissions = () => {
 
     // If no permissions found, allow access to dashboard only (fallback)
     if (permissions.length === 0) {
-      console.warn(`[RBAC] No permissions found for ${user?.roles?.[0]}. Allowing dashboard access only.`);
+      console.warn(`[RBAC] No permissions found for ${roleLabel(roles)}. Allowing dashboard access only.`);
       return pagePath === '/dashboard';
     }
 
@@ -25,14 +35,14 @@ export const useRolePermissions = () => {
     const hasAccess = permission?.canAccess ?? false;
     
     if (!hasAccess) {
-      console.log(`[RBAC] Access denied to ${pagePath} for role ${user?.roles?.[0]}`);
+      console.log(`[RBAC] Access denied to ${pagePath} for ${roleLabel(roles)}`);
     }
     
     return hasAccess;
   };
 
   const getAccessiblePages = (): string[] => {
-    if (user?.roles?.[0] === 'SuperAdmin') {
+    if (isSuperAdmin) {
       return ['all']; // SuperAdmin has access to all
     }
 
@@ -41,10 +51,9 @@ export const useRolePermissions = () => {
       .map(p => p.pagePath);
   };
 
-  type Action = 'view' | 'create' | 'edit' | 'delete';
-  const canPerformAction = (pagePath: string, action: Action): boolean => {
+  const canPerformAction = (pagePath: string, action: PermissionAction): boolean => {
     // SuperAdmin shortcut
-    if (user?.roles?.[0] === 'SuperAdmin') {
+    if (isSuperAdmin) {
       return true;
     }
     if (!permissionsLoaded) return false;
@@ -75,3 +84,15 @@ export const useRolePermissions = () => {
   };
 };
 
+
+// Action flags for one page, for components that gate several controls at once
+export const useCan = (pagePath: string) => {
+  const { canPerformAction } = useRolePermissions();
+
+  return {
+    canView: canPerformAction(pagePath, 'view'),
+    canCreate: canPerformAction(pagePath, 'create'),
+    canEdit: canPerformAction(pagePath, 'edit'),
+    canDelete: canPerformAction(pagePath, 'delete'),
+  };
+};
@@ -0,0 +1,20 @@
+import { useAuthStore } from '../store/authStore';
+import { usePermissionPreviewStore } from '../store/permissionPreviewStore';
+import { SUPER_ADMIN_ROLE, getEffectiveRoles } from '../utils/roles';
+
+export const useRoles = () => {
+  const { user, activeRole, setActiveRole } = useAuthStore();
+  const previewRole = usePermissionPreviewStore(state => state.role);
+  const roles = previewRole ? [previewRole] : getEffectiveRoles(user, activeRole);
+
+  const hasRole = (...names: string[]) => roles.some(role => names.includes(role));
+
+  return {
+    roles,
+    allRoles: user?.roles ?? [],
+    activeRole,
+    setActiveRole,
+    hasRole,
+    isSuperAdmin: hasRole(SUPER_ADMIN_ROLE),
+  };
+};
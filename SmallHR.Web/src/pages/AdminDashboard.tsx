@@ -9,17 +9,8 @@ import {
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import PageHeader from '../components/PageHeader';
-import api from '../services/api';
-
-interface Employee {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  department: string;
-  position: string;
-  isActive: boolean;
-}
+import { employeeAPI } from '../services/api';
+import type { Employee } from '../types/api';
 
 export default function AdminDashboard() {
   const [employees, setEmployees] = useState<Employee[]>([]);
@@ -31,7 +22,7 @@ export default function AdminDashboard() {
 
   const fetchEmployees = async () => {
     try {
-      const response = await api.get('/employees');
+      const response = await employeeAPI.getAll();
       setEmployees(response.data);
     } catch (error) {
       console.error('Failed to fetch employees:', error);
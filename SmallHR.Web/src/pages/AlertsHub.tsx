@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Card, Table, Tag, Space, Row, Col, Statistic, Button, Select, Alert } from 'antd';
+import { Card, Table, Tag, Space, Row, Col, Statistic, Button, Select, Alert, Drawer, Descriptions, Modal, Input, Empty, Typography } from 'antd';
 import {
   WarningOutlined,
   DollarOutlined,
@@ -7,140 +7,158 @@ import {
   CheckCircleOutlined,
   ReloadOutlined,
   BellOutlined,
+  StopOutlined,
+  FireOutlined,
 } from '@ant-design/icons';
-import type { ColumnsType } from 'antd/es/table';
+import type { ColumnsType, TablePaginationConfig } from 'antd/es/table';
+import { useNavigate } from 'react-router-dom';
 import PageHeader from '../components/PageHeader';
-import api from '../services/api';
+import { alertsAPI } from '../services/api';
 import { useNotification } from '../contexts/NotificationContext';
+import { useQuery } from '../hooks/useQuery';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import { formatDateTime } from '../utils/preferences';
 
-interface AlertItem {
-  id: number;
-  tenantId: number;
-  tenantName: string;
-  alertType: 'PaymentFailure' | 'Overage' | 'Error' | 'Suspension';
-  severity: 'High' | 'Medium' | 'Low';
-  message: string;
-  status: 'Active' | 'Resolved' | 'Acknowledged';
-  createdAt: string;
-  resolvedAt: string | null;
-  metadata: {
-    subscriptionId?: number;
-    planName?: string;
-    amount?: number;
-    limit?: number;
-    usage?: number;
-    errorCode?: string;
-  } | null;
-}
+import type { AlertItem, AlertSeverity } from '../types/api';
+
+const { Text } = Typography;
+
+const SEVERITIES: AlertSeverity[] = ['Critical', 'High', 'Medium', 'Low'];
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  Critical: 'magenta',
+  High: 'red',
+  Medium: 'orange',
+  Low: 'blue',
+};
+
+const ALERT_TYPES = [
+  { label: 'Payment Failure', value: 'PaymentFailure' },
+  { label: 'Overage', value: 'Overage' },
+  { label: 'Error', value: 'Error' },
+  { label: 'Suspension', value: 'Suspension' },
+  { label: 'Cancellation', value: 'Cancellation' },
+];
+
+const formatMetadataValue = (value: unknown) =>
+  value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
 
 export default function AlertsHub() {
   const notify = useNotification();
-  const [alerts, setAlerts] = useState<AlertItem[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [statusFilter, setStatusFilter] = useState<string | undefined>();
+  const navigate = useNavigate();
+  const [statusFilter, setStatusFilter] = useState<string | undefined>('Active');
   const [typeFilter, setTypeFilter] = useState<string | undefined>();
   const [severityFilter, setSeverityFilter] = useState<string | undefined>();
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageSize, setPageSize] = useState(20);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [detail, setDetail] = useState<AlertItem | null>(null);
+  // Alerts waiting for resolution notes; null while the resolve dialog is closed
+  const [resolveIds, setResolveIds] = useState<number[] | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const [working, setWorking] = useState(false);
 
+  const alertParams = {
+    status: statusFilter,
+    type: typeFilter,
+    severity: severityFilter,
+    pageNumber,
+    pageSize,
+  };
+  const { data, isFetching: loading, error: alertsError, refetch } = useQuery(
+    queryKeys.alerts.list(alertParams),
+    () => alertsAPI.getAll(alertParams).then(res => res.data)
+  );
+  const alerts: AlertItem[] = data?.alerts ?? [];
+
+  const { data: statistics, refetch: refetchStatistics } = useQuery(
+    queryKeys.alerts.statistics(),
+    () => alertsAPI.getStatistics().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (alertsError) {
+      notify.error('Failed to Load Alerts', 'Unable to fetch alerts.');
+      console.error(alertsError);
+    }
+  }, [alertsError]);
+
+  // Selection only makes sense within the rows being looked at
   useEffect(() => {
-    fetchAlerts();
-  }, [statusFilter, typeFilter, severityFilter]);
+    setSelectedIds([]);
+  }, [statusFilter, typeFilter, severityFilter, pageNumber, pageSize]);
+
+  const changeFilter = (setter: (value: string | undefined) => void) => (value: string | undefined) => {
+    setter(value);
+    setPageNumber(1);
+  };
+
+  const fetchAlerts = () => {
+    refetch().catch(() => undefined);
+    refetchStatistics().catch(() => undefined);
+  };
 
-  const fetchAlerts = async () => {
-    setLoading(true);
+  const afterChange = () => {
+    setSelectedIds([]);
+    setDetail(null);
+    invalidateQueries(queryKeys.alerts.all);
+  };
+
+  const handleAcknowledge = async (ids: number[]) => {
+    setWorking(true);
     try {
-      // Note: You'll need to create an alerts endpoint
-      // For now, we'll fetch from tenants and subscriptions
-      const tenantsResponse = await api.get('/admin/tenants', {
-        params: { status: 'Suspended', pageSize: 100 },
-      });
-
-      const subscriptionsResponse = await api.get('/admin/subscriptions', {
-        params: { status: 'PastDue', pageSize: 100 },
-      });
-
-      // Build alerts from data
-      const alertsData: AlertItem[] = [];
-
-      // Payment failures
-      subscriptionsResponse.data?.subscriptions?.forEach((sub: any) => {
-        if (sub.status === 'PastDue') {
-          alertsData.push({
-            id: alertsData.length + 1,
-            tenantId: sub.tenantId,
-            tenantName: sub.tenant?.name || 'Unknown',
-            alertType: 'PaymentFailure',
-            severity: 'High',
-            message: `Payment failed for tenant ${sub.tenant?.name || sub.tenantId}. Subscription is past due.`,
-            status: 'Active',
-            createdAt: sub.updatedAt || sub.createdAt,
-            resolvedAt: null,
-            metadata: {
-              subscriptionId: sub.id,
-              planName: sub.planName,
-              amount: sub.price,
-            },
-          });
-        }
-      });
-
-      // Suspended tenants
-      tenantsResponse.data?.tenants?.forEach((tenant: any) => {
-        if (tenant.status === 'Suspended') {
-          alertsData.push({
-            id: alertsData.length + 1,
-            tenantId: tenant.id,
-            tenantName: tenant.name,
-            alertType: 'Suspension',
-            severity: 'High',
-            message: `Tenant ${tenant.name} is suspended.`,
-            status: 'Active',
-            createdAt: tenant.updatedAt || tenant.createdAt,
-            resolvedAt: null,
-            metadata: null,
-          });
-        }
-      });
-
-      // Filter alerts
-      let filtered = alertsData;
-      if (statusFilter) {
-        filtered = filtered.filter(a => a.status === statusFilter);
-      }
-      if (typeFilter) {
-        filtered = filtered.filter(a => a.alertType === typeFilter);
+      if (ids.length === 1) {
+        await alertsAPI.acknowledge(ids[0]);
+        notify.success('Alert Acknowledged', 'Alert has been marked as acknowledged.');
+      } else {
+        const res = await alertsAPI.bulkAcknowledge(ids);
+        notify.success('Alerts Acknowledged', res.data.skipped > 0
+          ? `${res.data.updated} acknowledged; ${res.data.skipped} were no longer active.`
+          : `${res.data.updated} alerts have been marked as acknowledged.`);
       }
-      if (severityFilter) {
-        filtered = filtered.filter(a => a.severity === severityFilter);
-      }
-
-      setAlerts(filtered);
+      afterChange();
     } catch (error: any) {
-      notify.error('Failed to Load Alerts', 'Unable to fetch alerts.');
-      console.error(error);
+      notify.error('Failed to Acknowledge', error.response?.data?.message || 'Unable to acknowledge alert.');
     } finally {
-      setLoading(false);
+      setWorking(false);
     }
   };
 
-  const handleAcknowledge = async (alertId: number) => {
+  const openResolve = (ids: number[]) => {
+    setResolutionNotes('');
+    setResolveIds(ids);
+  };
+
+  const handleResolve = async () => {
+    if (!resolveIds) return;
+    const notes = resolutionNotes.trim() || undefined;
+    setWorking(true);
     try {
-      // Placeholder for acknowledge endpoint
-      await api.post(`/admin/alerts/${alertId}/acknowledge`);
-      notify.success('Alert Acknowledged', 'Alert has been marked as acknowledged.');
-      fetchAlerts();
+      if (resolveIds.length === 1) {
+        await alertsAPI.resolve(resolveIds[0], notes);
+        notify.success('Alert Resolved', 'Alert has been resolved.');
+      } else {
+        const res = await alertsAPI.bulkResolve(resolveIds, notes);
+        notify.success('Alerts Resolved', res.data.skipped > 0
+          ? `${res.data.updated} resolved; ${res.data.skipped} were already resolved.`
+          : `${res.data.updated} alerts have been resolved.`);
+      }
+      setResolveIds(null);
+      afterChange();
     } catch (error: any) {
-      notify.error('Failed to Acknowledge', 'Unable to acknowledge alert.');
+      notify.error('Failed to Resolve', error.response?.data?.message || 'Unable to resolve alert.');
+    } finally {
+      setWorking(false);
     }
   };
 
-  const handleResolve = async (alertId: number) => {
-    try {
-      // Placeholder for resolve endpoint
-      await api.post(`/admin/alerts/${alertId}/resolve`);
-      notify.success('Alert Resolved', 'Alert has been resolved.');
-      fetchAlerts();
-    } catch (error: any) {
-      notify.error('Failed to Resolve', 'Unable to resolve alert.');
+  const handleTableChange = (pagination: TablePaginationConfig) => {
+    if (pagination.pageSize && pagination.pageSize !== pageSize) {
+      setPageSize(pagination.pageSize);
+      setPageNumber(1);
+    } else {
+      setPageNumber(pagination.current ?? 1);
     }
   };
 
@@ -150,6 +168,7 @@ export default function AlertsHub() {
       Overage: { color: 'orange', icon: <ExclamationCircleOutlined /> },
       Error: { color: 'red', icon: <WarningOutlined /> },
       Suspension: { color: 'red', icon: <WarningOutlined /> },
+      Cancellation: { color: 'default', icon: <StopOutlined /> },
     };
     const config = typeConfig[type] || { color: 'default', icon: null };
     return (
@@ -159,46 +178,50 @@ export default function AlertsHub() {
     );
   };
 
-  const getSeverityTag = (severity: string) => {
-    const severityConfig: Record<string, { color: string }> = {
-      High: { color: 'red' },
-      Medium: { color: 'orange' },
-      Low: { color: 'blue' },
-    };
-    const config = severityConfig[severity] || { color: 'default' };
-    return <Tag color={config.color}>{severity}</Tag>;
-  };
+  const getSeverityTag = (severity: AlertSeverity) => (
+    <Tag color={SEVERITY_COLORS[severity] ?? 'default'}>{severity}</Tag>
+  );
+
+  const getStatusTag = (status: string) => (
+    <Tag color={status === 'Active' ? 'red' : status === 'Resolved' ? 'green' : 'blue'}>
+      {status}
+    </Tag>
+  );
+
+  const renderActions = (record: AlertItem) => (
+    <Space>
+      {record.status === 'Active' && (
+        <Button size="small" onClick={() => handleAcknowledge([record.id])} disabled={working}>
+          Acknowledge
+        </Button>
+      )}
+      {record.status !== 'Resolved' && (
+        <Button size="small" type="primary" onClick={() => openResolve([record.id])} disabled={working}>
+          Resolve
+        </Button>
+      )}
+    </Space>
+  );
 
   const columns: ColumnsType<AlertItem> = [
     {
       title: 'Date',
       dataIndex: 'createdAt',
       key: 'createdAt',
-      render: (date: string) => new Date(date).toLocaleString(),
-      sorter: (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+      width: 180,
+      render: (date: string) => formatDateTime(date),
     },
     {
       title: 'Type',
       dataIndex: 'alertType',
       key: 'alertType',
       render: (type: string) => getAlertTypeTag(type),
-      filters: [
-        { text: 'Payment Failure', value: 'PaymentFailure' },
-        { text: 'Overage', value: 'Overage' },
-        { text: 'Error', value: 'Error' },
-        { text: 'Suspension', value: 'Suspension' },
-      ],
     },
     {
       title: 'Severity',
       dataIndex: 'severity',
       key: 'severity',
-      render: (severity: string) => getSeverityTag(severity),
-      filters: [
-        { text: 'High', value: 'High' },
-        { text: 'Medium', value: 'Medium' },
-        { text: 'Low', value: 'Low' },
-      ],
+      render: (severity: AlertSeverity) => getSeverityTag(severity),
     },
     {
       title: 'Tenant',
@@ -206,7 +229,11 @@ export default function AlertsHub() {
       render: (_: any, record: AlertItem) => (
         <Button
           type="link"
-          onClick={() => window.location.href = `/admin/tenants/${record.tenantId}`}
+          style={{ padding: 0 }}
+          onClick={e => {
+            e.stopPropagation();
+            navigate(`/admin/tenants/${record.tenantId}`);
+          }}
         >
           {record.tenantName}
         </Button>
@@ -222,97 +249,112 @@ export default function AlertsHub() {
       title: 'Status',
       dataIndex: 'status',
       key: 'status',
-      render: (status: string) => (
-        <Tag color={status === 'Active' ? 'red' : status === 'Resolved' ? 'green' : 'blue'}>
-          {status}
-        </Tag>
-      ),
-      filters: [
-        { text: 'Active', value: 'Active' },
-        { text: 'Resolved', value: 'Resolved' },
-        { text: 'Acknowledged', value: 'Acknowledged' },
-      ],
+      render: (status: string) => getStatusTag(status),
     },
     {
       title: 'Actions',
       key: 'actions',
       width: 200,
       render: (_: any, record: AlertItem) => (
-        <Space>
-          {record.status === 'Active' && (
-            <>
-              <Button size="small" onClick={() => handleAcknowledge(record.id)}>
-                Acknowledge
-              </Button>
-              <Button size="small" type="primary" onClick={() => handleResolve(record.id)}>
-                Resolve
-              </Button>
-            </>
-          )}
-        </Space>
+        <div onClick={e => e.stopPropagation()}>{renderActions(record)}</div>
       ),
     },
   ];
 
-  const activeAlerts = alerts.filter(a => a.status === 'Active');
-  const highSeverityAlerts = alerts.filter(a => a.severity === 'High' && a.status === 'Active');
-  const paymentFailures = alerts.filter(a => a.alertType === 'PaymentFailure' && a.status === 'Active');
+  const severityCount = (severity: AlertSeverity) =>
+    statistics?.alertsBySeverity.find(s => s.severity === severity)?.count ?? 0;
+  const typeCount = (type: string) =>
+    statistics?.alertsByType.find(t => t.type === type)?.count ?? 0;
+  const urgentCount = (statistics?.criticalAlerts ?? 0) + (statistics?.highSeverityAlerts ?? 0);
+
+  const selectedAlerts = alerts.filter(a => selectedIds.includes(a.id));
+  const acknowledgeable = selectedAlerts.filter(a => a.status === 'Active').map(a => a.id);
+  const resolvable = selectedAlerts.filter(a => a.status !== 'Resolved').map(a => a.id);
+
+  const metadataEntries = detail?.metadata ? Object.entries(detail.metadata) : [];
 
   return (
     <div>
       <PageHeader title="Alerts Hub" />
 
-      {highSeverityAlerts.length > 0 && (
+      {urgentCount > 0 && (
         <Alert
-          message={`${highSeverityAlerts.length} High Severity Alert${highSeverityAlerts.length !== 1 ? 's' : ''} Require Attention`}
+          message={`${urgentCount} Critical or High Severity Alert${urgentCount !== 1 ? 's' : ''} Require Attention`}
           type="error"
           icon={<WarningOutlined />}
           showIcon
           style={{ marginBottom: 16 }}
           action={
-            <Button size="small" onClick={fetchAlerts}>
-              Refresh
+            <Button
+              size="small"
+              onClick={() => {
+                changeFilter(setStatusFilter)('Active');
+                changeFilter(setSeverityFilter)(statistics?.criticalAlerts ? 'Critical' : 'High');
+              }}
+            >
+              Show
             </Button>
           }
         />
       )}
 
       <Row gutter={16} style={{ marginBottom: 16 }}>
-        <Col span={6}>
+        <Col span={4}>
           <Card>
             <Statistic
               title="Active Alerts"
-              value={activeAlerts.length}
+              value={statistics?.activeAlerts ?? 0}
               prefix={<BellOutlined />}
-              valueStyle={{ color: activeAlerts.length > 0 ? '#cf1322' : '#3f8600' }}
+              valueStyle={{ color: statistics?.activeAlerts ? '#cf1322' : '#3f8600' }}
             />
           </Card>
         </Col>
-        <Col span={6}>
+        <Col span={4}>
           <Card>
             <Statistic
-              title="High Severity"
-              value={highSeverityAlerts.length}
+              title="Critical"
+              value={statistics?.criticalAlerts ?? 0}
+              prefix={<FireOutlined />}
+              valueStyle={{ color: '#c41d7f' }}
+            />
+          </Card>
+        </Col>
+        <Col span={4}>
+          <Card>
+            <Statistic
+              title="High"
+              value={statistics?.highSeverityAlerts ?? 0}
               prefix={<WarningOutlined />}
               valueStyle={{ color: '#cf1322' }}
             />
           </Card>
         </Col>
-        <Col span={6}>
+        <Col span={4}>
+          <Card>
+            <Statistic
+              title="Medium / Low"
+              value={severityCount('Medium')}
+              suffix={`/ ${severityCount('Low')}`}
+              prefix={<ExclamationCircleOutlined />}
+              valueStyle={{ color: '#faad14' }}
+            />
+          </Card>
+        </Col>
+        <Col span={4}>
           <Card>
             <Statistic
               title="Payment Failures"
-              value={paymentFailures.length}
+              value={statistics?.paymentFailures ?? 0}
               prefix={<DollarOutlined />}
               valueStyle={{ color: '#cf1322' }}
             />
           </Card>
         </Col>
-        <Col span={6}>
+        <Col span={4}>
           <Card>
             <Statistic
               title="Resolved"
-              value={alerts.filter(a => a.status === 'Resolved').length}
+              value={statistics?.resolvedAlerts ?? 0}
               prefix={<CheckCircleOutlined />}
               valueStyle={{ color: '#3f8600' }}
             />
@@ -322,50 +364,68 @@ export default function AlertsHub() {
 
       <Card>
         <Row gutter={16} style={{ marginBottom: 16 }}>
-          <Col span={6}>
+          <Col span={5}>
             <Select
               placeholder="Status"
               style={{ width: '100%' }}
               allowClear
               value={statusFilter}
-              onChange={setStatusFilter}
+              onChange={changeFilter(setStatusFilter)}
             >
               <Select.Option value="Active">Active</Select.Option>
-              <Select.Option value="Resolved">Resolved</Select.Option>
               <Select.Option value="Acknowledged">Acknowledged</Select.Option>
+              <Select.Option value="Resolved">Resolved</Select.Option>
             </Select>
           </Col>
-          <Col span={6}>
+          <Col span={5}>
             <Select
               placeholder="Type"
               style={{ width: '100%' }}
               allowClear
               value={typeFilter}
-              onChange={setTypeFilter}
-            >
-              <Select.Option value="PaymentFailure">Payment Failure</Select.Option>
-              <Select.Option value="Overage">Overage</Select.Option>
-              <Select.Option value="Error">Error</Select.Option>
-              <Select.Option value="Suspension">Suspension</Select.Option>
-            </Select>
+              onChange={changeFilter(setTypeFilter)}
+              options={ALERT_TYPES.map(t => ({
+                value: t.value,
+                label: typeCount(t.value) > 0 ? `${t.label} (${typeCount(t.value)} active)` : t.label,
+              }))}
+            />
           </Col>
-          <Col span={6}>
+          <Col span={5}>
             <Select
               placeholder="Severity"
               style={{ width: '100%' }}
               allowClear
               value={severityFilter}
-              onChange={setSeverityFilter}
-            >
-              <Select.Option value="High">High</Select.Option>
-              <Select.Option value="Medium">Medium</Select.Option>
-              <Select.Option value="Low">Low</Select.Option>
-            </Select>
+              onChange={changeFilter(setSeverityFilter)}
+              options={SEVERITIES.map(s => ({
+                value: s,
+                label: severityCount(s) > 0 ? `${s} (${severityCount(s)} active)` : s,
+              }))}
+            />
           </Col>
-          <Col span={6}>
-            <Button icon={<ReloadOutlined />} onClick={fetchAlerts} loading={loading}>
-              Refresh
-            </Button>
+          <Col span={9} style={{ textAlign: 'right' }}>
+            <Space>
+              {selectedIds.length > 0 && (
+                <>
+                  <Button
+                    onClick={() => handleAcknowledge(acknowledgeable)}
+                    disabled={acknowledgeable.length === 0 || working}
+                  >
+                    Acknowledge ({acknowledgeable.length})
+                  </Button>
+                  <Button
+                    type="primary"
+                    onClick={() => openResolve(resolvable)}
+                    disabled={resolvable.length === 0 || working}
+                  >
+                    Resolve ({resolvable.length})
+                  </Button>
+                </>
+              )}
+              <Button icon={<ReloadOutlined />} onClick={fetchAlerts} loading={loading}>
+                Refresh
+              </Button>
+            </Space>
           </Col>
         </Row>
 
@@ -374,10 +434,89 @@ export default function AlertsHub() {
           dataSource={alerts}
           rowKey="id"
           loading={loading}
-          pagination={{ pageSize: 20, showTotal: (total) => `Total ${total} alerts` }}
+          rowSelection={{
+            selectedRowKeys: selectedIds,
+            onChange: keys => setSelectedIds(keys as number[]),
+            getCheckboxProps: (record: AlertItem) => ({ disabled: record.status === 'Resolved' }),
+          }}
+          onRow={record => ({ onClick: () => setDetail(record), style: { cursor: 'pointer' } })}
+          onChange={handleTableChange}
+          pagination={{
+            current: pageNumber,
+            pageSize,
+            total: data?.totalCount ?? 0,
+            showSizeChanger: true,
+            showTotal: (total) => `Total ${total} alerts`,
+          }}
         />
       </Card>
+
+      <Drawer
+        title="Alert details"
+        open={!!detail}
+        onClose={() => setDetail(null)}
+        width={520}
+        extra={detail && renderActions(detail)}
+      >
+        {detail && (
+          <>
+            <Descriptions column={1} size="small" bordered style={{ marginBottom: 16 }}>
+              <Descriptions.Item label="Type">{getAlertTypeTag(detail.alertType)}</Descriptions.Item>
+              <Descriptions.Item label="Severity">{getSeverityTag(detail.severity)}</Descriptions.Item>
+              <Descriptions.Item label="Status">{getStatusTag(detail.status)}</Descriptions.Item>
+              <Descriptions.Item label="Tenant">
+                <Button type="link" style={{ padding: 0 }} onClick={() => navigate(`/admin/tenants/${detail.tenantId}`)}>
+                  {detail.tenantName}
+                </Button>
+              </Descriptions.Item>
+              {detail.subscriptionPlanName && (
+                <Descriptions.Item label="Plan">{detail.subscriptionPlanName}</Descriptions.Item>
+              )}
+              <Descriptions.Item label="Message">{detail.message}</Descriptions.Item>
+              <Descriptions.Item label="Raised">{formatDateTime(detail.createdAt)}</Descriptions.Item>
+              {detail.resolvedAt && (
+                <Descriptions.Item label="Resolved">
+                  {formatDateTime(detail.resolvedAt)}
+                  {detail.resolvedBy && <Text type="secondary"> by {detail.resolvedBy}</Text>}
+                </Descriptions.Item>
+              )}
+              {detail.resolutionNotes && (
+                <Descriptions.Item label="Resolution notes">{detail.resolutionNotes}</Descriptions.Item>
+              )}
+            </Descriptions>
+
+            <div style={{ fontWeight: 600, marginBottom: 8 }}>Metadata</div>
+            {metadataEntries.length > 0 ? (
+              <Descriptions column={1} size="small" bordered>
+                {metadataEntries.map(([key, value]) => (
+                  <Descriptions.Item key={key} label={key}>
+                    <Text code style={{ wordBreak: 'break-all' }}>{formatMetadataValue(value)}</Text>
+                  </Descriptions.Item>
+                ))}
+              </Descriptions>
+            ) : (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No metadata recorded" />
+            )}
+          </>
+        )}
+      </Drawer>
+
+      <Modal
+        title={resolveIds && resolveIds.length > 1 ? `Resolve ${resolveIds.length} alerts` : 'Resolve alert'}
+        open={!!resolveIds}
+        onOk={handleResolve}
+        onCancel={() => setResolveIds(null)}
+        okText="Resolve"
+        confirmLoading={working}
+      >
+        <Input.TextArea
+          rows={3}
+          maxLength={2000}
+          value={resolutionNotes}
+          onChange={e => setResolutionNotes(e.target.value)}
+          placeholder="Resolution notes (optional)"
+        />
+      </Modal>
     </div>
   );
 }
-
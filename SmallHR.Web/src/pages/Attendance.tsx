@@ -0,0 +1,504 @@
+import { useState, useEffect } from 'react';
+import {
+  Button,
+  Calendar,
+  Card,
+  Col,
+  DatePicker,
+  Empty,
+  Form,
+  Input,
+  Modal,
+  Popconfirm,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Tabs,
+  Tag,
+  TimePicker,
+} from 'antd';
+import { ClockCircleOutlined, DeleteOutlined, EditOutlined, LoginOutlined, LogoutOutlined, PlusOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import Can from '../components/Can';
+import PageHeader from '../components/PageHeader';
+import { useNotification } from '../contexts/NotificationContext';
+import { attendanceAPI, employeeAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useCan } from '../hooks/useRolePermissions';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import { formatHours, parseTimeSpan } from '../utils/attendance';
+import type { Attendance as AttendanceRecord, Employee } from '../types/api';
+
+const ATTENDANCE_PATH = '/attendance';
+
+const formatTime = (value?: string) => (value ? dayjs(value).format('HH:mm') : '—');
+
+const statusColor = (status: string) => {
+  if (status === 'Present') return 'green';
+  if (status === 'Absent') return 'red';
+  if (status === 'Late') return 'orange';
+  return 'default';
+};
+
+const findDay = (records: AttendanceRecord[], day: Dayjs) =>
+  records.find(r => dayjs(r.date).isSame(day, 'day'));
+
+const refreshAttendance = () => invalidateQueries(queryKeys.attendance.all);
+
+function MyAttendance() {
+  const notify = useNotification();
+  const [now, setNow] = useState(dayjs());
+  const [month, setMonth] = useState(dayjs().startOf('month'));
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(dayjs()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: me, isLoading: meLoading, error: meError } = useQuery(
+    queryKeys.employees.me(),
+    () => employeeAPI.getMe().then(res => res.data)
+  );
+
+  const today = dayjs();
+  const { data: currentMonth = [] } = useQuery(
+    queryKeys.attendance.month(me?.id ?? 0, today.year(), today.month() + 1),
+    () => attendanceAPI.getByMonth(me!.id, today.year(), today.month() + 1).then(res => res.data),
+    { enabled: !!me }
+  );
+
+  const { data: records = [], isLoading: recordsLoading } = useQuery(
+    queryKeys.attendance.month(me?.id ?? 0, month.year(), month.month() + 1),
+    () => attendanceAPI.getByMonth(me!.id, month.year(), month.month() + 1).then(res => res.data),
+    { enabled: !!me }
+  );
+
+  const todayRecord = findDay(currentMonth, today);
+  const clockedIn = !!todayRecord?.clockInTime;
+  const clockedOut = !!todayRecord?.clockOutTime;
+
+  const handleClock = async (direction: 'in' | 'out') => {
+    if (!me) return;
+    setSubmitting(true);
+    try {
+      const timestamp = new Date().toISOString();
+      if (direction === 'in') {
+        await attendanceAPI.clockIn({ employeeId: me.id, clockInTime: timestamp });
+        notify.success('Clocked In', `Clocked in at ${dayjs(timestamp).format('HH:mm')}`);
+      } else {
+        await attendanceAPI.clockOut({ employeeId: me.id, clockOutTime: timestamp });
+        notify.success('Clocked Out', `Clocked out at ${dayjs(timestamp).format('HH:mm')}`);
+      }
+      refreshAttendance();
+    } catch (error: any) {
+      notify.error(
+        direction === 'in' ? 'Clock In Failed' : 'Clock Out Failed',
+        error.response?.data?.message || `Failed to clock ${direction}`
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (meLoading) {
+    return <Card loading />;
+  }
+
+  if (meError || !me) {
+    return (
+      <Card>
+        <Empty description="Your account is not linked to an employee record" />
+      </Card>
+    );
+  }
+
+  const totalHours = records.reduce((sum, r) => sum + parseTimeSpan(r.totalHours), 0);
+  const overtimeHours = records.reduce((sum, r) => sum + parseTimeSpan(r.overtimeHours), 0);
+  const presentDays = records.filter(r => r.status === 'Present').length;
+
+  const dateCellRender = (day: Dayjs) => {
+    const record = findDay(records, day);
+    if (!record) return null;
+    return (
+      <Space direction="vertical" size={2}>
+        <Tag color={statusColor(record.status)}>{record.status}</Tag>
+        {record.totalHours && (
+          <span style={{ fontSize: 12 }}>{formatHours(parseTimeSpan(record.totalHours))}</span>
+        )}
+        {parseTimeSpan(record.overtimeHours) > 0 && (
+          <span style={{ fontSize: 12, color: 'var(--color-warning, #F59E0B)' }}>
+            +{formatHours(parseTimeSpan(record.overtimeHours))} OT
+          </span>
+        )}
+      </Space>
+    );
+  };
+
+  return (
+    <Space direction="vertical" size={16} style={{ width: '100%' }}>
+      <Card>
+        <Row gutter={[16, 16]} align="middle">
+          <Col xs={24} md={8}>
+            <Statistic
+              title={now.format('dddd, DD MMM YYYY')}
+              value={now.format('HH:mm:ss')}
+              prefix={<ClockCircleOutlined />}
+            />
+          </Col>
+          <Col xs={12} md={4}>
+            <Statistic title="Clock In" value={formatTime(todayRecord?.clockInTime)} />
+          </Col>
+          <Col xs={12} md={4}>
+            <Statistic title="Clock Out" value={formatTime(todayRecord?.clockOutTime)} />
+          </Col>
+          <Col xs={24} md={8} style={{ textAlign: 'right' }}>
+            <Space>
+              <Button
+                type="primary"
+                icon={<LoginOutlined />}
+                loading={submitting}
+                disabled={clockedIn}
+                onClick={() => handleClock('in')}
+              >
+                Clock In
+              </Button>
+              <Button
+                icon={<LogoutOutlined />}
+                loading={submitting}
+                disabled={!clockedIn || clockedOut}
+                onClick={() => handleClock('out')}
+              >
+                Clock Out
+              </Button>
+            </Space>
+          </Col>
+        </Row>
+      </Card>
+
+      <Row gutter={16}>
+        <Col xs={24} md={8}>
+          <Card><Statistic title="Days Present" value={presentDays} /></Card>
+        </Col>
+        <Col xs={24} md={8}>
+          <Card><Statistic title="Total Hours" value={totalHours} precision={1} suffix="h" /></Card>
+        </Col>
+        <Col xs={24} md={8}>
+          <Card><Statistic title="Overtime" value={overtimeHours} precision={1} suffix="h" /></Card>
+        </Col>
+      </Row>
+
+      <Card loading={recordsLoading}>
+        <Calendar
+          value={month}
+          onPanelChange={(value) => setMonth(value.startOf('month'))}
+          onSelect={(value, info) => {
+            if (info.source !== 'date') setMonth(value.startOf('month'));
+          }}
+          cellRender={(current, info) => (info.type === 'date' ? dateCellRender(current) : info.originNode)}
+        />
+      </Card>
+    </Space>
+  );
+}
+
+function TeamAttendance() {
+  const notify = useNotification();
+  const { canEdit, canDelete } = useCan(ATTENDANCE_PATH);
+  const [employeeId, setEmployeeId] = useState<number | undefined>(undefined);
+  const [month, setMonth] = useState(dayjs().startOf('month'));
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRecord, setEditingRecord] = useState<AttendanceRecord | null>(null);
+  const [form] = Form.useForm();
+
+  const { data: employees = [], isLoading: employeesLoading } = useQuery(
+    queryKeys.employees.list(),
+    () => employeeAPI.getAll().then(res => res.data)
+  );
+
+  const { data: records = [], isLoading: recordsLoading, error: recordsError } = useQuery(
+    queryKeys.attendance.month(employeeId ?? 0, month.year(), month.month() + 1),
+    () => attendanceAPI.getByMonth(employeeId!, month.year(), month.month() + 1).then(res => res.data),
+    { enabled: employeeId !== undefined }
+  );
+
+  useEffect(() => {
+    if (recordsError) {
+      const error = recordsError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load attendance records');
+    }
+  }, [recordsError]);
+
+  // Combines the record's day with a picked time of day
+  const atDay = (day: Dayjs, time?: Dayjs | null) =>
+    time ? day.hour(time.hour()).minute(time.minute()).second(0).millisecond(0).toISOString() : undefined;
+
+  const handleCreate = () => {
+    setEditingRecord(null);
+    form.resetFields();
+    form.setFieldsValue({ date: dayjs() });
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (record: AttendanceRecord) => {
+    setEditingRecord(record);
+    form.setFieldsValue({
+      date: dayjs(record.date),
+      clockInTime: record.clockInTime ? dayjs(record.clockInTime) : undefined,
+      clockOutTime: record.clockOutTime ? dayjs(record.clockOutTime) : undefined,
+      notes: record.notes,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await attendanceAPI.delete(id);
+      notify.success('Record Deleted', 'Attendance record has been deleted successfully');
+      refreshAttendance();
+    } catch (error: any) {
+      notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete attendance record');
+    }
+  };
+
+  const handleSubmit = async (values: any) => {
+    if (employeeId === undefined) return;
+    const day: Dayjs = values.date;
+    try {
+      if (editingRecord) {
+        await attendanceAPI.update(editingRecord.id, {
+          clockInTime: atDay(day, values.clockInTime),
+          clockOutTime: atDay(day, values.clockOutTime),
+          notes: values.notes,
+        });
+        notify.success('Record Updated', 'Attendance record has been updated successfully');
+      } else {
+        await attendanceAPI.create({
+          employeeId,
+          date: day.format('YYYY-MM-DD'),
+          clockInTime: atDay(day, values.clockInTime),
+          clockOutTime: atDay(day, values.clockOutTime),
+          notes: values.notes,
+        });
+        notify.success('Record Created', 'Attendance record has been created successfully');
+      }
+      setIsModalOpen(false);
+      form.resetFields();
+      refreshAttendance();
+    } catch (error: any) {
+      notify.error(
+        editingRecord ? 'Update Failed' : 'Create Failed',
+        error.response?.data?.message || `Failed to ${editingRecord ? 'update' : 'create'} attendance record`
+      );
+    }
+  };
+
+  const columns: ColumnsType<AttendanceRecord> = [
+    {
+      title: 'Date',
+      dataIndex: 'date',
+      key: 'date',
+      width: 140,
+      sorter: (a, b) => dayjs(a.date).valueOf() - dayjs(b.date).valueOf(),
+      defaultSortOrder: 'ascend',
+      render: (date: string) => dayjs(date).format('ddd, DD MMM'),
+    },
+    {
+      title: 'Clock In',
+      dataIndex: 'clockInTime',
+      key: 'clockInTime',
+      width: 100,
+      render: formatTime,
+    },
+    {
+      title: 'Clock Out',
+      dataIndex: 'clockOutTime',
+      key: 'clockOutTime',
+      width: 100,
+      render: formatTime,
+    },
+    {
+      title: 'Total',
+      dataIndex: 'totalHours',
+      key: 'totalHours',
+      width: 90,
+      render: (value?: string) => (value ? formatHours(parseTimeSpan(value)) : '—'),
+    },
+    {
+      title: 'Overtime',
+      dataIndex: 'overtimeHours',
+      key: 'overtimeHours',
+      width: 90,
+      render: (value?: string) => (parseTimeSpan(value) > 0 ? formatHours(parseTimeSpan(value)) : '—'),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 110,
+      render: (status: string) => <Tag color={statusColor(status)}>{status}</Tag>,
+    },
+    {
+      title: 'Notes',
+      dataIndex: 'notes',
+      key: 'notes',
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 180,
+      fixed: 'right',
+      render: (_: any, record: AttendanceRecord) => (
+        <Space>
+          {canEdit && (
+            <Button type="link" icon={<EditOutlined />} onClick={() => handleEdit(record)}>
+              Edit
+            </Button>
+          )}
+          {canDelete && (
+            <Popconfirm
+              title="Are you sure you want to delete this record?"
+              onConfirm={() => handleDelete(record.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button type="link" danger icon={<DeleteOutlined />}>
+                Delete
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16, width: '100%', justifyContent: 'space-between' }} wrap>
+        <Space wrap>
+          <Select
+            showSearch
+            placeholder="Select employee"
+            style={{ width: 260 }}
+            size="large"
+            loading={employeesLoading}
+            value={employeeId}
+            onChange={setEmployeeId}
+            optionFilterProp="label"
+            options={employees.map((e: Employee) => ({
+              value: e.id,
+              label: `${e.firstName} ${e.lastName} (${e.employeeId})`,
+            }))}
+          />
+          <DatePicker
+            picker="month"
+            size="large"
+            allowClear={false}
+            value={month}
+            onChange={(value) => value && setMonth(value.startOf('month'))}
+          />
+        </Space>
+        <Can path={ATTENDANCE_PATH} action="create">
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            disabled={employeeId === undefined}
+            style={{
+              background: 'var(--gradient-primary)',
+              border: 'none',
+              height: 'var(--button-height)',
+              borderRadius: 'var(--button-radius)',
+            }}
+          >
+            Add Record
+          </Button>
+        </Can>
+      </Space>
+      <Table
+        columns={columns}
+        dataSource={employeeId === undefined ? [] : records}
+        loading={employeeId !== undefined && recordsLoading}
+        rowKey="id"
+        pagination={false}
+        locale={{ emptyText: employeeId === undefined ? 'Select an employee to view their timesheet' : undefined }}
+      />
+
+      <Modal
+        title={editingRecord ? 'Correct Attendance' : 'Add Attendance'}
+        open={isModalOpen}
+        onOk={() => form.submit()}
+        onCancel={() => {
+          setIsModalOpen(false);
+          form.resetFields();
+        }}
+        okText={editingRecord ? 'Update' : 'Create'}
+        cancelText="Cancel"
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item
+            name="date"
+            label="Date"
+            rules={[{ required: true, message: 'Please select a date' }]}
+          >
+            <DatePicker style={{ width: '100%' }} disabled={!!editingRecord} />
+          </Form.Item>
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item name="clockInTime" label="Clock In">
+                <TimePicker format="HH:mm" style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item
+                name="clockOutTime"
+                label="Clock Out"
+                dependencies={['clockInTime']}
+                rules={[
+                  ({ getFieldValue }) => ({
+                    validator(_, value?: Dayjs) {
+                      const clockIn: Dayjs | undefined = getFieldValue('clockInTime');
+                      if (!value || !clockIn || value.isAfter(clockIn)) return Promise.resolve();
+                      return Promise.reject(new Error('Clock out must be after clock in'));
+                    },
+                  }),
+                ]}
+              >
+                <TimePicker format="HH:mm" style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item name="notes" label="Notes">
+            <Input.TextArea rows={3} placeholder="Reason for the correction" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
+
+export default function Attendance() {
+  // Anyone who may edit attendance records gets the team view
+  const { canEdit } = useCan(ATTENDANCE_PATH);
+
+  return (
+    <div>
+      <PageHeader title="Attendance" subtitle="Time & Timesheets" />
+      {canEdit ? (
+        <Tabs
+          items={[
+            { key: 'mine', label: 'My Attendance', children: <MyAttendance /> },
+            { key: 'team', label: 'Team Attendance', children: <TeamAttendance /> },
+          ]}
+        />
+      ) : (
+        <MyAttendance />
+      )}
+    </div>
+  );
+}
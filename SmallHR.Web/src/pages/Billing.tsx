@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { Card, Row, Col, Tag, Button, Segmented, Progress, Alert, Badge, Space, Spin, Result, Typography, Empty } from 'antd';
+import { CheckOutlined, StopOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import PageHeader from '../components/PageHeader';
+import Can from '../components/Can';
+import ChangePlanModal from '../components/Billing/ChangePlanModal';
+import CancelSubscriptionModal from '../components/Billing/CancelSubscriptionModal';
+import { useNotification } from '../contexts/NotificationContext';
+import { useQuery } from '../hooks/useQuery';
+import { useRoles } from '../hooks/useRoles';
+import { subscriptionAPI, usageMetricsAPI } from '../services/api';
+import { queryKeys } from '../services/queryKeys';
+import { PRICE_PERIODS, isFeatureIncluded, planPrice, periodSaving, subscriptionStatusColor } from '../utils/billing';
+import type { PricePeriod } from '../utils/billing';
+import { formatBytes } from '../utils/files';
+import { formatMoney } from '../utils/payroll';
+import { formatDate } from '../utils/preferences';
+import type { SubscriptionPlan } from '../types/api';
+
+const { Text, Title } = Typography;
+
+const PERIOD_UNIT: Record<PricePeriod, string> = { Monthly: 'month', Quarterly: 'quarter', Yearly: 'year' };
+
+interface UsageRowProps {
+  label: string;
+  used: number;
+  limit: number | null; // null when the plan sets no limit
+  format?: (value: number) => string;
+}
+
+function UsageRow({ label, used, limit, format = String }: UsageRowProps) {
+  const percent = limit ? Math.min(Math.round((used / limit) * 100), 100) : 0;
+  return (
+    <div style={{ marginBottom: 12 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13 }}>
+        <span>{label}</span>
+        <Text type="secondary">
+          {format(used)} of {limit === null ? 'unlimited' : format(limit)}
+        </Text>
+      </div>
+      <Progress
+        percent={limit === null ? 0 : percent}
+        status={limit !== null && used >= limit ? 'exception' : 'normal'}
+        showInfo={false}
+        size="small"
+      />
+    </div>
+  );
+}
+
+export default function Billing() {
+  const notify = useNotification();
+  const navigate = useNavigate();
+  const { isSuperAdmin } = useRoles();
+  const [period, setPeriod] = useState<PricePeriod | null>(null);
+  const [changeTo, setChangeTo] = useState<SubscriptionPlan | null>(null);
+  const [cancelOpen, setCancelOpen] = useState(false);
+
+  const { data: subscription, error: subscriptionError, isLoading: subscriptionLoading } = useQuery(
+    queryKeys.subscriptions.current(),
+    () => subscriptionAPI.getCurrent().then(res => res.data),
+    { enabled: !isSuperAdmin }
+  );
+  const { data: plans = [], isLoading: plansLoading } = useQuery(
+    queryKeys.subscriptions.plans(),
+    () => subscriptionAPI.getPlans().then(res => res.data)
+  );
+  const { data: usage, error: usageError } = useQuery(
+    queryKeys.subscriptions.usage(),
+    () => usageMetricsAPI.getSummary().then(res => res.data),
+    { enabled: !isSuperAdmin }
+  );
+
+  // A 404 just means the tenant has no subscription yet
+  const missingSubscription = (subscriptionError as any)?.response?.status === 404;
+
+  useEffect(() => {
+    if (subscriptionError && !missingSubscription) {
+      const error = subscriptionError as any;
+      notify.error('Failed to Load Subscription', error.response?.data?.message || 'Unable to fetch your subscription.');
+    }
+  }, [subscriptionError]);
+
+  if (isSuperAdmin) {
+    return (
+      <div>
+        <PageHeader title="Billing" />
+        <Result
+          status="info"
+          title="Billing is managed per tenant"
+          subTitle="Use the Billing Center to review subscriptions across all tenants."
+          extra={<Button type="primary" onClick={() => navigate('/admin/billing')}>Open Billing Center</Button>}
+        />
+      </div>
+    );
+  }
+
+  const currentPlan = plans.find(p => p.id === subscription?.subscriptionPlanId);
+  const canChangePlan = !!subscription && subscription.status !== 'Canceled';
+  const displayPeriod: PricePeriod = period
+    ?? (PRICE_PERIODS.includes(subscription?.billingPeriod as PricePeriod) ? subscription!.billingPeriod as PricePeriod : 'Monthly');
+
+  // The current plan stays listed even if it has since been retired
+  const listedPlans = plans
+    .filter(p => (p.isActive && p.isVisible) || p.id === currentPlan?.id)
+    .sort((a, b) => a.monthlyPrice - b.monthlyPrice);
+
+  const renderPlanAction = (plan: SubscriptionPlan) => {
+    if (plan.id === currentPlan?.id) {
+      return <Button block disabled>Current plan</Button>;
+    }
+    if (!canChangePlan) return null;
+
+    const isUpgrade = !currentPlan || plan.monthlyPrice > currentPlan.monthlyPrice;
+    return (
+      <Can path="/billing" action="edit" mode="disable">
+        <Button
+          block
+          type={isUpgrade ? 'primary' : 'default'}
+          onClick={() => setChangeTo(plan)}
+          style={isUpgrade ? { background: 'var(--gradient-primary)', border: 'none' } : undefined}
+        >
+          {isUpgrade ? 'Upgrade' : 'Downgrade'}
+        </Button>
+      </Can>
+    );
+  };
+
+  const renderPlanCard = (plan: SubscriptionPlan) => {
+    const price = planPrice(plan, displayPeriod);
+    const saving = periodSaving(plan, displayPeriod);
+    const card = (
+      <Card
+        style={{
+          height: '100%',
+          borderColor: plan.id === currentPlan?.id ? 'var(--color-primary)' : undefined,
+        }}
+        styles={{ body: { display: 'flex', flexDirection: 'column', height: '100%' } }}
+      >
+        <Title level={4} style={{ marginTop: 0, marginBottom: 4 }}>{plan.name}</Title>
+        {plan.description && <Text type="secondary">{plan.description}</Text>}
+        <div style={{ margin: '16px 0 8px' }}>
+          <span style={{ fontSize: 28, fontWeight: 600 }}>{formatMoney(price, plan.currency)}</span>
+          <Text type="secondary"> / {PERIOD_UNIT[displayPeriod]}</Text>
+        </div>
+        <Space size={4} wrap style={{ marginBottom: 12 }}>
+          {saving > 0 && <Tag color="green">Save {saving}%</Tag>}
+          {plan.trialDays ? <Tag color="blue">{plan.trialDays}-day free trial</Tag> : null}
+        </Space>
+        <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 16px', flex: 1 }}>
+          <li>{plan.maxEmployees} employees</li>
+          <li>{plan.maxUsers === null ? 'Unlimited' : plan.maxUsers} users</li>
+          <li>{plan.maxDepartments === null ? 'Unlimited' : plan.maxDepartments} departments</li>
+          <li>{plan.maxStorageBytes === null ? 'Unlimited' : formatBytes(plan.maxStorageBytes)} storage</li>
+          {plan.features.map(f => {
+            const included = isFeatureIncluded(f);
+            return (
+              <li key={f.key} style={{ color: included ? undefined : 'var(--color-text-secondary)' }}>
+                {included ? <CheckOutlined style={{ color: '#52c41a' }} /> : <StopOutlined />} {f.name}
+              </li>
+            );
+          })}
+        </ul>
+        {renderPlanAction(plan)}
+      </Card>
+    );
+
+    return plan.popularBadge ? <Badge.Ribbon text={plan.popularBadge}>{card}</Badge.Ribbon> : card;
+  };
+
+  return (
+    <div>
+      <PageHeader title="Billing" subtitle="Your plan, usage and subscription" />
+
+      {missingSubscription && (
+        <Alert
+          type="info"
+          showIcon
+          style={{ marginBottom: 16 }}
+          message="No active subscription"
+          description="Your organization is not on a paid plan yet. Contact support to start a subscription."
+        />
+      )}
+
+      <Row gutter={16} style={{ marginBottom: 16 }}>
+        <Col xs={24} md={12}>
+          <Card title="Current plan" style={{ height: '100%' }} loading={subscriptionLoading}>
+            {subscription && (
+              <>
+                <Space align="center" style={{ marginBottom: 8 }}>
+                  <Title level={3} style={{ margin: 0 }}>{subscription.planName}</Title>
+                  <Tag color={subscriptionStatusColor(subscription.status)}>{subscription.status}</Tag>
+                </Space>
+                <div style={{ marginBottom: 4 }}>
+                  {formatMoney(subscription.price, subscription.currency)} billed {subscription.billingPeriod.toLowerCase()}
+                </div>
+                {subscription.status === 'Trialing' && subscription.trialEndDate && (
+                  <div style={{ marginBottom: 4 }}>Trial ends {formatDate(subscription.trialEndDate)}</div>
+                )}
+                {subscription.endDate && (
+                  <div style={{ marginBottom: 4 }}>
+                    {subscription.autoRenew ? 'Renews' : 'Ends'} {formatDate(subscription.endDate)}
+                  </div>
+                )}
+                {subscription.canceledAt && (
+                  <div style={{ marginBottom: 4 }}>Cancelled {formatDate(subscription.canceledAt)}</div>
+                )}
+                {canChangePlan && (
+                  <Can path="/billing" action="delete">
+                    <Button danger style={{ marginTop: 12 }} onClick={() => setCancelOpen(true)}>
+                      Cancel subscription
+                    </Button>
+                  </Can>
+                )}
+              </>
+            )}
+            {!subscription && !subscriptionLoading && <Empty description="No subscription" />}
+          </Card>
+        </Col>
+        <Col xs={24} md={12}>
+          <Card title="Usage" style={{ height: '100%' }} loading={!usage && !usageError}>
+            {!!usageError && <Empty description="Usage is not available right now" />}
+            {usage && (
+              <>
+                <UsageRow label="Employees" used={usage.employeeCount} limit={usage.employeeLimit} />
+                <UsageRow label="Users" used={usage.userCount} limit={usage.userLimit} />
+                <UsageRow label="Storage" used={usage.storageBytesUsed} limit={usage.storageLimitBytes} format={formatBytes} />
+              </>
+            )}
+          </Card>
+        </Col>
+      </Row>
+
+      <Card
+        title="Plans"
+        extra={
+          <Segmented
+            value={displayPeriod}
+            onChange={value => setPeriod(value as PricePeriod)}
+            options={PRICE_PERIODS}
+          />
+        }
+      >
+        {plansLoading ? (
+          <div style={{ textAlign: 'center', padding: 24 }}><Spin /></div>
+        ) : (
+          <Row gutter={[16, 16]}>
+            {listedPlans.map(plan => (
+              <Col key={plan.id} xs={24} sm={12} lg={6}>
+                {renderPlanCard(plan)}
+              </Col>
+            ))}
+          </Row>
+        )}
+        {canChangePlan && (
+          <Text type="secondary" style={{ display: 'block', marginTop: 16 }}>
+            Plan changes take effect immediately and keep your {subscription!.billingPeriod.toLowerCase()} billing period;
+            the unused part of your current plan is credited.
+          </Text>
+        )}
+      </Card>
+
+      {subscription && (
+        <>
+          <ChangePlanModal
+            tenantId={subscription.tenantId}
+            currentPlan={currentPlan}
+            plan={changeTo}
+            onClose={() => setChangeTo(null)}
+          />
+          <CancelSubscriptionModal
+            open={cancelOpen}
+            tenantId={subscription.tenantId}
+            tenantName={subscription.tenantName}
+            onClose={() => setCancelOpen(false)}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,83 +8,58 @@ import {
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import PageHeader from '../components/PageHeader';
-import api from '../services/api';
+import { billingAdminAPI } from '../services/api';
 import { useNotification } from '../contexts/NotificationContext';
+import { useQuery } from '../hooks/useQuery';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
 import dayjs from 'dayjs';
 
-interface WebhookEvent {
-  id: number;
-  eventType: string;
-  provider: string;
-  status: string;
-  tenantId: number | null;
-  subscriptionId: number | null;
-  payload: string;
-  processed: boolean;
-  createdAt: string;
-  error: string | null;
-}
-
-interface ReconciliationResult {
-  reconciled: number;
-  discrepancies: number;
-  totalChecked: number;
-}
+import type { WebhookEvent } from '../types/api';
 
 export default function BillingCenter() {
   const notify = useNotification();
-  const [webhooks, setWebhooks] = useState<WebhookEvent[]>([]);
-  const [loading, setLoading] = useState(false);
   const [reconciling, setReconciling] = useState(false);
   const [startDate, setStartDate] = useState<dayjs.Dayjs | null>(dayjs().subtract(30, 'days'));
   const [endDate, setEndDate] = useState<dayjs.Dayjs | null>(dayjs());
   const [statusFilter, setStatusFilter] = useState<string | undefined>();
   const [providerFilter, setProviderFilter] = useState<string | undefined>();
 
-  useEffect(() => {
-    fetchWebhookEvents();
-  }, [startDate, endDate, statusFilter, providerFilter]);
+  const webhookParams = {
+    startDate: startDate?.toISOString(),
+    endDate: endDate?.toISOString(),
+    status: statusFilter,
+    provider: providerFilter,
+  };
+  const { data, isFetching: loading, error: webhooksError, refetch } = useQuery(
+    queryKeys.billing.webhooks(webhookParams),
+    () => billingAdminAPI.getWebhooks(webhookParams).then(res => res.data)
+  );
+  const webhooks: WebhookEvent[] = webhooksError ? [] : data?.webhooks ?? [];
 
-  const fetchWebhookEvents = async () => {
-    setLoading(true);
-    try {
-      // Note: You'll need to create a webhook events endpoint
-      // For now, this is a placeholder
-      const response = await api.get('/admin/billing/webhooks', {
-        params: {
-          startDate: startDate?.toISOString(),
-          endDate: endDate?.toISOString(),
-          status: statusFilter,
-          provider: providerFilter,
-        },
-      });
-      setWebhooks(response.data.webhooks || []);
-    } catch (error: any) {
-      // If endpoint doesn't exist yet, show empty state
-      console.log('Webhook events endpoint not implemented yet');
-      setWebhooks([]);
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    if (webhooksError) {
+      const error = webhooksError as any;
+      notify.error('Failed to Load Webhooks', error.response?.data?.message || 'Unable to fetch webhook events.');
     }
+  }, [webhooksError]);
+
+  const fetchWebhookEvents = () => {
+    refetch().catch(() => undefined);
   };
 
   const handleReconcile = async () => {
     setReconciling(true);
     try {
-      // Placeholder for reconciliation endpoint
-      const response = await api.post('/admin/billing/reconcile', {
-        startDate: startDate?.toISOString(),
-        endDate: endDate?.toISOString(),
-      });
-      
-      const result: ReconciliationResult = response.data;
+      const response = await billingAdminAPI.reconcile(startDate?.toISOString(), endDate?.toISOString());
+      const result = response.data;
       notify.success(
         'Reconciliation Complete',
         `Reconciled ${result.reconciled} subscriptions. Found ${result.discrepancies} discrepancies.`
       );
       
       // Refresh webhook events
-      fetchWebhookEvents();
+      invalidateQueries(queryKeys.billing.all);
     } catch (error: any) {
       notify.error('Reconciliation Failed', error.response?.data?.message || 'Unable to reconcile billing data.');
       console.error(error);
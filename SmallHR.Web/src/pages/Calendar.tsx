@@ -0,0 +1,409 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Button,
+  Card,
+  DatePicker,
+  Empty,
+  Form,
+  Input,
+  List,
+  Modal,
+  Popover,
+  Radio,
+  Segmented,
+  Select,
+  Space,
+  Tag,
+  Typography,
+} from 'antd';
+import { DownloadOutlined, LeftOutlined, PlusOutlined, RightOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import PageHeader from '../components/PageHeader';
+import { useNotification } from '../contexts/NotificationContext';
+import { calendarAPI, departmentAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useCan } from '../hooks/useRolePermissions';
+import { useRoles } from '../hooks/useRoles';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import type { CalendarEntry, CalendarEntryType } from '../types/api';
+import './Calendar.css';
+
+const { RangePicker } = DatePicker;
+
+const HR_ROLES = ['SuperAdmin', 'Admin', 'HR'];
+
+type CalendarView = 'Month' | 'Week' | 'Agenda';
+
+const ENTRY_COLORS: Record<CalendarEntryType, string> = {
+  Leave: 'blue',
+  Holiday: 'red',
+  Birthday: 'magenta',
+  Anniversary: 'gold',
+  Event: 'green',
+};
+
+const entryColor = (type: string) => ENTRY_COLORS[type as CalendarEntryType] ?? 'default';
+
+const dayKey = (date: Dayjs | string) => dayjs(date).format('YYYY-MM-DD');
+
+const covers = (entry: CalendarEntry, day: Dayjs) => {
+  const key = dayKey(day);
+  return dayKey(entry.startDate) <= key && dayKey(entry.endDate) >= key;
+};
+
+const formatRange = (entry: CalendarEntry) => {
+  const start = dayjs(entry.startDate);
+  const end = dayjs(entry.endDate);
+  return start.isSame(end, 'day')
+    ? start.format('ddd, DD MMM YYYY')
+    : `${start.format('DD MMM')} – ${end.format('DD MMM YYYY')}`;
+};
+
+// Month view shows whole weeks so the grid always starts on the first weekday column
+const visibleRange = (view: CalendarView, anchor: Dayjs): [Dayjs, Dayjs] => {
+  if (view === 'Week') return [anchor.startOf('week'), anchor.endOf('week')];
+  if (view === 'Month') return [anchor.startOf('month').startOf('week'), anchor.endOf('month').endOf('week')];
+  return [anchor.startOf('month'), anchor.endOf('month')];
+};
+
+const refreshCalendar = () => invalidateQueries(queryKeys.calendar.all);
+
+export default function Calendar() {
+  const notify = useNotification();
+  const { hasRole } = useRoles();
+  const isHR = hasRole(...HR_ROLES);
+  const { canCreate, canEdit, canDelete } = useCan('/calendar');
+
+  const [view, setView] = useState<CalendarView>('Month');
+  const [anchor, setAnchor] = useState(() => dayjs());
+  const [department, setDepartment] = useState<string | undefined>(undefined);
+  const [exporting, setExporting] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingEventId, setEditingEventId] = useState<number | null>(null);
+  const [form] = Form.useForm();
+
+  const [rangeStart, rangeEnd] = visibleRange(view, anchor);
+  const startDate = rangeStart.format('YYYY-MM-DD');
+  const endDate = rangeEnd.format('YYYY-MM-DD');
+
+  const { data: entries = [], isLoading, error: entriesError } = useQuery(
+    queryKeys.calendar.entries(startDate, endDate, department),
+    () => calendarAPI.getEntries(startDate, endDate, department).then(res => res.data)
+  );
+
+  const { data: departmentNames = [] } = useQuery(
+    queryKeys.departments.names(),
+    () => departmentAPI.getNames().then(res => res.data),
+    { enabled: isHR }
+  );
+
+  useEffect(() => {
+    if (entriesError) {
+      const error = entriesError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load calendar');
+    }
+  }, [entriesError]);
+
+  // Department names are an HR endpoint; everyone else picks from the departments on screen
+  const departmentOptions = useMemo(() => {
+    const names = new Set(isHR ? departmentNames : entries.map(e => e.department).filter((d): d is string => !!d));
+    if (department) names.add(department);
+    return Array.from(names).sort().map(name => ({ value: name, label: name }));
+  }, [isHR, departmentNames, entries, department]);
+
+  const shift = (direction: 1 | -1) =>
+    setAnchor(current => current.add(direction, view === 'Week' ? 'week' : 'month'));
+
+  const title = view === 'Week'
+    ? `${rangeStart.format('DD MMM')} – ${rangeEnd.format('DD MMM YYYY')}`
+    : anchor.format('MMMM YYYY');
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const res = await calendarAPI.exportIcs(startDate, endDate, department);
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `smallhr-calendar-${startDate}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      notify.error('Export Failed', error.response?.data?.message || 'Failed to export calendar');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleCreate = (day?: Dayjs) => {
+    setEditingEventId(null);
+    form.resetFields();
+    form.setFieldsValue({
+      eventType: 'Event',
+      range: day ? [day, day] : undefined,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = async (eventId: number) => {
+    try {
+      const { data: calendarEvent } = await calendarAPI.getEvent(eventId);
+      setEditingEventId(eventId);
+      form.setFieldsValue({
+        title: calendarEvent.title,
+        eventType: calendarEvent.eventType,
+        range: [dayjs(calendarEvent.startDate), dayjs(calendarEvent.endDate)],
+        department: calendarEvent.department,
+        location: calendarEvent.location,
+        description: calendarEvent.description,
+      });
+      setIsModalOpen(true);
+    } catch (error: any) {
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load event');
+    }
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingEventId(null);
+    form.resetFields();
+  };
+
+  const handleSubmit = async (values: any) => {
+    const [start, end]: [Dayjs, Dayjs] = values.range;
+    const payload = {
+      title: values.title,
+      eventType: values.eventType,
+      startDate: start.format('YYYY-MM-DD'),
+      endDate: end.format('YYYY-MM-DD'),
+      department: values.department || undefined,
+      location: values.location || undefined,
+      description: values.description || undefined,
+    };
+    try {
+      if (editingEventId) {
+        await calendarAPI.updateEvent(editingEventId, payload);
+        notify.success('Event Updated', `${values.title} has been updated`);
+      } else {
+        await calendarAPI.createEvent(payload);
+        notify.success('Event Added', `${values.title} is now on the company calendar`);
+      }
+      closeModal();
+      refreshCalendar();
+    } catch (error: any) {
+      notify.error(
+        editingEventId ? 'Update Failed' : 'Create Failed',
+        error.response?.data?.message || `Failed to ${editingEventId ? 'update' : 'create'} event`
+      );
+    }
+  };
+
+  const handleDelete = () => {
+    if (!editingEventId) return;
+    Modal.confirm({
+      title: 'Delete Event',
+      content: `Remove "${form.getFieldValue('title')}" from the company calendar?`,
+      okText: 'Delete',
+      okType: 'danger',
+      onOk: async () => {
+        try {
+          await calendarAPI.deleteEvent(editingEventId);
+          notify.success('Event Deleted', 'The event has been removed');
+          closeModal();
+          refreshCalendar();
+        } catch (error: any) {
+          notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete event');
+        }
+      },
+    });
+  };
+
+  const isEditable = (entry: CalendarEntry) => canEdit && entry.eventId !== undefined;
+
+  const renderEntryTag = (entry: CalendarEntry) => (
+    <Tag
+      key={entry.id}
+      color={entryColor(entry.type)}
+      title={[entry.title, entry.department, entry.description].filter(Boolean).join(' · ')}
+      className={`company-calendar-entry${isEditable(entry) ? ' is-editable' : ''}`}
+      onClick={(e) => {
+        e.stopPropagation();
+        if (isEditable(entry)) handleEdit(entry.eventId!);
+      }}
+    >
+      {entry.title}
+    </Tag>
+  );
+
+  const renderGrid = () => {
+    const days: Dayjs[] = [];
+    for (let day = rangeStart; !day.isAfter(rangeEnd, 'day'); day = day.add(1, 'day')) {
+      days.push(day);
+    }
+    const limit = view === 'Week' ? Infinity : 3;
+    const today = dayKey(dayjs());
+
+    return (
+      <div className={`company-calendar-grid${view === 'Week' ? ' is-week' : ''}`}>
+        {days.slice(0, 7).map(day => (
+          <div key={`weekday-${day.day()}`} className="company-calendar-weekday">
+            {day.format('ddd')}
+          </div>
+        ))}
+        {days.map(day => {
+          const dayEntries = entries.filter(entry => covers(entry, day));
+          const hidden = dayEntries.slice(limit);
+          const classes = [
+            'company-calendar-day',
+            view === 'Month' && !day.isSame(anchor, 'month') ? 'is-outside' : '',
+            dayKey(day) === today ? 'is-today' : '',
+            canCreate ? 'is-creatable' : '',
+          ].filter(Boolean).join(' ');
+
+          return (
+            <div key={dayKey(day)} className={classes} onClick={() => canCreate && handleCreate(day)}>
+              <span className="company-calendar-date">{day.date()}</span>
+              {dayEntries.slice(0, limit).map(renderEntryTag)}
+              {hidden.length > 0 && (
+                <Popover
+                  title={day.format('dddd, DD MMMM')}
+                  trigger="click"
+                  content={<div style={{ maxWidth: 280 }}>{dayEntries.map(renderEntryTag)}</div>}
+                >
+                  <span className="company-calendar-more" onClick={(e) => e.stopPropagation()}>
+                    +{hidden.length} more
+                  </span>
+                </Popover>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderAgenda = () => (
+    <List
+      dataSource={entries}
+      locale={{ emptyText: <Empty description="Nothing scheduled this month" /> }}
+      renderItem={(entry) => (
+        <List.Item
+          actions={isEditable(entry) ? [
+            <Button key="edit" type="link" onClick={() => handleEdit(entry.eventId!)}>Edit</Button>,
+          ] : undefined}
+        >
+          <List.Item.Meta
+            avatar={<Tag color={entryColor(entry.type)} style={{ width: 96, textAlign: 'center' }}>{entry.type}</Tag>}
+            title={entry.title}
+            description={[formatRange(entry), entry.department, entry.description].filter(Boolean).join(' · ')}
+          />
+        </List.Item>
+      )}
+    />
+  );
+
+  return (
+    <div>
+      <PageHeader title="Calendar" subtitle="Leave, Holidays & Company Events" />
+
+      <Space style={{ marginBottom: 16, width: '100%', justifyContent: 'space-between' }} wrap>
+        <Space wrap>
+          <Button icon={<LeftOutlined />} onClick={() => shift(-1)} />
+          <Button onClick={() => setAnchor(dayjs())}>Today</Button>
+          <Button icon={<RightOutlined />} onClick={() => shift(1)} />
+          <Typography.Title level={4} style={{ margin: 0, minWidth: 200 }}>{title}</Typography.Title>
+        </Space>
+        <Space wrap>
+          <Segmented<CalendarView> options={['Month', 'Week', 'Agenda']} value={view} onChange={setView} />
+          <Select
+            placeholder="All departments"
+            allowClear
+            showSearch
+            style={{ width: 200 }}
+            value={department}
+            onChange={setDepartment}
+            options={departmentOptions}
+          />
+          <Button icon={<DownloadOutlined />} loading={exporting} onClick={handleExport}>
+            Export .ics
+          </Button>
+          {canCreate && (
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              onClick={() => handleCreate()}
+              style={{
+                background: 'var(--gradient-primary)',
+                border: 'none',
+                height: 'var(--button-height)',
+                borderRadius: 'var(--button-radius)',
+              }}
+            >
+              Add Event
+            </Button>
+          )}
+        </Space>
+      </Space>
+
+      <Card
+        bordered={false}
+        loading={isLoading}
+        style={{ borderRadius: 'var(--card-radius)', boxShadow: 'var(--card-shadow)' }}
+        bodyStyle={{ padding: 'var(--card-padding)' }}
+      >
+        <Space wrap style={{ marginBottom: 12 }}>
+          {Object.entries(ENTRY_COLORS).map(([type, color]) => (
+            <Tag key={type} color={color}>{type}</Tag>
+          ))}
+        </Space>
+        {view === 'Agenda' ? renderAgenda() : renderGrid()}
+      </Card>
+
+      <Modal
+        title={editingEventId ? 'Edit Event' : 'Add Event'}
+        open={isModalOpen}
+        onCancel={closeModal}
+        footer={[
+          editingEventId && canDelete ? (
+            <Button key="delete" danger style={{ float: 'left' }} onClick={handleDelete}>Delete</Button>
+          ) : null,
+          <Button key="cancel" onClick={closeModal}>Cancel</Button>,
+          <Button key="submit" type="primary" onClick={() => form.submit()}>
+            {editingEventId ? 'Update' : 'Create'}
+          </Button>,
+        ]}
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item name="title" label="Title" rules={[{ required: true, message: 'Please enter a title' }, { max: 200 }]}>
+            <Input placeholder="e.g. Quarterly all-hands" />
+          </Form.Item>
+          <Form.Item name="eventType" label="Type" rules={[{ required: true }]}>
+            <Radio.Group>
+              <Radio.Button value="Event">Company Event</Radio.Button>
+              <Radio.Button value="Holiday">Public Holiday</Radio.Button>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item name="range" label="Dates" rules={[{ required: true, message: 'Please select the dates' }]}>
+            <RangePicker style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item name="department" label="Department" extra="Leave empty to show it to the whole company">
+            <Select
+              placeholder="Company-wide"
+              allowClear
+              showSearch
+              options={departmentNames.map(name => ({ value: name, label: name }))}
+            />
+          </Form.Item>
+          <Form.Item name="location" label="Location" rules={[{ max: 200 }]}>
+            <Input placeholder="Office, meeting room or link" />
+          </Form.Item>
+          <Form.Item name="description" label="Description" rules={[{ max: 1000 }]}>
+            <Input.TextArea rows={3} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
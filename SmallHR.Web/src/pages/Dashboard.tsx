@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
 import { Card, Row, Col, Statistic, Button, Table, Tag, Space, message } from 'antd';
 import { 
   UserOutlined, 
@@ -8,32 +8,25 @@ import {
 } from '@ant-design/icons';
 import { employeeAPI, leaveRequestAPI, attendanceAPI } from '../services/api';
 import PageHeader from '../components/PageHeader';
-import type { Employee, LeaveRequest } from '../types/api';
+import { useQuery } from '../hooks/useQuery';
+import { queryKeys } from '../services/queryKeys';
 
 export default function Dashboard() {
-  const [employees, setEmployees] = useState<Employee[]>([]);
-  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: employees = [], isLoading: employeesLoading, error: employeesError } = useQuery(
+    queryKeys.employees.active(),
+    () => employeeAPI.getActive().then(res => res.data)
+  );
+  const { data: leaveRequests = [], isLoading: leaveLoading, error: leaveError } = useQuery(
+    queryKeys.leaveRequests.pending(),
+    () => leaveRequestAPI.getPending().then(res => res.data)
+  );
+  const loading = employeesLoading || leaveLoading;
 
   useEffect(() => {
-    fetchDashboardData();
-  }, []);
-
-  const fetchDashboardData = async () => {
-    try {
-      const [employeesRes, leaveRequestsRes] = await Promise.all([
-        employeeAPI.getActive(),
-        leaveRequestAPI.getPending(),
-      ]);
-      
-      setEmployees(employeesRes.data);
-      setLeaveRequests(leaveRequestsRes.data);
-    } catch (error: any) {
+    if (employeesError || leaveError) {
       message.error('Failed to load dashboard data');
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [employeesError, leaveError]);
 
   const handleClockIn = async () => {
     try {
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { Segmented } from 'antd';
+import { useRoles } from '../hooks/useRoles';
+import SuperAdminDashboard from './SuperAdminDashboard';
+import AdminDashboard from './AdminDashboard';
+import HRDashboard from './HRDashboard';
+import EmployeeDashboard from './EmployeeDashboard';
+
+// One dashboard per role, most privileged first
+const DASHBOARDS = [
+  { role: 'SuperAdmin', label: 'Platform', component: SuperAdminDashboard },
+  { role: 'Admin', label: 'Admin', component: AdminDashboard },
+  { role: 'HR', label: 'HR', component: HRDashboard },
+  { role: 'Employee', label: 'My Dashboard', component: EmployeeDashboard },
+];
+
+const DASHBOARD_STORAGE_KEY = 'dashboardRole';
+
+// Role-based Dashboard Component
+export default function DashboardRouter() {
+  const { roles } = useRoles();
+  const [chosenRole, setChosenRole] = useState(() => localStorage.getItem(DASHBOARD_STORAGE_KEY));
+  const available = DASHBOARDS.filter(d => roles.includes(d.role));
+
+  if (available.length === 0) {
+    return <EmployeeDashboard />;
+  }
+
+  const current = available.find(d => d.role === chosenRole) ?? available[0];
+  const Dashboard = current.component;
+
+  if (available.length === 1) {
+    return <Dashboard />;
+  }
+
+  // Users with several roles pick which dashboard to look at; the choice is remembered per browser
+  const handleChange = (role: string) => {
+    localStorage.setItem(DASHBOARD_STORAGE_KEY, role);
+    setChosenRole(role);
+  };
+
+  return (
+    <div>
+      <Segmented
+        value={current.role}
+        onChange={(value) => handleChange(String(value))}
+        options={available.map(d => ({ value: d.role, label: d.label }))}
+        style={{ marginBottom: 16 }}
+      />
+      <Dashboard />
+    </div>
+  );
+}
@@ -3,18 +3,21 @@ import { Button, Space, Table, Tag, Popconfirm, Modal, Form, Input, Select, Swit
 import { PlusOutlined, EditOutlined, DeleteOutlined, UserOutlined } from '@ant-design/icons';
 import { useNotification } from '../contexts/NotificationContext';
 import { departmentAPI, employeeAPI, tenantAPI } from '../services/api';
-import { useAuthStore } from '../store/authStore';
-import type { Department, CreateDepartmentRequest, UpdateDepartmentRequest, Employee } from '../types/api';
+import { useQuery } from '../hooks/useQuery';
+import { useRoles } from '../hooks/useRoles';
+import { useCan } from '../hooks/useRolePermissions';
+import Can from '../components/Can';
+import FeatureGate from '../components/FeatureGate';
+import FeatureUsage from '../components/FeatureUsage';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import type { Department, CreateDepartmentRequest, UpdateDepartmentRequest } from '../types/api';
 
 export default function Departments() {
   const notify = useNotification();
-  const { user } = useAuthStore();
-  const isSuperAdmin = user?.roles?.[0] === 'SuperAdmin';
-  const [departments, setDepartments] = useState<Department[]>([]);
-  const [employees, setEmployees] = useState<Employee[]>([]);
-  const [tenants, setTenants] = useState<any[]>([]);
+  const { isSuperAdmin } = useRoles();
+  const { canEdit, canDelete } = useCan('/departments');
   const [tenantFilter, setTenantFilter] = useState<string | undefined>(undefined);
-  const [loading, setLoading] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isAssignHeadModalOpen, setIsAssignHeadModalOpen] = useState(false);
   const [selectedDepartmentForHead, setSelectedDepartmentForHead] = useState<Department | null>(null);
@@ -22,46 +25,38 @@ export default function Departments() {
   const [form] = Form.useForm();
   const [assignHeadForm] = Form.useForm();
 
-  // Fetch tenants for SuperAdmin
-  useEffect(() => {
-    if (isSuperAdmin) {
-      const fetchTenants = async () => {
-        try {
-          const response = await tenantAPI.getAll();
-          setTenants(response.data);
-        } catch (error) {
-          console.error('Failed to fetch tenants:', error);
-        }
-      };
-      fetchTenants();
-    }
-  }, [isSuperAdmin]);
+  // Tenants for the SuperAdmin filter
+  const { data: tenants = [] } = useQuery(
+    queryKeys.tenants.summaries(),
+    () => tenantAPI.getAll().then(res => res.data),
+    { enabled: isSuperAdmin }
+  );
 
-  useEffect(() => {
-    fetchDepartments();
-    fetchEmployees();
-  }, [tenantFilter]);
+  const { data: departments = [], isLoading: loading, error: departmentsError } = useQuery(
+    queryKeys.departments.list(tenantFilter),
+    () => departmentAPI.getAll(tenantFilter).then(res => res.data)
+  );
 
-  const fetchDepartments = async () => {
-    setLoading(true);
-    try {
-      const response = await departmentAPI.getAll(tenantFilter);
-      setDepartments(response.data);
-    } catch (error: any) {
+  // Shared with the Employees pages; only used for head counts and the head-of-department picker
+  const { data: employees = [] } = useQuery(
+    queryKeys.employees.list(),
+    () => employeeAPI.getAll().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (departmentsError) {
+      const error = departmentsError as any;
       notify.error('Failed to Load', error.response?.data?.message || 'Failed to load departments');
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [departmentsError]);
 
-  const fetchEmployees = async () => {
-    try {
-      const response = await employeeAPI.getAll();
-      setEmployees(response.data);
-    } catch (error: any) {
-      console.error('Failed to fetch employees:', error);
-    }
-  };
+  // Department changes also affect position and employee views (names, head assignments) and plan usage
+  const refreshDepartments = () =>
+    Promise.all([
+      invalidateQueries(queryKeys.departments.all),
+      invalidateQueries(queryKeys.positions.all),
+      invalidateQueries(queryKeys.subscriptions.features()),
+    ]);
 
   const handleCreate = () => {
     setEditingDepartment(null);
@@ -83,7 +78,7 @@ export default function Departments() {
     try {
       await departmentAPI.delete(id);
       notify.success('Department Deleted', 'Department has been deleted successfully');
-      fetchDepartments();
+      refreshDepartments();
     } catch (error: any) {
       notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete department');
     }
@@ -109,7 +104,7 @@ export default function Departments() {
       }
       setIsModalOpen(false);
       form.resetFields();
-      fetchDepartments();
+      refreshDepartments();
     } catch (error: any) {
       notify.error(
         editingDepartment ? 'Update Failed' : 'Create Failed',
@@ -132,7 +127,7 @@ export default function Departments() {
       setIsAssignHeadModalOpen(false);
       assignHeadForm.resetFields();
       setSelectedDepartmentForHead(null);
-      fetchDepartments();
+      refreshDepartments();
     } catch (error: any) {
       notify.error('Assignment Failed', error.response?.data?.message || 'Failed to assign head of department');
     }
@@ -142,7 +137,7 @@ export default function Departments() {
     try {
       await departmentAPI.removeHead(departmentId);
       notify.success('Head Removed', 'Head of department has been removed successfully');
-      fetchDepartments();
+      refreshDepartments();
     } catch (error: any) {
       notify.error('Remove Failed', error.response?.data?.message || 'Failed to remove head of department');
     }
@@ -197,14 +192,16 @@ export default function Departments() {
       fixed: 'right' as const,
       render: (_: any, record: Department) => (
         <Space>
-          <Button
-            type="link"
-            icon={<EditOutlined />}
-            onClick={() => handleEdit(record)}
-          >
-            Edit
-          </Button>
-          {employees.filter(e => e.department === record.name && e.isActive).length > 0 && (
+          {canEdit && (
+            <Button
+              type="link"
+              icon={<EditOutlined />}
+              onClick={() => handleEdit(record)}
+            >
+              Edit
+            </Button>
+          )}
+          {canEdit && employees.filter(e => e.department === record.name && e.isActive).length > 0 && (
             <Button
               type="link"
               icon={<UserOutlined />}
@@ -213,7 +210,7 @@ export default function Departments() {
               {record.headOfDepartmentId ? 'Change Head' : 'Assign Head'}
             </Button>
           )}
-          {record.headOfDepartmentId && (
+          {canEdit && record.headOfDepartmentId && (
             <Popconfirm
               title="Remove head of department?"
               onConfirm={() => handleRemoveHead(record.id)}
@@ -223,16 +220,18 @@ export default function Departments() {
               <Button type="link" danger size="small">Remove Head</Button>
             </Popconfirm>
           )}
-          <Popconfirm
-            title="Are you sure you want to delete this department?"
-            onConfirm={() => handleDelete(record.id)}
-            okText="Yes"
-            cancelText="No"
-          >
-            <Button type="link" danger icon={<DeleteOutlined />}>
-              Delete
-            </Button>
-          </Popconfirm>
+          {canDelete && (
+            <Popconfirm
+              title="Are you sure you want to delete this department?"
+              onConfirm={() => handleDelete(record.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button type="link" danger icon={<DeleteOutlined />}>
+                Delete
+              </Button>
+            </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -259,19 +258,26 @@ export default function Departments() {
             />
           )}
         </Space>
-        <Button
-          type="primary"
-          icon={<PlusOutlined />}
-          onClick={handleCreate}
-          style={{
-            background: 'var(--gradient-primary)',
-            border: 'none',
-            height: 'var(--button-height)',
-            borderRadius: 'var(--button-radius)',
-          }}
-        >
-          Create Department
-        </Button>
+        <Space>
+          <FeatureUsage feature="max_departments" label="departments" />
+          <Can path="/departments" action="create">
+            <FeatureGate feature="max_departments" mode="disable">
+              <Button
+                type="primary"
+                icon={<PlusOutlined />}
+                onClick={handleCreate}
+                style={{
+                  background: 'var(--gradient-primary)',
+                  border: 'none',
+                  height: 'var(--button-height)',
+                  borderRadius: 'var(--button-radius)',
+                }}
+              >
+                Create Department
+              </Button>
+            </FeatureGate>
+          </Can>
+        </Space>
       </Space>
       <Table
         columns={columns}
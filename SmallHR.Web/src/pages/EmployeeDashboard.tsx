@@ -1,56 +1,136 @@
-import { useEffect, useState } from 'react';
-import { Card, Row, Col, Statistic, Table, Tag, Button, Space, Progress } from 'antd';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, Row, Col, Statistic, Table, Tag, Button, Space, Progress, Empty, Form, Input, Modal, Descriptions, List } from 'antd';
 import {
   CalendarOutlined,
   CheckCircleOutlined,
   ClockCircleOutlined,
-  TrophyOutlined,
+  EditOutlined,
+  IdcardOutlined,
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
 import PageHeader from '../components/PageHeader';
-import api from '../services/api';
+import { useNotification } from '../contexts/NotificationContext';
+import { attendanceAPI, employeeAPI, leaveRequestAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useLeaveBalances } from '../hooks/useLeaveBalances';
+import { setQueryData } from '../services/queryClient';
+import { invalidateEmployeeQueries, queryKeys } from '../services/queryKeys';
+import { formatHours, parseTimeSpan } from '../utils/attendance';
+import { formatDate } from '../utils/preferences';
+import type { Employee, LeaveRequest, UpdateMyProfileRequest } from '../types/api';
 
-interface LeaveBalance {
-  type: string;
-  total: number;
-  used: number;
-  remaining: number;
-}
+// Fields an employee is expected to keep filled in on their own record
+const PROFILE_FIELDS: { key: keyof Employee; label: string }[] = [
+  { key: 'phoneNumber', label: 'Phone' },
+  { key: 'dateOfBirth', label: 'Date of birth' },
+  { key: 'address', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'zipCode', label: 'ZIP code' },
+  { key: 'country', label: 'Country' },
+  { key: 'emergencyContactName', label: 'Emergency contact' },
+  { key: 'emergencyContactPhone', label: 'Emergency phone' },
+  { key: 'emergencyContactRelationship', label: 'Emergency relationship' },
+];
 
-interface MyLeaveRequest {
-  id: string;
-  leaveType: string;
-  startDate: string;
-  endDate: string;
-  status: string;
-  reason: string;
-}
+const missingProfileFields = (employee: Employee) =>
+  PROFILE_FIELDS.filter(field => !String(employee[field.key] ?? '').trim()).map(field => field.label);
+
+// Weekdays from the first of the month up to and including today
+const workingDaysSoFar = (today: dayjs.Dayjs) => {
+  let count = 0;
+  for (let d = today.startOf('month'); !d.isAfter(today, 'day'); d = d.add(1, 'day')) {
+    if (d.day() !== 0 && d.day() !== 6) count++;
+  }
+  return count;
+};
 
 export default function EmployeeDashboard() {
-  const [myLeaves, setMyLeaves] = useState<MyLeaveRequest[]>([]);
-  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+  const notify = useNotification();
+  const [profileOpen, setProfileOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm<UpdateMyProfileRequest>();
+
+  const { data: me, isLoading: meLoading, error: meError } = useQuery(
+    queryKeys.employees.me(),
+    () => employeeAPI.getMe().then(res => res.data)
+  );
+  const { balances } = useLeaveBalances(me);
+
+  const today = dayjs().startOf('day');
+  const weekStart = today.subtract((today.day() + 6) % 7, 'day');
 
-  useEffect(() => {
-    fetchMyLeaves();
-  }, []);
+  const { data: myLeaves = [], isLoading: leavesLoading } = useQuery(
+    queryKeys.leaveRequests.employee(me?.id ?? 0),
+    () => leaveRequestAPI.getByEmployee(me!.id).then(res => res.data),
+    { enabled: !!me }
+  );
 
-  const fetchMyLeaves = async () => {
+  const { data: monthAttendance = [] } = useQuery(
+    queryKeys.attendance.month(me?.id ?? 0, today.year(), today.month() + 1),
+    () => attendanceAPI.getByMonth(me!.id, today.year(), today.month() + 1).then(res => res.data),
+    { enabled: !!me }
+  );
+
+  const { data: weekAttendance = [] } = useQuery(
+    queryKeys.attendance.range(me?.id ?? 0, weekStart.format('YYYY-MM-DD'), today.format('YYYY-MM-DD')),
+    () =>
+      attendanceAPI
+        .getByDateRange(me!.id, weekStart.format('YYYY-MM-DD'), today.format('YYYY-MM-DD'))
+        .then(res => res.data),
+    { enabled: !!me }
+  );
+
+  const handleClockIn = () => {
+    navigate('/attendance');
+  };
+
+  const openProfile = () => {
+    if (!me) return;
+    form.setFieldsValue({
+      phoneNumber: me.phoneNumber,
+      address: me.address,
+      city: me.city,
+      state: me.state,
+      zipCode: me.zipCode,
+      country: me.country,
+      emergencyContactName: me.emergencyContactName,
+      emergencyContactPhone: me.emergencyContactPhone,
+      emergencyContactRelationship: me.emergencyContactRelationship,
+    });
+    setProfileOpen(true);
+  };
+
+  const handleSaveProfile = async (values: UpdateMyProfileRequest) => {
+    setSaving(true);
     try {
-      // This would filter by current user in real implementation
-      const response = await api.get('/leaverequests');
-      setMyLeaves(response.data);
-    } catch (error) {
-      console.error('Failed to fetch leave requests:', error);
+      const response = await employeeAPI.updateMe(values);
+      setQueryData(queryKeys.employees.me(), response.data);
+      invalidateEmployeeQueries();
+      notify.success('Profile Updated', 'Your contact details have been saved');
+      setProfileOpen(false);
+    } catch (error: any) {
+      notify.error('Update Failed', error.response?.data?.message || 'Failed to update your profile');
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
-  const handleClockIn = () => {
-    console.log('Clock In');
-  };
+  if (!meLoading && (meError || !me)) {
+    return (
+      <div>
+        <PageHeader title="Employee Dashboard" subtitle="My Workspace" />
+        <Card bordered={false} style={{ borderRadius: 'var(--card-radius)', boxShadow: 'var(--card-shadow)' }}>
+          <Empty description="Your account is not linked to an employee record" />
+        </Card>
+      </div>
+    );
+  }
 
-  const myLeaveColumns: ColumnsType<MyLeaveRequest> = [
+  const myLeaveColumns: ColumnsType<LeaveRequest> = [
     {
       title: 'Leave Type',
       dataIndex: 'leaveType',
@@ -90,11 +170,22 @@ export default function EmployeeDashboard() {
     },
   ];
 
-  const leaveBalances: LeaveBalance[] = [
-    { type: 'Annual Leave', total: 20, used: 8, remaining: 12 },
-    { type: 'Sick Leave', total: 10, used: 2, remaining: 8 },
-    { type: 'Personal Leave', total: 5, used: 1, remaining: 4 },
-  ];
+  const leaveBalances = balances.map(b => ({
+    type: `${b.leaveType} Leave`,
+    total: b.entitlement,
+    used: b.used,
+    remaining: b.available,
+  }));
+  const leavesTaken = balances.reduce((sum, b) => sum + b.used, 0);
+  const leaveEntitlement = balances.reduce((sum, b) => sum + b.entitlement, 0);
+
+  const daysPresent = monthAttendance.filter(r => r.status !== 'Absent' && r.clockInTime).length;
+  const hoursThisWeek = weekAttendance.reduce((sum, r) => sum + parseTimeSpan(r.totalHours), 0);
+  const upcomingLeave = myLeaves
+    .filter(r => r.status === 'Approved' && !dayjs(r.endDate).isBefore(today, 'day'))
+    .sort((a, b) => dayjs(a.startDate).valueOf() - dayjs(b.startDate).valueOf());
+  const missingFields = me ? missingProfileFields(me) : [];
+  const profileCompleteness = Math.round(((PROFILE_FIELDS.length - missingFields.length) / PROFILE_FIELDS.length) * 100);
 
   return (
     <div>
@@ -118,8 +209,8 @@ export default function EmployeeDashboard() {
                   Days Present
                 </span>
               }
-              value={22}
-              suffix="/ 23"
+              value={daysPresent}
+              suffix={`/ ${workingDaysSoFar(today)}`}
               prefix={<CheckCircleOutlined style={{ color: 'var(--icon-color-green)', fontSize: 'var(--icon-size-lg)' }} />}
               valueStyle={{ color: 'var(--color-text-primary)', fontSize: 'var(--stat-value-size)', fontWeight: 'var(--stat-value-weight)', fontFamily: 'var(--button-font-family)', letterSpacing: 'var(--stat-value-spacing)' }}
             />
@@ -140,8 +231,8 @@ export default function EmployeeDashboard() {
                   Leaves Taken
                 </span>
               }
-              value={11}
-              suffix="/ 35"
+              value={leavesTaken}
+              suffix={`/ ${leaveEntitlement}`}
               prefix={<CalendarOutlined style={{ color: 'var(--icon-color-orange)', fontSize: 'var(--icon-size-lg)' }} />}
               valueStyle={{ color: 'var(--color-text-primary)', fontSize: 'var(--stat-value-size)', fontWeight: 'var(--stat-value-weight)', fontFamily: 'var(--button-font-family)', letterSpacing: 'var(--stat-value-spacing)' }}
             />
@@ -159,10 +250,10 @@ export default function EmployeeDashboard() {
             <Statistic
               title={
                 <span style={{ color: 'var(--color-text-secondary)', fontSize: 'var(--stat-title-size)', fontWeight: 'var(--stat-title-weight)', fontFamily: 'var(--button-font-family)' }}>
-                  Hours This Month
+                  Hours This Week
                 </span>
               }
-              value={176}
+              value={formatHours(hoursThisWeek)}
               prefix={<ClockCircleOutlined style={{ color: 'var(--icon-color-cyan)', fontSize: 'var(--icon-size-lg)' }} />}
               valueStyle={{ color: 'var(--color-text-primary)', fontSize: 'var(--stat-value-size)', fontWeight: 'var(--stat-value-weight)', fontFamily: 'var(--button-font-family)', letterSpacing: 'var(--stat-value-spacing)' }}
             />
@@ -180,12 +271,12 @@ export default function EmployeeDashboard() {
             <Statistic
               title={
                 <span style={{ color: 'var(--color-text-secondary)', fontSize: 'var(--stat-title-size)', fontWeight: 'var(--stat-title-weight)', fontFamily: 'var(--button-font-family)' }}>
-                  Performance Score
+                  Profile Complete
                 </span>
               }
-              value={92}
-              suffix="/ 100"
-              prefix={<TrophyOutlined style={{ color: 'var(--icon-color-purple)', fontSize: 'var(--icon-size-lg)' }} />}
+              value={profileCompleteness}
+              suffix="%"
+              prefix={<IdcardOutlined style={{ color: 'var(--icon-color-purple)', fontSize: 'var(--icon-size-lg)' }} />}
               valueStyle={{ color: 'var(--color-text-primary)', fontSize: 'var(--stat-value-size)', fontWeight: 'var(--stat-value-weight)', fontFamily: 'var(--button-font-family)', letterSpacing: 'var(--stat-value-spacing)' }}
             />
           </Card>
@@ -216,6 +307,11 @@ export default function EmployeeDashboard() {
         bodyStyle={{ padding: '24px 32px 32px' }}
       >
         <Row gutter={[24, 24]}>
+          {leaveBalances.length === 0 && (
+            <Col span={24}>
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No leave policies have been set up yet" />
+            </Col>
+          )}
           {leaveBalances.map((balance) => (
             <Col xs={24} md={8} key={balance.type}>
               <div style={{ padding: '16px 0' }}>
@@ -248,7 +344,7 @@ export default function EmployeeDashboard() {
                   </span>
                 </div>
                 <Progress
-                  percent={Math.round((balance.remaining / balance.total) * 100)}
+                  percent={balance.total > 0 ? Math.round((balance.remaining / balance.total) * 100) : 0}
                   strokeColor="#14B8A6"
                   trailColor="#E2E8F0"
                   showInfo={false}
@@ -269,6 +365,93 @@ export default function EmployeeDashboard() {
         </Row>
       </Card>
 
+      <Row gutter={[16, 16]} style={{ marginBottom: 24 }}>
+        {/* Upcoming Approved Leave */}
+        <Col xs={24} lg={12}>
+          <Card
+            title={
+              <span
+                style={{
+                  fontSize: 'var(--card-title-size)',
+                  fontWeight: 'var(--card-title-weight)',
+                  color: 'var(--color-text-primary)',
+                  fontFamily: 'var(--button-font-family)',
+                  letterSpacing: 'var(--card-title-spacing)',
+                }}
+              >
+                Upcoming Leave
+              </span>
+            }
+            bordered={false}
+            style={{ height: '100%', borderRadius: 'var(--card-radius)', boxShadow: 'var(--card-shadow)' }}
+            bodyStyle={{ padding: 'var(--card-padding)' }}
+          >
+            {upcomingLeave.length === 0 ? (
+              <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No approved leave coming up" />
+            ) : (
+              <List
+                dataSource={upcomingLeave.slice(0, 5)}
+                renderItem={request => (
+                  <List.Item>
+                    <List.Item.Meta
+                      avatar={<CalendarOutlined style={{ color: 'var(--icon-color-orange)', fontSize: 'var(--icon-size-lg)' }} />}
+                      title={`${request.leaveType} Leave`}
+                      description={`${formatDate(request.startDate)} – ${formatDate(request.endDate)}`}
+                    />
+                    <Tag color="green">{request.totalDays} {request.totalDays === 1 ? 'day' : 'days'}</Tag>
+                  </List.Item>
+                )}
+              />
+            )}
+          </Card>
+        </Col>
+
+        {/* My Profile */}
+        <Col xs={24} lg={12}>
+          <Card
+            title={
+              <span
+                style={{
+                  fontSize: 'var(--card-title-size)',
+                  fontWeight: 'var(--card-title-weight)',
+                  color: 'var(--color-text-primary)',
+                  fontFamily: 'var(--button-font-family)',
+                  letterSpacing: 'var(--card-title-spacing)',
+                }}
+              >
+                My Profile
+              </span>
+            }
+            extra={
+              <Button type="link" icon={<EditOutlined />} onClick={openProfile} disabled={!me}>
+                Edit
+              </Button>
+            }
+            bordered={false}
+            style={{ height: '100%', borderRadius: 'var(--card-radius)', boxShadow: 'var(--card-shadow)' }}
+            bodyStyle={{ padding: 'var(--card-padding)' }}
+          >
+            <Progress percent={profileCompleteness} strokeColor="#14B8A6" trailColor="#E2E8F0" />
+            {missingFields.length > 0 && (
+              <div style={{ marginBottom: 12, fontSize: 'var(--font-size-sm)', color: 'var(--color-text-secondary)' }}>
+                Missing: {missingFields.join(', ')}
+              </div>
+            )}
+            <Descriptions column={1} size="small">
+              <Descriptions.Item label="Phone">{me?.phoneNumber || '—'}</Descriptions.Item>
+              <Descriptions.Item label="Address">
+                {[me?.address, me?.city, me?.state, me?.zipCode, me?.country].filter(Boolean).join(', ') || '—'}
+              </Descriptions.Item>
+              <Descriptions.Item label="Emergency Contact">
+                {me?.emergencyContactName
+                  ? `${me.emergencyContactName}${me.emergencyContactRelationship ? ` (${me.emergencyContactRelationship})` : ''}${me.emergencyContactPhone ? ` · ${me.emergencyContactPhone}` : ''}`
+                  : '—'}
+              </Descriptions.Item>
+            </Descriptions>
+          </Card>
+        </Col>
+      </Row>
+
       {/* My Leave Requests */}
       <Card
         title={
@@ -295,6 +478,7 @@ export default function EmployeeDashboard() {
             <Button
               type="primary"
               icon={<CalendarOutlined />}
+              onClick={() => navigate('/leave')}
               style={{
                 borderRadius: 'var(--button-radius)',
                 height: 'var(--button-height)',
@@ -332,7 +516,7 @@ export default function EmployeeDashboard() {
           columns={myLeaveColumns}
           dataSource={myLeaves}
           rowKey="id"
-          loading={loading}
+          loading={meLoading || leavesLoading}
           pagination={{
             pageSize: 10,
             showSizeChanger: false,
@@ -354,6 +538,63 @@ export default function EmployeeDashboard() {
           style={{ marginTop: 16 }}
         />
       </Card>
+
+      <Modal
+        title="My Profile"
+        open={profileOpen}
+        onCancel={() => setProfileOpen(false)}
+        onOk={() => form.submit()}
+        okText="Save"
+        confirmLoading={saving}
+      >
+        <Form form={form} layout="vertical" onFinish={handleSaveProfile}>
+          <Form.Item name="phoneNumber" label="Phone">
+            <Input />
+          </Form.Item>
+          <Form.Item name="address" label="Address">
+            <Input />
+          </Form.Item>
+          <Row gutter={12}>
+            <Col span={12}>
+              <Form.Item name="city" label="City">
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="state" label="State">
+                <Input />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Row gutter={12}>
+            <Col span={12}>
+              <Form.Item name="zipCode" label="ZIP Code">
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="country" label="Country">
+                <Input />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item name="emergencyContactName" label="Emergency Contact Name">
+            <Input />
+          </Form.Item>
+          <Row gutter={12}>
+            <Col span={12}>
+              <Form.Item name="emergencyContactPhone" label="Emergency Contact Phone">
+                <Input />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="emergencyContactRelationship" label="Relationship">
+                <Input />
+              </Form.Item>
+            </Col>
+          </Row>
+        </Form>
+      </Modal>
     </div>
   );
 }
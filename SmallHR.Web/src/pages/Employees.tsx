@@ -1,11 +1,16 @@
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
 import { Button, Space } from 'antd';
 import { PlusOutlined } from '@ant-design/icons';
 import EmployeeList from '../components/Employee/EmployeeList';
 import EmployeeForm from '../components/Employee/EmployeeForm';
 import EmployeeDetail from '../components/Employee/EmployeeDetail';
+import Can from '../components/Can';
+import FeatureGate from '../components/FeatureGate';
+import FeatureUsage from '../components/FeatureUsage';
 import { useNotification } from '../contexts/NotificationContext';
 import { employeeAPI, departmentAPI, positionAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { invalidateEmployeeQueries, queryKeys } from '../services/queryKeys';
 import type { Employee } from '../types/api';
 
 export type EmployeeViewMode = 'list' | 'create' | 'edit' | 'detail';
@@ -14,39 +19,33 @@ export default function Employees() {
   const notify = useNotification();
   const [viewMode, setViewMode] = useState<EmployeeViewMode>('list');
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
-  const [departments, setDepartments] = useState<string[]>([]);
-  const [positions, setPositions] = useState<string[]>([]);
 
-  // Fetch unique departments and positions for filters
-  useEffect(() => {
-    fetchMetadata();
-  }, []);
+  const { data: departmentNames, error: departmentNamesError } = useQuery(
+    queryKeys.departments.names(),
+    () => departmentAPI.getNames().then(res => res.data)
+  );
+  const { data: positionTitles, error: positionTitlesError } = useQuery(
+    queryKeys.positions.titles(),
+    () => positionAPI.getTitles().then(res => res.data)
+  );
 
-  const fetchMetadata = async () => {
-    try {
-      // Fetch departments and positions from APIs
-      const [departmentsResponse, positionsResponse] = await Promise.all([
-        departmentAPI.getNames(),
-        positionAPI.getTitles(),
-      ]);
-      
-      setDepartments(departmentsResponse.data.sort());
-      setPositions(positionsResponse.data.sort());
-    } catch (error: any) {
-      console.error('Failed to fetch metadata:', error);
-      // Fallback: extract from employees if API fails
-      try {
-        const response = await employeeAPI.getAll();
-        const employees = response.data;
-        const uniqueDepartments = Array.from(new Set(employees.map(e => e.department).filter(Boolean)));
-        const uniquePositions = Array.from(new Set(employees.map(e => e.position).filter(Boolean)));
-        setDepartments(uniqueDepartments.sort());
-        setPositions(uniquePositions.sort());
-      } catch (fallbackError) {
-        console.error('Fallback metadata fetch also failed:', fallbackError);
-      }
-    }
-  };
+  // Fallback: extract from employees if the lookup APIs fail
+  const metadataFailed = Boolean(departmentNamesError || positionTitlesError);
+  const { data: fallbackEmployees } = useQuery(
+    queryKeys.employees.list(),
+    () => employeeAPI.getAll().then(res => res.data),
+    { enabled: metadataFailed }
+  );
+
+  const departments = useMemo(() => {
+    if (!metadataFailed) return [...(departmentNames ?? [])].sort();
+    return Array.from(new Set((fallbackEmployees ?? []).map(e => e.department).filter(Boolean))).sort();
+  }, [metadataFailed, departmentNames, fallbackEmployees]);
+
+  const positions = useMemo(() => {
+    if (!metadataFailed) return [...(positionTitles ?? [])].sort();
+    return Array.from(new Set((fallbackEmployees ?? []).map(e => e.position).filter(Boolean))).sort();
+  }, [metadataFailed, positionTitles, fallbackEmployees]);
 
   const handleCreate = () => {
     setSelectedEmployee(null);
@@ -70,19 +69,20 @@ export default function Employees() {
 
   const handleCreateSuccess = async (employee: Employee) => {
     notify.success('Employee Created', `${employee.firstName} ${employee.lastName} has been created successfully.`);
-    await fetchMetadata(); // Refresh metadata for new departments/positions
+    await invalidateEmployeeQueries(); // Refresh lists and metadata for new departments/positions
     setViewMode('list');
   };
 
   const handleUpdateSuccess = async (employee: Employee) => {
     notify.success('Employee Updated', `${employee.firstName} ${employee.lastName} has been updated successfully.`);
-    await fetchMetadata(); // Refresh metadata for new departments/positions
+    await invalidateEmployeeQueries(); // Refresh lists and metadata for new departments/positions
     setViewMode('list');
   };
 
   const handleDelete = async (id: number) => {
     try {
       await employeeAPI.delete(id);
+      await invalidateEmployeeQueries();
       notify.success('Employee Deleted', 'Employee has been deleted successfully.');
       if (selectedEmployee?.id === id) {
         setViewMode('list');
@@ -98,22 +98,27 @@ export default function Employees() {
       {viewMode === 'list' && (
         <>
           <Space style={{ marginBottom: 16, width: '100%', justifyContent: 'space-between' }}>
-            <Button
-              type="primary"
-              icon={<PlusOutlined />}
-              onClick={handleCreate}
-              style={{
-                background: 'var(--gradient-primary)',
-                border: 'none',
-                height: 'var(--button-height)',
-                borderRadius: 'var(--button-radius)',
-                fontFamily: 'var(--button-font-family)',
-                fontWeight: 'var(--button-font-weight)',
-                boxShadow: 'var(--button-shadow-primary)',
-              }}
-            >
-              Create New Employee
-            </Button>
+            <Can path="/employees" action="create">
+              <FeatureGate feature="max_employees" mode="disable">
+                <Button
+                  type="primary"
+                  icon={<PlusOutlined />}
+                  onClick={handleCreate}
+                  style={{
+                    background: 'var(--gradient-primary)',
+                    border: 'none',
+                    height: 'var(--button-height)',
+                    borderRadius: 'var(--button-radius)',
+                    fontFamily: 'var(--button-font-family)',
+                    fontWeight: 'var(--button-font-weight)',
+                    boxShadow: 'var(--button-shadow-primary)',
+                  }}
+                >
+                  Create New Employee
+                </Button>
+              </FeatureGate>
+            </Can>
+            <FeatureUsage feature="max_employees" label="employees" />
           </Space>
           <EmployeeList
             departments={departments}
@@ -121,7 +126,7 @@ export default function Employees() {
             onEdit={handleEdit}
             onView={handleView}
             onDelete={handleDelete}
-            onRefresh={fetchMetadata}
+            onRefresh={invalidateEmployeeQueries}
           />
         </>
       )}
@@ -0,0 +1,993 @@
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Descriptions,
+  Divider,
+  Drawer,
+  Empty,
+  Form,
+  Input,
+  InputNumber,
+  List,
+  Modal,
+  Popconfirm,
+  Row,
+  Select,
+  Space,
+  Table,
+  Tabs,
+  Tag,
+  Typography,
+  Upload,
+} from 'antd';
+import type { UploadFile } from 'antd';
+import {
+  CheckOutlined,
+  CloseOutlined,
+  DeleteOutlined,
+  DownloadOutlined,
+  EditOutlined,
+  EyeOutlined,
+  MinusCircleOutlined,
+  PaperClipOutlined,
+  PlusOutlined,
+  UploadOutlined,
+} from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import PageHeader from '../components/PageHeader';
+import { useNotification } from '../contexts/NotificationContext';
+import { employeeAPI, expenseAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useCan } from '../hooks/useRolePermissions';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import {
+  EXPENSE_CATEGORIES,
+  MAX_RECEIPT_BYTES,
+  RECEIPT_ACCEPT,
+  expenseStatusColor,
+  formatFileSize,
+} from '../utils/expenses';
+import { saveBlob } from '../utils/files';
+import { CURRENCIES, formatMoney, periodLabel } from '../utils/payroll';
+import { formatDate } from '../utils/preferences';
+import type { ExpenseClaim, ExpenseItem, ExpenseReceipt, ReimbursementBatch } from '../types/api';
+
+const { Text } = Typography;
+
+const EXPENSES_PATH = '/expenses';
+const STATUS_FILTERS = ['Pending', 'Approved', 'Rejected', 'Reimbursed'];
+
+const refreshExpenses = () => invalidateQueries(queryKeys.expenses.all);
+
+const receiptError = (file: File) => {
+  if (!RECEIPT_ACCEPT.split(',').includes(file.type)) return `${file.name} is not an image or PDF`;
+  if (file.size > MAX_RECEIPT_BYTES) return `${file.name} is larger than ${formatFileSize(MAX_RECEIPT_BYTES)}`;
+  return null;
+};
+
+const claimColumns: ColumnsType<ExpenseClaim> = [
+  {
+    title: 'Claim',
+    dataIndex: 'title',
+    key: 'title',
+    render: (title: string, record) => (
+      <Space direction="vertical" size={0}>
+        <Text strong>{title}</Text>
+        <Text type="secondary" style={{ fontSize: 12 }}>
+          {record.items.length} item(s)
+          {record.receipts.length > 0 && <> · <PaperClipOutlined /> {record.receipts.length}</>}
+        </Text>
+      </Space>
+    ),
+  },
+  {
+    title: 'Submitted',
+    dataIndex: 'submittedAt',
+    key: 'submittedAt',
+    width: 130,
+    sorter: (a, b) => dayjs(a.submittedAt).valueOf() - dayjs(b.submittedAt).valueOf(),
+    render: formatDate,
+  },
+  {
+    title: 'Amount',
+    dataIndex: 'totalAmount',
+    key: 'totalAmount',
+    width: 140,
+    align: 'right',
+    sorter: (a, b) => a.totalAmount - b.totalAmount,
+    render: (value: number, record) => formatMoney(value, record.currency),
+  },
+  {
+    title: 'Status',
+    dataIndex: 'status',
+    key: 'status',
+    width: 130,
+    render: (status: string, record) => (
+      <Space direction="vertical" size={0}>
+        <Tag color={expenseStatusColor(status)} title={record.reviewComments}>
+          {status}
+        </Tag>
+        {record.batchReference && (
+          <Text type="secondary" style={{ fontSize: 12 }}>{record.batchReference}</Text>
+        )}
+      </Space>
+    ),
+  },
+];
+
+const employeeColumns: ColumnsType<ExpenseClaim> = [
+  {
+    title: 'Employee',
+    dataIndex: 'employeeName',
+    key: 'employeeName',
+    width: 180,
+    sorter: (a, b) => a.employeeName.localeCompare(b.employeeName),
+  },
+  {
+    title: 'Department',
+    dataIndex: 'department',
+    key: 'department',
+    width: 140,
+  },
+];
+
+interface ClaimDrawerProps {
+  claim?: ExpenseClaim;
+  onClose: () => void;
+  // Claimants manage receipts on their own pending claims
+  canManageReceipts?: boolean;
+}
+
+function ClaimDrawer({ claim, onClose, canManageReceipts = false }: ClaimDrawerProps) {
+  const notify = useNotification();
+  const [uploading, setUploading] = useState(false);
+  const editable = canManageReceipts && claim?.status === 'Pending';
+
+  const handleDownload = async (receipt: ExpenseReceipt) => {
+    if (!claim) return;
+    try {
+      const res = await expenseAPI.downloadReceipt(claim.id, receipt.id);
+      saveBlob(res.data, receipt.fileName);
+    } catch (error: any) {
+      notify.error('Download Failed', error.response?.data?.message || 'Failed to download receipt');
+    }
+  };
+
+  const handleUpload = async (file: File) => {
+    if (!claim) return;
+    const invalid = receiptError(file);
+    if (invalid) {
+      notify.error('Invalid Receipt', invalid);
+      return;
+    }
+    setUploading(true);
+    try {
+      await expenseAPI.uploadReceipt(claim.id, file);
+      notify.success('Receipt Added', `${file.name} has been attached`);
+      refreshExpenses();
+    } catch (error: any) {
+      notify.error('Upload Failed', error.response?.data?.message || 'Failed to upload receipt');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemove = async (receipt: ExpenseReceipt) => {
+    if (!claim) return;
+    try {
+      await expenseAPI.deleteReceipt(claim.id, receipt.id);
+      notify.success('Receipt Removed', `${receipt.fileName} has been removed`);
+      refreshExpenses();
+    } catch (error: any) {
+      notify.error('Remove Failed', error.response?.data?.message || 'Failed to remove receipt');
+    }
+  };
+
+  const itemColumns: ColumnsType<ExpenseItem> = [
+    { title: 'Date', dataIndex: 'expenseDate', key: 'expenseDate', width: 120, render: formatDate },
+    { title: 'Category', dataIndex: 'category', key: 'category', width: 130, render: (category: string) => <Tag>{category}</Tag> },
+    { title: 'Description', dataIndex: 'description', key: 'description' },
+    {
+      title: 'Amount',
+      dataIndex: 'amount',
+      key: 'amount',
+      width: 120,
+      align: 'right',
+      render: (value: number) => (claim ? formatMoney(value, claim.currency) : value),
+    },
+  ];
+
+  return (
+    <Drawer title={claim?.title} open={!!claim} onClose={onClose} width={640}>
+      {claim && (
+        <>
+          <Descriptions column={2} size="small">
+            <Descriptions.Item label="Employee">{claim.employeeName}</Descriptions.Item>
+            <Descriptions.Item label="Status">
+              <Tag color={expenseStatusColor(claim.status)}>{claim.status}</Tag>
+            </Descriptions.Item>
+            <Descriptions.Item label="Submitted">{formatDate(claim.submittedAt)}</Descriptions.Item>
+            <Descriptions.Item label="Total">
+              <Text strong>{formatMoney(claim.totalAmount, claim.currency)}</Text>
+            </Descriptions.Item>
+            {claim.reviewedBy && (
+              <Descriptions.Item label="Reviewed">
+                {claim.reviewedBy}{claim.reviewedAt && ` · ${formatDate(claim.reviewedAt)}`}
+              </Descriptions.Item>
+            )}
+            {claim.batchReference && (
+              <Descriptions.Item label="Reimbursement">
+                {claim.batchReference}{claim.reimbursedAt && ` · paid ${formatDate(claim.reimbursedAt)}`}
+              </Descriptions.Item>
+            )}
+          </Descriptions>
+          {claim.reviewComments && (
+            <Alert
+              type={claim.status === 'Rejected' ? 'error' : 'info'}
+              message="Reviewer comments"
+              description={claim.reviewComments}
+              showIcon
+              style={{ marginTop: 12 }}
+            />
+          )}
+
+          <Divider orientation="left">Line Items</Divider>
+          <Table
+            columns={itemColumns}
+            dataSource={claim.items}
+            rowKey="id"
+            size="small"
+            pagination={false}
+          />
+
+          <Divider orientation="left">Receipts</Divider>
+          <List
+            dataSource={claim.receipts}
+            locale={{ emptyText: <Empty description="No receipts attached" image={Empty.PRESENTED_IMAGE_SIMPLE} /> }}
+            renderItem={(receipt) => (
+              <List.Item
+                actions={[
+                  <Button key="download" type="link" icon={<DownloadOutlined />} onClick={() => handleDownload(receipt)}>
+                    Download
+                  </Button>,
+                  ...(editable
+                    ? [
+                        <Popconfirm key="remove" title="Remove this receipt?" onConfirm={() => handleRemove(receipt)} okText="Remove" cancelText="Cancel">
+                          <Button type="link" danger icon={<DeleteOutlined />} />
+                        </Popconfirm>,
+                      ]
+                    : []),
+                ]}
+              >
+                <List.Item.Meta
+                  avatar={<PaperClipOutlined />}
+                  title={receipt.fileName}
+                  description={`${formatFileSize(receipt.fileSize)} · ${formatDate(receipt.createdAt)}`}
+                />
+              </List.Item>
+            )}
+          />
+          {editable && (
+            <Upload
+              accept={RECEIPT_ACCEPT}
+              showUploadList={false}
+              beforeUpload={(file) => {
+                handleUpload(file);
+                return false;
+              }}
+            >
+              <Button icon={<UploadOutlined />} loading={uploading} style={{ marginTop: 8 }}>
+                Add Receipt
+              </Button>
+            </Upload>
+          )}
+        </>
+      )}
+    </Drawer>
+  );
+}
+
+function MyClaims() {
+  const notify = useNotification();
+  const { canCreate } = useCan(EXPENSES_PATH);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingClaim, setEditingClaim] = useState<ExpenseClaim | null>(null);
+  const [viewingId, setViewingId] = useState<number | null>(null);
+  const [receiptFiles, setReceiptFiles] = useState<UploadFile[]>([]);
+  const [form] = Form.useForm();
+  const items: Array<{ amount?: number } | undefined> | undefined = Form.useWatch('items', form);
+  const currency: string = Form.useWatch('currency', form) ?? 'USD';
+  const formTotal = (items ?? []).reduce((sum, item) => sum + (item?.amount ?? 0), 0);
+
+  const { data: me, isLoading: meLoading, error: meError } = useQuery(
+    queryKeys.employees.me(),
+    () => employeeAPI.getMe().then(res => res.data)
+  );
+
+  const { data: claims = [], isLoading, error: claimsError } = useQuery(
+    queryKeys.expenses.mine(),
+    () => expenseAPI.getMine().then(res => res.data),
+    { enabled: !!me }
+  );
+
+  useEffect(() => {
+    if (claimsError) {
+      const error = claimsError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load expense claims');
+    }
+  }, [claimsError]);
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setReceiptFiles([]);
+    form.resetFields();
+  };
+
+  const handleCreate = () => {
+    setEditingClaim(null);
+    setReceiptFiles([]);
+    form.resetFields();
+    // Most people claim in the same currency every time
+    form.setFieldsValue({
+      currency: claims[0]?.currency ?? 'USD',
+      items: [{ expenseDate: dayjs(), category: EXPENSE_CATEGORIES[0] }],
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (claim: ExpenseClaim) => {
+    setEditingClaim(claim);
+    setReceiptFiles([]);
+    form.setFieldsValue({
+      title: claim.title,
+      currency: claim.currency,
+      items: claim.items.map(item => ({
+        expenseDate: dayjs(item.expenseDate),
+        category: item.category,
+        description: item.description,
+        amount: item.amount,
+      })),
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleWithdraw = async (claim: ExpenseClaim) => {
+    try {
+      await expenseAPI.delete(claim.id);
+      notify.success('Claim Withdrawn', `"${claim.title}" has been withdrawn`);
+      refreshExpenses();
+    } catch (error: any) {
+      notify.error('Withdraw Failed', error.response?.data?.message || 'Failed to withdraw expense claim');
+    }
+  };
+
+  const handleSubmit = async (values: any) => {
+    const payload = {
+      title: values.title,
+      currency: values.currency,
+      items: values.items.map((item: any) => ({
+        expenseDate: (item.expenseDate as Dayjs).format('YYYY-MM-DD'),
+        category: item.category,
+        description: item.description,
+        amount: item.amount,
+      })),
+    };
+
+    let claimId: number;
+    try {
+      const res = editingClaim
+        ? await expenseAPI.update(editingClaim.id, payload)
+        : await expenseAPI.create(payload);
+      claimId = res.data.id;
+    } catch (error: any) {
+      notify.error(
+        editingClaim ? 'Update Failed' : 'Submit Failed',
+        error.response?.data?.message || `Failed to ${editingClaim ? 'update' : 'submit'} expense claim`
+      );
+      return;
+    }
+
+    // The claim is saved at this point; a failed upload can be retried from the claim details
+    const failed: string[] = [];
+    for (const file of receiptFiles) {
+      try {
+        await expenseAPI.uploadReceipt(claimId, file.originFileObj as File);
+      } catch {
+        failed.push(file.name);
+      }
+    }
+
+    if (failed.length > 0) {
+      notify.error('Receipts Not Attached', `Could not upload ${failed.join(', ')}. Open the claim to try again.`);
+    } else {
+      notify.success(
+        editingClaim ? 'Claim Updated' : 'Claim Submitted',
+        `${formatMoney(formTotal, values.currency)} claimed for "${values.title}"`
+      );
+    }
+    closeModal();
+    refreshExpenses();
+  };
+
+  if (meLoading) {
+    return <Card loading />;
+  }
+
+  if (meError || !me) {
+    return (
+      <Card>
+        <Empty description="Your account is not linked to an employee record" />
+      </Card>
+    );
+  }
+
+  const columns: ColumnsType<ExpenseClaim> = [
+    ...claimColumns,
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 230,
+      render: (_: any, record: ExpenseClaim) => (
+        <Space>
+          <Button type="link" icon={<EyeOutlined />} onClick={() => setViewingId(record.id)}>
+            View
+          </Button>
+          {record.status === 'Pending' && (
+            <>
+              <Button type="link" icon={<EditOutlined />} onClick={() => handleEdit(record)}>
+                Edit
+              </Button>
+              <Popconfirm
+                title="Withdraw this expense claim?"
+                onConfirm={() => handleWithdraw(record)}
+                okText="Yes"
+                cancelText="No"
+              >
+                <Button type="link" danger icon={<DeleteOutlined />}>
+                  Withdraw
+                </Button>
+              </Popconfirm>
+            </>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      {canCreate && (
+        <Space style={{ marginBottom: 16, width: '100%', justifyContent: 'flex-end' }}>
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            style={{
+              background: 'var(--gradient-primary)',
+              border: 'none',
+              height: 'var(--button-height)',
+              borderRadius: 'var(--button-radius)',
+            }}
+          >
+            New Claim
+          </Button>
+        </Space>
+      )}
+      <Table
+        columns={columns}
+        dataSource={claims}
+        loading={isLoading}
+        rowKey="id"
+        pagination={{ pageSize: 10 }}
+        locale={{ emptyText: 'No expense claims yet' }}
+      />
+
+      <ClaimDrawer
+        claim={claims.find(c => c.id === viewingId)}
+        onClose={() => setViewingId(null)}
+        canManageReceipts
+      />
+
+      <Modal
+        title={editingClaim ? 'Edit Expense Claim' : 'New Expense Claim'}
+        open={isModalOpen}
+        onOk={() => form.submit()}
+        onCancel={closeModal}
+        okText={editingClaim ? 'Update' : 'Submit'}
+        cancelText="Cancel"
+        width={820}
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Row gutter={16}>
+            <Col span={18}>
+              <Form.Item
+                name="title"
+                label="Title"
+                rules={[
+                  { required: true, message: 'Please enter a title' },
+                  { max: 200, message: 'Title must be 200 characters or fewer' },
+                ]}
+              >
+                <Input placeholder="e.g. Client visit to Chicago" />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="currency" label="Currency" rules={[{ required: true, message: 'Please select a currency' }]}>
+                <Select showSearch options={CURRENCIES.map(code => ({ value: code, label: code }))} />
+              </Form.Item>
+            </Col>
+          </Row>
+
+          <Form.List
+            name="items"
+            rules={[
+              {
+                validator: async (_, value?: unknown[]) => {
+                  if (!value || value.length === 0) throw new Error('Add at least one line item');
+                },
+              },
+            ]}
+          >
+            {(fields, { add, remove }, { errors }) => (
+              <>
+                {fields.map(({ key, name, ...restField }) => (
+                  <Row key={key} gutter={8} align="top">
+                    <Col span={5}>
+                      <Form.Item {...restField} name={[name, 'expenseDate']} rules={[{ required: true, message: 'Date required' }]}>
+                        <DatePicker style={{ width: '100%' }} disabledDate={(current) => current.isAfter(dayjs(), 'day')} />
+                      </Form.Item>
+                    </Col>
+                    <Col span={5}>
+                      <Form.Item {...restField} name={[name, 'category']} rules={[{ required: true, message: 'Category required' }]}>
+                        <Select options={EXPENSE_CATEGORIES.map(category => ({ value: category, label: category }))} />
+                      </Form.Item>
+                    </Col>
+                    <Col span={8}>
+                      <Form.Item
+                        {...restField}
+                        name={[name, 'description']}
+                        rules={[
+                          { required: true, message: 'Description required' },
+                          { max: 500, message: 'Keep it under 500 characters' },
+                        ]}
+                      >
+                        <Input placeholder="What was it for?" />
+                      </Form.Item>
+                    </Col>
+                    <Col span={5}>
+                      <Form.Item {...restField} name={[name, 'amount']} rules={[{ required: true, message: 'Amount required' }]}>
+                        <InputNumber min={0.01} precision={2} style={{ width: '100%' }} placeholder="0.00" />
+                      </Form.Item>
+                    </Col>
+                    <Col span={1}>
+                      {fields.length > 1 && (
+                        <Button type="text" icon={<MinusCircleOutlined />} onClick={() => remove(name)} style={{ marginTop: 4 }} />
+                      )}
+                    </Col>
+                  </Row>
+                ))}
+                <Form.ErrorList errors={errors} />
+                <Space style={{ width: '100%', justifyContent: 'space-between', marginBottom: 16 }}>
+                  <Button
+                    type="dashed"
+                    icon={<PlusOutlined />}
+                    onClick={() => add({ expenseDate: dayjs(), category: EXPENSE_CATEGORIES[0] })}
+                  >
+                    Add Line Item
+                  </Button>
+                  <Text strong>Total: {formatMoney(formTotal, currency)}</Text>
+                </Space>
+              </>
+            )}
+          </Form.List>
+
+          <Form.Item
+            label="Receipts"
+            extra={`Images or PDFs up to ${formatFileSize(MAX_RECEIPT_BYTES)} each${editingClaim ? '; existing receipts are managed from the claim details' : ''}`}
+          >
+            <Upload
+              accept={RECEIPT_ACCEPT}
+              multiple
+              fileList={receiptFiles}
+              beforeUpload={(file) => {
+                const invalid = receiptError(file);
+                if (invalid) {
+                  notify.error('Invalid Receipt', invalid);
+                  return Upload.LIST_IGNORE;
+                }
+                // Held back and uploaded once the claim is saved
+                return false;
+              }}
+              onChange={({ fileList }) => setReceiptFiles(fileList)}
+            >
+              <Button icon={<UploadOutlined />}>Attach Receipts</Button>
+            </Upload>
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
+
+interface ClaimReviewProps {
+  // 'team' lists the signed-in manager's direct reports; 'all' lists every claim in the tenant
+  scope: 'team' | 'all';
+}
+
+function ClaimReview({ scope }: ClaimReviewProps) {
+  const notify = useNotification();
+  const permissions = useCan(EXPENSES_PATH);
+  const canDelete = scope === 'all' && permissions.canDelete;
+  const [status, setStatus] = useState<string | undefined>('Pending');
+  const [viewingId, setViewingId] = useState<number | null>(null);
+  const [reviewing, setReviewing] = useState<ExpenseClaim | null>(null);
+  const [form] = Form.useForm();
+
+  const { data: me } = useQuery(
+    queryKeys.employees.me(),
+    () => employeeAPI.getMe().then(res => res.data)
+  );
+
+  const { data: claims = [], isLoading, error: claimsError } = useQuery(
+    scope === 'team' ? queryKeys.expenses.team() : queryKeys.expenses.list(status),
+    () => (scope === 'team' ? expenseAPI.getTeam() : expenseAPI.getAll(status)).then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (claimsError) {
+      const error = claimsError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load expense claims');
+    }
+  }, [claimsError]);
+
+  const decide = async (decision: 'Approved' | 'Rejected') => {
+    if (!reviewing) return;
+    try {
+      const { comments } = await form.validateFields();
+      if (decision === 'Rejected' && !comments?.trim()) {
+        form.setFields([{ name: 'comments', errors: ['Please explain why the claim is rejected'] }]);
+        return;
+      }
+      await expenseAPI.review(reviewing.id, { status: decision, comments: comments?.trim() || undefined });
+      notify.success(
+        decision === 'Approved' ? 'Claim Approved' : 'Claim Rejected',
+        `${reviewing.employeeName}'s claim "${reviewing.title}" has been ${decision.toLowerCase()}`
+      );
+      setReviewing(null);
+      form.resetFields();
+      refreshExpenses();
+    } catch (error: any) {
+      if (error?.errorFields) return;
+      notify.error('Review Failed', error.response?.data?.message || 'Failed to review expense claim');
+    }
+  };
+
+  const handleDelete = async (claim: ExpenseClaim) => {
+    try {
+      await expenseAPI.delete(claim.id);
+      notify.success('Claim Deleted', `"${claim.title}" has been deleted`);
+      refreshExpenses();
+    } catch (error: any) {
+      notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete expense claim');
+    }
+  };
+
+  const columns: ColumnsType<ExpenseClaim> = [
+    ...employeeColumns,
+    ...claimColumns,
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 260,
+      render: (_: any, record: ExpenseClaim) => (
+        <Space>
+          <Button type="link" icon={<EyeOutlined />} onClick={() => setViewingId(record.id)}>
+            View
+          </Button>
+          {record.status === 'Pending' && record.employeeId !== me?.id && (
+            <Button
+              type="link"
+              icon={<CheckOutlined />}
+              onClick={() => {
+                form.resetFields();
+                setReviewing(record);
+              }}
+            >
+              Review
+            </Button>
+          )}
+          {canDelete && !record.reimbursementBatchId && (
+            <Popconfirm
+              title="Delete this expense claim?"
+              onConfirm={() => handleDelete(record)}
+              okText="Delete"
+              cancelText="Cancel"
+            >
+              <Button type="link" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  const visibleClaims = scope === 'team' && status ? claims.filter(c => c.status === status) : claims;
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16 }}>
+        <Select
+          allowClear
+          placeholder="All statuses"
+          value={status}
+          onChange={setStatus}
+          style={{ width: 180 }}
+          options={STATUS_FILTERS.map(s => ({ value: s, label: s }))}
+        />
+      </Space>
+      <Table
+        columns={columns}
+        dataSource={visibleClaims}
+        loading={isLoading}
+        rowKey="id"
+        pagination={{ pageSize: 10 }}
+        locale={{ emptyText: status ? `No ${status.toLowerCase()} expense claims` : 'No expense claims' }}
+      />
+
+      <ClaimDrawer claim={claims.find(c => c.id === viewingId)} onClose={() => setViewingId(null)} />
+
+      <Modal
+        title={reviewing ? `Review · ${reviewing.title}` : ''}
+        open={!!reviewing}
+        onCancel={() => {
+          setReviewing(null);
+          form.resetFields();
+        }}
+        footer={[
+          <Button key="reject" danger icon={<CloseOutlined />} onClick={() => decide('Rejected')}>
+            Reject
+          </Button>,
+          <Button key="approve" type="primary" icon={<CheckOutlined />} onClick={() => decide('Approved')}>
+            Approve
+          </Button>,
+        ]}
+      >
+        {reviewing && (
+          <Descriptions column={1} size="small" style={{ marginBottom: 16 }}>
+            <Descriptions.Item label="Employee">{reviewing.employeeName}</Descriptions.Item>
+            <Descriptions.Item label="Amount">{formatMoney(reviewing.totalAmount, reviewing.currency)}</Descriptions.Item>
+            <Descriptions.Item label="Line Items">{reviewing.items.length}</Descriptions.Item>
+            <Descriptions.Item label="Receipts">{reviewing.receipts.length || 'None attached'}</Descriptions.Item>
+          </Descriptions>
+        )}
+        <Form form={form} layout="vertical">
+          <Form.Item name="comments" label="Comments" rules={[{ max: 500, message: 'Comments must be 500 characters or fewer' }]}>
+            <Input.TextArea rows={3} placeholder="Required when rejecting" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
+
+function ReimbursementBatches() {
+  const notify = useNotification();
+  const { canDelete } = useCan(EXPENSES_PATH);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [form] = Form.useForm();
+
+  const { data: batches = [], isLoading, error: batchesError } = useQuery(
+    queryKeys.expenses.batches(),
+    () => expenseAPI.getBatches().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (batchesError) {
+      const error = batchesError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load reimbursement batches');
+    }
+  }, [batchesError]);
+
+  const handleSubmit = async (values: { period: Dayjs; currency: string }) => {
+    try {
+      const res = await expenseAPI.createBatch({
+        payrollYear: values.period.year(),
+        payrollMonth: values.period.month() + 1,
+        currency: values.currency,
+      });
+      notify.success(
+        'Batch Created',
+        `${res.data.reference}: ${res.data.claimCount} claim(s) totalling ${formatMoney(res.data.totalAmount, res.data.currency)}`
+      );
+      setIsModalOpen(false);
+      form.resetFields();
+      refreshExpenses();
+    } catch (error: any) {
+      notify.error('Create Failed', error.response?.data?.message || 'Failed to create reimbursement batch');
+    }
+  };
+
+  const handleExport = async (batch: ReimbursementBatch) => {
+    try {
+      const res = await expenseAPI.exportBatch(batch.id);
+      saveBlob(res.data, `${batch.reference}.csv`);
+    } catch (error: any) {
+      notify.error('Export Failed', error.response?.data?.message || 'Failed to export reimbursement batch');
+    }
+  };
+
+  const handleDelete = async (batch: ReimbursementBatch) => {
+    try {
+      await expenseAPI.deleteBatch(batch.id);
+      notify.success('Batch Deleted', `${batch.reference} has been deleted and its claims released`);
+      refreshExpenses();
+    } catch (error: any) {
+      notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete reimbursement batch');
+    }
+  };
+
+  const columns: ColumnsType<ReimbursementBatch> = [
+    {
+      title: 'Reference',
+      dataIndex: 'reference',
+      key: 'reference',
+      render: (reference: string) => <Text strong>{reference}</Text>,
+    },
+    {
+      title: 'Payroll Period',
+      key: 'period',
+      render: (_: any, record: ReimbursementBatch) => periodLabel(record.payrollYear, record.payrollMonth),
+    },
+    {
+      title: 'Claims',
+      dataIndex: 'claimCount',
+      key: 'claimCount',
+      width: 90,
+      align: 'center',
+    },
+    {
+      title: 'Total',
+      dataIndex: 'totalAmount',
+      key: 'totalAmount',
+      align: 'right',
+      render: (value: number, record: ReimbursementBatch) => formatMoney(value, record.currency),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 150,
+      render: (status: string, record: ReimbursementBatch) => (
+        <Tag color={status === 'Paid' ? 'green' : 'gold'}>
+          {status}{record.paidAt && ` · ${formatDate(record.paidAt)}`}
+        </Tag>
+      ),
+    },
+    {
+      title: 'Created By',
+      dataIndex: 'createdBy',
+      key: 'createdBy',
+      render: (createdBy?: string) => createdBy ?? '—',
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 170,
+      render: (_: any, record: ReimbursementBatch) => (
+        <Space>
+          <Button type="link" icon={<DownloadOutlined />} onClick={() => handleExport(record)}>
+            CSV
+          </Button>
+          {canDelete && record.status !== 'Paid' && (
+            <Popconfirm
+              title={`Delete ${record.reference}? Its claims go back to the approved queue.`}
+              onConfirm={() => handleDelete(record)}
+              okText="Delete"
+              cancelText="Cancel"
+            >
+              <Button type="link" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16, width: '100%', justifyContent: 'flex-end' }}>
+        <Button
+          type="primary"
+          icon={<PlusOutlined />}
+          onClick={() => {
+            form.resetFields();
+            form.setFieldsValue({ period: dayjs(), currency: 'USD' });
+            setIsModalOpen(true);
+          }}
+          style={{
+            background: 'var(--gradient-primary)',
+            border: 'none',
+            height: 'var(--button-height)',
+            borderRadius: 'var(--button-radius)',
+          }}
+        >
+          Create Batch
+        </Button>
+      </Space>
+      <Table
+        columns={columns}
+        dataSource={batches}
+        loading={isLoading}
+        rowKey="id"
+        pagination={{ pageSize: 10 }}
+        locale={{ emptyText: 'No reimbursement batches yet' }}
+      />
+
+      <Modal
+        title="Create Reimbursement Batch"
+        open={isModalOpen}
+        onOk={() => form.submit()}
+        onCancel={() => {
+          setIsModalOpen(false);
+          form.resetFields();
+        }}
+        okText="Create"
+        cancelText="Cancel"
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item
+            name="period"
+            label="Payroll Month"
+            rules={[{ required: true, message: 'Please select a month' }]}
+            extra="Batches in the payroll currency are paid with that month's pay run. Recalculate a draft run to include a new batch."
+          >
+            <DatePicker picker="month" style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item
+            name="currency"
+            label="Currency"
+            rules={[{ required: true, message: 'Please select a currency' }]}
+            extra="Every approved claim in this currency that is not already batched is included"
+          >
+            <Select showSearch options={CURRENCIES.map(code => ({ value: code, label: code }))} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
+
+export default function Expenses() {
+  const { canEdit: canReviewAll } = useCan(EXPENSES_PATH);
+
+  // Managers without edit rights review their direct reports' claims only
+  const { data: teamClaims = [] } = useQuery(
+    queryKeys.expenses.team(),
+    () => expenseAPI.getTeam().then(res => res.data),
+    { enabled: !canReviewAll }
+  );
+
+  const tabs = [{ key: 'mine', label: 'My Claims', children: <MyClaims /> }];
+  if (canReviewAll) {
+    tabs.push(
+      { key: 'all', label: 'All Claims', children: <ClaimReview scope="all" /> },
+      { key: 'batches', label: 'Reimbursements', children: <ReimbursementBatches /> }
+    );
+  } else if (teamClaims.length > 0) {
+    tabs.push({ key: 'team', label: 'Team Approvals', children: <ClaimReview scope="team" /> });
+  }
+
+  return (
+    <div>
+      <PageHeader title="Expenses" subtitle="Claims, Approvals & Reimbursements" />
+      {tabs.length > 1 ? <Tabs items={tabs} /> : <MyClaims />}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { useState } from 'react';
-import { Card, Row, Col, Tag, Button, Select, Avatar, Progress } from 'antd';
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, Row, Col, Tag, Button, Select, Avatar, Progress, Empty, Spin } from 'antd';
 import {
   UserOutlined,
   CheckCircleOutlined,
@@ -7,20 +8,80 @@ import {
   FileTextOutlined,
   UpOutlined,
   DownOutlined,
-  PlusOutlined,
   BellOutlined,
   TrophyOutlined,
   RocketOutlined,
   BarChartOutlined,
   AuditOutlined,
 } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
 import PageHeader from '../components/PageHeader';
+import { useNotification } from '../contexts/NotificationContext';
+import { useQuery } from '../hooks/useQuery';
+import { attendanceAPI, employeeAPI, leaveRequestAPI } from '../services/api';
+import { queryKeys } from '../services/queryKeys';
+import type { AttendanceDailySummary, EmployeeSearchRequest } from '../types/api';
+
+type Timeframe = 'Week' | 'Month' | 'Year';
+
+interface TimeframeConfig {
+  unit: 'day' | 'week' | 'month';
+  buckets: number;
+  // First day of the current period, ending today
+  start: (today: Dayjs) => Dayjs;
+  label: (bucketStart: Dayjs) => string;
+  period: string;
+}
+
+const TIMEFRAMES: Record<Timeframe, TimeframeConfig> = {
+  Week: {
+    unit: 'day',
+    buckets: 7,
+    start: today => today.subtract(6, 'day'),
+    label: d => d.format('dd').charAt(0),
+    period: 'week',
+  },
+  Month: {
+    unit: 'week',
+    buckets: 4,
+    start: today => today.subtract(4, 'week').add(1, 'day'),
+    label: d => d.format('D'),
+    period: '4 weeks',
+  },
+  Year: {
+    unit: 'month',
+    buckets: 12,
+    start: today => today.startOf('month').subtract(11, 'month'),
+    label: d => d.format('MMM').charAt(0),
+    period: '12 months',
+  },
+};
+
+const RECENT_HIRES_PARAMS: EmployeeSearchRequest = { isActive: true, sortBy: 'hiredate', sortDirection: 'desc', pageSize: 5 };
+const ACTIVE_COUNT_PARAMS: EmployeeSearchRequest = { isActive: true, pageSize: 1 };
+
+// Average head count per day that has any attendance recorded, so weekends and holidays do not drag it down
+function averagePresent(days: AttendanceDailySummary[]): number {
+  const recorded = days.filter(d => d.present + d.absent > 0);
+  if (recorded.length === 0) return 0;
+  return Math.round(recorded.reduce((sum, d) => sum + d.present, 0) / recorded.length);
+}
+
+const formatRange = (startDate: string, endDate: string) => {
+  const start = dayjs(startDate);
+  const end = dayjs(endDate);
+  return start.isSame(end, 'day') ? start.format('MMM D') : `${start.format('MMM D')} - ${end.format('MMM D')}`;
+};
 
 export default function HRDashboard() {
-  const [expandedItems, setExpandedItems] = useState<string[]>(['1']);
-  const [selectedTimeframe, setSelectedTimeframe] = useState('Week');
+  const navigate = useNavigate();
+  const notify = useNotification();
+  const [expandedItems, setExpandedItems] = useState<number[]>([]);
+  const [selectedTimeframe, setSelectedTimeframe] = useState<Timeframe>('Week');
+  const [selectedBucket, setSelectedBucket] = useState<number | null>(null);
 
-  const toggleExpanded = (id: string) => {
+  const toggleExpanded = (id: number) => {
     setExpandedItems(prev => 
       prev.includes(id) 
         ? prev.filter(item => item !== id)
@@ -28,57 +89,92 @@ export default function HRDashboard() {
     );
   };
 
-  // Mock attendance data for weekly chart
-  const weeklyData = [
-    { day: 'S', value: 45 },
-    { day: 'M', value: 48 },
-    { day: 'T', value: 52 },
-    { day: 'W', value: 50 },
-    { day: 'T', value: 49 },
-    { day: 'F', value: 47 },
-    { day: 'S', value: 40 },
-  ];
-
-  const maxValue = Math.max(...weeklyData.map(d => d.value));
-  const selectedDay = 'T';
-
-  // Mock recent employees data
-  const recentEmployees = [
-    { id: '1', name: 'Alice Johnson', role: 'Senior Developer', avatar: null, status: 'Active' },
-    { id: '2', name: 'Bob Smith', role: 'UX Designer', avatar: null, status: 'Active' },
-    { id: '3', name: 'Carol White', role: 'Product Manager', avatar: null, status: 'Active' },
-  ];
-
-  // Sample leave requests data
-  const sampleLeaveRequests = [
-    {
-      id: '1',
-      title: 'Annual Leave Request',
-      employee: 'John Doe',
-      dates: 'Dec 15 - Dec 18',
-      days: 4,
-      status: 'Pending',
-      description: 'Personal vacation to spend time with family during the holidays.',
-    },
-    {
-      id: '2',
-      title: 'Sick Leave',
-      employee: 'Jane Smith',
-      dates: 'Dec 12',
-      days: 1,
-      status: 'Approved',
-      description: 'Doctor\'s appointment for annual checkup.',
-    },
-    {
-      id: '3',
-      title: 'Emergency Leave',
-      employee: 'Bob Wilson',
-      dates: 'Dec 20',
-      days: 1,
-      status: 'Pending',
-      description: 'Family emergency requiring immediate attention.',
-    },
-  ];
+  const config = TIMEFRAMES[selectedTimeframe];
+  const today = dayjs().startOf('day');
+  const todayKey = today.format('YYYY-MM-DD');
+  const periodStart = config.start(today);
+  const previousStart = periodStart.subtract(config.buckets, config.unit);
+
+  // One request covers the current and the previous period so the trend needs no second round trip
+  const summaryStart = previousStart.format('YYYY-MM-DD');
+  const { data: summary, isLoading: summaryLoading, error: summaryError } = useQuery(
+    queryKeys.attendance.summary(summaryStart, todayKey),
+    () => attendanceAPI.getSummary(summaryStart, todayKey).then(res => res.data)
+  );
+
+  const { data: recentHires, isLoading: hiresLoading } = useQuery(
+    queryKeys.employees.search(RECENT_HIRES_PARAMS),
+    () => employeeAPI.search(RECENT_HIRES_PARAMS).then(res => res.data.data)
+  );
+
+  const { data: activeCount = 0 } = useQuery(
+    queryKeys.employees.search(ACTIVE_COUNT_PARAMS),
+    () => employeeAPI.search(ACTIVE_COUNT_PARAMS).then(res => res.data.totalCount)
+  );
+
+  const { data: pending = [], isLoading: pendingLoading } = useQuery(
+    queryKeys.leaveRequests.pending(),
+    () => leaveRequestAPI.getPending().then(res => res.data)
+  );
+
+  const { data: approved = [] } = useQuery(
+    queryKeys.leaveRequests.history('Approved'),
+    () => leaveRequestAPI.getApproved().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (summaryError) {
+      const error = summaryError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load attendance summary');
+    }
+  }, [summaryError]);
+
+  useEffect(() => {
+    setSelectedBucket(null);
+  }, [selectedTimeframe]);
+
+  const byDate = useMemo(
+    () => new Map((summary ?? []).map(day => [dayjs(day.date).format('YYYY-MM-DD'), day])),
+    [summary]
+  );
+
+  const daysBetween = (from: Dayjs, to: Dayjs) => {
+    const days: AttendanceDailySummary[] = [];
+    for (let d = from; !d.isAfter(to, 'day'); d = d.add(1, 'day')) {
+      const day = byDate.get(d.format('YYYY-MM-DD'));
+      if (day) days.push(day);
+    }
+    return days;
+  };
+
+  const chartData = Array.from({ length: config.buckets }, (_, i) => {
+    const bucketStart = periodStart.add(i, config.unit);
+    const bucketEnd = bucketStart.add(1, config.unit).subtract(1, 'day');
+    return {
+      label: config.label(bucketStart),
+      value: averagePresent(daysBetween(bucketStart, bucketEnd.isAfter(today) ? today : bucketEnd)),
+    };
+  });
+
+  const maxValue = Math.max(1, ...chartData.map(d => d.value));
+  const activeBucket = selectedBucket ?? chartData.length - 1;
+
+  const currentAverage = averagePresent(daysBetween(periodStart, today));
+  const previousAverage = averagePresent(daysBetween(previousStart, periodStart.subtract(1, 'day')));
+  const change = previousAverage > 0 ? Math.round(((currentAverage - previousAverage) / previousAverage) * 100) : null;
+
+  const todaySummary = byDate.get(todayKey);
+  const presentToday = todaySummary?.present ?? 0;
+  const onLeaveToday = approved.filter(
+    r => !dayjs(r.startDate).isAfter(today, 'day') && !dayjs(r.endDate).isBefore(today, 'day')
+  ).length;
+  // Anyone active who has neither clocked in nor is on approved leave
+  const absentToday = Math.max(activeCount - presentToday - onLeaveToday, 0);
+  const percentOfActive = (count: number) => (activeCount > 0 ? Math.round((count / activeCount) * 100) : 0);
+
+  const recentRequests = [...pending]
+    .sort((a, b) => dayjs(b.createdAt).valueOf() - dayjs(a.createdAt).valueOf())
+    .slice(0, 5);
 
   return (
     <div>
@@ -113,7 +209,7 @@ export default function HRDashboard() {
               </div>
               <Select
                 value={selectedTimeframe}
-                onChange={setSelectedTimeframe}
+                onChange={value => setSelectedTimeframe(value as Timeframe)}
                 style={{ width: 100 }}
                 bordered={false}
                 options={[
@@ -124,78 +220,92 @@ export default function HRDashboard() {
               />
             </div>
 
-            {/* Weekly Chart */}
-            <div style={{ marginBottom: 16 }}>
-              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', height: 200 }}>
-                {weeklyData.map((data, index) => {
-                  const height = (data.value / maxValue) * 180;
-                  const isSelected = data.day === selectedDay;
-                  return (
-                    <div key={index} style={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
-                      <div
-                        style={{
-                          width: '100%',
-                          maxWidth: 40,
-                          height: height,
-                          background: isSelected 
-                            ? 'linear-gradient(180deg, #4f46e5 0%, #818cf8 100%)'
-                            : 'linear-gradient(180deg, #e0e7ff 0%, #c7d2fe 100%)',
-                          borderRadius: '8px 8px 0 0',
-                          marginBottom: 8,
-                          position: 'relative',
-                          transition: 'all 0.3s',
-                        }}
-                      >
-                        {isSelected && (
-                          <div
-                            style={{
-                              position: 'absolute',
-                              top: -40,
-                              left: '50%',
-                              transform: 'translateX(-50%)',
-                              background: '#1e293b',
-                              color: 'white',
-                              padding: '6px 12px',
-                              borderRadius: 8,
-                              fontSize: 12,
-                              fontWeight: 600,
-                              whiteSpace: 'nowrap',
-                            }}
-                          >
-                            {data.value} employees
-                          </div>
-                        )}
+            {/* Attendance Chart */}
+            <Spin spinning={summaryLoading}>
+              <div style={{ marginBottom: 16 }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end', height: 200 }}>
+                  {chartData.map((data, index) => {
+                    const height = (data.value / maxValue) * 150;
+                    const isSelected = index === activeBucket;
+                    return (
+                      <div key={index} style={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                        <div
+                          style={{
+                            width: '100%',
+                            maxWidth: 40,
+                            height: height,
+                            background: isSelected 
+                              ? 'linear-gradient(180deg, #4f46e5 0%, #818cf8 100%)'
+                              : 'linear-gradient(180deg, #e0e7ff 0%, #c7d2fe 100%)',
+                            borderRadius: '8px 8px 0 0',
+                            marginBottom: 8,
+                            position: 'relative',
+                            transition: 'all 0.3s',
+                          }}
+                        >
+                          {isSelected && (
+                            <div
+                              style={{
+                                position: 'absolute',
+                                top: -40,
+                                left: '50%',
+                                transform: 'translateX(-50%)',
+                                background: '#1e293b',
+                                color: 'white',
+                                padding: '6px 12px',
+                                borderRadius: 8,
+                                fontSize: 12,
+                                fontWeight: 600,
+                                whiteSpace: 'nowrap',
+                              }}
+                            >
+                              {data.value} present
+                            </div>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => setSelectedBucket(index)}
+                          style={{
+                            width: 36,
+                            height: 36,
+                            borderRadius: '50%',
+                            border: 'none',
+                            background: isSelected ? '#1e293b' : '#f1f5f9',
+                            color: isSelected ? 'white' : '#64748b',
+                            fontSize: 14,
+                            fontWeight: 600,
+                            cursor: 'pointer',
+                            transition: 'all 0.3s',
+                          }}
+                        >
+                          {data.label}
+                        </button>
                       </div>
-                      <button
-                        onClick={() => console.log('Day selected:', data.day)}
-                        style={{
-                          width: 36,
-                          height: 36,
-                          borderRadius: '50%',
-                          border: 'none',
-                          background: isSelected ? '#1e293b' : '#f1f5f9',
-                          color: isSelected ? 'white' : '#64748b',
-                          fontSize: 14,
-                          fontWeight: 600,
-                          cursor: 'pointer',
-                          transition: 'all 0.3s',
-                        }}
-                      >
-                        {data.day}
-                      </button>
-                    </div>
-                  );
-                })}
+                    );
+                  })}
+                </div>
               </div>
-            </div>
 
-            {/* Summary */}
-            <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
-              <div style={{ fontSize: 24, fontWeight: 700, color: '#16a34a' }}>+12%</div>
-              <div style={{ fontSize: 14, color: '#64748b' }}>
-                This week's attendance is higher than last week.
+              {/* Summary */}
+              <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+                {change === null ? (
+                  <div style={{ fontSize: 14, color: '#64748b' }}>
+                    No attendance was recorded in the previous {config.period} to compare against.
+                  </div>
+                ) : (
+                  <>
+                    <div style={{ fontSize: 24, fontWeight: 700, color: change >= 0 ? '#16a34a' : '#ef4444' }}>
+                      {change > 0 ? '+' : ''}{change}%
+                    </div>
+                    <div style={{ fontSize: 14, color: '#64748b' }}>
+                      {change === 0
+                        ? `Attendance this ${config.period} is level with the previous ${config.period}.`
+                        : `Attendance this ${config.period} is ${change > 0 ? 'higher' : 'lower'} than the previous ${config.period}.`}
+                    </div>
+                  </>
+                )}
               </div>
-            </div>
+            </Spin>
           </Card>
 
           {/* Recent Leave Requests */}
@@ -212,97 +322,107 @@ export default function HRDashboard() {
               <h3 style={{ margin: 0, fontSize: 16, fontWeight: 600, color: '#1e293b' }}>
                 Recent Leave Requests
               </h3>
-              <Button type="link" style={{ padding: 0, fontWeight: 500 }}>
+              <Button type="link" style={{ padding: 0, fontWeight: 500 }} onClick={() => navigate('/leave')}>
                 See All Requests
               </Button>
             </div>
 
-            <div>
-              {sampleLeaveRequests.map((request, index) => {
-                const isExpanded = expandedItems.includes(request.id);
-                const statusColor = request.status === 'Approved' ? '#16a34a' : request.status === 'Pending' ? '#f59e0b' : '#ef4444';
-                
-                return (
-                  <div key={request.id}>
-                    <div
-                      style={{
-                        padding: '16px 0',
-                        borderBottom: index !== sampleLeaveRequests.length - 1 ? '1px solid #e2e8f0' : 'none',
-                      }}
-                    >
-                      <div style={{ display: 'flex', alignItems: 'flex-start', gap: 16 }}>
-                        <div
-                          style={{
-                            width: 48,
-                            height: 48,
-                            borderRadius: 12,
-                            background: request.status === 'Approved' ? '#dcfce7' : request.status === 'Pending' ? '#fef3c7' : '#fee2e2',
-                            display: 'flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            fontSize: 16,
-                          }}
-                        >
-                          {request.status === 'Approved' ? (
-                            <CheckCircleOutlined style={{ color: statusColor }} />
-                          ) : request.status === 'Pending' ? (
-                            <ClockCircleOutlined style={{ color: statusColor }} />
-                          ) : (
-                            <FileTextOutlined style={{ color: statusColor }} />
-                          )}
-                        </div>
-                        <div style={{ flex: 1 }}>
-                          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
-                            <div>
-                              <div style={{ fontSize: 16, fontWeight: 600, color: '#1e293b', marginBottom: 4 }}>
-                                {request.title}
-                              </div>
-                              <div style={{ fontSize: 14, color: '#64748b' }}>
-                                {request.employee}
+            <Spin spinning={pendingLoading}>
+              {recentRequests.length === 0 && !pendingLoading && (
+                <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No pending leave requests" />
+              )}
+              <div>
+                {recentRequests.map((request, index) => {
+                  const isExpanded = expandedItems.includes(request.id);
+                  const statusColor = request.status === 'Approved' ? '#16a34a' : request.status === 'Pending' ? '#f59e0b' : '#ef4444';
+                  
+                  return (
+                    <div key={request.id}>
+                      <div
+                        style={{
+                          padding: '16px 0',
+                          borderBottom: index !== recentRequests.length - 1 ? '1px solid #e2e8f0' : 'none',
+                        }}
+                      >
+                        <div style={{ display: 'flex', alignItems: 'flex-start', gap: 16 }}>
+                          <div
+                            style={{
+                              width: 48,
+                              height: 48,
+                              borderRadius: 12,
+                              background: request.status === 'Approved' ? '#dcfce7' : request.status === 'Pending' ? '#fef3c7' : '#fee2e2',
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              fontSize: 16,
+                            }}
+                          >
+                            {request.status === 'Approved' ? (
+                              <CheckCircleOutlined style={{ color: statusColor }} />
+                            ) : request.status === 'Pending' ? (
+                              <ClockCircleOutlined style={{ color: statusColor }} />
+                            ) : (
+                              <FileTextOutlined style={{ color: statusColor }} />
+                            )}
+                          </div>
+                          <div style={{ flex: 1 }}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                              <div>
+                                <div style={{ fontSize: 16, fontWeight: 600, color: '#1e293b', marginBottom: 4 }}>
+                                  {request.leaveType} Leave
+                                </div>
+                                <div style={{ fontSize: 14, color: '#64748b' }}>
+                                  {request.employeeName}
+                                </div>
                               </div>
+                              <Tag
+                                color={request.status === 'Approved' ? 'green' : request.status === 'Pending' ? 'orange' : 'red'}
+                                style={{ 
+                                  borderRadius: 12, 
+                                  padding: '4px 12px', 
+                                  fontSize: 12, 
+                                  fontWeight: 500,
+                                  border: 'none'
+                                }}
+                              >
+                                {request.status}
+                              </Tag>
                             </div>
-                            <Tag
-                              color={request.status === 'Approved' ? 'green' : request.status === 'Pending' ? 'orange' : 'red'}
-                              style={{ 
-                                borderRadius: 12, 
-                                padding: '4px 12px', 
-                                fontSize: 12, 
-                                fontWeight: 500,
-                                border: 'none'
-                              }}
-                            >
-                              {request.status}
-                            </Tag>
-                          </div>
-                          <div style={{ display: 'flex', alignItems: 'center', gap: 16, marginTop: 8, fontSize: 14, color: '#64748b' }}>
-                            <span>{request.days} days</span>
-                            <span>•</span>
-                            <span>{request.dates}</span>
-                            <Button
-                              type="link"
-                              size="small"
-                              onClick={() => toggleExpanded(request.id)}
-                              icon={isExpanded ? <UpOutlined /> : <DownOutlined />}
-                              style={{ marginLeft: 'auto', padding: 0, height: 'auto' }}
-                            />
-                          </div>
-                          {isExpanded && (
-                            <div style={{ marginTop: 16, padding: 16, background: '#f8fafc', borderRadius: 12 }}>
-                              <p style={{ margin: 0, fontSize: 14, color: '#475569' }}>
-                                {request.description}
-                              </p>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: 16, marginTop: 8, fontSize: 14, color: '#64748b' }}>
+                              <span>{request.totalDays} {request.totalDays === 1 ? 'day' : 'days'}</span>
+                              <span>•</span>
+                              <span>{formatRange(request.startDate, request.endDate)}</span>
+                              <Button
+                                type="link"
+                                size="small"
+                                onClick={() => toggleExpanded(request.id)}
+                                icon={isExpanded ? <UpOutlined /> : <DownOutlined />}
+                                style={{ marginLeft: 'auto', padding: 0, height: 'auto' }}
+                              />
                             </div>
-                          )}
+                            {isExpanded && (
+                              <div style={{ marginTop: 16, padding: 16, background: '#f8fafc', borderRadius: 12 }}>
+                                <p style={{ margin: 0, fontSize: 14, color: '#475569' }}>
+                                  {request.reason}
+                                </p>
+                                {request.comments && (
+                                  <p style={{ margin: '8px 0 0', fontSize: 13, color: '#64748b' }}>
+                                    {request.comments}
+                                  </p>
+                                )}
+                              </div>
+                            )}
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                );
-              })}
-            </div>
+                  );
+                })}
+              </div>
+            </Spin>
           </Card>
 
-          {/* Team Highlights Card */}
+          {/* Recently Hired Card */}
           <Card
             bordered={false}
             style={{
@@ -314,53 +434,49 @@ export default function HRDashboard() {
           >
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
               <h3 style={{ margin: 0, fontSize: 16, fontWeight: 600, color: '#1e293b' }}>
-                Team Highlights
+                Recently Hired
               </h3>
-              <Button type="link" style={{ padding: 0, fontWeight: 500 }}>
+              <Button type="link" style={{ padding: 0, fontWeight: 500 }} onClick={() => navigate('/employees')}>
                 See All
               </Button>
             </div>
 
-            <div>
-              {recentEmployees.map((emp, index) => (
-                <div
-                  key={emp.id}
-                  style={{
-                    padding: '16px 0',
-                    borderBottom: index !== recentEmployees.length - 1 ? '1px solid #e2e8f0' : 'none',
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: 16,
-                  }}
-                >
-                  <Avatar
-                    size={40}
-                    icon={<UserOutlined />}
-                    style={{ background: '#4f46e5' }}
-                  />
-                  <div style={{ flex: 1 }}>
-                    <div style={{ fontSize: 15, fontWeight: 500, color: '#1e293b', marginBottom: 4 }}>
-                      {emp.name}
+            <Spin spinning={hiresLoading}>
+              {recentHires?.length === 0 && (
+                <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No active employees yet" />
+              )}
+              <div>
+                {(recentHires ?? []).map((emp, index) => (
+                  <div
+                    key={emp.id}
+                    style={{
+                      padding: '16px 0',
+                      borderBottom: index !== (recentHires ?? []).length - 1 ? '1px solid #e2e8f0' : 'none',
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 16,
+                    }}
+                  >
+                    <Avatar
+                      size={40}
+                      icon={<UserOutlined />}
+                      style={{ background: '#4f46e5' }}
+                    />
+                    <div style={{ flex: 1 }}>
+                      <div style={{ fontSize: 15, fontWeight: 500, color: '#1e293b', marginBottom: 4 }}>
+                        {emp.firstName} {emp.lastName}
+                      </div>
+                      <div style={{ fontSize: 13, color: '#64748b' }}>
+                        {[emp.position, emp.department].filter(Boolean).join(' · ')}
+                      </div>
                     </div>
-                    <div style={{ fontSize: 13, color: '#64748b' }}>
-                      {emp.role}
+                    <div style={{ fontSize: 13, color: '#94a3b8' }}>
+                      Joined {dayjs(emp.hireDate).format('MMM D, YYYY')}
                     </div>
                   </div>
-                  <Button
-                    type="primary"
-                    shape="circle"
-                    icon={<PlusOutlined />}
-                    size="small"
-                    style={{
-                      background: '#4f46e5',
-                      border: 'none',
-                      width: 32,
-                      height: 32,
-                    }}
-                  />
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            </Spin>
           </Card>
         </Col>
 
@@ -387,25 +503,25 @@ export default function HRDashboard() {
               <div style={{ marginBottom: 12 }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
                   <span style={{ fontSize: 13, color: '#64748b' }}>Present Today</span>
-                  <span style={{ fontSize: 20, fontWeight: 700, color: '#1e293b' }}>45</span>
+                  <span style={{ fontSize: 20, fontWeight: 700, color: '#1e293b' }}>{presentToday}</span>
                 </div>
                 <Progress
-                  percent={90}
+                  percent={percentOfActive(presentToday)}
                   strokeColor="#4f46e5"
                   trailColor="#e0e7ff"
                   showInfo={false}
                   style={{ height: 8 }}
                 />
-                <div style={{ fontSize: 12, color: '#94a3b8', marginTop: 4 }}>of 50 employees</div>
+                <div style={{ fontSize: 12, color: '#94a3b8', marginTop: 4 }}>of {activeCount} employees</div>
               </div>
 
               <div style={{ marginBottom: 12, paddingTop: 24, borderTop: '1px solid #e2e8f0' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
                   <span style={{ fontSize: 13, color: '#64748b' }}>On Leave</span>
-                  <span style={{ fontSize: 20, fontWeight: 700, color: '#1e293b' }}>5</span>
+                  <span style={{ fontSize: 20, fontWeight: 700, color: '#1e293b' }}>{onLeaveToday}</span>
                 </div>
                 <Progress
-                  percent={10}
+                  percent={percentOfActive(onLeaveToday)}
                   strokeColor="#f59e0b"
                   trailColor="#fef3c7"
                   showInfo={false}
@@ -416,10 +532,10 @@ export default function HRDashboard() {
               <div style={{ paddingTop: 24, borderTop: '1px solid #e2e8f0' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
                   <span style={{ fontSize: 13, color: '#64748b' }}>Absent</span>
-                  <span style={{ fontSize: 20, fontWeight: 700, color: '#1e293b' }}>0</span>
+                  <span style={{ fontSize: 20, fontWeight: 700, color: '#1e293b' }}>{absentToday}</span>
                 </div>
                 <Progress
-                  percent={0}
+                  percent={percentOfActive(absentToday)}
                   strokeColor="#ef4444"
                   trailColor="#fee2e2"
                   showInfo={false}
@@ -0,0 +1,811 @@
+import { useState, useEffect } from 'react';
+import {
+  AutoComplete,
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Empty,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Row,
+  Select,
+  Space,
+  Switch,
+  Table,
+  Tabs,
+  Tag,
+  Typography,
+} from 'antd';
+import { CheckOutlined, CloseOutlined, DeleteOutlined, EditOutlined, PlusOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import Can from '../components/Can';
+import PageHeader from '../components/PageHeader';
+import { useNotification } from '../contexts/NotificationContext';
+import { employeeAPI, leavePolicyAPI, leaveRequestAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useCan } from '../hooks/useRolePermissions';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import { useLeaveBalances } from '../hooks/useLeaveBalances';
+import { LEAVE_TYPES, countLeaveDays, leaveDaysInYear } from '../utils/leave';
+import { formatDate } from '../utils/preferences';
+import type { LeavePolicy, LeaveRequest } from '../types/api';
+
+const { RangePicker } = DatePicker;
+
+const LEAVE_PATH = '/leave';
+
+const statusColor = (status: string) => {
+  if (status === 'Approved') return 'green';
+  if (status === 'Rejected') return 'red';
+  if (status === 'Pending') return 'orange';
+  return 'default';
+};
+
+const refreshLeave = () => invalidateQueries(queryKeys.leaveRequests.all);
+
+const baseColumns: ColumnsType<LeaveRequest> = [
+  {
+    title: 'Type',
+    dataIndex: 'leaveType',
+    key: 'leaveType',
+    width: 120,
+    render: (type: string) => <Tag color="blue">{type}</Tag>,
+  },
+  {
+    title: 'From',
+    dataIndex: 'startDate',
+    key: 'startDate',
+    width: 130,
+    sorter: (a, b) => dayjs(a.startDate).valueOf() - dayjs(b.startDate).valueOf(),
+    render: formatDate,
+  },
+  {
+    title: 'To',
+    dataIndex: 'endDate',
+    key: 'endDate',
+    width: 130,
+    render: formatDate,
+  },
+  {
+    title: 'Days',
+    dataIndex: 'totalDays',
+    key: 'totalDays',
+    width: 80,
+    align: 'center',
+  },
+  {
+    title: 'Reason',
+    dataIndex: 'reason',
+    key: 'reason',
+    ellipsis: true,
+  },
+  {
+    title: 'Status',
+    dataIndex: 'status',
+    key: 'status',
+    width: 110,
+    render: (status: string, record) => (
+      <Tag color={statusColor(status)} title={record.rejectionReason}>
+        {status}
+      </Tag>
+    ),
+  },
+];
+
+const employeeColumn: ColumnsType<LeaveRequest>[number] = {
+  title: 'Employee',
+  dataIndex: 'employeeName',
+  key: 'employeeName',
+  width: 180,
+  sorter: (a, b) => a.employeeName.localeCompare(b.employeeName),
+};
+
+function MyLeave() {
+  const notify = useNotification();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRequest, setEditingRequest] = useState<LeaveRequest | null>(null);
+  const [form] = Form.useForm();
+  const range: [Dayjs, Dayjs] | undefined = Form.useWatch('range', form);
+  const leaveType: string | undefined = Form.useWatch('leaveType', form);
+
+  const { data: me, isLoading: meLoading, error: meError } = useQuery(
+    queryKeys.employees.me(),
+    () => employeeAPI.getMe().then(res => res.data)
+  );
+
+  const { data: requests = [], isLoading } = useQuery(
+    queryKeys.leaveRequests.employee(me?.id ?? 0),
+    () => leaveRequestAPI.getByEmployee(me!.id).then(res => res.data),
+    { enabled: !!me }
+  );
+
+  const { balances, balanceOn, policies } = useLeaveBalances(me);
+  const leaveTypes = Array.from(new Set([...LEAVE_TYPES, ...policies.map(p => p.leaveType)]));
+
+  // Days still requestable for a type on a given day; the request being edited no longer counts against it
+  const balanceFor = (type?: string, asOf: Dayjs = dayjs()) => {
+    const balance = type ? balanceOn(type, asOf) : undefined;
+    if (!balance) return undefined;
+    const released = editingRequest?.status === 'Pending' && editingRequest.leaveType === type
+      ? leaveDaysInYear(dayjs(editingRequest.startDate), dayjs(editingRequest.endDate), asOf.year())
+      : 0;
+    return { ...balance, available: balance.blocked ? 0 : balance.available + released };
+  };
+  const selectedBalance = balanceFor(leaveType, range?.[0]);
+
+  const handleCreate = () => {
+    setEditingRequest(null);
+    form.resetFields();
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (request: LeaveRequest) => {
+    setEditingRequest(request);
+    form.setFieldsValue({
+      leaveType: request.leaveType,
+      range: [dayjs(request.startDate), dayjs(request.endDate)],
+      reason: request.reason,
+      comments: request.comments,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleCancel = async (id: number) => {
+    try {
+      await leaveRequestAPI.delete(id);
+      notify.success('Request Cancelled', 'Your leave request has been cancelled');
+      refreshLeave();
+    } catch (error: any) {
+      notify.error('Cancel Failed', error.response?.data?.message || 'Failed to cancel leave request');
+    }
+  };
+
+  const handleSubmit = async (values: any) => {
+    if (!me) return;
+    const [start, end]: [Dayjs, Dayjs] = values.range;
+    const payload = {
+      startDate: start.format('YYYY-MM-DD'),
+      endDate: end.format('YYYY-MM-DD'),
+      leaveType: values.leaveType,
+      reason: values.reason,
+      comments: values.comments,
+    };
+    try {
+      if (editingRequest) {
+        await leaveRequestAPI.update(editingRequest.id, payload);
+        notify.success('Request Updated', 'Your leave request has been updated');
+      } else {
+        await leaveRequestAPI.create({ employeeId: me.id, ...payload });
+        notify.success('Request Submitted', `${countLeaveDays(start, end)} day(s) of ${values.leaveType} leave requested`);
+      }
+      setIsModalOpen(false);
+      form.resetFields();
+      refreshLeave();
+    } catch (error: any) {
+      notify.error(
+        editingRequest ? 'Update Failed' : 'Request Failed',
+        error.response?.data?.message || `Failed to ${editingRequest ? 'update' : 'submit'} leave request`
+      );
+    }
+  };
+
+  if (meLoading) {
+    return <Card loading />;
+  }
+
+  if (meError || !me) {
+    return (
+      <Card>
+        <Empty description="Your account is not linked to an employee record" />
+      </Card>
+    );
+  }
+
+  const columns: ColumnsType<LeaveRequest> = [
+    ...baseColumns,
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 180,
+      render: (_: any, record: LeaveRequest) =>
+        record.status === 'Pending' && (
+          <Space>
+            <Button type="link" icon={<EditOutlined />} onClick={() => handleEdit(record)}>
+              Edit
+            </Button>
+            <Popconfirm
+              title="Cancel this leave request?"
+              onConfirm={() => handleCancel(record.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button type="link" danger icon={<DeleteOutlined />}>
+                Cancel
+              </Button>
+            </Popconfirm>
+          </Space>
+        ),
+    },
+  ];
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16, width: '100%', justifyContent: 'space-between' }} wrap>
+        <Space wrap>
+          {balances.map(balance => (
+            <Tag key={balance.leaveType} color={balance.blocked ? 'default' : 'cyan'}>
+              {balance.leaveType}: {balance.available} of {balance.entitlement} day(s) available
+            </Tag>
+          ))}
+        </Space>
+        <Can path={LEAVE_PATH} action="create">
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            style={{
+              background: 'var(--gradient-primary)',
+              border: 'none',
+              height: 'var(--button-height)',
+              borderRadius: 'var(--button-radius)',
+            }}
+          >
+            Request Leave
+          </Button>
+        </Can>
+      </Space>
+      <Table
+        columns={columns}
+        dataSource={requests}
+        loading={isLoading}
+        rowKey="id"
+        pagination={{ pageSize: 10 }}
+      />
+
+      <Modal
+        title={editingRequest ? 'Edit Leave Request' : 'Request Leave'}
+        open={isModalOpen}
+        onOk={() => form.submit()}
+        onCancel={() => {
+          setIsModalOpen(false);
+          form.resetFields();
+        }}
+        okText={editingRequest ? 'Update' : 'Submit'}
+        cancelText="Cancel"
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item
+            name="leaveType"
+            label="Leave Type"
+            rules={[{ required: true, message: 'Please select a leave type' }]}
+          >
+            <Select
+              placeholder="Select leave type"
+              options={leaveTypes.map(type => ({ value: type, label: type }))}
+            />
+          </Form.Item>
+          <Form.Item
+            name="range"
+            label="Dates"
+            dependencies={['leaveType']}
+            rules={[
+              { required: true, message: 'Please select the leave dates' },
+              {
+                validator: (_, value?: [Dayjs, Dayjs]) => {
+                  if (!value) return Promise.resolve();
+                  const [start, end] = value;
+                  // Same checks as the server: each year's days against that year's balance as of the day they start
+                  for (let year = start.year(); year <= end.year(); year++) {
+                    const balance = balanceFor(form.getFieldValue('leaveType'), year === start.year() ? start : start.year(year).startOf('year'));
+                    if (!balance) continue;
+                    if (balance.blocked) {
+                      return Promise.reject(new Error(`${balance.leaveType} leave is not available until your probation ends on ${formatDate(balance.probationEndsOn!)}`));
+                    }
+                    if (leaveDaysInYear(start, end, year) > balance.available) {
+                      const suffix = start.year() === end.year() ? '' : ` in ${year}`;
+                      return Promise.reject(new Error(`Only ${balance.available} day(s) of ${balance.leaveType} leave available${suffix}`));
+                    }
+                  }
+                  return Promise.resolve();
+                },
+              },
+            ]}
+            extra={[
+              range ? `${countLeaveDays(range[0], range[1])} day(s) requested` : undefined,
+              selectedBalance && !selectedBalance.blocked ? `${selectedBalance.available} day(s) available` : undefined,
+            ].filter(Boolean).join(' · ') || undefined}
+          >
+            <RangePicker
+              style={{ width: '100%' }}
+              disabledDate={(current) => !editingRequest && current.isBefore(dayjs(), 'day')}
+            />
+          </Form.Item>
+          <Form.Item
+            name="reason"
+            label="Reason"
+            rules={[{ required: true, message: 'Please enter a reason' }]}
+          >
+            <Input.TextArea rows={3} placeholder="Reason for leave" />
+          </Form.Item>
+          <Form.Item name="comments" label="Comments">
+            <Input.TextArea rows={2} placeholder="Handover notes, contact details, etc." />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
+
+function ApprovalQueue() {
+  const notify = useNotification();
+  const [rejecting, setRejecting] = useState<LeaveRequest | null>(null);
+  const [form] = Form.useForm();
+
+  const { data: pending = [], isLoading, error: pendingError } = useQuery(
+    queryKeys.leaveRequests.pending(),
+    () => leaveRequestAPI.getPending().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (pendingError) {
+      const error = pendingError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load pending leave requests');
+    }
+  }, [pendingError]);
+
+  const decide = async (request: LeaveRequest, status: 'Approved' | 'Rejected', rejectionReason?: string) => {
+    try {
+      await leaveRequestAPI.approve(request.id, status, rejectionReason);
+      notify.success(
+        status === 'Approved' ? 'Leave Approved' : 'Leave Rejected',
+        `${request.employeeName}'s ${request.leaveType} leave has been ${status.toLowerCase()}`
+      );
+      refreshLeave();
+      return true;
+    } catch (error: any) {
+      notify.error('Update Failed', error.response?.data?.message || 'Failed to update leave request');
+      return false;
+    }
+  };
+
+  const columns: ColumnsType<LeaveRequest> = [
+    employeeColumn,
+    ...baseColumns.filter(c => c.key !== 'status'),
+    {
+      title: 'Requested',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 130,
+      render: formatDate,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 200,
+      fixed: 'right',
+      render: (_: any, record: LeaveRequest) => (
+        <Space>
+          <Popconfirm
+            title={`Approve ${record.totalDays} day(s) for ${record.employeeName}?`}
+            onConfirm={() => decide(record, 'Approved')}
+            okText="Approve"
+            cancelText="Cancel"
+          >
+            <Button type="link" icon={<CheckOutlined />}>
+              Approve
+            </Button>
+          </Popconfirm>
+          <Button
+            type="link"
+            danger
+            icon={<CloseOutlined />}
+            onClick={() => {
+              form.resetFields();
+              setRejecting(record);
+            }}
+          >
+            Reject
+          </Button>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Table
+        columns={columns}
+        dataSource={pending}
+        loading={isLoading}
+        rowKey="id"
+        pagination={{ pageSize: 10 }}
+        locale={{ emptyText: 'No leave requests waiting for approval' }}
+      />
+
+      <Modal
+        title="Reject Leave Request"
+        open={!!rejecting}
+        onOk={() => form.submit()}
+        onCancel={() => setRejecting(null)}
+        okText="Reject"
+        okButtonProps={{ danger: true }}
+        cancelText="Cancel"
+      >
+        {rejecting && (
+          <Typography.Paragraph type="secondary">
+            {rejecting.employeeName} · {rejecting.leaveType} · {formatDate(rejecting.startDate)} – {formatDate(rejecting.endDate)}
+          </Typography.Paragraph>
+        )}
+        <Form
+          form={form}
+          layout="vertical"
+          onFinish={async (values) => {
+            if (rejecting && await decide(rejecting, 'Rejected', values.rejectionReason)) {
+              setRejecting(null);
+            }
+          }}
+        >
+          <Form.Item
+            name="rejectionReason"
+            label="Reason"
+            rules={[{ required: true, message: 'Please give a reason for rejecting' }]}
+          >
+            <Input.TextArea rows={3} placeholder="Shared with the employee" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
+
+function LeaveHistory() {
+  const [status, setStatus] = useState<string | undefined>(undefined);
+  const [range, setRange] = useState<[Dayjs, Dayjs] | null>(null);
+  const startDate = range?.[0].format('YYYY-MM-DD');
+  const endDate = range?.[1].format('YYYY-MM-DD');
+
+  const { data: requests = [], isLoading } = useQuery(
+    queryKeys.leaveRequests.history(status, startDate, endDate),
+    async () => {
+      // The date-range endpoint has no status filter, so narrow it here
+      if (startDate && endDate) {
+        const res = await leaveRequestAPI.getByDateRange(startDate, endDate);
+        return status ? res.data.filter(r => r.status === status) : res.data;
+      }
+      if (status === 'Approved') return (await leaveRequestAPI.getApproved()).data;
+      if (status === 'Rejected') return (await leaveRequestAPI.getRejected()).data;
+      if (status === 'Pending') return (await leaveRequestAPI.getPending()).data;
+      return (await leaveRequestAPI.getAll()).data;
+    }
+  );
+
+  const columns: ColumnsType<LeaveRequest> = [
+    employeeColumn,
+    ...baseColumns,
+    {
+      title: 'Decided',
+      key: 'decided',
+      width: 200,
+      render: (_: any, record: LeaveRequest) =>
+        record.approvedAt ? `${formatDate(record.approvedAt)}${record.approvedBy ? ` by ${record.approvedBy}` : ''}` : '—',
+    },
+  ];
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16 }} wrap>
+        <Select
+          placeholder="Status"
+          allowClear
+          style={{ width: 180 }}
+          size="large"
+          value={status}
+          onChange={setStatus}
+          options={['Pending', 'Approved', 'Rejected'].map(s => ({ value: s, label: s }))}
+        />
+        <RangePicker
+          size="large"
+          value={range}
+          onChange={(values) => setRange(values && values[0] && values[1] ? [values[0], values[1]] : null)}
+        />
+      </Space>
+      <Table
+        columns={columns}
+        dataSource={requests}
+        loading={isLoading}
+        rowKey="id"
+        pagination={{ pageSize: 10 }}
+        expandable={{
+          rowExpandable: (record) => !!record.rejectionReason || !!record.comments,
+          expandedRowRender: (record) => (
+            <Space direction="vertical">
+              {record.comments && <span>Comments: {record.comments}</span>}
+              {record.rejectionReason && <span>Rejection reason: {record.rejectionReason}</span>}
+            </Space>
+          ),
+        }}
+      />
+    </div>
+  );
+}
+
+function LeavePolicies() {
+  const notify = useNotification();
+  const { canEdit, canDelete } = useCan(LEAVE_PATH);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<LeavePolicy | null>(null);
+  const [form] = Form.useForm();
+
+  const { data: policies = [], isLoading, error: policiesError } = useQuery(
+    queryKeys.leavePolicies.list(),
+    () => leavePolicyAPI.getAll().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (policiesError) {
+      const error = policiesError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load leave policies');
+    }
+  }, [policiesError]);
+
+  const refreshPolicies = () => invalidateQueries(queryKeys.leavePolicies.all);
+
+  const handleCreate = () => {
+    setEditingPolicy(null);
+    form.resetFields();
+    form.setFieldsValue({
+      accrualPerMonth: 0,
+      maxCarryOver: 0,
+      probationMonths: 0,
+      allowDuringProbation: false,
+      proRateFromHireDate: true,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (policy: LeavePolicy) => {
+    setEditingPolicy(policy);
+    form.setFieldsValue(policy);
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await leavePolicyAPI.delete(id);
+      notify.success('Policy Deleted', 'Leave policy has been deleted successfully');
+      refreshPolicies();
+    } catch (error: any) {
+      notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete leave policy');
+    }
+  };
+
+  const handleSubmit = async (values: any) => {
+    const rules = {
+      annualEntitlement: values.annualEntitlement,
+      accrualPerMonth: values.accrualPerMonth ?? 0,
+      maxCarryOver: values.maxCarryOver ?? 0,
+      probationMonths: values.probationMonths ?? 0,
+      allowDuringProbation: values.allowDuringProbation ?? false,
+      proRateFromHireDate: values.proRateFromHireDate ?? true,
+    };
+    try {
+      if (editingPolicy) {
+        await leavePolicyAPI.update(editingPolicy.id, { ...rules, isActive: values.isActive ?? true });
+        notify.success('Policy Updated', `${editingPolicy.leaveType} leave policy has been updated`);
+      } else {
+        await leavePolicyAPI.create({ leaveType: values.leaveType, ...rules });
+        notify.success('Policy Created', `${values.leaveType} leave policy has been created`);
+      }
+      setIsModalOpen(false);
+      form.resetFields();
+      refreshPolicies();
+    } catch (error: any) {
+      notify.error(
+        editingPolicy ? 'Update Failed' : 'Create Failed',
+        error.response?.data?.message || `Failed to ${editingPolicy ? 'update' : 'create'} leave policy`
+      );
+    }
+  };
+
+  const columns: ColumnsType<LeavePolicy> = [
+    {
+      title: 'Leave Type',
+      dataIndex: 'leaveType',
+      key: 'leaveType',
+      render: (type: string) => <Tag color="blue">{type}</Tag>,
+    },
+    {
+      title: 'Days / Year',
+      dataIndex: 'annualEntitlement',
+      key: 'annualEntitlement',
+      align: 'center',
+    },
+    {
+      title: 'Accrual',
+      dataIndex: 'accrualPerMonth',
+      key: 'accrualPerMonth',
+      render: (value: number) => (value > 0 ? `${value} / month` : 'Up front'),
+    },
+    {
+      title: 'Carry-over Cap',
+      dataIndex: 'maxCarryOver',
+      key: 'maxCarryOver',
+      align: 'center',
+    },
+    {
+      title: 'Probation',
+      key: 'probation',
+      render: (_: any, record: LeavePolicy) =>
+        record.probationMonths > 0
+          ? `${record.probationMonths} month(s)${record.allowDuringProbation ? '' : ', blocked'}`
+          : 'None',
+    },
+    {
+      title: 'Pro-rated',
+      dataIndex: 'proRateFromHireDate',
+      key: 'proRateFromHireDate',
+      render: (value: boolean) => (value ? 'Yes' : 'No'),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'isActive',
+      key: 'isActive',
+      render: (isActive: boolean) => (
+        <Tag color={isActive ? 'green' : 'red'}>{isActive ? 'Active' : 'Inactive'}</Tag>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 180,
+      fixed: 'right',
+      render: (_: any, record: LeavePolicy) => (
+        <Space>
+          {canEdit && (
+            <Button type="link" icon={<EditOutlined />} onClick={() => handleEdit(record)}>
+              Edit
+            </Button>
+          )}
+          {canDelete && (
+            <Popconfirm
+              title="Are you sure you want to delete this policy?"
+              onConfirm={() => handleDelete(record.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button type="link" danger icon={<DeleteOutlined />}>
+                Delete
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  const unusedTypes = LEAVE_TYPES.filter(type => !policies.some(p => p.leaveType === type));
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16, width: '100%', justifyContent: 'flex-end' }}>
+        <Can path={LEAVE_PATH} action="create">
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            style={{
+              background: 'var(--gradient-primary)',
+              border: 'none',
+              height: 'var(--button-height)',
+              borderRadius: 'var(--button-radius)',
+            }}
+          >
+            Create Policy
+          </Button>
+        </Can>
+      </Space>
+      <Table
+        columns={columns}
+        dataSource={policies}
+        loading={isLoading}
+        rowKey="id"
+        pagination={false}
+        locale={{ emptyText: 'No leave policies yet. Leave types without a policy are not limited.' }}
+      />
+
+      <Modal
+        title={editingPolicy ? `Edit ${editingPolicy.leaveType} Policy` : 'Create Leave Policy'}
+        open={isModalOpen}
+        onOk={() => form.submit()}
+        onCancel={() => {
+          setIsModalOpen(false);
+          form.resetFields();
+        }}
+        okText={editingPolicy ? 'Update' : 'Create'}
+        cancelText="Cancel"
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          {!editingPolicy && (
+            <Form.Item
+              name="leaveType"
+              label="Leave Type"
+              rules={[{ required: true, message: 'Please enter a leave type' }]}
+            >
+              <AutoComplete
+                placeholder="e.g. Annual"
+                options={unusedTypes.map(type => ({ value: type }))}
+              />
+            </Form.Item>
+          )}
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item
+                name="annualEntitlement"
+                label="Days per Year"
+                rules={[{ required: true, message: 'Please enter the annual entitlement' }]}
+              >
+                <InputNumber min={0} max={366} step={0.5} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="accrualPerMonth" label="Accrual per Month" extra="0 grants the full entitlement up front">
+                <InputNumber min={0} max={31} step={0.25} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="maxCarryOver" label="Carry-over Cap (days)">
+                <InputNumber min={0} max={366} step={0.5} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="probationMonths" label="Probation (months)">
+                <InputNumber min={0} max={24} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item name="allowDuringProbation" label="Allow during probation" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          <Form.Item name="proRateFromHireDate" label="Pro-rate first year from hire date" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          {editingPolicy && (
+            <Form.Item name="isActive" label="Active" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          )}
+        </Form>
+      </Modal>
+    </div>
+  );
+}
+
+export default function Leave() {
+  // Approvals and policies are for roles that may edit leave
+  const { canEdit } = useCan(LEAVE_PATH);
+
+  return (
+    <div>
+      <PageHeader title="Leave" subtitle="Requests & Approvals" />
+      {canEdit ? (
+        <Tabs
+          items={[
+            { key: 'mine', label: 'My Leave', children: <MyLeave /> },
+            { key: 'approvals', label: 'Approvals', children: <ApprovalQueue /> },
+            { key: 'history', label: 'History', children: <LeaveHistory /> },
+            { key: 'policies', label: 'Policies', children: <LeavePolicies /> },
+          ]}
+        />
+      ) : (
+        <MyLeave />
+      )}
+    </div>
+  );
+}
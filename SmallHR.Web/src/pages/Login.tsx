@@ -4,6 +4,7 @@ import { useNavigate, Link } from 'react-router-dom';
 import { authAPI } from '../services/api';
 import { useAuthStore } from '../store/authStore';
 import { useNotification } from '../contexts/NotificationContext';
+import { getLandingPage } from '../utils/preferences';
 import { 
   LockOutlined, 
   MailOutlined, 
@@ -37,7 +38,7 @@ export default function Login() {
       await login(user);
       
       notify.success('Login Successful', `Welcome back, ${user.firstName}!`);
-      navigate('/dashboard');
+      navigate(getLandingPage());
     } catch (error: any) {
       notify.error(
         'Login Failed',
@@ -0,0 +1,496 @@
+import { useEffect, useState } from 'react';
+import {
+  Badge,
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Drawer,
+  Empty,
+  Form,
+  Input,
+  List,
+  Modal,
+  Popconfirm,
+  Row,
+  Select,
+  Space,
+  Switch,
+  Table,
+  Tabs,
+  Tag,
+  Typography,
+} from 'antd';
+import { DeleteOutlined, EditOutlined, PlusOutlined, PushpinFilled } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import Can from '../components/Can';
+import PageHeader from '../components/PageHeader';
+import RichTextEditor from '../components/NoticeBoard/RichTextEditor';
+import '../components/NoticeBoard/NoticeBoard.css';
+import { useNotification } from '../contexts/NotificationContext';
+import { departmentAPI, noticeAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useCan } from '../hooks/useRolePermissions';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import { isBlankHtml, sanitizeHtml } from '../utils/html';
+import { formatDate, formatDateTime } from '../utils/preferences';
+import type { Notice, NoticeStatus } from '../types/api';
+
+const NOTICE_BOARD_PATH = '/notice-board';
+const TARGET_ROLES = ['Admin', 'HR', 'Employee'];
+
+const cardStyle = {
+  borderRadius: 'var(--card-radius)',
+  boxShadow: 'var(--card-shadow)',
+};
+
+const STATUS_COLORS: Record<NoticeStatus, string> = {
+  Scheduled: 'gold',
+  Published: 'green',
+  Expired: 'default',
+};
+
+const previewText = (html: string, length = 180) => {
+  const text = new DOMParser().parseFromString(html, 'text/html').body.textContent?.trim() ?? '';
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+};
+
+const audienceTags = (notice: Notice) => {
+  const targets = [...notice.targetDepartments, ...notice.targetRoles];
+  if (targets.length === 0) return <Tag>Everyone</Tag>;
+  return (
+    <>
+      {notice.targetDepartments.map(d => <Tag key={`d-${d}`} color="blue">{d}</Tag>)}
+      {notice.targetRoles.map(r => <Tag key={`r-${r}`} color="purple">{r}</Tag>)}
+    </>
+  );
+};
+
+const refreshNotices = () => invalidateQueries(queryKeys.notices.all);
+
+function NoticeFeed() {
+  const notify = useNotification();
+  const [openNotice, setOpenNotice] = useState<Notice | null>(null);
+
+  const { data: notices = [], isLoading, error: noticesError } = useQuery(
+    queryKeys.notices.mine(),
+    () => noticeAPI.getMine().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (noticesError) {
+      const error = noticesError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load notices');
+    }
+  }, [noticesError]);
+
+  const handleOpen = async (notice: Notice) => {
+    setOpenNotice(notice);
+    if (notice.isRead) return;
+    try {
+      await noticeAPI.markAsRead(notice.id);
+      refreshNotices();
+    } catch {
+      // Read receipts are best-effort; the notice is still shown
+    }
+  };
+
+  return (
+    <>
+      <List
+        loading={isLoading}
+        dataSource={notices}
+        locale={{ emptyText: <Empty description="No announcements right now" /> }}
+        renderItem={(notice) => (
+          <Card
+            bordered={false}
+            hoverable
+            className={`notice-card${notice.isRead ? '' : ' is-unread'}`}
+            style={{ ...cardStyle, marginBottom: 12 }}
+            bodyStyle={{ padding: 'var(--card-padding)' }}
+            onClick={() => handleOpen(notice)}
+          >
+            <Space align="start" style={{ width: '100%', justifyContent: 'space-between' }}>
+              <Space direction="vertical" size={4}>
+                <Space wrap>
+                  {notice.isPinned && <PushpinFilled style={{ color: 'var(--color-primary)' }} />}
+                  <Typography.Text strong style={{ fontSize: 16 }}>{notice.title}</Typography.Text>
+                  {!notice.isRead && <Badge status="processing" text="New" />}
+                </Space>
+                <Typography.Text type="secondary">{previewText(notice.content)}</Typography.Text>
+              </Space>
+              <Typography.Text type="secondary" style={{ whiteSpace: 'nowrap' }}>
+                {formatDate(notice.publishAt)}
+              </Typography.Text>
+            </Space>
+          </Card>
+        )}
+      />
+
+      <Modal
+        title={
+          <Space>
+            {openNotice?.isPinned && <PushpinFilled style={{ color: 'var(--color-primary)' }} />}
+            {openNotice?.title}
+          </Space>
+        }
+        open={!!openNotice}
+        onCancel={() => setOpenNotice(null)}
+        footer={<Button onClick={() => setOpenNotice(null)}>Close</Button>}
+        width={720}
+      >
+        {openNotice && (
+          <>
+            <Typography.Paragraph type="secondary">
+              Posted {formatDateTime(openNotice.publishAt)}
+              {openNotice.createdBy ? ` by ${openNotice.createdBy}` : ''}
+              {openNotice.expiresAt ? ` · Until ${formatDateTime(openNotice.expiresAt)}` : ''}
+            </Typography.Paragraph>
+            <div className="notice-content" dangerouslySetInnerHTML={{ __html: sanitizeHtml(openNotice.content) }} />
+          </>
+        )}
+      </Modal>
+    </>
+  );
+}
+
+function ManageNotices() {
+  const notify = useNotification();
+  const { canEdit, canDelete } = useCan(NOTICE_BOARD_PATH);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingNotice, setEditingNotice] = useState<Notice | null>(null);
+  const [receiptsNotice, setReceiptsNotice] = useState<Notice | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm();
+
+  const { data: notices = [], isLoading, error: noticesError } = useQuery(
+    queryKeys.notices.manage(),
+    () => noticeAPI.getAll().then(res => res.data)
+  );
+
+  const { data: departmentNames = [] } = useQuery(
+    queryKeys.departments.names(),
+    () => departmentAPI.getNames().then(res => res.data)
+  );
+
+  const { data: receipts = [], isLoading: receiptsLoading } = useQuery(
+    queryKeys.notices.receipts(receiptsNotice?.id ?? 0),
+    () => noticeAPI.getReceipts(receiptsNotice!.id).then(res => res.data),
+    { enabled: !!receiptsNotice }
+  );
+
+  useEffect(() => {
+    if (noticesError) {
+      const error = noticesError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load notices');
+    }
+  }, [noticesError]);
+
+  const handleCreate = () => {
+    setEditingNotice(null);
+    form.resetFields();
+    form.setFieldsValue({ isPinned: false, targetDepartments: [], targetRoles: [] });
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (notice: Notice) => {
+    setEditingNotice(notice);
+    form.setFieldsValue({
+      title: notice.title,
+      content: notice.content,
+      targetDepartments: notice.targetDepartments,
+      targetRoles: notice.targetRoles,
+      isPinned: notice.isPinned,
+      publishAt: dayjs(notice.publishAt),
+      expiresAt: notice.expiresAt ? dayjs(notice.expiresAt) : undefined,
+    });
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setEditingNotice(null);
+    form.resetFields();
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await noticeAPI.delete(id);
+      notify.success('Notice Deleted', 'The notice has been removed from the board');
+      refreshNotices();
+    } catch (error: any) {
+      notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete notice');
+    }
+  };
+
+  const handleSubmit = async (values: any) => {
+    const publishAt: Dayjs | undefined = values.publishAt;
+    const expiresAt: Dayjs | undefined = values.expiresAt;
+    const payload = {
+      title: values.title,
+      content: sanitizeHtml(values.content),
+      targetDepartments: values.targetDepartments ?? [],
+      targetRoles: values.targetRoles ?? [],
+      isPinned: values.isPinned ?? false,
+      publishAt: publishAt?.toISOString(),
+      expiresAt: expiresAt?.toISOString(),
+    };
+    setSaving(true);
+    try {
+      if (editingNotice) {
+        await noticeAPI.update(editingNotice.id, payload);
+        notify.success('Notice Updated', `${values.title} has been updated`);
+      } else {
+        const res = await noticeAPI.create(payload);
+        notify.success(
+          res.data.status === 'Scheduled' ? 'Notice Scheduled' : 'Notice Posted',
+          res.data.status === 'Scheduled'
+            ? `${values.title} will be published ${formatDateTime(res.data.publishAt)}`
+            : `${values.title} is now on the notice board`
+        );
+      }
+      closeModal();
+      refreshNotices();
+    } catch (error: any) {
+      notify.error(
+        editingNotice ? 'Update Failed' : 'Post Failed',
+        error.response?.data?.message || `Failed to ${editingNotice ? 'update' : 'post'} notice`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const columns: ColumnsType<Notice> = [
+    {
+      title: 'Title',
+      dataIndex: 'title',
+      key: 'title',
+      render: (title: string, notice) => (
+        <Space>
+          {notice.isPinned && <PushpinFilled style={{ color: 'var(--color-primary)' }} />}
+          <span>{title}</span>
+        </Space>
+      ),
+    },
+    {
+      title: 'Audience',
+      key: 'audience',
+      render: (_, notice) => audienceTags(notice),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 110,
+      filters: Object.keys(STATUS_COLORS).map(status => ({ text: status, value: status })),
+      onFilter: (value, notice) => notice.status === value,
+      render: (status: string) => <Tag color={STATUS_COLORS[status as NoticeStatus] ?? 'default'}>{status}</Tag>,
+    },
+    {
+      title: 'Publish',
+      dataIndex: 'publishAt',
+      key: 'publishAt',
+      width: 170,
+      sorter: (a, b) => dayjs(a.publishAt).valueOf() - dayjs(b.publishAt).valueOf(),
+      render: formatDateTime,
+    },
+    {
+      title: 'Expires',
+      dataIndex: 'expiresAt',
+      key: 'expiresAt',
+      width: 170,
+      render: (date?: string) => (date ? formatDateTime(date) : '—'),
+    },
+    {
+      title: 'Read',
+      key: 'reads',
+      width: 100,
+      align: 'center',
+      render: (_, notice) => (
+        <Button type="link" size="small" onClick={() => setReceiptsNotice(notice)}>
+          {notice.readCount} / {notice.audienceCount}
+        </Button>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 110,
+      render: (_, notice) => (
+        <Space>
+          {canEdit && <Button type="text" icon={<EditOutlined />} onClick={() => handleEdit(notice)} />}
+          {canDelete && (
+            <Popconfirm
+              title="Delete this notice?"
+              description="Employees will no longer see it"
+              okText="Delete"
+              okButtonProps={{ danger: true }}
+              onConfirm={() => handleDelete(notice.id)}
+            >
+              <Button type="text" danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16 }}>
+        <Can path={NOTICE_BOARD_PATH} action="create">
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            style={{
+              background: 'var(--gradient-primary)',
+              border: 'none',
+              height: 'var(--button-height)',
+              borderRadius: 'var(--button-radius)',
+            }}
+          >
+            New Notice
+          </Button>
+        </Can>
+      </Space>
+
+      <Card bordered={false} style={cardStyle} bodyStyle={{ padding: 'var(--card-padding)' }}>
+        <Table
+          columns={columns}
+          dataSource={notices}
+          loading={isLoading}
+          rowKey="id"
+          pagination={{ pageSize: 10 }}
+          scroll={{ x: 1000 }}
+        />
+      </Card>
+
+      <Modal
+        title={editingNotice ? 'Edit Notice' : 'New Notice'}
+        open={isModalOpen}
+        onOk={() => form.submit()}
+        onCancel={closeModal}
+        okText={editingNotice ? 'Update' : 'Post'}
+        confirmLoading={saving}
+        width={760}
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item name="title" label="Title" rules={[{ required: true, message: 'Please enter a title' }, { max: 200 }]}>
+            <Input placeholder="e.g. Updated remote work policy" />
+          </Form.Item>
+          <Form.Item
+            name="content"
+            label="Message"
+            rules={[{
+              validator: (_, value?: string) =>
+                isBlankHtml(value) ? Promise.reject(new Error('Please write the announcement')) : Promise.resolve(),
+            }]}
+          >
+            <RichTextEditor placeholder="Write the announcement…" />
+          </Form.Item>
+          <Row gutter={16}>
+            <Col xs={24} md={12}>
+              <Form.Item name="targetDepartments" label="Departments" extra="Leave empty for all departments">
+                <Select
+                  mode="multiple"
+                  allowClear
+                  placeholder="All departments"
+                  options={departmentNames.map(name => ({ value: name, label: name }))}
+                />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={12}>
+              <Form.Item name="targetRoles" label="Roles" extra="Leave empty for all roles">
+                <Select
+                  mode="multiple"
+                  allowClear
+                  placeholder="All roles"
+                  options={TARGET_ROLES.map(role => ({ value: role, label: role }))}
+                />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={10}>
+              <Form.Item name="publishAt" label="Publish At" extra="Leave empty to publish now">
+                <DatePicker showTime={{ format: 'HH:mm' }} format="DD MMM YYYY HH:mm" style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={10}>
+              <Form.Item
+                name="expiresAt"
+                label="Expires At"
+                dependencies={['publishAt']}
+                rules={[{
+                  validator: (_, value?: Dayjs) => {
+                    const publishAt: Dayjs = form.getFieldValue('publishAt') ?? dayjs();
+                    return value && !value.isAfter(publishAt)
+                      ? Promise.reject(new Error('Expiry must be after the publish time'))
+                      : Promise.resolve();
+                  },
+                }]}
+              >
+                <DatePicker showTime={{ format: 'HH:mm' }} format="DD MMM YYYY HH:mm" style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={4}>
+              <Form.Item name="isPinned" label="Pinned" valuePropName="checked">
+                <Switch />
+              </Form.Item>
+            </Col>
+          </Row>
+        </Form>
+      </Modal>
+
+      <Drawer
+        title={receiptsNotice ? `Read by — ${receiptsNotice.title}` : ''}
+        open={!!receiptsNotice}
+        onClose={() => setReceiptsNotice(null)}
+        width={420}
+      >
+        {receiptsNotice && (
+          <Typography.Paragraph type="secondary">
+            {receiptsNotice.readCount} of {receiptsNotice.audienceCount} targeted employee(s) have read this notice
+          </Typography.Paragraph>
+        )}
+        <List
+          loading={receiptsLoading}
+          dataSource={receipts}
+          locale={{ emptyText: <Empty description="Nobody has read this notice yet" /> }}
+          renderItem={(receipt) => (
+            <List.Item>
+              <List.Item.Meta
+                title={receipt.readerName}
+                description={[receipt.department, formatDateTime(receipt.readAt)].filter(Boolean).join(' · ')}
+              />
+            </List.Item>
+          )}
+        />
+      </Drawer>
+    </div>
+  );
+}
+
+export default function NoticeBoard() {
+  // Managing notices is for roles that may edit the notice board
+  const { canEdit } = useCan(NOTICE_BOARD_PATH);
+
+  return (
+    <div>
+      <PageHeader title="Notice Board" subtitle="Company Announcements" />
+      {canEdit ? (
+        <Tabs
+          items={[
+            { key: 'notices', label: 'Notices', children: <NoticeFeed /> },
+            { key: 'manage', label: 'Manage', children: <ManageNotices /> },
+          ]}
+        />
+      ) : (
+        <NoticeFeed />
+      )}
+    </div>
+  );
+}
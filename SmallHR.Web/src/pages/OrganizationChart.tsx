@@ -0,0 +1,400 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { DragEvent, PointerEvent } from 'react';
+import { Avatar, Button, Card, Empty, Modal, Select, Space, Spin, Tag, Tooltip, Typography } from 'antd';
+import {
+  AimOutlined,
+  MinusOutlined,
+  NodeCollapseOutlined,
+  NodeExpandOutlined,
+  PlusOutlined,
+  ZoomInOutlined,
+  ZoomOutOutlined,
+} from '@ant-design/icons';
+import PageHeader from '../components/PageHeader';
+import { useNotification } from '../contexts/NotificationContext';
+import { useQuery } from '../hooks/useQuery';
+import { useCan } from '../hooks/useRolePermissions';
+import { departmentAPI, employeeAPI } from '../services/api';
+import { invalidateEmployeeQueries, queryKeys } from '../services/queryKeys';
+import {
+  UNASSIGNED_DEPARTMENT,
+  buildOrgTree,
+  departmentKey,
+  employeeKey,
+  findPath,
+  isInReportingChain,
+} from '../utils/orgChart';
+import type { OrgNode } from '../utils/orgChart';
+import type { Employee } from '../types/api';
+import './OrganizationChart.css';
+
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 1.6;
+const ZOOM_STEP = 1.2;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+const fullName = (employee: Employee) => `${employee.firstName} ${employee.lastName}`;
+const initials = (employee: Employee) => `${employee.firstName.charAt(0)}${employee.lastName.charAt(0)}`.toUpperCase();
+
+interface ViewState {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+interface MovePlan {
+  department: string;
+  manager?: Employee;
+}
+
+export default function OrganizationChart() {
+  const notify = useNotification();
+  // Drag-and-drop moves update employee records, so they need edit rights on the chart
+  const { canEdit: canReassign } = useCan('/organization/chart');
+
+  const [view, setView] = useState<ViewState>({ zoom: 1, x: 0, y: 0 });
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  const [pendingCenter, setPendingCenter] = useState<string | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [dropKey, setDropKey] = useState<string | null>(null);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const nodeRefs = useRef(new Map<string, HTMLDivElement>());
+  const panOrigin = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const { data: departments = [], isLoading: departmentsLoading, error: departmentsError } = useQuery(
+    queryKeys.departments.list(),
+    () => departmentAPI.getAll().then(res => res.data)
+  );
+  const { data: employees = [], isLoading: employeesLoading, error: employeesError } = useQuery(
+    queryKeys.employees.active(),
+    () => employeeAPI.getActive().then(res => res.data)
+  );
+
+  useEffect(() => {
+    const error = (departmentsError || employeesError) as any;
+    if (error) {
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load the organization chart');
+    }
+  }, [departmentsError, employeesError]);
+
+  const tree = useMemo(() => buildOrgTree(departments, employees), [departments, employees]);
+  const employeesById = useMemo(() => new Map(employees.map(e => [e.id, e])), [employees]);
+
+  // Zoom keeping the point under (px, py) in place
+  const zoomAt = (factor: number, px: number, py: number) => {
+    setView(v => {
+      const zoom = clampZoom(v.zoom * factor);
+      return { zoom, x: px - ((px - v.x) * zoom) / v.zoom, y: py - ((py - v.y) * zoom) / v.zoom };
+    });
+  };
+
+  const zoomFromCenter = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  };
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, [departmentsLoading, employeesLoading, tree.length === 0]);
+
+  // Center a node once the render that expanded its ancestors has landed
+  useEffect(() => {
+    if (!pendingCenter) return;
+    const node = nodeRefs.current.get(pendingCenter);
+    const viewport = viewportRef.current;
+    if (!node || !viewport) return;
+
+    let x = node.offsetWidth / 2;
+    let y = node.offsetHeight / 2;
+    let current: HTMLElement | null = node;
+    while (current && current !== canvasRef.current) {
+      x += current.offsetLeft;
+      y += current.offsetTop;
+      current = current.offsetParent as HTMLElement | null;
+    }
+
+    setView(v => ({ zoom: v.zoom, x: viewport.clientWidth / 2 - x * v.zoom, y: viewport.clientHeight / 2 - y * v.zoom }));
+    setPendingCenter(null);
+  }, [pendingCenter, collapsed]);
+
+  const focusOn = (key: string) => {
+    const ancestors = findPath(tree, key).slice(0, -1);
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      ancestors.forEach(k => next.delete(k));
+      return next;
+    });
+    setFocusedKey(key);
+    setPendingCenter(key);
+  };
+
+  const toggleCollapsed = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const collapseAll = () => setCollapsed(new Set(tree.map(node => node.key)));
+  const expandAll = () => setCollapsed(new Set());
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('.org-node')) return;
+    panOrigin.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setIsPanning(true);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const origin = panOrigin.current;
+    if (!origin) return;
+    setView(v => ({ ...v, x: origin.x + e.clientX - origin.pointerX, y: origin.y + e.clientY - origin.pointerY }));
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (!panOrigin.current) return;
+    panOrigin.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setIsPanning(false);
+  };
+
+  // Where dropping `employee` on `target` would put them, or null when the drop is not allowed or changes nothing
+  const planMove = (employee: Employee, target: OrgNode): MovePlan | null => {
+    if (target.type === 'employee') {
+      const manager = target.employee;
+      if (manager.id === employee.id || isInReportingChain(employees, employee.id, manager)) return null;
+      if (manager.id === employee.managerId && manager.department === employee.department) return null;
+      return { department: manager.department, manager };
+    }
+
+    if (target.department.name === UNASSIGNED_DEPARTMENT) return null;
+    const head = target.department.headOfDepartmentId ? employeesById.get(target.department.headOfDepartmentId) : undefined;
+    const manager = head && head.id !== employee.id && !isInReportingChain(employees, employee.id, head) ? head : undefined;
+    if (target.department.name === employee.department && manager?.id === employee.managerId) return null;
+    return { department: target.department.name, manager };
+  };
+
+  const confirmMove = (employee: Employee, plan: MovePlan) => {
+    const name = fullName(employee);
+    Modal.confirm({
+      title: 'Reassign Employee',
+      content: plan.manager
+        ? `Move ${name} to ${plan.department}, reporting to ${fullName(plan.manager)}?`
+        : `Move ${name} to ${plan.department} with no manager?`,
+      okText: 'Reassign',
+      cancelText: 'Cancel',
+      onOk: async () => {
+        try {
+          await employeeAPI.updateReportingLine(employee.id, {
+            department: plan.department,
+            managerId: plan.manager?.id,
+          });
+          await invalidateEmployeeQueries();
+          notify.success('Employee Reassigned', `${name} has been moved to ${plan.department}`);
+        } catch (error: any) {
+          notify.error('Reassign Failed', error.response?.data?.message || 'Failed to reassign employee');
+        }
+      },
+    });
+  };
+
+  const dropHandlers = (node: OrgNode) => {
+    if (!canReassign) return {};
+    const dragged = draggingId !== null ? employeesById.get(draggingId) : undefined;
+    const plan = dragged ? planMove(dragged, node) : null;
+    return {
+      onDragOver: (e: DragEvent<HTMLDivElement>) => {
+        if (!plan) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (dropKey !== node.key) setDropKey(node.key);
+      },
+      onDragLeave: () => {
+        if (dropKey === node.key) setDropKey(null);
+      },
+      onDrop: (e: DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setDropKey(null);
+        setDraggingId(null);
+        if (dragged && plan) confirmMove(dragged, plan);
+      },
+    };
+  };
+
+  const nodeClassName = (node: OrgNode) =>
+    [
+      'org-node',
+      node.type === 'department' ? 'is-department' : '',
+      node.type === 'employee' && canReassign ? 'is-draggable' : '',
+      node.key === focusedKey ? 'is-focused' : '',
+      node.key === dropKey ? 'is-drop-target' : '',
+      node.type === 'employee' && node.employee.id === draggingId ? 'is-dragging' : '',
+    ]
+      .filter(Boolean)
+      .join(' ');
+
+  const registerNode = (key: string) => (element: HTMLDivElement | null) => {
+    if (element) nodeRefs.current.set(key, element);
+    else nodeRefs.current.delete(key);
+  };
+
+  const renderNode = (node: OrgNode): JSX.Element => {
+    const isCollapsed = collapsed.has(node.key);
+    return (
+      <li key={node.key}>
+        <div ref={registerNode(node.key)} className={nodeClassName(node)} {...dropHandlers(node)}>
+          {node.type === 'department' ? (
+            <>
+              <Typography.Text strong>{node.department.name}</Typography.Text>
+              <div style={{ fontSize: 12, color: 'var(--color-text-secondary)', marginTop: 4 }}>
+                {node.department.headOfDepartmentName ? `Head: ${node.department.headOfDepartmentName}` : 'No head assigned'}
+              </div>
+              <Space size={[4, 4]} wrap style={{ marginTop: 8 }}>
+                <Tag color="blue">{node.headcount} {node.headcount === 1 ? 'person' : 'people'}</Tag>
+                {(node.department.positions ?? []).slice(0, 3).map(position => (
+                  <Tag key={position}>{position}</Tag>
+                ))}
+                {(node.department.positions?.length ?? 0) > 3 && <Tag>+{node.department.positions!.length - 3}</Tag>}
+              </Space>
+            </>
+          ) : (
+            <div
+              draggable={canReassign}
+              onDragStart={e => {
+                e.dataTransfer.setData('text/plain', String(node.employee.id));
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggingId(node.employee.id);
+              }}
+              onDragEnd={() => {
+                setDraggingId(null);
+                setDropKey(null);
+              }}
+              style={{ display: 'flex', alignItems: 'center', gap: 10 }}
+            >
+              <Avatar style={{ background: 'var(--color-primary)', flexShrink: 0 }}>{initials(node.employee)}</Avatar>
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 600, color: 'var(--color-text-primary)' }}>{fullName(node.employee)}</div>
+                <div style={{ fontSize: 12, color: 'var(--color-text-secondary)' }}>{node.employee.position}</div>
+                {node.manager && node.manager.department !== node.employee.department && (
+                  <div style={{ fontSize: 12, color: 'var(--color-text-secondary)' }}>
+                    Reports to {fullName(node.manager)} ({node.manager.department})
+                  </div>
+                )}
+              </div>
+              {departments.some(d => d.headOfDepartmentId === node.employee.id) && <Tag color="gold">Head</Tag>}
+            </div>
+          )}
+          {node.children.length > 0 && (
+            <Button
+              className="org-node-toggle"
+              size="small"
+              shape="round"
+              icon={isCollapsed ? <PlusOutlined /> : <MinusOutlined />}
+              onClick={() => toggleCollapsed(node.key)}
+            >
+              {isCollapsed ? node.children.length : undefined}
+            </Button>
+          )}
+        </div>
+        {node.children.length > 0 && !isCollapsed && <ul>{node.children.map(renderNode)}</ul>}
+      </li>
+    );
+  };
+
+  const searchOptions = [
+    {
+      label: 'Departments',
+      options: departments.map(d => ({ label: d.name, value: departmentKey(d.name) })),
+    },
+    {
+      label: 'People',
+      options: employees.map(e => ({ label: `${fullName(e)} · ${e.position}`, value: employeeKey(e.id) })),
+    },
+  ];
+
+  const isLoading = departmentsLoading || employeesLoading;
+
+  return (
+    <div>
+      <PageHeader title="Org Chart" subtitle="Reporting lines and department structure" />
+
+      <Card
+        bordered={false}
+        style={{ borderRadius: 'var(--card-radius)', boxShadow: 'var(--card-shadow)' }}
+        bodyStyle={{ padding: 'var(--card-padding)' }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 12, marginBottom: 16 }}>
+          <Select
+            showSearch
+            allowClear
+            placeholder="Find a person or department"
+            optionFilterProp="label"
+            options={searchOptions}
+            value={focusedKey ?? undefined}
+            onChange={(key?: string) => (key ? focusOn(key) : setFocusedKey(null))}
+            style={{ width: 320 }}
+          />
+          <Space wrap>
+            <Tooltip title="Zoom out">
+              <Button icon={<ZoomOutOutlined />} onClick={() => zoomFromCenter(1 / ZOOM_STEP)} disabled={view.zoom <= MIN_ZOOM} />
+            </Tooltip>
+            <span style={{ minWidth: 48, textAlign: 'center', display: 'inline-block' }}>{Math.round(view.zoom * 100)}%</span>
+            <Tooltip title="Zoom in">
+              <Button icon={<ZoomInOutlined />} onClick={() => zoomFromCenter(ZOOM_STEP)} disabled={view.zoom >= MAX_ZOOM} />
+            </Tooltip>
+            <Tooltip title="Reset view">
+              <Button icon={<AimOutlined />} onClick={() => setView({ zoom: 1, x: 0, y: 0 })} />
+            </Tooltip>
+            <Button icon={<NodeExpandOutlined />} onClick={expandAll}>Expand All</Button>
+            <Button icon={<NodeCollapseOutlined />} onClick={collapseAll}>Collapse All</Button>
+          </Space>
+        </div>
+
+        {canReassign && (
+          <Typography.Paragraph type="secondary" style={{ marginBottom: 12 }}>
+            Drag a person onto a manager or a department to reassign them.
+          </Typography.Paragraph>
+        )}
+
+        <Spin spinning={isLoading}>
+          {!isLoading && tree.length === 0 ? (
+            <Empty description="Add departments and employees to build the organization chart" />
+          ) : (
+            <div
+              ref={viewportRef}
+              className={`org-chart-viewport${isPanning ? ' is-panning' : ''}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <div
+                ref={canvasRef}
+                className="org-chart-canvas"
+                style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+              >
+                <ul>{tree.map(renderNode)}</ul>
+              </div>
+            </div>
+          )}
+        </Spin>
+      </Card>
+    </div>
+  );
+}
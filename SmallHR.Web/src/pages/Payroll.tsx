@@ -0,0 +1,532 @@
+import { useEffect, useState } from 'react';
+import {
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Empty,
+  Form,
+  Modal,
+  Popconfirm,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Tabs,
+  Tag,
+} from 'antd';
+import { CheckOutlined, DeleteOutlined, EyeOutlined, PlusOutlined, ReloadOutlined } from '@ant-design/icons';
+import type { ColumnsType } from 'antd/es/table';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import Can from '../components/Can';
+import PageHeader from '../components/PageHeader';
+import PayslipView from '../components/Payroll/PayslipView';
+import { useNotification } from '../contexts/NotificationContext';
+import { employeeAPI, payrollAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useCan } from '../hooks/useRolePermissions';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import { formatMoney, payRunStatusColor, periodLabel } from '../utils/payroll';
+import { formatDate } from '../utils/preferences';
+import type { PayRun, Payslip } from '../types/api';
+
+const PAYROLL_PATH = '/payroll';
+
+const refreshPayroll = () => invalidateQueries(queryKeys.payroll.all);
+
+function MyPayslips() {
+  const notify = useNotification();
+  const [viewing, setViewing] = useState<Payslip | null>(null);
+
+  const { data: me, isLoading: meLoading, error: meError } = useQuery(
+    queryKeys.employees.me(),
+    () => employeeAPI.getMe().then(res => res.data)
+  );
+
+  const { data: payslips = [], isLoading, error: payslipsError } = useQuery(
+    queryKeys.payroll.myPayslips(),
+    () => payrollAPI.getMyPayslips().then(res => res.data),
+    { enabled: !!me }
+  );
+
+  useEffect(() => {
+    if (payslipsError) {
+      const error = payslipsError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load payslips');
+    }
+  }, [payslipsError]);
+
+  if (meLoading) {
+    return <Card loading />;
+  }
+
+  if (meError || !me) {
+    return (
+      <Card>
+        <Empty description="Your account is not linked to an employee record" />
+      </Card>
+    );
+  }
+
+  const columns: ColumnsType<Payslip> = [
+    {
+      title: 'Period',
+      key: 'period',
+      render: (_: any, record: Payslip) => periodLabel(record.year, record.month),
+    },
+    {
+      title: 'Pay Date',
+      dataIndex: 'payDate',
+      key: 'payDate',
+      render: formatDate,
+    },
+    {
+      title: 'Gross',
+      dataIndex: 'grossPay',
+      key: 'grossPay',
+      align: 'right',
+      render: (value: number, record: Payslip) => formatMoney(value, record.currency),
+    },
+    {
+      title: 'Tax',
+      dataIndex: 'taxDeduction',
+      key: 'taxDeduction',
+      align: 'right',
+      render: (value: number, record: Payslip) => formatMoney(value, record.currency),
+    },
+    {
+      title: 'Net Pay',
+      dataIndex: 'netPay',
+      key: 'netPay',
+      align: 'right',
+      render: (value: number, record: Payslip) => <strong>{formatMoney(value, record.currency)}</strong>,
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 120,
+      render: (_: any, record: Payslip) => (
+        <Button type="link" icon={<EyeOutlined />} onClick={() => setViewing(record)}>
+          View
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Table
+        columns={columns}
+        dataSource={payslips}
+        loading={isLoading}
+        rowKey="id"
+        pagination={{ pageSize: 12 }}
+        locale={{ emptyText: 'No payslips yet. Payslips appear here once a pay run is finalized.' }}
+      />
+
+      <Modal
+        title="Payslip"
+        open={!!viewing}
+        onCancel={() => setViewing(null)}
+        footer={null}
+        width={640}
+      >
+        {viewing && <PayslipView payslip={viewing} />}
+      </Modal>
+    </div>
+  );
+}
+
+function PayRunDetail({ runId }: { runId: number }) {
+  const [viewing, setViewing] = useState<Payslip | null>(null);
+
+  const { data: run, isLoading } = useQuery(
+    queryKeys.payroll.run(runId),
+    () => payrollAPI.getRun(runId).then(res => res.data)
+  );
+
+  if (isLoading || !run) {
+    return <Card loading bordered={false} />;
+  }
+
+  const money = (amount: number) => formatMoney(amount, run.currency);
+
+  const columns: ColumnsType<Payslip> = [
+    {
+      title: 'Employee',
+      dataIndex: 'employeeName',
+      key: 'employeeName',
+      width: 180,
+      sorter: (a, b) => a.employeeName.localeCompare(b.employeeName),
+    },
+    {
+      title: 'Department',
+      dataIndex: 'department',
+      key: 'department',
+      width: 150,
+      filters: Array.from(new Set(run.payslips.map(p => p.department))).map(d => ({ text: d, value: d })),
+      onFilter: (value, record) => record.department === value,
+    },
+    {
+      title: 'Base',
+      dataIndex: 'baseSalary',
+      key: 'baseSalary',
+      align: 'right',
+      render: money,
+    },
+    {
+      title: 'Overtime',
+      dataIndex: 'overtimePay',
+      key: 'overtimePay',
+      align: 'right',
+      render: (value: number, record: Payslip) => (value > 0 ? `${money(value)} (${record.overtimeHours.toFixed(1)}h)` : '—'),
+    },
+    {
+      title: 'Unpaid Leave',
+      dataIndex: 'unpaidLeaveDeduction',
+      key: 'unpaidLeaveDeduction',
+      align: 'right',
+      render: (value: number, record: Payslip) => (value > 0 ? `−${money(value)} (${record.unpaidLeaveDays}d)` : '—'),
+    },
+    {
+      title: 'Gross',
+      dataIndex: 'grossPay',
+      key: 'grossPay',
+      align: 'right',
+      sorter: (a, b) => a.grossPay - b.grossPay,
+      render: money,
+    },
+    {
+      title: 'Tax',
+      dataIndex: 'taxDeduction',
+      key: 'taxDeduction',
+      align: 'right',
+      render: money,
+    },
+    {
+      title: 'Expenses',
+      dataIndex: 'reimbursements',
+      key: 'reimbursements',
+      align: 'right',
+      render: (value: number) => (value > 0 ? `+${money(value)}` : '—'),
+    },
+    {
+      title: 'Net',
+      dataIndex: 'netPay',
+      key: 'netPay',
+      align: 'right',
+      sorter: (a, b) => a.netPay - b.netPay,
+      render: (value: number) => <strong>{money(value)}</strong>,
+    },
+    {
+      title: '',
+      key: 'actions',
+      width: 80,
+      render: (_: any, record: Payslip) => (
+        <Button type="link" icon={<EyeOutlined />} onClick={() => setViewing(record)} />
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Row gutter={16} style={{ marginBottom: 16 }}>
+        <Col xs={12} md={6}>
+          <Statistic title="Employees" value={run.employeeCount} />
+        </Col>
+        <Col xs={12} md={6}>
+          <Statistic title="Gross" value={money(run.totalGross)} />
+        </Col>
+        <Col xs={12} md={6}>
+          <Statistic title="Deductions" value={money(run.totalDeductions)} />
+        </Col>
+        <Col xs={12} md={6}>
+          <Statistic title="Net" value={money(run.totalNet)} />
+        </Col>
+      </Row>
+      <Table
+        columns={columns}
+        dataSource={run.payslips}
+        rowKey="id"
+        size="small"
+        pagination={{ pageSize: 10 }}
+        scroll={{ x: 1000 }}
+      />
+
+      <Modal
+        title="Payslip"
+        open={!!viewing}
+        onCancel={() => setViewing(null)}
+        footer={null}
+        width={640}
+      >
+        {viewing && <PayslipView payslip={viewing} />}
+      </Modal>
+    </div>
+  );
+}
+
+function PayRuns() {
+  const notify = useNotification();
+  const { canEdit, canDelete } = useCan(PAYROLL_PATH);
+  const [year, setYear] = useState<number | undefined>(dayjs().year());
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedRun, setSelectedRun] = useState<PayRun | null>(null);
+  const [form] = Form.useForm();
+
+  const { data: runs = [], isLoading, error: runsError } = useQuery(
+    queryKeys.payroll.runs(year),
+    () => payrollAPI.getRuns(year).then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (runsError) {
+      const error = runsError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load pay runs');
+    }
+  }, [runsError]);
+
+  const handleCreate = () => {
+    form.resetFields();
+    // Early in the month the run being prepared is usually for the month just ended
+    form.setFieldsValue({ period: dayjs().subtract(dayjs().date() < 15 ? 1 : 0, 'month') });
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = async (values: { period: Dayjs }) => {
+    try {
+      const res = await payrollAPI.createRun({ year: values.period.year(), month: values.period.month() + 1 });
+      notify.success('Pay Run Created', `Draft pay run for ${periodLabel(res.data.year, res.data.month)} calculated for ${res.data.employeeCount} employee(s)`);
+      setIsModalOpen(false);
+      form.resetFields();
+      refreshPayroll();
+      setSelectedRun(res.data);
+    } catch (error: any) {
+      notify.error('Create Failed', error.response?.data?.message || 'Failed to create pay run');
+    }
+  };
+
+  const handleRecalculate = async (run: PayRun) => {
+    try {
+      await payrollAPI.recalculateRun(run.id);
+      notify.success('Pay Run Recalculated', `${periodLabel(run.year, run.month)} has been recalculated`);
+      refreshPayroll();
+    } catch (error: any) {
+      notify.error('Recalculate Failed', error.response?.data?.message || 'Failed to recalculate pay run');
+    }
+  };
+
+  const handleFinalize = (run: PayRun) => {
+    Modal.confirm({
+      title: 'Finalize Pay Run',
+      content: `Finalize ${periodLabel(run.year, run.month)}? Payslips become visible to employees and the run can no longer be recalculated or deleted.`,
+      okText: 'Finalize',
+      cancelText: 'Cancel',
+      onOk: async () => {
+        try {
+          await payrollAPI.finalizeRun(run.id);
+          notify.success('Pay Run Finalized', `${periodLabel(run.year, run.month)} payslips have been released`);
+          refreshPayroll();
+        } catch (error: any) {
+          notify.error('Finalize Failed', error.response?.data?.message || 'Failed to finalize pay run');
+        }
+      },
+    });
+  };
+
+  const handleDelete = async (run: PayRun) => {
+    try {
+      await payrollAPI.deleteRun(run.id);
+      notify.success('Pay Run Deleted', `Draft pay run for ${periodLabel(run.year, run.month)} has been deleted`);
+      refreshPayroll();
+    } catch (error: any) {
+      notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete pay run');
+    }
+  };
+
+  const columns: ColumnsType<PayRun> = [
+    {
+      title: 'Period',
+      key: 'period',
+      render: (_: any, record: PayRun) => periodLabel(record.year, record.month),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 110,
+      render: (status: string) => <Tag color={payRunStatusColor(status)}>{status}</Tag>,
+    },
+    {
+      title: 'Pay Date',
+      dataIndex: 'payDate',
+      key: 'payDate',
+      width: 130,
+      render: formatDate,
+    },
+    {
+      title: 'Employees',
+      dataIndex: 'employeeCount',
+      key: 'employeeCount',
+      width: 110,
+      align: 'center',
+    },
+    {
+      title: 'Gross',
+      dataIndex: 'totalGross',
+      key: 'totalGross',
+      align: 'right',
+      render: (value: number, record: PayRun) => formatMoney(value, record.currency),
+    },
+    {
+      title: 'Net',
+      dataIndex: 'totalNet',
+      key: 'totalNet',
+      align: 'right',
+      render: (value: number, record: PayRun) => formatMoney(value, record.currency),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      width: 320,
+      fixed: 'right',
+      render: (_: any, record: PayRun) => (
+        <Space>
+          <Button type="link" icon={<EyeOutlined />} onClick={() => setSelectedRun(record)}>
+            View
+          </Button>
+          {record.status !== 'Finalized' && (
+            <>
+              {canEdit && (
+                <>
+                  <Button type="link" icon={<ReloadOutlined />} onClick={() => handleRecalculate(record)}>
+                    Recalculate
+                  </Button>
+                  <Button type="link" icon={<CheckOutlined />} onClick={() => handleFinalize(record)}>
+                    Finalize
+                  </Button>
+                </>
+              )}
+              {canDelete && (
+                <Popconfirm
+                  title="Delete this draft pay run?"
+                  onConfirm={() => handleDelete(record)}
+                  okText="Yes"
+                  cancelText="No"
+                >
+                  <Button type="link" danger icon={<DeleteOutlined />} />
+                </Popconfirm>
+              )}
+            </>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  const currentYear = dayjs().year();
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16, width: '100%', justifyContent: 'space-between' }} wrap>
+        <Select
+          placeholder="Year"
+          allowClear
+          style={{ width: 140 }}
+          size="large"
+          value={year}
+          onChange={setYear}
+          options={Array.from({ length: 5 }, (_, i) => currentYear - i).map(y => ({ value: y, label: y }))}
+        />
+        <Can path={PAYROLL_PATH} action="create">
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            style={{
+              background: 'var(--gradient-primary)',
+              border: 'none',
+              height: 'var(--button-height)',
+              borderRadius: 'var(--button-radius)',
+            }}
+          >
+            New Pay Run
+          </Button>
+        </Can>
+      </Space>
+      <Table
+        columns={columns}
+        dataSource={runs}
+        loading={isLoading}
+        rowKey="id"
+        pagination={{ pageSize: 12 }}
+        scroll={{ x: 1000 }}
+        locale={{ emptyText: 'No pay runs yet' }}
+      />
+
+      <Modal
+        title="New Pay Run"
+        open={isModalOpen}
+        onOk={() => form.submit()}
+        onCancel={() => {
+          setIsModalOpen(false);
+          form.resetFields();
+        }}
+        okText="Calculate"
+        cancelText="Cancel"
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form.Item
+            name="period"
+            label="Pay Period"
+            rules={[{ required: true, message: 'Please select a month' }]}
+            extra="Pay is calculated from salaries, overtime logged in attendance and approved unpaid leave for the month"
+          >
+            <DatePicker
+              picker="month"
+              style={{ width: '100%' }}
+              disabledDate={(current) =>
+                current.isAfter(dayjs(), 'month') ||
+                runs.some(run => run.year === current.year() && run.month === current.month() + 1)
+              }
+            />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      <Modal
+        title={selectedRun ? `Pay Run · ${periodLabel(selectedRun.year, selectedRun.month)}` : ''}
+        open={!!selectedRun}
+        onCancel={() => setSelectedRun(null)}
+        footer={null}
+        width={1100}
+      >
+        {selectedRun && <PayRunDetail runId={selectedRun.id} />}
+      </Modal>
+    </div>
+  );
+}
+
+export default function Payroll() {
+  // Pay runs are for roles that may edit payroll; everyone else only sees their payslips
+  const { canEdit } = useCan(PAYROLL_PATH);
+
+  return (
+    <div>
+      <PageHeader title="Payroll" subtitle={canEdit ? 'Pay Runs & Payslips' : 'My Payslips'} />
+      {canEdit ? (
+        <Tabs
+          items={[
+            { key: 'runs', label: 'Pay Runs', children: <PayRuns /> },
+            { key: 'mine', label: 'My Payslips', children: <MyPayslips /> },
+          ]}
+        />
+      ) : (
+        <MyPayslips />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { Card, Col, Empty, Row, Select, Space, Statistic, Table, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import ReactECharts from 'echarts-for-react';
+import dayjs from 'dayjs';
+import PageHeader from '../components/PageHeader';
+import { useNotification } from '../contexts/NotificationContext';
+import { payrollAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { queryKeys } from '../services/queryKeys';
+import { formatMoney } from '../utils/payroll';
+import type { PayrollDepartmentSummary } from '../types/api';
+
+const cardStyle = {
+  borderRadius: 'var(--card-radius)',
+  boxShadow: 'var(--card-shadow)',
+};
+
+const sum = (rows: PayrollDepartmentSummary[], pick: (row: PayrollDepartmentSummary) => number) =>
+  rows.reduce((total, row) => total + pick(row), 0);
+
+export default function PayrollReports() {
+  const notify = useNotification();
+  const currentYear = dayjs().year();
+  const [year, setYear] = useState(currentYear);
+  const [month, setMonth] = useState<number | undefined>(undefined);
+
+  const { data: settings } = useQuery(
+    queryKeys.payroll.settings(),
+    () => payrollAPI.getSettings().then(res => res.data)
+  );
+
+  const { data: rows = [], isLoading, error: summaryError } = useQuery(
+    queryKeys.payroll.departmentSummary(year, month),
+    () => payrollAPI.getDepartmentSummary(year, month).then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (summaryError) {
+      const error = summaryError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load payroll report');
+    }
+  }, [summaryError]);
+
+  const currency = settings?.currency ?? 'USD';
+  const money = (amount: number) => formatMoney(amount, currency);
+
+  const columns: ColumnsType<PayrollDepartmentSummary> = [
+    {
+      title: 'Department',
+      dataIndex: 'department',
+      key: 'department',
+      sorter: (a, b) => a.department.localeCompare(b.department),
+    },
+    {
+      title: 'Employees',
+      dataIndex: 'employeeCount',
+      key: 'employeeCount',
+      align: 'center',
+    },
+    {
+      title: 'Base',
+      dataIndex: 'totalBase',
+      key: 'totalBase',
+      align: 'right',
+      render: money,
+    },
+    {
+      title: 'Overtime',
+      dataIndex: 'totalOvertime',
+      key: 'totalOvertime',
+      align: 'right',
+      render: money,
+    },
+    {
+      title: 'Unpaid Leave',
+      dataIndex: 'totalUnpaidLeave',
+      key: 'totalUnpaidLeave',
+      align: 'right',
+      render: (value: number) => (value > 0 ? `−${money(value)}` : money(0)),
+    },
+    {
+      title: 'Gross',
+      dataIndex: 'totalGross',
+      key: 'totalGross',
+      align: 'right',
+      sorter: (a, b) => a.totalGross - b.totalGross,
+      defaultSortOrder: 'descend',
+      render: money,
+    },
+    {
+      title: 'Tax',
+      dataIndex: 'totalTax',
+      key: 'totalTax',
+      align: 'right',
+      render: money,
+    },
+    {
+      title: 'Net',
+      dataIndex: 'totalNet',
+      key: 'totalNet',
+      align: 'right',
+      render: (value: number) => <strong>{money(value)}</strong>,
+    },
+  ];
+
+  const totalGross = sum(rows, r => r.totalGross);
+  const totalNet = sum(rows, r => r.totalNet);
+  const totalOvertime = sum(rows, r => r.totalOvertime);
+
+  return (
+    <div>
+      <PageHeader title="Payroll Reports" subtitle="Cost by Department" />
+
+      <Space style={{ marginBottom: 16 }} wrap>
+        <Select
+          style={{ width: 140 }}
+          size="large"
+          value={year}
+          onChange={setYear}
+          options={Array.from({ length: 5 }, (_, i) => currentYear - i).map(y => ({ value: y, label: y }))}
+        />
+        <Select
+          placeholder="Whole year"
+          allowClear
+          style={{ width: 180 }}
+          size="large"
+          value={month}
+          onChange={setMonth}
+          options={Array.from({ length: 12 }, (_, i) => ({ value: i + 1, label: dayjs().month(i).format('MMMM') }))}
+        />
+      </Space>
+
+      <Row gutter={[16, 16]} style={{ marginBottom: 16 }}>
+        <Col xs={24} md={8}>
+          <Card bordered={false} style={cardStyle} bodyStyle={{ padding: 'var(--card-padding)' }}>
+            <Statistic title="Gross Payroll" value={money(totalGross)} loading={isLoading} />
+          </Card>
+        </Col>
+        <Col xs={24} md={8}>
+          <Card bordered={false} style={cardStyle} bodyStyle={{ padding: 'var(--card-padding)' }}>
+            <Statistic title="Net Paid" value={money(totalNet)} loading={isLoading} />
+          </Card>
+        </Col>
+        <Col xs={24} md={8}>
+          <Card bordered={false} style={cardStyle} bodyStyle={{ padding: 'var(--card-padding)' }}>
+            <Statistic title="Overtime" value={money(totalOvertime)} loading={isLoading} />
+          </Card>
+        </Col>
+      </Row>
+
+      <Card bordered={false} style={{ ...cardStyle, marginBottom: 16 }} bodyStyle={{ padding: 'var(--card-padding)' }}>
+        <Typography.Title level={5} style={{ marginTop: 0 }}>Gross Pay by Department</Typography.Title>
+        {rows.length === 0 ? (
+          <Empty description="No pay runs for the selected period" />
+        ) : (
+          <ReactECharts
+            style={{ width: '100%', height: 280 }}
+            option={{
+              backgroundColor: 'transparent',
+              tooltip: { trigger: 'axis', valueFormatter: (value: number) => money(value) },
+              legend: { data: ['Base', 'Overtime'] },
+              grid: { left: 80, right: 16, top: 40, bottom: 30 },
+              xAxis: { type: 'category', data: rows.map(r => r.department), axisTick: { show: false } },
+              yAxis: { type: 'value', splitLine: { lineStyle: { type: 'dashed' } } },
+              series: [
+                { name: 'Base', type: 'bar', stack: 'gross', data: rows.map(r => r.totalBase - r.totalUnpaidLeave) },
+                { name: 'Overtime', type: 'bar', stack: 'gross', data: rows.map(r => r.totalOvertime) },
+              ],
+            }}
+          />
+        )}
+      </Card>
+
+      <Card bordered={false} style={cardStyle} bodyStyle={{ padding: 'var(--card-padding)' }}>
+        <Table
+          columns={columns}
+          dataSource={rows}
+          loading={isLoading}
+          rowKey="department"
+          pagination={false}
+          scroll={{ x: 900 }}
+          summary={() =>
+            rows.length > 0 && (
+              <Table.Summary.Row>
+                <Table.Summary.Cell index={0}><strong>Total</strong></Table.Summary.Cell>
+                <Table.Summary.Cell index={1} align="center">{sum(rows, r => r.employeeCount)}</Table.Summary.Cell>
+                <Table.Summary.Cell index={2} align="right">{money(sum(rows, r => r.totalBase))}</Table.Summary.Cell>
+                <Table.Summary.Cell index={3} align="right">{money(totalOvertime)}</Table.Summary.Cell>
+                <Table.Summary.Cell index={4} align="right">−{money(sum(rows, r => r.totalUnpaidLeave))}</Table.Summary.Cell>
+                <Table.Summary.Cell index={5} align="right">{money(totalGross)}</Table.Summary.Cell>
+                <Table.Summary.Cell index={6} align="right">{money(sum(rows, r => r.totalTax))}</Table.Summary.Cell>
+                <Table.Summary.Cell index={7} align="right"><strong>{money(totalNet)}</strong></Table.Summary.Cell>
+              </Table.Summary.Row>
+            )
+          }
+        />
+      </Card>
+    </div>
+  );
+}
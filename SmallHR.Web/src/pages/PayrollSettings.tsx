@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { Button, Card, Col, Form, InputNumber, Row, Select } from 'antd';
+import Can from '../components/Can';
+import PageHeader from '../components/PageHeader';
+import { useNotification } from '../contexts/NotificationContext';
+import { payrollAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { useCan } from '../hooks/useRolePermissions';
+import { setQueryData } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import { CURRENCIES } from '../utils/payroll';
+import type { UpdatePayrollSettingsRequest } from '../types/api';
+
+export default function PayrollSettings() {
+  const notify = useNotification();
+  const [form] = Form.useForm<UpdatePayrollSettingsRequest>();
+  const [saving, setSaving] = useState(false);
+  const { canEdit } = useCan('/payroll/settings');
+
+  const { data: settings, isLoading, error: settingsError } = useQuery(
+    queryKeys.payroll.settings(),
+    () => payrollAPI.getSettings().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (settingsError) {
+      const error = settingsError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load payroll settings');
+    }
+  }, [settingsError]);
+
+  useEffect(() => {
+    if (settings) form.setFieldsValue(settings);
+  }, [settings]);
+
+  const handleSubmit = async (values: UpdatePayrollSettingsRequest) => {
+    setSaving(true);
+    try {
+      const res = await payrollAPI.updateSettings(values);
+      setQueryData(queryKeys.payroll.settings(), res.data);
+      notify.success('Settings Saved', 'Payroll settings apply to pay runs calculated from now on');
+    } catch (error: any) {
+      notify.error('Save Failed', error.response?.data?.message || 'Failed to save payroll settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <PageHeader title="Payroll Settings" subtitle="Pay Schedule & Rates" />
+      <Card
+        bordered={false}
+        loading={isLoading}
+        style={{ borderRadius: 'var(--card-radius)', boxShadow: 'var(--card-shadow)', maxWidth: 800 }}
+        bodyStyle={{ padding: 'var(--card-padding)' }}
+      >
+        <Form form={form} layout="vertical" onFinish={handleSubmit} disabled={!canEdit}>
+          <Row gutter={16}>
+            <Col xs={24} md={12}>
+              <Form.Item
+                name="payDay"
+                label="Pay Day"
+                rules={[{ required: true, message: 'Please enter the pay day' }]}
+                extra="Day of the following month each run is paid on"
+              >
+                <InputNumber min={1} max={28} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={12}>
+              <Form.Item name="currency" label="Currency" rules={[{ required: true, message: 'Please select a currency' }]}>
+                <Select showSearch options={CURRENCIES.map(code => ({ value: code, label: code }))} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={12}>
+              <Form.Item
+                name="taxRatePercent"
+                label="Tax Withholding (%)"
+                rules={[{ required: true, message: 'Please enter the tax rate' }]}
+                extra="Flat rate applied to gross pay"
+              >
+                <InputNumber min={0} max={100} step={0.5} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={8}>
+              <Form.Item
+                name="workingDaysPerMonth"
+                label="Working Days per Month"
+                rules={[{ required: true, message: 'Please enter working days' }]}
+                extra="Daily rate for unpaid leave"
+              >
+                <InputNumber min={1} max={31} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={8}>
+              <Form.Item
+                name="standardHoursPerDay"
+                label="Standard Hours per Day"
+                rules={[{ required: true, message: 'Please enter standard hours' }]}
+              >
+                <InputNumber min={1} max={24} step={0.5} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+            <Col xs={24} md={8}>
+              <Form.Item
+                name="overtimeMultiplier"
+                label="Overtime Multiplier"
+                rules={[{ required: true, message: 'Please enter the overtime multiplier' }]}
+              >
+                <InputNumber min={1} max={5} step={0.25} style={{ width: '100%' }} />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Can path="/payroll/settings" action="edit">
+            <Button
+              type="primary"
+              htmlType="submit"
+              loading={saving}
+              style={{
+                background: 'var(--gradient-primary)',
+                border: 'none',
+                height: 'var(--button-height)',
+                borderRadius: 'var(--button-radius)',
+              }}
+            >
+              Save Settings
+            </Button>
+          </Can>
+        </Form>
+      </Card>
+    </div>
+  );
+}
@@ -3,62 +3,53 @@ import { Button, Space, Table, Tag, Popconfirm, Modal, Form, Input, Select, Swit
 import { PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
 import { useNotification } from '../contexts/NotificationContext';
 import { positionAPI, departmentAPI, tenantAPI } from '../services/api';
-import { useAuthStore } from '../store/authStore';
-import type { Position, CreatePositionRequest, UpdatePositionRequest, Department } from '../types/api';
+import { useQuery } from '../hooks/useQuery';
+import { useRoles } from '../hooks/useRoles';
+import { useCan } from '../hooks/useRolePermissions';
+import Can from '../components/Can';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import type { Position, CreatePositionRequest, UpdatePositionRequest } from '../types/api';
 
 export default function Positions() {
   const notify = useNotification();
-  const { user } = useAuthStore();
-  const isSuperAdmin = user?.roles?.[0] === 'SuperAdmin';
-  const [positions, setPositions] = useState<Position[]>([]);
-  const [departments, setDepartments] = useState<Department[]>([]);
-  const [tenants, setTenants] = useState<any[]>([]);
+  const { isSuperAdmin } = useRoles();
+  const { canEdit, canDelete } = useCan('/positions');
   const [tenantFilter, setTenantFilter] = useState<string | undefined>(undefined);
-  const [loading, setLoading] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingPosition, setEditingPosition] = useState<Position | null>(null);
   const [form] = Form.useForm();
 
-  // Fetch tenants for SuperAdmin
-  useEffect(() => {
-    if (isSuperAdmin) {
-      const fetchTenants = async () => {
-        try {
-          const response = await tenantAPI.getAll();
-          setTenants(response.data);
-        } catch (error) {
-          console.error('Failed to fetch tenants:', error);
-        }
-      };
-      fetchTenants();
-    }
-  }, [isSuperAdmin]);
+  // Tenants for the SuperAdmin filter
+  const { data: tenants = [] } = useQuery(
+    queryKeys.tenants.summaries(),
+    () => tenantAPI.getAll().then(res => res.data),
+    { enabled: isSuperAdmin }
+  );
 
-  useEffect(() => {
-    fetchPositions();
-    fetchDepartments();
-  }, [tenantFilter]);
+  const { data: positions = [], isLoading: loading, error: positionsError } = useQuery(
+    queryKeys.positions.list(tenantFilter),
+    () => positionAPI.getAll(tenantFilter).then(res => res.data)
+  );
 
-  const fetchPositions = async () => {
-    setLoading(true);
-    try {
-      const response = await positionAPI.getAll(tenantFilter);
-      setPositions(response.data);
-    } catch (error: any) {
+  const { data: departments = [] } = useQuery(
+    queryKeys.departments.list(),
+    () => departmentAPI.getAll().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (positionsError) {
+      const error = positionsError as any;
       notify.error('Failed to Load', error.response?.data?.message || 'Failed to load positions');
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [positionsError]);
 
-  const fetchDepartments = async () => {
-    try {
-      const response = await departmentAPI.getAll();
-      setDepartments(response.data);
-    } catch (error: any) {
-      console.error('Failed to fetch departments:', error);
-    }
-  };
+  // Position counts show up on departments as well
+  const refreshPositions = () =>
+    Promise.all([
+      invalidateQueries(queryKeys.positions.all),
+      invalidateQueries(queryKeys.departments.all),
+    ]);
 
   const handleCreate = () => {
     setEditingPosition(null);
@@ -81,7 +72,7 @@ export default function Positions() {
     try {
       await positionAPI.delete(id);
       notify.success('Position Deleted', 'Position has been deleted successfully');
-      fetchPositions();
+      refreshPositions();
     } catch (error: any) {
       notify.error('Delete Failed', error.response?.data?.message || 'Failed to delete position');
     }
@@ -109,7 +100,7 @@ export default function Positions() {
       }
       setIsModalOpen(false);
       form.resetFields();
-      fetchPositions();
+      refreshPositions();
     } catch (error: any) {
       notify.error(
         editingPosition ? 'Update Failed' : 'Create Failed',
@@ -163,23 +154,27 @@ export default function Positions() {
       fixed: 'right' as const,
       render: (_: any, record: Position) => (
         <Space>
-          <Button
-            type="link"
-            icon={<EditOutlined />}
-            onClick={() => handleEdit(record)}
-          >
-            Edit
-          </Button>
-          <Popconfirm
-            title="Are you sure you want to delete this position?"
-            onConfirm={() => handleDelete(record.id)}
-            okText="Yes"
-            cancelText="No"
-          >
-            <Button type="link" danger icon={<DeleteOutlined />}>
-              Delete
+          {canEdit && (
+            <Button
+              type="link"
+              icon={<EditOutlined />}
+              onClick={() => handleEdit(record)}
+            >
+              Edit
             </Button>
-          </Popconfirm>
+          )}
+          {canDelete && (
+            <Popconfirm
+              title="Are you sure you want to delete this position?"
+              onConfirm={() => handleDelete(record.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button type="link" danger icon={<DeleteOutlined />}>
+                Delete
+              </Button>
+            </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -206,19 +201,21 @@ export default function Positions() {
             />
           )}
         </Space>
-        <Button
-          type="primary"
-          icon={<PlusOutlined />}
-          onClick={handleCreate}
-          style={{
-            background: 'var(--gradient-primary)',
-            border: 'none',
-            height: 'var(--button-height)',
-            borderRadius: 'var(--button-radius)',
-          }}
-        >
-          Create Position
-        </Button>
+        <Can path="/positions" action="create">
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            style={{
+              background: 'var(--gradient-primary)',
+              border: 'none',
+              height: 'var(--button-height)',
+              borderRadius: 'var(--button-radius)',
+            }}
+          >
+            Create Position
+          </Button>
+        </Can>
       </Space>
       <Table
         columns={columns}
@@ -1,23 +1,27 @@
 import { useState, useEffect } from 'react';
-import { Switch, Button, message, Tag, Space, Popconfirm, Alert, Checkbox, Empty, Divider } from 'antd';
-import { SaveOutlined, ReloadOutlined, CheckCircleOutlined, PlusOutlined, FolderOutlined, FolderOpenOutlined } from '@ant-design/icons';
-import api from '../services/api';
+import { Switch, Button, message, Tag, Space, Popconfirm, Alert, Checkbox, Empty, Divider, Drawer, Table, Modal, Upload } from 'antd';
+import { SaveOutlined, ReloadOutlined, CheckCircleOutlined, PlusOutlined, FolderOutlined, FolderOpenOutlined, HistoryOutlined, EyeOutlined, DownloadOutlined, UploadOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import { rolePermissionsAPI, tenantRoleAPI } from '../services/api';
+import { fetchQuery, invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import { buildModuleTree, flattenModuleTree } from '../services/modules';
+import { getModule, getModuleTrail } from '../services/moduleRegistry';
+import { useQuery } from '../hooks/useQuery';
 import { useModulesStore } from '../store/modulesStore';
 import { useAuthStore } from '../store/authStore';
+import { usePermissionPreviewStore } from '../store/permissionPreviewStore';
+import { useCan } from '../hooks/useRolePermissions';
+import { useRoles } from '../hooks/useRoles';
+import Can from '../components/Can';
+import RoleManager from '../components/RolePermissions/RoleManager';
+import PermissionDiff from '../components/RolePermissions/PermissionDiff';
+import PermissionHistory from '../components/RolePermissions/PermissionHistory';
+import { BUILT_IN_ROLES, roleColor } from '../utils/roles';
+import { PERMISSION_FLAGS, diffPermissions, exportRolePermissions, parseRolePermissionExport } from '../utils/permissions';
+import type { PermissionFlag } from '../utils/permissions';
 import type { ModuleNode } from '../services/modules';
-
-interface RolePermission {
-  id: number;
-  roleName: string;
-  pagePath: string;
-  pageName: string;
-  canAccess: boolean;
-  canView: boolean;
-  canCreate: boolean;
-  canEdit: boolean;
-  canDelete: boolean;
-  description: string | null;
-}
+import type { RolePermission, BulkUpdateRolePermissionsRequest } from '../types/api';
 
 interface ModuleGroup {
   module: ModuleNode;
@@ -27,123 +31,55 @@ interface ModuleGroup {
 
 export default function RolePermissions() {
   const [permissions, setPermissions] = useState<RolePermission[]>([]);
+  const [savedPermissions, setSavedPermissions] = useState<RolePermission[]>([]); // as last loaded, for the diff
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [changedPermissions, setChangedPermissions] = useState<Set<number>>(new Set());
   const [expandedModules, setExpandedModules] = useState<string[]>([]);
   const [selectedModules, setSelectedModules] = useState<Set<string>>(new Set());
   const [selectedRoles, setSelectedRoles] = useState<string[]>([]);
+  const [matrixRole, setMatrixRole] = useState<string | null>(null);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const navigate = useNavigate();
+  const { startPreview } = usePermissionPreviewStore();
   
-  const { modules, refresh } = useModulesStore();
-
-  useEffect(() => {
-    refresh();
-  }, [refresh]);
+  const { refresh } = useModulesStore();
 
   useEffect(() => {
     fetchPermissions();
   }, []);
 
-  const { user } = useAuthStore();
-  const isSuperAdmin = user?.roles?.[0] === 'SuperAdmin';
+  const { isSuperAdmin } = useRoles();
+  const { canEdit } = useCan('/role-permissions');
   
-  // For SuperAdmin, show only Admin role. For others, show all roles
-  const roles = isSuperAdmin ? ['Admin'] : ['SuperAdmin', 'Admin', 'HR', 'Employee'];
+  const { data: tenantRoles = [], isLoading: rolesLoading } = useQuery(
+    queryKeys.tenantRoles.list(),
+    () => tenantRoleAPI.getAll().then(res => res.data),
+    { enabled: !isSuperAdmin }
+  );
 
-  // Build modules from permissions if modules are empty (for SuperAdmin)
-  const getFallbackModulesFromPermissions = (permsToUse: RolePermission[]): ModuleNode[] => {
-    if (modules.length > 0 || permsToUse.length === 0) return [];
-    
-    // Filter permissions based on role for fallback
-    const filteredPerms = isSuperAdmin 
-      ? permsToUse.filter(p => p.roleName === 'Admin')
-      : permsToUse;
-    
-    if (filteredPerms.length === 0) return [];
-    
-    // Create a map of all page paths
-    const pathMap = new Map<string, ModuleNode>();
-    
-    // First pass: create all nodes from permissions
-    filteredPerms.forEach(perm => {
-      if (!pathMap.has(perm.pagePath)) {
-        pathMap.set(perm.pagePath, {
-          name: perm.pageName,
-          path: perm.pagePath,
-        });
-      }
-    });
-    
-    // Second pass: organize parent/child relationships
-    const childNodes: ModuleNode[] = [];
-    
-    pathMap.forEach((node, path) => {
-      // Special handling for known parent/child relationships
-      if (path === '/departments' || path === '/positions') {
-        // These are children of /organization
-        if (!pathMap.has('/organization')) {
-          // Create organization parent if it doesn't exist
-          pathMap.set('/organization', {
-            name: 'Organization',
-            path: '/organization',
-          });
-        }
-        const org = pathMap.get('/organization');
-        if (org) {
-          org.children = org.children || [];
-          org.children.push(node);
-          childNodes.push(node);
-        }
-      } else if (path.startsWith('/payroll/')) {
-        // Payroll children
-        if (!pathMap.has('/payroll')) {
-          pathMap.set('/payroll', {
-            name: 'Payroll',
-            path: '/payroll',
-          });
-        }
-        const payroll = pathMap.get('/payroll');
-        if (payroll) {
-          payroll.children = payroll.children || [];
-          payroll.children.push(node);
-          childNodes.push(node);
-        }
-      }
-    });
-    
-    // Third pass: organize remaining parent/child relationships
-    const finalNodes: ModuleNode[] = [];
-    pathMap.forEach((node, path) => {
-      // Skip if already added as child
-      if (childNodes.includes(node)) return;
-      
-      // Check if it has children
-      const children = Array.from(pathMap.values()).filter(n => 
-        n.path !== path && 
-        n.path.startsWith(path + '/') &&
-        n.path.split('/').filter(p => p).length === path.split('/').filter(p => p).length + 1
-      );
-      
-      if (children.length > 0) {
-        node.children = children;
-        // Mark children as processed
-        children.forEach(c => childNodes.push(c));
-      }
-      
-      if (!childNodes.includes(node)) {
-        finalNodes.push(node);
-      }
-    });
-    
-    return finalNodes;
-  };
+  // For SuperAdmin, show only Admin role. For others, show built-in and custom roles
+  const roles = isSuperAdmin
+    ? ['Admin']
+    : tenantRoles.length > 0 ? tenantRoles.map(r => r.name) : BUILT_IN_ROLES;
+
+  // Menu modules are built from permissions, so both caches go stale together
+  const invalidatePermissionQueries = () =>
+    Promise.all([
+      invalidateQueries(queryKeys.rolePermissions.all),
+      invalidateQueries(queryKeys.modules.all),
+    ]);
 
   const fetchPermissions = async () => {
     setLoading(true);
     try {
-      const response = await api.get('/rolepermissions');
-      const fetchedPermissions = Array.isArray(response.data) ? response.data : [];
+      const data = await fetchQuery(queryKeys.rolePermissions.list(), () =>
+        rolePermissionsAPI.getAll().then(res => res.data)
+      );
+      const fetchedPermissions = Array.isArray(data) ? data : [];
       setPermissions(fetchedPermissions);
+      setSavedPermissions(fetchedPermissions);
       setChangedPermissions(new Set());
       
       // Log for debugging
@@ -153,14 +89,8 @@ export default function RolePermissions() {
         console.log(`Loaded ${fetchedPermissions.length} permissions`);
       }
       
-      // Auto-expand all modules initially (after modules are available)
-      setTimeout(() => {
-        const modulesToUseForExpansion = modules.length === 0 && fetchedPermissions.length > 0
-          ? getFallbackModulesFromPermissions(fetchedPermissions)
-          : modules;
-        const allModulePaths = getAllModulePaths(modulesToUseForExpansion);
-        setExpandedModules(allModulePaths);
-      }, 100);
+      // Auto-expand all modules initially
+      setExpandedModules(flattenModuleTree(buildModuleTree(fetchedPermissions)).map(n => n.path));
     } catch (error: any) {
       if (error.response?.status === 404 || error.response?.data?.includes('no permissions')) {
         message.info(
@@ -178,17 +108,6 @@ export default function RolePermissions() {
     }
   };
 
-  const getAllModulePaths = (moduleNodes: ModuleNode[]): string[] => {
-    const paths: string[] = [];
-    moduleNodes.forEach(node => {
-      paths.push(node.path);
-      if (node.children) {
-        paths.push(...getAllModulePaths(node.children));
-      }
-    });
-    return paths;
-  };
-
   // Filter permissions based on role - for SuperAdmin, show only Admin permissions
   const filteredPermissions = isSuperAdmin 
     ? permissions.filter(p => p.roleName === 'Admin')
@@ -208,11 +127,21 @@ export default function RolePermissions() {
     if (perm) markChanged(perm.id);
   };
 
+  const togglePermissionFlag = (id: number, flag: PermissionFlag, checked: boolean) => {
+    setPermissions(prev => prev.map(p => (p.id === id ? { ...p, [flag]: checked } : p)));
+    markChanged(id);
+  };
+
+  // Children follow the module registry, so Organization also covers Departments and Positions
+  const isInModule = (pagePath: string, modulePath: string) => {
+    if (pagePath === modulePath || pagePath.startsWith(modulePath + '/')) return true;
+    const module = getModule(pagePath);
+    return !!module && getModuleTrail(module).some(m => m.path === modulePath);
+  };
+
   const toggleBulkAccess = (modulePath: string, checked: boolean, includeChildren: boolean) => {
     const updated = permissions.map(p => {
-      const matches = includeChildren 
-        ? (p.pagePath === modulePath || p.pagePath.startsWith(modulePath + '/'))
-        : p.pagePath === modulePath;
+      const matches = includeChildren ? isInModule(p.pagePath, modulePath) : p.pagePath === modulePath;
       // Only update permissions for the allowed role (for SuperAdmin, only Admin)
       if (matches && (isSuperAdmin ? p.roleName === 'Admin' : true)) {
         return { ...p, canAccess: checked } as RolePermission;
@@ -221,9 +150,7 @@ export default function RolePermissions() {
     });
     setPermissions(updated);
     const perms = updated.filter(p => {
-      const matches = includeChildren 
-        ? (p.pagePath === modulePath || p.pagePath.startsWith(modulePath + '/'))
-        : p.pagePath === modulePath;
+      const matches = includeChildren ? isInModule(p.pagePath, modulePath) : p.pagePath === modulePath;
       return matches && (isSuperAdmin ? p.roleName === 'Admin' : true);
     });
     perms.forEach(p => markChanged(p.id));
@@ -257,7 +184,7 @@ export default function RolePermissions() {
     setSaving(true);
     try {
       const changedItems = permissions.filter(p => changedPermissions.has(p.id));
-      const updateDto = {
+      const updateDto: BulkUpdateRolePermissionsRequest = {
         permissions: changedItems.map(p => ({
           roleName: p.roleName,
           pagePath: p.pagePath,
@@ -269,10 +196,13 @@ export default function RolePermissions() {
         })),
       };
 
-      await api.put('/rolepermissions/bulk-update', updateDto);
+      await rolePermissionsAPI.bulkUpdate(updateDto);
+      await invalidatePermissionQueries();
 
       message.success('Permissions updated successfully!');
+      setSavedPermissions(permissions);
       setChangedPermissions(new Set());
+      setIsReviewOpen(false);
     } catch (error) {
       message.error('Failed to save permissions');
       console.error(error);
@@ -283,7 +213,8 @@ export default function RolePermissions() {
 
   const handleInitialize = async () => {
     try {
-      await api.post('/rolepermissions/initialize', null);
+      await rolePermissionsAPI.initialize();
+      await invalidatePermissionQueries();
       message.success('Permissions initialized successfully!');
       
       // Refresh permissions in the page
@@ -305,9 +236,11 @@ export default function RolePermissions() {
 
   const handleReset = async () => {
     try {
-      await api.delete('/rolepermissions/reset');
+      await rolePermissionsAPI.reset();
+      await invalidatePermissionQueries();
       message.success('Permissions reset successfully!');
       setPermissions([]);
+      setSavedPermissions([]);
       setChangedPermissions(new Set());
     } catch (error) {
       message.error('Failed to reset permissions');
@@ -315,9 +248,81 @@ export default function RolePermissions() {
     }
   };
 
+  const handleRestored = async () => {
+    await invalidatePermissionQueries();
+    await fetchPermissions();
+    refresh(true);
+    await useAuthStore.getState().fetchPermissions();
+  };
+
+  // Shows the app as the role would see it, including edits that are not saved yet
+  const handlePreview = (role: string) => {
+    const rolePermissions: RolePermission[] = [];
+    const seenPaths = new Set<string>();
+    permissions
+      .filter(p => p.roleName === role)
+      .forEach(p => {
+        if (seenPaths.has(p.pagePath)) return;
+        seenPaths.add(p.pagePath);
+        rolePermissions.push(p);
+      });
+
+    startPreview(role, rolePermissions);
+    const landing = rolePermissions.find(p => p.pagePath === '/dashboard' && p.canAccess)
+      ?? rolePermissions.find(p => p.canAccess);
+    navigate(landing?.pagePath ?? '/dashboard');
+  };
+
+  // Loads an exported file onto the open role; nothing is sent until the changes are saved
+  const handleImport = async (file: File) => {
+    if (!matrixRole) return false;
+    try {
+      const data = parseRolePermissionExport(await file.text());
+      const importedByPath = new Map(data.permissions.map(p => [p.pagePath, p]));
+      const importedIds: number[] = [];
+      const updated = permissions.map(p => {
+        const imported = p.roleName === matrixRole ? importedByPath.get(p.pagePath) : undefined;
+        if (!imported) return p;
+        importedIds.push(p.id);
+        return {
+          ...p,
+          canAccess: imported.canAccess,
+          canView: imported.canView,
+          canCreate: imported.canCreate,
+          canEdit: imported.canEdit,
+          canDelete: imported.canDelete,
+        };
+      });
+      setPermissions(updated);
+      setChangedPermissions(prev => new Set([...prev, ...importedIds]));
+
+      const skipped = data.permissions.length - importedIds.length;
+      message.success(
+        `Imported ${importedIds.length} page(s) from ${data.roleName}` +
+        (skipped > 0 ? `; ${skipped} page(s) not in this tenant were skipped` : '') +
+        '. Review and save to apply.'
+      );
+    } catch (error) {
+      message.error('That file is not a role permissions export');
+      console.error(error);
+    }
+    return false; // Keep Upload from posting the file anywhere
+  };
+
+  // Creating, renaming or deleting a role adds, renames or removes its permission rows
+  const handleRolesChanged = async () => {
+    await Promise.all([
+      invalidateQueries(queryKeys.tenantRoles.all),
+      invalidateQueries(queryKeys.users.all),
+      invalidatePermissionQueries(),
+    ]);
+    fetchPermissions();
+  };
+
   const handleAddMissing = async () => {
     try {
-      const response = await api.post('/rolepermissions/add-missing');
+      const response = await rolePermissionsAPI.addMissing();
+      await invalidatePermissionQueries();
       message.success(response.data.message || 'Missing permissions added successfully!');
       fetchPermissions();
     } catch (error: any) {
@@ -338,12 +343,8 @@ export default function RolePermissions() {
     });
   };
 
-  // Use fallback modules if modules are empty but permissions exist
-  const modulesToUse = modules.length === 0 && filteredPermissions.length > 0
-    ? getFallbackModulesFromPermissions(permissions)
-    : modules;
-
-  const moduleGroups = buildModuleGroups(modulesToUse);
+  // Every page in the matrix is listed, including ones the signed-in user cannot open themselves
+  const moduleGroups = buildModuleGroups(buildModuleTree(filteredPermissions));
 
   const renderPermissionSwitches = (path: string) => {
     return (
@@ -353,17 +354,13 @@ export default function RolePermissions() {
           if (!perm) return <div key={role} style={{ width: 90 }} />;
           
           // SuperAdmin can edit Admin permissions, so don't disable for SuperAdmin
-          const disabled = !isSuperAdmin && role === 'SuperAdmin';
+          const disabled = !canEdit || (!isSuperAdmin && role === 'SuperAdmin');
           const isChecked = perm.canAccess;
 
           return (
             <div key={role} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 4, minWidth: 80 }}>
               <Tag
-                color={
-                  role === 'SuperAdmin' ? 'purple' :
-                  role === 'Admin' ? 'red' :
-                  role === 'HR' ? 'orange' : 'green'
-                }
+                color={roleColor(role)}
                 style={{ fontSize: 11, fontWeight: 600, margin: 0 }}
               >
                 {role}
@@ -470,31 +467,33 @@ export default function RolePermissions() {
           {renderPermissionSwitches(module.path)}
 
           {/* Quick Actions */}
-          <div style={{ display: 'flex', gap: 4 }}>
-            <Button
-              type="text"
-              size="small"
-              onClick={(e) => {
-                e.stopPropagation();
-                toggleBulkAccess(module.path, true, true);
-              }}
-              style={{ padding: '0 4px', fontSize: 11 }}
-            >
-              Allow All
-            </Button>
-            <Button
-              type="text"
-              size="small"
-              danger
-              onClick={(e) => {
-                e.stopPropagation();
-                toggleBulkAccess(module.path, false, true);
-              }}
-              style={{ padding: '0 4px', fontSize: 11 }}
-            >
-              Deny All
-            </Button>
-          </div>
+          {canEdit && (
+            <div style={{ display: 'flex', gap: 4 }}>
+              <Button
+                type="text"
+                size="small"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleBulkAccess(module.path, true, true);
+                }}
+                style={{ padding: '0 4px', fontSize: 11 }}
+              >
+                Allow All
+              </Button>
+              <Button
+                type="text"
+                size="small"
+                danger
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleBulkAccess(module.path, false, true);
+                }}
+                style={{ padding: '0 4px', fontSize: 11 }}
+              >
+                Deny All
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Children */}
@@ -507,65 +506,136 @@ export default function RolePermissions() {
     );
   };
 
+  const matrixPermissions = matrixRole
+    ? filteredPermissions
+        .filter(p => p.roleName === matrixRole)
+        .sort((a, b) => a.pagePath.localeCompare(b.pagePath))
+    : [];
+
+  const matrixColumns = [
+    {
+      title: 'Page',
+      key: 'page',
+      render: (_: any, record: RolePermission) => (
+        <div>
+          <div style={{ fontWeight: 600 }}>{record.pageName}</div>
+          <div style={{ fontSize: 12, color: 'var(--color-text-secondary)' }}>{record.pagePath}</div>
+        </div>
+      ),
+    },
+    ...PERMISSION_FLAGS.map(({ flag, title }) => ({
+      title,
+      key: flag,
+      width: 70,
+      align: 'center' as const,
+      render: (_: any, record: RolePermission) => (
+        <Checkbox
+          checked={record[flag]}
+          disabled={!canEdit}
+          onChange={(e) => togglePermissionFlag(record.id, flag, e.target.checked)}
+        />
+      ),
+    })),
+  ];
+
+  const pendingChanges = isReviewOpen
+    ? diffPermissions(
+        savedPermissions.filter(p => changedPermissions.has(p.id)),
+        permissions.filter(p => changedPermissions.has(p.id))
+      )
+    : [];
+
   return (
     <div>
+      {!isSuperAdmin && (
+        <RoleManager
+          roles={tenantRoles}
+          loading={rolesLoading}
+          onChanged={handleRolesChanged}
+          onEditMatrix={setMatrixRole}
+          onPreview={handlePreview}
+        />
+      )}
+
       {/* Actions Bar */}
       <div style={{ marginBottom: 12 }}>
         <Space size="middle">
           {permissions.length === 0 && (
-            <Button
-              type="primary"
-              icon={<CheckCircleOutlined />}
-              onClick={handleInitialize}
-              style={{
-                borderRadius: 'var(--button-radius)',
-                background: 'var(--gradient-success)',
-                border: 'none',
-              }}
-            >
-              Initialize Permissions
-            </Button>
-          )}
-          {permissions.length > 0 && (
-            <>
+            <Can path="/role-permissions" action="create">
               <Button
-                type="default"
-                icon={<PlusOutlined />}
-                onClick={handleAddMissing}
+                type="primary"
+                icon={<CheckCircleOutlined />}
+                onClick={handleInitialize}
+                style={{
+                  borderRadius: 'var(--button-radius)',
+                  background: 'var(--gradient-success)',
+                  border: 'none',
+                }}
               >
-                Add Missing
+                Initialize Permissions
               </Button>
+            </Can>
+          )}
+          {permissions.length > 0 && (
+            <>
+              <Can path="/role-permissions" action="create">
+                <Button
+                  type="default"
+                  icon={<PlusOutlined />}
+                  onClick={handleAddMissing}
+                >
+                  Add Missing
+                </Button>
+              </Can>
               <Button
                 icon={<ReloadOutlined />}
                 onClick={fetchPermissions}
               >
                 Refresh
               </Button>
-              <Popconfirm
-                title="Reset all permissions?"
-                description="This will delete all permissions. You'll need to initialize again."
-                onConfirm={handleReset}
-                okText="Yes, Reset"
-                cancelText="Cancel"
-                okButtonProps={{ danger: true }}
-              >
-                <Button danger>Reset All</Button>
-              </Popconfirm>
-              <Button
-                type="primary"
-                icon={<SaveOutlined />}
-                onClick={handleSaveChanges}
-                loading={saving}
-                disabled={changedPermissions.size === 0}
-                style={{
-                  background: changedPermissions.size > 0 ? 'var(--gradient-primary)' : undefined,
-                  border: 'none',
-                }}
-              >
-                Save Changes ({changedPermissions.size})
-              </Button>
+              {isSuperAdmin && (
+                <Button icon={<EyeOutlined />} onClick={() => handlePreview('Admin')}>
+                  Preview as Admin
+                </Button>
+              )}
+              <Can path="/role-permissions" action="delete">
+                <Popconfirm
+                  title="Reset all permissions?"
+                  description={
+                    isSuperAdmin
+                      ? "This will delete all permissions. You'll need to initialize again."
+                      : 'This will delete all permissions. A snapshot is kept in History so it can be restored.'
+                  }
+                  onConfirm={handleReset}
+                  okText="Yes, Reset"
+                  cancelText="Cancel"
+                  okButtonProps={{ danger: true }}
+                >
+                  <Button danger>Reset All</Button>
+                </Popconfirm>
+              </Can>
+              <Can path="/role-permissions" action="edit" mode="disable">
+                <Button
+                  type="primary"
+                  icon={<SaveOutlined />}
+                  onClick={() => setIsReviewOpen(true)}
+                  loading={saving}
+                  disabled={changedPermissions.size === 0}
+                  style={{
+                    background: changedPermissions.size > 0 ? 'var(--gradient-primary)' : undefined,
+                    border: 'none',
+                  }}
+                >
+                  Save Changes ({changedPermissions.size})
+                </Button>
+              </Can>
             </>
           )}
+          {!isSuperAdmin && (
+            <Button icon={<HistoryOutlined />} onClick={() => setIsHistoryOpen(true)}>
+              History
+            </Button>
+          )}
         </Space>
       </div>
 
@@ -575,6 +645,11 @@ export default function RolePermissions() {
           message={`${changedPermissions.size} unsaved changes`}
           type="warning"
           showIcon
+          action={
+            <Button size="small" onClick={() => setIsReviewOpen(true)}>
+              Review
+            </Button>
+          }
           closable
           style={{ marginBottom: 12, borderRadius: 8 }}
         />
@@ -613,7 +688,7 @@ export default function RolePermissions() {
                 }
                 toggleSelectedAccess(true, false);
               }}
-              disabled={!isSuperAdmin && selectedRoles.length === 0}
+              disabled={!canEdit || (!isSuperAdmin && selectedRoles.length === 0)}
             >
               Grant Access
             </Button>
@@ -627,7 +702,7 @@ export default function RolePermissions() {
                 }
                 toggleSelectedAccess(false, false);
               }}
-              disabled={!isSuperAdmin && selectedRoles.length === 0}
+              disabled={!canEdit || (!isSuperAdmin && selectedRoles.length === 0)}
             >
               Revoke Access
             </Button>
@@ -687,11 +762,7 @@ export default function RolePermissions() {
               {roles.map(role => (
                 <Tag
                   key={role}
-                  color={
-                    role === 'SuperAdmin' ? 'purple' :
-                    role === 'Admin' ? 'red' :
-                    role === 'HR' ? 'orange' : 'green'
-                  }
+                  color={roleColor(role)}
                   style={{ fontSize: 11, fontWeight: 600 }}
                 >
                   {role}
@@ -715,6 +786,83 @@ export default function RolePermissions() {
         )}
       </div>
 
+      <Drawer
+        title={matrixRole ? `${matrixRole} permissions` : 'Permissions'}
+        open={!!matrixRole}
+        onClose={() => setMatrixRole(null)}
+        width={640}
+        extra={
+          <Space>
+            <Button
+              icon={<DownloadOutlined />}
+              disabled={matrixPermissions.length === 0}
+              onClick={() => matrixRole && exportRolePermissions(matrixRole, matrixPermissions)}
+            >
+              Export
+            </Button>
+            <Can path="/role-permissions" action="edit">
+              <Upload accept=".json,application/json" showUploadList={false} beforeUpload={handleImport}>
+                <Button icon={<UploadOutlined />} disabled={matrixPermissions.length === 0}>
+                  Import
+                </Button>
+              </Upload>
+            </Can>
+            <Can path="/role-permissions" action="edit">
+              <Button
+                type="primary"
+                icon={<SaveOutlined />}
+                onClick={() => setIsReviewOpen(true)}
+                loading={saving}
+                disabled={changedPermissions.size === 0}
+              >
+                Save Changes ({changedPermissions.size})
+              </Button>
+            </Can>
+          </Space>
+        }
+      >
+        {matrixPermissions.length === 0 ? (
+          <Empty
+            description="This role has no page permissions yet. Use 'Add Missing' to create them."
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+          />
+        ) : (
+          <Table
+            columns={matrixColumns}
+            dataSource={matrixPermissions}
+            rowKey="id"
+            size="small"
+            pagination={false}
+          />
+        )}
+      </Drawer>
+
+      <Modal
+        title="Review changes"
+        open={isReviewOpen}
+        onCancel={() => setIsReviewOpen(false)}
+        onOk={handleSaveChanges}
+        okText="Save Changes"
+        okButtonProps={{ disabled: !canEdit }}
+        confirmLoading={saving}
+        width={760}
+      >
+        <PermissionDiff
+          changes={pendingChanges}
+          emptyText="The edited switches are back to their saved values"
+        />
+      </Modal>
+
+      {!isSuperAdmin && (
+        <PermissionHistory
+          open={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          savedPermissions={savedPermissions}
+          hasUnsavedChanges={changedPermissions.size > 0}
+          onRestored={handleRestored}
+        />
+      )}
+
       {/* Help Section */}
       <div style={{ marginTop: 12 }}>
         <div style={{ fontSize: 13, color: 'var(--color-text-secondary)', lineHeight: 1.6 }}>
@@ -726,6 +874,9 @@ export default function RolePermissions() {
             <li>Select modules to apply bulk actions to multiple pages</li>
             <li>Use "Allow All" / "Deny All" for quick parent + children updates</li>
             <li>SuperAdmin automatically has access to everything</li>
+            <li>Create custom roles such as "Team Lead" above, then open "Permissions" to set view/create/edit/delete per page</li>
+            <li>Use "Preview" on a role to browse the app as that role would, before or after saving</li>
+            <li>Every save is versioned; open "History" to compare or roll back, and export a role to copy it to another tenant</li>
             <li>Don't forget to click "Save Changes" to apply updates</li>
           </ul>
         </div>
@@ -0,0 +1,520 @@
+import { useEffect, useState } from 'react';
+import {
+  Button,
+  Card,
+  Col,
+  DatePicker,
+  Descriptions,
+  Form,
+  Input,
+  List,
+  Popconfirm,
+  Radio,
+  Row,
+  Select,
+  Space,
+  Switch,
+  Tabs,
+  Tag,
+  Typography,
+} from 'antd';
+import {
+  DesktopOutlined,
+  LaptopOutlined,
+  LockOutlined,
+  LogoutOutlined,
+  MobileOutlined,
+  SaveOutlined,
+} from '@ant-design/icons';
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import PageHeader from '../components/PageHeader';
+import { useNotification } from '../contexts/NotificationContext';
+import { accountAPI } from '../services/api';
+import { useAuthStore } from '../store/authStore';
+import { useModulesStore } from '../store/modulesStore';
+import { useQuery } from '../hooks/useQuery';
+import { usePreferences } from '../hooks/usePreferences';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import { flattenModuleTree } from '../services/modules';
+import { presetPalettes } from '../theme';
+import { NOTIFICATION_CATEGORIES } from '../utils/notifications';
+import { DATE_FORMATS, DEFAULT_LANDING_PAGE, formatDateTime } from '../utils/preferences';
+import type { NotificationCategory, UserPreferences, UserSession } from '../types/api';
+
+const { Text } = Typography;
+
+const primaryButtonStyle = {
+  background: 'var(--gradient-primary)',
+  border: 'none',
+  height: 'var(--button-height)',
+  borderRadius: 'var(--button-radius)',
+};
+
+// Good enough to tell devices apart in the list; not a full user-agent parser
+const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return { label: 'Unknown device', icon: <DesktopOutlined /> };
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+      : /Chrome\//.test(userAgent) ? 'Chrome'
+      : /Firefox\//.test(userAgent) ? 'Firefox'
+      : /Safari\//.test(userAgent) ? 'Safari'
+      : 'Browser';
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+      : /Android/.test(userAgent) ? 'Android'
+      : /Windows/.test(userAgent) ? 'Windows'
+      : /Mac OS X/.test(userAgent) ? 'macOS'
+      : /Linux/.test(userAgent) ? 'Linux'
+      : 'Unknown OS';
+  const mobile = os === 'iOS' || os === 'Android';
+  return { label: `${browser} on ${os}`, icon: mobile ? <MobileOutlined /> : <LaptopOutlined /> };
+};
+
+function ProfileSettings() {
+  const notify = useNotification();
+  const { user, updateUser } = useAuthStore();
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm();
+
+  useEffect(() => {
+    if (user) {
+      form.setFieldsValue({
+        ...user,
+        dateOfBirth: user.dateOfBirth ? dayjs(user.dateOfBirth) : undefined,
+      });
+    }
+  }, [user?.id]);
+
+  const handleSubmit = async (values: any) => {
+    setSaving(true);
+    try {
+      const res = await accountAPI.updateProfile({
+        ...values,
+        dateOfBirth: (values.dateOfBirth as Dayjs).format('YYYY-MM-DD'),
+      });
+      updateUser(res.data);
+      notify.success('Profile Updated', 'Your profile has been saved');
+    } catch (error: any) {
+      notify.error('Update Failed', error.response?.data?.message || 'Failed to update profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <Form form={form} layout="vertical" onFinish={handleSubmit} style={{ maxWidth: 720 }}>
+        <Form.Item label="Email">
+          <Input value={user?.email} disabled />
+        </Form.Item>
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item
+              name="firstName"
+              label="First Name"
+              rules={[
+                { required: true, message: 'Please enter your first name' },
+                { max: 100, message: 'First name must be 100 characters or fewer' },
+              ]}
+            >
+              <Input />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item
+              name="lastName"
+              label="Last Name"
+              rules={[
+                { required: true, message: 'Please enter your last name' },
+                { max: 100, message: 'Last name must be 100 characters or fewer' },
+              ]}
+            >
+              <Input />
+            </Form.Item>
+          </Col>
+        </Row>
+        <Form.Item name="dateOfBirth" label="Date of Birth" rules={[{ required: true, message: 'Please select your date of birth' }]}>
+          <DatePicker style={{ width: '100%' }} disabledDate={(current) => current.isAfter(dayjs(), 'day')} />
+        </Form.Item>
+        <Form.Item name="address" label="Address" rules={[{ max: 500, message: 'Address must be 500 characters or fewer' }]}>
+          <Input />
+        </Form.Item>
+        <Row gutter={16}>
+          <Col span={8}>
+            <Form.Item name="city" label="City" rules={[{ max: 100 }]}>
+              <Input />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item name="state" label="State" rules={[{ max: 100 }]}>
+              <Input />
+            </Form.Item>
+          </Col>
+          <Col span={8}>
+            <Form.Item name="zipCode" label="Zip Code" rules={[{ max: 20 }]}>
+              <Input />
+            </Form.Item>
+          </Col>
+        </Row>
+        <Form.Item name="country" label="Country" rules={[{ max: 100 }]}>
+          <Input />
+        </Form.Item>
+        <Button type="primary" htmlType="submit" icon={<SaveOutlined />} loading={saving} style={primaryButtonStyle}>
+          Save Profile
+        </Button>
+      </Form>
+    </Card>
+  );
+}
+
+function SecuritySettings() {
+  const notify = useNotification();
+  const [changing, setChanging] = useState(false);
+  const [form] = Form.useForm();
+
+  const { data: sessions = [], isLoading, error: sessionsError } = useQuery(
+    queryKeys.account.sessions(),
+    () => accountAPI.getSessions().then(res => res.data)
+  );
+
+  useEffect(() => {
+    if (sessionsError) {
+      const error = sessionsError as any;
+      notify.error('Failed to Load', error.response?.data?.message || 'Failed to load sessions');
+    }
+  }, [sessionsError]);
+
+  const handleChangePassword = async (values: any) => {
+    setChanging(true);
+    try {
+      const res = await accountAPI.changePassword({
+        currentPassword: values.currentPassword,
+        newPassword: values.newPassword,
+      });
+      form.resetFields();
+      notify.success(
+        'Password Changed',
+        res.data.revokedSessions > 0
+          ? `${res.data.revokedSessions} other session(s) have been signed out`
+          : 'Your password has been updated'
+      );
+      invalidateQueries(queryKeys.account.all);
+    } catch (error: any) {
+      notify.error('Change Failed', error.response?.data?.message || 'Failed to change password');
+    } finally {
+      setChanging(false);
+    }
+  };
+
+  const handleRevoke = async (session: UserSession) => {
+    try {
+      await accountAPI.revokeSession(session.id);
+      notify.success('Session Signed Out', `${describeDevice(session.userAgent).label} has been signed out`);
+      invalidateQueries(queryKeys.account.all);
+    } catch (error: any) {
+      notify.error('Sign Out Failed', error.response?.data?.message || 'Failed to sign out session');
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      const res = await accountAPI.revokeOtherSessions();
+      notify.success('Sessions Signed Out', `${res.data.revokedSessions} other session(s) have been signed out`);
+      invalidateQueries(queryKeys.account.all);
+    } catch (error: any) {
+      notify.error('Sign Out Failed', error.response?.data?.message || 'Failed to sign out other sessions');
+    }
+  };
+
+  const otherSessions = sessions.filter(s => !s.isCurrent).length;
+
+  return (
+    <Row gutter={[16, 16]}>
+      <Col xs={24} lg={10}>
+        <Card title="Change Password">
+          <Form form={form} layout="vertical" onFinish={handleChangePassword}>
+            <Form.Item
+              name="currentPassword"
+              label="Current Password"
+              rules={[{ required: true, message: 'Please enter your current password' }]}
+            >
+              <Input.Password prefix={<LockOutlined />} autoComplete="current-password" />
+            </Form.Item>
+            <Form.Item
+              name="newPassword"
+              label="New Password"
+              rules={[
+                { required: true, message: 'Please enter a new password' },
+                { min: 12, message: 'Password must be at least 12 characters' },
+              ]}
+              hasFeedback
+            >
+              <Input.Password prefix={<LockOutlined />} autoComplete="new-password" />
+            </Form.Item>
+            <Form.Item
+              name="confirmPassword"
+              label="Confirm New Password"
+              dependencies={['newPassword']}
+              hasFeedback
+              rules={[
+                { required: true, message: 'Please confirm your new password' },
+                ({ getFieldValue }) => ({
+                  validator(_, value) {
+                    if (!value || getFieldValue('newPassword') === value) return Promise.resolve();
+                    return Promise.reject(new Error('Passwords do not match'));
+                  },
+                }),
+              ]}
+            >
+              <Input.Password prefix={<LockOutlined />} autoComplete="new-password" />
+            </Form.Item>
+            <Text type="secondary" style={{ display: 'block', marginBottom: 16 }}>
+              Changing your password signs out every other session.
+            </Text>
+            <Button type="primary" htmlType="submit" loading={changing} style={primaryButtonStyle}>
+              Change Password
+            </Button>
+          </Form>
+        </Card>
+      </Col>
+      <Col xs={24} lg={14}>
+        <Card
+          title="Active Sessions"
+          extra={
+            otherSessions > 0 && (
+              <Popconfirm
+                title="Sign out every other session?"
+                onConfirm={handleRevokeOthers}
+                okText="Sign Out"
+                cancelText="Cancel"
+              >
+                <Button danger icon={<LogoutOutlined />}>
+                  Sign Out Others
+                </Button>
+              </Popconfirm>
+            )
+          }
+        >
+          <List
+            loading={isLoading}
+            dataSource={sessions}
+            locale={{ emptyText: 'No active sessions' }}
+            renderItem={(session) => {
+              const device = describeDevice(session.userAgent);
+              return (
+                <List.Item
+                  actions={
+                    session.isCurrent
+                      ? [<Tag key="current" color="green">This device</Tag>]
+                      : [
+                          <Popconfirm
+                            key="revoke"
+                            title="Sign out this session?"
+                            onConfirm={() => handleRevoke(session)}
+                            okText="Sign Out"
+                            cancelText="Cancel"
+                          >
+                            <Button type="link" danger>
+                              Sign Out
+                            </Button>
+                          </Popconfirm>,
+                        ]
+                  }
+                >
+                  <List.Item.Meta
+                    avatar={device.icon}
+                    title={device.label}
+                    description={
+                      <Space direction="vertical" size={0}>
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          {session.ipAddress ?? 'Unknown IP'} · Last active {formatDateTime(session.lastActiveAt)}
+                        </Text>
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          Signed in {formatDateTime(session.createdAt)}
+                        </Text>
+                      </Space>
+                    }
+                  />
+                </List.Item>
+              );
+            }}
+          />
+        </Card>
+      </Col>
+    </Row>
+  );
+}
+
+function PreferenceSettings() {
+  const notify = useNotification();
+  const { preferences, savePreferences } = usePreferences();
+  const { modules } = useModulesStore();
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm();
+
+  useEffect(() => {
+    form.setFieldsValue({ ...preferences, landingPage: preferences.landingPage ?? DEFAULT_LANDING_PAGE });
+  }, [preferences.themeMode, preferences.palette, preferences.dateFormat, preferences.timeFormat, preferences.landingPage]);
+
+  // Only pages the user can open, so the landing page never lands on Access Denied
+  const landingPages = flattenModuleTree(modules)
+    .filter(m => m.path !== '/settings')
+    .map(m => ({ value: m.path, label: m.name }));
+
+  const handleSubmit = async (values: UserPreferences) => {
+    setSaving(true);
+    try {
+      await savePreferences({
+        ...values,
+        landingPage: values.landingPage === DEFAULT_LANDING_PAGE ? undefined : values.landingPage,
+      });
+      notify.success('Preferences Saved', 'Your preferences will follow you to any browser you sign in from');
+    } catch (error: any) {
+      notify.error('Save Failed', error.response?.data?.message || 'Failed to save preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const now = dayjs();
+
+  return (
+    <Card>
+      <Form form={form} layout="vertical" onFinish={handleSubmit} style={{ maxWidth: 720 }}>
+        <Form.Item name="themeMode" label="Theme">
+          <Radio.Group optionType="button" buttonStyle="solid">
+            <Radio.Button value="light">Light</Radio.Button>
+            <Radio.Button value="dark">Dark</Radio.Button>
+            <Radio.Button value="system">Match System</Radio.Button>
+          </Radio.Group>
+        </Form.Item>
+        <Form.Item name="palette" label="Colour Palette">
+          <Radio.Group>
+            <Space wrap>
+              {Object.entries(presetPalettes).map(([name, palette]) => (
+                <Radio key={name} value={name}>
+                  <Space size={4}>
+                    {[palette.primary, palette.secondary, palette.subtle].map(color => (
+                      <span
+                        key={color}
+                        style={{
+                          display: 'inline-block',
+                          width: 14,
+                          height: 14,
+                          borderRadius: 4,
+                          background: color,
+                          border: '1px solid var(--color-border, #e6e6e6)',
+                        }}
+                      />
+                    ))}
+                    <span style={{ textTransform: 'capitalize' }}>{name}</span>
+                  </Space>
+                </Radio>
+              ))}
+            </Space>
+          </Radio.Group>
+        </Form.Item>
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item name="dateFormat" label="Date Format">
+              <Select options={DATE_FORMATS.map(f => ({ value: f, label: `${now.format(f)} (${f})` }))} />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item name="timeFormat" label="Time Format">
+              <Radio.Group>
+                <Radio value="12h">12-hour ({now.format('h:mm A')})</Radio>
+                <Radio value="24h">24-hour ({now.format('HH:mm')})</Radio>
+              </Radio.Group>
+            </Form.Item>
+          </Col>
+        </Row>
+        <Form.Item name="landingPage" label="Landing Page" extra="Where you arrive after signing in">
+          <Select
+            showSearch
+            optionFilterProp="label"
+            options={landingPages.some(p => p.value === DEFAULT_LANDING_PAGE)
+              ? landingPages
+              : [{ value: DEFAULT_LANDING_PAGE, label: 'Dashboard' }, ...landingPages]}
+          />
+        </Form.Item>
+        <Button type="primary" htmlType="submit" icon={<SaveOutlined />} loading={saving} style={primaryButtonStyle}>
+          Save Preferences
+        </Button>
+      </Form>
+    </Card>
+  );
+}
+
+function NotificationSettings() {
+  const notify = useNotification();
+  const { preferences, savePreferences } = usePreferences();
+  const [saving, setSaving] = useState<NotificationCategory | null>(null);
+  const muted = preferences.mutedNotificationCategories ?? [];
+
+  // Each switch saves on its own; muting only stops new inbox entries, existing ones stay
+  const handleToggle = async (category: NotificationCategory, enabled: boolean) => {
+    setSaving(category);
+    try {
+      await savePreferences({
+        mutedNotificationCategories: enabled ? muted.filter(c => c !== category) : [...muted, category],
+      });
+    } catch (error: any) {
+      notify.error('Save Failed', error.response?.data?.message || 'Failed to save notification settings');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <Text type="secondary">Choose which notifications reach your inbox.</Text>
+      <List
+        style={{ maxWidth: 720, marginTop: 8 }}
+        dataSource={NOTIFICATION_CATEGORIES}
+        renderItem={category => (
+          <List.Item
+            actions={[
+              <Switch
+                key="enabled"
+                checked={!muted.includes(category.value)}
+                loading={saving === category.value}
+                disabled={saving !== null && saving !== category.value}
+                onChange={checked => handleToggle(category.value, checked)}
+              />,
+            ]}
+          >
+            <List.Item.Meta title={category.label} description={category.description} />
+          </List.Item>
+        )}
+      />
+    </Card>
+  );
+}
+
+export default function Settings() {
+  const { user } = useAuthStore();
+
+  return (
+    <div>
+      <PageHeader title="Settings" subtitle="Profile, Security & Preferences" />
+      {user && (
+        <Descriptions size="small" style={{ marginBottom: 16 }}>
+          <Descriptions.Item label="Signed in as">{user.fullName}</Descriptions.Item>
+          <Descriptions.Item label="Role">{user.roles.join(', ')}</Descriptions.Item>
+          <Descriptions.Item label="Member since">{dayjs(user.createdAt).format('MMMM YYYY')}</Descriptions.Item>
+        </Descriptions>
+      )}
+      <Tabs
+        items={[
+          { key: 'profile', label: 'Profile', children: <ProfileSettings /> },
+          { key: 'security', label: 'Password & Sessions', children: <SecuritySettings /> },
+          { key: 'preferences', label: 'Preferences', children: <PreferenceSettings /> },
+          { key: 'notifications', label: 'Notifications', children: <NotificationSettings /> },
+        ]}
+      />
+    </div>
+  );
+}
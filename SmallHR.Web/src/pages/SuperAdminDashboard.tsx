@@ -19,25 +19,18 @@ import {
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import PageHeader from '../components/PageHeader';
-import api from '../services/api';
+import { userManagementAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
 import { useNavigate } from 'react-router-dom';
 
-interface User {
-  id: string;
-  email: string;
-  firstName: string;
-  lastName: string;
-  isActive: boolean;
-  createdAt: string;
-  roles: string[];
-}
+import type { ManagedUser as User, CreateUserRequest } from '../types/api';
 
 export default function SuperAdminDashboard() {
   const navigate = useNavigate();
   const notify = useNotification();
-  const [users, setUsers] = useState<User[]>([]);
-  const [roles, setRoles] = useState<string[]>([]);
-  const [loading, setLoading] = useState(false);
+  const [creatingDemoUsers, setCreatingDemoUsers] = useState(false);
   const [isCreateModalVisible, setIsCreateModalVisible] = useState(false);
   const [isRoleModalVisible, setIsRoleModalVisible] = useState(false);
   const [isPasswordModalVisible, setIsPasswordModalVisible] = useState(false);
@@ -46,50 +39,48 @@ export default function SuperAdminDashboard() {
   const [roleForm] = Form.useForm();
   const [passwordForm] = Form.useForm();
 
-  useEffect(() => {
-    fetchUsers();
-    fetchRoles();
-  }, []);
+  const { data: users = [], isFetching: usersFetching, error: usersError } = useQuery(
+    queryKeys.users.list(),
+    () => userManagementAPI.getUsers().then(res => res.data)
+  );
+  const { data: roles = [], error: rolesError } = useQuery(
+    queryKeys.users.roles(),
+    () => userManagementAPI.getRoles().then(res => res.data)
+  );
+  const loading = usersFetching || creatingDemoUsers;
 
-  const fetchUsers = async () => {
-    setLoading(true);
-    try {
-      const response = await api.get('/usermanagement/users');
-      setUsers(response.data);
-    } catch (error: any) {
+  useEffect(() => {
+    if (usersError) {
       notify.error('Failed to Load Users', 'Unable to fetch user list. Please try again.');
-      console.error(error);
-    } finally {
-      setLoading(false);
+      console.error(usersError);
     }
-  };
+  }, [usersError]);
 
-  const fetchRoles = async () => {
-    try {
-      const response = await api.get('/usermanagement/roles');
-      setRoles(response.data);
-    } catch (error: any) {
-      console.error('Failed to fetch roles', error);
+  useEffect(() => {
+    if (rolesError) {
+      console.error('Failed to fetch roles', rolesError);
     }
-  };
+  }, [rolesError]);
+
+  const refreshUsers = () => invalidateQueries(queryKeys.users.all);
 
   const handleCreateUser = async (values: any) => {
     try {
       console.log('📝 Creating user with values:', values);
       
       // Convert dateOfBirth from dayjs to ISO string
-      const payload = {
+      const payload: CreateUserRequest = {
         ...values,
         dateOfBirth: values.dateOfBirth ? dayjs(values.dateOfBirth).toISOString() : new Date().toISOString(),
       };
       
-      const response = await api.post('/usermanagement/create-user', payload);
+      const response = await userManagementAPI.createUser(payload);
       
       console.log('✅ User created:', response.data);
       notify.success('User Created Successfully', `${values.firstName} ${values.lastName} has been added to the system.`);
       setIsCreateModalVisible(false);
       form.resetFields();
-      fetchUsers();
+      refreshUsers();
     } catch (error: any) {
       console.error('❌ Create user error:', error);
       console.error('❌ Error response:', error.response?.data);
@@ -118,15 +109,15 @@ export default function SuperAdminDashboard() {
       { email: 'employee@smallhr.com', password: 'Employee@123', role: 'Employee', firstName: 'John', lastName: 'Employee', dateOfBirth: dayjs('1995-03-10') }
     ];
 
-    setLoading(true);
+    setCreatingDemoUsers(true);
     let successCount = 0;
     let failCount = 0;
     const errors: string[] = [];
 
     try {
       // Fetch existing users once to check for duplicates
-      const existingUsersResponse = await api.get('/usermanagement/users');
-      const existingEmails = existingUsersResponse.data.map((u: User) => u.email);
+      const existingUsersResponse = await userManagementAPI.getUsers();
+      const existingEmails = existingUsersResponse.data.map(u => u.email);
 
       for (const user of demoUsers) {
         try {
@@ -141,7 +132,7 @@ export default function SuperAdminDashboard() {
             dateOfBirth: user.dateOfBirth.toISOString(),
           };
           
-          await api.post('/usermanagement/create-user', payload);
+          await userManagementAPI.createUser(payload);
           successCount++;
           message.success(`${user.email} created successfully`);
         } catch (error: any) {
@@ -165,19 +156,19 @@ export default function SuperAdminDashboard() {
       notify.error('Error', 'An error occurred while creating users.');
       console.error('Quick create error:', error);
     } finally {
-      setLoading(false);
-      fetchUsers();
+      setCreatingDemoUsers(false);
+      refreshUsers();
     }
   };
 
   const handleUpdateRole = async (values: any) => {
     if (!selectedUser) return;
     try {
-      await api.put(`/usermanagement/update-role/${selectedUser.id}`, values);
+      await userManagementAPI.updateRole(selectedUser.id, values.role);
       notify.success('Role Updated', `${selectedUser.firstName}'s role has been changed to ${values.role}`);
       setIsRoleModalVisible(false);
       roleForm.resetFields();
-      fetchUsers();
+      refreshUsers();
     } catch (error: any) {
       notify.error('Role Update Failed', 'Unable to update user role. Please try again.');
     }
@@ -186,7 +177,7 @@ export default function SuperAdminDashboard() {
   const handleResetPassword = async (values: any) => {
     if (!selectedUser) return;
     try {
-      await api.post(`/usermanagement/reset-password/${selectedUser.id}`, values);
+      await userManagementAPI.resetPassword(selectedUser.id, values.newPassword);
       notify.success('Password Reset', `Password has been reset for ${selectedUser.email}`);
       setIsPasswordModalVisible(false);
       passwordForm.resetFields();
@@ -198,10 +189,10 @@ export default function SuperAdminDashboard() {
   const handleToggleStatus = async (userId: string) => {
     const user = users.find(u => u.id === userId);
     try {
-      await api.put(`/usermanagement/toggle-status/${userId}`, null);
+      await userManagementAPI.toggleStatus(userId);
       const action = user?.isActive ? 'deactivated' : 'activated';
       notify.success('Status Updated', `User has been ${action}`);
-      fetchUsers();
+      refreshUsers();
     } catch (error: any) {
       notify.error('Status Update Failed', 'Unable to update user status. Please try again.');
     }
@@ -11,207 +11,79 @@ import {
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import PageHeader from '../components/PageHeader';
-import api from '../services/api';
+import { adminAuditAPI, tenantAdminAPI } from '../services/api';
 import { useNotification } from '../contexts/NotificationContext';
+import { useQuery } from '../hooks/useQuery';
+import { startImpersonationSession } from '../services/impersonation';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
 // Charts will be added later - using recharts if needed
 
-interface TenantDetail {
-  id: number;
-  name: string;
-  domain: string | null;
-  status: string;
-  isActive: boolean;
-  isSubscriptionActive: boolean;
-  adminEmail: string | null;
-  adminFirstName: string | null;
-  adminLastName: string | null;
-  createdAt: string;
-  updatedAt: string;
-  userCount: number;
-  employeeCount: number;
-  usageMetrics: {
-    apiRequestCount: number;
-    employeeCount: number;
-    userCount: number;
-    lastUpdated: string;
-  } | null;
-  subscription: {
-    id: number;
-    planName: string;
-    status: string;
-    price: number;
-    billingPeriod: string;
-    startDate: string;
-    endDate: string | null;
-    createdAt: string;
-  } | null;
-  subscriptions?: Array<{
-    id: number;
-    planName: string;
-    status: string;
-    price: number;
-    billingPeriod: string;
-    startDate: string;
-    endDate: string | null;
-    createdAt: string;
-  }>;
-  recentLifecycleEvents?: Array<{
-    eventType: string;
-    eventDate: string;
-    description: string | null;
-    metadata: string | null;
-  }>;
-}
-
-interface LogEntry {
-  id: number;
-  actionType: string;
-  httpMethod: string;
-  endpoint: string;
-  statusCode: number;
-  isSuccess: boolean;
-  createdAt: string;
-  adminEmail: string;
-}
+import type { AuditLog as LogEntry, TenantDetail as TenantDetailData, TenantSubscriptionHistory as SubscriptionItem } from '../types/api';
 
 export default function TenantDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const notify = useNotification();
-  const [tenant, setTenant] = useState<TenantDetail | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [logsLoading, setLogsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
 
-  useEffect(() => {
-    if (id) {
-      fetchTenantDetail();
-      if (activeTab === 'logs') {
-        fetchLogs();
-      }
-    }
-  }, [id, activeTab]);
+  const { data: tenantData, isLoading: loading, error: tenantError } = useQuery(
+    queryKeys.tenants.detail(id ?? ''),
+    () => tenantAdminAPI.getById(id!).then(res => res.data),
+    { enabled: Boolean(id) }
+  );
+  // Ensure we have valid data
+  const tenant: TenantDetailData | null = tenantData?.name ? tenantData : null;
 
-  const fetchTenantDetail = async () => {
-    setLoading(true);
-    try {
-      const response = await api.get(`/admin/tenants/${id}`);
-      console.log('Tenant detail API Response:', response);
-      console.log('Tenant detail Response Data:', response.data);
-      console.log('Response Data Keys:', response.data ? Object.keys(response.data) : 'null');
-      
-      // Handle both camelCase and PascalCase property names
-      // Strongly-typed DTO will use PascalCase, but handle both for compatibility
-      const tenantData: TenantDetail = {
-        ...response.data,
-        id: response.data.id || response.data.Id || 0,
-        name: response.data.name || response.data.Name || '',
-        domain: response.data.domain ?? response.data.Domain ?? null,
-        status: response.data.status || response.data.Status || 'Unknown',
-        isActive: response.data.isActive ?? response.data.IsActive ?? false,
-        isSubscriptionActive: response.data.isSubscriptionActive ?? response.data.IsSubscriptionActive ?? false,
-        adminEmail: response.data.adminEmail ?? response.data.AdminEmail ?? null,
-        adminFirstName: response.data.adminFirstName ?? response.data.AdminFirstName ?? null,
-        adminLastName: response.data.adminLastName ?? response.data.AdminLastName ?? null,
-        createdAt: response.data.createdAt || response.data.CreatedAt || new Date().toISOString(),
-        updatedAt: response.data.updatedAt || response.data.UpdatedAt || response.data.createdAt || response.data.CreatedAt || new Date().toISOString(),
-        userCount: response.data.userCount ?? response.data.UserCount ?? 0,
-        employeeCount: response.data.employeeCount ?? response.data.EmployeeCount ?? 0,
-        usageMetrics: response.data.usageMetrics || response.data.UsageMetrics || null,
-        subscription: response.data.subscription || response.data.Subscription || null,
-        recentLifecycleEvents: response.data.recentLifecycleEvents || response.data.RecentLifecycleEvents || [],
-        subscriptions: response.data.subscriptions || response.data.Subscriptions || [],
-      };
-      
-      console.log('Processed tenant data:', tenantData);
-      console.log('Tenant name:', tenantData.name);
-      console.log('Subscriptions count:', tenantData.subscriptions?.length || 0);
-      console.log('Lifecycle events count:', tenantData.recentLifecycleEvents?.length || 0);
-      
-      // Ensure we have valid data
-      if (!tenantData.name) {
-        console.error('Tenant data is missing name:', tenantData);
-        notify.error('Failed to Load Tenant', 'Invalid tenant data received from server');
-        return;
-      }
-      
-      setTenant(tenantData);
-    } catch (error: any) {
+  useEffect(() => {
+    if (tenantError) {
+      const error = tenantError as any;
       console.error('Error fetching tenant detail:', error);
       console.error('Error response:', error.response?.data);
       notify.error('Failed to Load Tenant', error.response?.data?.message || 'Unable to fetch tenant details.');
-    } finally {
-      setLoading(false);
+    } else if (tenantData && !tenantData.name) {
+      notify.error('Failed to Load Tenant', 'Invalid tenant data received from server');
     }
+  }, [tenantError, tenantData]);
+
+  const logParams = {
+    targetTenantId: id,
+    pageSize: 100,
+    pageNumber: 1,
   };
+  // Logs are only requested once the tab is opened
+  const { data: logPage, isLoading: logsLoading, error: logsError } = useQuery(
+    queryKeys.auditLogs.list(logParams),
+    () => adminAuditAPI.getAll(logParams).then(res => res.data),
+    { enabled: Boolean(id) && activeTab === 'logs' }
+  );
+  const logs: LogEntry[] = logPage?.auditLogs ?? [];
 
-  const fetchLogs = async () => {
-    setLogsLoading(true);
-    try {
-      const response = await api.get('/adminaudit', {
-        params: {
-          targetTenantId: id,
-          pageSize: 100,
-          pageNumber: 1,
-        },
-      });
-      setLogs(response.data.auditLogs || []);
-    } catch (error: any) {
+  useEffect(() => {
+    if (logsError) {
       notify.error('Failed to Load Logs', 'Unable to fetch audit logs.');
-      console.error(error);
-    } finally {
-      setLogsLoading(false);
+      console.error(logsError);
     }
-  };
+  }, [logsError]);
 
   const handleImpersonate = async () => {
     if (!tenant) return;
 
     try {
-      const response = await api.post(`/admin/tenants/${tenant.id}/impersonate?durationMinutes=30`);
-      
-      console.log('Impersonate response:', response);
-      console.log('Impersonate response.data:', response.data);
-      console.log('Impersonate response.data keys:', response.data ? Object.keys(response.data) : 'null');
-      
-      // Handle different response structures (result, value, or direct properties)
-      // Strongly-typed DTO will use PascalCase, but handle both for compatibility
-      const responseData = response.data.result || response.data.value || response.data;
-      console.log('Processed responseData:', responseData);
-      
-      // Handle both camelCase and PascalCase property names (DTO uses PascalCase)
-      const tenantData = responseData.tenant || responseData.Tenant || response.data.tenant || response.data.Tenant;
-      const impersonationToken = responseData.impersonationToken || responseData.ImpersonationToken || response.data.impersonationToken || response.data.ImpersonationToken;
-      const expiresAt = responseData.expiresAt || responseData.ExpiresAt || response.data.expiresAt || response.data.ExpiresAt;
-      const banner = responseData.banner || responseData.Banner || response.data.banner || response.data.Banner || responseData.message || responseData.Message;
-      
-      console.log('Extracted values:', { tenantData, impersonationToken, expiresAt, banner });
-      console.log('Tenant data structure:', tenantData);
-      console.log('Tenant data keys:', tenantData ? Object.keys(tenantData) : 'null');
+      const response = await tenantAdminAPI.impersonate(tenant.id, 30);
+      const { tenant: tenantData, impersonationToken, banner } = response.data;
       
       if (!tenantData) {
-        console.error('Tenant data not found in response. Full response:', JSON.stringify(response.data, null, 2));
         notify.error('Impersonation Failed', 'Invalid response from server - tenant data missing');
         return;
       }
       
       if (!impersonationToken) {
-        console.error('Impersonation token not found in response. Full response:', JSON.stringify(response.data, null, 2));
         notify.error('Impersonation Failed', 'Invalid response from server - impersonation token missing');
         return;
       }
       
-      // Store impersonation token
-      localStorage.setItem('impersonationToken', impersonationToken);
-      localStorage.setItem('impersonatedTenant', JSON.stringify({
-        id: tenantData.id || tenantData.Id,
-        name: tenantData.name || tenantData.Name,
-        expiresAt: expiresAt,
-      }));
-
-      // Update API client
-      api.defaults.headers.common['Authorization'] = `Bearer ${impersonationToken}`;
+      startImpersonationSession(response.data);
 
       notify.success('Impersonation Started', banner || 'Impersonation started successfully');
       
@@ -231,9 +103,9 @@ export default function TenantDetail() {
     }
 
     try {
-      await api.post(`/admin/tenants/${tenant.id}/suspend`);
+      await tenantAdminAPI.suspend(tenant.id);
       notify.success('Tenant Suspended', `${tenant.name || 'Tenant'} has been suspended.`);
-      fetchTenantDetail();
+      invalidateQueries(queryKeys.tenants.all);
     } catch (error: any) {
       notify.error('Failed to Suspend', error.response?.data?.message || 'Unable to suspend tenant.');
       console.error(error);
@@ -247,9 +119,9 @@ export default function TenantDetail() {
     }
 
     try {
-      await api.post(`/admin/tenants/${tenant.id}/resume`);
+      await tenantAdminAPI.resume(tenant.id);
       notify.success('Tenant Resumed', `${tenant.name || 'Tenant'} has been resumed.`);
-      fetchTenantDetail();
+      invalidateQueries(queryKeys.tenants.all);
     } catch (error: any) {
       notify.error('Failed to Resume', error.response?.data?.message || 'Unable to resume tenant.');
       console.error(error);
@@ -263,7 +135,7 @@ export default function TenantDetail() {
     }
 
     try {
-      const response = await api.get(`/admin/tenants/${tenant.id}/admin-setup-link`);
+      const response = await tenantAdminAPI.getAdminSetupLink(tenant.id);
       const setupLink = response.data?.setupLink;
       const adminEmail = response.data?.adminEmail;
 
@@ -352,17 +224,6 @@ export default function TenantDetail() {
     return <Tag color={config.color}>{status}</Tag>;
   };
 
-  type SubscriptionItem = {
-    id: number;
-    planName: string;
-    status: string;
-    price: number;
-    billingPeriod: string;
-    startDate: string;
-    endDate: string | null;
-    createdAt: string;
-  };
-  
   const subscriptionColumns: ColumnsType<SubscriptionItem> = [
     {
       title: 'Plan',
@@ -442,6 +303,10 @@ export default function TenantDetail() {
     },
   ];
 
+  // Subscriptions come back newest first; prefer the active one for the plan card
+  const currentSubscription: SubscriptionItem | undefined =
+    tenant?.subscriptions.find(s => s.status === 'Active') ?? tenant?.subscriptions[0];
+
   // Usage chart data (mock for now - replace with real data)
   const usageChartData = tenant?.usageMetrics ? [
     { date: '2024-01', apiRequests: tenant.usageMetrics.apiRequestCount || 0 },
@@ -549,12 +414,12 @@ export default function TenantDetail() {
             <Row gutter={16}>
               <Col span={12}>
                 <Card title="Current Plan" size="small">
-                  {tenant?.subscription ? (
+                  {currentSubscription ? (
                     <div>
-                      <p><strong>Plan:</strong> {tenant.subscription.planName}</p>
-                      <p><strong>Status:</strong> <Tag color={tenant.subscription.status === 'Active' ? 'green' : 'orange'}>{tenant.subscription.status}</Tag></p>
-                      <p><strong>Price:</strong> ${tenant.subscription.price.toFixed(2)} / {tenant.subscription.billingPeriod}</p>
-                      <p><strong>Period:</strong> {new Date(tenant.subscription.startDate).toLocaleDateString()} - {tenant.subscription.endDate ? new Date(tenant.subscription.endDate).toLocaleDateString() : 'Ongoing'}</p>
+                      <p><strong>Plan:</strong> {currentSubscription.planName}</p>
+                      <p><strong>Status:</strong> <Tag color={currentSubscription.status === 'Active' ? 'green' : 'orange'}>{currentSubscription.status}</Tag></p>
+                      <p><strong>Price:</strong> ${currentSubscription.price.toFixed(2)} / {currentSubscription.billingPeriod}</p>
+                      <p><strong>Period:</strong> {new Date(currentSubscription.startDate).toLocaleDateString()} - {currentSubscription.endDate ? new Date(currentSubscription.endDate).toLocaleDateString() : 'Ongoing'}</p>
                     </div>
                   ) : (
                     <p>No active subscription</p>
@@ -591,7 +456,7 @@ export default function TenantDetail() {
           <Tabs.TabPane tab="Subscription History" key="subscriptions">
             <Table
               columns={subscriptionColumns}
-              dataSource={(tenant?.subscriptions || []) as SubscriptionItem[]}
+              dataSource={tenant?.subscriptions || []}
               rowKey="id"
               pagination={false}
             />
@@ -599,10 +464,10 @@ export default function TenantDetail() {
 
           <Tabs.TabPane tab="Lifecycle Events" key="events">
             <Timeline>
-              {(tenant?.recentLifecycleEvents || []).map((event: any, index: number) => (
-                <Timeline.Item key={index} color={event.eventType === 'Activated' || event.EventType === 'Activated' ? 'green' : 'blue'}>
-                  <p><strong>{event.eventType || event.EventType}</strong> - {new Date(event.eventDate || event.EventDate).toLocaleString()}</p>
-                  {(event.description || event.Description) && <p>{event.description || event.Description}</p>}
+              {(tenant?.recentLifecycleEvents || []).map((event, index) => (
+                <Timeline.Item key={index} color={event.eventType === 'Activated' ? 'green' : 'blue'}>
+                  <p><strong>{event.eventType}</strong> - {new Date(event.eventDate).toLocaleString()}</p>
+                  {event.description && <p>{event.description}</p>}
                 </Timeline.Item>
               ))}
             </Timeline>
@@ -7,31 +7,30 @@ import {
   Input,
   Switch,
   Space,
-  Popconfirm,
   Card,
   Tag,
   Typography,
   Select,
   Divider,
 } from 'antd';
-import { PlusOutlined, EditOutlined, DeleteOutlined, SettingOutlined } from '@ant-design/icons';
-import api from '../services/api';
+import { PlusOutlined, EditOutlined, SettingOutlined } from '@ant-design/icons';
+import { subscriptionAPI, tenantAPI } from '../services/api';
+import type { TenantSummary as Tenant } from '../types/api';
 import { useNotification } from '../contexts/NotificationContext';
+import { useCan } from '../hooks/useRolePermissions';
+import { useQuery } from '../hooks/useQuery';
+import { queryKeys } from '../services/queryKeys';
+import Can from '../components/Can';
 
 const { Title } = Typography;
 
-interface Tenant {
-  id: number;
+interface TenantFormValues {
   name: string;
-  domain: string | null;
-  isActive: boolean;
+  domain?: string | null;
+  adminEmail?: string;
   subscriptionPlan: string;
-  maxEmployees: number;
-  subscriptionStartDate?: string | null;
-  subscriptionEndDate?: string | null;
-  isSubscriptionActive: boolean;
-  createdAt: string;
-  updatedAt?: string | null;
+  maxEmployees: number | string;
+  isActive?: boolean;
 }
 
 const TenantSettings: React.FC = () => {
@@ -41,13 +40,13 @@ const TenantSettings: React.FC = () => {
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [editingTenant, setEditingTenant] = useState<Tenant | null>(null);
   const [form] = Form.useForm();
+  const { canEdit } = useCan('/tenant-settings');
 
-  const subscriptionPlans = [
-    { label: 'Free', value: 'Free', maxEmployees: 10 },
-    { label: 'Basic', value: 'Basic', maxEmployees: 50 },
-    { label: 'Pro', value: 'Pro', maxEmployees: 200 },
-    { label: 'Enterprise', value: 'Enterprise', maxEmployees: 1000 },
-  ];
+  // Tenants store the plan by name; the catalogue comes from the server so limits stay in step with it
+  const { data: subscriptionPlans = [], isLoading: plansLoading } = useQuery(
+    queryKeys.subscriptions.plans(),
+    () => subscriptionAPI.getPlans().then(res => res.data)
+  );
 
   useEffect(() => {
     fetchTenants();
@@ -56,7 +55,7 @@ const TenantSettings: React.FC = () => {
   const fetchTenants = async () => {
     setLoading(true);
     try {
-      const response = await api.get('/tenants');
+      const response = await tenantAPI.getAll();
       setTenants(response.data);
     } catch (error: any) {
       console.error('Failed to fetch tenants:', error);
@@ -78,24 +77,32 @@ const TenantSettings: React.FC = () => {
     setIsModalVisible(true);
   };
 
-  const handleDelete = async (id: number) => {
-    try {
-      await api.delete(`/tenants/${id}`);
-      notify.success('Tenant Deleted', 'Tenant has been successfully deleted.');
-      fetchTenants();
-    } catch (error: any) {
-      console.error('Failed to delete tenant:', error);
-      notify.error('Delete Failed', 'Unable to delete tenant. Please try again.');
-    }
-  };
-
-  const handleSubmit = async (values: any) => {
+  const handleSubmit = async (values: TenantFormValues) => {
+    const maxEmployees = Number(values.maxEmployees);
     try {
       if (editingTenant) {
-        await api.put(`/tenants/${editingTenant.id}`, values);
+        await tenantAPI.update(editingTenant.id, {
+          name: values.name,
+          domain: values.domain,
+          isActive: values.isActive ?? editingTenant.isActive,
+        });
+        // The tenant update ignores plan fields; they go through the subscription endpoint
+        if (values.subscriptionPlan !== editingTenant.subscriptionPlan || maxEmployees !== editingTenant.maxEmployees) {
+          await tenantAPI.updateSubscription(editingTenant.id, {
+            subscriptionPlan: values.subscriptionPlan,
+            maxEmployees,
+          });
+        }
         notify.success('Tenant Updated', 'Tenant has been successfully updated.');
       } else {
-        await api.post('/tenants', values);
+        await tenantAPI.create({
+          name: values.name,
+          domain: values.domain,
+          adminEmail: values.adminEmail ?? '',
+          isActive: values.isActive ?? true,
+          subscriptionPlan: values.subscriptionPlan,
+          maxEmployees,
+        });
         notify.success('Tenant Created', 'Tenant has been successfully created.');
       }
       setIsModalVisible(false);
@@ -111,8 +118,9 @@ const TenantSettings: React.FC = () => {
 
   const handleToggleActive = async (tenant: Tenant) => {
     try {
-      await api.put(`/tenants/${tenant.id}`, {
-        ...tenant,
+      await tenantAPI.update(tenant.id, {
+        name: tenant.name,
+        domain: tenant.domain,
         isActive: !tenant.isActive,
       });
       notify.success('Status Updated', 'Tenant status has been updated.');
@@ -124,7 +132,7 @@ const TenantSettings: React.FC = () => {
   };
 
   const handlePlanChange = (plan: string) => {
-    const selectedPlan = subscriptionPlans.find(p => p.value === plan);
+    const selectedPlan = subscriptionPlans.find(p => p.name === plan);
     if (selectedPlan) {
       form.setFieldsValue({ maxEmployees: selectedPlan.maxEmployees });
     }
@@ -187,23 +195,15 @@ const TenantSettings: React.FC = () => {
       key: 'actions',
       render: (_: any, record: Tenant) => (
         <Space>
-          <Button
-            type="link"
-            icon={<EditOutlined />}
-            onClick={() => handleEdit(record)}
-          >
-            Edit
-          </Button>
-          <Popconfirm
-            title="Are you sure you want to delete this tenant?"
-            onConfirm={() => handleDelete(record.id)}
-            okText="Yes"
-            cancelText="No"
-          >
-            <Button type="link" danger icon={<DeleteOutlined />}>
-              Delete
+          {canEdit && (
+            <Button
+              type="link"
+              icon={<EditOutlined />}
+              onClick={() => handleEdit(record)}
+            >
+              Edit
             </Button>
-          </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -217,9 +217,11 @@ const TenantSettings: React.FC = () => {
             <SettingOutlined style={{ marginRight: 8 }} />
             Tenant Management
           </Title>
-          <Button type="primary" icon={<PlusOutlined />} onClick={handleCreate}>
-            Create Tenant
-          </Button>
+          <Can path="/tenant-settings" action="create">
+            <Button type="primary" icon={<PlusOutlined />} onClick={handleCreate}>
+              Create Tenant
+            </Button>
+          </Can>
         </div>
 
         <Table
@@ -254,6 +256,19 @@ const TenantSettings: React.FC = () => {
               <Input placeholder="e.g., example.com" />
             </Form.Item>
 
+            {!editingTenant && (
+              <Form.Item
+                name="adminEmail"
+                label="Admin Email"
+                rules={[
+                  { required: true, message: 'Please enter the admin email' },
+                  { type: 'email', message: 'Please enter a valid email' },
+                ]}
+              >
+                <Input placeholder="admin@example.com" />
+              </Form.Item>
+            )}
+
             <Divider>Subscription Plan</Divider>
 
             <Form.Item
@@ -264,7 +279,8 @@ const TenantSettings: React.FC = () => {
               <Select
                 placeholder="Select subscription plan"
                 onChange={handlePlanChange}
-                options={subscriptionPlans.map(p => ({ label: p.label, value: p.value }))}
+                loading={plansLoading}
+                options={subscriptionPlans.map(p => ({ label: p.name, value: p.name }))}
               />
             </Form.Item>
 
@@ -283,14 +299,6 @@ const TenantSettings: React.FC = () => {
             >
               <Switch />
             </Form.Item>
-
-            <Form.Item
-              name="isSubscriptionActive"
-              label="Subscription Active"
-              valuePropName="checked"
-            >
-              <Switch />
-            </Form.Item>
           </Form>
         </Modal>
       </Card>
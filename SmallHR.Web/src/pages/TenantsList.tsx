@@ -8,37 +8,28 @@ import {
 } from '@ant-design/icons';
 import type { ColumnsType } from 'antd/es/table';
 import { useNavigate } from 'react-router-dom';
-import api from '../services/api';
+import { tenantAPI, tenantAdminAPI } from '../services/api';
 import { useNotification } from '../contexts/NotificationContext';
 import ImpersonationBanner from '../components/ImpersonationBanner';
-
-interface Tenant {
-  id: number;
-  name: string;
-  domain: string | null;
-  status: string;
-  isActive: boolean;
-  isSubscriptionActive: boolean;
-  adminEmail: string | null;
-  subscription: {
-    planName: string;
-    status: string;
-    currentPeriodEnd: string | null;
-    price: number;
-    billingPeriod: string;
-  } | null;
-  userCount: number;
-  employeeCount: number;
-  createdAt: string;
-  updatedAt: string;
-}
+import { useLiveEvent } from '../hooks/useLiveEvent';
+import { useQuery } from '../hooks/useQuery';
+import { getImpersonatedTenant, startImpersonationSession } from '../services/impersonation';
+import { invalidateQueries } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+
+import type { TenantListItem as Tenant, TenantListParams, TenantPlanOption } from '../types/api';
+
+// Used when the plans endpoint is unavailable
+const DEFAULT_PLANS: TenantPlanOption[] = [
+  { name: 'Free', maxEmployees: 10, price: 0 },
+  { name: 'Basic', maxEmployees: 50, price: 99 },
+  { name: 'Pro', maxEmployees: 200, price: 299 },
+  { name: 'Enterprise', maxEmployees: 1000, price: 999 },
+];
 
 export default function TenantsList() {
   const navigate = useNavigate();
   const notify = useNotification();
-  const [tenants, setTenants] = useState<Tenant[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [totalCount, setTotalCount] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(20);
   const [search, setSearch] = useState('');
@@ -57,28 +48,50 @@ export default function TenantsList() {
   const [createTenantModalVisible, setCreateTenantModalVisible] = useState(false);
   const [createTenantForm] = Form.useForm();
   const [creatingTenant, setCreatingTenant] = useState(false);
-  const [subscriptionPlans, setSubscriptionPlans] = useState<Array<{ name: string; maxEmployees: number; price: number }>>([]);
+
+  const params: TenantListParams = {
+    pageNumber: currentPage,
+    pageSize: pageSize,
+    sortBy: sortBy,
+    sortOrder: sortOrder,
+  };
+  if (search) params.search = search;
+  if (statusFilter) params.status = statusFilter;
+  if (subscriptionStatusFilter) params.subscriptionStatus = subscriptionStatusFilter;
+
+  const { data: tenantPage, isFetching: loading, error: tenantsError, refetch } = useQuery(
+    queryKeys.tenants.adminList(params),
+    () => tenantAdminAPI.getAll(params).then(res => res.data)
+  );
+  const tenants: Tenant[] = tenantPage?.tenants ?? [];
+  const totalCount = tenantPage?.totalCount ?? 0;
+
+  const { data: fetchedPlans, error: plansError } = useQuery(
+    queryKeys.tenants.plans(),
+    () => tenantAPI.getSubscriptionPlans().then(res => res.data),
+    { staleTime: 10 * 60_000 }
+  );
+  const subscriptionPlans: TenantPlanOption[] = plansError ? DEFAULT_PLANS : fetchedPlans ?? [];
 
   useEffect(() => {
-    fetchTenants();
     checkImpersonationStatus();
-    fetchSubscriptionPlans();
-  }, [currentPage, pageSize, search, statusFilter, subscriptionStatusFilter, sortBy, sortOrder]);
+  }, []);
 
-  const fetchSubscriptionPlans = async () => {
-    try {
-      const response = await api.get('/tenants/subscription-plans');
-      setSubscriptionPlans(response.data || []);
-    } catch (error) {
-      console.error('Failed to fetch subscription plans:', error);
-      // Set default plans if API fails
-      setSubscriptionPlans([
-        { name: 'Free', maxEmployees: 10, price: 0 },
-        { name: 'Basic', maxEmployees: 50, price: 99 },
-        { name: 'Pro', maxEmployees: 200, price: 299 },
-        { name: 'Enterprise', maxEmployees: 1000, price: 999 },
-      ]);
+  useEffect(() => {
+    if (tenantsError) {
+      const error = tenantsError as any;
+      notify.error('Failed to Load Tenants', error.response?.data?.message || 'Unable to fetch tenant list.');
+    }
+  }, [tenantsError]);
+
+  useEffect(() => {
+    if (plansError) {
+      console.error('Failed to fetch subscription plans:', plansError);
     }
+  }, [plansError]);
+
+  const fetchTenants = () => {
+    refetch().catch(() => undefined);
   };
 
   const handleCreateTenant = () => {
@@ -106,7 +119,7 @@ export default function TenantsList() {
         isActive: true,
       };
 
-      const response = await api.post('/tenants', request);
+      const response = await tenantAPI.create(request);
       const tenantId = response.data?.id;
       
       notify.success('Tenant Created', `Tenant "${values.name}" has been created and provisioning has started.`);
@@ -116,7 +129,7 @@ export default function TenantsList() {
         for (let i = 0; i < retries; i++) {
           try {
             if (tenantId) {
-              const setupLinkResponse = await api.get(`/admin/tenants/${tenantId}/admin-setup-link`);
+              const setupLinkResponse = await tenantAdminAPI.getAdminSetupLink(tenantId);
               const setupLink = setupLinkResponse.data?.setupLink;
               const adminEmail = setupLinkResponse.data?.adminEmail;
               
@@ -182,7 +195,7 @@ export default function TenantsList() {
       createTenantForm.resetFields();
       
       // Refresh tenant list
-      fetchTenants();
+      invalidateQueries(queryKeys.tenants.all);
       
       // Navigate to tenant detail if ID is returned
       if (tenantId) {
@@ -203,55 +216,15 @@ export default function TenantsList() {
   };
 
   const checkImpersonationStatus = () => {
-    const impersonationToken = localStorage.getItem('impersonationToken');
-    const impersonatedTenantData = localStorage.getItem('impersonatedTenant');
-    
-    if (impersonationToken && impersonatedTenantData) {
-      try {
-        const tenant = JSON.parse(impersonatedTenantData);
-        const expiresAt = new Date(tenant.expiresAt || new Date().getTime() + 30 * 60 * 1000).toISOString();
-        setIsImpersonating(true);
-        setImpersonatedTenant({
-          id: tenant.id,
-          name: tenant.name,
-          expiresAt: expiresAt,
-        });
-      } catch (e) {
-        console.error('Error parsing impersonation data:', e);
-      }
-    }
-  };
-
-  const fetchTenants = async () => {
-    setLoading(true);
-    try {
-      const params: any = {
-        pageNumber: currentPage,
-        pageSize: pageSize,
-        sortBy: sortBy,
-        sortOrder: sortOrder,
-      };
-
-      if (search) params.search = search;
-      if (statusFilter) params.status = statusFilter;
-      if (subscriptionStatusFilter) params.subscriptionStatus = subscriptionStatusFilter;
-
-      const response = await api.get('/admin/tenants', { params });
-      // Handle response - support camelCase and PascalCase
-      const tenantsData = response.data?.tenants || response.data?.Tenants || (Array.isArray(response.data) ? response.data : []);
-      const totalCountData = response.data?.totalCount || response.data?.TotalCount || tenantsData.length;
-
-      if (Array.isArray(tenantsData)) {
-        setTenants(tenantsData);
-        setTotalCount(totalCountData);
-      } else {
-        setTenants([]);
-        setTotalCount(0);
-      }
-    } catch (error: any) {
-      notify.error('Failed to Load Tenants', error.response?.data?.message || 'Unable to fetch tenant list.');
-    } finally {
-      setLoading(false);
+    const tenant = getImpersonatedTenant();
+    if (tenant) {
+      const expiresAt = new Date(tenant.expiresAt || new Date().getTime() + 30 * 60 * 1000).toISOString();
+      setIsImpersonating(true);
+      setImpersonatedTenant({
+        id: tenant.id,
+        name: tenant.name,
+        expiresAt: expiresAt,
+      });
     }
   };
 
@@ -264,15 +237,8 @@ export default function TenantsList() {
     if (!selectedTenant) return;
 
     try {
-      const response = await api.post(`/admin/tenants/${selectedTenant.id}/impersonate?durationMinutes=30`);
-      
-      console.log('Impersonate response:', response.data);
-      
-      // Handle both camelCase and PascalCase property names
-      const tenantData = response.data.tenant || response.data.Tenant;
-      const impersonationToken = response.data.impersonationToken || response.data.ImpersonationToken;
-      const expiresAt = response.data.expiresAt || response.data.ExpiresAt;
-      const banner = response.data.banner || response.data.Banner;
+      const response = await tenantAdminAPI.impersonate(selectedTenant.id, 30);
+      const { tenant: tenantData, impersonationToken, expiresAt, banner } = response.data;
       
       if (!tenantData) {
         console.error('Tenant data not found in response:', response.data);
@@ -282,28 +248,20 @@ export default function TenantsList() {
       
       // Store impersonation token
       if (impersonationToken) {
-        localStorage.setItem('impersonationToken', impersonationToken);
-        localStorage.setItem('impersonatedTenant', JSON.stringify({
-          id: tenantData.id || tenantData.Id,
-          name: tenantData.name || tenantData.Name,
-          expiresAt: expiresAt,
-        }));
-
-        // Update API client to use impersonation token
-        api.defaults.headers.common['Authorization'] = `Bearer ${impersonationToken}`;
+        startImpersonationSession(response.data);
 
         setIsImpersonating(true);
         setImpersonatedTenant({
-          id: tenantData.id || tenantData.Id,
-          name: tenantData.name || tenantData.Name,
+          id: tenantData.id,
+          name: tenantData.name,
           expiresAt: expiresAt,
         });
 
         notify.success('Impersonation Started', banner || 'Impersonation started successfully');
         setImpersonateModalVisible(false);
         
-        // Refresh tenant list with new token
-        fetchTenants();
+        // Everything cached so far belongs to the SuperAdmin identity
+        invalidateQueries([]);
       } else {
         notify.error('Impersonation Failed', 'No impersonation token received');
       }
@@ -314,29 +272,17 @@ export default function TenantsList() {
     }
   };
 
-  const handleStopImpersonation = async () => {
-    try {
-      await api.post('/admin/tenants/stop-impersonation');
-      
-      // Clear impersonation token
-      localStorage.removeItem('impersonationToken');
-      localStorage.removeItem('impersonatedTenant');
-      
-      // Restore SuperAdmin token (you'll need to store it separately)
-      // For now, just remove the impersonation token
-      delete api.defaults.headers.common['Authorization'];
-      
-      setIsImpersonating(false);
-      setImpersonatedTenant(null);
-      
-      // Refresh tenant list
-      fetchTenants();
-    } catch (error: any) {
-      notify.error('Error', 'Failed to stop impersonation.');
-      console.error(error);
-    }
+  // The banner has already ended the session on the server and in this tab
+  const handleStopImpersonation = () => {
+    setIsImpersonating(false);
+    setImpersonatedTenant(null);
   };
 
+  // Stopped from another tab or window; LiveUpdates clears the token itself
+  useLiveEvent('impersonation.ended', () => {
+    if (!getImpersonatedTenant()) handleStopImpersonation();
+  });
+
   const getStatusTag = (status: string) => {
     const statusConfig: Record<string, { color: string; label: string }> = {
       Active: { color: 'green', label: 'Active' },
@@ -1,8 +1,11 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import ReactECharts from 'echarts-for-react';
 import * as echarts from 'echarts';
-import { buildApiUrl } from '../utils/api';
+import { usageMetricsAPI } from '../services/api';
+import { useQuery } from '../hooks/useQuery';
+import { queryKeys } from '../services/queryKeys';
+import type { DashboardOverview } from '../types/api';
 import { Empty } from 'antd';
 
 type TenantRow = {
@@ -17,42 +20,6 @@ type TenantRow = {
     activeAlertsCount: number;
 };
 
-type DashboardOverviewDto = {
-    totalTenants: number;
-    totalEmployees: number;
-    totalApiRequests: number;
-    totalApiRequestsToday: number;
-    totalStorageBytes: number;
-    periodStart: string;
-    periodEnd: string;
-    tenants: Array<{
-        tenantId: number;
-        tenantName: string;
-        employeeCount: number;
-        employeeLimit: number;
-        apiRequestsThisPeriod: number;
-        apiRequestsToday: number;
-        apiLimitPerDay: number;
-        storageBytesUsed: number;
-        storageLimitBytes?: number | null;
-        activeAlertsCount: number;
-    }>;
-    alertsSummary: {
-        totalActive: number;
-        critical: number;
-        high: number;
-        medium: number;
-        low: number;
-    };
-    topTenantsByUsage: Array<{
-        tenantId: number;
-        tenantName: string;
-        employeeCount: number;
-        apiRequestsThisPeriod: number;
-        storageBytesUsed: number;
-    }>;
-};
-
 const bytesToGB = (bytes: number) => (bytes / (1024 * 1024 * 1024)).toFixed(2);
 
 // Color palette placeholder for future theming
@@ -62,9 +29,6 @@ export default function UsageDashboard() {
     // Using Vite dev proxy for /api → target; no explicit base needed here
     const containerRef = useRef<HTMLDivElement | null>(null);
     const [containerReady, setContainerReady] = useState(false);
-    const [dashboard, setDashboard] = useState<DashboardOverviewDto | null>(null);
-    const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
 
     const [startDate, setStartDate] = useState<string>(() => {
         const now = new Date();
@@ -73,80 +37,49 @@ export default function UsageDashboard() {
     });
     const [endDate, setEndDate] = useState<string>(() => new Date().toISOString());
     const [tenantFilter, setTenantFilter] = useState<number | 'all'>('all');
-    const [apiHistory, setApiHistory] = useState<{ date: string; requests: number }[] | null>(null);
-    const [storageHistory, setStorageHistory] = useState<{ date: string; gb: number }[] | null>(null);
-
-    const fetchDashboard = useCallback(async () => {
-        setLoading(true);
-        setError(null);
-        try {
-            const endpoint = buildApiUrl('/api/UsageMetrics/dashboard', {
-                startDate: startDate ?? undefined,
-                endDate: endDate ?? undefined
-            });
-
-            const res = await fetch(endpoint, { credentials: 'include' });
-            const contentType = res.headers.get('content-type') || '';
-            if (!res.ok) {
-                const errText = await res.text();
-                throw new Error(`Failed to load dashboard (${res.status}): ${errText.slice(0, 200)}`);
-            }
-            if (!contentType.includes('application/json')) {
-                const text = await res.text();
-                throw new Error(`Unexpected response (not JSON): ${text.slice(0, 200)}`);
-            }
-            const json = (await res.json()) as DashboardOverviewDto;
-            setDashboard(json);
-        } catch (e: any) {
-            setError(e.message ?? 'Failed to load');
-        } finally {
-            setLoading(false);
-        }
-    }, [startDate, endDate]);
 
-    useEffect(() => {
-        fetchDashboard();
-        const id = setInterval(fetchDashboard, 30_000);
-        return () => clearInterval(id);
-    }, [fetchDashboard]);
+    const {
+        data: dashboardData,
+        isFetching: loading,
+        error: dashboardError,
+        refetch: refetchDashboard,
+    } = useQuery(
+        queryKeys.usage.dashboard(startDate, endDate),
+        () => usageMetricsAPI.getDashboard(startDate ?? undefined, endDate ?? undefined).then(res => res.data),
+        // Alert changes arrive as live events; the slow poll only picks up usage counters
+        { refetchInterval: 5 * 60_000 }
+    );
+    const dashboard: DashboardOverview | null = dashboardData ?? null;
+    const error = useMemo(() => {
+        if (!dashboardError) return null;
+        const e = dashboardError as any;
+        const status = e.response?.status;
+        return status ? `Failed to load dashboard (${status})` : (e.message ?? 'Failed to load');
+    }, [dashboardError]);
+    const fetchDashboard = () => {
+        refetchDashboard().catch(() => undefined);
+    };
 
-    // Fetch real history if endpoint is available; fallback silently on errors
-    useEffect(() => {
-        const fetchHistory = async () => {
-            try {
-                if (!dashboard) return;
-                const start = dashboard.periodStart ?? startDate;
-                const end = dashboard.periodEnd ?? endDate;
-                const endpoint = buildApiUrl('/api/UsageMetrics/history', {
-                    tenantId: tenantFilter === 'all' ? undefined : tenantFilter,
-                    startDate: start,
-                    endDate: end,
-                    granularity: 'daily'
-                });
-                const res = await fetch(endpoint, { credentials: 'include' });
-                if (!res.ok) throw new Error('history error');
-                const contentType = res.headers.get('content-type') || '';
-                if (!contentType.includes('application/json')) throw new Error('not json');
-                const json = await res.json();
-                const points = json?.dataPoints || json?.DataPoints || [];
-                if (!Array.isArray(points)) return;
-                const apiSeries = points.map((p: any) => ({
-                    date: (p.timestamp || p.Timestamp || p.periodStart || p.PeriodStart || '').toString().slice(0,10),
-                    requests: Number(p.apiRequests ?? p.ApiRequests ?? 0)
-                }));
-                const storSeries = points.map((p: any) => ({
-                    date: (p.timestamp || p.Timestamp || p.periodStart || p.PeriodStart || '').toString().slice(0,10),
-                    gb: Number(((p.storageBytes ?? p.StorageBytes ?? 0) / (1024*1024*1024)).toFixed(2))
-                }));
-                setApiHistory(apiSeries);
-                setStorageHistory(storSeries);
-            } catch {
-                // keep placeholders; don't surface errors to UI
-            }
-        };
-        fetchHistory();
-        // re-fetch on filter/date changes
-    }, [dashboard, tenantFilter, startDate, endDate]);
+    // Fetch real history if endpoint is available; errors keep the placeholder series
+    const historyParams = {
+        tenantId: tenantFilter === 'all' ? undefined : tenantFilter,
+        startDate: dashboard?.periodStart || startDate,
+        endDate: dashboard?.periodEnd || endDate,
+        granularity: 'daily' as const,
+    };
+    const { data: history } = useQuery(
+        queryKeys.usage.history(historyParams),
+        () => usageMetricsAPI.getHistory(historyParams).then(res => res.data),
+        { enabled: Boolean(dashboard) }
+    );
+    const apiHistory = useMemo(() => history?.dataPoints.map(p => ({
+        date: p.timestamp.slice(0,10),
+        requests: p.apiRequests
+    })) ?? null, [history]);
+    const storageHistory = useMemo(() => history?.dataPoints.map(p => ({
+        date: p.timestamp.slice(0,10),
+        gb: Number((p.storageBytes / (1024*1024*1024)).toFixed(2))
+    })) ?? null, [history]);
 
     // Observe container size to ensure charts render only when visible and sized
     useEffect(() => {
@@ -1,31 +1,196 @@
 import axios from 'axios';
-import { getApiBase } from '../utils/api';
+import { z } from 'zod';
+import { getApiBaseUrl } from '../utils/api';
+import { applyContract, normalizeKeys } from './contract';
 import type {
   AuthResponse,
   LoginRequest,
   RegisterRequest,
+  User,
+  UpdateProfileRequest,
+  ChangePasswordRequest,
+  ChangePasswordResponse,
+  UserPreferences,
+  UserSession,
   Employee,
   CreateEmployeeRequest,
   UpdateEmployeeRequest,
+  UpdateMyProfileRequest,
+  UpdateReportingLineRequest,
   EmployeeSearchRequest,
   PagedResponse,
   LeaveRequest,
   CreateLeaveRequestRequest,
+  UpdateLeaveRequestRequest,
+  LeavePolicy,
+  CreateLeavePolicyRequest,
+  UpdateLeavePolicyRequest,
   Attendance,
+  AttendanceDailySummary,
   ClockInRequest,
   ClockOutRequest,
+  CreateAttendanceRequest,
+  UpdateAttendanceRequest,
+  PayrollSettings,
+  UpdatePayrollSettingsRequest,
+  PayRun,
+  CreatePayRunRequest,
+  Payslip,
+  PayrollDepartmentSummary,
+  CalendarEntry,
+  CalendarEvent,
+  CreateCalendarEventRequest,
+  UpdateCalendarEventRequest,
+  Notice,
+  CreateNoticeRequest,
+  UpdateNoticeRequest,
+  NoticeReceipt,
+  InboxNotification,
+  CreateInboxNotificationRequest,
+  InboxListParams,
+  ExpenseClaim,
+  ExpenseReceipt,
+  CreateExpenseClaimRequest,
+  UpdateExpenseClaimRequest,
+  ReviewExpenseClaimRequest,
+  ReimbursementBatch,
+  CreateReimbursementBatchRequest,
   Department,
   CreateDepartmentRequest,
   UpdateDepartmentRequest,
   Position,
   CreatePositionRequest,
   UpdatePositionRequest,
+  RolePermission,
+  TenantSummary,
+  CreateTenantRequest,
+  UpdateTenantRequest,
+  UpdateTenantSubscriptionRequest,
+  TenantProvisioningStatus,
+  TenantPlanOption,
+  TenantListParams,
+  TenantListResponse,
+  TenantDetail,
+  ImpersonateResponse,
+  AdminSetupLinkResponse,
+  SignupRequest,
+  SignupResponse,
+  ChangePlanRequest,
+  SuspendTenantRequest,
+  CancelTenantRequest,
+  TenantLifecycleEvent,
+  TenantSuspensionInfo,
+  MessageResponse,
+  AuditLog,
+  AuditLogListResponse,
+  AuditLogParams,
+  AuditStatistics,
+  AlertListParams,
+  AlertListResponse,
+  AlertStatistics,
+  BulkAlertResponse,
+  WebhookEventParams,
+  WebhookEventListResponse,
+  ReconciliationResult,
+  Subscription,
+  SubscriptionPlan,
+  PlanChangePreview,
+  CreateSubscriptionRequest,
+  UpdateSubscriptionRequest,
+  TenantSubscriptionsResponse,
+  TenantFeatures,
+  ExtendTrialRequest,
+  AdminChangePlanRequest,
+  MetricsOverview,
+  RevenueTrendPoint,
+  TenantGrowthPoint,
+  ChurnAnalysis,
+  UsageSummary,
+  DashboardOverview,
+  UsageHistory,
+  UsageHistoryParams,
+  ManagedUser,
+  CreateUserRequest,
+  ToggleUserStatusResponse,
+  ModuleTreeNode,
+  BulkUpdateRolePermissionsRequest,
+  RolePermissionUpdate,
+  RolePermissionSnapshot,
+  RolePermissionSnapshotDetail,
+  CreateRolePermissionSnapshotRequest,
+  TenantRole,
+  CreateTenantRoleRequest,
+  UpdateTenantRoleRequest,
 } from '../types/api';
+import {
+  adminSetupLinkResponseSchema,
+  alertListResponseSchema,
+  alertStatisticsSchema,
+  attendanceSchema,
+  attendanceDailySummarySchema,
+  auditLogListResponseSchema,
+  auditLogSchema,
+  auditStatisticsSchema,
+  authResponseSchema,
+  bulkAlertResponseSchema,
+  calendarEntrySchema,
+  calendarEventSchema,
+  changePasswordResponseSchema,
+  churnAnalysisSchema,
+  countSchema,
+  dashboardOverviewSchema,
+  departmentSchema,
+  employeePageSchema,
+  employeeSchema,
+  expenseClaimSchema,
+  expenseReceiptSchema,
+  impersonateResponseSchema,
+  inboxPageSchema,
+  leavePolicySchema,
+  leaveRequestSchema,
+  managedUserSchema,
+  messageResponseSchema,
+  metricsOverviewSchema,
+  moduleTreeNodeSchema,
+  noticeReceiptSchema,
+  noticeSchema,
+  payRunSchema,
+  payrollDepartmentSummarySchema,
+  payrollSettingsSchema,
+  payslipSchema,
+  planChangePreviewSchema,
+  positionSchema,
+  reconciliationResultSchema,
+  reimbursementBatchSchema,
+  revenueTrendsSchema,
+  rolePermissionSchema,
+  rolePermissionSnapshotDetailSchema,
+  rolePermissionSnapshotSchema,
+  signupResponseSchema,
+  stringListSchema,
+  subscriptionPlanSchema,
+  subscriptionSchema,
+  tenantDetailSchema,
+  tenantFeaturesSchema,
+  tenantGrowthSchema,
+  tenantLifecycleEventSchema,
+  tenantListResponseSchema,
+  tenantPlanOptionSchema,
+  tenantProvisioningStatusSchema,
+  tenantRoleSchema,
+  tenantSubscriptionsResponseSchema,
+  tenantSummarySchema,
+  tenantSuspensionInfoSchema,
+  toggleUserStatusResponseSchema,
+  usageHistorySchema,
+  usageSummarySchema,
+  userPreferencesSchema,
+  userSchema,
+  userSessionSchema,
+  webhookEventListResponseSchema,
+} from '../types/schemas';
 
-const API_BASE_URL = (() => {
-  const base = getApiBase();
-  return base ? `${base}/api` : '/api';
-})();
+const API_BASE_URL = getApiBaseUrl();
 
 const api = axios.create({
   baseURL: API_BASE_URL,
@@ -35,6 +200,13 @@ const api = axios.create({
   withCredentials: true, // Include cookies in all requests
 });
 
+// Role picked in the header switcher; the API narrows the request's role claims to it
+let activeRoleHeader: string | null = null;
+
+export const setActiveRoleHeader = (role: string | null) => {
+  activeRoleHeader = role;
+};
+
 // Token refresh state
 let isRefreshing = false;
 let pendingRequests: Array<(token: string | null) => void> = [];
@@ -51,6 +223,9 @@ api.interceptors.request.use(
   (config) => {
     // Token is now sent via httpOnly cookie automatically
     config.withCredentials = true; // Ensure credentials are included
+    if (activeRoleHeader) {
+      config.headers['X-Active-Role'] = activeRoleHeader;
+    }
     return config;
   },
   (error) => Promise.reject(error)
@@ -72,10 +247,13 @@ async function refreshAuthToken(): Promise<string | null> {
   }
 }
 
-// Response interceptor to handle errors (401 -> try refresh once)
+// Response interceptor: normalize/validate payloads, handle errors (401 -> try refresh once)
 api.interceptors.response.use(
-  (response) => response,
+  applyContract,
   async (error) => {
+    if (error.response) {
+      error.response.data = normalizeKeys(error.response.data);
+    }
     const originalRequest = error.config;
     const status = error.response?.status;
 
@@ -120,16 +298,16 @@ api.interceptors.response.use(
 // Auth API
 export const authAPI = {
   login: (data: LoginRequest) =>
-    api.post<AuthResponse>('/auth/login', data),
+    api.post<AuthResponse>('/auth/login', data, { schema: authResponseSchema }),
   
   register: (data: RegisterRequest) =>
-    api.post<AuthResponse>('/auth/register', data),
+    api.post<AuthResponse>('/auth/register', data, { schema: authResponseSchema }),
   
   getCurrentUser: () =>
     api.get('/auth/me'),
   
   refreshToken: () =>
-    api.post<AuthResponse>('/auth/refresh-token', {}),
+    api.post<AuthResponse>('/auth/refresh-token', {}, { schema: authResponseSchema }),
   
   logout: () =>
     api.post('/auth/logout'),
@@ -150,52 +328,85 @@ export const authAPI = {
     api.post('/auth/setup-password', data),
 };
 
+// Account API (signed-in user's own settings)
+export const accountAPI = {
+  updateProfile: (data: UpdateProfileRequest) =>
+    api.put<User>('/account/profile', data, { schema: userSchema }),
+  
+  changePassword: (data: ChangePasswordRequest) =>
+    api.post<ChangePasswordResponse>('/account/change-password', data, { schema: changePasswordResponseSchema }),
+  
+  getSessions: () =>
+    api.get<UserSession[]>('/account/sessions', { schema: z.array(userSessionSchema) }),
+  
+  revokeSession: (id: number) =>
+    api.delete(`/account/sessions/${id}`),
+  
+  revokeOtherSessions: () =>
+    api.delete<{ revokedSessions: number }>('/account/sessions'),
+  
+  getPreferences: () =>
+    api.get<UserPreferences>('/account/preferences', { schema: userPreferencesSchema }),
+  
+  updatePreferences: (data: UserPreferences) =>
+    api.put<UserPreferences>('/account/preferences', data, { schema: userPreferencesSchema }),
+};
+
 // Employee API
 export const employeeAPI = {
   getAll: () =>
-    api.get<Employee[]>('/employees'),
+    api.get<Employee[]>('/employees', { schema: z.array(employeeSchema) }),
   
   getById: (id: number) =>
-    api.get<Employee>(`/employees/${id}`),
+    api.get<Employee>(`/employees/${id}`, { schema: employeeSchema }),
+  
+  getMe: () =>
+    api.get<Employee>('/employees/me', { schema: employeeSchema }),
+  
+  updateMe: (data: UpdateMyProfileRequest) =>
+    api.put<Employee>('/employees/me', data, { schema: employeeSchema }),
   
   search: (params: EmployeeSearchRequest) =>
-    api.get<PagedResponse<Employee>>('/employees/search', { params }),
+    api.get<PagedResponse<Employee>>('/employees/search', { params, schema: employeePageSchema }),
   
   searchPost: (data: EmployeeSearchRequest) =>
-    api.post<PagedResponse<Employee>>('/employees/search', data),
+    api.post<PagedResponse<Employee>>('/employees/search', data, { schema: employeePageSchema }),
   
   create: (data: CreateEmployeeRequest) =>
-    api.post<Employee>('/employees', data),
+    api.post<Employee>('/employees', data, { schema: employeeSchema }),
   
   update: (id: number, data: UpdateEmployeeRequest) =>
-    api.put<Employee>(`/employees/${id}`, data),
+    api.put<Employee>(`/employees/${id}`, data, { schema: employeeSchema }),
+  
+  updateReportingLine: (id: number, data: UpdateReportingLineRequest) =>
+    api.put<Employee>(`/employees/${id}/reporting-line`, data, { schema: employeeSchema }),
   
   delete: (id: number) =>
     api.delete(`/employees/${id}`),
   
   getActive: () =>
-    api.get<Employee[]>('/employees/active'),
+    api.get<Employee[]>('/employees/active', { schema: z.array(employeeSchema) }),
   
   getByDepartment: (department: string) =>
-    api.get<Employee[]>(`/employees/by-department/${department}`),
+    api.get<Employee[]>(`/employees/by-department/${department}`, { schema: z.array(employeeSchema) }),
 };
 
 // Leave Request API
 export const leaveRequestAPI = {
   getAll: () =>
-    api.get<LeaveRequest[]>('/leaverequests'),
+    api.get<LeaveRequest[]>('/leaverequests', { schema: z.array(leaveRequestSchema) }),
   
   getById: (id: number) =>
-    api.get<LeaveRequest>(`/leaverequests/${id}`),
+    api.get<LeaveRequest>(`/leaverequests/${id}`, { schema: leaveRequestSchema }),
   
   getByEmployee: (employeeId: number) =>
-    api.get<LeaveRequest[]>(`/leaverequests/employee/${employeeId}`),
+    api.get<LeaveRequest[]>(`/leaverequests/employee/${employeeId}`, { schema: z.array(leaveRequestSchema) }),
   
   create: (data: CreateLeaveRequestRequest) =>
-    api.post<LeaveRequest>('/leaverequests', data),
+    api.post<LeaveRequest>('/leaverequests', data, { schema: leaveRequestSchema }),
   
-  update: (id: number, data: Partial<CreateLeaveRequestRequest>) =>
-    api.put<LeaveRequest>(`/leaverequests/${id}`, data),
+  update: (id: number, data: UpdateLeaveRequestRequest) =>
+    api.put<LeaveRequest>(`/leaverequests/${id}`, data, { schema: leaveRequestSchema }),
   
   delete: (id: number) =>
     api.delete(`/leaverequests/${id}`),
@@ -204,62 +415,289 @@ export const leaveRequestAPI = {
     api.put<LeaveRequest>(`/leaverequests/${id}/approve`, {
       status,
       rejectionReason,
-    }),
+    }, { schema: leaveRequestSchema }),
   
   getPending: () =>
-    api.get<LeaveRequest[]>('/leaverequests/pending'),
+    api.get<LeaveRequest[]>('/leaverequests/pending', { schema: z.array(leaveRequestSchema) }),
+  
+  getApproved: () =>
+    api.get<LeaveRequest[]>('/leaverequests/approved', { schema: z.array(leaveRequestSchema) }),
+  
+  getRejected: () =>
+    api.get<LeaveRequest[]>('/leaverequests/rejected', { schema: z.array(leaveRequestSchema) }),
+  
+  getByDateRange: (startDate: string, endDate: string) =>
+    api.get<LeaveRequest[]>('/leaverequests/by-date-range', {
+      params: { startDate, endDate },
+      schema: z.array(leaveRequestSchema),
+    }),
+  
+  // Approved days of one leave type taken in the given year
+  getTotalDays: (employeeId: number, leaveType: string, year: number) =>
+    api.get<number>(`/leaverequests/total-days/${employeeId}`, {
+      params: { leaveType, year },
+      schema: z.number(),
+    }),
+};
+
+// Leave Policy API
+export const leavePolicyAPI = {
+  getAll: () =>
+    api.get<LeavePolicy[]>('/leavepolicies', { schema: z.array(leavePolicySchema) }),
+  
+  getById: (id: number) =>
+    api.get<LeavePolicy>(`/leavepolicies/${id}`, { schema: leavePolicySchema }),
+  
+  create: (data: CreateLeavePolicyRequest) =>
+    api.post<LeavePolicy>('/leavepolicies', data, { schema: leavePolicySchema }),
+  
+  update: (id: number, data: UpdateLeavePolicyRequest) =>
+    api.put<LeavePolicy>(`/leavepolicies/${id}`, data, { schema: leavePolicySchema }),
+  
+  delete: (id: number) =>
+    api.delete(`/leavepolicies/${id}`),
 };
 
 // Attendance API
 export const attendanceAPI = {
   getAll: () =>
-    api.get<Attendance[]>('/attendance'),
+    api.get<Attendance[]>('/attendance', { schema: z.array(attendanceSchema) }),
   
   getById: (id: number) =>
-    api.get<Attendance>(`/attendance/${id}`),
+    api.get<Attendance>(`/attendance/${id}`, { schema: attendanceSchema }),
   
   getByEmployee: (employeeId: number) =>
-    api.get<Attendance[]>(`/attendance/employee/${employeeId}`),
+    api.get<Attendance[]>(`/attendance/employee/${employeeId}`, { schema: z.array(attendanceSchema) }),
+  
+  create: (data: CreateAttendanceRequest) =>
+    api.post<Attendance>('/attendance', data, { schema: attendanceSchema }),
+  
+  update: (id: number, data: UpdateAttendanceRequest) =>
+    api.put<Attendance>(`/attendance/${id}`, data, { schema: attendanceSchema }),
+  
+  delete: (id: number) =>
+    api.delete(`/attendance/${id}`),
   
   clockIn: (data: ClockInRequest) =>
-    api.post<Attendance>('/attendance/clock-in', data),
+    api.post<Attendance>('/attendance/clock-in', data, { schema: attendanceSchema }),
   
   clockOut: (data: ClockOutRequest) =>
-    api.post<Attendance>('/attendance/clock-out', data),
+    api.post<Attendance>('/attendance/clock-out', data, { schema: attendanceSchema }),
   
   getByDateRange: (employeeId: number, startDate: string, endDate: string) =>
     api.get<Attendance[]>(`/attendance/employee/${employeeId}/date-range`, {
       params: { startDate, endDate },
+      schema: z.array(attendanceSchema),
     }),
   
   getByMonth: (employeeId: number, year: number, month: number) =>
     api.get<Attendance[]>(`/attendance/employee/${employeeId}/month`, {
       params: { year, month },
+      schema: z.array(attendanceSchema),
+    }),
+  
+  getSummary: (startDate: string, endDate: string) =>
+    api.get<AttendanceDailySummary[]>('/attendance/summary', {
+      params: { startDate, endDate },
+      schema: z.array(attendanceDailySummarySchema),
     }),
 };
 
+// Payroll API
+export const payrollAPI = {
+  getSettings: () =>
+    api.get<PayrollSettings>('/payroll/settings', { schema: payrollSettingsSchema }),
+  
+  updateSettings: (data: UpdatePayrollSettingsRequest) =>
+    api.put<PayrollSettings>('/payroll/settings', data, { schema: payrollSettingsSchema }),
+  
+  getRuns: (year?: number) =>
+    api.get<PayRun[]>('/payroll/runs', { params: { year }, schema: z.array(payRunSchema) }),
+  
+  getRun: (id: number) =>
+    api.get<PayRun>(`/payroll/runs/${id}`, { schema: payRunSchema }),
+  
+  createRun: (data: CreatePayRunRequest) =>
+    api.post<PayRun>('/payroll/runs', data, { schema: payRunSchema }),
+  
+  recalculateRun: (id: number) =>
+    api.post<PayRun>(`/payroll/runs/${id}/recalculate`, null, { schema: payRunSchema }),
+  
+  finalizeRun: (id: number) =>
+    api.post<PayRun>(`/payroll/runs/${id}/finalize`, null, { schema: payRunSchema }),
+  
+  deleteRun: (id: number) =>
+    api.delete(`/payroll/runs/${id}`),
+  
+  getMyPayslips: () =>
+    api.get<Payslip[]>('/payroll/payslips/me', { schema: z.array(payslipSchema) }),
+  
+  getEmployeePayslips: (employeeId: number) =>
+    api.get<Payslip[]>(`/payroll/payslips/employee/${employeeId}`, { schema: z.array(payslipSchema) }),
+  
+  getPayslip: (id: number) =>
+    api.get<Payslip>(`/payroll/payslips/${id}`, { schema: payslipSchema }),
+  
+  getDepartmentSummary: (year: number, month?: number) =>
+    api.get<PayrollDepartmentSummary[]>('/payroll/reports/departments', {
+      params: { year, month },
+      schema: z.array(payrollDepartmentSummarySchema),
+    }),
+};
+
+// Calendar API
+export const calendarAPI = {
+  getEntries: (startDate: string, endDate: string, department?: string) =>
+    api.get<CalendarEntry[]>('/calendar', {
+      params: { startDate, endDate, department },
+      schema: z.array(calendarEntrySchema),
+    }),
+  
+  exportIcs: (startDate: string, endDate: string, department?: string) =>
+    api.get<Blob>('/calendar/export', { params: { startDate, endDate, department }, responseType: 'blob' }),
+  
+  getEvent: (id: number) =>
+    api.get<CalendarEvent>(`/calendar/events/${id}`, { schema: calendarEventSchema }),
+  
+  createEvent: (data: CreateCalendarEventRequest) =>
+    api.post<CalendarEvent>('/calendar/events', data, { schema: calendarEventSchema }),
+  
+  updateEvent: (id: number, data: UpdateCalendarEventRequest) =>
+    api.put<CalendarEvent>(`/calendar/events/${id}`, data, { schema: calendarEventSchema }),
+  
+  deleteEvent: (id: number) =>
+    api.delete(`/calendar/events/${id}`),
+};
+
+// Notice Board API
+export const noticeAPI = {
+  getMine: () =>
+    api.get<Notice[]>('/notices', { schema: z.array(noticeSchema) }),
+  
+  getUnreadCount: () =>
+    api.get<{ count: number }>('/notices/unread-count', { schema: countSchema }),
+  
+  getAll: () =>
+    api.get<Notice[]>('/notices/manage', { schema: z.array(noticeSchema) }),
+  
+  getById: (id: number) =>
+    api.get<Notice>(`/notices/${id}`, { schema: noticeSchema }),
+  
+  create: (data: CreateNoticeRequest) =>
+    api.post<Notice>('/notices', data, { schema: noticeSchema }),
+  
+  update: (id: number, data: UpdateNoticeRequest) =>
+    api.put<Notice>(`/notices/${id}`, data, { schema: noticeSchema }),
+  
+  delete: (id: number) =>
+    api.delete(`/notices/${id}`),
+  
+  markAsRead: (id: number) =>
+    api.post(`/notices/${id}/read`, null),
+  
+  getReceipts: (id: number) =>
+    api.get<NoticeReceipt[]>(`/notices/${id}/receipts`, { schema: z.array(noticeReceiptSchema) }),
+};
+
+// Notification inbox API (the signed-in user's own notifications)
+export const notificationsAPI = {
+  getAll: (params: InboxListParams = {}) =>
+    api.get<PagedResponse<InboxNotification>>('/notifications', { params, schema: inboxPageSchema }),
+  
+  getUnreadCount: () =>
+    api.get<{ count: number }>('/notifications/unread-count', { schema: countSchema }),
+  
+  // Responds 204 with no body when the user has muted the category
+  create: (data: CreateInboxNotificationRequest) =>
+    api.post<InboxNotification | ''>('/notifications', data),
+  
+  markAsRead: (id: number) =>
+    api.post(`/notifications/${id}/read`, null),
+  
+  markAllAsRead: () =>
+    api.post<{ updated: number }>('/notifications/read-all', null),
+  
+  delete: (id: number) =>
+    api.delete(`/notifications/${id}`),
+};
+
+// Expenses API
+export const expenseAPI = {
+  getMine: () =>
+    api.get<ExpenseClaim[]>('/expenses/me', { schema: z.array(expenseClaimSchema) }),
+  
+  getTeam: (status?: string) =>
+    api.get<ExpenseClaim[]>('/expenses/team', { params: { status }, schema: z.array(expenseClaimSchema) }),
+  
+  getAll: (status?: string) =>
+    api.get<ExpenseClaim[]>('/expenses', { params: { status }, schema: z.array(expenseClaimSchema) }),
+  
+  getById: (id: number) =>
+    api.get<ExpenseClaim>(`/expenses/${id}`, { schema: expenseClaimSchema }),
+  
+  create: (data: CreateExpenseClaimRequest) =>
+    api.post<ExpenseClaim>('/expenses', data, { schema: expenseClaimSchema }),
+  
+  update: (id: number, data: UpdateExpenseClaimRequest) =>
+    api.put<ExpenseClaim>(`/expenses/${id}`, data, { schema: expenseClaimSchema }),
+  
+  delete: (id: number) =>
+    api.delete(`/expenses/${id}`),
+  
+  review: (id: number, data: ReviewExpenseClaimRequest) =>
+    api.put<ExpenseClaim>(`/expenses/${id}/review`, data, { schema: expenseClaimSchema }),
+  
+  uploadReceipt: (id: number, file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    // Explicit multipart so axios does not serialise the form as JSON (the instance default)
+    return api.post<ExpenseReceipt>(`/expenses/${id}/receipts`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      schema: expenseReceiptSchema,
+    });
+  },
+  
+  downloadReceipt: (id: number, receiptId: number) =>
+    api.get<Blob>(`/expenses/${id}/receipts/${receiptId}`, { responseType: 'blob' }),
+  
+  deleteReceipt: (id: number, receiptId: number) =>
+    api.delete(`/expenses/${id}/receipts/${receiptId}`),
+  
+  getBatches: () =>
+    api.get<ReimbursementBatch[]>('/expenses/batches', { schema: z.array(reimbursementBatchSchema) }),
+  
+  createBatch: (data: CreateReimbursementBatchRequest) =>
+    api.post<ReimbursementBatch>('/expenses/batches', data, { schema: reimbursementBatchSchema }),
+  
+  exportBatch: (id: number) =>
+    api.get<Blob>(`/expenses/batches/${id}/export`, { responseType: 'blob' }),
+  
+  deleteBatch: (id: number) =>
+    api.delete(`/expenses/batches/${id}`),
+};
+
 // Department API
 export const departmentAPI = {
   getAll: (tenantId?: string) =>
-    api.get<Department[]>('/departments', { params: tenantId ? { tenantId } : {} }),
+    api.get<Department[]>('/departments', { params: tenantId ? { tenantId } : {}, schema: z.array(departmentSchema) }),
   
   getById: (id: number) =>
-    api.get<Department>(`/departments/${id}`),
+    api.get<Department>(`/departments/${id}`, { schema: departmentSchema }),
   
   getNames: () =>
-    api.get<string[]>('/departments/names'),
+    api.get<string[]>('/departments/names', { schema: stringListSchema }),
   
   create: (data: CreateDepartmentRequest) =>
-    api.post<Department>('/departments', data),
+    api.post<Department>('/departments', data, { schema: departmentSchema }),
   
   update: (id: number, data: UpdateDepartmentRequest) =>
-    api.put<Department>(`/departments/${id}`, data),
+    api.put<Department>(`/departments/${id}`, data, { schema: departmentSchema }),
   
   assignHead: (id: number, employeeId: number) =>
-    api.put<Department>(`/departments/${id}/assign-head/${employeeId}`),
+    api.put<Department>(`/departments/${id}/assign-head/${employeeId}`, null, { schema: departmentSchema }),
   
   removeHead: (id: number) =>
-    api.put<Department>(`/departments/${id}/remove-head`),
+    api.put<Department>(`/departments/${id}/remove-head`, null, { schema: departmentSchema }),
   
   delete: (id: number) =>
     api.delete(`/departments/${id}`),
@@ -268,22 +706,22 @@ export const departmentAPI = {
 // Position API
 export const positionAPI = {
   getAll: (tenantId?: string) =>
-    api.get<Position[]>('/positions', { params: tenantId ? { tenantId } : {} }),
+    api.get<Position[]>('/positions', { params: tenantId ? { tenantId } : {}, schema: z.array(positionSchema) }),
   
   getById: (id: number) =>
-    api.get<Position>(`/positions/${id}`),
+    api.get<Position>(`/positions/${id}`, { schema: positionSchema }),
   
   getByDepartment: (departmentId: number) =>
-    api.get<Position[]>(`/positions/department/${departmentId}`),
+    api.get<Position[]>(`/positions/department/${departmentId}`, { schema: z.array(positionSchema) }),
   
   getTitles: () =>
-    api.get<string[]>('/positions/titles'),
+    api.get<string[]>('/positions/titles', { schema: stringListSchema }),
   
   create: (data: CreatePositionRequest) =>
-    api.post<Position>('/positions', data),
+    api.post<Position>('/positions', data, { schema: positionSchema }),
   
   update: (id: number, data: UpdatePositionRequest) =>
-    api.put<Position>(`/positions/${id}`, data),
+    api.put<Position>(`/positions/${id}`, data, { schema: positionSchema }),
   
   delete: (id: number) =>
     api.delete(`/positions/${id}`),
@@ -291,7 +729,319 @@ export const positionAPI = {
 
 // Tenant API
 export const tenantAPI = {
-  getAll: () => api.get<any[]>('/tenants'),
+  getAll: () =>
+    api.get<TenantSummary[]>('/tenants', { schema: z.array(tenantSummarySchema) }),
+  
+  getById: (id: number) =>
+    api.get<TenantSummary>(`/tenants/${id}`, { schema: tenantSummarySchema }),
+  
+  create: (data: CreateTenantRequest) =>
+    api.post<{ id: number; name: string; status: string }>('/tenants', data),
+  
+  getStatus: (id: number) =>
+    api.get<TenantProvisioningStatus>(`/tenants/${id}/status`, { schema: tenantProvisioningStatusSchema }),
+  
+  update: (id: number, data: UpdateTenantRequest) =>
+    api.put<TenantSummary>(`/tenants/${id}`, data, { schema: tenantSummarySchema }),
+  
+  updateDomain: (id: number, domain: string | null) =>
+    api.put<{ message: string; domain: string | null }>(`/tenants/${id}/domain`, { domain }),
+  
+  updateSubscription: (id: number, data: UpdateTenantSubscriptionRequest) =>
+    api.put<{ message: string; subscriptionPlan: string; maxEmployees: number }>(`/tenants/${id}/subscription`, data),
+  
+  getSubscriptionPlans: () =>
+    api.get<TenantPlanOption[]>('/tenants/subscription-plans', { schema: z.array(tenantPlanOptionSchema) }),
+};
+
+// Tenant Admin API (SuperAdmin)
+export const tenantAdminAPI = {
+  getAll: (params: TenantListParams) =>
+    api.get<TenantListResponse>('/admin/tenants', { params, schema: tenantListResponseSchema }),
+  
+  getById: (id: number | string) =>
+    api.get<TenantDetail>(`/admin/tenants/${id}`, { schema: tenantDetailSchema }),
+  
+  impersonate: (id: number, durationMinutes = 30) =>
+    api.post<ImpersonateResponse>(`/admin/tenants/${id}/impersonate`, null, {
+      params: { durationMinutes },
+      schema: impersonateResponseSchema,
+    }),
+  
+  stopImpersonation: () =>
+    api.post<MessageResponse>('/admin/tenants/stop-impersonation', null, { schema: messageResponseSchema }),
+  
+  suspend: (id: number, reason?: string) =>
+    api.post<MessageResponse>(`/admin/tenants/${id}/suspend`, { reason }, { schema: messageResponseSchema }),
+  
+  resume: (id: number) =>
+    api.post<MessageResponse>(`/admin/tenants/${id}/resume`, null, { schema: messageResponseSchema }),
+  
+  delete: (id: number, hardDelete = false) =>
+    api.delete<MessageResponse>(`/admin/tenants/${id}`, { params: { hardDelete }, schema: messageResponseSchema }),
+  
+  getAdminSetupLink: (id: number) =>
+    api.get<AdminSetupLinkResponse>(`/admin/tenants/${id}/admin-setup-link`, { schema: adminSetupLinkResponseSchema }),
+};
+
+// Tenant Lifecycle API
+export const tenantLifecycleAPI = {
+  signup: (data: SignupRequest) =>
+    api.post<SignupResponse>('/tenantlifecycle/signup', data, { schema: signupResponseSchema }),
+  
+  activate: (tenantId: number, externalCustomerId?: string) =>
+    api.post<MessageResponse>(`/tenantlifecycle/${tenantId}/activate`, null, {
+      params: externalCustomerId ? { externalCustomerId } : {},
+      schema: messageResponseSchema,
+    }),
+  
+  upgrade: (tenantId: number, data: ChangePlanRequest) =>
+    api.post<MessageResponse>(`/tenantlifecycle/${tenantId}/upgrade`, data, { schema: messageResponseSchema }),
+  
+  downgrade: (tenantId: number, data: ChangePlanRequest) =>
+    api.post<MessageResponse>(`/tenantlifecycle/${tenantId}/downgrade`, data, { schema: messageResponseSchema }),
+  
+  suspend: (tenantId: number, data: SuspendTenantRequest) =>
+    api.post<MessageResponse>(`/tenantlifecycle/${tenantId}/suspend`, data, { schema: messageResponseSchema }),
+  
+  resume: (tenantId: number) =>
+    api.post<MessageResponse>(`/tenantlifecycle/${tenantId}/resume`, null, { schema: messageResponseSchema }),
+  
+  cancel: (tenantId: number, data: CancelTenantRequest) =>
+    api.post<MessageResponse>(`/tenantlifecycle/${tenantId}/cancel`, data, { schema: messageResponseSchema }),
+  
+  exportData: (tenantId: number) =>
+    api.get<Blob>(`/tenantlifecycle/${tenantId}/export`, { responseType: 'blob' }),
+  
+  getEvents: (tenantId: number, limit = 100) =>
+    api.get<TenantLifecycleEvent[]>(`/tenantlifecycle/${tenantId}/events`, { params: { limit }, schema: z.array(tenantLifecycleEventSchema) }),
+  
+  getSuspensionInfo: (tenantId: number) =>
+    api.get<TenantSuspensionInfo>(`/tenantlifecycle/${tenantId}/suspension-info`, { schema: tenantSuspensionInfoSchema }),
+};
+
+// Admin Audit API
+export const adminAuditAPI = {
+  getAll: (params: AuditLogParams = {}) =>
+    api.get<AuditLogListResponse>('/adminaudit', { params, schema: auditLogListResponseSchema }),
+  
+  getById: (id: number) =>
+    api.get<AuditLog>(`/adminaudit/${id}`, { schema: auditLogSchema }),
+  
+  getStatistics: (startDate?: string, endDate?: string) =>
+    api.get<AuditStatistics>('/adminaudit/statistics', { params: { startDate, endDate }, schema: auditStatisticsSchema }),
+};
+
+// Alerts API
+export const alertsAPI = {
+  getAll: (params: AlertListParams = {}) =>
+    api.get<AlertListResponse>('/admin/alerts', { params, schema: alertListResponseSchema }),
+  
+  acknowledge: (id: number, notes?: string) =>
+    api.post<MessageResponse>(`/admin/alerts/${id}/acknowledge`, { notes }, { schema: messageResponseSchema }),
+  
+  resolve: (id: number, notes?: string) =>
+    api.post<MessageResponse>(`/admin/alerts/${id}/resolve`, { notes }, { schema: messageResponseSchema }),
+  
+  getStatistics: () =>
+    api.get<AlertStatistics>('/admin/alerts/statistics', { schema: alertStatisticsSchema }),
+  
+  bulkAcknowledge: (ids: number[]) =>
+    api.post<BulkAlertResponse>('/admin/alerts/bulk/acknowledge', { ids }, { schema: bulkAlertResponseSchema }),
+  
+  bulkResolve: (ids: number[], notes?: string) =>
+    api.post<BulkAlertResponse>('/admin/alerts/bulk/resolve', { ids, notes }, { schema: bulkAlertResponseSchema }),
+};
+
+// Billing Admin API
+export const billingAdminAPI = {
+  getWebhooks: (params: WebhookEventParams = {}) =>
+    api.get<WebhookEventListResponse>('/admin/billing/webhooks', { params, schema: webhookEventListResponseSchema }),
+  
+  reconcile: (startDate?: string, endDate?: string) =>
+    api.post<ReconciliationResult>('/admin/billing/reconcile', { startDate, endDate }, { schema: reconciliationResultSchema }),
+};
+
+// Subscription API
+export const subscriptionAPI = {
+  getCurrent: () =>
+    api.get<Subscription>('/subscriptions/current', { schema: subscriptionSchema }),
+  
+  getById: (id: number) =>
+    api.get<Subscription>(`/subscriptions/${id}`, { schema: subscriptionSchema }),
+  
+  getByTenant: (tenantId: number) =>
+    api.get<Subscription>(`/subscriptions/tenant/${tenantId}`, { schema: subscriptionSchema }),
+  
+  create: (data: CreateSubscriptionRequest) =>
+    api.post<Subscription>('/subscriptions', data, { schema: subscriptionSchema }),
+  
+  update: (id: number, data: UpdateSubscriptionRequest) =>
+    api.put<Subscription>(`/subscriptions/${id}`, data, { schema: subscriptionSchema }),
+  
+  cancel: (id: number, reason?: string) =>
+    api.post<MessageResponse>(`/subscriptions/${id}/cancel`, null, { params: { reason }, schema: messageResponseSchema }),
+  
+  reactivate: (id: number) =>
+    api.post<MessageResponse>(`/subscriptions/${id}/reactivate`, null, { schema: messageResponseSchema }),
+  
+  getPlans: () =>
+    api.get<SubscriptionPlan[]>('/subscriptions/plans', { schema: z.array(subscriptionPlanSchema) }),
+  
+  getPlan: (id: number) =>
+    api.get<SubscriptionPlan>(`/subscriptions/plans/${id}`, { schema: subscriptionPlanSchema }),
+  
+  previewChange: (planId: number) =>
+    api.get<PlanChangePreview>('/subscriptions/current/change-preview', { params: { planId }, schema: planChangePreviewSchema }),
+  
+  hasFeature: (featureKey: string) =>
+    api.get<boolean>(`/subscriptions/features/${encodeURIComponent(featureKey)}`, { schema: z.boolean() }),
+  
+  getFeatures: () =>
+    api.get<TenantFeatures>('/subscriptions/features', { schema: tenantFeaturesSchema }),
+};
+
+// Subscription Admin API (SuperAdmin)
+export const subscriptionAdminAPI = {
+  getByTenant: (tenantId: number) =>
+    api.get<TenantSubscriptionsResponse>(`/admin/subscriptions/tenant/${tenantId}`, { schema: tenantSubscriptionsResponseSchema }),
+  
+  extendTrial: (subscriptionId: number, data: ExtendTrialRequest) =>
+    api.post<MessageResponse>(`/admin/subscriptions/${subscriptionId}/extend-trial`, data, { schema: messageResponseSchema }),
+  
+  changePlan: (subscriptionId: number, data: AdminChangePlanRequest) =>
+    api.post<MessageResponse>(`/admin/subscriptions/${subscriptionId}/change-plan`, data, { schema: messageResponseSchema }),
+};
+
+// Platform Metrics API (SuperAdmin)
+export const metricsAdminAPI = {
+  getOverview: (startDate?: string, endDate?: string) =>
+    api.get<MetricsOverview>('/admin/metrics/overview', { params: { startDate, endDate }, schema: metricsOverviewSchema }),
+  
+  getRevenueTrends: (months = 12) =>
+    api.get<{ trends: RevenueTrendPoint[] }>('/admin/metrics/revenue-trends', { params: { months }, schema: revenueTrendsSchema }),
+  
+  getTenantGrowth: (months = 12) =>
+    api.get<{ trends: TenantGrowthPoint[] }>('/admin/metrics/tenant-growth', { params: { months }, schema: tenantGrowthSchema }),
+  
+  getChurnAnalysis: (months = 12) =>
+    api.get<ChurnAnalysis>('/admin/metrics/churn-analysis', { params: { months }, schema: churnAnalysisSchema }),
+};
+
+// Usage Metrics API
+export const usageMetricsAPI = {
+  // Omit tenantId for the current tenant
+  getSummary: (tenantId?: number) =>
+    api.get<UsageSummary>('/usagemetrics/summary', { params: { tenantId }, schema: usageSummarySchema }),
+  
+  getBreakdown: (tenantId: number) =>
+    api.get<Record<string, unknown>>('/usagemetrics/breakdown', { params: { tenantId }, schema: z.record(z.string(), z.unknown()) }),
+  
+  getEmployeeCount: (tenantId: number) =>
+    api.get<{ count: number }>('/usagemetrics/employees/count', { params: { tenantId }, schema: countSchema }),
+  
+  getStorage: (tenantId: number) =>
+    api.get<{ storageBytes: number; storageMB: number; storageGB: number }>('/usagemetrics/storage', {
+      params: { tenantId },
+    }),
+  
+  getApiRequestCount: (tenantId: number, fromDate?: string) =>
+    api.get<{ count: number; fromDate: string }>('/usagemetrics/api-requests', {
+      params: { tenantId, fromDate },
+    }),
+  
+  getDashboard: (startDate?: string, endDate?: string) =>
+    api.get<DashboardOverview>('/usagemetrics/dashboard', { params: { startDate, endDate }, schema: dashboardOverviewSchema }),
+  
+  getHistory: (params: UsageHistoryParams) =>
+    api.get<UsageHistory>('/usagemetrics/history', { params, schema: usageHistorySchema }),
+};
+
+// User Management API (SuperAdmin)
+export const userManagementAPI = {
+  getUsers: () =>
+    api.get<ManagedUser[]>('/usermanagement/users', { schema: z.array(managedUserSchema) }),
+  
+  getRoles: () =>
+    api.get<string[]>('/usermanagement/roles', { schema: stringListSchema }),
+  
+  createUser: (data: CreateUserRequest) =>
+    api.post<MessageResponse>('/usermanagement/create-user', data, { schema: messageResponseSchema }),
+  
+  updateRole: (userId: string, role: string) =>
+    api.put<MessageResponse>(`/usermanagement/update-role/${userId}`, { role }, { schema: messageResponseSchema }),
+  
+  toggleStatus: (userId: string) =>
+    api.put<ToggleUserStatusResponse>(`/usermanagement/toggle-status/${userId}`, null, { schema: toggleUserStatusResponseSchema }),
+  
+  resetPassword: (userId: string, newPassword: string) =>
+    api.post<MessageResponse>(`/usermanagement/reset-password/${userId}`, { newPassword }, { schema: messageResponseSchema }),
+};
+
+// Modules API
+export const modulesAPI = {
+  getTree: () =>
+    api.get<ModuleTreeNode[]>('/modules', { schema: z.array(moduleTreeNodeSchema) }),
+  
+  seed: () =>
+    api.post<MessageResponse>('/modules/seed', null, { schema: messageResponseSchema }),
+  
+  addMissing: () =>
+    api.post<MessageResponse>('/modules/add-missing', null, { schema: messageResponseSchema }),
+};
+
+// Role Permissions API
+export const rolePermissionsAPI = {
+  getAll: () =>
+    api.get<RolePermission[]>('/rolepermissions', { schema: z.array(rolePermissionSchema) }),
+  
+  getMine: () =>
+    api.get<RolePermission[]>('/rolepermissions/my-permissions', { schema: z.array(rolePermissionSchema) }),
+  
+  getByRole: (roleName: string) =>
+    api.get<RolePermission[]>(`/rolepermissions/role/${encodeURIComponent(roleName)}`, { schema: z.array(rolePermissionSchema) }),
+  
+  initialize: () =>
+    api.post<MessageResponse>('/rolepermissions/initialize', null, { schema: messageResponseSchema }),
+  
+  bulkUpdate: (data: BulkUpdateRolePermissionsRequest) =>
+    api.put<MessageResponse>('/rolepermissions/bulk-update', data, { schema: messageResponseSchema }),
+  
+  update: (id: number, data: RolePermissionUpdate) =>
+    api.put<MessageResponse>(`/rolepermissions/${id}`, data, { schema: messageResponseSchema }),
+  
+  reset: () =>
+    api.delete<MessageResponse>('/rolepermissions/reset', { schema: messageResponseSchema }),
+  
+  addMissing: () =>
+    api.post<MessageResponse>('/rolepermissions/add-missing', null, { schema: messageResponseSchema }),
+  
+  getSnapshots: () =>
+    api.get<RolePermissionSnapshot[]>('/rolepermissions/snapshots', { schema: z.array(rolePermissionSnapshotSchema) }),
+  
+  getSnapshot: (id: number) =>
+    api.get<RolePermissionSnapshotDetail>(`/rolepermissions/snapshots/${id}`, { schema: rolePermissionSnapshotDetailSchema }),
+  
+  createSnapshot: (data: CreateRolePermissionSnapshotRequest) =>
+    api.post<RolePermissionSnapshot>('/rolepermissions/snapshots', data, { schema: rolePermissionSnapshotSchema }),
+  
+  restoreSnapshot: (id: number) =>
+    api.post<MessageResponse>(`/rolepermissions/snapshots/${id}/restore`, null, { schema: messageResponseSchema }),
+};
+
+// Tenant Roles API
+export const tenantRoleAPI = {
+  getAll: () =>
+    api.get<TenantRole[]>('/tenantroles', { schema: z.array(tenantRoleSchema) }),
+  
+  create: (data: CreateTenantRoleRequest) =>
+    api.post<TenantRole>('/tenantroles', data, { schema: tenantRoleSchema }),
+  
+  update: (id: number, data: UpdateTenantRoleRequest) =>
+    api.put<TenantRole>(`/tenantroles/${id}`, data, { schema: tenantRoleSchema }),
+  
+  delete: (id: number) =>
+    api.delete(`/tenantroles/${id}`),
 };
 
 export default api;
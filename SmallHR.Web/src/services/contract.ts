@@ -0,0 +1,175 @@
+import type { AxiosResponse } from 'axios';
+import { z } from 'zod';
+import type { ZodType } from 'zod';
+import { useContractViolationsStore } from '../store/contractViolationsStore';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Expected response shape; checked by the response interceptor in ./api
+    schema?: ZodType;
+  }
+}
+
+export interface ContractViolationReport {
+  method: string;
+  url: string;
+  issues: string[];
+}
+
+type ContractTelemetryHandler = (report: ContractViolationReport) => void;
+
+let telemetryHandler: ContractTelemetryHandler | null = null;
+
+// Production hook for reporting API drift (e.g. forward to an error tracker)
+export function setContractTelemetryHandler(handler: ContractTelemetryHandler | null) {
+  telemetryHandler = handler;
+}
+
+const isDev = () => Boolean((import.meta as any)?.env?.DEV);
+
+// Mirrors System.Text.Json camelCase naming: leading upper-case run is lowered ("ID" -> "id", "URLPath" -> "urlPath")
+const isUpper = (ch: string) => ch !== ch.toLowerCase();
+
+function toCamelCase(key: string): string {
+  if (!key || !isUpper(key[0])) return key;
+  const chars = key.split('');
+  for (let i = 0; i < chars.length; i++) {
+    if (i === 1 && !isUpper(chars[i])) break;
+    if (i > 0 && i + 1 < chars.length && !isUpper(chars[i + 1])) break;
+    chars[i] = chars[i].toLowerCase();
+  }
+  return chars.join('');
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+// Some endpoints (anonymous objects, older controllers) still emit PascalCase; normalize everything here.
+// Used where no schema says otherwise (error bodies, unvalidated responses).
+export function normalizeKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normalizeKeys);
+  if (isPlainObject(value)) {
+    return normalizeObject(value, () => undefined);
+  }
+  return value;
+}
+
+function normalizeObject(value: Record<string, unknown>, schemaFor: (key: string) => ZodType | undefined) {
+  const result: Record<string, unknown> = {};
+  for (const [key, inner] of Object.entries(value)) {
+    const camel = toCamelCase(key);
+    // Prefer an explicit camelCase key if the payload somehow carries both
+    if (camel !== key && camel in value) continue;
+    const schema = schemaFor(camel);
+    result[camel] = schema ? normalizeWithSchema(inner, schema) : normalizeKeys(inner);
+  }
+  return result;
+}
+
+// Wrappers that do not change the shape of the value they hold
+function unwrapSchema(schema: ZodType): ZodType {
+  let current: ZodType = schema;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable || current instanceof z.ZodDefault) {
+      current = current.unwrap() as ZodType;
+    } else if (current instanceof z.ZodPipe) {
+      current = current.in as ZodType;
+    } else if (current instanceof z.ZodLazy) {
+      current = current.unwrap() as ZodType;
+    } else {
+      return current;
+    }
+  }
+}
+
+// Walks the schema alongside the payload. Record keys are data (feature keys, ids), so they are kept verbatim
+// and only their values are normalized; every other object gets the same camelCase treatment as normalizeKeys.
+export function normalizeWithSchema(value: unknown, schema: ZodType): unknown {
+  const shape = unwrapSchema(schema);
+
+  if (shape instanceof z.ZodUnion) {
+    // Use the first branch the normalized value satisfies; otherwise fall back to the generic rule
+    for (const option of shape.options as readonly ZodType[]) {
+      const candidate = normalizeWithSchema(value, option);
+      if (option.safeParse(candidate).success) return candidate;
+    }
+    return normalizeKeys(value);
+  }
+
+  if (Array.isArray(value)) {
+    const element = shape instanceof z.ZodArray ? (shape.element as ZodType) : undefined;
+    return value.map(item => (element ? normalizeWithSchema(item, element) : normalizeKeys(item)));
+  }
+
+  if (!isPlainObject(value)) return value;
+
+  if (shape instanceof z.ZodRecord) {
+    const valueType = shape.valueType as ZodType;
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, normalizeWithSchema(inner, valueType)]));
+  }
+
+  if (shape instanceof z.ZodObject) {
+    const fields = shape.shape as Record<string, ZodType>;
+    return normalizeObject(value, key => (Object.prototype.hasOwnProperty.call(fields, key) ? fields[key] : undefined));
+  }
+
+  return normalizeKeys(value);
+}
+
+export function reportContractViolation(report: ContractViolationReport) {
+  if (isDev()) {
+    useContractViolationsStore.getState().record(report);
+    console.error(`API contract violation: ${report.method} ${report.url}`, report.issues);
+    return;
+  }
+  if (telemetryHandler) {
+    try {
+      telemetryHandler(report);
+    } catch {
+      // Telemetry must never break the request
+    }
+    return;
+  }
+  console.warn(`API contract violation: ${report.method} ${report.url}`, report.issues);
+}
+
+// Thrown instead of resolving when a response does not match its schema, so typed results are always validated
+export class ContractViolationError extends Error {
+  readonly report: ContractViolationReport;
+
+  constructor(report: ContractViolationReport) {
+    super(`API contract violation: ${report.method} ${report.url}`);
+    this.name = 'ContractViolationError';
+    this.report = report;
+  }
+}
+
+// Normalizes response keys and validates the body against the schema attached to the request.
+// Requests with a schema resolve with the parsed data or reject with ContractViolationError;
+// requests without one resolve with the normalized, unvalidated body.
+export function applyContract<T>(response: AxiosResponse<T>): AxiosResponse<T> {
+  const { config } = response;
+  if (config.responseType === 'blob' || config.responseType === 'arraybuffer') {
+    return response;
+  }
+
+  const schema = config.schema;
+  if (!schema) {
+    response.data = normalizeKeys(response.data) as T;
+    return response;
+  }
+
+  const result = schema.safeParse(normalizeWithSchema(response.data, schema));
+  if (result.success) {
+    response.data = result.data as T;
+    return response;
+  }
+
+  const report: ContractViolationReport = {
+    method: (config.method || 'get').toUpperCase(),
+    url: config.url || '',
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+  reportContractViolation(report);
+  throw new ContractViolationError(report);
+}
@@ -0,0 +1,56 @@
+import api, { tenantAdminAPI } from './api';
+import { invalidateQueries } from './queryClient';
+import type { ImpersonateResponse } from '../types/api';
+
+const TOKEN_KEY = 'impersonationToken';
+const TENANT_KEY = 'impersonatedTenant';
+
+export interface ImpersonatedTenant {
+  id: number;
+  name: string;
+  expiresAt: string;
+}
+
+// Set while this tab is stopping, so the server's impersonation.ended echo is not mistaken for a remote stop
+let stopping = false;
+
+export const getImpersonatedTenant = (): ImpersonatedTenant | null => {
+  const raw = localStorage.getItem(TENANT_KEY);
+  if (!localStorage.getItem(TOKEN_KEY) || !raw) return null;
+  try {
+    return JSON.parse(raw) as ImpersonatedTenant;
+  } catch (e) {
+    console.error('Error parsing impersonation data:', e);
+    return null;
+  }
+};
+
+// The token is kept in localStorage (shared by tabs) and on this tab's API client
+export const hasImpersonationSession = () =>
+  localStorage.getItem(TOKEN_KEY) !== null || Boolean(api.defaults.headers.common['Authorization']);
+
+export const isStoppingImpersonation = () => stopping;
+
+export const startImpersonationSession = ({ impersonationToken, tenant, expiresAt }: ImpersonateResponse) => {
+  localStorage.setItem(TOKEN_KEY, impersonationToken);
+  localStorage.setItem(TENANT_KEY, JSON.stringify({ id: tenant.id, name: tenant.name, expiresAt }));
+  api.defaults.headers.common['Authorization'] = `Bearer ${impersonationToken}`;
+};
+
+// Drops the impersonation token and refetches everything under the SuperAdmin's own identity
+export const endImpersonationSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(TENANT_KEY);
+  delete api.defaults.headers.common['Authorization'];
+  invalidateQueries([]);
+};
+
+export const stopImpersonation = async () => {
+  stopping = true;
+  try {
+    await tenantAdminAPI.stopImpersonation();
+    endImpersonationSession();
+  } finally {
+    stopping = false;
+  }
+};
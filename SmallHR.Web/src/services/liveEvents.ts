@@ -0,0 +1,81 @@
+import { getApiBaseUrl } from '../utils/api';
+import type { InboxNotification } from '../types/api';
+
+// Payloads pushed by GET /api/events/stream; the names match LiveEventTypes on the API
+export interface LiveEventPayloads {
+  'permissions.changed': { roles: string[] | null }; // null when every role may have changed
+  'alert.created': { id: number; tenantId: number; alertType: string; severity: string };
+  'alert.updated': { ids: number[]; status: string };
+  'impersonation.ended': null;
+  'notification.created': InboxNotification;
+}
+
+export type LiveEventType = keyof LiveEventPayloads;
+
+type Listener<T extends LiveEventType> = (data: LiveEventPayloads[T]) => void;
+
+const LIVE_EVENT_TYPES: LiveEventType[] = [
+  'permissions.changed',
+  'alert.created',
+  'alert.updated',
+  'impersonation.ended',
+  'notification.created',
+];
+
+// EventSource retries dropped connections itself but gives up on an error response (e.g. 401 once the
+// access token expires); after that we reconnect on our own schedule so a refreshed cookie is picked up
+const RECONNECT_DELAY = 30_000;
+
+const listeners = new Map<LiveEventType, Set<Listener<any>>>();
+let source: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+export function subscribeLiveEvent<T extends LiveEventType>(type: T, listener: Listener<T>): () => void {
+  const set = listeners.get(type) ?? new Set<Listener<any>>();
+  set.add(listener);
+  listeners.set(type, set);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(type);
+  };
+}
+
+function emit<T extends LiveEventType>(type: T, data: LiveEventPayloads[T]) {
+  listeners.get(type)?.forEach(listener => {
+    try {
+      listener(data);
+    } catch (error) {
+      console.error(`[LiveEvents] ${type} handler failed:`, error);
+    }
+  });
+}
+
+// Opens the stream for the signed-in user; calling it again while connected is a no-op
+export function connectLiveEvents() {
+  if (source || typeof EventSource === 'undefined') return;
+  clearTimeout(reconnectTimer);
+
+  const stream = new EventSource(`${getApiBaseUrl()}/events/stream`, { withCredentials: true });
+  LIVE_EVENT_TYPES.forEach(type => {
+    stream.addEventListener(type, (event) => {
+      try {
+        const { data } = JSON.parse((event as MessageEvent<string>).data);
+        emit(type, data ?? null);
+      } catch (error) {
+        console.warn(`[LiveEvents] Ignoring malformed ${type} event`, error);
+      }
+    });
+  });
+  stream.onerror = () => {
+    if (stream.readyState !== EventSource.CLOSED) return;
+    source = null;
+    reconnectTimer = setTimeout(connectLiveEvents, RECONNECT_DELAY);
+  };
+  source = stream;
+}
+
+export function disconnectLiveEvents() {
+  clearTimeout(reconnectTimer);
+  source?.close();
+  source = null;
+}
@@ -0,0 +1,238 @@
+import { lazy } from 'react';
+import type { ComponentType, LazyExoticComponent, ReactNode } from 'react';
+import { matchPath } from 'react-router-dom';
+import {
+  DashboardOutlined,
+  TeamOutlined,
+  CalendarOutlined,
+  DollarOutlined,
+  BarChartOutlined,
+  UserOutlined,
+  BellOutlined,
+  SettingOutlined,
+  SafetyOutlined,
+  ApartmentOutlined,
+  ClockCircleOutlined,
+  ScheduleOutlined,
+  NotificationOutlined,
+  CreditCardOutlined,
+} from '@ant-design/icons';
+
+export interface ModuleDefinition {
+  // Route pattern; also the permission page path unless `permission` says otherwise
+  path: string;
+  // Label used when the server has no page row for the module (parents, platform pages, breadcrumbs)
+  name: string;
+  icon: ReactNode;
+  component: LazyExoticComponent<ComponentType>;
+  parent?: string;
+  // Page whose canAccess guards the route
+  permission?: string;
+  // Plan feature key; tenants whose plan lacks it get an upgrade prompt instead of the page (child pages included)
+  feature?: string;
+  // Listed under Administration in the sidebar instead of as its own section
+  admin?: boolean;
+  // Platform pages for SuperAdmin; they have no per-tenant permission rows
+  platform?: boolean;
+  // Detail routes such as /admin/tenants/:id are routed but not listed
+  hideInMenu?: boolean;
+}
+
+// Adding a module is a single entry here; the server decides who sees it through role permissions.
+// Order matters for the Administration section, which lists its entries as declared.
+export const MODULES: ModuleDefinition[] = [
+  {
+    path: '/dashboard',
+    name: 'Dashboard',
+    icon: <DashboardOutlined />,
+    component: lazy(() => import('../pages/DashboardRouter')),
+  },
+  {
+    path: '/employees',
+    name: 'Employees',
+    icon: <UserOutlined />,
+    component: lazy(() => import('../pages/Employees')),
+  },
+  {
+    path: '/organization',
+    name: 'Organization',
+    icon: <TeamOutlined />,
+    // Organization has no page of its own; it opens the chart
+    component: lazy(() => import('../pages/OrganizationChart')),
+  },
+  {
+    path: '/departments',
+    name: 'Departments',
+    icon: <TeamOutlined />,
+    parent: '/organization',
+    component: lazy(() => import('../pages/Departments')),
+  },
+  {
+    path: '/positions',
+    name: 'Positions',
+    icon: <UserOutlined />,
+    parent: '/organization',
+    component: lazy(() => import('../pages/Positions')),
+  },
+  {
+    path: '/organization/chart',
+    name: 'Org Chart',
+    icon: <ApartmentOutlined />,
+    parent: '/organization',
+    component: lazy(() => import('../pages/OrganizationChart')),
+  },
+  {
+    path: '/attendance',
+    name: 'Attendance',
+    icon: <ClockCircleOutlined />,
+    component: lazy(() => import('../pages/Attendance')),
+  },
+  {
+    path: '/leave',
+    name: 'Leave',
+    icon: <ScheduleOutlined />,
+    component: lazy(() => import('../pages/Leave')),
+  },
+  {
+    path: '/calendar',
+    name: 'Calendar',
+    icon: <CalendarOutlined />,
+    component: lazy(() => import('../pages/Calendar')),
+  },
+  {
+    path: '/notice-board',
+    name: 'Notice Board',
+    icon: <NotificationOutlined />,
+    component: lazy(() => import('../pages/NoticeBoard')),
+  },
+  {
+    path: '/expenses',
+    name: 'Expenses',
+    icon: <DollarOutlined />,
+    component: lazy(() => import('../pages/Expenses')),
+  },
+  {
+    path: '/payroll',
+    name: 'Payroll',
+    icon: <DollarOutlined />,
+    feature: 'payroll',
+    component: lazy(() => import('../pages/Payroll')),
+  },
+  {
+    path: '/payroll/reports',
+    name: 'Payroll Reports',
+    icon: <BarChartOutlined />,
+    parent: '/payroll',
+    feature: 'advanced_analytics',
+    component: lazy(() => import('../pages/PayrollReports')),
+  },
+  {
+    path: '/payroll/settings',
+    name: 'Payroll Settings',
+    icon: <SettingOutlined />,
+    parent: '/payroll',
+    component: lazy(() => import('../pages/PayrollSettings')),
+  },
+  {
+    path: '/tenant-settings',
+    name: 'Tenant Settings',
+    icon: <ApartmentOutlined />,
+    component: lazy(() => import('../pages/TenantSettings')),
+  },
+  {
+    path: '/settings',
+    name: 'Settings',
+    icon: <SettingOutlined />,
+    component: lazy(() => import('../pages/Settings')),
+  },
+  {
+    path: '/admin/dashboard',
+    name: 'SuperAdmin Dashboard',
+    icon: <DashboardOutlined />,
+    admin: true,
+    platform: true,
+    component: lazy(() => import('../pages/SuperAdminDashboard')),
+  },
+  {
+    path: '/admin/tenants',
+    name: 'Tenants',
+    icon: <ApartmentOutlined />,
+    admin: true,
+    platform: true,
+    component: lazy(() => import('../pages/TenantsList')),
+  },
+  {
+    path: '/admin/tenants/:id',
+    name: 'Tenant Details',
+    icon: <ApartmentOutlined />,
+    parent: '/admin/tenants',
+    permission: '/admin/tenants',
+    platform: true,
+    hideInMenu: true,
+    component: lazy(() => import('../pages/TenantDetail')),
+  },
+  {
+    path: '/admin/billing',
+    name: 'Billing Center',
+    icon: <DollarOutlined />,
+    admin: true,
+    platform: true,
+    component: lazy(() => import('../pages/BillingCenter')),
+  },
+  {
+    path: '/admin/alerts',
+    name: 'Alerts Hub',
+    icon: <BellOutlined />,
+    admin: true,
+    platform: true,
+    component: lazy(() => import('../pages/AlertsHub')),
+  },
+  {
+    path: '/admin/usage',
+    name: 'Usage Dashboard',
+    icon: <BarChartOutlined />,
+    admin: true,
+    platform: true,
+    component: lazy(() => import('../pages/UsageDashboard')),
+  },
+  {
+    path: '/billing',
+    name: 'Billing',
+    icon: <CreditCardOutlined />,
+    admin: true,
+    component: lazy(() => import('../pages/Billing')),
+  },
+  {
+    path: '/role-permissions',
+    name: 'Role Permissions',
+    icon: <SafetyOutlined />,
+    admin: true,
+    component: lazy(() => import('../pages/RolePermissions')),
+  },
+];
+
+const modulesByPath = new Map(MODULES.map(m => [m.path, m]));
+
+// Pages the server knows about but this build does not render yet
+const UNKNOWN_MODULE_ICON = <BellOutlined />;
+
+export const getModule = (path: string): ModuleDefinition | undefined => modulesByPath.get(path);
+
+export const getModuleIcon = (path: string): ReactNode => getModule(path)?.icon ?? UNKNOWN_MODULE_ICON;
+
+export const getModulePermission = (module: ModuleDefinition): string => module.permission ?? module.path;
+
+// Resolves a concrete location such as /admin/tenants/42 to its module
+export const findModuleForLocation = (pathname: string): ModuleDefinition | undefined =>
+  modulesByPath.get(pathname) ?? MODULES.find(m => m.path.includes(':') && matchPath(m.path, pathname));
+
+// The module followed by its parents, outermost last
+export const getModuleTrail = (module: ModuleDefinition): ModuleDefinition[] => {
+  const trail = [module];
+  let parent = module.parent ? getModule(module.parent) : undefined;
+  while (parent) {
+    trail.push(parent);
+    parent = parent.parent ? getModule(parent.parent) : undefined;
+  }
+  return trail;
+};
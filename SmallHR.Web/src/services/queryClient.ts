@@ -0,0 +1,135 @@
+import { useQueryStore } from '../store/queryStore';
+import type { QueryEntry, QueryKey } from '../store/queryStore';
+
+export type { QueryKey };
+
+type Fetcher<T> = () => Promise<T>;
+
+// Cached data younger than this is served without hitting the API
+export const DEFAULT_STALE_TIME = 30_000;
+
+const inFlight = new Map<string, Promise<unknown>>();
+// Bumped on invalidation so a response that started before it cannot overwrite fresher data
+const versions = new Map<string, number>();
+// Mounted useQuery observers, used to refetch what is on screen after an invalidation
+const observers = new Map<string, { key: QueryKey; fetchers: Set<Fetcher<unknown>> }>();
+
+function stableValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stableValue);
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+      .reduce<Record<string, unknown>>((acc, k) => {
+        acc[k] = stableValue((value as Record<string, unknown>)[k]);
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(stableValue(key));
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  if (prefix.length > key.length) return false;
+  return prefix.every((part, i) => hashKey([part]) === hashKey([key[i]]));
+}
+
+function getEntry<T>(hash: string): QueryEntry<T> | undefined {
+  return useQueryStore.getState().entries[hash] as QueryEntry<T> | undefined;
+}
+
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return getEntry<T>(hashKey(key))?.data;
+}
+
+export function setQueryData<T>(key: QueryKey, updater: T | ((current: T | undefined) => T)) {
+  const hash = hashKey(key);
+  const current = getEntry<T>(hash)?.data;
+  const data = typeof updater === 'function' ? (updater as (c: T | undefined) => T)(current) : updater;
+  useQueryStore.getState().patch(hash, key, { data, status: 'success', error: undefined, updatedAt: Date.now() });
+}
+
+// Returns cached data while fresh; otherwise fetches, sharing one request between concurrent callers
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: Fetcher<T>,
+  options: { staleTime?: number; force?: boolean } = {}
+): Promise<T> {
+  const { staleTime = DEFAULT_STALE_TIME, force = false } = options;
+  const hash = hashKey(key);
+  const entry = getEntry<T>(hash);
+
+  if (!force && entry?.status === 'success' && entry.updatedAt > 0 && Date.now() - entry.updatedAt < staleTime) {
+    return Promise.resolve(entry.data as T);
+  }
+
+  const pending = inFlight.get(hash);
+  if (pending) return pending as Promise<T>;
+
+  const { patch } = useQueryStore.getState();
+  const version = versions.get(hash) ?? 0;
+  patch(hash, key, { isFetching: true, status: entry?.data !== undefined ? entry.status : 'loading' });
+
+  const request = fetcher()
+    .then((data) => {
+      if ((versions.get(hash) ?? 0) === version) {
+        patch(hash, key, { data, error: undefined, status: 'success', updatedAt: Date.now(), isFetching: false });
+      }
+      return data;
+    }, (error) => {
+      if ((versions.get(hash) ?? 0) === version) {
+        patch(hash, key, { error, status: 'error', isFetching: false });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (inFlight.get(hash) === request) inFlight.delete(hash);
+    });
+
+  inFlight.set(hash, request);
+  return request;
+}
+
+// Marks every query under the prefix stale and refetches the ones currently mounted
+export function invalidateQueries(prefix: QueryKey): Promise<void> {
+  const { entries, patch } = useQueryStore.getState();
+  const refetches: Promise<unknown>[] = [];
+
+  for (const [hash, entry] of Object.entries(entries)) {
+    if (!matchesPrefix(entry.key, prefix)) continue;
+    versions.set(hash, (versions.get(hash) ?? 0) + 1);
+    inFlight.delete(hash);
+    patch(hash, entry.key, { updatedAt: 0, isFetching: false });
+
+    const observer = observers.get(hash);
+    const fetcher = observer?.fetchers.values().next().value;
+    if (observer && fetcher) {
+      refetches.push(fetchQuery(observer.key, fetcher, { force: true }).catch(() => undefined));
+    }
+  }
+
+  return Promise.all(refetches).then(() => undefined);
+}
+
+export function subscribeQuery<T>(key: QueryKey, fetcher: Fetcher<T>): () => void {
+  const hash = hashKey(key);
+  const observer = observers.get(hash) ?? { key, fetchers: new Set<Fetcher<unknown>>() };
+  observer.fetchers.add(fetcher);
+  observers.set(hash, observer);
+  return () => {
+    observer.fetchers.delete(fetcher);
+    if (observer.fetchers.size === 0) observers.delete(hash);
+  };
+}
+
+// Drops all cached server state (logout, tenant switch, impersonation)
+export function clearQueryCache() {
+  for (const hash of inFlight.keys()) {
+    versions.set(hash, (versions.get(hash) ?? 0) + 1);
+  }
+  inFlight.clear();
+  useQueryStore.getState().clear();
+}
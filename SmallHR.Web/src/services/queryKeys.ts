@@ -0,0 +1,148 @@
+import type {
+  AlertListParams,
+  AuditLogParams,
+  EmployeeSearchRequest,
+  InboxListParams,
+  TenantListParams,
+  UsageHistoryParams,
+  WebhookEventParams,
+} from '../types/api';
+import { invalidateQueries } from './queryClient';
+
+// Cache keys for server state. Invalidating a prefix (e.g. queryKeys.employees.all) covers every query below it.
+export const queryKeys = {
+  account: {
+    all: ['account'] as const,
+    sessions: () => ['account', 'sessions'] as const,
+  },
+  employees: {
+    all: ['employees'] as const,
+    list: () => ['employees', 'list'] as const,
+    active: () => ['employees', 'active'] as const,
+    search: (params: EmployeeSearchRequest) => ['employees', 'search', params] as const,
+    me: () => ['employees', 'me'] as const,
+  },
+  attendance: {
+    all: ['attendance'] as const,
+    month: (employeeId: number, year: number, month: number) => ['attendance', 'month', employeeId, year, month] as const,
+    range: (employeeId: number, startDate: string, endDate: string) =>
+      ['attendance', 'range', employeeId, startDate, endDate] as const,
+    summary: (startDate: string, endDate: string) => ['attendance', 'summary', startDate, endDate] as const,
+  },
+  leaveRequests: {
+    all: ['leaveRequests'] as const,
+    pending: () => ['leaveRequests', 'pending'] as const,
+    employee: (employeeId: number) => ['leaveRequests', 'employee', employeeId] as const,
+    history: (status?: string, startDate?: string, endDate?: string) =>
+      ['leaveRequests', 'history', status ?? null, startDate ?? null, endDate ?? null] as const,
+    totalDays: (employeeId: number, year: number, leaveTypes: string[]) =>
+      ['leaveRequests', 'totalDays', employeeId, year, leaveTypes] as const,
+  },
+  leavePolicies: {
+    all: ['leavePolicies'] as const,
+    list: () => ['leavePolicies', 'list'] as const,
+  },
+  payroll: {
+    all: ['payroll'] as const,
+    settings: () => ['payroll', 'settings'] as const,
+    runs: (year?: number) => ['payroll', 'runs', year ?? null] as const,
+    run: (id: number) => ['payroll', 'run', id] as const,
+    myPayslips: () => ['payroll', 'payslips', 'me'] as const,
+    departmentSummary: (year: number, month?: number) => ['payroll', 'departments', year, month ?? null] as const,
+  },
+  calendar: {
+    all: ['calendar'] as const,
+    entries: (startDate: string, endDate: string, department?: string) =>
+      ['calendar', 'entries', startDate, endDate, department ?? null] as const,
+  },
+  notices: {
+    all: ['notices'] as const,
+    mine: () => ['notices', 'mine'] as const,
+    unreadCount: () => ['notices', 'unread-count'] as const,
+    manage: () => ['notices', 'manage'] as const,
+    receipts: (id: number) => ['notices', 'receipts', id] as const,
+  },
+  inbox: {
+    all: ['inbox'] as const,
+    list: (params: InboxListParams) => ['inbox', 'list', params] as const,
+    unreadCount: () => ['inbox', 'unread-count'] as const,
+  },
+  expenses: {
+    all: ['expenses'] as const,
+    mine: () => ['expenses', 'mine'] as const,
+    team: () => ['expenses', 'team'] as const,
+    list: (status?: string) => ['expenses', 'list', status ?? null] as const,
+    batches: () => ['expenses', 'batches'] as const,
+  },
+  departments: {
+    all: ['departments'] as const,
+    list: (tenantId?: string) => ['departments', 'list', tenantId ?? null] as const,
+    names: () => ['departments', 'names'] as const,
+  },
+  positions: {
+    all: ['positions'] as const,
+    list: (tenantId?: string) => ['positions', 'list', tenantId ?? null] as const,
+    titles: () => ['positions', 'titles'] as const,
+  },
+  tenants: {
+    all: ['tenants'] as const,
+    summaries: () => ['tenants', 'summaries'] as const,
+    plans: () => ['tenants', 'plans'] as const,
+    adminList: (params: TenantListParams) => ['tenants', 'admin', 'list', params] as const,
+    detail: (id: number | string) => ['tenants', 'admin', 'detail', String(id)] as const,
+  },
+  auditLogs: {
+    all: ['auditLogs'] as const,
+    list: (params: AuditLogParams) => ['auditLogs', 'list', params] as const,
+  },
+  alerts: {
+    all: ['alerts'] as const,
+    list: (params: AlertListParams) => ['alerts', 'list', params] as const,
+    statistics: () => ['alerts', 'statistics'] as const,
+  },
+  billing: {
+    all: ['billing'] as const,
+    webhooks: (params: WebhookEventParams) => ['billing', 'webhooks', params] as const,
+  },
+  subscriptions: {
+    all: ['subscriptions'] as const,
+    features: () => ['subscriptions', 'features'] as const,
+    current: () => ['subscriptions', 'current'] as const,
+    plans: () => ['subscriptions', 'plans'] as const,
+    usage: () => ['subscriptions', 'usage'] as const,
+    preview: (planId: number) => ['subscriptions', 'preview', planId] as const,
+  },
+  usage: {
+    all: ['usage'] as const,
+    dashboard: (startDate?: string, endDate?: string) => ['usage', 'dashboard', startDate ?? null, endDate ?? null] as const,
+    history: (params: UsageHistoryParams) => ['usage', 'history', params] as const,
+  },
+  users: {
+    all: ['users'] as const,
+    list: () => ['users', 'list'] as const,
+    roles: () => ['users', 'roles'] as const,
+  },
+  rolePermissions: {
+    all: ['rolePermissions'] as const,
+    list: () => ['rolePermissions', 'list'] as const,
+    mine: () => ['rolePermissions', 'mine'] as const,
+    snapshots: () => ['rolePermissions', 'snapshots'] as const,
+  },
+  tenantRoles: {
+    all: ['tenantRoles'] as const,
+    list: () => ['tenantRoles', 'list'] as const,
+  },
+  modules: {
+    all: ['modules'] as const,
+    mine: () => ['modules', 'mine'] as const,
+  },
+};
+
+// Employee changes move department head counts, the department/position lookups and plan usage
+export const invalidateEmployeeQueries = () =>
+  Promise.all([
+    invalidateQueries(queryKeys.employees.all),
+    invalidateQueries(queryKeys.departments.all),
+    invalidateQueries(queryKeys.positions.all),
+    invalidateQueries(queryKeys.subscriptions.features()),
+  ]).then(() => undefined);
@@ -1,19 +1,24 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { User, RolePermission } from '../types/api';
-import axios from 'axios';
-import { authAPI } from '../services/api';
+import { authAPI, rolePermissionsAPI, setActiveRoleHeader } from '../services/api';
+import { clearQueryCache, fetchQuery } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
+import { useModulesStore } from './modulesStore';
+import { usePermissionPreviewStore } from './permissionPreviewStore';
 
 interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   permissions: RolePermission[];
   permissionsLoaded: boolean;
+  activeRole: string | null; // null acts in every role the user holds
   login: (user: User) => Promise<void>;
   logout: () => Promise<void>;
   updateUser: (user: User) => void;
   setPermissions: (permissions: RolePermission[]) => void;
   fetchPermissions: () => Promise<void>;
+  setActiveRole: (role: string | null) => Promise<void>;
 }
 
 export const useAuthStore = create<AuthState>()(
@@ -23,13 +28,17 @@ export const useAuthStore = create<AuthState>()(
       isAuthenticated: false,
       permissions: [],
       permissionsLoaded: false,
+      activeRole: null,
       
       login: async (user) => {
         // Tokens are stored in httpOnly cookies by backend
         // We only store user info in the auth state
+        clearQueryCache();
+        setActiveRoleHeader(null);
         set({
           user,
           isAuthenticated: true,
+          activeRole: null,
         });
         
         // Fetch permissions after login
@@ -44,11 +53,15 @@ export const useAuthStore = create<AuthState>()(
           console.error('Logout error:', error);
         }
         
+        clearQueryCache();
+        setActiveRoleHeader(null);
+        usePermissionPreviewStore.getState().stopPreview();
         set({
           user: null,
           isAuthenticated: false,
           permissions: [],
           permissionsLoaded: false,
+          activeRole: null,
         });
       },
       
@@ -63,23 +76,22 @@ export const useAuthStore = create<AuthState>()(
       fetchPermissions: async () => {
         const { user } = get();
         
-        if (!user?.roles?.[0]) {
+        if (!user?.roles?.length) {
           console.warn('[Session] Cannot fetch permissions: no role');
           set({ permissionsLoaded: true });
           return;
         }
 
         try {
-          console.log('[Session] Fetching permissions for user role:', user.roles[0]);
+          console.log('[Session] Fetching permissions for user roles:', get().activeRole ?? user.roles.join(', '));
           // Token is sent via httpOnly cookie automatically
-          const response = await axios.get(
-            'http://localhost:5192/api/RolePermissions/my-permissions',
-            { withCredentials: true }
+          const permissions = await fetchQuery(queryKeys.rolePermissions.mine(), () =>
+            rolePermissionsAPI.getMine().then(res => res.data)
           );
           
-          console.log(`[Session] Loaded ${response.data.length} permissions`, response.data);
+          console.log(`[Session] Loaded ${permissions.length} permissions`, permissions);
           set({ 
-            permissions: response.data, 
+            permissions, 
             permissionsLoaded: true 
           });
         } catch (error) {
@@ -91,6 +103,14 @@ export const useAuthStore = create<AuthState>()(
           });
         }
       },
+
+      setActiveRole: async (role) => {
+        setActiveRoleHeader(role);
+        // Everything cached so far was fetched with the previous role set
+        clearQueryCache();
+        set({ activeRole: role });
+        await Promise.all([get().fetchPermissions(), useModulesStore.getState().refresh(true)]);
+      },
     }),
     {
       name: 'auth-storage',
@@ -99,7 +119,11 @@ export const useAuthStore = create<AuthState>()(
         isAuthenticated: state.isAuthenticated,
         permissions: state.permissions,
         permissionsLoaded: state.permissionsLoaded,
+        activeRole: state.activeRole,
       }),
+      onRehydrateStorage: () => (state) => {
+        setActiveRoleHeader(state?.activeRole ?? null);
+      },
     }
   )
 );
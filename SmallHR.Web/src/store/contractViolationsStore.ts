@@ -0,0 +1,39 @@
+import { create } from 'zustand';
+
+export interface ContractViolation {
+  id: string;
+  method: string;
+  url: string;
+  issues: string[];
+  count: number;
+  lastSeenAt: string;
+}
+
+interface ContractViolationsState {
+  violations: ContractViolation[];
+  record: (violation: Omit<ContractViolation, 'id' | 'count' | 'lastSeenAt'>) => void;
+  dismiss: (id: string) => void;
+  clear: () => void;
+}
+
+const MAX_VIOLATIONS = 20;
+
+export const useContractViolationsStore = create<ContractViolationsState>((set) => ({
+  violations: [],
+  record: (violation) => {
+    // Repeated responses from the same endpoint collapse into one entry
+    const id = `${violation.method} ${violation.url}`;
+    const lastSeenAt = new Date().toISOString();
+    set((state) => {
+      const existing = state.violations.find(v => v.id === id);
+      const next: ContractViolation = existing
+        ? { ...existing, issues: violation.issues, count: existing.count + 1, lastSeenAt }
+        : { ...violation, id, count: 1, lastSeenAt };
+      return {
+        violations: [next, ...state.violations.filter(v => v.id !== id)].slice(0, MAX_VIOLATIONS),
+      };
+    });
+  },
+  dismiss: (id) => set((state) => ({ violations: state.violations.filter(v => v.id !== id) })),
+  clear: () => set({ violations: [] }),
+}));
@@ -1,22 +1,25 @@
 import { create } from 'zustand';
 import type { ModuleNode } from '../services/modules';
 import { fetchModulesForCurrentUser } from '../services/modules';
+import { fetchQuery } from '../services/queryClient';
+import { queryKeys } from '../services/queryKeys';
 
 interface ModulesState {
   modules: ModuleNode[];
   loading: boolean;
   error?: string;
-  refresh: () => Promise<void>;
+  refresh: (force?: boolean) => Promise<void>;
 }
 
-export const useModulesStore = create<ModulesState>((set) => ({
+export const useModulesStore = create<ModulesState>((set, get) => ({
   modules: [],
   loading: false,
   error: undefined,
-  refresh: async () => {
-    set({ loading: true, error: undefined });
+  // Sidebar, AppShell and RolePermissions all call this on mount; the query cache collapses them into one request
+  refresh: async (force = false) => {
+    set({ loading: get().modules.length === 0, error: undefined });
     try {
-      const mods = await fetchModulesForCurrentUser();
+      const mods = await fetchQuery(queryKeys.modules.mine(), fetchModulesForCurrentUser, { force });
       set({ modules: mods, loading: false });
     } catch (e: any) {
       set({ error: e?.message || 'Failed to load modules', loading: false });
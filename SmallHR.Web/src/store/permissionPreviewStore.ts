@@ -0,0 +1,18 @@
+import { create } from 'zustand';
+import type { RolePermission } from '../types/api';
+
+interface PermissionPreviewState {
+  role: string | null; // null when not previewing
+  permissions: RolePermission[];
+  startPreview: (role: string, permissions: RolePermission[]) => void;
+  stopPreview: () => void;
+}
+
+// Client-side only: the sidebar and route guards render as the role would see them,
+// while API calls still run with the signed-in user's own roles
+export const usePermissionPreviewStore = create<PermissionPreviewState>((set) => ({
+  role: null,
+  permissions: [],
+  startPreview: (role, permissions) => set({ role, permissions }),
+  stopPreview: () => set({ role: null, permissions: [] }),
+}));
@@ -0,0 +1,31 @@
+import { create } from 'zustand';
+
+export type QueryKey = readonly unknown[];
+
+export type QueryStatus = 'loading' | 'success' | 'error';
+
+export interface QueryEntry<T = unknown> {
+  key: QueryKey;
+  status: QueryStatus;
+  data?: T;
+  error?: unknown;
+  // 0 means stale (never loaded or invalidated)
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface QueryState {
+  entries: Record<string, QueryEntry>;
+  patch: (hash: string, key: QueryKey, update: Partial<QueryEntry>) => void;
+  clear: () => void;
+}
+
+export const useQueryStore = create<QueryState>((set) => ({
+  entries: {},
+  patch: (hash, key, update) =>
+    set((state) => {
+      const current: QueryEntry = state.entries[hash] ?? { key, status: 'loading', updatedAt: 0, isFetching: false };
+      return { entries: { ...state.entries, [hash]: { ...current, ...update } } };
+    }),
+  clear: () => set({ entries: {} }),
+}));
@@ -14,6 +14,50 @@ export interface User {
   createdAt: string;
   isActive: boolean;
   roles: string[];
+  // Absent for sessions persisted before preferences existed
+  preferences?: UserPreferences;
+}
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+export interface UserPreferences {
+  themeMode: ThemeMode;
+  palette: string;
+  dateFormat: string;
+  timeFormat: '12h' | '24h';
+  landingPage?: string;
+  mutedNotificationCategories?: NotificationCategory[];
+}
+
+export interface UpdateProfileRequest {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  country?: string;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ChangePasswordResponse {
+  message: string;
+  revokedSessions: number;
+}
+
+export interface UserSession {
+  id: number;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
 }
 
 export interface AuthResponse {
@@ -65,6 +109,7 @@ export interface Employee {
   isActive: boolean;
   role: string;
   userId?: string;
+  managerId?: number;
   createdAt: string;
   updatedAt?: string;
 }
@@ -89,6 +134,7 @@ export interface CreateEmployeeRequest {
   emergencyContactPhone: string;
   emergencyContactRelationship: string;
   role: string;
+  managerId?: number;
 }
 
 export interface UpdateEmployeeRequest {
@@ -111,8 +157,28 @@ export interface UpdateEmployeeRequest {
   emergencyContactRelationship: string;
   isActive: boolean;
   role: string;
+  managerId?: number;
 }
 
+export interface UpdateReportingLineRequest {
+  department: string;
+  managerId?: number;
+}
+
+// Contact details employees may edit on their own record
+export type UpdateMyProfileRequest = Pick<
+  UpdateEmployeeRequest,
+  | 'phoneNumber'
+  | 'address'
+  | 'city'
+  | 'state'
+  | 'zipCode'
+  | 'country'
+  | 'emergencyContactName'
+  | 'emergencyContactPhone'
+  | 'emergencyContactRelationship'
+>;
+
 export interface EmployeeSearchRequest {
   searchTerm?: string;
   department?: string;
@@ -162,6 +228,42 @@ export interface CreateLeaveRequestRequest {
   comments?: string;
 }
 
+export interface UpdateLeaveRequestRequest {
+  startDate: string;
+  endDate: string;
+  leaveType: string;
+  reason: string;
+  comments?: string;
+}
+
+export interface LeavePolicy {
+  id: number;
+  leaveType: string;
+  annualEntitlement: number;
+  accrualPerMonth: number;
+  maxCarryOver: number;
+  probationMonths: number;
+  allowDuringProbation: boolean;
+  proRateFromHireDate: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateLeavePolicyRequest {
+  leaveType: string;
+  annualEntitlement: number;
+  accrualPerMonth: number;
+  maxCarryOver: number;
+  probationMonths: number;
+  allowDuringProbation: boolean;
+  proRateFromHireDate: boolean;
+}
+
+export interface UpdateLeavePolicyRequest extends Omit<CreateLeavePolicyRequest, 'leaveType'> {
+  isActive: boolean;
+}
+
 export interface Attendance {
   id: number;
   employeeId: number;
@@ -179,6 +281,14 @@ export interface Attendance {
   updatedAt?: string;
 }
 
+export interface AttendanceDailySummary {
+  date: string;
+  present: number;
+  late: number;
+  absent: number;
+  totalHours: number;
+}
+
 export interface ClockInRequest {
   employeeId: number;
   clockInTime: string;
@@ -189,6 +299,277 @@ export interface ClockOutRequest {
   clockOutTime: string;
 }
 
+export interface CreateAttendanceRequest {
+  employeeId: number;
+  date: string;
+  clockInTime?: string;
+  clockOutTime?: string;
+  notes?: string;
+}
+
+export interface UpdateAttendanceRequest {
+  clockInTime?: string;
+  clockOutTime?: string;
+  notes?: string;
+}
+
+export type PayRunStatus = 'Draft' | 'Finalized';
+
+export interface PayrollSettings {
+  payDay: number;
+  currency: string;
+  overtimeMultiplier: number;
+  standardHoursPerDay: number;
+  workingDaysPerMonth: number;
+  taxRatePercent: number;
+}
+
+export type UpdatePayrollSettingsRequest = PayrollSettings;
+
+export interface Payslip {
+  id: number;
+  payRunId: number;
+  employeeId: number;
+  employeeName: string;
+  department: string;
+  position: string;
+  year: number;
+  month: number;
+  periodStart: string;
+  periodEnd: string;
+  payDate: string;
+  status: string;
+  currency: string;
+  baseSalary: number;
+  overtimeHours: number;
+  overtimePay: number;
+  unpaidLeaveDays: number;
+  unpaidLeaveDeduction: number;
+  grossPay: number;
+  taxDeduction: number;
+  reimbursements: number;
+  netPay: number;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface PayRun {
+  id: number;
+  year: number;
+  month: number;
+  periodStart: string;
+  periodEnd: string;
+  payDate: string;
+  status: string;
+  currency: string;
+  employeeCount: number;
+  totalGross: number;
+  totalDeductions: number;
+  totalNet: number;
+  finalizedBy?: string;
+  finalizedAt?: string;
+  payslips: Payslip[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreatePayRunRequest {
+  year: number;
+  month: number;
+}
+
+export interface PayrollDepartmentSummary {
+  department: string;
+  employeeCount: number;
+  totalBase: number;
+  totalOvertime: number;
+  totalUnpaidLeave: number;
+  totalGross: number;
+  totalTax: number;
+  totalNet: number;
+}
+
+export type CalendarEntryType = 'Leave' | 'Holiday' | 'Birthday' | 'Anniversary' | 'Event';
+
+export interface CalendarEntry {
+  id: string;
+  type: string;
+  title: string;
+  description?: string;
+  startDate: string;
+  endDate: string;
+  department?: string;
+  employeeId?: number;
+  eventId?: number;
+}
+
+export interface CalendarEvent {
+  id: number;
+  title: string;
+  description?: string;
+  startDate: string;
+  endDate: string;
+  eventType: string;
+  department?: string;
+  location?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateCalendarEventRequest {
+  title: string;
+  description?: string;
+  startDate: string;
+  endDate: string;
+  eventType: 'Event' | 'Holiday';
+  department?: string;
+  location?: string;
+}
+
+export type UpdateCalendarEventRequest = CreateCalendarEventRequest;
+
+export type NoticeStatus = 'Scheduled' | 'Published' | 'Expired';
+
+export interface Notice {
+  id: number;
+  title: string;
+  content: string;
+  targetDepartments: string[];
+  targetRoles: string[];
+  isPinned: boolean;
+  publishAt: string;
+  expiresAt?: string;
+  createdBy?: string;
+  status: string;
+  isRead: boolean;
+  readCount: number;
+  audienceCount: number;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateNoticeRequest {
+  title: string;
+  content: string;
+  targetDepartments: string[];
+  targetRoles: string[];
+  isPinned: boolean;
+  publishAt?: string;
+  expiresAt?: string;
+}
+
+export type UpdateNoticeRequest = CreateNoticeRequest;
+
+export interface NoticeReceipt {
+  userId: string;
+  readerName: string;
+  department?: string;
+  readAt: string;
+}
+
+export type NotificationCategory = 'leave' | 'employees' | 'billing' | 'general';
+
+// An entry in the signed-in user's notification inbox
+export interface InboxNotification {
+  id: number;
+  category: NotificationCategory;
+  title: string;
+  message?: string;
+  link?: string;
+  isRead: boolean;
+  createdAt: string;
+  readAt?: string;
+}
+
+export interface CreateInboxNotificationRequest {
+  category?: NotificationCategory;
+  title: string;
+  message?: string;
+  link?: string;
+}
+
+export interface InboxListParams {
+  unreadOnly?: boolean;
+  pageNumber?: number;
+  pageSize?: number;
+}
+
+export type ExpenseClaimStatus = 'Pending' | 'Approved' | 'Rejected' | 'Reimbursed';
+
+export interface ExpenseItem {
+  id: number;
+  expenseDate: string;
+  category: string;
+  description: string;
+  amount: number;
+}
+
+export interface ExpenseReceipt {
+  id: number;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  createdAt: string;
+}
+
+export interface ExpenseClaim {
+  id: number;
+  employeeId: number;
+  employeeName: string;
+  department: string;
+  managerId?: number;
+  title: string;
+  currency: string;
+  totalAmount: number;
+  status: string;
+  submittedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComments?: string;
+  reimbursementBatchId?: number;
+  batchReference?: string;
+  reimbursedAt?: string;
+  items: ExpenseItem[];
+  receipts: ExpenseReceipt[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateExpenseClaimRequest {
+  title: string;
+  currency: string;
+  items: Array<Omit<ExpenseItem, 'id'>>;
+}
+
+export type UpdateExpenseClaimRequest = CreateExpenseClaimRequest;
+
+export interface ReviewExpenseClaimRequest {
+  status: 'Approved' | 'Rejected';
+  comments?: string;
+}
+
+export interface ReimbursementBatch {
+  id: number;
+  reference: string;
+  payrollYear: number;
+  payrollMonth: number;
+  currency: string;
+  totalAmount: number;
+  claimCount: number;
+  status: string;
+  createdBy?: string;
+  paidAt?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateReimbursementBatchRequest {
+  payrollYear: number;
+  payrollMonth: number;
+  currency: string;
+}
+
 export interface RolePermission {
   id: number;
   roleName: string;
@@ -253,3 +634,747 @@ export interface UpdatePositionRequest {
   isActive: boolean;
 }
 
+
+// Tenant Admin Types
+export interface TenantSubscriptionSummary {
+  planName: string;
+  status: string;
+  currentPeriodEnd: string | null;
+  price: number;
+  billingPeriod: string;
+}
+
+export interface TenantListItem {
+  id: number;
+  name: string;
+  domain: string | null;
+  status: string;
+  isActive: boolean;
+  isSubscriptionActive: boolean;
+  adminEmail: string | null;
+  adminFirstName: string | null;
+  adminLastName: string | null;
+  createdAt: string;
+  updatedAt: string;
+  subscription: TenantSubscriptionSummary | null;
+  userCount: number;
+  employeeCount: number;
+  usageMetrics: {
+    apiRequestCount: number;
+    lastUpdated: string;
+  } | null;
+}
+
+export interface PaginatedList {
+  totalCount: number;
+  pageNumber: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface TenantListResponse extends PaginatedList {
+  tenants: TenantListItem[];
+}
+
+export interface TenantListParams {
+  search?: string;
+  status?: string;
+  subscriptionStatus?: string;
+  pageNumber?: number;
+  pageSize?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface TenantSubscriptionHistory {
+  id: number;
+  planName: string;
+  status: string;
+  price: number;
+  billingPeriod: string;
+  startDate: string;
+  endDate: string | null;
+  createdAt: string;
+}
+
+export interface TenantLifecycleEventSummary {
+  eventType: string;
+  eventDate: string;
+  description: string | null;
+  metadata: unknown;
+}
+
+export interface TenantDetail {
+  id: number;
+  name: string;
+  domain: string | null;
+  status: string;
+  isActive: boolean;
+  isSubscriptionActive: boolean;
+  adminEmail: string | null;
+  adminFirstName: string | null;
+  adminLastName: string | null;
+  createdAt: string;
+  updatedAt: string;
+  userCount: number;
+  employeeCount: number;
+  usageMetrics: {
+    apiRequestCount: number;
+    employeeCount: number;
+    userCount: number;
+    lastUpdated: string;
+  } | null;
+  subscriptions: TenantSubscriptionHistory[];
+  recentLifecycleEvents: TenantLifecycleEventSummary[];
+}
+
+export interface ImpersonateResponse {
+  message: string;
+  impersonationToken: string;
+  tenant: {
+    id: number;
+    name: string;
+    domain: string | null;
+  };
+  expiresAt: string;
+  banner: string;
+}
+
+export interface AdminSetupLinkResponse {
+  tenantId: number;
+  tenantName: string;
+  adminEmail: string;
+  adminUserId: string;
+  setupLink: string;
+  token: string;
+  expiresIn: string;
+  message: string;
+}
+
+export interface TenantSummary {
+  id: number;
+  name: string;
+  domain: string | null;
+  isActive: boolean;
+  subscriptionPlan: string;
+  maxEmployees: number;
+  isSubscriptionActive: boolean;
+  status: string | number;
+  createdAt: string;
+}
+
+export interface CreateTenantRequest {
+  name: string;
+  domain?: string | null;
+  adminEmail: string;
+  adminFirstName?: string | null;
+  adminLastName?: string | null;
+  idempotencyToken?: string;
+  isActive?: boolean;
+  subscriptionPlan?: string;
+  maxEmployees?: number;
+}
+
+export interface UpdateTenantRequest {
+  name: string;
+  domain?: string | null;
+  isActive: boolean;
+}
+
+export interface UpdateTenantSubscriptionRequest {
+  subscriptionPlan: string;
+  maxEmployees: number;
+}
+
+// GET /tenants/{id}/status; public so a signup page can poll provisioning
+export interface TenantProvisioningStatus {
+  id: number;
+  name: string;
+  status: string | number;
+  provisionedAt: string | null;
+  failureReason: string | null;
+}
+
+export interface TenantPlanOption {
+  name: string;
+  maxEmployees: number;
+  price: number;
+  features?: string[];
+}
+
+// Tenant Lifecycle Types
+export interface SignupRequest {
+  tenantName: string;
+  domain?: string;
+  adminEmail: string;
+  adminFirstName: string;
+  adminLastName: string;
+  subscriptionPlanId?: number;
+  startTrial?: boolean;
+  idempotencyToken?: string;
+}
+
+export interface SignupResponse {
+  tenantId: number;
+  message: string;
+  status: string;
+}
+
+export interface ChangePlanRequest {
+  newPlanId: number;
+}
+
+export interface SuspendTenantRequest {
+  reason: string;
+  gracePeriodDays?: number;
+}
+
+export interface CancelTenantRequest {
+  reason: string;
+  scheduleDeletion?: boolean;
+  retentionDays?: number;
+}
+
+export interface TenantLifecycleEvent {
+  id: number;
+  tenantId: number;
+  eventType: number;
+  previousStatus: number;
+  newStatus: number;
+  reason: string | null;
+  triggeredBy: string | null;
+  metadata: Record<string, unknown>;
+  eventDate: string;
+}
+
+export interface TenantSuspensionInfo {
+  tenantId: number;
+  status: number;
+  suspendedAt: string | null;
+  gracePeriodEndsAt: string | null;
+  scheduledDeletionAt: string | null;
+  reason: string | null;
+  canReactivate: boolean;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+// Admin Audit Types
+export interface AuditLog {
+  id: number;
+  adminUserId: string;
+  adminEmail: string;
+  actionType: string;
+  httpMethod: string;
+  endpoint: string;
+  targetTenantId: string | null;
+  targetEntityType: string | null;
+  targetEntityId: string | null;
+  statusCode: number;
+  isSuccess: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  errorMessage: string | null;
+  durationMs: number;
+  createdAt: string;
+}
+
+export interface AuditLogListResponse extends PaginatedList {
+  auditLogs: AuditLog[];
+}
+
+export interface AuditLogParams {
+  adminEmail?: string;
+  actionType?: string;
+  targetTenantId?: string | number;
+  isSuccess?: boolean;
+  startDate?: string;
+  endDate?: string;
+  pageNumber?: number;
+  pageSize?: number;
+}
+
+export interface AuditStatistics {
+  totalActions: number;
+  successfulActions: number;
+  failedActions: number;
+  successRate: number;
+  averageDurationMs: number;
+  topActionTypes: Array<{ actionType: string; count: number; successCount: number; failureCount: number }>;
+  topAdmins: Array<{ adminEmail: string; count: number }>;
+}
+
+// Alert Types
+export type AlertSeverity = 'Critical' | 'High' | 'Medium' | 'Low';
+export type AlertStatus = 'Active' | 'Resolved' | 'Acknowledged';
+
+export interface AlertItem {
+  id: number;
+  tenantId: number;
+  tenantName: string;
+  alertType: string;
+  severity: AlertSeverity;
+  message: string;
+  status: AlertStatus;
+  createdAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  resolutionNotes: string | null;
+  subscriptionId: number | null;
+  subscriptionPlanName: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface AlertListResponse extends PaginatedList {
+  alerts: AlertItem[];
+}
+
+export interface AlertListParams {
+  status?: string;
+  type?: string;
+  severity?: string;
+  tenantId?: number;
+  pageNumber?: number;
+  pageSize?: number;
+}
+
+export interface AlertStatistics {
+  totalAlerts: number;
+  activeAlerts: number;
+  criticalAlerts: number;
+  highSeverityAlerts: number;
+  paymentFailures: number;
+  resolvedAlerts: number;
+  alertsByType: Array<{ type: string; count: number }>;
+  alertsBySeverity: Array<{ severity: string; count: number }>;
+}
+
+export interface BulkAlertResponse {
+  message: string;
+  updated: number;
+  skipped: number; // already in the target state
+}
+
+// Billing Types
+export interface WebhookEvent {
+  id: number;
+  eventType: string;
+  provider: string;
+  status: string;
+  processed: boolean;
+  tenantId: number | null;
+  tenantName: string | null;
+  subscriptionId: number | null;
+  createdAt: string;
+  error: string | null;
+  payload: string;
+}
+
+export interface WebhookEventListResponse extends PaginatedList {
+  webhooks: WebhookEvent[];
+}
+
+export interface WebhookEventParams {
+  startDate?: string;
+  endDate?: string;
+  status?: string;
+  provider?: string;
+  pageNumber?: number;
+  pageSize?: number;
+}
+
+export interface ReconciliationResult {
+  reconciled: number;
+  discrepancies: number;
+  totalChecked: number;
+  discrepancyDetails?: unknown[];
+}
+
+// Subscription Types
+export type BillingPeriod = 1 | 2 | 3 | 4; // Monthly, Quarterly, Yearly, Lifetime
+
+export interface Feature {
+  id: number;
+  key: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  type: string;
+  value: string | null;
+}
+
+// The current tenant's plan; `used` is filled in for limits the server can count
+export interface TenantFeature extends Feature {
+  used?: number;
+}
+
+export interface TenantFeatures {
+  planName: string;
+  features: TenantFeature[];
+}
+
+export interface Subscription {
+  id: number;
+  tenantId: number;
+  tenantName: string;
+  subscriptionPlanId: number;
+  planName: string;
+  status: string;
+  billingPeriod: string;
+  startDate: string;
+  endDate: string | null;
+  trialEndDate: string | null;
+  canceledAt: string | null;
+  price: number;
+  currency: string;
+  autoRenew: boolean;
+  externalSubscriptionId: string | null;
+  externalCustomerId: string | null;
+  billingProvider: string;
+  features: Feature[];
+}
+
+export interface SubscriptionPlan {
+  id: number;
+  name: string;
+  description: string | null;
+  monthlyPrice: number;
+  yearlyPrice: number | null;
+  quarterlyPrice: number | null;
+  currency: string;
+  maxEmployees: number;
+  maxDepartments: number | null;
+  maxUsers: number | null;
+  maxStorageBytes: number | null;
+  trialDays: number | null;
+  isActive: boolean;
+  isVisible: boolean;
+  popularBadge: string | null;
+  icon: string | null;
+  features: Feature[];
+}
+
+// Prices are per billing period; credit and charge cover the days left in the current one
+export interface PlanChangePreview {
+  currentPlanId: number;
+  currentPlanName: string;
+  newPlanId: number;
+  newPlanName: string;
+  isUpgrade: boolean;
+  billingPeriod: string;
+  periodStart: string;
+  periodEnd: string;
+  daysInPeriod: number;
+  daysRemaining: number;
+  currentPrice: number;
+  newPrice: number;
+  credit: number;
+  charge: number;
+  amountDue: number;
+  currency: string;
+  blockers: string[];
+}
+
+export interface CreateSubscriptionRequest {
+  tenantId: number;
+  subscriptionPlanId: number;
+  billingPeriod?: BillingPeriod;
+  startTrial?: boolean;
+}
+
+export interface UpdateSubscriptionRequest {
+  subscriptionPlanId?: number;
+  billingPeriod?: BillingPeriod;
+  autoRenew?: boolean;
+  cancelAtPeriodEnd?: string;
+  cancellationReason?: string;
+}
+
+export interface TenantSubscriptionsResponse {
+  tenantId: number;
+  subscriptions: Subscription[];
+}
+
+export interface ExtendTrialRequest {
+  extendByDays: number;
+  reason?: string;
+}
+
+export interface AdminChangePlanRequest {
+  newPlanId: number;
+  billingPeriod: BillingPeriod;
+  reason?: string;
+}
+
+// Platform Metrics Types
+export interface MetricsOverview {
+  period: { startDate: string; endDate: string };
+  tenants: {
+    total: number;
+    active: number;
+    suspended: number;
+    newTenants: number;
+    statusDistribution: Array<{ status: string; count: number }>;
+  };
+  revenue: {
+    monthlyRecurringRevenue: number;
+    annualRecurringRevenue: number;
+    activeSubscriptions: number;
+    subscriptionByPlan: Array<{ planName: string; count: number }>;
+  };
+  usage: {
+    totalUsers: number;
+    totalEmployees: number;
+    totalApiRequests: number;
+    averageUsersPerTenant: number;
+    averageEmployeesPerTenant: number;
+  };
+  churn: {
+    count: number;
+    lostRevenue: number;
+    churnedSubscriptions: Array<{
+      subscriptionId: number;
+      tenantId: number;
+      tenantName: string | null;
+      planName: string | null;
+      price: number;
+      canceledAt: string | null;
+    }>;
+  };
+}
+
+export interface RevenueTrendPoint {
+  month: string;
+  monthStart: string;
+  monthEnd: string;
+  monthlyRecurringRevenue: number;
+  activeSubscriptions: number;
+}
+
+export interface TenantGrowthPoint {
+  month: string;
+  monthStart: string;
+  monthEnd: string;
+  newTenants: number;
+  totalTenants: number;
+  activeTenants: number;
+}
+
+export interface ChurnAnalysis {
+  period: { months: number; startDate: string };
+  totalChurned: number;
+  lostRevenue: number;
+  churnRate: number;
+  churnByPlan: Array<{ planName: string; count: number; lostRevenue: number }>;
+  recentChurn: Array<{
+    subscriptionId: number;
+    tenantId: number;
+    tenantName: string | null;
+    planName: string | null;
+    price: number;
+    canceledAt: string | null;
+    cancellationReason: string | null;
+  }>;
+}
+
+// Usage Metrics Types
+export interface UsageSummary {
+  tenantId: number;
+  tenantName: string;
+  employeeCount: number;
+  employeeLimit: number;
+  userCount: number;
+  userLimit: number | null;
+  storageBytesUsed: number;
+  storageLimitBytes: number | null;
+  apiRequestsThisPeriod: number;
+  apiRequestsToday: number;
+  apiLimitPerDay: number;
+  periodStart: string;
+  periodEnd: string;
+  limits: Record<string, unknown>;
+  usage: Record<string, unknown>;
+}
+
+export interface TenantUsageDashboard {
+  tenantId: number;
+  tenantName: string;
+  subscriptionPlan: string;
+  isActive: boolean;
+  employeeCount: number;
+  employeeLimit: number;
+  employeeUsagePercent: number;
+  userCount: number;
+  userLimit: number | null;
+  userUsagePercent: number;
+  storageBytesUsed: number;
+  storageLimitBytes: number | null;
+  storageUsagePercent: number;
+  apiRequestsThisPeriod: number;
+  apiRequestsToday: number;
+  apiLimitPerDay: number;
+  apiUsagePercent: number;
+  activeAlertsCount: number;
+  criticalAlertsCount: number;
+  warningAlertsCount: number;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export interface UsageTrendMetric {
+  currentPeriod: number;
+  previousPeriod: number;
+  change: number;
+  changePercent: number;
+}
+
+export interface DashboardOverview {
+  totalTenants: number;
+  totalEmployees: number;
+  totalApiRequests: number;
+  totalApiRequestsToday: number;
+  totalStorageBytes: number;
+  totalStorageMB: number;
+  totalStorageGB: number;
+  tenants: TenantUsageDashboard[];
+  periodStart: string;
+  periodEnd: string;
+  trend: {
+    employees: UsageTrendMetric;
+    apiRequests: UsageTrendMetric;
+    storage: UsageTrendMetric;
+  } | null;
+  alertsSummary: {
+    totalActive: number;
+    critical: number;
+    high: number;
+    medium: number;
+    low: number;
+  };
+  topTenantsByUsage: TenantUsageDashboard[];
+}
+
+export interface UsageHistoryPoint {
+  timestamp: string;
+  periodStart: string;
+  periodEnd: string;
+  employeeCount: number;
+  userCount: number;
+  apiRequests: number;
+  storageBytes: number;
+  featureUsage: Record<string, number>;
+}
+
+export interface UsageHistory {
+  tenantId: number | null;
+  tenantName: string | null;
+  startDate: string;
+  endDate: string;
+  granularity: 'daily' | 'weekly' | 'monthly';
+  dataPoints: UsageHistoryPoint[];
+}
+
+export interface UsageHistoryParams {
+  tenantId?: number;
+  startDate: string;
+  endDate: string;
+  granularity?: 'daily' | 'weekly' | 'monthly';
+}
+
+// User Management Types
+export interface ManagedUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  isActive: boolean;
+  createdAt: string;
+  roles: string[];
+}
+
+export interface CreateUserRequest {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  role: string;
+}
+
+export interface ToggleUserStatusResponse {
+  message: string;
+  isActive: boolean;
+}
+
+// Module & Permission Types
+export interface ModuleTreeNode {
+  name: string;
+  path: string;
+  description?: string | null;
+  icon?: string | null;
+  children?: ModuleTreeNode[];
+}
+
+export interface RolePermissionUpdate {
+  roleName: string;
+  pagePath: string;
+  canAccess: boolean;
+  canView: boolean;
+  canCreate: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+}
+
+export interface BulkUpdateRolePermissionsRequest {
+  permissions: RolePermissionUpdate[];
+}
+
+export interface RolePermissionSnapshot {
+  id: number;
+  version: number;
+  label: string;
+  createdBy?: string | null;
+  permissionCount: number;
+  createdAt: string;
+}
+
+export interface RolePermissionSnapshotEntry {
+  roleName: string;
+  pagePath: string;
+  pageName: string;
+  canAccess: boolean;
+  canView: boolean;
+  canCreate: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  description?: string | null;
+}
+
+export interface RolePermissionSnapshotDetail extends RolePermissionSnapshot {
+  entries: RolePermissionSnapshotEntry[];
+}
+
+export interface CreateRolePermissionSnapshotRequest {
+  label?: string;
+}
+
+export interface TenantRole {
+  id?: number | null; // Built-in roles have no tenant record
+  name: string;
+  description?: string | null;
+  isBuiltIn: boolean;
+  userCount: number;
+}
+
+export interface CreateTenantRoleRequest {
+  name: string;
+  description?: string;
+  cloneFrom?: string;
+}
+
+export interface UpdateTenantRoleRequest {
+  name: string;
+  description?: string;
+}
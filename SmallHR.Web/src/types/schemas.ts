@@ -0,0 +1,1039 @@
+// Runtime schemas for API responses.
+// Each schema mirrors an interface in ./api and is checked against it with `satisfies`,
+// so a change on one side without the other fails the type-check.
+// Objects are loose: unknown extra fields pass through, missing or mistyped ones are reported as drift.
+import { z } from 'zod';
+import type {
+  User,
+  UserPreferences,
+  UserSession,
+  ChangePasswordResponse,
+  AuthResponse,
+  Employee,
+  PagedResponse,
+  LeaveRequest,
+  LeavePolicy,
+  Attendance,
+  AttendanceDailySummary,
+  PayrollSettings,
+  Payslip,
+  PayRun,
+  PayrollDepartmentSummary,
+  CalendarEntry,
+  CalendarEvent,
+  Notice,
+  NoticeReceipt,
+  InboxNotification,
+  ExpenseClaim,
+  ExpenseItem,
+  ExpenseReceipt,
+  ReimbursementBatch,
+  RolePermission,
+  RolePermissionSnapshot,
+  RolePermissionSnapshotDetail,
+  TenantRole,
+  Department,
+  Position,
+  TenantListItem,
+  TenantListResponse,
+  TenantDetail,
+  TenantSummary,
+  TenantProvisioningStatus,
+  TenantPlanOption,
+  ImpersonateResponse,
+  AdminSetupLinkResponse,
+  TenantLifecycleEvent,
+  TenantSuspensionInfo,
+  MessageResponse,
+  SignupResponse,
+  AuditLog,
+  AuditLogListResponse,
+  AuditStatistics,
+  AlertItem,
+  AlertListResponse,
+  AlertStatistics,
+  BulkAlertResponse,
+  WebhookEvent,
+  WebhookEventListResponse,
+  ReconciliationResult,
+  Feature,
+  TenantFeatures,
+  Subscription,
+  SubscriptionPlan,
+  PlanChangePreview,
+  TenantSubscriptionsResponse,
+  MetricsOverview,
+  RevenueTrendPoint,
+  TenantGrowthPoint,
+  ChurnAnalysis,
+  UsageSummary,
+  TenantUsageDashboard,
+  DashboardOverview,
+  UsageHistory,
+  ManagedUser,
+  ToggleUserStatusResponse,
+  ModuleTreeNode,
+} from './api';
+
+// Nullable .NET properties arrive as null; the interfaces model them as optional
+const optional = <T extends z.ZodType>(schema: T) =>
+  schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+
+const dateString = z.string();
+const record = z.record(z.string(), z.unknown());
+
+const paginated = {
+  totalCount: z.number(),
+  pageNumber: z.number(),
+  pageSize: z.number(),
+  totalPages: z.number(),
+};
+
+// Auth
+const notificationCategorySchema = z.enum(['leave', 'employees', 'billing', 'general']);
+
+export const userPreferencesSchema = z.looseObject({
+  themeMode: z.enum(['light', 'dark', 'system']),
+  palette: z.string(),
+  dateFormat: z.string(),
+  timeFormat: z.enum(['12h', '24h']),
+  landingPage: optional(z.string()),
+  mutedNotificationCategories: optional(z.array(notificationCategorySchema)),
+}) satisfies z.ZodType<UserPreferences>;
+
+export const userSchema = z.looseObject({
+  id: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  fullName: z.string(),
+  dateOfBirth: dateString,
+  address: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zipCode: z.string(),
+  country: z.string(),
+  createdAt: dateString,
+  isActive: z.boolean(),
+  roles: z.array(z.string()),
+  preferences: optional(userPreferencesSchema),
+}) satisfies z.ZodType<User>;
+
+export const userSessionSchema = z.looseObject({
+  id: z.number(),
+  ipAddress: optional(z.string()),
+  userAgent: optional(z.string()),
+  createdAt: dateString,
+  lastActiveAt: dateString,
+  expiresAt: dateString,
+  isCurrent: z.boolean(),
+}) satisfies z.ZodType<UserSession>;
+
+export const changePasswordResponseSchema = z.looseObject({
+  message: z.string(),
+  revokedSessions: z.number(),
+}) satisfies z.ZodType<ChangePasswordResponse>;
+
+export const authResponseSchema = z.looseObject({
+  token: z.string(),
+  refreshToken: z.string(),
+  expiration: dateString,
+  user: userSchema,
+}) satisfies z.ZodType<AuthResponse>;
+
+// HR
+export const employeeSchema = z.looseObject({
+  id: z.number(),
+  employeeId: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  phoneNumber: z.string(),
+  dateOfBirth: dateString,
+  hireDate: dateString,
+  terminationDate: optional(dateString),
+  position: z.string(),
+  department: z.string(),
+  salary: z.number(),
+  address: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zipCode: z.string(),
+  country: z.string(),
+  emergencyContactName: z.string(),
+  emergencyContactPhone: z.string(),
+  emergencyContactRelationship: z.string(),
+  isActive: z.boolean(),
+  role: z.string(),
+  userId: optional(z.string()),
+  managerId: optional(z.number()),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<Employee>;
+
+export const pagedResponseSchema = <T extends z.ZodType>(item: T) =>
+  z.looseObject({
+    data: z.array(item),
+    pageNumber: z.number(),
+    pageSize: z.number(),
+    totalCount: z.number(),
+    totalPages: z.number(),
+    hasPreviousPage: z.boolean(),
+    hasNextPage: z.boolean(),
+  });
+
+export const employeePageSchema = pagedResponseSchema(employeeSchema) satisfies z.ZodType<PagedResponse<Employee>>;
+
+export const leaveRequestSchema = z.looseObject({
+  id: z.number(),
+  employeeId: z.number(),
+  employeeName: z.string(),
+  startDate: dateString,
+  endDate: dateString,
+  leaveType: z.string(),
+  reason: z.string(),
+  comments: optional(z.string()),
+  status: z.string(),
+  approvedBy: optional(z.string()),
+  approvedAt: optional(dateString),
+  rejectionReason: optional(z.string()),
+  totalDays: z.number(),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<LeaveRequest>;
+
+export const leavePolicySchema = z.looseObject({
+  id: z.number(),
+  leaveType: z.string(),
+  annualEntitlement: z.number(),
+  accrualPerMonth: z.number(),
+  maxCarryOver: z.number(),
+  probationMonths: z.number(),
+  allowDuringProbation: z.boolean(),
+  proRateFromHireDate: z.boolean(),
+  isActive: z.boolean(),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<LeavePolicy>;
+
+export const attendanceSchema = z.looseObject({
+  id: z.number(),
+  employeeId: z.number(),
+  employeeName: z.string(),
+  date: dateString,
+  clockInTime: optional(dateString),
+  clockOutTime: optional(dateString),
+  totalHours: optional(z.string()),
+  overtimeHours: optional(z.string()),
+  status: z.string(),
+  notes: optional(z.string()),
+  isHoliday: z.boolean(),
+  isWeekend: z.boolean(),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<Attendance>;
+
+export const attendanceDailySummarySchema = z.looseObject({
+  date: dateString,
+  present: z.number(),
+  late: z.number(),
+  absent: z.number(),
+  totalHours: z.number(),
+}) satisfies z.ZodType<AttendanceDailySummary>;
+
+export const payrollSettingsSchema = z.looseObject({
+  payDay: z.number(),
+  currency: z.string(),
+  overtimeMultiplier: z.number(),
+  standardHoursPerDay: z.number(),
+  workingDaysPerMonth: z.number(),
+  taxRatePercent: z.number(),
+}) satisfies z.ZodType<PayrollSettings>;
+
+export const payslipSchema = z.looseObject({
+  id: z.number(),
+  payRunId: z.number(),
+  employeeId: z.number(),
+  employeeName: z.string(),
+  department: z.string(),
+  position: z.string(),
+  year: z.number(),
+  month: z.number(),
+  periodStart: dateString,
+  periodEnd: dateString,
+  payDate: dateString,
+  status: z.string(),
+  currency: z.string(),
+  baseSalary: z.number(),
+  overtimeHours: z.number(),
+  overtimePay: z.number(),
+  unpaidLeaveDays: z.number(),
+  unpaidLeaveDeduction: z.number(),
+  grossPay: z.number(),
+  taxDeduction: z.number(),
+  reimbursements: z.number(),
+  netPay: z.number(),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<Payslip>;
+
+export const payRunSchema = z.looseObject({
+  id: z.number(),
+  year: z.number(),
+  month: z.number(),
+  periodStart: dateString,
+  periodEnd: dateString,
+  payDate: dateString,
+  status: z.string(),
+  currency: z.string(),
+  employeeCount: z.number(),
+  totalGross: z.number(),
+  totalDeductions: z.number(),
+  totalNet: z.number(),
+  finalizedBy: optional(z.string()),
+  finalizedAt: optional(dateString),
+  payslips: z.array(payslipSchema),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<PayRun>;
+
+export const payrollDepartmentSummarySchema = z.looseObject({
+  department: z.string(),
+  employeeCount: z.number(),
+  totalBase: z.number(),
+  totalOvertime: z.number(),
+  totalUnpaidLeave: z.number(),
+  totalGross: z.number(),
+  totalTax: z.number(),
+  totalNet: z.number(),
+}) satisfies z.ZodType<PayrollDepartmentSummary>;
+
+export const calendarEntrySchema = z.looseObject({
+  id: z.string(),
+  type: z.string(),
+  title: z.string(),
+  description: optional(z.string()),
+  startDate: dateString,
+  endDate: dateString,
+  department: optional(z.string()),
+  employeeId: optional(z.number()),
+  eventId: optional(z.number()),
+}) satisfies z.ZodType<CalendarEntry>;
+
+export const calendarEventSchema = z.looseObject({
+  id: z.number(),
+  title: z.string(),
+  description: optional(z.string()),
+  startDate: dateString,
+  endDate: dateString,
+  eventType: z.string(),
+  department: optional(z.string()),
+  location: optional(z.string()),
+  createdBy: optional(z.string()),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<CalendarEvent>;
+
+export const noticeSchema = z.looseObject({
+  id: z.number(),
+  title: z.string(),
+  content: z.string(),
+  targetDepartments: z.array(z.string()),
+  targetRoles: z.array(z.string()),
+  isPinned: z.boolean(),
+  publishAt: dateString,
+  expiresAt: optional(dateString),
+  createdBy: optional(z.string()),
+  status: z.string(),
+  isRead: z.boolean(),
+  readCount: z.number(),
+  audienceCount: z.number(),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<Notice>;
+
+export const noticeReceiptSchema = z.looseObject({
+  userId: z.string(),
+  readerName: z.string(),
+  department: optional(z.string()),
+  readAt: dateString,
+}) satisfies z.ZodType<NoticeReceipt>;
+
+export const inboxNotificationSchema = z.looseObject({
+  id: z.number(),
+  category: notificationCategorySchema,
+  title: z.string(),
+  message: optional(z.string()),
+  link: optional(z.string()),
+  isRead: z.boolean(),
+  createdAt: dateString,
+  readAt: optional(dateString),
+}) satisfies z.ZodType<InboxNotification>;
+
+export const inboxPageSchema = pagedResponseSchema(inboxNotificationSchema) satisfies z.ZodType<PagedResponse<InboxNotification>>;
+
+export const expenseItemSchema = z.looseObject({
+  id: z.number(),
+  expenseDate: dateString,
+  category: z.string(),
+  description: z.string(),
+  amount: z.number(),
+}) satisfies z.ZodType<ExpenseItem>;
+
+export const expenseReceiptSchema = z.looseObject({
+  id: z.number(),
+  fileName: z.string(),
+  contentType: z.string(),
+  fileSize: z.number(),
+  createdAt: dateString,
+}) satisfies z.ZodType<ExpenseReceipt>;
+
+export const expenseClaimSchema = z.looseObject({
+  id: z.number(),
+  employeeId: z.number(),
+  employeeName: z.string(),
+  department: z.string(),
+  managerId: optional(z.number()),
+  title: z.string(),
+  currency: z.string(),
+  totalAmount: z.number(),
+  status: z.string(),
+  submittedAt: dateString,
+  reviewedBy: optional(z.string()),
+  reviewedAt: optional(dateString),
+  reviewComments: optional(z.string()),
+  reimbursementBatchId: optional(z.number()),
+  batchReference: optional(z.string()),
+  reimbursedAt: optional(dateString),
+  items: z.array(expenseItemSchema),
+  receipts: z.array(expenseReceiptSchema),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<ExpenseClaim>;
+
+export const reimbursementBatchSchema = z.looseObject({
+  id: z.number(),
+  reference: z.string(),
+  payrollYear: z.number(),
+  payrollMonth: z.number(),
+  currency: z.string(),
+  totalAmount: z.number(),
+  claimCount: z.number(),
+  status: z.string(),
+  createdBy: optional(z.string()),
+  paidAt: optional(dateString),
+  createdAt: dateString,
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<ReimbursementBatch>;
+
+export const rolePermissionSchema = z.looseObject({
+  id: z.number(),
+  roleName: z.string(),
+  pageName: z.string(),
+  pagePath: z.string(),
+  canAccess: z.boolean(),
+  canView: z.boolean(),
+  canCreate: z.boolean(),
+  canEdit: z.boolean(),
+  canDelete: z.boolean(),
+  description: optional(z.string()),
+}) satisfies z.ZodType<RolePermission>;
+
+export const rolePermissionSnapshotSchema = z.looseObject({
+  id: z.number(),
+  version: z.number(),
+  label: z.string(),
+  createdBy: optional(z.string()),
+  permissionCount: z.number(),
+  createdAt: dateString,
+}) satisfies z.ZodType<RolePermissionSnapshot>;
+
+export const rolePermissionSnapshotDetailSchema = rolePermissionSnapshotSchema.extend({
+  entries: z.array(z.looseObject({
+    roleName: z.string(),
+    pagePath: z.string(),
+    pageName: z.string(),
+    canAccess: z.boolean(),
+    canView: z.boolean(),
+    canCreate: z.boolean(),
+    canEdit: z.boolean(),
+    canDelete: z.boolean(),
+    description: optional(z.string()),
+  })),
+}) satisfies z.ZodType<RolePermissionSnapshotDetail>;
+
+export const tenantRoleSchema = z.looseObject({
+  id: optional(z.number()),
+  name: z.string(),
+  description: optional(z.string()),
+  isBuiltIn: z.boolean(),
+  userCount: z.number(),
+}) satisfies z.ZodType<TenantRole>;
+
+export const departmentSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  description: optional(z.string()),
+  headOfDepartmentId: optional(z.number()),
+  headOfDepartmentName: optional(z.string()),
+  isActive: z.boolean(),
+  employeeCount: optional(z.number()),
+  positions: optional(z.array(z.string())),
+  createdAt: optional(dateString),
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<Department>;
+
+export const positionSchema = z.looseObject({
+  id: z.number(),
+  title: z.string(),
+  departmentId: optional(z.number()),
+  departmentName: optional(z.string()),
+  description: optional(z.string()),
+  isActive: z.boolean(),
+  employeeCount: optional(z.number()),
+  createdAt: optional(dateString),
+  updatedAt: optional(dateString),
+}) satisfies z.ZodType<Position>;
+
+// Tenants
+export const tenantSummarySchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  domain: z.string().nullable(),
+  isActive: z.boolean(),
+  subscriptionPlan: z.string(),
+  maxEmployees: z.number(),
+  isSubscriptionActive: z.boolean(),
+  status: z.union([z.string(), z.number()]),
+  createdAt: dateString,
+}) satisfies z.ZodType<TenantSummary>;
+
+export const tenantProvisioningStatusSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  status: z.union([z.string(), z.number()]),
+  provisionedAt: dateString.nullable(),
+  failureReason: z.string().nullable(),
+}) satisfies z.ZodType<TenantProvisioningStatus>;
+
+export const tenantPlanOptionSchema = z.looseObject({
+  name: z.string(),
+  maxEmployees: z.number(),
+  price: z.number(),
+  features: z.array(z.string()).optional(),
+}) satisfies z.ZodType<TenantPlanOption>;
+
+export const tenantListItemSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  domain: z.string().nullable(),
+  status: z.string(),
+  isActive: z.boolean(),
+  isSubscriptionActive: z.boolean(),
+  adminEmail: z.string().nullable(),
+  adminFirstName: z.string().nullable(),
+  adminLastName: z.string().nullable(),
+  createdAt: dateString,
+  updatedAt: dateString,
+  subscription: z.looseObject({
+    planName: z.string(),
+    status: z.string(),
+    currentPeriodEnd: dateString.nullable(),
+    price: z.number(),
+    billingPeriod: z.string(),
+  }).nullable(),
+  userCount: z.number(),
+  employeeCount: z.number(),
+  usageMetrics: z.looseObject({
+    apiRequestCount: z.number(),
+    lastUpdated: dateString,
+  }).nullable(),
+}) satisfies z.ZodType<TenantListItem>;
+
+export const tenantListResponseSchema = z.looseObject({
+  ...paginated,
+  tenants: z.array(tenantListItemSchema),
+}) satisfies z.ZodType<TenantListResponse>;
+
+export const tenantDetailSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  domain: z.string().nullable(),
+  status: z.string(),
+  isActive: z.boolean(),
+  isSubscriptionActive: z.boolean(),
+  adminEmail: z.string().nullable(),
+  adminFirstName: z.string().nullable(),
+  adminLastName: z.string().nullable(),
+  createdAt: dateString,
+  updatedAt: dateString,
+  userCount: z.number(),
+  employeeCount: z.number(),
+  usageMetrics: z.looseObject({
+    apiRequestCount: z.number(),
+    employeeCount: z.number(),
+    userCount: z.number(),
+    lastUpdated: dateString,
+  }).nullable(),
+  subscriptions: z.array(z.looseObject({
+    id: z.number(),
+    planName: z.string(),
+    status: z.string(),
+    price: z.number(),
+    billingPeriod: z.string(),
+    startDate: dateString,
+    endDate: dateString.nullable(),
+    createdAt: dateString,
+  })),
+  recentLifecycleEvents: z.array(z.looseObject({
+    eventType: z.string(),
+    eventDate: dateString,
+    description: z.string().nullable(),
+    metadata: z.unknown(),
+  })),
+}) satisfies z.ZodType<TenantDetail>;
+
+export const impersonateResponseSchema = z.looseObject({
+  message: z.string(),
+  impersonationToken: z.string(),
+  tenant: z.looseObject({
+    id: z.number(),
+    name: z.string(),
+    domain: z.string().nullable(),
+  }),
+  expiresAt: dateString,
+  banner: z.string(),
+}) satisfies z.ZodType<ImpersonateResponse>;
+
+export const adminSetupLinkResponseSchema = z.looseObject({
+  tenantId: z.number(),
+  tenantName: z.string(),
+  adminEmail: z.string(),
+  adminUserId: z.string(),
+  setupLink: z.string(),
+  token: z.string(),
+  expiresIn: z.string(),
+  message: z.string(),
+}) satisfies z.ZodType<AdminSetupLinkResponse>;
+
+export const tenantLifecycleEventSchema = z.looseObject({
+  id: z.number(),
+  tenantId: z.number(),
+  eventType: z.number(),
+  previousStatus: z.number(),
+  newStatus: z.number(),
+  reason: z.string().nullable(),
+  triggeredBy: z.string().nullable(),
+  metadata: record,
+  eventDate: dateString,
+}) satisfies z.ZodType<TenantLifecycleEvent>;
+
+export const tenantSuspensionInfoSchema = z.looseObject({
+  tenantId: z.number(),
+  status: z.number(),
+  suspendedAt: dateString.nullable(),
+  gracePeriodEndsAt: dateString.nullable(),
+  scheduledDeletionAt: dateString.nullable(),
+  reason: z.string().nullable(),
+  canReactivate: z.boolean(),
+}) satisfies z.ZodType<TenantSuspensionInfo>;
+
+export const messageResponseSchema = z.looseObject({
+  message: z.string(),
+}) satisfies z.ZodType<MessageResponse>;
+
+export const signupResponseSchema = z.looseObject({
+  tenantId: z.number(),
+  message: z.string(),
+  status: z.string(),
+}) satisfies z.ZodType<SignupResponse>;
+
+// Admin audit
+export const auditLogSchema = z.looseObject({
+  id: z.number(),
+  adminUserId: z.string(),
+  adminEmail: z.string(),
+  actionType: z.string(),
+  httpMethod: z.string(),
+  endpoint: z.string(),
+  targetTenantId: z.string().nullable(),
+  targetEntityType: z.string().nullable(),
+  targetEntityId: z.string().nullable(),
+  statusCode: z.number(),
+  isSuccess: z.boolean(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  errorMessage: z.string().nullable(),
+  durationMs: z.number(),
+  createdAt: dateString,
+}) satisfies z.ZodType<AuditLog>;
+
+export const auditLogListResponseSchema = z.looseObject({
+  ...paginated,
+  auditLogs: z.array(auditLogSchema),
+}) satisfies z.ZodType<AuditLogListResponse>;
+
+export const auditStatisticsSchema = z.looseObject({
+  totalActions: z.number(),
+  successfulActions: z.number(),
+  failedActions: z.number(),
+  successRate: z.number(),
+  averageDurationMs: z.number(),
+  topActionTypes: z.array(z.looseObject({
+    actionType: z.string(),
+    count: z.number(),
+    successCount: z.number(),
+    failureCount: z.number(),
+  })),
+  topAdmins: z.array(z.looseObject({
+    adminEmail: z.string(),
+    count: z.number(),
+  })),
+}) satisfies z.ZodType<AuditStatistics>;
+
+// Alerts
+export const alertItemSchema = z.looseObject({
+  id: z.number(),
+  tenantId: z.number(),
+  tenantName: z.string(),
+  alertType: z.string(),
+  severity: z.enum(['Critical', 'High', 'Medium', 'Low']),
+  message: z.string(),
+  status: z.enum(['Active', 'Resolved', 'Acknowledged']),
+  createdAt: dateString,
+  resolvedAt: dateString.nullable(),
+  resolvedBy: z.string().nullable(),
+  resolutionNotes: z.string().nullable(),
+  subscriptionId: z.number().nullable(),
+  subscriptionPlanName: z.string().nullable(),
+  metadata: record.nullable(),
+}) satisfies z.ZodType<AlertItem>;
+
+export const alertListResponseSchema = z.looseObject({
+  ...paginated,
+  alerts: z.array(alertItemSchema),
+}) satisfies z.ZodType<AlertListResponse>;
+
+export const alertStatisticsSchema = z.looseObject({
+  totalAlerts: z.number(),
+  activeAlerts: z.number(),
+  criticalAlerts: z.number(),
+  highSeverityAlerts: z.number(),
+  paymentFailures: z.number(),
+  resolvedAlerts: z.number(),
+  alertsByType: z.array(z.looseObject({ type: z.string(), count: z.number() })),
+  alertsBySeverity: z.array(z.looseObject({ severity: z.string(), count: z.number() })),
+}) satisfies z.ZodType<AlertStatistics>;
+
+export const bulkAlertResponseSchema = z.looseObject({
+  message: z.string(),
+  updated: z.number(),
+  skipped: z.number(),
+}) satisfies z.ZodType<BulkAlertResponse>;
+
+// Billing
+export const webhookEventSchema = z.looseObject({
+  id: z.number(),
+  eventType: z.string(),
+  provider: z.string(),
+  status: z.string(),
+  processed: z.boolean(),
+  tenantId: z.number().nullable(),
+  tenantName: z.string().nullable(),
+  subscriptionId: z.number().nullable(),
+  createdAt: dateString,
+  error: z.string().nullable(),
+  payload: z.string(),
+}) satisfies z.ZodType<WebhookEvent>;
+
+export const webhookEventListResponseSchema = z.looseObject({
+  ...paginated,
+  webhooks: z.array(webhookEventSchema),
+}) satisfies z.ZodType<WebhookEventListResponse>;
+
+export const reconciliationResultSchema = z.looseObject({
+  reconciled: z.number(),
+  discrepancies: z.number(),
+  totalChecked: z.number(),
+  discrepancyDetails: z.array(z.unknown()).optional(),
+}) satisfies z.ZodType<ReconciliationResult>;
+
+// Subscriptions
+export const featureSchema = z.looseObject({
+  id: z.number(),
+  key: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  category: z.string().nullable(),
+  type: z.string(),
+  value: z.string().nullable(),
+}) satisfies z.ZodType<Feature>;
+
+export const tenantFeaturesSchema = z.looseObject({
+  planName: z.string(),
+  features: z.array(featureSchema.extend({
+    used: optional(z.number()),
+  })),
+}) satisfies z.ZodType<TenantFeatures>;
+
+export const subscriptionSchema = z.looseObject({
+  id: z.number(),
+  tenantId: z.number(),
+  tenantName: z.string(),
+  subscriptionPlanId: z.number(),
+  planName: z.string(),
+  status: z.string(),
+  billingPeriod: z.string(),
+  startDate: dateString,
+  endDate: dateString.nullable(),
+  trialEndDate: dateString.nullable(),
+  canceledAt: dateString.nullable(),
+  price: z.number(),
+  currency: z.string(),
+  autoRenew: z.boolean(),
+  externalSubscriptionId: z.string().nullable(),
+  externalCustomerId: z.string().nullable(),
+  billingProvider: z.string(),
+  features: z.array(featureSchema),
+}) satisfies z.ZodType<Subscription>;
+
+export const subscriptionPlanSchema = z.looseObject({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  monthlyPrice: z.number(),
+  yearlyPrice: z.number().nullable(),
+  quarterlyPrice: z.number().nullable(),
+  currency: z.string(),
+  maxEmployees: z.number(),
+  maxDepartments: z.number().nullable(),
+  maxUsers: z.number().nullable(),
+  maxStorageBytes: z.number().nullable(),
+  trialDays: z.number().nullable(),
+  isActive: z.boolean(),
+  isVisible: z.boolean(),
+  popularBadge: z.string().nullable(),
+  icon: z.string().nullable(),
+  features: z.array(featureSchema),
+}) satisfies z.ZodType<SubscriptionPlan>;
+
+export const planChangePreviewSchema = z.looseObject({
+  currentPlanId: z.number(),
+  currentPlanName: z.string(),
+  newPlanId: z.number(),
+  newPlanName: z.string(),
+  isUpgrade: z.boolean(),
+  billingPeriod: z.string(),
+  periodStart: dateString,
+  periodEnd: dateString,
+  daysInPeriod: z.number(),
+  daysRemaining: z.number(),
+  currentPrice: z.number(),
+  newPrice: z.number(),
+  credit: z.number(),
+  charge: z.number(),
+  amountDue: z.number(),
+  currency: z.string(),
+  blockers: z.array(z.string()),
+}) satisfies z.ZodType<PlanChangePreview>;
+
+export const tenantSubscriptionsResponseSchema = z.looseObject({
+  tenantId: z.number(),
+  subscriptions: z.array(subscriptionSchema),
+}) satisfies z.ZodType<TenantSubscriptionsResponse>;
+
+// Platform metrics
+const churnedSubscriptionSchema = z.looseObject({
+  subscriptionId: z.number(),
+  tenantId: z.number(),
+  tenantName: z.string().nullable(),
+  planName: z.string().nullable(),
+  price: z.number(),
+  canceledAt: dateString.nullable(),
+});
+
+export const metricsOverviewSchema = z.looseObject({
+  period: z.looseObject({ startDate: dateString, endDate: dateString }),
+  tenants: z.looseObject({
+    total: z.number(),
+    active: z.number(),
+    suspended: z.number(),
+    newTenants: z.number(),
+    statusDistribution: z.array(z.looseObject({ status: z.string(), count: z.number() })),
+  }),
+  revenue: z.looseObject({
+    monthlyRecurringRevenue: z.number(),
+    annualRecurringRevenue: z.number(),
+    activeSubscriptions: z.number(),
+    subscriptionByPlan: z.array(z.looseObject({ planName: z.string(), count: z.number() })),
+  }),
+  usage: z.looseObject({
+    totalUsers: z.number(),
+    totalEmployees: z.number(),
+    totalApiRequests: z.number(),
+    averageUsersPerTenant: z.number(),
+    averageEmployeesPerTenant: z.number(),
+  }),
+  churn: z.looseObject({
+    count: z.number(),
+    lostRevenue: z.number(),
+    churnedSubscriptions: z.array(churnedSubscriptionSchema),
+  }),
+}) satisfies z.ZodType<MetricsOverview>;
+
+export const revenueTrendsSchema = z.looseObject({
+  trends: z.array(z.looseObject({
+    month: z.string(),
+    monthStart: dateString,
+    monthEnd: dateString,
+    monthlyRecurringRevenue: z.number(),
+    activeSubscriptions: z.number(),
+  })),
+}) satisfies z.ZodType<{ trends: RevenueTrendPoint[] }>;
+
+export const tenantGrowthSchema = z.looseObject({
+  trends: z.array(z.looseObject({
+    month: z.string(),
+    monthStart: dateString,
+    monthEnd: dateString,
+    newTenants: z.number(),
+    totalTenants: z.number(),
+    activeTenants: z.number(),
+  })),
+}) satisfies z.ZodType<{ trends: TenantGrowthPoint[] }>;
+
+export const churnAnalysisSchema = z.looseObject({
+  period: z.looseObject({ months: z.number(), startDate: dateString }),
+  totalChurned: z.number(),
+  lostRevenue: z.number(),
+  churnRate: z.number(),
+  churnByPlan: z.array(z.looseObject({ planName: z.string(), count: z.number(), lostRevenue: z.number() })),
+  recentChurn: z.array(churnedSubscriptionSchema.extend({
+    cancellationReason: z.string().nullable(),
+  })),
+}) satisfies z.ZodType<ChurnAnalysis>;
+
+// Usage metrics
+export const usageSummarySchema = z.looseObject({
+  tenantId: z.number(),
+  tenantName: z.string(),
+  employeeCount: z.number(),
+  employeeLimit: z.number(),
+  userCount: z.number(),
+  userLimit: z.number().nullable(),
+  storageBytesUsed: z.number(),
+  storageLimitBytes: z.number().nullable(),
+  apiRequestsThisPeriod: z.number(),
+  apiRequestsToday: z.number(),
+  apiLimitPerDay: z.number(),
+  periodStart: dateString,
+  periodEnd: dateString,
+  limits: record,
+  usage: record,
+}) satisfies z.ZodType<UsageSummary>;
+
+export const tenantUsageDashboardSchema = z.looseObject({
+  tenantId: z.number(),
+  tenantName: z.string(),
+  subscriptionPlan: z.string(),
+  isActive: z.boolean(),
+  employeeCount: z.number(),
+  employeeLimit: z.number(),
+  employeeUsagePercent: z.number(),
+  userCount: z.number(),
+  userLimit: z.number().nullable(),
+  userUsagePercent: z.number(),
+  storageBytesUsed: z.number(),
+  storageLimitBytes: z.number().nullable(),
+  storageUsagePercent: z.number(),
+  apiRequestsThisPeriod: z.number(),
+  apiRequestsToday: z.number(),
+  apiLimitPerDay: z.number(),
+  apiUsagePercent: z.number(),
+  activeAlertsCount: z.number(),
+  criticalAlertsCount: z.number(),
+  warningAlertsCount: z.number(),
+  periodStart: dateString,
+  periodEnd: dateString,
+}) satisfies z.ZodType<TenantUsageDashboard>;
+
+const usageTrendMetricSchema = z.looseObject({
+  currentPeriod: z.number(),
+  previousPeriod: z.number(),
+  change: z.number(),
+  changePercent: z.number(),
+});
+
+export const dashboardOverviewSchema = z.looseObject({
+  totalTenants: z.number(),
+  totalEmployees: z.number(),
+  totalApiRequests: z.number(),
+  totalApiRequestsToday: z.number(),
+  totalStorageBytes: z.number(),
+  totalStorageMB: z.number(),
+  totalStorageGB: z.number(),
+  tenants: z.array(tenantUsageDashboardSchema),
+  periodStart: dateString,
+  periodEnd: dateString,
+  trend: z.looseObject({
+    employees: usageTrendMetricSchema,
+    apiRequests: usageTrendMetricSchema,
+    storage: usageTrendMetricSchema,
+  }).nullable(),
+  alertsSummary: z.looseObject({
+    totalActive: z.number(),
+    critical: z.number(),
+    high: z.number(),
+    medium: z.number(),
+    low: z.number(),
+  }),
+  topTenantsByUsage: z.array(tenantUsageDashboardSchema),
+}) satisfies z.ZodType<DashboardOverview>;
+
+export const usageHistorySchema = z.looseObject({
+  tenantId: z.number().nullable(),
+  tenantName: z.string().nullable(),
+  startDate: dateString,
+  endDate: dateString,
+  granularity: z.enum(['daily', 'weekly', 'monthly']),
+  dataPoints: z.array(z.looseObject({
+    timestamp: dateString,
+    periodStart: dateString,
+    periodEnd: dateString,
+    employeeCount: z.number(),
+    userCount: z.number(),
+    apiRequests: z.number(),
+    storageBytes: z.number(),
+    featureUsage: z.record(z.string(), z.number()),
+  })),
+}) satisfies z.ZodType<UsageHistory>;
+
+// User management
+export const managedUserSchema = z.looseObject({
+  id: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  isActive: z.boolean(),
+  createdAt: dateString,
+  roles: z.array(z.string()),
+}) satisfies z.ZodType<ManagedUser>;
+
+export const toggleUserStatusResponseSchema = z.looseObject({
+  message: z.string(),
+  isActive: z.boolean(),
+}) satisfies z.ZodType<ToggleUserStatusResponse>;
+
+// Modules
+export const moduleTreeNodeSchema: z.ZodType<ModuleTreeNode> = z.looseObject({
+  name: z.string(),
+  path: z.string(),
+  description: z.string().nullish(),
+  icon: z.string().nullish(),
+  get children() {
+    return z.array(moduleTreeNodeSchema).optional();
+  },
+});
+
+export const stringListSchema = z.array(z.string());
+export const countSchema = z.looseObject({ count: z.number() });
@@ -17,6 +17,12 @@ export function getApiBase(): string {
   return '';
 }
 
+// Base URL for the REST API; every client (axios instance, fetch helpers) should go through this
+export function getApiBaseUrl(): string {
+  const base = getApiBase();
+  return base ? `${base}/api` : '/api';
+}
+
 export function buildApiUrl(path: string, params?: Record<string, string | number | boolean | undefined | null>): string {
   const base = getApiBase();
   const qs = new URLSearchParams();
@@ -0,0 +1,11 @@
+// TimeSpan values arrive as "hh:mm:ss" or "d.hh:mm:ss"
+export const parseTimeSpan = (value?: string): number => {
+  if (!value) return 0;
+  const [dayPart, timePart] = value.includes('.') && value.indexOf('.') < value.indexOf(':')
+    ? value.split('.', 2)
+    : ['0', value];
+  const [hours = '0', minutes = '0', seconds = '0'] = timePart.split(':');
+  return Number(dayPart) * 24 + Number(hours) + Number(minutes) / 60 + parseFloat(seconds) / 3600;
+};
+
+export const formatHours = (hours: number) => `${hours.toFixed(1)}h`;
@@ -0,0 +1,33 @@
+import type { Feature, SubscriptionPlan } from '../types/api';
+
+export type PricePeriod = 'Monthly' | 'Quarterly' | 'Yearly';
+
+export const PRICE_PERIODS: PricePeriod[] = ['Monthly', 'Quarterly', 'Yearly'];
+
+// Mirrors the server: plans without a quarterly or yearly price bill the monthly price per month
+export const planPrice = (plan: SubscriptionPlan, period: PricePeriod) => {
+  switch (period) {
+    case 'Quarterly':
+      return plan.quarterlyPrice ?? plan.monthlyPrice * 3;
+    case 'Yearly':
+      return plan.yearlyPrice ?? plan.monthlyPrice * 12;
+    default:
+      return plan.monthlyPrice;
+  }
+};
+
+// Saving against paying monthly for the same span, as a whole percentage
+export const periodSaving = (plan: SubscriptionPlan, period: PricePeriod) => {
+  const months = period === 'Yearly' ? 12 : period === 'Quarterly' ? 3 : 1;
+  const full = plan.monthlyPrice * months;
+  return full > 0 ? Math.round(((full - planPrice(plan, period)) / full) * 100) : 0;
+};
+
+// Plan feature values are strings: "true", a tier name, or a limit
+export const isFeatureIncluded = (feature: Feature) => {
+  const value = feature.value?.trim().toLowerCase();
+  return !!value && value !== 'false' && value !== 'none' && value !== '0';
+};
+
+export const subscriptionStatusColor = (status: string) =>
+  ({ Active: 'green', Trialing: 'blue', PastDue: 'orange', Unpaid: 'red', Canceled: 'default', Expired: 'default' } as Record<string, string>)[status] ?? 'default';
@@ -0,0 +1,25 @@
+export const EXPENSE_CATEGORIES = [
+  'Travel',
+  'Meals',
+  'Accommodation',
+  'Transport',
+  'Office Supplies',
+  'Software',
+  'Training',
+  'Other',
+];
+
+// Mirrors the server-side receipt checks so bad files are rejected before upload
+export const RECEIPT_ACCEPT = 'image/jpeg,image/png,image/gif,image/webp,image/heic,application/pdf';
+export const MAX_RECEIPT_BYTES = 5 * 1024 * 1024;
+
+export const expenseStatusColor = (status: string) => {
+  if (status === 'Approved') return 'green';
+  if (status === 'Rejected') return 'red';
+  if (status === 'Pending') return 'orange';
+  if (status === 'Reimbursed') return 'blue';
+  return 'default';
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
@@ -0,0 +1,47 @@
+// Allow-list sanitizer for rich text authored in the app (notice board).
+// Anything not listed is unwrapped (text kept) or, for script-like elements, dropped entirely.
+
+const ALLOWED_TAGS = new Set([
+  'P', 'BR', 'DIV', 'SPAN', 'B', 'STRONG', 'I', 'EM', 'U', 'S', 'STRIKE',
+  'H1', 'H2', 'H3', 'H4', 'UL', 'OL', 'LI', 'BLOCKQUOTE', 'A', 'HR',
+]);
+
+const DROPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'IFRAME', 'OBJECT', 'EMBED', 'TEMPLATE', 'SVG', 'MATH']);
+
+const SAFE_URL = /^(https?:|mailto:|tel:|\/|#)/i;
+
+const cleanNode = (node: Element) => {
+  Array.from(node.children).forEach(child => {
+    if (DROPPED_TAGS.has(child.tagName)) {
+      child.remove();
+      return;
+    }
+
+    cleanNode(child);
+
+    if (!ALLOWED_TAGS.has(child.tagName)) {
+      child.replaceWith(...Array.from(child.childNodes));
+      return;
+    }
+
+    Array.from(child.attributes).forEach(attr => {
+      if (child.tagName === 'A' && attr.name === 'href' && SAFE_URL.test(attr.value.trim())) return;
+      child.removeAttribute(attr.name);
+    });
+
+    if (child.tagName === 'A') {
+      child.setAttribute('target', '_blank');
+      child.setAttribute('rel', 'noopener noreferrer');
+    }
+  });
+};
+
+export const sanitizeHtml = (html: string) => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  cleanNode(doc.body);
+  return doc.body.innerHTML;
+};
+
+// True when the markup has no visible text, e.g. an editor left with only "<p><br></p>"
+export const isBlankHtml = (html?: string) =>
+  !html || new DOMParser().parseFromString(html, 'text/html').body.textContent?.trim() === '';
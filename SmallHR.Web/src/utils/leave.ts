@@ -0,0 +1,91 @@
+import dayjs from 'dayjs';
+import type { Dayjs } from 'dayjs';
+import type { LeavePolicy } from '../types/api';
+
+export const LEAVE_TYPES = ['Annual', 'Sick', 'Personal', 'Maternity', 'Paternity', 'Unpaid'];
+
+// Mirrors the server calculation: inclusive calendar days
+export function countLeaveDays(start?: Dayjs | null, end?: Dayjs | null): number {
+  if (!start || !end || end.isBefore(start, 'day')) return 0;
+  return end.startOf('day').diff(start.startOf('day'), 'day') + 1;
+}
+
+// Days of a range that fall in the given year; requests crossing New Year count towards both years
+export function leaveDaysInYear(start: Dayjs, end: Dayjs, year: number): number {
+  const from = start.year() < year ? dayjs(new Date(year, 0, 1)) : start;
+  const to = end.year() > year ? dayjs(new Date(year, 11, 31)) : end;
+  return countLeaveDays(from, to);
+}
+
+export interface LeaveBalance {
+  leaveType: string;
+  // Days earned by the as-of date in its year, including carry-over
+  entitlement: number;
+  carriedOver: number;
+  used: number;
+  pending: number;
+  available: number;
+  inProbation: boolean;
+  // True when probation rules block requests of this type on the as-of date
+  blocked: boolean;
+  probationEndsOn?: string;
+}
+
+interface LeaveBalanceInput {
+  policy: LeavePolicy;
+  hireDate: string;
+  usedThisYear: number;
+  usedLastYear: number;
+  pending?: number;
+  asOf?: Dayjs;
+}
+
+const roundToHalfDay = (days: number) => Math.round(days * 2) / 2;
+
+// Full-year entitlement, reduced by the months before the hire date when the policy pro-rates
+function yearEntitlement(policy: LeavePolicy, hireDate: Dayjs, year: number): number {
+  if (hireDate.year() > year) return 0;
+  if (hireDate.year() < year || !policy.proRateFromHireDate) return policy.annualEntitlement;
+  return (policy.annualEntitlement * (12 - hireDate.month())) / 12;
+}
+
+export function computeLeaveBalance({
+  policy,
+  hireDate,
+  usedThisYear,
+  usedLastYear,
+  pending = 0,
+  asOf = dayjs(),
+}: LeaveBalanceInput): LeaveBalance {
+  const hire = dayjs(hireDate);
+  const year = asOf.year();
+  const fullYear = yearEntitlement(policy, hire, year);
+
+  let earned = fullYear;
+  if (policy.accrualPerMonth > 0) {
+    // Accrual is credited at the start of each month, from January or the hire month
+    const accrualStart = policy.proRateFromHireDate && hire.year() === year ? hire.startOf('month') : asOf.startOf('year');
+    const months = hire.year() > year ? 0 : asOf.startOf('month').diff(accrualStart, 'month') + 1;
+    earned = Math.min(fullYear, policy.accrualPerMonth * Math.max(0, months));
+  }
+
+  const unusedLastYear = Math.max(0, yearEntitlement(policy, hire, year - 1) - usedLastYear);
+  const carriedOver = roundToHalfDay(Math.min(policy.maxCarryOver, unusedLastYear));
+
+  const probationEnd = hire.add(policy.probationMonths, 'month');
+  const inProbation = policy.probationMonths > 0 && asOf.isBefore(probationEnd, 'day');
+  const blocked = inProbation && !policy.allowDuringProbation;
+
+  const entitlement = roundToHalfDay(earned) + carriedOver;
+  return {
+    leaveType: policy.leaveType,
+    entitlement,
+    carriedOver,
+    used: usedThisYear,
+    pending,
+    available: blocked ? 0 : Math.max(0, entitlement - usedThisYear - pending),
+    inProbation,
+    blocked,
+    probationEndsOn: inProbation ? probationEnd.format('YYYY-MM-DD') : undefined,
+  };
+}
@@ -0,0 +1,19 @@
+import type { NotificationCategory } from '../types/api';
+
+interface NotificationCategoryInfo {
+  value: NotificationCategory;
+  label: string;
+  description: string;
+  color: string;
+}
+
+// Must match NotificationCategories on the API
+export const NOTIFICATION_CATEGORIES: NotificationCategoryInfo[] = [
+  { value: 'leave', label: 'Leave', description: 'Decisions on your leave requests', color: 'green' },
+  { value: 'employees', label: 'Employees', description: 'People joining a department you head', color: 'blue' },
+  { value: 'billing', label: 'Billing', description: 'Failed payments and subscription changes', color: 'red' },
+  { value: 'general', label: 'General', description: 'Confirmations of actions you take in the app', color: 'default' },
+];
+
+export const notificationCategoryInfo = (category: NotificationCategory) =>
+  NOTIFICATION_CATEGORIES.find(c => c.value === category) ?? NOTIFICATION_CATEGORIES[NOTIFICATION_CATEGORIES.length - 1];
@@ -0,0 +1,87 @@
+import type { Department, Employee } from '../types/api';
+
+export const UNASSIGNED_DEPARTMENT = 'Unassigned';
+
+export type OrgNode =
+  | { key: string; type: 'department'; department: Department; headcount: number; children: OrgNode[] }
+  | { key: string; type: 'employee'; employee: Employee; manager?: Employee; children: OrgNode[] };
+
+export const departmentKey = (name: string) => `dept:${name}`;
+export const employeeKey = (id: number) => `emp:${id}`;
+
+// Departments at the top; inside each one, people hang under their manager when the manager sits in
+// the same department. Cross-department reports start their own branch and keep a pointer to the manager.
+export function buildOrgTree(departments: Department[], employees: Employee[]): OrgNode[] {
+  const byId = new Map(employees.map(e => [e.id, e]));
+  const knownDepartments = new Set(departments.map(d => d.name));
+  const departmentOf = (e: Employee) => (knownDepartments.has(e.department) ? e.department : UNASSIGNED_DEPARTMENT);
+
+  const reportsTo = new Map<number, Employee[]>();
+  const roots = new Map<string, Employee[]>();
+  for (const employee of employees) {
+    const manager = employee.managerId ? byId.get(employee.managerId) : undefined;
+    if (manager && departmentOf(manager) === departmentOf(employee)) {
+      reportsTo.set(manager.id, [...(reportsTo.get(manager.id) ?? []), employee]);
+    } else {
+      const department = departmentOf(employee);
+      roots.set(department, [...(roots.get(department) ?? []), employee]);
+    }
+  }
+
+  const byName = (a: Employee, b: Employee) =>
+    `${a.firstName} ${a.lastName}`.localeCompare(`${b.firstName} ${b.lastName}`);
+
+  const toNode = (employee: Employee, seen: Set<number>): OrgNode => {
+    seen.add(employee.id);
+    const children = (reportsTo.get(employee.id) ?? []).filter(e => !seen.has(e.id)).sort(byName);
+    return {
+      key: employeeKey(employee.id),
+      type: 'employee',
+      employee,
+      manager: employee.managerId ? byId.get(employee.managerId) : undefined,
+      children: children.map(child => toNode(child, seen)),
+    };
+  };
+
+  const departmentNode = (department: Department): OrgNode => {
+    const members = employees.filter(e => departmentOf(e) === department.name);
+    // The head leads the branch even when no manager is recorded for them
+    const top = [...(roots.get(department.name) ?? [])].sort((a, b) =>
+      a.id === department.headOfDepartmentId ? -1 : b.id === department.headOfDepartmentId ? 1 : byName(a, b)
+    );
+    const seen = new Set<number>();
+    const children = top.map(e => toNode(e, seen));
+    // Anyone left belongs to a reporting loop inside the department; show them flat rather than drop them
+    members.filter(e => !seen.has(e.id)).sort(byName).forEach(e => children.push(toNode(e, seen)));
+    return { key: departmentKey(department.name), type: 'department', department, headcount: members.length, children };
+  };
+
+  const nodes = [...departments].sort((a, b) => a.name.localeCompare(b.name)).map(departmentNode);
+  if (roots.has(UNASSIGNED_DEPARTMENT)) {
+    nodes.push(departmentNode({ id: 0, name: UNASSIGNED_DEPARTMENT, isActive: true }));
+  }
+  return nodes;
+}
+
+// Keys from the root down to the node, or an empty list when it is not in the tree
+export function findPath(nodes: OrgNode[], key: string): string[] {
+  for (const node of nodes) {
+    if (node.key === key) return [node.key];
+    const path = findPath(node.children, key);
+    if (path.length > 0) return [node.key, ...path];
+  }
+  return [];
+}
+
+// True when `candidate` sits somewhere below `employeeId` in the reporting chain
+export function isInReportingChain(employees: Employee[], employeeId: number, candidate: Employee): boolean {
+  const byId = new Map(employees.map(e => [e.id, e]));
+  const seen = new Set<number>();
+  let current: Employee | undefined = candidate;
+  while (current?.managerId && !seen.has(current.id)) {
+    if (current.managerId === employeeId) return true;
+    seen.add(current.id);
+    current = byId.get(current.managerId);
+  }
+  return false;
+}
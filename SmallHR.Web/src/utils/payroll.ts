@@ -0,0 +1,17 @@
+import dayjs from 'dayjs';
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'INR', 'PKR', 'AED'];
+
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown ISO codes make Intl throw; fall back to a plain amount
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
+
+export const periodLabel = (year: number, month: number) =>
+  dayjs(new Date(year, month - 1, 1)).format('MMMM YYYY');
+
+export const payRunStatusColor = (status: string) => (status === 'Finalized' ? 'green' : 'gold');
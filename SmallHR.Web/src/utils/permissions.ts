@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import dayjs from 'dayjs';
+import { saveBlob } from './files';
+import type { RolePermission } from '../types/api';
+
+export type PermissionFlag = 'canAccess' | 'canView' | 'canCreate' | 'canEdit' | 'canDelete';
+
+export const PERMISSION_FLAGS: { flag: PermissionFlag; title: string }[] = [
+  { flag: 'canAccess', title: 'Access' },
+  { flag: 'canView', title: 'View' },
+  { flag: 'canCreate', title: 'Create' },
+  { flag: 'canEdit', title: 'Edit' },
+  { flag: 'canDelete', title: 'Delete' },
+];
+
+// The parts of a permission row that make up the matrix; snapshots and exports carry only these
+export type PermissionEntry = Pick<RolePermission, 'roleName' | 'pagePath' | 'pageName' | PermissionFlag>;
+
+export interface PermissionChange {
+  key: string;
+  roleName: string;
+  pagePath: string;
+  pageName: string;
+  flag: PermissionFlag;
+  from: boolean;
+  to: boolean;
+}
+
+const entryKey = (p: Pick<PermissionEntry, 'roleName' | 'pagePath'>) => `${p.roleName}|${p.pagePath}`;
+
+// Flag-by-flag differences; a row missing on one side counts as all flags off
+export const diffPermissions = (before: PermissionEntry[], after: PermissionEntry[]): PermissionChange[] => {
+  const beforeByKey = new Map(before.map(p => [entryKey(p), p]));
+  const afterByKey = new Map(after.map(p => [entryKey(p), p]));
+  const keys = Array.from(new Set([...beforeByKey.keys(), ...afterByKey.keys()]));
+
+  const changes: PermissionChange[] = [];
+  keys.forEach(key => {
+    const from = beforeByKey.get(key);
+    const to = afterByKey.get(key);
+    const row = (to ?? from)!;
+    PERMISSION_FLAGS.forEach(({ flag }) => {
+      const oldValue = from?.[flag] ?? false;
+      const newValue = to?.[flag] ?? false;
+      if (oldValue !== newValue) {
+        changes.push({
+          key: `${key}|${flag}`,
+          roleName: row.roleName,
+          pagePath: row.pagePath,
+          pageName: row.pageName,
+          flag,
+          from: oldValue,
+          to: newValue,
+        });
+      }
+    });
+  });
+
+  return changes.sort((a, b) =>
+    a.roleName.localeCompare(b.roleName) || a.pagePath.localeCompare(b.pagePath)
+  );
+};
+
+const rolePermissionExportSchema = z.object({
+  roleName: z.string(),
+  exportedAt: z.string().optional(),
+  permissions: z.array(z.object({
+    pagePath: z.string(),
+    pageName: z.string().optional(),
+    canAccess: z.boolean(),
+    canView: z.boolean(),
+    canCreate: z.boolean(),
+    canEdit: z.boolean(),
+    canDelete: z.boolean(),
+  })),
+});
+
+export type RolePermissionExport = z.infer<typeof rolePermissionExportSchema>;
+
+export const exportRolePermissions = (roleName: string, permissions: PermissionEntry[]) => {
+  const data: RolePermissionExport = {
+    roleName,
+    exportedAt: new Date().toISOString(),
+    permissions: permissions.map(({ pagePath, pageName, canAccess, canView, canCreate, canEdit, canDelete }) => ({
+      pagePath, pageName, canAccess, canView, canCreate, canEdit, canDelete,
+    })),
+  };
+  const slug = roleName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  saveBlob(
+    new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }),
+    `permissions-${slug}-${dayjs().format('YYYYMMDD')}.json`
+  );
+};
+
+// Throws when the file is not JSON or not in the export format
+export const parseRolePermissionExport = (text: string): RolePermissionExport =>
+  rolePermissionExportSchema.parse(JSON.parse(text));
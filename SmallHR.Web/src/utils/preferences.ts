@@ -0,0 +1,36 @@
+import dayjs from 'dayjs';
+import type { ConfigType } from 'dayjs';
+import { useAuthStore } from '../store/authStore';
+import type { UserPreferences } from '../types/api';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  themeMode: 'light',
+  palette: 'default',
+  dateFormat: 'DD MMM YYYY',
+  timeFormat: '24h',
+  mutedNotificationCategories: [],
+};
+
+// Must match the formats the server accepts
+export const DATE_FORMATS = ['DD MMM YYYY', 'DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+export const DEFAULT_LANDING_PAGE = '/dashboard';
+
+// Read from the store at call time so table renderers defined outside components stay current
+export const getPreferences = (): UserPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...useAuthStore.getState().user?.preferences,
+});
+
+export const getLandingPage = () => getPreferences().landingPage || DEFAULT_LANDING_PAGE;
+
+const timePattern = (timeFormat: UserPreferences['timeFormat']) => (timeFormat === '12h' ? 'h:mm A' : 'HH:mm');
+
+export const formatDate = (value: ConfigType) => dayjs(value).format(getPreferences().dateFormat);
+
+export const formatTime = (value: ConfigType) => dayjs(value).format(timePattern(getPreferences().timeFormat));
+
+export const formatDateTime = (value: ConfigType) => {
+  const { dateFormat, timeFormat } = getPreferences();
+  return dayjs(value).format(`${dateFormat}, ${timePattern(timeFormat)}`);
+};
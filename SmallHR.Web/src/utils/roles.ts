@@ -0,0 +1,20 @@
+import type { User } from '../types/api';
+
+export const SUPER_ADMIN_ROLE = 'SuperAdmin';
+
+// Roles every tenant has; anything else was created in Role Permissions
+export const BUILT_IN_ROLES = [SUPER_ADMIN_ROLE, 'Admin', 'HR', 'Employee'];
+
+export const roleColor = (role: string) =>
+  role === SUPER_ADMIN_ROLE ? 'purple' :
+  role === 'Admin' ? 'red' :
+  role === 'HR' ? 'orange' :
+  role === 'Employee' ? 'green' : 'blue';
+
+// The roles the user is acting in: the one picked in the header, or all of them
+export const getEffectiveRoles = (user: User | null, activeRole: string | null): string[] => {
+  const roles = user?.roles ?? [];
+  return activeRole && roles.includes(activeRole) ? [activeRole] : roles;
+};
+
+export const roleLabel = (roles: string[]) => (roles.length > 0 ? roles.join(' + ') : 'User');
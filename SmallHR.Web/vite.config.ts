@@ -3,7 +3,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
-  const target = env.VITE_API_BASE || 'http://localhost:5173';
+  // Only used when VITE_API_BASE is unset and the client calls relative /api
+  const target = env.VITE_API_BASE || 'http://localhost:5192';
 
   return {
     plugins: [react()],